@@ -10,6 +10,7 @@ import DashboardPage from './pages/DashboardPage'
 import GeneratePage from './pages/GeneratePage'
 import CreditsPage from './pages/CreditsPage'
 import LibraryPage from './pages/LibraryPage'
+import SchemaAuditPage from './pages/SchemaAuditPage'
 import SettingsPage from './pages/SettingsPage'
 import AdminLayout from './components/AdminLayout'
 import AdminAnalytics from './pages/admin/AdminAnalytics'
@@ -18,10 +19,13 @@ import AdminMonitoring from './pages/admin/AdminMonitoring'
 import AdminTickets from './pages/admin/AdminTickets'
 import AdminContent from './pages/admin/AdminContent'
 import AdminPrivateBetaRequests from './pages/admin/AdminPrivateBetaRequests'
+import AdminAIPlatforms from './pages/admin/AdminAIPlatforms'
 import HubSpotPage from './pages/HubSpotPage'
 import HubSpotCallbackPage from './pages/HubSpotCallbackPage'
 import HubSpotInstallPage from './pages/HubSpotInstallPage'
+import WordPressPage from './pages/WordPressPage'
 import AIAnalyticsPage from './pages/AIAnalyticsPage'
+import AIPortfolioPage from './pages/AIPortfolioPage'
 import GA4ConnectPage from './pages/GA4ConnectPage'
 import GA4CallbackPage from './pages/GA4CallbackPage'
 import WhatsNewPage from './pages/WhatsNewPage'
@@ -162,6 +166,13 @@ function AppContent() {
             </Layout>
           } />
 
+          {/* Schema Audit - Site-wide audit of a domain's existing markup */}
+          <Route path="/audit" element={
+            <Layout>
+              <SchemaAuditPage />
+            </Layout>
+          } />
+
           {/* HubSpot - Standalone route at root level */}
           <Route path="/hubspot" element={
             <Layout>
@@ -169,6 +180,13 @@ function AppContent() {
             </Layout>
           } />
 
+          {/* WordPress */}
+          <Route path="/wordpress" element={
+            <Layout>
+              <WordPressPage />
+            </Layout>
+          } />
+
           {/* HubSpot OAuth Callback - No layout needed */}
           <Route path="/hubspot/callback" element={<HubSpotCallbackPage />} />
 
@@ -182,6 +200,12 @@ function AppContent() {
             </Layout>
           } />
 
+          <Route path="/ai-visibility/portfolio" element={
+            <Layout>
+              <AIPortfolioPage />
+            </Layout>
+          } />
+
           {/* TODO: Remove this redirect after 30-60 days (added 2025-01-26) */}
           <Route path="/ai-analytics" element={<Navigate to="/ai-visibility" replace />} />
 
@@ -250,6 +274,7 @@ function AppContent() {
             <Route path="tickets" element={<AdminTickets />} />
             <Route path="content" element={<AdminContent />} />
             <Route path="beta-requests" element={<AdminPrivateBetaRequests />} />
+            <Route path="ai-platforms" element={<AdminAIPlatforms />} />
           </Route>
 
           {/* Fallback route */}
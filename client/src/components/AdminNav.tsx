@@ -5,7 +5,8 @@ import {
   Activity,
   MessageSquare,
   FileText,
-  Rocket
+  Rocket,
+  Bot
 } from 'lucide-react'
 import { useAdminBadgeCounts } from '@/hooks/useAdminBadgeCounts'
 import AdminBadge from './AdminBadge'
@@ -28,6 +29,7 @@ export default function AdminNav() {
     { to: '/admin/tickets', label: 'Tickets', icon: MessageSquare, badgeCount: ticketsCount },
     { to: '/admin/content', label: 'Content', icon: FileText },
     { to: '/admin/beta-requests', label: 'Beta Requests', icon: Rocket },
+    { to: '/admin/ai-platforms', label: 'AI Platforms', icon: Bot },
   ]
   return (
     <nav className="border-b border-border bg-card">
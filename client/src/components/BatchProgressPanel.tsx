@@ -1,31 +1,113 @@
-import { CheckCircle, Loader2, XCircle, Clock, Eye, X } from 'lucide-react'
+import { useEffect, useRef } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { CheckCircle, Loader2, XCircle, Clock, Eye, X, Pause, Play, Square, RotateCcw, Ban } from 'lucide-react'
 import { useNavigate } from 'react-router-dom'
+import { toast } from 'react-hot-toast'
+import type { BatchJobItemStatus, BatchJobStatus } from '@shared/types'
+import { apiService } from '@/services/api'
 import { cn } from '@/utils/cn'
 
-interface BatchResult {
-  url: string
-  status: 'queued' | 'processing' | 'success' | 'failed'
-  schemas?: any[]
-  error?: string
-  urlId?: string
-}
-
 interface BatchProgressPanelProps {
-  results: BatchResult[]
-  isProcessing: boolean
+  jobId: string
   onClose: () => void
+  onComplete?: () => void
 }
 
-export default function BatchProgressPanel({ results, isProcessing, onClose }: BatchProgressPanelProps) {
+const POLL_INTERVAL_MS = 2000
+
+const ACTIVE_STATUSES: BatchJobStatus[] = ['queued', 'running']
+
+export default function BatchProgressPanel({ jobId, onClose, onComplete }: BatchProgressPanelProps) {
   const navigate = useNavigate()
+  const queryClient = useQueryClient()
+  const previousStatus = useRef<BatchJobStatus | null>(null)
+
+  const { data: jobData, isLoading, isError } = useQuery({
+    queryKey: ['batch-job', jobId],
+    queryFn: () => apiService.getBatchJob(jobId),
+    // Keep polling while the worker has something to do - the job keeps running server-side either way
+    refetchInterval: (query) => {
+      const status = query.state.data?.data?.job.status
+      return status && !ACTIVE_STATUSES.includes(status) ? false : POLL_INTERVAL_MS
+    }
+  })
+
+  const job = jobData?.data?.job
+  const items = jobData?.data?.items || []
+
+  // Notify once when the job finishes while we're watching it
+  useEffect(() => {
+    if (!job) return
+    if (previousStatus.current && ACTIVE_STATUSES.includes(previousStatus.current) && job.status === 'completed') {
+      toast.success(
+        `Batch complete! ${job.successCount} succeeded${job.failedCount > 0 ? `, ${job.failedCount} failed` : ''}`
+      )
+      onComplete?.()
+    }
+    previousStatus.current = job.status
+  }, [job, onComplete])
+
+  const refreshJob = () => queryClient.invalidateQueries({ queryKey: ['batch-job', jobId] })
+
+  const actionMutation = useMutation({
+    mutationFn: (action: 'pause' | 'resume' | 'cancel' | 'retry') => {
+      switch (action) {
+        case 'pause':
+          return apiService.pauseBatchJob(jobId)
+        case 'resume':
+          return apiService.resumeBatchJob(jobId)
+        case 'cancel':
+          return apiService.cancelBatchJob(jobId)
+        case 'retry':
+          return apiService.retryBatchJob(jobId)
+      }
+    },
+    onSuccess: (response) => {
+      if (response.message) toast.success(response.message)
+      refreshJob()
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to update batch job')
+      refreshJob()
+    }
+  })
+
+  if (isLoading || !job) {
+    return (
+      <div className="bg-card border border-border rounded-lg p-6 mt-4">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground flex items-center gap-2">
+            {isError ? (
+              'Could not load batch job'
+            ) : (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading batch job...
+              </>
+            )}
+          </p>
+          {isError && (
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-accent rounded-md transition-colors"
+              title="Close"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+      </div>
+    )
+  }
 
-  const totalUrls = results.length
-  const completedUrls = results.filter(r => r.status === 'success' || r.status === 'failed').length
-  const successCount = results.filter(r => r.status === 'success').length
-  const failedCount = results.filter(r => r.status === 'failed').length
+  const isActive = ACTIVE_STATUSES.includes(job.status)
+  const totalUrls = job.totalUrls
+  const successCount = job.successCount
+  const failedCount = job.failedCount
+  const completedUrls = successCount + failedCount
   const progress = totalUrls > 0 ? (completedUrls / totalUrls) * 100 : 0
 
-  const getStatusIcon = (status: string) => {
+  const getStatusIcon = (status: BatchJobItemStatus) => {
     switch (status) {
       case 'queued':
         return <Clock className="h-4 w-4 text-muted-foreground" />
@@ -35,12 +117,14 @@ export default function BatchProgressPanel({ results, isProcessing, onClose }: B
         return <CheckCircle className="h-4 w-4 text-green-500" />
       case 'failed':
         return <XCircle className="h-4 w-4 text-red-500" />
+      case 'cancelled':
+        return <Ban className="h-4 w-4 text-muted-foreground" />
       default:
         return null
     }
   }
 
-  const getStatusText = (status: string) => {
+  const getStatusText = (status: BatchJobItemStatus) => {
     switch (status) {
       case 'queued':
         return 'Queued'
@@ -50,12 +134,14 @@ export default function BatchProgressPanel({ results, isProcessing, onClose }: B
         return 'Complete'
       case 'failed':
         return 'Failed'
+      case 'cancelled':
+        return 'Skipped'
       default:
         return status
     }
   }
 
-  const getStatusColor = (status: string) => {
+  const getStatusColor = (status: BatchJobItemStatus) => {
     switch (status) {
       case 'queued':
         return 'text-muted-foreground'
@@ -70,39 +156,123 @@ export default function BatchProgressPanel({ results, isProcessing, onClose }: B
     }
   }
 
+  const jobLabel = job.options?.mode === 'import' ? 'Schema Import' : 'Batch Generation'
+
+  const getHeading = () => {
+    switch (job.status) {
+      case 'queued':
+        return (
+          <>
+            <Clock className="h-5 w-5 text-muted-foreground" />
+            {jobLabel} Queued
+          </>
+        )
+      case 'running':
+        return (
+          <>
+            <Loader2 className="h-5 w-5 text-primary animate-spin" />
+            {jobLabel} in Progress
+          </>
+        )
+      case 'paused':
+        return (
+          <>
+            <Pause className="h-5 w-5 text-orange-500" />
+            {jobLabel} Paused
+          </>
+        )
+      case 'cancelled':
+        return (
+          <>
+            <Ban className="h-5 w-5 text-muted-foreground" />
+            {jobLabel} Cancelled
+          </>
+        )
+      default:
+        return (
+          <>
+            <CheckCircle className="h-5 w-5 text-green-500" />
+            {jobLabel} Complete
+          </>
+        )
+    }
+  }
+
   return (
     <div className="bg-card border border-border rounded-lg p-6 mt-4">
       {/* Header */}
       <div className="flex items-center justify-between mb-4">
         <div>
           <h3 className="text-lg font-semibold flex items-center gap-2">
-            {isProcessing ? (
-              <>
-                <Loader2 className="h-5 w-5 text-primary animate-spin" />
-                Batch Generation in Progress
-              </>
-            ) : (
-              <>
-                <CheckCircle className="h-5 w-5 text-green-500" />
-                Batch Generation Complete
-              </>
-            )}
+            {getHeading()}
           </h3>
           <p className="text-sm text-muted-foreground mt-1">
             {completedUrls} of {totalUrls} URLs processed
             {successCount > 0 && ` • ${successCount} succeeded`}
             {failedCount > 0 && ` • ${failedCount} failed`}
           </p>
+          {isActive && (
+            <p className="text-xs text-muted-foreground mt-1">
+              This batch keeps running on our servers - you can close this tab and check back later.
+            </p>
+          )}
+          {job.status === 'paused' && job.pauseReason && (
+            <p className="text-xs text-orange-600 mt-1">{job.pauseReason}</p>
+          )}
         </div>
-        {!isProcessing && (
+        <div className="flex items-center gap-2">
+          {isActive && (
+            <button
+              onClick={() => actionMutation.mutate('pause')}
+              disabled={actionMutation.isPending}
+              className="flex items-center gap-1 px-3 py-1.5 border border-border rounded-md hover:bg-accent transition-colors text-sm disabled:opacity-50"
+              title="Pause"
+            >
+              <Pause className="h-3 w-3" />
+              Pause
+            </button>
+          )}
+          {job.status === 'paused' && (
+            <button
+              onClick={() => actionMutation.mutate('resume')}
+              disabled={actionMutation.isPending}
+              className="flex items-center gap-1 px-3 py-1.5 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors text-sm disabled:opacity-50"
+              title="Resume"
+            >
+              <Play className="h-3 w-3" />
+              Resume
+            </button>
+          )}
+          {(isActive || job.status === 'paused') && (
+            <button
+              onClick={() => actionMutation.mutate('cancel')}
+              disabled={actionMutation.isPending}
+              className="flex items-center gap-1 px-3 py-1.5 border border-destructive/50 text-destructive rounded-md hover:bg-destructive/10 transition-colors text-sm disabled:opacity-50"
+              title="Cancel remaining URLs"
+            >
+              <Square className="h-3 w-3" />
+              Cancel
+            </button>
+          )}
+          {job.status !== 'cancelled' && !isActive && failedCount > 0 && (
+            <button
+              onClick={() => actionMutation.mutate('retry')}
+              disabled={actionMutation.isPending}
+              className="flex items-center gap-1 px-3 py-1.5 border border-border rounded-md hover:bg-accent transition-colors text-sm disabled:opacity-50"
+              title="Retry failed URLs"
+            >
+              <RotateCcw className="h-3 w-3" />
+              Retry Failed
+            </button>
+          )}
           <button
             onClick={onClose}
             className="p-2 hover:bg-accent rounded-md transition-colors"
-            title="Close"
+            title={isActive ? 'Hide (the batch keeps running)' : 'Close'}
           >
             <X className="h-4 w-4" />
           </button>
-        )}
+        </div>
       </div>
 
       {/* Progress Bar */}
@@ -111,7 +281,7 @@ export default function BatchProgressPanel({ results, isProcessing, onClose }: B
           <div
             className={cn(
               "h-full transition-all duration-500",
-              isProcessing ? "bg-primary" : successCount === totalUrls ? "bg-green-500" : "bg-orange-500"
+              isActive ? "bg-primary" : successCount === totalUrls ? "bg-green-500" : "bg-orange-500"
             )}
             style={{ width: `${progress}%` }}
           />
@@ -120,34 +290,34 @@ export default function BatchProgressPanel({ results, isProcessing, onClose }: B
 
       {/* Results List */}
       <div className="space-y-2 max-h-96 overflow-y-auto">
-        {results.map((result, index) => (
+        {items.map((item) => (
           <div
-            key={index}
+            key={item.id}
             className={cn(
               "flex items-center justify-between p-3 rounded-md border transition-colors",
-              result.status === 'success' && "bg-success/10 border-success/30 dark:bg-success/5 dark:border-success/20",
-              result.status === 'failed' && "bg-destructive/10 border-destructive/30 dark:bg-destructive/5 dark:border-destructive/20",
-              (result.status === 'queued' || result.status === 'processing') && "bg-muted/30 border-border"
+              item.status === 'success' && "bg-success/10 border-success/30 dark:bg-success/5 dark:border-success/20",
+              item.status === 'failed' && "bg-destructive/10 border-destructive/30 dark:bg-destructive/5 dark:border-destructive/20",
+              (item.status === 'queued' || item.status === 'processing' || item.status === 'cancelled') && "bg-muted/30 border-border"
             )}
           >
             <div className="flex items-center gap-3 flex-1 min-w-0">
-              {getStatusIcon(result.status)}
+              {getStatusIcon(item.status)}
               <div className="flex-1 min-w-0">
-                <p className="text-sm font-medium truncate" title={result.url}>
-                  {result.url}
+                <p className="text-sm font-medium truncate" title={item.url}>
+                  {item.url}
                 </p>
-                {result.error && (
-                  <p className="text-xs text-destructive mt-1">{result.error}</p>
+                {item.error && (
+                  <p className="text-xs text-destructive mt-1">{item.error}</p>
                 )}
               </div>
             </div>
             <div className="flex items-center gap-3">
-              <span className={cn("text-xs font-medium", getStatusColor(result.status))}>
-                {getStatusText(result.status)}
+              <span className={cn("text-xs font-medium", getStatusColor(item.status))}>
+                {getStatusText(item.status)}
               </span>
-              {result.status === 'success' && result.urlId && (
+              {item.status === 'success' && item.discoveredUrlId && (
                 <button
-                  onClick={() => navigate(`/library?urlId=${result.urlId}`)}
+                  onClick={() => navigate(`/library?urlId=${item.discoveredUrlId}`)}
                   className="flex items-center px-2 py-1 rounded border border-primary text-primary bg-transparent hover:bg-primary/10 transition-colors"
                   title="View schema"
                 >
@@ -161,7 +331,7 @@ export default function BatchProgressPanel({ results, isProcessing, onClose }: B
       </div>
 
       {/* Summary Message */}
-      {!isProcessing && (
+      {job.status === 'completed' && (
         <div className={cn(
           "mt-4 p-3 rounded-md border",
           successCount === totalUrls
@@ -179,7 +349,7 @@ export default function BatchProgressPanel({ results, isProcessing, onClose }: B
           </p>
           {failedCount > 0 && (
             <p className="text-xs text-muted-foreground mt-1">
-              {failedCount} URL{failedCount > 1 ? 's' : ''} failed. Check the error messages above.
+              {failedCount} URL{failedCount > 1 ? 's' : ''} failed. Check the error messages above or retry them.
             </p>
           )}
         </div>
@@ -0,0 +1,151 @@
+import { useState } from 'react'
+import { useMutation } from '@tanstack/react-query'
+import { X, FileText, Download, Loader2 } from 'lucide-react'
+import { toast } from 'react-hot-toast'
+import type { ClientReportFormat, ClientReportPeriod } from '@shared/types'
+import { apiService } from '@/services/api'
+import { cn } from '@/utils/cn'
+
+const FORMAT_OPTIONS: Array<{ value: ClientReportFormat; label: string; description: string }> = [
+  { value: 'pdf', label: 'PDF', description: 'Print-ready A4 document' },
+  { value: 'html', label: 'HTML', description: 'Standalone page to host or edit' }
+]
+
+const PERIOD_OPTIONS: ClientReportPeriod[] = [7, 30, 90]
+
+interface ClientReportModalProps {
+  isOpen: boolean
+  onClose: () => void
+  domain: { id: string; domain: string } | null
+}
+
+/**
+ * Error bodies come back as Blobs because the report request asks for a blob response
+ */
+async function getReportErrorMessage(error: any): Promise<string> {
+  const data = error.response?.data
+  if (data instanceof Blob) {
+    try {
+      return JSON.parse(await data.text()).error || 'Failed to generate report'
+    } catch {
+      return 'Failed to generate report'
+    }
+  }
+  return data?.error || 'Failed to generate report'
+}
+
+export default function ClientReportModal({ isOpen, onClose, domain }: ClientReportModalProps) {
+  const [format, setFormat] = useState<ClientReportFormat>('pdf')
+  const [days, setDays] = useState<ClientReportPeriod>(30)
+
+  const reportMutation = useMutation({
+    mutationFn: () => apiService.downloadClientReport(domain!.id, format, days),
+    onSuccess: (blob) => {
+      const hostname = domain!.domain.replace(/^https?:\/\//, '').replace(/\/.*$/, '')
+
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `${hostname}-client-report.${format}`
+      a.click()
+      URL.revokeObjectURL(url)
+
+      toast.success('Report downloaded')
+      onClose()
+    },
+    onError: async (error: any) => {
+      toast.error(await getReportErrorMessage(error))
+    }
+  })
+
+  if (!isOpen || !domain) return null
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-card border border-border rounded-lg max-w-md w-full shadow-xl">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-border">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 bg-primary/10 rounded-lg">
+              <FileText className="h-5 w-5 text-primary" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold">Client Report</h2>
+              <p className="text-xs text-muted-foreground font-mono">{domain.domain}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-accent rounded-md transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Schema coverage and scores, the latest site audit and GA4 AI referral metrics, branded with your
+            default organization.
+          </p>
+
+          <div className="space-y-2">
+            {FORMAT_OPTIONS.map((option) => (
+              <label
+                key={option.value}
+                className={cn(
+                  'flex items-start space-x-3 p-3 rounded-lg border cursor-pointer transition-colors',
+                  format === option.value ? 'border-primary bg-primary/5' : 'border-border hover:bg-accent/50'
+                )}
+              >
+                <input
+                  type="radio"
+                  name="report-format"
+                  value={option.value}
+                  checked={format === option.value}
+                  onChange={() => setFormat(option.value)}
+                  className="mt-1"
+                />
+                <div>
+                  <p className="text-sm font-medium">{option.label}</p>
+                  <p className="text-xs text-muted-foreground">{option.description}</p>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">AI visibility period</label>
+            <select
+              value={days}
+              onChange={(e) => setDays(Number(e.target.value) as ClientReportPeriod)}
+              className="w-full px-3 py-2 text-sm border border-border rounded-md bg-background"
+            >
+              {PERIOD_OPTIONS.map((period) => (
+                <option key={period} value={period}>Last {period} days</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="flex items-center justify-end space-x-3 p-6 border-t border-border bg-muted/20">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm border border-border rounded-md hover:bg-accent transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => reportMutation.mutate()}
+            disabled={reportMutation.isPending}
+            className="flex items-center space-x-2 px-4 py-2 text-sm bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors font-medium disabled:opacity-50"
+          >
+            {reportMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+            <span>Download</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
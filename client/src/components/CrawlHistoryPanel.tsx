@@ -0,0 +1,132 @@
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { History, GitCompare, Loader2, ChevronDown, ChevronRight } from 'lucide-react'
+import type { CrawledUrl, CrawlStatus } from '@shared/types'
+import { apiService } from '@/services/api'
+import { cn } from '@/utils/cn'
+
+interface CrawlHistoryPanelProps {
+  domain: string
+  /** Crawl currently shown in the discovery list */
+  crawlId: string
+  className?: string
+}
+
+/** Long diffs are truncated - the counts stay exact */
+const MAX_LISTED_URLS = 50
+
+const STATUS_LABELS: Record<CrawlStatus, string> = {
+  in_progress: 'In progress',
+  completed: 'Completed',
+  failed: 'Failed'
+}
+
+function DiffSection({ title, urls, className }: { title: string; urls: string[]; className: string }) {
+  const [isExpanded, setIsExpanded] = useState(false)
+
+  if (urls.length === 0) return null
+
+  return (
+    <div>
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="flex items-center gap-1 text-xs font-medium hover:underline"
+      >
+        {isExpanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        <span className={className}>{urls.length} {title}</span>
+      </button>
+      {isExpanded && (
+        <ul className="mt-1 ml-4 space-y-0.5 max-h-48 overflow-y-auto">
+          {urls.slice(0, MAX_LISTED_URLS).map(url => (
+            <li key={url} className="text-xs text-muted-foreground truncate">{url}</li>
+          ))}
+          {urls.length > MAX_LISTED_URLS && (
+            <li className="text-xs text-muted-foreground">…and {urls.length - MAX_LISTED_URLS} more</li>
+          )}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Crawl History Panel
+ *
+ * Lists earlier crawls of the domain and compares the current crawl with the previous one.
+ */
+export default function CrawlHistoryPanel({ domain, crawlId, className }: CrawlHistoryPanelProps) {
+  const [isOpen, setIsOpen] = useState(false)
+
+  const { data: crawls = [], isLoading } = useQuery({
+    queryKey: ['crawl-history', domain, crawlId],
+    queryFn: async () => (await apiService.getCrawlHistory(domain)).data || [],
+    enabled: isOpen
+  })
+
+  // Newest completed crawl before the current one
+  const currentIndex = crawls.findIndex(crawl => crawl.id === crawlId)
+  const previousCrawl = currentIndex >= 0
+    ? crawls.slice(currentIndex + 1).find(crawl => crawl.status === 'completed')
+    : undefined
+
+  const { data: diff, isLoading: isDiffLoading } = useQuery({
+    queryKey: ['crawl-diff', previousCrawl?.id, crawlId],
+    queryFn: async () => (await apiService.getCrawlDiff(previousCrawl!.id, crawlId)).data,
+    enabled: isOpen && !!previousCrawl
+  })
+
+  const toUrls = (urls: CrawledUrl[]) => urls.map(url => url.url)
+
+  return (
+    <div className={cn('border border-border rounded-md', className)}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between p-3 hover:bg-accent transition-colors text-left"
+      >
+        <span className="flex items-center gap-2 text-sm font-medium">
+          <History className="h-4 w-4 text-muted-foreground" />
+          Crawl history
+        </span>
+        {isOpen ? <ChevronDown className="h-4 w-4 text-muted-foreground" /> : <ChevronRight className="h-4 w-4 text-muted-foreground" />}
+      </button>
+
+      {isOpen && (
+        <div className="p-3 pt-0 space-y-3">
+          {isLoading ? (
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          ) : (
+            <ul className="space-y-1">
+              {crawls.slice(0, 5).map(crawl => (
+                <li key={crawl.id} className={cn('flex items-center justify-between text-xs', crawl.id === crawlId && 'font-medium')}>
+                  <span>{new Date(crawl.startedAt).toLocaleString()}{crawl.id === crawlId && ' (this crawl)'}</span>
+                  <span className="text-muted-foreground" title={crawl.error}>
+                    {crawl.totalFound} URLs • {STATUS_LABELS[crawl.status]}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {previousCrawl && (
+            <div className="pt-2 border-t border-border space-y-1">
+              <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                <GitCompare className="h-3 w-3" />
+                Compared with {new Date(previousCrawl.startedAt).toLocaleString()}
+              </p>
+              {isDiffLoading || !diff ? (
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+              ) : (
+                <>
+                  <DiffSection title="new" urls={toUrls(diff.added)} className="text-success-foreground" />
+                  <DiffSection title="removed" urls={toUrls(diff.removed)} className="text-destructive" />
+                  <DiffSection title="changed" urls={diff.changed.map(change => change.url)} className="text-warning-foreground" />
+                  <p className="text-xs text-muted-foreground">{diff.unchangedCount} unchanged</p>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
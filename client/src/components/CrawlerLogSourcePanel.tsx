@@ -0,0 +1,187 @@
+import { useRef } from 'react'
+import { motion } from 'framer-motion'
+import { Server, Copy, Upload, Trash2, Loader2, ShieldCheck, ShieldAlert } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { cn } from '@/utils/cn'
+import { getIngestUrl, type CrawlerLogMetrics } from '@/services/crawlerLogs'
+import type { CrawlerLogSource } from 'aeo-schema-generator-shared/types'
+
+interface CrawlerLogSourcePanelProps {
+  domain: string
+  source: CrawlerLogSource | null
+  metrics: CrawlerLogMetrics | null
+  onCreate: () => void
+  onUpload: (file: File) => void
+  onDelete: (sourceId: string) => void
+  isCreating?: boolean
+  isUploading?: boolean
+  isDeleting?: boolean
+  className?: string
+}
+
+export default function CrawlerLogSourcePanel({
+  domain,
+  source,
+  metrics,
+  onCreate,
+  onUpload,
+  onDelete,
+  isCreating = false,
+  isUploading = false,
+  isDeleting = false,
+  className = ''
+}: CrawlerLogSourcePanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleCopy = async (value: string) => {
+    try {
+      await navigator.clipboard.writeText(value)
+      toast.success('Ingest URL copied to clipboard')
+    } catch {
+      toast.error('Failed to copy ingest URL')
+    }
+  }
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (file) {
+      onUpload(file)
+    }
+    // Allow re-uploading the same file
+    event.target.value = ''
+  }
+
+  const handleDelete = () => {
+    if (!source) return
+    if (window.confirm(`Delete the server log source for ${source.domain}? All ingested crawler hits will be removed.`)) {
+      onDelete(source.id)
+    }
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5, delay: 0.2 }}
+      className={cn(
+        'bg-card border border-border rounded-2xl p-8',
+        className
+      )}
+    >
+      {/* Header */}
+      <div className="flex items-center gap-3 mb-6">
+        <div className="inline-flex items-center justify-center rounded-xl bg-primary/10 p-3">
+          <Server className="h-6 w-6 text-primary" />
+        </div>
+        <div>
+          <h3 className="text-xl font-bold bg-gradient-to-br from-foreground to-foreground/70 bg-clip-text text-transparent">
+            Server Logs
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            Real AI crawler requests from your access logs, verified against published IP ranges
+          </p>
+        </div>
+      </div>
+
+      {!source ? (
+        <div className="flex flex-col items-center justify-center py-8 text-center">
+          <Server className="h-16 w-16 text-muted-foreground/30 mb-4" />
+          <p className="text-muted-foreground">GA4 doesn't see crawlers that skip JavaScript</p>
+          <p className="text-sm text-muted-foreground/70 mt-1 mb-6">
+            Send or upload access logs for {domain} to see every GPTBot, ClaudeBot and PerplexityBot request
+          </p>
+          <button
+            onClick={onCreate}
+            disabled={isCreating}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+          >
+            {isCreating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Server className="h-4 w-4" />}
+            Set Up Server Logs
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {/* Ingest URL */}
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-2">
+              Log drain URL
+            </label>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 px-3 py-2 rounded-lg bg-muted/30 border border-border text-xs text-foreground break-all">
+                {getIngestUrl(source.ingestKey)}
+              </code>
+              <button
+                onClick={() => handleCopy(getIngestUrl(source.ingestKey))}
+                className="p-2 rounded-lg border border-border hover:bg-muted/30 transition-colors"
+                title="Copy ingest URL"
+              >
+                <Copy className="h-4 w-4" />
+              </button>
+            </div>
+            <p className="text-xs text-muted-foreground mt-2">
+              POST nginx/Apache combined logs, Cloudflare Logpush, CloudFront or Vercel log drain batches to this URL.
+              Keep it private - anyone with it can send logs for this domain.
+            </p>
+          </div>
+
+          {/* Stats */}
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className="bg-muted/20 border border-border/50 rounded-xl p-4 text-center">
+              <p className="text-2xl font-black text-foreground mb-1">
+                {(metrics?.totalHits ?? 0).toLocaleString()}
+              </p>
+              <p className="text-xs text-muted-foreground">Crawler Requests</p>
+            </div>
+            <div className="bg-muted/20 border border-border/50 rounded-xl p-4 text-center">
+              <p className="text-2xl font-black text-green-500 mb-1 inline-flex items-center gap-1">
+                <ShieldCheck className="h-5 w-5" />
+                {(metrics?.verifiedHits ?? 0).toLocaleString()}
+              </p>
+              <p className="text-xs text-muted-foreground">Verified by IP</p>
+            </div>
+            <div className="bg-muted/20 border border-border/50 rounded-xl p-4 text-center">
+              <p className="text-2xl font-black text-red-500 mb-1 inline-flex items-center gap-1">
+                <ShieldAlert className="h-5 w-5" />
+                {(metrics?.spoofedHits ?? 0).toLocaleString()}
+              </p>
+              <p className="text-xs text-muted-foreground">Spoofed (excluded)</p>
+            </div>
+            <div className="bg-muted/20 border border-border/50 rounded-xl p-4 text-center">
+              <p className="text-sm font-semibold text-foreground mb-1 mt-2">
+                {source.lastReceivedAt ? new Date(source.lastReceivedAt).toLocaleString() : 'Never'}
+              </p>
+              <p className="text-xs text-muted-foreground">Last Received</p>
+            </div>
+          </div>
+
+          {/* Actions */}
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".log,.txt,.json,.ndjson,text/plain,application/json"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isUploading}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+            >
+              {isUploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+              {isUploading ? 'Uploading...' : 'Upload Log File'}
+            </button>
+            <button
+              onClick={handleDelete}
+              disabled={isDeleting}
+              className="inline-flex items-center gap-2 px-4 py-2 border border-border text-red-500 rounded-lg hover:bg-red-500/10 transition-colors disabled:opacity-50"
+            >
+              {isDeleting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+              Delete Source
+            </button>
+          </div>
+        </div>
+      )}
+    </motion.div>
+  )
+}
@@ -0,0 +1,46 @@
+import type { DomainDriftSummary } from '@shared/types'
+import { cn } from '@/utils/cn'
+
+interface DomainDriftHealthProps {
+  summary?: DomainDriftSummary
+  className?: string
+}
+
+/**
+ * Domain Drift Health
+ *
+ * One-line roll-up of drift check results for all schema URLs in a domain.
+ */
+export default function DomainDriftHealth({ summary, className }: DomainDriftHealthProps) {
+  if (!summary || summary.monitoredUrls === 0) return null
+
+  const checked = summary.monitoredUrls - summary.unchecked
+  if (checked === 0) {
+    return (
+      <p className={cn('text-xs text-muted-foreground', className)}>
+        Schema health: not checked yet
+      </p>
+    )
+  }
+
+  const issues = summary.missingOnPage + summary.modified + summary.contentChanged + summary.unreachable
+  const healthPercent = Math.round((summary.inSync / checked) * 100)
+
+  const parts = [
+    summary.missingOnPage > 0 && `${summary.missingOnPage} missing`,
+    summary.modified > 0 && `${summary.modified} modified`,
+    summary.contentChanged > 0 && `${summary.contentChanged} stale`,
+    summary.unreachable > 0 && `${summary.unreachable} unreachable`
+  ].filter(Boolean)
+
+  return (
+    <p
+      className={cn('text-xs', issues === 0 ? 'text-success-foreground' : 'text-warning-foreground', className)}
+      title={summary.lastCheckedAt ? `Last checked ${new Date(summary.lastCheckedAt).toLocaleString()}` : undefined}
+    >
+      Schema health: {healthPercent}% live
+      {parts.length > 0 && ` • ${parts.join(' • ')}`}
+      {summary.unchecked > 0 && ` • ${summary.unchecked} pending`}
+    </p>
+  )
+}
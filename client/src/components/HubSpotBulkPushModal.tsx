@@ -0,0 +1,247 @@
+import { useState, useEffect } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { hubspotApi } from '@/services/hubspot'
+import { X, Loader2, CheckCircle, XCircle, ChevronDown, ChevronRight, Upload } from 'lucide-react'
+import { cn } from '@/utils/cn'
+import { diffLines } from '@shared/utils'
+import toast from 'react-hot-toast'
+import HubSpotPublishOptionsPicker, { isPublishOptionsComplete } from '@/components/HubSpotPublishOptionsPicker'
+import type {
+  HubSpotBulkPushItem,
+  HubSpotBulkPushItemStatus,
+  HubSpotBulkPushResult,
+  HubSpotPublishOptions
+} from 'aeo-schema-generator-shared/types'
+
+interface HubSpotBulkPushModalProps {
+  isOpen: boolean
+  onClose: () => void
+  connectionId: string
+  urlIds: string[]
+}
+
+const STATUS_LABELS: Record<HubSpotBulkPushItemStatus, { label: string; className: string }> = {
+  ready: { label: 'Will update', className: 'bg-primary/10 text-primary' },
+  unchanged: { label: 'Up to date', className: 'bg-muted text-muted-foreground' },
+  no_match: { label: 'No match', className: 'bg-yellow-500/10 text-yellow-700 dark:text-yellow-400' },
+  no_schema: { label: 'No schema', className: 'bg-muted text-muted-foreground' },
+  success: { label: 'Pushed', className: 'bg-green-500/10 text-green-700 dark:text-green-400' },
+  failed: { label: 'Failed', className: 'bg-destructive/10 text-destructive' }
+}
+
+function HeadHtmlDiff({ item }: { item: HubSpotBulkPushItem }) {
+  const diff = diffLines(item.previousHeadHtml || '', item.newHeadHtml || '')
+
+  return (
+    <pre className="mt-2 max-h-64 overflow-auto rounded-md border border-border bg-muted/30 p-2 text-xs font-mono">
+      {diff.map((entry, index) => (
+        <div
+          key={index}
+          className={cn(
+            'whitespace-pre-wrap break-all',
+            entry.type === 'added' && 'bg-green-500/10 text-green-700 dark:text-green-400',
+            entry.type === 'removed' && 'bg-destructive/10 text-destructive'
+          )}
+        >
+          {entry.type === 'added' ? '+ ' : entry.type === 'removed' ? '- ' : '  '}
+          {entry.line}
+        </div>
+      ))}
+    </pre>
+  )
+}
+
+export default function HubSpotBulkPushModal({
+  isOpen,
+  onClose,
+  connectionId,
+  urlIds
+}: HubSpotBulkPushModalProps) {
+  const queryClient = useQueryClient()
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+  const [pushResult, setPushResult] = useState<HubSpotBulkPushResult | null>(null)
+  const [publishOptions, setPublishOptions] = useState<HubSpotPublishOptions>({ mode: 'draft' })
+
+  useEffect(() => {
+    if (isOpen) {
+      setPushResult(null)
+      setExpanded(new Set())
+      setPublishOptions({ mode: 'draft' })
+    }
+  }, [isOpen])
+
+  // Dry run - nothing is written to HubSpot
+  const { data: previewResponse, isLoading: isPreviewing, error: previewError } = useQuery({
+    queryKey: ['hubspot-bulk-preview', connectionId, urlIds],
+    queryFn: () => hubspotApi.previewBulkPush({ connectionId, urlIds }),
+    enabled: isOpen && !!connectionId && urlIds.length > 0,
+    staleTime: 0,
+    gcTime: 0
+  })
+
+  const pushMutation = useMutation({
+    mutationFn: () => hubspotApi.bulkPushSchema({ connectionId, urlIds, publish: publishOptions }),
+    onSuccess: (response) => {
+      if (!response.data) return
+      setPushResult(response.data)
+      queryClient.invalidateQueries({ queryKey: ['hubspot-sync-history'] })
+
+      const { success, failed } = response.data.summary
+      const publishFailed = response.data.items.filter(item => item.publishError).length
+      if (failed > 0) {
+        toast.error(`Pushed ${success} page${success !== 1 ? 's' : ''}, ${failed} failed`)
+      } else if (publishFailed > 0) {
+        toast.error(`Schema pushed to ${success} page${success !== 1 ? 's' : ''}, ${publishFailed} draft${publishFailed !== 1 ? 's' : ''} could not be published`)
+      } else {
+        toast.success(`Schema pushed to ${success} page${success !== 1 ? 's' : ''}`)
+      }
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || 'Failed to push schema to HubSpot')
+    }
+  })
+
+  const result = pushResult || previewResponse?.data
+  const readyCount = previewResponse?.data?.summary.ready || 0
+  // Blog posts update live; only page drafts need publishing
+  const hasReadyPages = !!previewResponse?.data?.items.some(
+    item => item.status === 'ready' && item.match && item.match.contentType !== 'blog_post'
+  )
+
+  const toggleExpanded = (urlId: string) => {
+    const next = new Set(expanded)
+    if (next.has(urlId)) {
+      next.delete(urlId)
+    } else {
+      next.add(urlId)
+    }
+    setExpanded(next)
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+      <div className="bg-card border border-border rounded-lg shadow-lg max-w-3xl w-full max-h-[85vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-border">
+          <div>
+            <h2 className="text-xl font-semibold">Bulk Push to HubSpot</h2>
+            <p className="text-sm text-muted-foreground mt-1">
+              {pushResult
+                ? 'Each push can be rolled back from the sync history on the HubSpot page'
+                : 'Review the head HTML changes before pushing'}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-accent rounded-md transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6">
+          {isPreviewing && (
+            <div className="flex items-center justify-center py-12">
+              <div className="text-center">
+                <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto mb-3" />
+                <p className="text-sm text-muted-foreground">
+                  Matching {urlIds.length} URL{urlIds.length !== 1 ? 's' : ''} to HubSpot content...
+                </p>
+              </div>
+            </div>
+          )}
+
+          {previewError && (
+            <p className="text-sm text-destructive">
+              {(previewError as any)?.response?.data?.error || 'Failed to preview the bulk push'}
+            </p>
+          )}
+
+          {result && (
+            <div className="space-y-2">
+              {result.items.map((item) => {
+                const status = STATUS_LABELS[item.status]
+                const hasDiff = item.newHeadHtml !== undefined
+                const isExpanded = expanded.has(item.urlId)
+
+                return (
+                  <div key={item.urlId} className="border border-border rounded-md p-3">
+                    <div className="flex items-start justify-between gap-3">
+                      <button
+                        onClick={() => hasDiff && toggleExpanded(item.urlId)}
+                        className={cn('flex items-start gap-2 min-w-0 text-left', !hasDiff && 'cursor-default')}
+                      >
+                        {hasDiff ? (
+                          isExpanded
+                            ? <ChevronDown className="h-4 w-4 mt-0.5 flex-shrink-0 text-muted-foreground" />
+                            : <ChevronRight className="h-4 w-4 mt-0.5 flex-shrink-0 text-muted-foreground" />
+                        ) : (
+                          <span className="w-4 flex-shrink-0" />
+                        )}
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium break-all">{item.url}</p>
+                          {item.match && (
+                            <p className="text-xs text-muted-foreground break-all">
+                              → {item.match.title} ({Math.round(item.match.confidence * 100)}% match)
+                            </p>
+                          )}
+                          {item.error && <p className="text-xs text-destructive mt-1">{item.error}</p>}
+                          {item.published && (
+                            <p className="text-xs text-green-700 dark:text-green-400 mt-1">
+                              Draft {publishOptions.mode === 'schedule' ? 'scheduled' : 'published'}
+                            </p>
+                          )}
+                          {item.publishError && (
+                            <p className="text-xs text-yellow-700 dark:text-yellow-400 mt-1">
+                              Pushed to the draft, publishing failed: {item.publishError}
+                            </p>
+                          )}
+                        </div>
+                      </button>
+                      <span className={cn('text-xs px-2 py-0.5 rounded-full whitespace-nowrap flex items-center gap-1', status.className)}>
+                        {item.status === 'success' && <CheckCircle className="h-3 w-3" />}
+                        {item.status === 'failed' && <XCircle className="h-3 w-3" />}
+                        {status.label}
+                      </span>
+                    </div>
+                    {hasDiff && isExpanded && <HeadHtmlDiff item={item} />}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-2 p-6 border-t border-border">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm border border-border rounded-md hover:bg-accent transition-colors"
+          >
+            {pushResult ? 'Done' : 'Cancel'}
+          </button>
+          {!pushResult && hasReadyPages && (
+            <HubSpotPublishOptionsPicker
+              value={publishOptions}
+              onChange={setPublishOptions}
+              disabled={pushMutation.isPending}
+            />
+          )}
+          {!pushResult && (
+            <button
+              onClick={() => pushMutation.mutate()}
+              disabled={readyCount === 0 || pushMutation.isPending || !isPublishOptionsComplete(publishOptions)}
+              className="px-4 py-2 text-sm bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50 flex items-center gap-2"
+            >
+              {pushMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+              Push {readyCount} Page{readyCount !== 1 ? 's' : ''}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
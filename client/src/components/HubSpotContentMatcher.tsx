@@ -4,12 +4,14 @@ import { useNavigate } from 'react-router-dom'
 import { hubspotApi } from '@/services/hubspot'
 import { X, Loader2, CheckCircle, ExternalLink, Search, Globe } from 'lucide-react'
 import { cn } from '@/utils/cn'
-import type { HubSpotContentMatchResult } from 'aeo-schema-generator-shared/types'
+import HubSpotPublishOptionsPicker, { isPublishOptionsComplete } from '@/components/HubSpotPublishOptionsPicker'
+import type { HubSpotContentMatchResult, HubSpotPublishOptions } from 'aeo-schema-generator-shared/types'
 
 interface HubSpotContentMatcherProps {
   isOpen: boolean
   onClose: () => void
-  onSelectContent: (match: HubSpotContentMatchResult) => void
+  // publish is only passed for pages and landing pages (blog posts update live)
+  onSelectContent: (match: HubSpotContentMatchResult, publish?: HubSpotPublishOptions) => void
   connectionId: string
   targetUrl: string
 }
@@ -22,6 +24,7 @@ export default function HubSpotContentMatcher({
   targetUrl
 }: HubSpotContentMatcherProps) {
   const [selectedMatch, setSelectedMatch] = useState<HubSpotContentMatchResult | null>(null)
+  const [publishOptions, setPublishOptions] = useState<HubSpotPublishOptions>({ mode: 'draft' })
   const navigate = useNavigate()
 
   // Fetch connection details to check for associated domains
@@ -55,10 +58,19 @@ export default function HubSpotContentMatcher({
     enabled: isOpen && !!connectionId
   })
 
+  // Not every portal has landing pages - a failure just leaves them out
+  const { data: landingPagesResponse, isLoading: isLoadingLandingPages } = useQuery({
+    queryKey: ['hubspot-landing-pages', connectionId],
+    queryFn: () => hubspotApi.listLandingPages(connectionId),
+    enabled: isOpen && !!connectionId,
+    retry: false
+  })
+
   const matches = matchResponse?.data || []
   const allPosts = postsResponse?.data || []
-  const allPages = pagesResponse?.data || []
-  const isLoadingContent = isLoadingPosts || isLoadingPages
+  const allPages = [...(pagesResponse?.data || []), ...(landingPagesResponse?.data || [])]
+  const isLoadingContent = isLoadingPosts || isLoadingPages || isLoadingLandingPages
+  const isPageSelected = !!selectedMatch && selectedMatch.contentType !== 'blog_post'
 
   useEffect(() => {
     // Auto-select best match if confidence is high
@@ -69,7 +81,7 @@ export default function HubSpotContentMatcher({
 
   const handleConfirm = () => {
     if (selectedMatch) {
-      onSelectContent(selectedMatch)
+      onSelectContent(selectedMatch, isPageSelected ? publishOptions : undefined)
       onClose()
     }
   }
@@ -192,7 +204,7 @@ export default function HubSpotContentMatcher({
                             key={page.id}
                             onClick={() => setSelectedMatch({
                               contentId: page.id,
-                              contentType: 'page',
+                              contentType: page.contentType || 'page',
                               title: page.name,
                               url: page.url,
                               confidence: 0
@@ -208,6 +220,9 @@ export default function HubSpotContentMatcher({
                               <div className="flex-1 mr-4">
                                 <div className="flex items-center space-x-2 mb-1">
                                   <h4 className="font-medium text-sm">{page.name}</h4>
+                                  {page.contentType === 'landing_page' && (
+                                    <span className="text-xs px-1.5 py-0.5 rounded-full bg-purple-100 text-purple-700">Landing</span>
+                                  )}
                                   {selectedMatch?.contentId === page.id && (
                                     <CheckCircle className="h-4 w-4 text-primary flex-shrink-0" />
                                   )}
@@ -317,7 +332,9 @@ export default function HubSpotContentMatcher({
                             ? 'bg-blue-100 text-blue-700'
                             : 'bg-purple-100 text-purple-700'
                         )}>
-                          {match.contentType === 'blog_post' ? 'Blog Post' : 'Page'}
+                          {match.contentType === 'blog_post'
+                            ? 'Blog Post'
+                            : match.contentType === 'landing_page' ? 'Landing Page' : 'Page'}
                         </span>
 
                         <span className={cn(
@@ -358,13 +375,18 @@ export default function HubSpotContentMatcher({
             Cancel
           </button>
 
-          <button
-            onClick={handleConfirm}
-            disabled={!selectedMatch}
-            className="px-6 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-          >
-            Confirm & Push Schema
-          </button>
+          <div className="flex items-center gap-2">
+            {isPageSelected && (
+              <HubSpotPublishOptionsPicker value={publishOptions} onChange={setPublishOptions} />
+            )}
+            <button
+              onClick={handleConfirm}
+              disabled={!selectedMatch || (isPageSelected && !isPublishOptionsComplete(publishOptions))}
+              className="px-6 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Confirm & Push Schema
+            </button>
+          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,144 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { hubspotApi } from '@/services/hubspot'
+import { Loader2, CheckCircle, FileClock, ExternalLink, Send, RefreshCw } from 'lucide-react'
+import toast from 'react-hot-toast'
+import type { HubSpotConnection, HubSpotDraftStatus as DraftStatus } from 'aeo-schema-generator-shared/types'
+
+interface HubSpotDraftStatusProps {
+  connections: HubSpotConnection[]
+}
+
+const STATE_LABELS: Record<Exclude<DraftStatus['state'], 'published'>, string> = {
+  draft_only: 'Schema only in draft',
+  draft_differs: 'Live page has older schema'
+}
+
+/**
+ * Pushed pages and landing pages whose SuperSchema markup is still waiting in the draft
+ */
+export default function HubSpotDraftStatus({ connections }: HubSpotDraftStatusProps) {
+  const queryClient = useQueryClient()
+  const activeConnections = connections.filter(connection => connection.isActive)
+  const [connectionId, setConnectionId] = useState<string>(activeConnections[0]?.id || '')
+
+  const { data: statusResponse, isLoading, isFetching, refetch } = useQuery({
+    queryKey: ['hubspot-draft-status', connectionId],
+    queryFn: () => hubspotApi.getDraftStatus(connectionId),
+    enabled: !!connectionId,
+    // Two HubSpot requests per page - don't refetch on every focus
+    staleTime: 5 * 60 * 1000
+  })
+
+  const publishMutation = useMutation({
+    mutationFn: (status: DraftStatus) => hubspotApi.publishDraft({
+      connectionId,
+      contentId: status.contentId,
+      contentType: status.contentType,
+      publish: { mode: 'live' }
+    }),
+    onSuccess: () => {
+      toast.success('Draft published')
+      queryClient.invalidateQueries({ queryKey: ['hubspot-draft-status', connectionId] })
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || 'Failed to publish draft')
+    }
+  })
+
+  const statuses = statusResponse?.data || []
+  const unpublished = statuses.filter(status => status.state !== 'published')
+  const publishedCount = statuses.length - unpublished.length
+
+  if (activeConnections.length === 0) return null
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-xl font-semibold mb-1">Unpublished Schema</h2>
+          <p className="text-sm text-muted-foreground">
+            Pushes to pages and landing pages update the draft. These pages have SuperSchema markup that isn't live yet.
+          </p>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          {activeConnections.length > 1 && (
+            <select
+              value={connectionId}
+              onChange={(e) => setConnectionId(e.target.value)}
+              className="px-3 py-1.5 text-sm border border-border rounded-md bg-background"
+            >
+              {activeConnections.map((connection) => (
+                <option key={connection.id} value={connection.id}>
+                  {connection.portalName || connection.hubspotPortalId}
+                </option>
+              ))}
+            </select>
+          )}
+          <button
+            onClick={() => refetch()}
+            disabled={isFetching}
+            className="p-2 text-muted-foreground hover:text-foreground transition-colors disabled:opacity-50"
+            title="Check again"
+          >
+            <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : unpublished.length === 0 ? (
+        <p className="text-sm text-muted-foreground flex items-center gap-2">
+          <CheckCircle className="h-4 w-4 text-green-600" />
+          {publishedCount > 0
+            ? `Schema is live on all ${publishedCount} pushed page${publishedCount !== 1 ? 's' : ''}.`
+            : 'No pushed page drafts to publish.'}
+        </p>
+      ) : (
+        <div className="divide-y divide-border">
+          {unpublished.map((status) => (
+            <div key={`${status.contentType}:${status.contentId}`} className="flex items-center justify-between gap-4 py-3">
+              <div className="flex items-start gap-2 min-w-0">
+                <FileClock className="h-4 w-4 mt-0.5 flex-shrink-0 text-yellow-600" />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{status.title || status.url || 'Untitled page'}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {status.contentType === 'landing_page' ? 'Landing page' : 'Page'}
+                    {` · ${STATE_LABELS[status.state as keyof typeof STATE_LABELS]}`}
+                    {status.scheduledFor && ` · Scheduled for ${new Date(status.scheduledFor).toLocaleString()}`}
+                    {status.lastSyncedAt && ` · Pushed ${new Date(status.lastSyncedAt).toLocaleString()}`}
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2 flex-shrink-0">
+                {status.url && (
+                  <a
+                    href={status.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="p-2 text-muted-foreground hover:text-foreground transition-colors"
+                    title="Open page"
+                  >
+                    <ExternalLink className="h-4 w-4" />
+                  </a>
+                )}
+                <button
+                  onClick={() => publishMutation.mutate(status)}
+                  disabled={publishMutation.isPending}
+                  className="px-3 py-1.5 text-sm border border-border rounded-md hover:bg-accent transition-colors disabled:opacity-50 flex items-center gap-1"
+                >
+                  <Send className="h-3 w-3" />
+                  Publish Now
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
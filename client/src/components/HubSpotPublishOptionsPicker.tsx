@@ -0,0 +1,67 @@
+import type { HubSpotPublishMode, HubSpotPublishOptions } from 'aeo-schema-generator-shared/types'
+
+interface HubSpotPublishOptionsPickerProps {
+  value: HubSpotPublishOptions
+  onChange: (value: HubSpotPublishOptions) => void
+  disabled?: boolean
+}
+
+const PUBLISH_MODE_LABELS: Record<HubSpotPublishMode, string> = {
+  draft: 'Save to draft',
+  live: 'Publish now',
+  schedule: 'Schedule'
+}
+
+/**
+ * ISO date to the local "YYYY-MM-DDTHH:mm" format of a datetime-local input
+ */
+function toLocalInputValue(iso?: string): string {
+  if (!iso) return ''
+  const date = new Date(iso)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
+
+/**
+ * Whether the options can be sent (a scheduled publish needs a future date)
+ */
+export function isPublishOptionsComplete(value: HubSpotPublishOptions): boolean {
+  if (value.mode !== 'schedule') return true
+  return !!value.publishDate && new Date(value.publishDate).getTime() > Date.now()
+}
+
+/**
+ * What happens to a HubSpot page draft after schema is pushed to it
+ */
+export default function HubSpotPublishOptionsPicker({ value, onChange, disabled }: HubSpotPublishOptionsPickerProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={value.mode}
+        onChange={(e) => {
+          const mode = e.target.value as HubSpotPublishMode
+          onChange(mode === 'schedule' ? { mode, publishDate: value.publishDate } : { mode })
+        }}
+        disabled={disabled}
+        className="px-3 py-2 text-sm border border-border rounded-md bg-background"
+        title="Page and landing page pushes only update the draft"
+      >
+        {(Object.keys(PUBLISH_MODE_LABELS) as HubSpotPublishMode[]).map((mode) => (
+          <option key={mode} value={mode}>{PUBLISH_MODE_LABELS[mode]}</option>
+        ))}
+      </select>
+      {value.mode === 'schedule' && (
+        <input
+          type="datetime-local"
+          value={toLocalInputValue(value.publishDate)}
+          min={toLocalInputValue(new Date().toISOString())}
+          onChange={(e) => onChange({
+            mode: 'schedule',
+            publishDate: e.target.value ? new Date(e.target.value).toISOString() : undefined
+          })}
+          disabled={disabled}
+          className="px-3 py-2 text-sm border border-border rounded-md bg-background"
+        />
+      )}
+    </div>
+  )
+}
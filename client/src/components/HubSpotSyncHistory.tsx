@@ -0,0 +1,184 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { hubspotApi } from '@/services/hubspot'
+import { Loader2, CheckCircle, XCircle, Clock, RotateCcw, RefreshCw, ExternalLink } from 'lucide-react'
+import toast from 'react-hot-toast'
+import ConfirmModal from '@/components/ConfirmModal'
+import type { HubSpotSyncFailureReason } from 'aeo-schema-generator-shared/types'
+
+interface SyncHistoryEntry {
+  id: string
+  hubspotContentTitle?: string
+  hubspotContentUrl?: string
+  status: 'pending' | 'success' | 'failed' | 'retrying'
+  errorMessage?: string
+  syncedAt?: string
+  createdAt: string
+  portalName?: string
+  hasSnapshot: boolean
+  rolledBackAt?: string
+  failureReason?: HubSpotSyncFailureReason
+  isRetryable?: boolean
+  retryCount: number
+  nextAttemptAt?: string
+}
+
+const FAILURE_REASON_LABELS: Record<HubSpotSyncFailureReason, string> = {
+  rate_limited: 'HubSpot rate limit reached',
+  server_error: 'HubSpot server error',
+  network_error: 'HubSpot did not respond',
+  token_refresh_failed: 'Could not refresh HubSpot access',
+  tier_limited: 'Not available on this HubSpot subscription',
+  not_found: 'Page or post no longer exists',
+  unauthorized: 'HubSpot access revoked - reconnect the portal',
+  connection_inactive: 'HubSpot portal disconnected',
+  invalid_request: 'Rejected by HubSpot',
+  superseded: 'Replaced by a newer push or rollback',
+  unknown: 'Push failed'
+}
+
+/**
+ * "in 4 min" style estimate for the next retry
+ */
+function formatNextAttempt(nextAttemptAt: string): string {
+  const minutes = Math.round((new Date(nextAttemptAt).getTime() - Date.now()) / 60000)
+  if (minutes <= 0) return 'any moment'
+  if (minutes < 60) return `in ${minutes} min`
+  return `at ${new Date(nextAttemptAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`
+}
+
+export default function HubSpotSyncHistory() {
+  const queryClient = useQueryClient()
+  const [rollbackEntry, setRollbackEntry] = useState<SyncHistoryEntry | null>(null)
+  // Set when the page draft has other unpublished edits that a rollback would publish
+  const [draftChangesEntry, setDraftChangesEntry] = useState<SyncHistoryEntry | null>(null)
+
+  const { data: historyResponse, isLoading } = useQuery({
+    queryKey: ['hubspot-sync-history'],
+    queryFn: () => hubspotApi.getSyncHistory(25),
+    // Pick up retry worker results while jobs are waiting for a retry
+    refetchInterval: (query) =>
+      (query.state.data?.data || []).some((entry: SyncHistoryEntry) => entry.status === 'retrying') ? 30000 : false
+  })
+
+  const rollbackMutation = useMutation({
+    mutationFn: ({ entry, publishDraftChanges }: { entry: SyncHistoryEntry; publishDraftChanges?: boolean }) =>
+      hubspotApi.rollbackSyncJob(entry.id, publishDraftChanges),
+    onSuccess: (response) => {
+      toast.success(response.message || 'Previous head HTML restored')
+      queryClient.invalidateQueries({ queryKey: ['hubspot-sync-history'] })
+    },
+    onError: (error: any, { entry }) => {
+      if (error?.response?.data?.unpublishedDraftChanges) {
+        setDraftChangesEntry(entry)
+        return
+      }
+      toast.error(error?.response?.data?.error || 'Failed to roll back sync')
+    }
+  })
+
+  const history: SyncHistoryEntry[] = historyResponse?.data || []
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-6">
+      <h2 className="text-xl font-semibold mb-1">Sync History</h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        Recent schema pushes. Rolling back restores the page's head HTML from before the push.
+      </p>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : history.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No schema has been pushed yet.</p>
+      ) : (
+        <div className="divide-y divide-border">
+          {history.map((entry) => (
+            <div key={entry.id} className="flex items-center justify-between gap-4 py-3">
+              <div className="flex items-start gap-2 min-w-0">
+                {entry.status === 'success' ? (
+                  <CheckCircle className="h-4 w-4 mt-0.5 flex-shrink-0 text-green-600" />
+                ) : entry.status === 'failed' ? (
+                  <XCircle className="h-4 w-4 mt-0.5 flex-shrink-0 text-destructive" />
+                ) : entry.status === 'retrying' ? (
+                  <RefreshCw className="h-4 w-4 mt-0.5 flex-shrink-0 text-yellow-600" />
+                ) : (
+                  <Clock className="h-4 w-4 mt-0.5 flex-shrink-0 text-muted-foreground" />
+                )}
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {entry.hubspotContentTitle || entry.hubspotContentUrl || 'Untitled content'}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {entry.portalName && `${entry.portalName} · `}
+                    {new Date(entry.syncedAt || entry.createdAt).toLocaleString()}
+                    {entry.rolledBackAt && ` · Rolled back ${new Date(entry.rolledBackAt).toLocaleString()}`}
+                  </p>
+                  {entry.status === 'retrying' && entry.nextAttemptAt && (
+                    <p className="text-xs text-yellow-700 dark:text-yellow-400 mt-1">
+                      {entry.failureReason ? FAILURE_REASON_LABELS[entry.failureReason] : 'Push failed'}
+                      {` · Retrying ${formatNextAttempt(entry.nextAttemptAt)} (retry ${entry.retryCount + 1})`}
+                    </p>
+                  )}
+                  {entry.status === 'failed' && (
+                    <p className="text-xs text-destructive mt-1">
+                      {entry.failureReason && `${FAILURE_REASON_LABELS[entry.failureReason]}${entry.isRetryable === false ? ' · Not retried' : ' · Gave up after retries'}: `}
+                      {entry.errorMessage}
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2 flex-shrink-0">
+                {entry.hubspotContentUrl && (
+                  <a
+                    href={entry.hubspotContentUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="p-2 text-muted-foreground hover:text-foreground transition-colors"
+                    title="Open page"
+                  >
+                    <ExternalLink className="h-4 w-4" />
+                  </a>
+                )}
+                {entry.status === 'success' && entry.hasSnapshot && !entry.rolledBackAt && (
+                  <button
+                    onClick={() => setRollbackEntry(entry)}
+                    disabled={rollbackMutation.isPending}
+                    className="px-3 py-1.5 text-sm border border-border rounded-md hover:bg-accent transition-colors disabled:opacity-50 flex items-center gap-1"
+                  >
+                    <RotateCcw className="h-3 w-3" />
+                    Roll Back
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <ConfirmModal
+        isOpen={!!rollbackEntry}
+        onClose={() => setRollbackEntry(null)}
+        onConfirm={() => rollbackEntry && rollbackMutation.mutate({ entry: rollbackEntry })}
+        title="Roll Back Schema Push"
+        message={`Restore the head HTML of "${rollbackEntry?.hubspotContentTitle || rollbackEntry?.hubspotContentUrl || 'this page'}" to what it was before this push? If the push is live, the restored page is published again.`}
+        confirmText="Roll Back"
+        cancelText="Cancel"
+        variant="danger"
+      />
+
+      <ConfirmModal
+        isOpen={!!draftChangesEntry}
+        onClose={() => setDraftChangesEntry(null)}
+        onConfirm={() => draftChangesEntry && rollbackMutation.mutate({ entry: draftChangesEntry, publishDraftChanges: true })}
+        title="Publish Other Draft Changes?"
+        message={`"${draftChangesEntry?.hubspotContentTitle || draftChangesEntry?.hubspotContentUrl || 'This page'}" has unpublished edits in HubSpot besides the schema. Rolling back a live push publishes the draft, so those edits would go live too. Publish them with the rollback, or cancel and publish or discard them in HubSpot first.`}
+        confirmText="Roll Back and Publish"
+        cancelText="Cancel"
+        variant="warning"
+      />
+    </div>
+  )
+}
@@ -10,7 +10,9 @@ import {
   Menu,
   X,
   Megaphone,
-  Bot
+  Bot,
+  Globe,
+  ClipboardCheck
 } from 'lucide-react'
 import { cn } from '@/utils/cn'
 import SuperSchemaLogo from './SuperSchemaLogo'
@@ -35,6 +37,7 @@ const navigation = [
   { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
   { name: 'Generate', href: '/generate', icon: LightningBoltIcon },
   { name: 'URL Library', href: '/library', icon: Library },
+  { name: 'Audit', href: '/audit', icon: ClipboardCheck },
   { name: 'AI Visibility', href: '/ai-visibility', icon: Bot, badge: 'BETA' },
 ]
 
@@ -126,7 +129,7 @@ export default function Layout({ children }: LayoutProps) {
           <div className="md:hidden border-t border-border bg-background">
             <div className="w-full px-4 py-4 space-y-2">
               {navigation.map((item) => {
-                const isActive = location.pathname === item.href || (item.href === '/ai-visibility' && location.pathname.startsWith('/ga4/'))
+                const isActive = location.pathname === item.href || (item.href === '/ai-visibility' && (location.pathname.startsWith('/ga4/') || location.pathname.startsWith('/ai-visibility/')))
                 return (
                   <Link
                     key={item.name}
@@ -187,6 +190,21 @@ export default function Layout({ children }: LayoutProps) {
                 HubSpot
               </Link>
 
+              {/* WordPress Link */}
+              <Link
+                to="/wordpress"
+                onClick={() => setIsMobileMenuOpen(false)}
+                className={cn(
+                  'flex items-center px-3 py-3 text-sm font-medium rounded-md transition-colors',
+                  location.pathname === '/wordpress'
+                    ? 'bg-primary text-primary-foreground'
+                    : 'text-foreground hover:bg-accent hover:text-accent-foreground'
+                )}
+              >
+                <Globe className="mr-3 h-5 w-5" />
+                WordPress
+              </Link>
+
               {/* What's New Link */}
               <Link
                 to="/whats-new"
@@ -271,7 +289,7 @@ export default function Layout({ children }: LayoutProps) {
               <div className="flex-1 flex flex-col pt-5 pb-4 overflow-y-auto">
                 <nav className="mt-5 flex-1 px-2 space-y-1">
                   {navigation.map((item) => {
-                    const isActive = location.pathname === item.href || (item.href === '/ai-visibility' && location.pathname.startsWith('/ga4/'))
+                    const isActive = location.pathname === item.href || (item.href === '/ai-visibility' && (location.pathname.startsWith('/ga4/') || location.pathname.startsWith('/ai-visibility/')))
                     return (
                       <Link
                         key={item.name}
@@ -347,6 +365,25 @@ export default function Layout({ children }: LayoutProps) {
                     HubSpot
                   </Link>
 
+                  {/* WordPress Integration */}
+                  <Link
+                    to="/wordpress"
+                    className={cn(
+                      'group flex items-center px-2 py-2 text-sm font-medium rounded-md transition-colors',
+                      location.pathname === '/wordpress'
+                        ? 'bg-primary text-primary-foreground'
+                        : 'text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+                    )}
+                  >
+                    <Globe
+                      className={cn(
+                        'mr-3 flex-shrink-0 h-5 w-5',
+                        location.pathname === '/wordpress' ? 'text-primary-foreground' : 'text-muted-foreground'
+                      )}
+                    />
+                    WordPress
+                  </Link>
+
                   {/* What's New - Available to all users */}
                   <Link
                     to="/whats-new"
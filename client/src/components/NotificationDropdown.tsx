@@ -1,5 +1,5 @@
 import { useState, useRef, useEffect } from 'react'
-import { Bell, Check, Sparkles, AlertCircle } from 'lucide-react'
+import { Bell, Check, Sparkles, AlertCircle, TrendingDown } from 'lucide-react'
 import { Link } from 'react-router-dom'
 import { cn } from '@/utils/cn'
 import { useUserNotifications } from '@/hooks/useUserNotifications'
@@ -7,7 +7,7 @@ import { NotificationBadge } from './NotificationBadge'
 
 /**
  * Notification dropdown component that displays user notifications
- * Includes beta access grants, feature announcements, and system notifications
+ * Includes beta access grants, feature announcements, GA4 alerts, and system notifications
  */
 export default function NotificationDropdown() {
   const [isOpen, setIsOpen] = useState(false)
@@ -44,6 +44,8 @@ export default function NotificationDropdown() {
         return <Bell className="h-4 w-4 text-info" />
       case 'system':
         return <AlertCircle className="h-4 w-4 text-warning" />
+      case 'ga4_alert':
+        return <TrendingDown className="h-4 w-4 text-destructive" />
       default:
         return <Bell className="h-4 w-4 text-muted-foreground" />
     }
@@ -152,6 +154,20 @@ export default function NotificationDropdown() {
                             View AI Analytics →
                           </Link>
                         )}
+                        {notification.type === 'ga4_alert' && notification.link && (
+                          <Link
+                            to={notification.link}
+                            className="text-xs text-primary hover:underline mt-2 inline-block"
+                            onClick={() => {
+                              setIsOpen(false)
+                              if (!notification.is_read) {
+                                markAsRead(notification.id)
+                              }
+                            }}
+                          >
+                            View AI Visibility →
+                          </Link>
+                        )}
                       </div>
                     </div>
                   </div>
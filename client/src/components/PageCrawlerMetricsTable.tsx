@@ -81,6 +81,11 @@ interface PageCrawlerMetricsTableProps {
   domain?: string
   isLoading?: boolean
   className?: string
+  title?: string
+  subtitle?: string
+  emptyHint?: string
+  /** Label for the sessions column - server logs count requests instead */
+  sessionsLabel?: string
 }
 
 export default function PageCrawlerMetricsTable({
@@ -89,7 +94,11 @@ export default function PageCrawlerMetricsTable({
   mappingId,
   domain,
   isLoading = false,
-  className = ''
+  className = '',
+  title = 'Pages Crawled by AI',
+  subtitle = 'Your top performing pages by AI crawler diversity',
+  emptyHint = 'Add schemas to your pages to attract AI crawlers',
+  sessionsLabel = 'Sessions'
 }: PageCrawlerMetricsTableProps) {
   const [showAllCrawled, setShowAllCrawled] = useState(false)
 
@@ -154,14 +163,14 @@ export default function PageCrawlerMetricsTable({
             <FileText className="h-6 w-6 text-primary" />
           </div>
           <h3 className="text-xl font-bold bg-gradient-to-br from-foreground to-foreground/70 bg-clip-text text-transparent">
-            Pages Crawled by AI
+            {title}
           </h3>
         </div>
         <div className="flex flex-col items-center justify-center py-12 text-center">
           <FileText className="h-16 w-16 text-muted-foreground/30 mb-4" />
           <p className="text-muted-foreground">No AI crawler activity detected yet</p>
           <p className="text-sm text-muted-foreground/70 mt-1">
-            Add schemas to your pages to attract AI crawlers
+            {emptyHint}
           </p>
         </div>
       </div>
@@ -186,10 +195,10 @@ export default function PageCrawlerMetricsTable({
         </div>
         <div>
           <h3 className="text-xl font-bold bg-gradient-to-br from-foreground to-foreground/70 bg-clip-text text-transparent">
-            Pages Crawled by AI
+            {title}
           </h3>
           <p className="text-sm text-muted-foreground">
-            Your top performing pages by AI crawler diversity
+            {subtitle}
           </p>
         </div>
       </div>
@@ -220,7 +229,7 @@ export default function PageCrawlerMetricsTable({
               <th className="text-right py-3 px-4 text-sm font-semibold text-muted-foreground">
                 <div className="flex items-center justify-end gap-1">
                   <TrendingUp className="h-4 w-4" />
-                  Sessions
+                  {sessionsLabel}
                 </div>
               </th>
             </tr>
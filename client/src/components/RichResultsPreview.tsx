@@ -1,8 +1,8 @@
 import { useState } from 'react'
-import { ChevronDown, ChevronUp, CheckCircle, Info } from 'lucide-react'
+import { ChevronDown, ChevronUp, CheckCircle, AlertTriangle, XCircle, Info } from 'lucide-react'
 import { cn } from '@/utils/cn'
-import { detectEligibleRichResults } from '@/utils/richResultsDetector'
-import type { JsonLdSchema } from '@shared/types'
+import { evaluateRichResults } from '@shared/utils'
+import type { JsonLdSchema, RichResultEvaluation } from '@shared/types'
 
 interface RichResultsPreviewProps {
   schemas: JsonLdSchema[]
@@ -18,8 +18,9 @@ export default function RichResultsPreview({ schemas, className }: RichResultsPr
   const schema = schemas[0]
   const schemaType = schema['@type']
 
-  // Detect eligible rich result types
-  const eligibleTypes = detectEligibleRichResults(schema)
+  // Evaluate rich-result eligibility (partial results still qualify, just less richly)
+  const richResults = evaluateRichResults(schemas)
+  const qualifyingCount = richResults.filter(result => result.status !== 'ineligible').length
 
   return (
     <div className={cn('bg-card border border-border rounded-lg overflow-hidden', className)}>
@@ -35,8 +36,8 @@ export default function RichResultsPreview({ schemas, className }: RichResultsPr
           <div className="text-left">
             <h3 className="font-semibold text-base">Google Search Preview</h3>
             <p className="text-xs text-muted-foreground">
-              {eligibleTypes.length > 0
-                ? `Eligible for ${eligibleTypes.length} rich result${eligibleTypes.length !== 1 ? 's' : ''}`
+              {qualifyingCount > 0
+                ? `Eligible for ${qualifyingCount} rich result${qualifyingCount !== 1 ? 's' : ''}`
                 : 'See how your schema appears in search'}
             </p>
           </div>
@@ -47,17 +48,11 @@ export default function RichResultsPreview({ schemas, className }: RichResultsPr
       {/* Content */}
       {isExpanded && (
         <div className="border-t border-border p-6 space-y-4">
-          {/* Eligible Rich Results Badge */}
-          {eligibleTypes.length > 0 && (
-            <div className="flex flex-wrap gap-2 mb-4">
-              {eligibleTypes.map((type) => (
-                <div
-                  key={type}
-                  className="flex items-center space-x-1 px-3 py-1 bg-success border border-success rounded-full text-xs text-success-foreground"
-                >
-                  <CheckCircle className="h-3 w-3" />
-                  <span className="font-medium">{type}</span>
-                </div>
+          {/* Rich Result Eligibility */}
+          {richResults.length > 0 && (
+            <div className="space-y-2 mb-4">
+              {richResults.map((result) => (
+                <RichResultStatusRow key={result.feature} result={result} />
               ))}
             </div>
           )}
@@ -88,6 +83,35 @@ export default function RichResultsPreview({ schemas, className }: RichResultsPr
   )
 }
 
+// Eligibility row for one rich-result feature
+function RichResultStatusRow({ result }: { result: RichResultEvaluation }) {
+  const Icon = result.status === 'eligible' ? CheckCircle : result.status === 'partial' ? AlertTriangle : XCircle
+  const missing = result.status === 'ineligible' ? result.missingRequired : result.missingRecommended
+
+  return (
+    <div
+      className={cn(
+        'flex items-start space-x-2 px-3 py-2 border rounded-lg text-xs',
+        result.status === 'eligible' && 'bg-success border-success text-success-foreground',
+        result.status === 'partial' && 'bg-warning border-warning text-warning-foreground',
+        result.status === 'ineligible' && 'bg-destructive border-destructive text-destructive-foreground'
+      )}
+    >
+      <Icon className="h-3 w-3 mt-0.5 flex-shrink-0" />
+      <div>
+        <span className="font-medium">{result.name}</span>
+        {result.status === 'eligible' && <span> - eligible</span>}
+        {missing.length > 0 && (
+          <span>
+            {result.status === 'ineligible' ? ' - missing required: ' : ' - missing recommended: '}
+            {missing.join(', ')}
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
+
 // Article Preview Component
 function ArticlePreview({ schema }: { schema: JsonLdSchema }) {
   const headline = schema.headline || schema.name || 'Your Article Headline'
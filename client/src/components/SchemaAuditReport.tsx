@@ -0,0 +1,259 @@
+import { useState, type ReactNode } from 'react'
+import { AlertTriangle, CheckCircle, FileX, Building2, Sparkles, ChevronDown, ChevronRight } from 'lucide-react'
+import type { SchemaAuditReport as SchemaAuditReportData, SchemaAuditPageType } from '@shared/types'
+import { cn } from '@/utils/cn'
+
+export const PAGE_TYPE_LABELS: Record<SchemaAuditPageType, string> = {
+  home: 'Home',
+  article: 'Articles',
+  product: 'Products',
+  category: 'Categories',
+  about: 'About',
+  contact: 'Contact',
+  docs: 'Docs & Help',
+  legal: 'Legal',
+  other: 'Other'
+}
+
+/** Rows shown before "show all" in long lists */
+const COLLAPSED_ROWS = 10
+
+function scoreColor(score: number | null | undefined) {
+  if (score === null || score === undefined) return 'text-muted-foreground'
+  if (score >= 80) return 'text-green-600'
+  if (score >= 60) return 'text-yellow-600'
+  return 'text-red-600'
+}
+
+function Section({ title, icon: Icon, children }: { title: string; icon: typeof CheckCircle; children: ReactNode }) {
+  return (
+    <div className="bg-card border border-border rounded-lg p-6">
+      <h3 className="font-semibold mb-4 flex items-center gap-2">
+        <Icon className="h-5 w-5 text-primary" />
+        {title}
+      </h3>
+      {children}
+    </div>
+  )
+}
+
+interface SchemaAuditReportProps {
+  report: SchemaAuditReportData
+}
+
+export default function SchemaAuditReport({ report }: SchemaAuditReportProps) {
+  const [showAllPages, setShowAllPages] = useState(false)
+  const [showAllMissing, setShowAllMissing] = useState(false)
+  const { summary } = report
+
+  const pages = showAllPages ? report.pages : report.pages.slice(0, COLLAPSED_ROWS)
+  const missing = showAllMissing ? report.pagesWithoutMarkup : report.pagesWithoutMarkup.slice(0, COLLAPSED_ROWS)
+
+  const stats = [
+    { label: 'Pages scanned', value: summary.pagesScanned },
+    { label: 'With markup', value: `${summary.pagesWithMarkup} (${summary.pagesScanned > 0 ? Math.round((summary.pagesWithMarkup / summary.pagesScanned) * 100) : 0}%)` },
+    { label: 'Average score', value: summary.averageScore ?? '—', className: scoreColor(summary.averageScore) },
+    { label: 'Compliant pages', value: `${summary.compliantPages} / ${summary.pagesWithMarkup}` },
+    { label: 'Rich-result eligible', value: summary.richResultEligiblePages }
+  ]
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {stats.map((stat) => (
+          <div key={stat.label} className="bg-card border border-border rounded-lg p-4">
+            <p className="text-xs text-muted-foreground">{stat.label}</p>
+            <p className={cn('text-2xl font-bold', stat.className)}>{stat.value}</p>
+          </div>
+        ))}
+      </div>
+      {summary.pagesFailed > 0 && (
+        <p className="text-sm text-muted-foreground">
+          {summary.pagesFailed} page{summary.pagesFailed === 1 ? '' : 's'} couldn't be loaded and {summary.pagesFailed === 1 ? 'is' : 'are'} excluded from the totals.
+        </p>
+      )}
+
+      {/* Coverage by page type */}
+      <Section title="Coverage by Page Type" icon={CheckCircle}>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-muted-foreground border-b border-border">
+              <th className="py-2 font-medium">Page type</th>
+              <th className="py-2 font-medium">Pages</th>
+              <th className="py-2 font-medium">With markup</th>
+              <th className="py-2 font-medium">Avg. score</th>
+              <th className="py-2 font-medium">Schema types</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.coverageByPageType.map((coverage) => (
+              <tr key={coverage.pageType} className="border-b border-border last:border-0">
+                <td className="py-2">{PAGE_TYPE_LABELS[coverage.pageType]}</td>
+                <td className="py-2">{coverage.pages}</td>
+                <td className="py-2">{coverage.pagesWithMarkup} / {coverage.pages}</td>
+                <td className={cn('py-2 font-medium', scoreColor(coverage.averageScore))}>{coverage.averageScore ?? '—'}</td>
+                <td className="py-2 text-muted-foreground">
+                  {Object.entries(coverage.schemaTypes)
+                    .sort((a, b) => b[1] - a[1])
+                    .map(([type, count]) => `${type} (${count})`)
+                    .join(', ') || '—'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </Section>
+
+      {/* Common errors */}
+      <Section title="Most Common Errors" icon={AlertTriangle}>
+        {report.commonErrors.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No schema.org compliance errors found.</p>
+        ) : (
+          <div className="space-y-3">
+            {report.commonErrors.map((issue) => (
+              <div key={`${issue.code}-${issue.property}`} className="border border-border rounded-md p-3">
+                <div className="flex items-start justify-between gap-4">
+                  <p className="text-sm">{issue.message}</p>
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-red-500/10 text-red-600 whitespace-nowrap">
+                    {issue.pageCount} page{issue.pageCount === 1 ? '' : 's'}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1 font-mono truncate">{issue.exampleUrls.join(', ')}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </Section>
+
+      {/* Organization entities */}
+      <Section title="Organization Entities" icon={Building2}>
+        {report.organizations.entities.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No Organization markup found. Add it to the home page so AI engines can identify the business.</p>
+        ) : (
+          <div className="space-y-3">
+            {report.organizations.issues.length > 0 ? (
+              <ul className="space-y-1">
+                {report.organizations.issues.map((issue) => (
+                  <li key={issue} className="text-sm text-yellow-700 dark:text-yellow-500 flex items-start gap-2">
+                    <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                    {issue}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-green-600">The site declares one consistent Organization.</p>
+            )}
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground border-b border-border">
+                  <th className="py-2 font-medium">Name</th>
+                  <th className="py-2 font-medium">URL</th>
+                  <th className="py-2 font-medium">@id</th>
+                  <th className="py-2 font-medium">Pages</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.organizations.entities.map((entity, index) => (
+                  <tr key={index} className="border-b border-border last:border-0">
+                    <td className="py-2">{entity.name || '—'}</td>
+                    <td className="py-2 font-mono text-xs">{entity.url || '—'}</td>
+                    <td className="py-2 font-mono text-xs">{entity.id || '—'}</td>
+                    <td className="py-2">{entity.pageCount}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Section>
+
+      {/* Rich results */}
+      <Section title="Rich Result Eligibility" icon={Sparkles}>
+        {report.richResults.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No pages are eligible for rich results yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground border-b border-border">
+                <th className="py-2 font-medium">Rich result</th>
+                <th className="py-2 font-medium">Eligible pages</th>
+                <th className="py-2 font-medium">Partially eligible pages</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.richResults.map((result) => (
+                <tr key={result.feature} className="border-b border-border last:border-0">
+                  <td className="py-2">{result.name}</td>
+                  <td className="py-2 text-green-600 font-medium">{result.eligiblePages}</td>
+                  <td className="py-2 text-muted-foreground">{result.partialPages}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </Section>
+
+      {/* Pages without markup */}
+      <Section title={`Pages Without Markup (${report.pagesWithoutMarkup.length})`} icon={FileX}>
+        {report.pagesWithoutMarkup.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Every scanned page publishes JSON-LD.</p>
+        ) : (
+          <>
+            <ul className="space-y-1">
+              {missing.map((url) => (
+                <li key={url} className="text-sm font-mono truncate">{url}</li>
+              ))}
+            </ul>
+            {report.pagesWithoutMarkup.length > COLLAPSED_ROWS && (
+              <button
+                onClick={() => setShowAllMissing(!showAllMissing)}
+                className="mt-3 text-sm text-primary hover:underline flex items-center gap-1"
+              >
+                {showAllMissing ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                {showAllMissing ? 'Show fewer' : `Show all ${report.pagesWithoutMarkup.length}`}
+              </button>
+            )}
+          </>
+        )}
+      </Section>
+
+      {/* Per-page results */}
+      <Section title="All Pages" icon={CheckCircle}>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-muted-foreground border-b border-border">
+              <th className="py-2 font-medium">Page</th>
+              <th className="py-2 font-medium">Type</th>
+              <th className="py-2 font-medium">Schema</th>
+              <th className="py-2 font-medium">Score</th>
+              <th className="py-2 font-medium">Errors</th>
+            </tr>
+          </thead>
+          <tbody>
+            {pages.map((page) => (
+              <tr key={page.url} className="border-b border-border last:border-0">
+                <td className="py-2 font-mono text-xs max-w-xs truncate" title={page.url}>{page.path}</td>
+                <td className="py-2">{PAGE_TYPE_LABELS[page.pageType]}</td>
+                <td className="py-2 text-muted-foreground">
+                  {page.scanError ? <span className="text-red-600">{page.scanError}</span> : page.schemaTypes.join(', ') || '—'}
+                </td>
+                <td className={cn('py-2 font-medium', scoreColor(page.score))}>{page.score ?? '—'}</td>
+                <td className="py-2">{page.errors.length || '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {report.pages.length > COLLAPSED_ROWS && (
+          <button
+            onClick={() => setShowAllPages(!showAllPages)}
+            className="mt-3 text-sm text-primary hover:underline flex items-center gap-1"
+          >
+            {showAllPages ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+            {showAllPages ? 'Show fewer' : `Show all ${report.pages.length}`}
+          </button>
+        )}
+      </Section>
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+import { CheckCircle, AlertTriangle, AlertCircle, FileWarning, WifiOff } from 'lucide-react'
+import type { SchemaDriftStatus, SchemaDriftDetails } from '@shared/types'
+import { cn } from '@/utils/cn'
+
+interface SchemaDriftBadgeProps {
+  status?: SchemaDriftStatus
+  details?: SchemaDriftDetails
+  checkedAt?: string
+  className?: string
+}
+
+export const DRIFT_STATUS_CONFIG: Record<SchemaDriftStatus, {
+  label: string
+  icon: typeof CheckCircle
+  className: string
+}> = {
+  in_sync: {
+    label: 'Live',
+    icon: CheckCircle,
+    className: 'bg-success/10 text-success-foreground border-success/20'
+  },
+  missing_on_page: {
+    label: 'Missing on page',
+    icon: AlertCircle,
+    className: 'bg-destructive/10 text-destructive border-destructive/20'
+  },
+  modified: {
+    label: 'Modified',
+    icon: AlertTriangle,
+    className: 'bg-warning/10 text-warning-foreground border-warning/20'
+  },
+  content_changed: {
+    label: 'Content changed',
+    icon: FileWarning,
+    className: 'bg-orange-500/10 text-orange-600 border-orange-500/20'
+  },
+  unreachable: {
+    label: 'Unreachable',
+    icon: WifiOff,
+    className: 'bg-muted text-muted-foreground border-border'
+  }
+}
+
+/**
+ * Build a tooltip explaining the last drift check result
+ */
+function describeDrift(status: SchemaDriftStatus, details?: SchemaDriftDetails, checkedAt?: string): string {
+  const lines: string[] = []
+
+  switch (status) {
+    case 'in_sync':
+      lines.push('Schema on the live page matches your library')
+      break
+    case 'missing_on_page':
+      lines.push(`Not found on the live page: ${details?.missingTypes.join(', ') || 'schema'}`)
+      break
+    case 'modified':
+      lines.push(`Edited on the live page: ${details?.modifiedTypes.join(', ') || 'schema'}`)
+      break
+    case 'content_changed':
+      lines.push('Page content has changed since the schema was generated - consider regenerating')
+      break
+    case 'unreachable':
+      lines.push(`Could not load the page${details?.error ? `: ${details.error}` : ''}`)
+      break
+  }
+
+  if (details?.contentSimilarity !== undefined) {
+    lines.push(`Content similarity: ${Math.round(details.contentSimilarity * 100)}%`)
+  }
+
+  if (checkedAt) {
+    lines.push(`Checked ${new Date(checkedAt).toLocaleString()}`)
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Schema Drift Badge
+ *
+ * Shows the result of the last live-page check for a library URL.
+ */
+export default function SchemaDriftBadge({ status, details, checkedAt, className }: SchemaDriftBadgeProps) {
+  if (!status) return null
+
+  const config = DRIFT_STATUS_CONFIG[status]
+  const Icon = config.icon
+
+  return (
+    <span
+      className={cn('inline-flex items-center gap-1 px-1.5 py-0.5 rounded border text-[10px] font-medium flex-shrink-0', config.className, className)}
+      title={describeDrift(status, details, checkedAt)}
+    >
+      <Icon className="h-3 w-3" />
+      {config.label}
+    </span>
+  )
+}
@@ -0,0 +1,164 @@
+import { useState } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { X, Code, Copy, Check, RefreshCw, Loader2 } from 'lucide-react'
+import { toast } from 'react-hot-toast'
+import type { UserDomain } from '@shared/types'
+import { api, apiService } from '@/services/api'
+import { cn } from '@/utils/cn'
+import ConfirmModal from '@/components/ConfirmModal'
+
+interface SchemaEmbedModalProps {
+  isOpen: boolean
+  onClose: () => void
+  domain: UserDomain | null
+}
+
+export default function SchemaEmbedModal({ isOpen, onClose, domain }: SchemaEmbedModalProps) {
+  const queryClient = useQueryClient()
+  const [copied, setCopied] = useState(false)
+  const [showRotateConfirm, setShowRotateConfirm] = useState(false)
+
+  const toggleMutation = useMutation({
+    mutationFn: (enabled: boolean) => apiService.updateDomainEmbed(domain!.id, enabled),
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ['domains'] })
+      toast.success(response.message || 'Embed settings updated')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to update embed settings')
+    }
+  })
+
+  const rotateMutation = useMutation({
+    mutationFn: () => apiService.rotateDomainEmbedKey(domain!.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['domains'] })
+      toast.success('Site key rotated - update the snippet on your site')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to rotate site key')
+    }
+  })
+
+  if (!isOpen || !domain) return null
+
+  const apiOrigin = new URL(api.defaults.baseURL!).origin
+  const snippet = domain.embedSiteKey
+    ? `<script src="${apiOrigin}/embed/loader.js" data-site-key="${domain.embedSiteKey}" async></script>`
+    : ''
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(snippet)
+    setCopied(true)
+    toast.success('Snippet copied to clipboard')
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-card border border-border rounded-lg max-w-lg w-full shadow-xl">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-border">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 bg-primary/10 rounded-lg">
+              <Code className="h-5 w-5 text-primary" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold">Embed Schema</h2>
+              <p className="text-xs text-muted-foreground font-mono">{domain.domain}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-accent rounded-md transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Add one script tag to your site template and every page loads its JSON-LD from your URL
+            library. Edits in the library go live within a few minutes - no CMS push needed.
+          </p>
+
+          <div className="flex items-center justify-between p-3 rounded-lg border border-border">
+            <div>
+              <p className="text-sm font-medium">Serve schema for this domain</p>
+              <p className="text-xs text-muted-foreground">Only pages on {domain.domain} are served</p>
+            </div>
+            <button
+              onClick={() => toggleMutation.mutate(!domain.embedEnabled)}
+              disabled={toggleMutation.isPending}
+              className={cn(
+                'relative inline-flex h-6 w-11 items-center rounded-full transition-colors disabled:opacity-50',
+                domain.embedEnabled ? 'bg-primary' : 'bg-muted'
+              )}
+              role="switch"
+              aria-checked={!!domain.embedEnabled}
+            >
+              <span
+                className={cn(
+                  'inline-block h-4 w-4 transform rounded-full bg-white transition-transform',
+                  domain.embedEnabled ? 'translate-x-6' : 'translate-x-1'
+                )}
+              />
+            </button>
+          </div>
+
+          {domain.embedEnabled && snippet && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Add this to the &lt;head&gt; of every page</p>
+              <div className="flex items-start space-x-2 p-3 bg-muted/40 rounded-lg border border-border">
+                <code className="flex-1 text-xs font-mono break-all">{snippet}</code>
+                <button
+                  onClick={handleCopy}
+                  className="p-1.5 hover:bg-accent rounded-md transition-colors flex-shrink-0"
+                  title="Copy snippet"
+                >
+                  {copied ? <Check className="h-4 w-4 text-success" /> : <Copy className="h-4 w-4" />}
+                </button>
+              </div>
+              <button
+                onClick={() => setShowRotateConfirm(true)}
+                disabled={rotateMutation.isPending}
+                className="flex items-center space-x-1.5 text-xs text-muted-foreground hover:text-foreground disabled:opacity-50"
+              >
+                {rotateMutation.isPending ? (
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                ) : (
+                  <RefreshCw className="h-3 w-3" />
+                )}
+                <span>Rotate site key</span>
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="flex items-center justify-end p-6 border-t border-border bg-muted/20">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm border border-border rounded-md hover:bg-accent transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+
+      <ConfirmModal
+        isOpen={showRotateConfirm}
+        onClose={() => setShowRotateConfirm(false)}
+        onConfirm={() => {
+          rotateMutation.mutate()
+          setShowRotateConfirm(false)
+        }}
+        title="Rotate Site Key"
+        message="The current snippet stops loading schema immediately. Replace it on your site with the new snippet."
+        confirmText="Rotate Key"
+        variant="warning"
+      />
+    </div>
+  )
+}
@@ -0,0 +1,151 @@
+import { useState } from 'react'
+import { useMutation } from '@tanstack/react-query'
+import { X, Download, Loader2 } from 'lucide-react'
+import { toast } from 'react-hot-toast'
+import type { SchemaExportFormat, SchemaOutputMode } from '@shared/types'
+import { apiService } from '@/services/api'
+import { cn } from '@/utils/cn'
+
+const FORMAT_OPTIONS: Array<{ value: SchemaExportFormat; label: string; description: string; extension: string }> = [
+  { value: 'json', label: 'JSON manifest', description: 'Normalized URL → schemas and script tags', extension: 'json' },
+  { value: 'csv', label: 'CSV', description: 'One row per URL with its script tags', extension: 'csv' },
+  { value: 'nextjs', label: 'Next.js', description: 'Data file and <SchemaJsonLd> component', extension: 'zip' },
+  { value: 'astro', label: 'Astro', description: 'Data file and SchemaJsonLd.astro component', extension: 'zip' },
+  { value: 'hugo', label: 'Hugo', description: 'Data file and head partial', extension: 'zip' },
+  { value: 'jekyll', label: 'Jekyll', description: 'Data file and head include', extension: 'zip' }
+]
+
+interface SchemaExportModalProps {
+  isOpen: boolean
+  onClose: () => void
+  domain: { id: string; domain: string } | null
+}
+
+/**
+ * Error bodies come back as Blobs because the export request asks for a blob response
+ */
+async function getExportErrorMessage(error: any): Promise<string> {
+  const data = error.response?.data
+  if (data instanceof Blob) {
+    try {
+      return JSON.parse(await data.text()).error || 'Failed to export schema'
+    } catch {
+      return 'Failed to export schema'
+    }
+  }
+  return data?.error || 'Failed to export schema'
+}
+
+export default function SchemaExportModal({ isOpen, onClose, domain }: SchemaExportModalProps) {
+  const [format, setFormat] = useState<SchemaExportFormat>('json')
+  const [outputMode, setOutputMode] = useState<SchemaOutputMode>('flat')
+
+  const exportMutation = useMutation({
+    mutationFn: () => apiService.exportDomainSchemas(domain!.id, format, outputMode),
+    onSuccess: (blob) => {
+      const option = FORMAT_OPTIONS.find((o) => o.value === format)!
+      const hostname = domain!.domain.replace(/^https?:\/\//, '').replace(/\/.*$/, '')
+      const suffix = option.extension === 'zip' ? `-${format}` : ''
+
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `${hostname}-schema${suffix}.${option.extension}`
+      a.click()
+      URL.revokeObjectURL(url)
+
+      toast.success('Schema exported')
+      onClose()
+    },
+    onError: async (error: any) => {
+      toast.error(await getExportErrorMessage(error))
+    }
+  })
+
+  if (!isOpen || !domain) return null
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-card border border-border rounded-lg max-w-md w-full shadow-xl">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-border">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 bg-primary/10 rounded-lg">
+              <Download className="h-5 w-5 text-primary" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold">Export Schema</h2>
+              <p className="text-xs text-muted-foreground font-mono">{domain.domain}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-accent rounded-md transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-2">
+          <p className="text-sm text-muted-foreground mb-3">
+            Download the schema of every visible URL in this domain for a static build.
+          </p>
+          {FORMAT_OPTIONS.map((option) => (
+            <label
+              key={option.value}
+              className={cn(
+                'flex items-start space-x-3 p-3 rounded-lg border cursor-pointer transition-colors',
+                format === option.value ? 'border-primary bg-primary/5' : 'border-border hover:bg-accent/50'
+              )}
+            >
+              <input
+                type="radio"
+                name="export-format"
+                value={option.value}
+                checked={format === option.value}
+                onChange={() => setFormat(option.value)}
+                className="mt-1"
+              />
+              <div>
+                <p className="text-sm font-medium">{option.label}</p>
+                <p className="text-xs text-muted-foreground">{option.description}</p>
+              </div>
+            </label>
+          ))}
+          <label className="flex items-center space-x-2 pt-2 text-sm">
+            <input
+              type="checkbox"
+              checked={outputMode === 'graph'}
+              onChange={(e) => setOutputMode(e.target.checked ? 'graph' : 'flat')}
+            />
+            <span>Combine each page's schemas into a single @graph with linked @ids</span>
+          </label>
+          {outputMode === 'graph' && (
+            <p className="text-xs text-muted-foreground pl-6">
+              Only this export is combined. HubSpot and WordPress pushes and the embed script still publish one script per schema.
+            </p>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="flex items-center justify-end space-x-3 p-6 border-t border-border bg-muted/20">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm border border-border rounded-md hover:bg-accent transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => exportMutation.mutate()}
+            disabled={exportMutation.isPending}
+            className="flex items-center space-x-2 px-4 py-2 text-sm bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors font-medium disabled:opacity-50"
+          >
+            {exportMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+            <span>Download</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -33,11 +33,11 @@ import RefiningOverlay from './RefiningOverlay'
 import { apiService } from '@/services/api'
 import { hubspotApi } from '@/services/hubspot'
 import { cn } from '@/utils/cn'
-import { calculateSchemaScore } from '@/utils/calculateSchemaScore'
+import { calculateSchemaScore } from '@shared/utils'
 import { MAX_REFINEMENTS } from '@shared/config/refinement'
 import { useIsAdmin } from '@/hooks/useIsAdmin'
 import { SCHEMA_TYPES } from '@/constants/schemaTypes'
-import type { JsonLdSchema, SchemaScore as SchemaScoreType, HubSpotContentMatchResult } from '@shared/types'
+import type { JsonLdSchema, SchemaScore as SchemaScoreType, HubSpotContentMatchResult, HubSpotPublishOptions, SchemaOutputMode } from '@shared/types'
 
 interface SchemaGeneratorProps {
   selectedUrl?: string
@@ -73,6 +73,7 @@ export default function SchemaGenerator({ selectedUrl, autoGenerate = false }: S
   const isAdmin = useIsAdmin()
   const [url, setUrl] = useState('')
   const [options, setOptions] = useState<GenerationOptions>(defaultOptions)
+  const [outputMode, setOutputMode] = useState<SchemaOutputMode>('flat')
   const [showOptions, setShowOptions] = useState(false)
   const [selectedSchemaType, setSelectedSchemaType] = useState<string>('Auto')
   const [showSchemaSelector, setShowSchemaSelector] = useState(false)
@@ -410,7 +411,7 @@ export default function SchemaGenerator({ selectedUrl, autoGenerate = false }: S
   // Schema generation mutation
   const generateMutation = useMutation({
     mutationFn: ({ url, options }: { url: string; options: GenerationOptions & { requestedSchemaTypes?: string[] } }) =>
-      apiService.generateSchema(url, options),
+      apiService.generateSchema(url, { ...options, outputMode }),
     onSuccess: async (response) => {
       if (response.success && response.data) {
         setGeneratedSchemas(response.data.schemas)
@@ -581,9 +582,14 @@ export default function SchemaGenerator({ selectedUrl, autoGenerate = false }: S
       schemaHtml: string
       contentTitle?: string
       contentUrl?: string
+      publish?: HubSpotPublishOptions
     }) => hubspotApi.pushSchema(params),
-    onSuccess: () => {
-      toast.success('Schema successfully pushed to HubSpot!')
+    onSuccess: (response) => {
+      if (response.data?.publishError) {
+        toast.error(response.message || 'Schema pushed to the draft, but publishing failed')
+      } else {
+        toast.success(response.message || 'Schema successfully pushed to HubSpot!')
+      }
       setShowHubSpotMatcher(false)
     },
     onError: (error: any) => {
@@ -621,7 +627,7 @@ export default function SchemaGenerator({ selectedUrl, autoGenerate = false }: S
     }
   }
 
-  const handleSelectHubSpotContent = (match: HubSpotContentMatchResult) => {
+  const handleSelectHubSpotContent = (match: HubSpotContentMatchResult, publish?: HubSpotPublishOptions) => {
     if (!selectedHubSpotConnection) {
       toast.error('Missing connection or schema data')
       return
@@ -663,7 +669,8 @@ export default function SchemaGenerator({ selectedUrl, autoGenerate = false }: S
       contentType: match.contentType as 'blog_post' | 'page' | 'landing_page',
       schemaHtml,
       contentTitle: match.title,
-      contentUrl: match.url
+      contentUrl: match.url,
+      publish
     })
   }
 
@@ -1419,6 +1426,23 @@ export default function SchemaGenerator({ selectedUrl, autoGenerate = false }: S
                   </label>
                 ))}
               </div>
+              <label className="flex items-center justify-between gap-3 mt-4 text-sm">
+                <span>Script tags</span>
+                <select
+                  value={outputMode}
+                  onChange={(e) => setOutputMode(e.target.value as SchemaOutputMode)}
+                  className="px-2 py-1 border border-border rounded-md bg-background text-sm"
+                  disabled={isGenerating}
+                >
+                  <option value="flat">One script per schema</option>
+                  <option value="graph">Single @graph with linked @ids</option>
+                </select>
+              </label>
+              {outputMode === 'graph' && (
+                <p className="mt-1 text-xs text-muted-foreground">
+                  Applies to the copied script tags only. HubSpot and WordPress pushes and the embed script still publish one script per schema.
+                </p>
+              )}
             </div>
           )}
 
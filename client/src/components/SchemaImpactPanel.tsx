@@ -0,0 +1,151 @@
+import { useState } from 'react'
+import { TrendingUp, TrendingDown, Minus, Loader2 } from 'lucide-react'
+import { cn } from '@/utils/cn'
+import { useUrlSchemaImpact } from '@/hooks/useSchemaImpact'
+import type { PageSchemaImpact, SchemaImpactWindow, SchemaImpactWindowDays } from '@/services/ga4'
+
+export const SCHEMA_IMPACT_WINDOWS: SchemaImpactWindowDays[] = [7, 14, 28]
+
+export const SCHEMA_IMPACT_STATUS_LABELS: Record<PageSchemaImpact['status'], string> = {
+  complete: 'Complete',
+  in_progress: 'Collecting data',
+  too_old: 'Before GA4 range'
+}
+
+export function formatChangePercentage(value: number | null, afterSessions?: number): string {
+  if (value === null) {
+    return afterSessions && afterSessions > 0 ? 'New' : '—'
+  }
+  return `${value > 0 ? '+' : ''}${value.toFixed(1)}%`
+}
+
+export function ChangeIndicator({ value, afterSessions }: { value: number | null; afterSessions?: number }) {
+  const Icon = value === null || value === 0 ? Minus : value > 0 ? TrendingUp : TrendingDown
+  return (
+    <span className={cn(
+      'inline-flex items-center gap-1 font-semibold',
+      value !== null && value > 0 && 'text-green-600',
+      value !== null && value < 0 && 'text-red-600',
+      (value === null || value === 0) && 'text-muted-foreground'
+    )}>
+      <Icon className="h-3.5 w-3.5" />
+      {formatChangePercentage(value, afterSessions)}
+    </span>
+  )
+}
+
+export function WindowDaysPicker({
+  value,
+  onChange
+}: {
+  value: SchemaImpactWindowDays
+  onChange: (value: SchemaImpactWindowDays) => void
+}) {
+  return (
+    <div className="flex gap-1">
+      {SCHEMA_IMPACT_WINDOWS.map((days) => (
+        <button
+          key={days}
+          onClick={() => onChange(days)}
+          className={cn(
+            'px-2.5 py-1 text-xs rounded-md transition-colors',
+            value === days ? 'bg-primary text-primary-foreground' : 'border border-border hover:bg-muted'
+          )}
+        >
+          {days}d
+        </button>
+      ))}
+    </div>
+  )
+}
+
+function WindowStats({ label, window }: { label: string; window: SchemaImpactWindow }) {
+  return (
+    <div className="rounded-md border border-border p-3">
+      <div className="text-xs text-muted-foreground">
+        {label} · {new Date(window.startDate).toLocaleDateString()} – {new Date(window.endDate).toLocaleDateString()}
+      </div>
+      <div className="mt-1 text-lg font-bold">{window.aiSessions.toLocaleString()} AI sessions</div>
+      <div className="text-xs text-muted-foreground">
+        {window.sessionsPerDay}/day · {window.aiPlatforms.length} platform{window.aiPlatforms.length !== 1 ? 's' : ''}
+        {window.aiPlatforms.length > 0 && `: ${window.aiPlatforms.join(', ')}`}
+      </div>
+    </div>
+  )
+}
+
+interface SchemaImpactPanelProps {
+  urlId: string
+}
+
+/**
+ * AI referral traffic before vs. after schema went live on a library URL
+ */
+export default function SchemaImpactPanel({ urlId }: SchemaImpactPanelProps) {
+  const [windowDays, setWindowDays] = useState<SchemaImpactWindowDays>(28)
+  const { impact, note, isLoading, error } = useUrlSchemaImpact(urlId, windowDays)
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold">AI Traffic Impact</h2>
+        <WindowDaysPicker value={windowDays} onChange={setWindowDays} />
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading AI referral traffic...
+        </div>
+      ) : error ? (
+        <p className="text-sm text-muted-foreground">Failed to load AI traffic impact</p>
+      ) : !impact ? (
+        <p className="text-sm text-muted-foreground">{note || 'No AI traffic data available'}</p>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            Schema went live {new Date(impact.deployment.deployedAt).toLocaleDateString()} ({impact.deployment.source === 'cms_push' ? 'first CMS push' : 'first generation'}).
+            {impact.status !== 'complete' && ` ${SCHEMA_IMPACT_STATUS_LABELS[impact.status]}.`}
+          </p>
+
+          {impact.before && impact.after && (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <WindowStats label={`${impact.windowDays} days before`} window={impact.before} />
+                <WindowStats label={`${impact.after.days} days after`} window={impact.after} />
+              </div>
+
+              <div className="grid grid-cols-3 gap-3 text-sm">
+                <div className="rounded-md bg-muted/30 p-3">
+                  <div className="text-xs text-muted-foreground mb-1">AI sessions/day</div>
+                  <ChangeIndicator value={impact.sessionsChangePercentage} afterSessions={impact.after.aiSessions} />
+                </div>
+                <div className="rounded-md bg-muted/30 p-3">
+                  <div className="text-xs text-muted-foreground mb-1">AI platforms</div>
+                  <span className="font-semibold">{impact.platformsChange > 0 ? '+' : ''}{impact.platformsChange}</span>
+                </div>
+                <div className="rounded-md bg-muted/30 p-3">
+                  <div className="text-xs text-muted-foreground mb-1">Pages without schema</div>
+                  {impact.control ? (
+                    <ChangeIndicator value={impact.control.sessionsChangePercentage} />
+                  ) : (
+                    <span className="text-muted-foreground">—</span>
+                  )}
+                </div>
+              </div>
+
+              {impact.liftPercentage !== null && (
+                <p className="text-sm">
+                  Lift vs. {impact.control?.pages} page{impact.control?.pages !== 1 ? 's' : ''} without schema over the same windows:{' '}
+                  <span className={cn('font-semibold', impact.liftPercentage >= 0 ? 'text-green-600' : 'text-red-600')}>
+                    {impact.liftPercentage > 0 ? '+' : ''}{impact.liftPercentage.toFixed(1)} percentage points
+                  </span>
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,169 @@
+import { motion } from 'framer-motion'
+import { Sparkles } from 'lucide-react'
+import { cn } from '@/utils/cn'
+import type { SchemaImpactGroup, SchemaImpactRollup as SchemaImpactRollupData, SchemaImpactWindowDays } from '@/services/ga4'
+import { ChangeIndicator, WindowDaysPicker, SCHEMA_IMPACT_STATUS_LABELS } from '@/components/SchemaImpactPanel'
+
+/** Deployments listed in the table */
+const MAX_ROWS = 20
+
+interface SchemaImpactRollupProps {
+  impact: SchemaImpactRollupData | null
+  note?: string
+  isLoading?: boolean
+  windowDays: SchemaImpactWindowDays
+  onWindowDaysChange: (windowDays: SchemaImpactWindowDays) => void
+  className?: string
+}
+
+function GroupStats({ label, group }: { label: string; group: SchemaImpactGroup }) {
+  return (
+    <div className="rounded-xl border border-border p-4">
+      <div className="text-sm text-muted-foreground">{label} ({group.pages})</div>
+      <div className="mt-2 text-2xl font-black">
+        <ChangeIndicator value={group.sessionsChangePercentage} afterSessions={group.afterSessionsPerPageDay} />
+      </div>
+      <div className="text-xs text-muted-foreground mt-1">
+        {group.beforeSessionsPerPageDay} → {group.afterSessionsPerPageDay} AI sessions per page per day ·{' '}
+        {group.averagePlatformsChange > 0 ? '+' : ''}{group.averagePlatformsChange} platforms per page
+      </div>
+    </div>
+  )
+}
+
+/**
+ * AI referral traffic before vs. after schema went live, across a domain's library pages
+ */
+export default function SchemaImpactRollup({
+  impact,
+  note,
+  isLoading = false,
+  windowDays,
+  onWindowDaysChange,
+  className = ''
+}: SchemaImpactRollupProps) {
+  if (isLoading) {
+    return (
+      <div className={cn('bg-card border border-border rounded-2xl p-8 animate-pulse', className)}>
+        <div className="h-8 w-48 bg-muted/20 rounded mb-6" />
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="h-24 bg-muted/20 rounded" />
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5, delay: 0.2 }}
+      className={cn('bg-card border border-border rounded-2xl p-8', className)}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between gap-3 mb-6">
+        <div className="flex items-center gap-3">
+          <div className="inline-flex items-center justify-center rounded-xl bg-primary/10 p-3">
+            <Sparkles className="h-6 w-6 text-primary" />
+          </div>
+          <div>
+            <h3 className="text-xl font-bold bg-gradient-to-br from-foreground to-foreground/70 bg-clip-text text-transparent">
+              Schema Impact
+            </h3>
+            <p className="text-sm text-muted-foreground">
+              AI referral traffic before vs. after schema went live, against pages without schema
+            </p>
+          </div>
+        </div>
+        <WindowDaysPicker value={windowDays} onChange={onWindowDaysChange} />
+      </div>
+
+      {!impact ? (
+        <p className="text-center text-muted-foreground py-8">{note || 'No schema impact data available'}</p>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <GroupStats label="Pages with schema" group={impact.schemaPages} />
+            {impact.control ? (
+              <GroupStats label="Pages without schema" group={impact.control} />
+            ) : (
+              <div className="rounded-xl border border-border p-4 text-sm text-muted-foreground">
+                No library pages without schema to compare against
+              </div>
+            )}
+            <div className="rounded-xl border border-border p-4">
+              <div className="text-sm text-muted-foreground">Lift</div>
+              <div className={cn(
+                'mt-2 text-2xl font-black',
+                impact.liftPercentage !== null && impact.liftPercentage > 0 && 'text-green-600',
+                impact.liftPercentage !== null && impact.liftPercentage < 0 && 'text-red-600'
+              )}>
+                {impact.liftPercentage === null ? '—' : `${impact.liftPercentage > 0 ? '+' : ''}${impact.liftPercentage.toFixed(1)} pts`}
+              </div>
+              <div className="text-xs text-muted-foreground mt-1">
+                {impact.pagesComplete} of {impact.pagesWithSchema} deployments with full {impact.windowDays}-day windows
+                {impact.pagesInProgress > 0 && ` · ${impact.pagesInProgress} collecting data`}
+                {impact.pagesTooOld > 0 && ` · ${impact.pagesTooOld} before GA4 range`}
+              </div>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground border-b border-border">
+                  <th className="py-2 pr-4 font-medium">Page</th>
+                  <th className="py-2 pr-4 font-medium">Schema live</th>
+                  <th className="py-2 pr-4 font-medium text-right">Sessions before</th>
+                  <th className="py-2 pr-4 font-medium text-right">Sessions after</th>
+                  <th className="py-2 pr-4 font-medium text-right">Change</th>
+                  <th className="py-2 pr-4 font-medium text-right">Platforms</th>
+                  <th className="py-2 font-medium text-right">vs. control</th>
+                </tr>
+              </thead>
+              <tbody>
+                {impact.pages.slice(0, MAX_ROWS).map((page) => (
+                  <tr key={page.deployment.urlId} className="border-b border-border/50">
+                    <td className="py-2 pr-4 font-mono text-xs break-all">{page.deployment.path}</td>
+                    <td className="py-2 pr-4 whitespace-nowrap">
+                      {new Date(page.deployment.deployedAt).toLocaleDateString()}
+                      <span className="text-xs text-muted-foreground ml-1">
+                        ({page.deployment.source === 'cms_push' ? 'CMS' : 'generated'})
+                      </span>
+                    </td>
+                    {page.before && page.after ? (
+                      <>
+                        <td className="py-2 pr-4 text-right">{page.before.aiSessions}</td>
+                        <td className="py-2 pr-4 text-right">{page.after.aiSessions}</td>
+                        <td className="py-2 pr-4 text-right">
+                          <ChangeIndicator value={page.sessionsChangePercentage} afterSessions={page.after.aiSessions} />
+                        </td>
+                        <td className="py-2 pr-4 text-right">{page.platformsChange > 0 ? '+' : ''}{page.platformsChange}</td>
+                        <td className="py-2 text-right">
+                          {page.status !== 'complete'
+                            ? <span className="text-xs text-muted-foreground">{SCHEMA_IMPACT_STATUS_LABELS[page.status]}</span>
+                            : page.liftPercentage === null ? '—' : `${page.liftPercentage > 0 ? '+' : ''}${page.liftPercentage.toFixed(1)} pts`}
+                        </td>
+                      </>
+                    ) : (
+                      <td colSpan={5} className="py-2 text-right text-xs text-muted-foreground">
+                        {SCHEMA_IMPACT_STATUS_LABELS[page.status]}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {impact.pages.length > MAX_ROWS && (
+              <p className="text-xs text-muted-foreground mt-2">
+                Showing the {MAX_ROWS} most recent of {impact.pages.length} deployments
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </motion.div>
+  )
+}
@@ -16,7 +16,8 @@ import {
   Clock,
   TrendingDown,
   RefreshCw,
-  Shield
+  Shield,
+  XCircle
 } from 'lucide-react'
 import { cn } from '@/utils/cn'
 import type { SchemaScore, ActionItem } from '@shared/types'
@@ -475,6 +476,46 @@ export default function SchemaScore({
         </div>
       )}
 
+      {/* Rich Result Eligibility */}
+      {score.richResults && score.richResults.length > 0 && (
+        <div className="border border-border rounded-lg p-4 mb-4">
+          <h4 className="text-sm font-semibold mb-3 flex items-center">
+            <Star className="h-4 w-4 mr-2 text-primary" />
+            Rich Result Eligibility
+          </h4>
+          <ul className="space-y-2">
+            {score.richResults.map((result) => {
+              const StatusIcon = result.status === 'eligible'
+                ? CheckCircle
+                : result.status === 'partial' ? AlertTriangle : XCircle
+              const missing = result.status === 'ineligible' ? result.missingRequired : result.missingRecommended
+              return (
+                <li key={result.feature} className="text-sm flex items-start">
+                  <StatusIcon
+                    className={cn(
+                      'h-4 w-4 mt-0.5 mr-2 flex-shrink-0',
+                      result.status === 'eligible' && 'text-success-foreground',
+                      result.status === 'partial' && 'text-warning-foreground',
+                      result.status === 'ineligible' && 'text-destructive-foreground'
+                    )}
+                  />
+                  <div>
+                    <span className="font-medium">{result.name}</span>
+                    <span className="text-muted-foreground capitalize"> - {result.status}</span>
+                    {missing.length > 0 && (
+                      <p className="text-xs text-muted-foreground mt-0.5">
+                        {result.status === 'ineligible' ? 'Missing required: ' : 'Missing recommended: '}
+                        {missing.join(', ')}
+                      </p>
+                    )}
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        </div>
+      )}
+
       {/* Priority Action Items */}
       {hasActionItems && (
         <div className="border border-border rounded-lg mb-4">
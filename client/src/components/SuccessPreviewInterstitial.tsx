@@ -1,5 +1,5 @@
 import { X, Award, CheckCircle, Sparkles, TrendingUp, Lightbulb } from 'lucide-react'
-import { detectEligibleRichResults } from '@/utils/richResultsDetector'
+import { evaluateRichResults } from '@shared/utils'
 
 interface SuccessPreviewInterstitialProps {
   isOpen: boolean
@@ -24,8 +24,10 @@ export default function SuccessPreviewInterstitial({
 
   const { schemaScore, schemaType, schemas, creditsRemaining, url } = data
 
-  // Detect eligible rich results
-  const eligibleResults = detectEligibleRichResults(schemas)
+  // Rich results the schemas qualify for
+  const eligibleResults = evaluateRichResults(schemas)
+    .filter(result => result.status !== 'ineligible')
+    .map(result => result.name)
 
   // Get quality rating
   const getQualityRating = (score: number) => {
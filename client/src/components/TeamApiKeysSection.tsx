@@ -0,0 +1,306 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  KeyRound,
+  Plus,
+  RefreshCw,
+  Trash2,
+  Copy,
+  Check,
+  Loader2,
+  AlertTriangle
+} from 'lucide-react'
+import { toast } from 'react-hot-toast'
+import type { ApiKeyScope, TeamApiKey } from '@shared/types'
+import { apiService } from '@/services/api'
+import { cn } from '@/utils/cn'
+import ConfirmModal from '@/components/ConfirmModal'
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  'schema:generate': 'Generate schema (uses team credits)',
+  'schema:validate': 'Validate schema'
+}
+
+const ALL_SCOPES = Object.keys(SCOPE_LABELS) as ApiKeyScope[]
+
+const formatDate = (value?: string): string =>
+  value
+    ? new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+    : 'Never'
+
+// =============================================================================
+// Component
+// =============================================================================
+
+interface TeamApiKeysSectionProps {
+  isOwner: boolean
+}
+
+export default function TeamApiKeysSection({ isOwner }: TeamApiKeysSectionProps) {
+  const queryClient = useQueryClient()
+  const [newKeyName, setNewKeyName] = useState('')
+  const [newKeyScopes, setNewKeyScopes] = useState<ApiKeyScope[]>(ALL_SCOPES)
+  const [revealedSecret, setRevealedSecret] = useState<{ keyId: string; secret: string } | null>(null)
+  const [copied, setCopied] = useState(false)
+  const [pendingAction, setPendingAction] = useState<{ type: 'rotate' | 'revoke'; key: TeamApiKey } | null>(null)
+
+  const { data: apiKeysData, isLoading } = useQuery({
+    queryKey: ['team-api-keys'],
+    queryFn: () => apiService.listApiKeys()
+  })
+
+  const apiKeys = apiKeysData?.data || []
+  const activeKeys = apiKeys.filter((key) => !key.revokedAt)
+  const revokedKeys = apiKeys.filter((key) => key.revokedAt)
+
+  const createMutation = useMutation({
+    mutationFn: () => apiService.createApiKey({ name: newKeyName.trim(), scopes: newKeyScopes }),
+    onSuccess: (response) => {
+      if (response.data) {
+        setRevealedSecret({ keyId: response.data.apiKey.id, secret: response.data.secret })
+      }
+      setNewKeyName('')
+      setNewKeyScopes(ALL_SCOPES)
+      queryClient.invalidateQueries({ queryKey: ['team-api-keys'] })
+      toast.success('API key created')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to create API key')
+    }
+  })
+
+  const rotateMutation = useMutation({
+    mutationFn: (keyId: string) => apiService.rotateApiKey(keyId),
+    onSuccess: (response) => {
+      if (response.data) {
+        setRevealedSecret({ keyId: response.data.apiKey.id, secret: response.data.secret })
+      }
+      queryClient.invalidateQueries({ queryKey: ['team-api-keys'] })
+      toast.success('API key rotated')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to rotate API key')
+    }
+  })
+
+  const revokeMutation = useMutation({
+    mutationFn: (keyId: string) => apiService.revokeApiKey(keyId),
+    onSuccess: (_, keyId) => {
+      if (revealedSecret?.keyId === keyId) {
+        setRevealedSecret(null)
+      }
+      queryClient.invalidateQueries({ queryKey: ['team-api-keys'] })
+      toast.success('API key revoked')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to revoke API key')
+    }
+  })
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setNewKeyScopes((current) =>
+      current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope]
+    )
+  }
+
+  const handleCopySecret = () => {
+    if (!revealedSecret) return
+    navigator.clipboard.writeText(revealedSecret.secret)
+    setCopied(true)
+    toast.success('API key copied to clipboard')
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  const handleConfirmAction = () => {
+    if (!pendingAction) return
+    if (pendingAction.type === 'rotate') {
+      rotateMutation.mutate(pendingAction.key.id)
+    } else {
+      revokeMutation.mutate(pendingAction.key.id)
+    }
+    setPendingAction(null)
+  }
+
+  return (
+    <div className="bg-card rounded-lg border border-border">
+      <div className="p-6 border-b border-border">
+        <div className="flex items-center space-x-3">
+          <KeyRound className="h-5 w-5 text-primary" />
+          <h3 className="text-lg font-semibold">API Keys</h3>
+        </div>
+        <p className="text-sm text-muted-foreground mt-1">
+          Call <code className="font-mono text-xs">/api/schema/generate</code> and{' '}
+          <code className="font-mono text-xs">/api/schema/validate</code> from build pipelines with an{' '}
+          <code className="font-mono text-xs">X-API-Key</code> header. Generations are charged to this team's credits.
+        </p>
+      </div>
+
+      {/* One-time secret reveal */}
+      {revealedSecret && (
+        <div className="m-6 mb-0 p-4 bg-warning/10 border border-warning/30 rounded-lg space-y-3">
+          <div className="flex items-start space-x-2">
+            <AlertTriangle className="h-4 w-4 text-warning mt-0.5 flex-shrink-0" />
+            <p className="text-sm">
+              <strong>Copy this key now.</strong> For security it will not be shown again.
+            </p>
+          </div>
+          <div className="flex items-center space-x-2 p-3 bg-background rounded-lg border border-border">
+            <input
+              type="text"
+              value={revealedSecret.secret}
+              readOnly
+              className="flex-1 bg-transparent text-sm font-mono outline-none"
+            />
+            <button
+              onClick={handleCopySecret}
+              className="flex items-center space-x-2 px-3 py-1.5 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors text-sm font-medium"
+            >
+              {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              <span>{copied ? 'Copied!' : 'Copy'}</span>
+            </button>
+          </div>
+          <button
+            onClick={() => setRevealedSecret(null)}
+            className="text-sm text-muted-foreground hover:text-foreground"
+          >
+            I've saved it
+          </button>
+        </div>
+      )}
+
+      {/* Create form - owners only */}
+      {isOwner && (
+        <div className="p-6 border-b border-border space-y-3">
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={newKeyName}
+              onChange={(e) => setNewKeyName(e.target.value)}
+              placeholder="Key name, e.g. Netlify build"
+              maxLength={100}
+              className="flex-1 px-3 py-2 bg-background border border-input rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+            <button
+              onClick={() => createMutation.mutate()}
+              disabled={!newKeyName.trim() || newKeyScopes.length === 0 || createMutation.isPending}
+              className="flex items-center space-x-2 px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+            >
+              {createMutation.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Plus className="h-4 w-4" />
+              )}
+              <span>Create Key</span>
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-4">
+            {ALL_SCOPES.map((scope) => (
+              <label key={scope} className="flex items-center space-x-2 text-sm text-muted-foreground">
+                <input
+                  type="checkbox"
+                  checked={newKeyScopes.includes(scope)}
+                  onChange={() => toggleScope(scope)}
+                  className="rounded border-input"
+                />
+                <span>{SCOPE_LABELS[scope]}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Key list */}
+      <div className="divide-y divide-border">
+        {isLoading ? (
+          <div className="p-8 text-center">
+            <Loader2 className="h-8 w-8 animate-spin mx-auto text-muted-foreground" />
+            <p className="text-sm text-muted-foreground mt-2">Loading API keys...</p>
+          </div>
+        ) : activeKeys.length === 0 ? (
+          <div className="p-8 text-center">
+            <p className="text-muted-foreground">No active API keys</p>
+          </div>
+        ) : (
+          activeKeys.map((key) => (
+            <div key={key.id} className="p-4 flex items-center justify-between hover:bg-accent/50 transition-colors">
+              <div className="min-w-0">
+                <p className="font-medium">{key.name}</p>
+                <p className="text-sm text-muted-foreground font-mono">{key.keyPrefix}…</p>
+                <div className="flex flex-wrap items-center gap-2 mt-1">
+                  {key.scopes.map((scope) => (
+                    <span key={scope} className="text-xs px-2 py-0.5 bg-primary/10 text-primary rounded">
+                      {scope}
+                    </span>
+                  ))}
+                  <span className="text-xs text-muted-foreground">
+                    Created {formatDate(key.createdAt)} • Last used {formatDate(key.lastUsedAt)} • {key.usageCount} {key.usageCount === 1 ? 'call' : 'calls'}
+                  </span>
+                </div>
+              </div>
+
+              {isOwner && (
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => setPendingAction({ type: 'rotate', key })}
+                    disabled={rotateMutation.isPending}
+                    className="p-2 text-primary hover:bg-primary/10 rounded-md transition-colors disabled:opacity-50"
+                    title="Rotate key"
+                  >
+                    <RefreshCw className={cn('h-4 w-4', rotateMutation.isPending && 'animate-spin')} />
+                  </button>
+                  <button
+                    onClick={() => setPendingAction({ type: 'revoke', key })}
+                    disabled={revokeMutation.isPending}
+                    className="p-2 text-destructive hover:bg-destructive/10 rounded-md transition-colors disabled:opacity-50"
+                    title="Revoke key"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      {revokedKeys.length > 0 && (
+        <div className="p-6 border-t border-border">
+          <h4 className="text-sm font-semibold mb-3 text-muted-foreground">
+            Revoked Keys ({revokedKeys.length})
+          </h4>
+          <div className="space-y-2">
+            {revokedKeys.map((key) => (
+              <div key={key.id} className="flex items-center justify-between p-3 bg-accent/30 rounded-lg border border-border opacity-75">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">{key.name}</p>
+                  <p className="text-xs text-muted-foreground font-mono">{key.keyPrefix}…</p>
+                </div>
+                <span className="text-xs px-2 py-0.5 bg-red-500/10 text-red-600 rounded font-medium">
+                  Revoked {formatDate(key.revokedAt)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <ConfirmModal
+        isOpen={!!pendingAction}
+        onClose={() => setPendingAction(null)}
+        onConfirm={handleConfirmAction}
+        title={pendingAction?.type === 'rotate' ? 'Rotate API Key' : 'Revoke API Key'}
+        message={
+          pendingAction?.type === 'rotate'
+            ? `A new secret will be generated for "${pendingAction.key.name}". The current secret stops working immediately, so update your pipelines right away.`
+            : `"${pendingAction?.key.name}" will stop working immediately. This action cannot be undone.`
+        }
+        confirmText={pendingAction?.type === 'rotate' ? 'Rotate Key' : 'Revoke Key'}
+        variant={pendingAction?.type === 'rotate' ? 'warning' : 'danger'}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,443 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  Webhook,
+  Plus,
+  RefreshCw,
+  Trash2,
+  Copy,
+  Check,
+  Loader2,
+  AlertTriangle,
+  Send,
+  Pause,
+  Play,
+  ChevronDown,
+  ChevronRight
+} from 'lucide-react'
+import { toast } from 'react-hot-toast'
+import type { TeamWebhookEndpoint, WebhookDeliveryStatus, WebhookEventType } from '@shared/types'
+import { apiService } from '@/services/api'
+import { cn } from '@/utils/cn'
+import ConfirmModal from '@/components/ConfirmModal'
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const EVENT_LABELS: Record<Exclude<WebhookEventType, 'webhook.test'>, string> = {
+  'schema.generated': 'Schema generated',
+  'schema.refined': 'Schema refined',
+  'schema.updated': 'Schema edited',
+  'schema.pushed': 'Pushed to a CMS',
+  'schema.validation_failed': 'Validation failed'
+}
+
+const ALL_EVENTS = Object.keys(EVENT_LABELS) as WebhookEventType[]
+
+const STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+  pending: 'bg-yellow-500/10 text-yellow-600',
+  delivering: 'bg-blue-500/10 text-blue-600',
+  success: 'bg-green-500/10 text-green-600',
+  failed: 'bg-red-500/10 text-red-600'
+}
+
+const formatDateTime = (value?: string): string =>
+  value
+    ? new Date(value).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+    : 'Never'
+
+// =============================================================================
+// Delivery log
+// =============================================================================
+
+function WebhookDeliveryLog({ endpointId }: { endpointId: string }) {
+  const { data: deliveriesData, isLoading } = useQuery({
+    queryKey: ['team-webhook-deliveries', endpointId],
+    queryFn: () => apiService.listWebhookDeliveries(endpointId),
+    refetchInterval: 30000
+  })
+
+  const deliveries = deliveriesData?.data || []
+
+  if (isLoading) {
+    return (
+      <div className="py-4 text-center">
+        <Loader2 className="h-5 w-5 animate-spin mx-auto text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (deliveries.length === 0) {
+    return <p className="py-3 text-sm text-muted-foreground">No deliveries yet</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      {deliveries.map((delivery) => (
+        <div key={delivery.id} className="p-3 bg-accent/30 rounded-lg border border-border text-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className={cn('text-xs px-2 py-0.5 rounded font-medium', STATUS_STYLES[delivery.status])}>
+              {delivery.status}
+            </span>
+            <span className="font-mono text-xs">{delivery.eventType}</span>
+            {delivery.isTest && (
+              <span className="text-xs px-2 py-0.5 bg-primary/10 text-primary rounded">test</span>
+            )}
+            <span className="text-xs text-muted-foreground">
+              {formatDateTime(delivery.createdAt)} • {delivery.attemptCount} {delivery.attemptCount === 1 ? 'attempt' : 'attempts'}
+              {delivery.responseStatus !== undefined && ` • HTTP ${delivery.responseStatus}`}
+              {delivery.durationMs !== undefined && ` • ${delivery.durationMs}ms`}
+            </span>
+          </div>
+          {delivery.errorMessage && (
+            <p className="text-xs text-destructive mt-1">{delivery.errorMessage}</p>
+          )}
+          {delivery.status === 'pending' && delivery.nextAttemptAt && (
+            <p className="text-xs text-muted-foreground mt-1">Next retry {formatDateTime(delivery.nextAttemptAt)}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+interface TeamWebhooksSectionProps {
+  isOwner: boolean
+}
+
+export default function TeamWebhooksSection({ isOwner }: TeamWebhooksSectionProps) {
+  const queryClient = useQueryClient()
+  const [newName, setNewName] = useState('')
+  const [newUrl, setNewUrl] = useState('')
+  const [newEvents, setNewEvents] = useState<WebhookEventType[]>(ALL_EVENTS)
+  const [revealedSecret, setRevealedSecret] = useState<{ endpointId: string; secret: string } | null>(null)
+  const [copied, setCopied] = useState(false)
+  const [expandedEndpointId, setExpandedEndpointId] = useState<string | null>(null)
+  const [pendingAction, setPendingAction] = useState<{ type: 'rotate' | 'delete'; endpoint: TeamWebhookEndpoint } | null>(null)
+
+  const { data: webhooksData, isLoading } = useQuery({
+    queryKey: ['team-webhooks'],
+    queryFn: () => apiService.listWebhooks()
+  })
+
+  const endpoints = webhooksData?.data || []
+
+  const createMutation = useMutation({
+    mutationFn: () => apiService.createWebhook({ name: newName.trim(), url: newUrl.trim(), events: newEvents }),
+    onSuccess: (response) => {
+      if (response.data) {
+        setRevealedSecret({ endpointId: response.data.endpoint.id, secret: response.data.secret })
+      }
+      setNewName('')
+      setNewUrl('')
+      setNewEvents(ALL_EVENTS)
+      queryClient.invalidateQueries({ queryKey: ['team-webhooks'] })
+      toast.success('Webhook created')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to create webhook')
+    }
+  })
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: (endpoint: TeamWebhookEndpoint) =>
+      apiService.updateWebhook(endpoint.id, { isActive: !endpoint.isActive }),
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ['team-webhooks'] })
+      toast.success(response.data?.isActive ? 'Webhook resumed' : 'Webhook paused')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to update webhook')
+    }
+  })
+
+  const rotateMutation = useMutation({
+    mutationFn: (endpointId: string) => apiService.rotateWebhookSecret(endpointId),
+    onSuccess: (response) => {
+      if (response.data) {
+        setRevealedSecret({ endpointId: response.data.endpoint.id, secret: response.data.secret })
+      }
+      queryClient.invalidateQueries({ queryKey: ['team-webhooks'] })
+      toast.success('Signing secret rotated')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to rotate signing secret')
+    }
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: (endpointId: string) => apiService.deleteWebhook(endpointId),
+    onSuccess: (_, endpointId) => {
+      if (revealedSecret?.endpointId === endpointId) {
+        setRevealedSecret(null)
+      }
+      queryClient.invalidateQueries({ queryKey: ['team-webhooks'] })
+      toast.success('Webhook deleted')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to delete webhook')
+    }
+  })
+
+  const testMutation = useMutation({
+    mutationFn: (endpointId: string) => apiService.testWebhook(endpointId),
+    onSuccess: (response, endpointId) => {
+      if (response.data?.status === 'success') {
+        toast.success(response.message || 'Test delivered')
+      } else {
+        toast.error(response.message || 'Test delivery failed')
+      }
+      setExpandedEndpointId(endpointId)
+      queryClient.invalidateQueries({ queryKey: ['team-webhooks'] })
+      queryClient.invalidateQueries({ queryKey: ['team-webhook-deliveries', endpointId] })
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to send test webhook')
+    }
+  })
+
+  const toggleEvent = (event: WebhookEventType) => {
+    setNewEvents((current) =>
+      current.includes(event) ? current.filter((e) => e !== event) : [...current, event]
+    )
+  }
+
+  const handleCopySecret = () => {
+    if (!revealedSecret) return
+    navigator.clipboard.writeText(revealedSecret.secret)
+    setCopied(true)
+    toast.success('Signing secret copied to clipboard')
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  const handleConfirmAction = () => {
+    if (!pendingAction) return
+    if (pendingAction.type === 'rotate') {
+      rotateMutation.mutate(pendingAction.endpoint.id)
+    } else {
+      deleteMutation.mutate(pendingAction.endpoint.id)
+    }
+    setPendingAction(null)
+  }
+
+  return (
+    <div className="bg-card rounded-lg border border-border">
+      <div className="p-6 border-b border-border">
+        <div className="flex items-center space-x-3">
+          <Webhook className="h-5 w-5 text-primary" />
+          <h3 className="text-lg font-semibold">Webhooks</h3>
+        </div>
+        <p className="text-sm text-muted-foreground mt-1">
+          Receive signed JSON when schema changes. Verify the{' '}
+          <code className="font-mono text-xs">X-SuperSchema-Signature</code> header: an HMAC-SHA256 of{' '}
+          <code className="font-mono text-xs">{'{timestamp}.{body}'}</code> with your signing secret. Failed deliveries are retried with backoff.
+        </p>
+      </div>
+
+      {/* One-time secret reveal */}
+      {revealedSecret && (
+        <div className="m-6 mb-0 p-4 bg-warning/10 border border-warning/30 rounded-lg space-y-3">
+          <div className="flex items-start space-x-2">
+            <AlertTriangle className="h-4 w-4 text-warning mt-0.5 flex-shrink-0" />
+            <p className="text-sm">
+              <strong>Copy this signing secret now.</strong> For security it will not be shown again.
+            </p>
+          </div>
+          <div className="flex items-center space-x-2 p-3 bg-background rounded-lg border border-border">
+            <input
+              type="text"
+              value={revealedSecret.secret}
+              readOnly
+              className="flex-1 bg-transparent text-sm font-mono outline-none"
+            />
+            <button
+              onClick={handleCopySecret}
+              className="flex items-center space-x-2 px-3 py-1.5 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors text-sm font-medium"
+            >
+              {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              <span>{copied ? 'Copied!' : 'Copy'}</span>
+            </button>
+          </div>
+          <button
+            onClick={() => setRevealedSecret(null)}
+            className="text-sm text-muted-foreground hover:text-foreground"
+          >
+            I've saved it
+          </button>
+        </div>
+      )}
+
+      {/* Create form - owners only */}
+      {isOwner && (
+        <div className="p-6 border-b border-border space-y-3">
+          <div className="flex flex-col md:flex-row gap-2">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Name, e.g. Deploy pipeline"
+              maxLength={100}
+              className="md:w-1/3 px-3 py-2 bg-background border border-input rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+            <input
+              type="url"
+              value={newUrl}
+              onChange={(e) => setNewUrl(e.target.value)}
+              placeholder="https://example.com/webhooks/superschema"
+              className="flex-1 px-3 py-2 bg-background border border-input rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+            <button
+              onClick={() => createMutation.mutate()}
+              disabled={!newName.trim() || !newUrl.trim() || newEvents.length === 0 || createMutation.isPending}
+              className="flex items-center justify-center space-x-2 px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+            >
+              {createMutation.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Plus className="h-4 w-4" />
+              )}
+              <span>Add Webhook</span>
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-4">
+            {ALL_EVENTS.map((event) => (
+              <label key={event} className="flex items-center space-x-2 text-sm text-muted-foreground">
+                <input
+                  type="checkbox"
+                  checked={newEvents.includes(event)}
+                  onChange={() => toggleEvent(event)}
+                  className="rounded border-input"
+                />
+                <span>{EVENT_LABELS[event as keyof typeof EVENT_LABELS]}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Endpoint list */}
+      <div className="divide-y divide-border">
+        {isLoading ? (
+          <div className="p-8 text-center">
+            <Loader2 className="h-8 w-8 animate-spin mx-auto text-muted-foreground" />
+            <p className="text-sm text-muted-foreground mt-2">Loading webhooks...</p>
+          </div>
+        ) : endpoints.length === 0 ? (
+          <div className="p-8 text-center">
+            <p className="text-muted-foreground">No webhooks configured</p>
+          </div>
+        ) : (
+          endpoints.map((endpoint) => {
+            const isExpanded = expandedEndpointId === endpoint.id
+
+            return (
+              <div key={endpoint.id} className="p-4">
+                <div className="flex items-center justify-between">
+                  <button
+                    onClick={() => setExpandedEndpointId(isExpanded ? null : endpoint.id)}
+                    className="min-w-0 flex items-start space-x-2 text-left"
+                  >
+                    {isExpanded ? (
+                      <ChevronDown className="h-4 w-4 mt-1 flex-shrink-0 text-muted-foreground" />
+                    ) : (
+                      <ChevronRight className="h-4 w-4 mt-1 flex-shrink-0 text-muted-foreground" />
+                    )}
+                    <div className="min-w-0">
+                      <div className="flex items-center space-x-2">
+                        <p className="font-medium">{endpoint.name}</p>
+                        {!endpoint.isActive && (
+                          <span className="text-xs px-2 py-0.5 bg-muted text-muted-foreground rounded font-medium">
+                            Paused
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-sm text-muted-foreground truncate">{endpoint.url}</p>
+                      <div className="flex flex-wrap items-center gap-2 mt-1">
+                        {endpoint.events.map((event) => (
+                          <span key={event} className="text-xs px-2 py-0.5 bg-primary/10 text-primary rounded">
+                            {event}
+                          </span>
+                        ))}
+                        <span className="text-xs text-muted-foreground">
+                          <span className="font-mono">{endpoint.secretPrefix}…</span> • Last delivery {formatDateTime(endpoint.lastDeliveryAt)}
+                          {endpoint.lastDeliveryStatus && ` (${endpoint.lastDeliveryStatus})`}
+                        </span>
+                      </div>
+                    </div>
+                  </button>
+
+                  {isOwner && (
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => testMutation.mutate(endpoint.id)}
+                        disabled={!endpoint.isActive || testMutation.isPending}
+                        className="p-2 text-primary hover:bg-primary/10 rounded-md transition-colors disabled:opacity-50"
+                        title="Send test event"
+                      >
+                        {testMutation.isPending && testMutation.variables === endpoint.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Send className="h-4 w-4" />
+                        )}
+                      </button>
+                      <button
+                        onClick={() => toggleActiveMutation.mutate(endpoint)}
+                        disabled={toggleActiveMutation.isPending}
+                        className="p-2 text-muted-foreground hover:bg-accent rounded-md transition-colors disabled:opacity-50"
+                        title={endpoint.isActive ? 'Pause webhook' : 'Resume webhook'}
+                      >
+                        {endpoint.isActive ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                      </button>
+                      <button
+                        onClick={() => setPendingAction({ type: 'rotate', endpoint })}
+                        disabled={rotateMutation.isPending}
+                        className="p-2 text-primary hover:bg-primary/10 rounded-md transition-colors disabled:opacity-50"
+                        title="Rotate signing secret"
+                      >
+                        <RefreshCw className={cn('h-4 w-4', rotateMutation.isPending && 'animate-spin')} />
+                      </button>
+                      <button
+                        onClick={() => setPendingAction({ type: 'delete', endpoint })}
+                        disabled={deleteMutation.isPending}
+                        className="p-2 text-destructive hover:bg-destructive/10 rounded-md transition-colors disabled:opacity-50"
+                        title="Delete webhook"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                {isExpanded && (
+                  <div className="mt-3 ml-6">
+                    <h4 className="text-sm font-semibold mb-2 text-muted-foreground">Recent Deliveries</h4>
+                    <WebhookDeliveryLog endpointId={endpoint.id} />
+                  </div>
+                )}
+              </div>
+            )
+          })
+        )}
+      </div>
+
+      <ConfirmModal
+        isOpen={!!pendingAction}
+        onClose={() => setPendingAction(null)}
+        onConfirm={handleConfirmAction}
+        title={pendingAction?.type === 'rotate' ? 'Rotate Signing Secret' : 'Delete Webhook'}
+        message={
+          pendingAction?.type === 'rotate'
+            ? `A new signing secret will be generated for "${pendingAction.endpoint.name}". Deliveries carry signatures from both the old and new secret for 24 hours so you can update your receiver.`
+            : `"${pendingAction?.endpoint.name}" and its delivery log will be deleted. This action cannot be undone.`
+        }
+        confirmText={pendingAction?.type === 'rotate' ? 'Rotate Secret' : 'Delete Webhook'}
+        variant={pendingAction?.type === 'rotate' ? 'warning' : 'danger'}
+      />
+    </div>
+  )
+}
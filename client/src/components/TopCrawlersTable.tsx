@@ -7,12 +7,21 @@ interface TopCrawlersTableProps {
   crawlers: CrawlerStats[]
   isLoading?: boolean
   className?: string
+  title?: string
+  subtitle?: string
+  emptyHint?: string
+  /** Label for the sessions column - server logs count requests instead */
+  sessionsLabel?: string
 }
 
 export default function TopCrawlersTable({
   crawlers,
   isLoading = false,
-  className = ''
+  className = '',
+  title = 'Top AI Crawlers',
+  subtitle = 'Most active AI crawlers on your site',
+  emptyHint = 'Connect your GA4 property to start tracking AI crawlers',
+  sessionsLabel = 'Sessions'
 }: TopCrawlersTableProps) {
   if (isLoading) {
     return (
@@ -42,14 +51,14 @@ export default function TopCrawlersTable({
             <Bot className="h-6 w-6 text-primary" />
           </div>
           <h3 className="text-xl font-bold bg-gradient-to-br from-foreground to-foreground/70 bg-clip-text text-transparent">
-            Top AI Crawlers
+            {title}
           </h3>
         </div>
         <div className="flex flex-col items-center justify-center py-12 text-center">
           <Bot className="h-16 w-16 text-muted-foreground/30 mb-4" />
           <p className="text-muted-foreground">No AI crawler data available</p>
           <p className="text-sm text-muted-foreground/70 mt-1">
-            Connect your GA4 property to start tracking AI crawlers
+            {emptyHint}
           </p>
         </div>
       </div>
@@ -74,10 +83,10 @@ export default function TopCrawlersTable({
         </div>
         <div>
           <h3 className="text-xl font-bold bg-gradient-to-br from-foreground to-foreground/70 bg-clip-text text-transparent">
-            Top AI Crawlers
+            {title}
           </h3>
           <p className="text-sm text-muted-foreground">
-            Most active AI crawlers on your site
+            {subtitle}
           </p>
         </div>
       </div>
@@ -93,7 +102,7 @@ export default function TopCrawlersTable({
               <th className="text-right py-3 px-4 text-sm font-semibold text-muted-foreground">
                 <div className="flex items-center justify-end gap-1">
                   <TrendingUp className="h-4 w-4" />
-                  Sessions
+                  {sessionsLabel}
                 </div>
               </th>
               <th className="text-right py-3 px-4 text-sm font-semibold text-muted-foreground">
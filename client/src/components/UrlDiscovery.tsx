@@ -1,21 +1,25 @@
 import { useState, useEffect } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { Search, Loader2, AlertCircle, CheckCircle, ChevronDown, ChevronRight, ExternalLink, Compass, Eye, X } from 'lucide-react'
+import { Search, Loader2, AlertCircle, CheckCircle, ChevronDown, ChevronRight, ExternalLink, Compass, Eye, X, Download } from 'lucide-react'
 import LightningBoltIcon from './icons/LightningBoltIcon'
 import SuperSchemaIcon from './icons/SuperSchemaIcon'
 import BatchProgressPanel from './BatchProgressPanel'
 import BatchConfirmModal from './BatchConfirmModal'
+import CrawlHistoryPanel from './CrawlHistoryPanel'
 import { cn } from '@/utils/cn'
 import { normalizeDomain } from '@/utils/domain'
 import { apiService } from '@/services/api'
 import { useAuth } from '@clerk/clerk-react'
 import { toast } from 'react-hot-toast'
+import type { CrawlOptions, CrawlSource } from '@shared/types'
 
 interface DiscoveredUrl {
   url: string
   path: string
   depth: number
   hasSchema?: boolean
+  source?: CrawlSource
+  foundOn?: string
 }
 
 interface UrlDiscoveryProps {
@@ -27,6 +31,20 @@ interface GroupedUrls {
   [key: string]: DiscoveredUrl[]
 }
 
+// Larger crawls get proportionally more time; the server enforces the upper bounds
+const CRAWL_SIZES: Record<string, { label: string; options: CrawlOptions }> = {
+  standard: { label: 'Up to 500 pages', options: { maxUrls: 500, timeoutMs: 60 * 1000 } },
+  large: { label: 'Up to 2,000 pages', options: { maxUrls: 2000, maxDepth: 6, timeoutMs: 3 * 60 * 1000 } },
+  full: { label: 'Up to 10,000 pages', options: { maxUrls: 10000, maxDepth: 10, timeoutMs: 10 * 60 * 1000 } }
+}
+
+const SOURCE_LABELS: Record<CrawlSource, string> = {
+  sitemap: 'Sitemap',
+  feed: 'Feed',
+  hreflang: 'hreflang',
+  crawl: 'Link'
+}
+
 export default function UrlDiscovery({ onUrlSelect, className }: UrlDiscoveryProps) {
   const { getToken } = useAuth()
   const navigate = useNavigate()
@@ -43,7 +61,8 @@ export default function UrlDiscovery({ onUrlSelect, className }: UrlDiscoveryPro
           crawlId: parsed.crawlId || null,
           status: parsed.status || 'idle',
           hasMore: parsed.hasMore || false,
-          expandedGroups: new Set(parsed.expandedGroups || [])
+          expandedGroups: new Set(parsed.expandedGroups || []),
+          batchJobId: parsed.batchJobId || null
         }
       }
     } catch (error) {
@@ -63,16 +82,16 @@ export default function UrlDiscovery({ onUrlSelect, className }: UrlDiscoveryPro
   const [searchQuery, setSearchQuery] = useState('')
   const [expandedGroups, setExpandedGroups] = useState<Set<string>>(persistedState?.expandedGroups || new Set())
   const [hasMore, setHasMore] = useState(persistedState?.hasMore || false)
+  const [crawlSize, setCrawlSize] = useState<keyof typeof CRAWL_SIZES>('standard')
 
   // Batch mode state
   const [batchMode, setBatchMode] = useState(false)
   const [selectedUrls, setSelectedUrls] = useState<Set<string>>(new Set())
-  const MAX_BATCH_URLS = 10
+  const MAX_BATCH_URLS = 500
 
-  // Batch processing state
+  // Batch job state - the job runs server-side, we only keep its ID so we can reattach
   const [isBatchProcessing, setIsBatchProcessing] = useState(false)
-  const [batchResults, setBatchResults] = useState<any[]>([])
-  const [showBatchProgress, setShowBatchProgress] = useState(false)
+  const [batchJobId, setBatchJobId] = useState<string | null>(persistedState?.batchJobId || null)
   const [showConfirmModal, setShowConfirmModal] = useState(false)
 
   // Status bar visibility state
@@ -87,13 +106,30 @@ export default function UrlDiscovery({ onUrlSelect, className }: UrlDiscoveryPro
         crawlId,
         status,
         hasMore,
-        expandedGroups: Array.from(expandedGroups)
+        expandedGroups: Array.from(expandedGroups),
+        batchJobId
       }
       localStorage.setItem('urlDiscoveryState', JSON.stringify(stateToSave))
     } catch (error) {
       console.error('Failed to persist state:', error)
     }
-  }, [domain, discoveredUrls, crawlId, status, hasMore, expandedGroups])
+  }, [domain, discoveredUrls, crawlId, status, hasMore, expandedGroups, batchJobId])
+
+  // Reattach to a batch job that is still running (e.g. started in another tab or device)
+  useEffect(() => {
+    if (batchJobId) return
+
+    apiService.listBatchJobs()
+      .then((response) => {
+        const activeJob = response.data?.find(job => ['queued', 'running', 'paused'].includes(job.status))
+        if (activeJob) {
+          setBatchJobId(activeJob.id)
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to load batch jobs:', error)
+      })
+  }, [])
 
   // Auto-hide status bar 5 seconds after discovery completes
   useEffect(() => {
@@ -167,7 +203,10 @@ export default function UrlDiscovery({ onUrlSelect, className }: UrlDiscoveryPro
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${token}`
         },
-        body: JSON.stringify({ domain: normalizeDomain(domain) })
+        body: JSON.stringify({
+          domain: normalizeDomain(domain),
+          options: CRAWL_SIZES[crawlSize].options
+        })
       })
 
       const result = await response.json()
@@ -361,6 +400,14 @@ export default function UrlDiscovery({ onUrlSelect, className }: UrlDiscoveryPro
     return filteredUrls.filter(url => !url.hasSchema)
   }
 
+  const selectAllUrls = () => {
+    const selectable = getSelectableUrls().slice(0, MAX_BATCH_URLS)
+    setSelectedUrls(new Set(selectable.map(url => url.url)))
+    if (getSelectableUrls().length > MAX_BATCH_URLS) {
+      toast(`Selected the first ${MAX_BATCH_URLS} URLs (maximum per batch)`)
+    }
+  }
+
   const handleStartBatch = () => {
     if (selectedUrls.size === 0) return
     setShowConfirmModal(true)
@@ -369,132 +416,88 @@ export default function UrlDiscovery({ onUrlSelect, className }: UrlDiscoveryPro
   const handleConfirmBatch = async () => {
     setShowConfirmModal(false)
 
-    const urlsArray = Array.from(selectedUrls)
-
     setIsBatchProcessing(true)
-    setShowBatchProgress(true)
-
-    // Initialize results with 'queued' status
-    const initialResults = urlsArray.map(url => ({
-      url,
-      status: 'queued' as const,
-      schemas: null,
-      error: null
-    }))
-    setBatchResults(initialResults)
 
     try {
-      const token = await getToken()
-      const API_URL = import.meta.env.VITE_API_URL || window.location.origin
-
-      // Use fetch to stream SSE events
-      const response = await fetch(`${API_URL}/api/schema/batch-generate-stream`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
-        },
-        body: JSON.stringify({
-          urls: urlsArray,
-          options: { schemaType: 'Auto' }
-        })
+      const response = await apiService.createBatchJob({
+        urls: Array.from(selectedUrls),
+        options: { schemaType: 'Auto' }
       })
 
-      if (!response.ok) {
+      if (!response.success || !response.data) {
         throw new Error('Failed to start batch generation')
       }
 
-      const reader = response.body?.getReader()
-      const decoder = new TextDecoder()
+      setBatchJobId(response.data.id)
+      toast.success(`Batch queued! ${response.data.totalUrls} URLs will be processed in the background.`)
 
-      if (!reader) {
-        throw new Error('No response body')
-      }
-
-      let buffer = ''
-      let successCount = 0
-      let failCount = 0
-
-      while (true) {
-        const { done, value } = await reader.read()
+      // Clear selections and exit batch mode
+      setSelectedUrls(new Set())
+      setBatchMode(false)
+    } catch (error: any) {
+      console.error('Batch generation error:', error)
+      toast.error(error.response?.data?.error || (error instanceof Error ? error.message : 'Failed to generate schemas'))
+    } finally {
+      setIsBatchProcessing(false)
+    }
+  }
 
-        if (done) break
+  // Import the JSON-LD the selected pages already publish - free, no confirmation needed
+  const handleStartImport = async () => {
+    if (selectedUrls.size === 0) return
 
-        buffer += decoder.decode(value, { stream: true })
-        const lines = buffer.split('\n')
-        buffer = lines.pop() || ''
+    setIsBatchProcessing(true)
 
-        for (const line of lines) {
-          if (line.startsWith('event:')) {
-            const eventType = line.substring(7).trim()
-            continue
-          }
+    try {
+      const response = await apiService.createBatchJob({
+        urls: Array.from(selectedUrls),
+        options: { mode: 'import' }
+      })
 
-          if (line.startsWith('data:')) {
-            const data = JSON.parse(line.substring(5).trim())
-
-            if (data.index !== undefined) {
-              // Progress update - update specific URL result
-              setBatchResults(prev => {
-                const newResults = [...prev]
-                newResults[data.index] = {
-                  url: data.url,
-                  status: data.status,
-                  schemas: data.schemas,
-                  error: data.error,
-                  urlId: data.urlId
-                }
-                return newResults
-              })
-
-              if (data.status === 'success') successCount++
-              if (data.status === 'failed') failCount++
-            } else if (data.summary) {
-              // Complete event
-              successCount = data.summary.successful
-              failCount = data.summary.failed
-
-              toast.success(
-                `Batch complete! ${successCount} succeeded${failCount > 0 ? `, ${failCount} failed` : ''}`
-              )
-            }
-          }
-        }
+      if (!response.success || !response.data) {
+        throw new Error('Failed to start schema import')
       }
 
-      // Refresh discovered URLs to update hasSchema flags
-      if (crawlId) {
-        const token = await getToken()
-        const API_URL = import.meta.env.VITE_API_URL || window.location.origin
-        const refreshResponse = await fetch(`${API_URL}/api/crawler/results/${crawlId}`, {
-          headers: {
-            'Authorization': `Bearer ${token}`
-          }
-        })
-        const refreshResult = await refreshResponse.json()
-        if (refreshResult.success && refreshResult.data) {
-          setDiscoveredUrls(refreshResult.data.urls)
-        }
-      }
+      setBatchJobId(response.data.id)
+      toast.success(`Import queued! Existing schema on ${response.data.totalUrls} URLs will be added to your library.`)
 
-      // Clear selections and exit batch mode
       setSelectedUrls(new Set())
       setBatchMode(false)
-    } catch (error) {
-      console.error('Batch generation error:', error)
-      toast.error(error instanceof Error ? error.message : 'Failed to generate schemas')
+    } catch (error: any) {
+      console.error('Schema import error:', error)
+      toast.error(error.response?.data?.error || (error instanceof Error ? error.message : 'Failed to import schemas'))
     } finally {
       setIsBatchProcessing(false)
     }
   }
 
+  // Refresh discovered URLs to update hasSchema flags once a batch job finishes
+  const handleBatchComplete = async () => {
+    if (!crawlId) return
+
+    try {
+      const token = await getToken()
+      const API_URL = import.meta.env.VITE_API_URL || window.location.origin
+      const refreshResponse = await fetch(`${API_URL}/api/crawler/results/${crawlId}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      })
+      const refreshResult = await refreshResponse.json()
+      if (refreshResult.success && refreshResult.data) {
+        setDiscoveredUrls(refreshResult.data.urls)
+      }
+    } catch (error) {
+      console.error('Failed to refresh discovered URLs:', error)
+    }
+  }
+
   const handleCancelBatch = () => {
     setShowConfirmModal(false)
   }
 
   const handleCloseBatchProgress = () => {
-    setShowBatchProgress(false)
-    setBatchResults([])
+    setBatchJobId(null)
   }
 
   const handleClearDiscovery = () => {
@@ -535,6 +538,17 @@ export default function UrlDiscovery({ onUrlSelect, className }: UrlDiscoveryPro
             disabled={isDiscovering}
             onKeyPress={(e) => e.key === 'Enter' && handleDiscover()}
           />
+          <select
+            value={crawlSize}
+            onChange={(e) => setCrawlSize(e.target.value)}
+            disabled={isDiscovering}
+            className="px-2 py-2 border border-border rounded-md bg-background text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+            title="How much of the site to map"
+          >
+            {Object.entries(CRAWL_SIZES).map(([key, size]) => (
+              <option key={key} value={key}>{size.label}</option>
+            ))}
+          </select>
           <button
             onClick={handleDiscover}
             disabled={isDiscovering || !domain.trim()}
@@ -597,12 +611,17 @@ export default function UrlDiscovery({ onUrlSelect, className }: UrlDiscoveryPro
           </div>
         )}
 
+        {/* Crawl History */}
+        {status === 'completed' && crawlId && (
+          <CrawlHistoryPanel domain={normalizeDomain(domain)} crawlId={crawlId} />
+        )}
+
         {/* Batch Progress Panel */}
-        {showBatchProgress && batchResults.length > 0 && (
+        {batchJobId && (
           <BatchProgressPanel
-            results={batchResults}
-            isProcessing={isBatchProcessing}
+            jobId={batchJobId}
             onClose={handleCloseBatchProgress}
+            onComplete={handleBatchComplete}
           />
         )}
 
@@ -679,7 +698,7 @@ export default function UrlDiscovery({ onUrlSelect, className }: UrlDiscoveryPro
                               {isBatchProcessing ? (
                                 <>
                                   <Loader2 className="h-3 w-3 animate-spin" />
-                                  Processing...
+                                  Queuing...
                                 </>
                               ) : (
                                 <>
@@ -688,6 +707,22 @@ export default function UrlDiscovery({ onUrlSelect, className }: UrlDiscoveryPro
                                 </>
                               )}
                             </button>
+                            <button
+                              onClick={handleStartImport}
+                              disabled={selectedUrls.size === 0 || isBatchProcessing}
+                              className="flex items-center gap-2 px-3 py-1.5 border border-border rounded-md hover:bg-accent transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                              title="Import the JSON-LD these pages already publish (no credits)"
+                            >
+                              <Download className="h-3 w-3" />
+                              Import Existing
+                            </button>
+                            <button
+                              onClick={selectAllUrls}
+                              disabled={isBatchProcessing}
+                              className="flex items-center gap-2 px-3 py-1.5 border border-border rounded-md hover:bg-accent transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              Select All
+                            </button>
                             <button
                               onClick={clearSelection}
                               disabled={selectedUrls.size === 0}
@@ -828,6 +863,14 @@ export default function UrlDiscovery({ onUrlSelect, className }: UrlDiscoveryPro
                             <span className="text-sm text-gray-700 truncate">
                               {urlData.url}
                             </span>
+                            {urlData.source && (
+                              <span
+                                className="px-1.5 py-0.5 rounded border border-border text-[10px] text-muted-foreground flex-shrink-0"
+                                title={urlData.foundOn ? `Found on ${urlData.foundOn}` : undefined}
+                              >
+                                {SOURCE_LABELS[urlData.source]}
+                              </span>
+                            )}
                             <button
                               onClick={() => window.open(urlData.url, '_blank')}
                               className="flex items-center p-1 rounded hover:bg-accent transition-colors opacity-0 group-hover:opacity-100"
@@ -0,0 +1,82 @@
+import { useQuery } from '@tanstack/react-query'
+import { wordpressApi } from '@/services/wordpress'
+import { Loader2, CheckCircle, XCircle, Clock, ExternalLink } from 'lucide-react'
+
+interface SyncHistoryEntry {
+  id: string
+  wpContentType: 'post' | 'page'
+  wpContentTitle?: string
+  wpContentUrl?: string
+  status: 'pending' | 'success' | 'failed'
+  errorMessage?: string
+  syncedAt?: string
+  createdAt: string
+  siteName?: string
+}
+
+export default function WordPressSyncHistory() {
+  const { data: historyResponse, isLoading } = useQuery({
+    queryKey: ['wordpress-sync-history'],
+    queryFn: () => wordpressApi.getSyncHistory(25)
+  })
+
+  const history: SyncHistoryEntry[] = historyResponse?.data || []
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-6">
+      <h2 className="text-xl font-semibold mb-1">Sync History</h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        Recent schema pushes to your WordPress posts and pages.
+      </p>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : history.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No schema has been pushed yet.</p>
+      ) : (
+        <div className="divide-y divide-border">
+          {history.map((entry) => (
+            <div key={entry.id} className="flex items-center justify-between gap-4 py-3">
+              <div className="flex items-start gap-2 min-w-0">
+                {entry.status === 'success' ? (
+                  <CheckCircle className="h-4 w-4 mt-0.5 flex-shrink-0 text-green-600" />
+                ) : entry.status === 'failed' ? (
+                  <XCircle className="h-4 w-4 mt-0.5 flex-shrink-0 text-destructive" />
+                ) : (
+                  <Clock className="h-4 w-4 mt-0.5 flex-shrink-0 text-muted-foreground" />
+                )}
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {entry.wpContentTitle || entry.wpContentUrl || 'Untitled content'}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {entry.siteName && `${entry.siteName} · `}
+                    {entry.wpContentType === 'post' ? 'Post' : 'Page'}
+                    {` · ${new Date(entry.syncedAt || entry.createdAt).toLocaleString()}`}
+                  </p>
+                  {entry.status === 'failed' && entry.errorMessage && (
+                    <p className="text-xs text-destructive mt-1">{entry.errorMessage}</p>
+                  )}
+                </div>
+              </div>
+
+              {entry.wpContentUrl && (
+                <a
+                  href={entry.wpContentUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="p-2 text-muted-foreground hover:text-foreground transition-colors flex-shrink-0"
+                  title="Open page"
+                >
+                  <ExternalLink className="h-4 w-4" />
+                </a>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,405 @@
+/**
+ * Collapsible panel for the AI platforms detected on a domain: the shared catalog
+ * plus private patterns for this mapping (e.g. an internal RAG tool)
+ */
+import { useState } from 'react'
+import { ChevronDown, ChevronRight, Plus, Trash2, Edit, Power, PowerOff, X } from 'lucide-react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { toast } from 'react-hot-toast'
+import { cn } from '@/utils/cn'
+import {
+  useAIReferrerCatalog,
+  useGA4AIReferrerPatterns,
+  useCreateAIReferrerPattern,
+  useUpdateAIReferrerPattern,
+  useDeleteAIReferrerPattern
+} from '@/hooks/useGA4AIReferrerPatterns'
+import type { AIReferrerField, AIReferrerPatternType, AIReferrerPattern } from '@/services/ga4'
+
+interface GA4AIReferrerPatternManagerProps {
+  mappingId: string
+  domain: string
+  className?: string
+}
+
+export const AI_REFERRER_FIELD_LABELS: Record<AIReferrerField, string> = {
+  referrer: 'Referrer',
+  source: 'Session source',
+  any: 'Referrer or source'
+}
+
+export const AI_REFERRER_PATTERN_TYPE_LABELS: Record<AIReferrerPatternType, string> = {
+  domain: 'Domain',
+  exact: 'Exact match',
+  contains: 'Contains',
+  regex: 'Regex pattern'
+}
+
+export function GA4AIReferrerPatternManager({ mappingId, domain, className }: GA4AIReferrerPatternManagerProps) {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [isAddDialogOpen, setIsAddDialogOpen] = useState(false)
+  const [editingPattern, setEditingPattern] = useState<AIReferrerPattern | null>(null)
+
+  const { data: catalog } = useAIReferrerCatalog()
+  const { data: patterns = [], isLoading } = useGA4AIReferrerPatterns(mappingId)
+  const updatePattern = useUpdateAIReferrerPattern(mappingId)
+  const deletePattern = useDeleteAIReferrerPattern(mappingId)
+
+  const activePlatforms = catalog?.platforms.filter(p => p.isActive) || []
+
+  const handleToggle = async (pattern: AIReferrerPattern) => {
+    try {
+      await updatePattern.mutateAsync({
+        patternId: pattern.id,
+        isActive: !pattern.isActive
+      })
+      toast.success(`"${pattern.pattern}" is now ${pattern.isActive ? 'disabled' : 'enabled'}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to toggle pattern')
+    }
+  }
+
+  const handleDelete = async (pattern: AIReferrerPattern) => {
+    try {
+      await deletePattern.mutateAsync(pattern.id)
+      toast.success(`Removed "${pattern.pattern}"`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete pattern')
+    }
+  }
+
+  return (
+    <div className={cn('bg-card border border-muted rounded-lg', className)}>
+      <div
+        className="cursor-pointer p-4"
+        onClick={() => setIsExpanded(!isExpanded)}
+      >
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            {isExpanded ? (
+              <ChevronDown className="h-4 w-4 text-muted-foreground" />
+            ) : (
+              <ChevronRight className="h-4 w-4 text-muted-foreground" />
+            )}
+            <div>
+              <h4 className="text-base font-semibold">AI Sources</h4>
+              <p className="text-xs text-muted-foreground">
+                {activePlatforms.length} platforms in catalog{catalog ? ` v${catalog.version}` : ''} • {patterns.length} private pattern{patterns.length !== 1 ? 's' : ''}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={(e) => {
+              e.stopPropagation()
+              setIsAddDialogOpen(true)
+            }}
+            className="px-3 py-1.5 text-sm rounded-md border border-border hover:bg-muted transition-colors flex items-center gap-1"
+          >
+            <Plus className="h-4 w-4" />
+            Add Private Source
+          </button>
+        </div>
+      </div>
+
+      <AnimatePresence>
+        {isExpanded && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="border-t border-muted"
+          >
+            <div className="p-4 space-y-4">
+              <div className="space-y-2">
+                <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+                  Private Patterns
+                </h4>
+                {isLoading ? (
+                  <div className="text-sm text-muted-foreground py-2">Loading patterns...</div>
+                ) : patterns.length === 0 ? (
+                  <div className="text-sm text-muted-foreground py-2">
+                    No private patterns - add one to count traffic from internal or niche AI tools on {domain}
+                  </div>
+                ) : (
+                  <div className="space-y-1">
+                    {patterns.map((pattern) => (
+                      <PatternRow
+                        key={pattern.id}
+                        pattern={pattern}
+                        onToggle={() => handleToggle(pattern)}
+                        onEdit={() => setEditingPattern(pattern)}
+                        onDelete={() => handleDelete(pattern)}
+                      />
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+                  Catalog Platforms
+                </h4>
+                <div className="flex flex-wrap gap-2">
+                  {activePlatforms.map((platform) => (
+                    <span
+                      key={platform.name}
+                      className="text-xs px-2 py-1 rounded-md bg-muted"
+                      title={[...platform.referrerDomains, ...platform.utmSources].join(', ')}
+                    >
+                      {platform.name}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Add Pattern Dialog */}
+      <PatternDialog
+        open={isAddDialogOpen}
+        onOpenChange={setIsAddDialogOpen}
+        mappingId={mappingId}
+        domain={domain}
+      />
+
+      {/* Edit Pattern Dialog */}
+      {editingPattern && (
+        <PatternDialog
+          open={!!editingPattern}
+          onOpenChange={(open) => !open && setEditingPattern(null)}
+          mappingId={mappingId}
+          domain={domain}
+          pattern={editingPattern}
+        />
+      )}
+    </div>
+  )
+}
+
+/**
+ * Individual pattern row with actions
+ */
+interface PatternRowProps {
+  pattern: AIReferrerPattern
+  onToggle: () => void
+  onEdit: () => void
+  onDelete: () => void
+}
+
+function PatternRow({ pattern, onToggle, onEdit, onDelete }: PatternRowProps) {
+  return (
+    <div className="flex items-center justify-between py-2 px-3 rounded-md hover:bg-muted/50 group">
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium">{pattern.platformName}</span>
+          <code className="text-xs font-mono px-1.5 py-0.5 rounded bg-muted">
+            {pattern.pattern}
+          </code>
+          <span className="text-xs text-muted-foreground">
+            {AI_REFERRER_PATTERN_TYPE_LABELS[pattern.patternType]} · {AI_REFERRER_FIELD_LABELS[pattern.field]}
+          </span>
+        </div>
+        {pattern.description && (
+          <p className="text-xs text-muted-foreground mt-0.5 truncate">
+            {pattern.description}
+          </p>
+        )}
+      </div>
+      <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+        <button
+          onClick={onToggle}
+          className="h-7 w-7 rounded hover:bg-muted flex items-center justify-center"
+          title={pattern.isActive ? 'Disable pattern' : 'Enable pattern'}
+        >
+          {pattern.isActive ? (
+            <Power className="h-3.5 w-3.5 text-green-600" />
+          ) : (
+            <PowerOff className="h-3.5 w-3.5 text-muted-foreground" />
+          )}
+        </button>
+        <button
+          onClick={onEdit}
+          className="h-7 w-7 rounded hover:bg-muted flex items-center justify-center"
+          title="Edit pattern"
+        >
+          <Edit className="h-3.5 w-3.5" />
+        </button>
+        <button
+          onClick={onDelete}
+          className="h-7 w-7 rounded hover:bg-muted flex items-center justify-center text-destructive"
+          title="Delete pattern"
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+        </button>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Dialog for adding/editing private patterns
+ */
+interface PatternDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  mappingId: string
+  domain: string
+  pattern?: AIReferrerPattern
+}
+
+function PatternDialog({ open, onOpenChange, mappingId, domain, pattern }: PatternDialogProps) {
+  const [formData, setFormData] = useState({
+    platformName: pattern?.platformName || '',
+    pattern: pattern?.pattern || '',
+    patternType: pattern?.patternType || 'domain' as AIReferrerPatternType,
+    field: pattern?.field || 'any' as AIReferrerField,
+    description: pattern?.description || ''
+  })
+
+  const createPattern = useCreateAIReferrerPattern(mappingId)
+  const updatePattern = useUpdateAIReferrerPattern(mappingId)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      if (pattern) {
+        await updatePattern.mutateAsync({
+          patternId: pattern.id,
+          ...formData
+        })
+        toast.success(`Updated "${formData.pattern}"`)
+      } else {
+        await createPattern.mutateAsync(formData)
+        toast.success(`Traffic matching "${formData.pattern}" now counts as ${formData.platformName}`)
+      }
+      onOpenChange(false)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : (pattern ? 'Failed to update pattern' : 'Failed to create pattern'))
+    }
+  }
+
+  if (!open) return null
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={() => onOpenChange(false)}>
+      <div className="bg-card border border-border rounded-lg shadow-lg max-w-md w-full mx-4" onClick={(e) => e.stopPropagation()}>
+        <form onSubmit={handleSubmit}>
+          <div className="p-6 border-b border-border">
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="text-lg font-semibold">{pattern ? 'Edit Private Source' : 'Add Private AI Source'}</h3>
+                <p className="text-sm text-muted-foreground mt-1">
+                  Count matching GA4 traffic on {domain} as AI referrals
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => onOpenChange(false)}
+                className="h-8 w-8 rounded hover:bg-muted flex items-center justify-center"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+
+          <div className="p-6 space-y-4">
+            <div className="space-y-2">
+              <label htmlFor="platformName" className="text-sm font-medium">Platform Name</label>
+              <input
+                id="platformName"
+                type="text"
+                placeholder="Internal RAG Assistant"
+                value={formData.platformName}
+                onChange={(e) => setFormData({ ...formData, platformName: e.target.value })}
+                required
+                className="w-full px-3 py-2 border border-border rounded-md bg-background"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="pattern" className="text-sm font-medium">Pattern</label>
+              <input
+                id="pattern"
+                type="text"
+                placeholder="rag.example.com or internal-assistant"
+                value={formData.pattern}
+                onChange={(e) => setFormData({ ...formData, pattern: e.target.value })}
+                required
+                className="w-full px-3 py-2 border border-border rounded-md bg-background"
+              />
+              <p className="text-xs text-muted-foreground">
+                Domains also match their subdomains. Matching is case-insensitive.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label htmlFor="patternType" className="text-sm font-medium">Match Type</label>
+                <select
+                  id="patternType"
+                  value={formData.patternType}
+                  onChange={(e) => setFormData({ ...formData, patternType: e.target.value as AIReferrerPatternType })}
+                  className="w-full px-3 py-2 border border-border rounded-md bg-background"
+                >
+                  {(Object.keys(AI_REFERRER_PATTERN_TYPE_LABELS) as AIReferrerPatternType[]).map((type) => (
+                    <option key={type} value={type}>{AI_REFERRER_PATTERN_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <label htmlFor="field" className="text-sm font-medium">Match Against</label>
+                <select
+                  id="field"
+                  value={formData.field}
+                  onChange={(e) => setFormData({ ...formData, field: e.target.value as AIReferrerField })}
+                  className="w-full px-3 py-2 border border-border rounded-md bg-background"
+                >
+                  {(Object.keys(AI_REFERRER_FIELD_LABELS) as AIReferrerField[]).map((field) => (
+                    <option key={field} value={field}>{AI_REFERRER_FIELD_LABELS[field]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="description" className="text-sm font-medium">Description (optional)</label>
+              <textarea
+                id="description"
+                placeholder="What is this source?"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                rows={2}
+                className="w-full px-3 py-2 border border-border rounded-md bg-background resize-none"
+              />
+            </div>
+          </div>
+
+          <div className="p-6 border-t border-border flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => onOpenChange(false)}
+              className="px-4 py-2 text-sm rounded-md border border-border hover:bg-muted transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={createPattern.isPending || updatePattern.isPending}
+              className={cn(
+                "px-4 py-2 text-sm rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors",
+                "disabled:opacity-50 disabled:cursor-not-allowed"
+              )}
+            >
+              {pattern ? 'Update' : 'Create'} Pattern
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
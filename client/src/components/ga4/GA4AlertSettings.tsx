@@ -0,0 +1,267 @@
+/**
+ * Collapsible panel for the alert rules of a domain and the alerts already sent
+ */
+import { useState } from 'react'
+import { ChevronDown, ChevronRight, Bell, BellOff, Mail, Power, PowerOff } from 'lucide-react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { toast } from 'react-hot-toast'
+import { cn } from '@/utils/cn'
+import { useGA4AlertRules, useUpdateGA4AlertRule, useGA4AlertHistory } from '@/hooks/useGA4Alerts'
+import type { GA4AlertRule, GA4AlertRuleType, GA4AlertRuleUpdate } from '@/services/ga4'
+
+interface GA4AlertSettingsProps {
+  mappingId: string
+  domain: string
+  className?: string
+}
+
+export const GA4_ALERT_RULE_LABELS: Record<GA4AlertRuleType, { title: string; description: string; thresholdLabel?: string }> = {
+  score_drop: {
+    title: 'Score drop',
+    description: 'The AI Visibility Score falls week over week by more than',
+    thresholdLabel: 'points'
+  },
+  page_lost_ai_referrals: {
+    title: 'Top page lost AI referrals',
+    description: 'One of last week\'s top pages gets no AI referrals - pages watched:',
+    thresholdLabel: 'pages'
+  },
+  new_ai_platform: {
+    title: 'New AI platform',
+    description: 'An AI platform refers traffic to this domain for the first time'
+  },
+  token_refresh_failed: {
+    title: 'GA4 connection failed',
+    description: 'The Google Analytics token could not be refreshed, so data stops updating'
+  }
+}
+
+/** Mute options in days - null mutes until unmuted */
+const MUTE_OPTIONS: Array<{ label: string; days: number | null }> = [
+  { label: '1 week', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: 'Until unmuted', days: null }
+]
+
+function isMuted(rule: GA4AlertRule): boolean {
+  return rule.isMuted && (rule.mutedUntil === null || new Date(rule.mutedUntil) > new Date())
+}
+
+export function GA4AlertSettings({ mappingId, domain, className }: GA4AlertSettingsProps) {
+  const [isExpanded, setIsExpanded] = useState(false)
+
+  const { data, isLoading } = useGA4AlertRules(mappingId)
+  const { data: history = [] } = useGA4AlertHistory(mappingId)
+  const updateRule = useUpdateGA4AlertRule(mappingId)
+
+  const rules = data?.rules || []
+  const activeCount = rules.filter(rule => rule.isEnabled && !isMuted(rule)).length
+
+  const handleUpdate = async (rule: GA4AlertRule, updates: GA4AlertRuleUpdate, successMessage?: string) => {
+    try {
+      await updateRule.mutateAsync({ ruleType: rule.ruleType, ...updates })
+      if (successMessage) toast.success(successMessage)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update alert')
+    }
+  }
+
+  return (
+    <div className={cn('bg-card border border-muted rounded-lg', className)}>
+      <div
+        className="cursor-pointer p-4"
+        onClick={() => setIsExpanded(!isExpanded)}
+      >
+        <div className="flex items-center gap-2">
+          {isExpanded ? (
+            <ChevronDown className="h-4 w-4 text-muted-foreground" />
+          ) : (
+            <ChevronRight className="h-4 w-4 text-muted-foreground" />
+          )}
+          <div>
+            <h4 className="text-base font-semibold">Alerts</h4>
+            <p className="text-xs text-muted-foreground">
+              {activeCount} of {rules.length} alerts active • {history.length} sent recently
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <AnimatePresence>
+        {isExpanded && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="border-t border-muted"
+          >
+            <div className="p-4 space-y-4">
+              <div className="space-y-2">
+                <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+                  Rules
+                </h4>
+                {isLoading ? (
+                  <div className="text-sm text-muted-foreground py-2">Loading alert rules...</div>
+                ) : (
+                  <div className="space-y-1">
+                    {rules.map((rule) => (
+                      <AlertRuleRow
+                        key={rule.ruleType}
+                        rule={rule}
+                        emailAvailable={data?.emailAvailable ?? false}
+                        onUpdate={(updates, message) => handleUpdate(rule, updates, message)}
+                      />
+                    ))}
+                  </div>
+                )}
+                {data && !data.emailAvailable && (
+                  <p className="text-xs text-muted-foreground">Email delivery is not configured on this server</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+                  History
+                </h4>
+                {history.length === 0 ? (
+                  <div className="text-sm text-muted-foreground py-2">
+                    No alerts for {domain} yet - rules are checked after the nightly refresh
+                  </div>
+                ) : (
+                  <div className="divide-y divide-border">
+                    {history.map((alert) => (
+                      <div key={alert.id} className="py-2 px-3">
+                        <div className="flex items-start justify-between gap-4">
+                          <p className="text-sm font-medium">{alert.title}</p>
+                          <span className="text-xs text-muted-foreground whitespace-nowrap">
+                            {new Date(alert.createdAt).toLocaleDateString()}
+                          </span>
+                        </div>
+                        <p className="text-xs text-muted-foreground mt-0.5">{alert.message}</p>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {GA4_ALERT_RULE_LABELS[alert.ruleType].title}
+                          {alert.notifiedInApp && ' · In-app'}
+                          {alert.notifiedEmail && ' · Email'}
+                          {alert.emailError && <span className="text-destructive"> · Email failed: {alert.emailError}</span>}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
+
+/**
+ * Individual alert rule with threshold, channels, enable and mute controls
+ */
+interface AlertRuleRowProps {
+  rule: GA4AlertRule
+  emailAvailable: boolean
+  onUpdate: (updates: GA4AlertRuleUpdate, successMessage?: string) => void
+}
+
+function AlertRuleRow({ rule, emailAvailable, onUpdate }: AlertRuleRowProps) {
+  const [isMuteMenuOpen, setIsMuteMenuOpen] = useState(false)
+  const labels = GA4_ALERT_RULE_LABELS[rule.ruleType]
+  const muted = isMuted(rule)
+
+  const handleMute = (days: number | null) => {
+    setIsMuteMenuOpen(false)
+    const mutedUntil = days === null ? null : new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString()
+    onUpdate({ isMuted: true, mutedUntil }, `${labels.title} muted`)
+  }
+
+  return (
+    <div className={cn('flex items-center justify-between gap-4 py-2 px-3 rounded-md hover:bg-muted/50', !rule.isEnabled && 'opacity-60')}>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium">{labels.title}</span>
+          {muted && (
+            <span className="text-xs px-1.5 py-0.5 rounded bg-muted text-muted-foreground">
+              Muted{rule.mutedUntil ? ` until ${new Date(rule.mutedUntil).toLocaleDateString()}` : ''}
+            </span>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground mt-0.5 flex items-center gap-1 flex-wrap">
+          {labels.description}
+          {labels.thresholdLabel && rule.threshold !== null && (
+            <>
+              <input
+                key={rule.threshold}
+                type="number"
+                min={1}
+                defaultValue={rule.threshold}
+                onBlur={(e) => {
+                  const value = Number(e.target.value)
+                  if (value && value !== rule.threshold) onUpdate({ threshold: value }, 'Alert threshold updated')
+                }}
+                className="w-14 px-1.5 py-0.5 text-xs rounded border border-border bg-background"
+              />
+              {labels.thresholdLabel}
+            </>
+          )}
+        </p>
+      </div>
+      <div className="flex items-center gap-1">
+        <button
+          onClick={() => onUpdate({ notifyInApp: !rule.notifyInApp })}
+          className={cn('h-7 w-7 rounded hover:bg-muted flex items-center justify-center', !rule.notifyInApp && 'text-muted-foreground/50')}
+          title={rule.notifyInApp ? 'In-app notifications on' : 'In-app notifications off'}
+        >
+          <Bell className="h-3.5 w-3.5" />
+        </button>
+        <button
+          onClick={() => onUpdate({ notifyEmail: !rule.notifyEmail })}
+          disabled={!emailAvailable && !rule.notifyEmail}
+          className={cn(
+            'h-7 w-7 rounded hover:bg-muted flex items-center justify-center disabled:opacity-40',
+            !rule.notifyEmail && 'text-muted-foreground/50'
+          )}
+          title={rule.notifyEmail ? 'Email on' : 'Email off'}
+        >
+          <Mail className="h-3.5 w-3.5" />
+        </button>
+        <div className="relative">
+          <button
+            onClick={() => muted ? onUpdate({ isMuted: false, mutedUntil: null }, `${labels.title} unmuted`) : setIsMuteMenuOpen(!isMuteMenuOpen)}
+            className="h-7 w-7 rounded hover:bg-muted flex items-center justify-center"
+            title={muted ? 'Unmute' : 'Mute'}
+          >
+            <BellOff className={cn('h-3.5 w-3.5', muted ? 'text-warning' : 'text-muted-foreground')} />
+          </button>
+          {isMuteMenuOpen && (
+            <div className="absolute right-0 mt-1 w-36 bg-card border border-border rounded-md shadow-lg z-10 py-1">
+              {MUTE_OPTIONS.map((option) => (
+                <button
+                  key={option.label}
+                  onClick={() => handleMute(option.days)}
+                  className="w-full text-left px-3 py-1.5 text-xs hover:bg-muted"
+                >
+                  Mute {option.label.toLowerCase()}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        <button
+          onClick={() => onUpdate({ isEnabled: !rule.isEnabled }, `${labels.title} ${rule.isEnabled ? 'disabled' : 'enabled'}`)}
+          className="h-7 w-7 rounded hover:bg-muted flex items-center justify-center"
+          title={rule.isEnabled ? 'Disable alert' : 'Enable alert'}
+        >
+          {rule.isEnabled ? (
+            <Power className="h-3.5 w-3.5 text-green-600" />
+          ) : (
+            <PowerOff className="h-3.5 w-3.5 text-muted-foreground" />
+          )}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,97 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { crawlerLogsApi } from '@/services/crawlerLogs'
+import { extractDomain, normalizeDomain } from '@/utils/domain'
+import toast from 'react-hot-toast'
+
+/**
+ * Hook for a domain's server-log crawler source and the AI crawler hits ingested for it
+ */
+export function useCrawlerLogs(
+  domain: string | null,
+  startDate: string,
+  endDate: string,
+  enabled: boolean = true
+) {
+  const queryClient = useQueryClient()
+
+  const { data: sources = [], isLoading: isSourcesLoading } = useQuery({
+    queryKey: ['crawler-logs', 'sources'],
+    queryFn: async () => {
+      const response = await crawlerLogsApi.listSources()
+      return response.data || []
+    },
+    enabled
+  })
+
+  // Sources are stored under the bare hostname
+  const hostname = domain ? extractDomain(normalizeDomain(domain)).replace(/^www\./, '') : null
+  const source = sources.find((s) => s.domain === hostname) || null
+
+  const {
+    data: metrics,
+    isLoading: isMetricsLoading
+  } = useQuery({
+    queryKey: ['crawler-logs', 'metrics', domain, startDate, endDate],
+    queryFn: async () => {
+      if (!domain) {
+        throw new Error('Domain is required')
+      }
+      const response = await crawlerLogsApi.getMetrics(domain, startDate, endDate)
+      return response.data ?? null
+    },
+    enabled: enabled && !!domain,
+    staleTime: 5 * 60 * 1000
+  })
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      if (!domain) {
+        throw new Error('Domain is required')
+      }
+      return crawlerLogsApi.createSource(domain)
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['crawler-logs'] })
+      toast.success('Server log source created')
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || 'Failed to create log source')
+    }
+  })
+
+  const uploadMutation = useMutation({
+    mutationFn: async ({ sourceId, file }: { sourceId: string; file: File }) => {
+      return crawlerLogsApi.uploadLog(sourceId, file)
+    },
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ['crawler-logs'] })
+      toast.success(response.message || 'Log uploaded')
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || 'Failed to upload log')
+    }
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: async (sourceId: string) => crawlerLogsApi.deleteSource(sourceId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['crawler-logs'] })
+      toast.success('Server log source deleted')
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || 'Failed to delete log source')
+    }
+  })
+
+  return {
+    source,
+    metrics: metrics ?? null,
+    isLoading: isSourcesLoading || isMetricsLoading,
+    createSource: createMutation.mutate,
+    isCreating: createMutation.isPending,
+    uploadLog: uploadMutation.mutate,
+    isUploading: uploadMutation.isPending,
+    deleteSource: deleteMutation.mutate,
+    isDeleting: deleteMutation.isPending
+  }
+}
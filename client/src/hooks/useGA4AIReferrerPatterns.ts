@@ -0,0 +1,114 @@
+/**
+ * React Query hooks for the AI referrer catalog and private AI referrer patterns
+ */
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { ga4Api, type AIReferrerPattern, type AIReferrerRule } from '../services/ga4'
+
+export const GA4_AI_PATTERNS_KEY = 'ga4-ai-patterns'
+export const AI_REFERRER_CATALOG_KEY = 'ai-referrer-catalog'
+
+/**
+ * Current AI referrer catalog (platforms detected for every domain)
+ */
+export function useAIReferrerCatalog() {
+  return useQuery({
+    queryKey: [AI_REFERRER_CATALOG_KEY],
+    queryFn: async () => {
+      const response = await ga4Api.getAIReferrerCatalog()
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch AI referrer catalog')
+      }
+      return response.data
+    },
+    staleTime: 5 * 60 * 1000
+  })
+}
+
+/**
+ * Fetch private AI referrer patterns for a domain mapping
+ */
+export function useGA4AIReferrerPatterns(mappingId: string | undefined) {
+  return useQuery({
+    queryKey: [GA4_AI_PATTERNS_KEY, mappingId],
+    queryFn: async () => {
+      if (!mappingId) throw new Error('Mapping ID is required')
+      const response = await ga4Api.listAIReferrerPatterns(mappingId)
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to fetch AI referrer patterns')
+      }
+      return response.patterns
+    },
+    enabled: !!mappingId
+  })
+}
+
+/**
+ * Create a private AI referrer pattern
+ */
+export function useCreateAIReferrerPattern(mappingId: string | undefined) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (data: AIReferrerRule & { platformName: string; description?: string }) => {
+      if (!mappingId) throw new Error('Mapping ID is required')
+      const response = await ga4Api.createAIReferrerPattern(mappingId, data)
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to create AI referrer pattern')
+      }
+      return response.data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [GA4_AI_PATTERNS_KEY, mappingId] })
+      // Patterns change which traffic counts as AI - refetch metrics and snapshots
+      queryClient.invalidateQueries({ queryKey: ['ga4'] })
+    }
+  })
+}
+
+/**
+ * Update or enable/disable a private AI referrer pattern
+ */
+export function useUpdateAIReferrerPattern(mappingId: string | undefined) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (data: { patternId: string } & Partial<Omit<AIReferrerPattern, 'id' | 'mappingId' | 'createdAt' | 'createdBy'>>) => {
+      if (!mappingId) throw new Error('Mapping ID is required')
+      const { patternId, description, ...updates } = data
+      const response = await ga4Api.updateAIReferrerPattern(mappingId, patternId, {
+        ...updates,
+        description: description ?? undefined
+      })
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to update AI referrer pattern')
+      }
+      return response.data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [GA4_AI_PATTERNS_KEY, mappingId] })
+      queryClient.invalidateQueries({ queryKey: ['ga4'] })
+    }
+  })
+}
+
+/**
+ * Delete a private AI referrer pattern
+ */
+export function useDeleteAIReferrerPattern(mappingId: string | undefined) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (patternId: string) => {
+      if (!mappingId) throw new Error('Mapping ID is required')
+      const response = await ga4Api.deleteAIReferrerPattern(mappingId, patternId)
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to delete AI referrer pattern')
+      }
+      return response.data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [GA4_AI_PATTERNS_KEY, mappingId] })
+      queryClient.invalidateQueries({ queryKey: ['ga4'] })
+    }
+  })
+}
@@ -0,0 +1,65 @@
+/**
+ * React Query hooks for GA4 alert rules and alert history
+ */
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { ga4Api, type GA4AlertRuleType, type GA4AlertRuleUpdate } from '../services/ga4'
+
+export const GA4_ALERT_RULES_KEY = 'ga4-alert-rules'
+export const GA4_ALERT_HISTORY_KEY = 'ga4-alert-history'
+
+/**
+ * Alert rules of a domain mapping, and whether email delivery is configured
+ */
+export function useGA4AlertRules(mappingId: string | undefined) {
+  return useQuery({
+    queryKey: [GA4_ALERT_RULES_KEY, mappingId],
+    queryFn: async () => {
+      if (!mappingId) throw new Error('Mapping ID is required')
+      const response = await ga4Api.listAlertRules(mappingId)
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to fetch alert rules')
+      }
+      return { rules: response.rules, emailAvailable: response.emailAvailable }
+    },
+    enabled: !!mappingId
+  })
+}
+
+/**
+ * Update an alert rule (threshold, channels, enable/disable, mute)
+ */
+export function useUpdateGA4AlertRule(mappingId: string | undefined) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (data: { ruleType: GA4AlertRuleType } & GA4AlertRuleUpdate) => {
+      if (!mappingId) throw new Error('Mapping ID is required')
+      const { ruleType, ...updates } = data
+      const response = await ga4Api.updateAlertRule(mappingId, ruleType, updates)
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to update alert rule')
+      }
+      return response.rule
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [GA4_ALERT_RULES_KEY, mappingId] })
+    }
+  })
+}
+
+/**
+ * Alert history - all domains, or one domain mapping
+ */
+export function useGA4AlertHistory(mappingId?: string, limit: number = 20) {
+  return useQuery({
+    queryKey: [GA4_ALERT_HISTORY_KEY, mappingId ?? 'all', limit],
+    queryFn: async () => {
+      const response = await ga4Api.getAlertHistory(mappingId, limit)
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to fetch alert history')
+      }
+      return response.alerts
+    },
+    staleTime: 60 * 1000
+  })
+}
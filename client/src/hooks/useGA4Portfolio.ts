@@ -0,0 +1,24 @@
+import { useQuery } from '@tanstack/react-query'
+import { ga4Api, type PortfolioPeriodDays } from '@/services/ga4'
+
+/**
+ * Hook to fetch the portfolio of all mapped domains (score, sparkline, change, alert status)
+ */
+export function useGA4Portfolio(days: PortfolioPeriodDays, enabled: boolean = true) {
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['ga4', 'portfolio', days],
+    queryFn: async () => {
+      const response = await ga4Api.getPortfolio(days)
+      return response.portfolio
+    },
+    enabled,
+    staleTime: 5 * 60 * 1000 // 5 minutes
+  })
+
+  return {
+    portfolio: data ?? null,
+    isLoading,
+    error,
+    refetch
+  }
+}
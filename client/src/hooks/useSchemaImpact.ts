@@ -0,0 +1,60 @@
+import { useQuery } from '@tanstack/react-query'
+import { ga4Api, type SchemaImpactWindowDays } from '@/services/ga4'
+
+/**
+ * Hook to fetch the schema impact rollup (AI traffic before vs. after schema) for a domain mapping
+ */
+export function useGA4SchemaImpact(
+  mappingId: string | null,
+  windowDays: SchemaImpactWindowDays,
+  enabled: boolean = true
+) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['ga4', 'schema-impact', mappingId, windowDays],
+    queryFn: async () => {
+      if (!mappingId) {
+        throw new Error('Mapping ID is required')
+      }
+      const response = await ga4Api.getSchemaImpact(mappingId, windowDays)
+      return { impact: response.impact, note: response.note }
+    },
+    enabled: enabled && !!mappingId,
+    staleTime: 30 * 60 * 1000 // 30 minutes (GA4 data for past windows doesn't change)
+  })
+
+  return {
+    impact: data?.impact ?? null,
+    note: data?.note,
+    isLoading,
+    error
+  }
+}
+
+/**
+ * Hook to fetch the schema impact of a single library URL
+ */
+export function useUrlSchemaImpact(
+  urlId: string | null,
+  windowDays: SchemaImpactWindowDays,
+  enabled: boolean = true
+) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['ga4', 'schema-impact', 'url', urlId, windowDays],
+    queryFn: async () => {
+      if (!urlId) {
+        throw new Error('URL ID is required')
+      }
+      const response = await ga4Api.getUrlSchemaImpact(urlId, windowDays)
+      return { impact: response.impact, note: response.note }
+    },
+    enabled: enabled && !!urlId,
+    staleTime: 30 * 60 * 1000
+  })
+
+  return {
+    impact: data?.impact ?? null,
+    note: data?.note,
+    isLoading,
+    error
+  }
+}
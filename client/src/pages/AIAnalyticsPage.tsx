@@ -1,19 +1,25 @@
 import { useState, useMemo, useEffect } from 'react'
 import { motion } from 'framer-motion'
-import { Calendar, RefreshCw, AlertCircle, Loader2 } from 'lucide-react'
+import { Calendar, RefreshCw, AlertCircle, Loader2, LayoutGrid } from 'lucide-react'
 import { useGA4Connection } from '@/hooks/useGA4Connection'
 import { useGA4DomainMappings } from '@/hooks/useGA4DomainMappings'
 import { useGA4Metrics } from '@/hooks/useGA4Metrics'
 import { useGA4ActivitySnapshots } from '@/hooks/useGA4ActivitySnapshots'
-import type { GA4DomainMapping } from '@/services/ga4'
+import { useCrawlerLogs } from '@/hooks/useCrawlerLogs'
+import { useGA4SchemaImpact } from '@/hooks/useSchemaImpact'
+import type { GA4DomainMapping, SchemaImpactWindowDays } from '@/services/ga4'
 import AIVisibilityScoreCard from '@/components/AIVisibilityScoreCard'
 import AIActivityTrendChart from '@/components/AIActivityTrendChart'
 import TopCrawlersTable from '@/components/TopCrawlersTable'
 import PageCrawlerMetricsTable from '@/components/PageCrawlerMetricsTable'
+import CrawlerLogSourcePanel from '@/components/CrawlerLogSourcePanel'
+import SchemaImpactRollup from '@/components/SchemaImpactRollup'
+import { GA4AIReferrerPatternManager } from '@/components/ga4/GA4AIReferrerPatternManager'
+import { GA4AlertSettings } from '@/components/ga4/GA4AlertSettings'
 import GA4ConnectionStatus from '@/components/GA4ConnectionStatus'
 import DomainMappingSelector from '@/components/DomainMappingSelector'
 import { FeatureGate } from '@/components/FeatureGate'
-import { useNavigate } from 'react-router-dom'
+import { useNavigate, useSearchParams } from 'react-router-dom'
 import { cn } from '@/utils/cn'
 
 function AIAnalyticsContent() {
@@ -71,14 +77,16 @@ function AIAnalyticsContent() {
   } = useGA4DomainMappings(connected)
 
   // Selected domain mapping
+  const [searchParams] = useSearchParams()
   const [selectedMappingId, setSelectedMappingId] = useState<string | null>(null)
 
-  // Auto-select first mapping when available
+  // Auto-select the mapping opened from the portfolio, else the first one
   useMemo(() => {
     if (mappings.length > 0 && !selectedMappingId) {
-      setSelectedMappingId(mappings[0].id)
+      const requested = mappings.find((m: GA4DomainMapping) => m.id === searchParams.get('mapping'))
+      setSelectedMappingId(requested?.id || mappings[0].id)
     }
-  }, [mappings, selectedMappingId])
+  }, [mappings, selectedMappingId, searchParams])
 
   const selectedMapping = mappings.find((m: GA4DomainMapping) => m.id === selectedMappingId)
 
@@ -107,6 +115,36 @@ function AIAnalyticsContent() {
     !!selectedMapping
   )
 
+  // Server-log crawler hits for selected domain
+  const {
+    source: logSource,
+    metrics: logMetrics,
+    isLoading: isLogsLoading,
+    createSource: createLogSource,
+    isCreating: isCreatingLogSource,
+    uploadLog,
+    isUploading: isUploadingLog,
+    deleteSource: deleteLogSource,
+    isDeleting: isDeletingLogSource
+  } = useCrawlerLogs(
+    selectedMapping?.domain || null,
+    dateRange.start,
+    dateRange.end,
+    !!selectedMapping
+  )
+
+  // Schema deployments vs. AI referral traffic
+  const [impactWindowDays, setImpactWindowDays] = useState<SchemaImpactWindowDays>(28)
+  const {
+    impact: schemaImpact,
+    note: schemaImpactNote,
+    isLoading: isSchemaImpactLoading
+  } = useGA4SchemaImpact(
+    selectedMapping?.id || null,
+    impactWindowDays,
+    !!selectedMapping
+  )
+
   const handleConnect = () => {
     navigate('/ga4/connect')
   }
@@ -148,6 +186,15 @@ function AIAnalyticsContent() {
                 Track how AI crawlers discover and index your content
               </p>
             </div>
+            {connected && mappings.length > 1 && (
+              <button
+                onClick={() => navigate('/ai-visibility/portfolio')}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium border border-border hover:bg-muted transition-colors"
+              >
+                <LayoutGrid className="h-4 w-4" />
+                All Domains
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -333,6 +380,22 @@ function AIAnalyticsContent() {
               isLoading={isMetricsLoading}
             />
 
+            {/* AI sources: catalog platforms + private patterns */}
+            {selectedMapping && (
+              <GA4AIReferrerPatternManager
+                mappingId={selectedMapping.id}
+                domain={selectedMapping.domain}
+              />
+            )}
+
+            {/* Alert rules and history */}
+            {selectedMapping && (
+              <GA4AlertSettings
+                mappingId={selectedMapping.id}
+                domain={selectedMapping.domain}
+              />
+            )}
+
             {/* Summary Stats */}
             {metrics && (
               <motion.div
@@ -382,6 +445,55 @@ function AIAnalyticsContent() {
               domain={selectedMapping?.domain}
               isLoading={isMetricsLoading}
             />
+
+            {/* Schema Impact: AI traffic before vs. after schema went live */}
+            {selectedMapping && (
+              <SchemaImpactRollup
+                impact={schemaImpact}
+                note={schemaImpactNote}
+                isLoading={isSchemaImpactLoading}
+                windowDays={impactWindowDays}
+                onWindowDaysChange={setImpactWindowDays}
+              />
+            )}
+
+            {/* Server Log Crawler Hits */}
+            {selectedMapping && (
+              <>
+                <CrawlerLogSourcePanel
+                  domain={selectedMapping.domain}
+                  source={logSource}
+                  metrics={logMetrics}
+                  onCreate={() => createLogSource()}
+                  onUpload={(file) => logSource && uploadLog({ sourceId: logSource.id, file })}
+                  onDelete={(sourceId) => deleteLogSource(sourceId)}
+                  isCreating={isCreatingLogSource}
+                  isUploading={isUploadingLog}
+                  isDeleting={isDeletingLogSource}
+                />
+
+                {logSource && (
+                  <>
+                    <TopCrawlersTable
+                      crawlers={logMetrics?.topCrawlers || []}
+                      isLoading={isLogsLoading}
+                      title="AI Crawlers in Server Logs"
+                      subtitle="Crawler requests from your access logs, spoofed user agents excluded"
+                      emptyHint="Upload a log file or send logs to the drain URL to see crawler requests"
+                      sessionsLabel="Requests"
+                    />
+                    <PageCrawlerMetricsTable
+                      pages={logMetrics?.topPages || []}
+                      isLoading={isLogsLoading}
+                      title="Pages Requested by AI Crawlers"
+                      subtitle="Pages AI crawlers fetched according to your server logs"
+                      emptyHint="No AI crawler requests in the ingested logs for this date range"
+                      sessionsLabel="Requests"
+                    />
+                  </>
+                )}
+              </>
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,378 @@
+import { useMemo, useState } from 'react'
+import { motion } from 'framer-motion'
+import { ArrowLeft, ArrowUpDown, Loader2, AlertCircle, Search, TrendingUp, TrendingDown, RefreshCw } from 'lucide-react'
+import { LineChart, Line, ResponsiveContainer } from 'recharts'
+import { useNavigate } from 'react-router-dom'
+import { useGA4Connection } from '@/hooks/useGA4Connection'
+import { useGA4Portfolio } from '@/hooks/useGA4Portfolio'
+import { ChangeIndicator } from '@/components/SchemaImpactPanel'
+import { FeatureGate } from '@/components/FeatureGate'
+import type { PortfolioAlertStatus, PortfolioEntry, PortfolioMover, PortfolioPeriodDays } from '@/services/ga4'
+import { cn } from '@/utils/cn'
+
+const PORTFOLIO_PERIODS: PortfolioPeriodDays[] = [7, 30, 90]
+
+const ALERT_STATUS_LABELS: Record<PortfolioAlertStatus, string> = {
+  ok: 'Healthy',
+  declining: 'Declining',
+  stale: 'Stale data',
+  no_data: 'No data'
+}
+
+const ALERT_STATUS_STYLES: Record<PortfolioAlertStatus, string> = {
+  ok: 'bg-green-500/10 text-green-600',
+  declining: 'bg-red-500/10 text-red-600',
+  stale: 'bg-yellow-500/10 text-yellow-600',
+  no_data: 'bg-muted text-muted-foreground'
+}
+
+/** Alerts first when sorting by status */
+const ALERT_STATUS_ORDER: Record<PortfolioAlertStatus, number> = {
+  declining: 0,
+  stale: 1,
+  no_data: 2,
+  ok: 3
+}
+
+type SortKey = 'domain' | 'score' | 'scoreChange' | 'aiSessions' | 'platforms' | 'alertStatus'
+
+const SORT_VALUES: Record<SortKey, (entry: PortfolioEntry) => string | number | null> = {
+  domain: (entry) => entry.domain,
+  score: (entry) => entry.score,
+  scoreChange: (entry) => entry.scoreChange,
+  aiSessions: (entry) => entry.aiSessions,
+  platforms: (entry) => entry.platforms.length,
+  alertStatus: (entry) => ALERT_STATUS_ORDER[entry.alertStatus]
+}
+
+function formatPoints(value: number | null): string {
+  if (value === null) return '—'
+  return `${value > 0 ? '+' : ''}${value.toFixed(1)} pts`
+}
+
+function Sparkline({ data, declining }: { data: PortfolioEntry['sparkline']; declining: boolean }) {
+  if (data.length < 2) {
+    return <span className="text-xs text-muted-foreground">—</span>
+  }
+
+  return (
+    <div className="h-8 w-28">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data}>
+          <Line
+            type="monotone"
+            dataKey="score"
+            stroke={declining ? '#dc2626' : 'hsl(var(--primary))'}
+            strokeWidth={2}
+            dot={false}
+            isAnimationActive={false}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  )
+}
+
+function MoversCard({
+  title,
+  movers,
+  direction,
+  onSelect
+}: {
+  title: string
+  movers: PortfolioMover[]
+  direction: 'up' | 'down'
+  onSelect: (mappingId: string) => void
+}) {
+  const Icon = direction === 'up' ? TrendingUp : TrendingDown
+
+  return (
+    <div className="bg-card border border-border rounded-2xl p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <Icon className={cn('h-5 w-5', direction === 'up' ? 'text-green-600' : 'text-red-600')} />
+        <h3 className="font-bold text-foreground">{title}</h3>
+      </div>
+      {movers.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No score changes in this period</p>
+      ) : (
+        <ul className="space-y-2">
+          {movers.map((mover) => (
+            <li key={mover.mappingId}>
+              <button
+                onClick={() => onSelect(mover.mappingId)}
+                className="w-full flex items-center justify-between gap-4 text-sm rounded-lg px-2 py-1.5 hover:bg-muted transition-colors"
+              >
+                <span className="font-medium truncate">{mover.domain}</span>
+                <span className={cn('font-semibold whitespace-nowrap', direction === 'up' ? 'text-green-600' : 'text-red-600')}>
+                  {formatPoints(mover.scoreChange)}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+function AIPortfolioContent() {
+  const navigate = useNavigate()
+  const [periodDays, setPeriodDays] = useState<PortfolioPeriodDays>(30)
+  const [search, setSearch] = useState('')
+  const [statusFilter, setStatusFilter] = useState<PortfolioAlertStatus | 'all'>('all')
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'alertStatus', descending: false })
+
+  const { connected, isLoading: isConnectionLoading } = useGA4Connection()
+  const { portfolio, isLoading, error, refetch } = useGA4Portfolio(periodDays, connected)
+
+  const entries = useMemo(() => {
+    if (!portfolio) return []
+    const query = search.trim().toLowerCase()
+    const getValue = SORT_VALUES[sort.key]
+
+    return portfolio.entries
+      .filter((entry) => statusFilter === 'all' || entry.alertStatus === statusFilter)
+      .filter((entry) => !query || entry.domain.toLowerCase().includes(query) || entry.propertyName.toLowerCase().includes(query))
+      .sort((a, b) => {
+        const aValue = getValue(a)
+        const bValue = getValue(b)
+        // Missing values always sort last
+        if (aValue === null) return bValue === null ? 0 : 1
+        if (bValue === null) return -1
+        const comparison = typeof aValue === 'string'
+          ? aValue.localeCompare(bValue as string)
+          : aValue - (bValue as number)
+        return sort.descending ? -comparison : comparison
+      })
+  }, [portfolio, search, statusFilter, sort])
+
+  const alertCount = portfolio
+    ? portfolio.entries.filter((entry) => entry.alertStatus === 'declining' || entry.alertStatus === 'stale').length
+    : 0
+
+  const handleSort = (key: SortKey) => {
+    setSort((current) => current.key === key
+      ? { key, descending: !current.descending }
+      : { key, descending: key !== 'domain' && key !== 'alertStatus' })
+  }
+
+  const openMapping = (mappingId: string) => {
+    navigate(`/ai-visibility?mapping=${mappingId}`)
+  }
+
+  const SortHeader = ({ label, sortKey, align = 'left' }: { label: string; sortKey: SortKey; align?: 'left' | 'right' }) => (
+    <th className={cn('py-3 pr-4 font-medium', align === 'right' && 'text-right')}>
+      <button
+        onClick={() => handleSort(sortKey)}
+        className={cn(
+          'inline-flex items-center gap-1 hover:text-foreground transition-colors',
+          sort.key === sortKey && 'text-foreground'
+        )}
+      >
+        {label}
+        <ArrowUpDown className="h-3 w-3" />
+      </button>
+    </th>
+  )
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-20">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <button
+            onClick={() => navigate('/ai-visibility')}
+            className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground transition-colors mb-2"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to AI Visibility
+          </button>
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <div>
+              <h1 className="text-3xl font-black bg-gradient-to-br from-foreground to-foreground/70 bg-clip-text text-transparent">
+                All Domains
+              </h1>
+              <p className="text-muted-foreground mt-1">
+                AI visibility across every mapped GA4 property
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              {PORTFOLIO_PERIODS.map((days) => (
+                <button
+                  key={days}
+                  onClick={() => setPeriodDays(days)}
+                  className={cn(
+                    'px-4 py-2 rounded-lg text-sm font-medium transition-colors',
+                    periodDays === days ? 'bg-primary text-primary-foreground' : 'border border-border hover:bg-muted'
+                  )}
+                >
+                  Last {days} days
+                </button>
+              ))}
+              <button
+                onClick={() => refetch()}
+                className="p-2 rounded-lg border border-border hover:bg-muted transition-colors"
+                title="Refresh"
+              >
+                <RefreshCw className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {(isConnectionLoading || (connected && isLoading)) && (
+          <div className="bg-card border border-border rounded-2xl p-12 text-center">
+            <Loader2 className="h-8 w-8 text-primary animate-spin mx-auto mb-4" />
+            <p className="text-muted-foreground">Loading portfolio...</p>
+          </div>
+        )}
+
+        {!isConnectionLoading && !connected && (
+          <div className="bg-card border border-border rounded-2xl p-12 text-center">
+            <AlertCircle className="h-8 w-8 text-primary mx-auto mb-4" />
+            <h2 className="text-2xl font-bold text-foreground mb-2">Connect Google Analytics</h2>
+            <p className="text-muted-foreground mb-6">
+              Connect a GA4 account and map your domains to see them side by side.
+            </p>
+            <button
+              onClick={() => navigate('/ai-visibility')}
+              className="px-6 py-3 rounded-lg font-semibold bg-gradient-to-r from-primary to-primary/80 text-primary-foreground hover:shadow-lg transition-all duration-200"
+            >
+              Go to AI Visibility
+            </button>
+          </div>
+        )}
+
+        {connected && error && (
+          <div className="bg-card border border-red-500/20 rounded-2xl p-6 text-center">
+            <AlertCircle className="h-6 w-6 text-red-600 mx-auto mb-2" />
+            <p className="text-sm text-muted-foreground">
+              {error instanceof Error ? error.message : 'Failed to load portfolio'}
+            </p>
+          </div>
+        )}
+
+        {connected && portfolio && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5 }}
+            className="space-y-6"
+          >
+            {/* Biggest movers */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <MoversCard title="Biggest gainers" movers={portfolio.movers.gainers} direction="up" onSelect={openMapping} />
+              <MoversCard title="Biggest decliners" movers={portfolio.movers.decliners} direction="down" onSelect={openMapping} />
+            </div>
+
+            {/* Domains */}
+            <div className="bg-card border border-border rounded-2xl p-6">
+              <div className="flex items-center justify-between gap-4 flex-wrap mb-4">
+                <div>
+                  <h3 className="text-xl font-bold text-foreground">
+                    {portfolio.entries.length} domain{portfolio.entries.length === 1 ? '' : 's'}
+                  </h3>
+                  {alertCount > 0 && (
+                    <p className="text-sm text-red-600">{alertCount} need attention</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <div className="relative">
+                    <Search className="h-4 w-4 text-muted-foreground absolute left-3 top-1/2 -translate-y-1/2" />
+                    <input
+                      value={search}
+                      onChange={(e) => setSearch(e.target.value)}
+                      placeholder="Filter domains"
+                      className="pl-9 pr-3 py-2 text-sm rounded-lg border border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary/50"
+                    />
+                  </div>
+                  <select
+                    value={statusFilter}
+                    onChange={(e) => setStatusFilter(e.target.value as PortfolioAlertStatus | 'all')}
+                    className="px-3 py-2 text-sm rounded-lg border border-border bg-background"
+                  >
+                    <option value="all">All statuses</option>
+                    {(Object.keys(ALERT_STATUS_LABELS) as PortfolioAlertStatus[]).map((status) => (
+                      <option key={status} value={status}>{ALERT_STATUS_LABELS[status]}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground border-b border-border">
+                      <SortHeader label="Domain" sortKey="domain" />
+                      <SortHeader label="Score" sortKey="score" align="right" />
+                      <SortHeader label="Change" sortKey="scoreChange" align="right" />
+                      <SortHeader label="AI Sessions" sortKey="aiSessions" align="right" />
+                      <SortHeader label="Platforms" sortKey="platforms" align="right" />
+                      <th className="py-3 pr-4 font-medium">Trend</th>
+                      <SortHeader label="Status" sortKey="alertStatus" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {entries.map((entry) => (
+                      <tr
+                        key={entry.mappingId}
+                        onClick={() => openMapping(entry.mappingId)}
+                        className="border-b border-border/50 hover:bg-muted/50 cursor-pointer transition-colors"
+                      >
+                        <td className="py-3 pr-4">
+                          <div className="font-medium text-foreground">{entry.domain}</div>
+                          <div className="text-xs text-muted-foreground">{entry.propertyName}</div>
+                        </td>
+                        <td className="py-3 pr-4 text-right font-bold">{entry.score ?? '—'}</td>
+                        <td className={cn(
+                          'py-3 pr-4 text-right font-semibold whitespace-nowrap',
+                          entry.scoreChange !== null && entry.scoreChange > 0 && 'text-green-600',
+                          entry.scoreChange !== null && entry.scoreChange < 0 && 'text-red-600',
+                          (entry.scoreChange === null || entry.scoreChange === 0) && 'text-muted-foreground'
+                        )}>
+                          {formatPoints(entry.scoreChange)}
+                        </td>
+                        <td className="py-3 pr-4 text-right whitespace-nowrap">
+                          <div>{entry.aiSessions.toLocaleString()}</div>
+                          <div className="text-xs">
+                            <ChangeIndicator value={entry.sessionsChangePercentage} afterSessions={entry.aiSessions} />
+                          </div>
+                        </td>
+                        <td className="py-3 pr-4 text-right" title={entry.platforms.join(', ')}>
+                          {entry.platforms.length}
+                        </td>
+                        <td className="py-3 pr-4">
+                          <Sparkline data={entry.sparkline} declining={entry.alertStatus === 'declining'} />
+                        </td>
+                        <td className="py-3 pr-4">
+                          <span className={cn('px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap', ALERT_STATUS_STYLES[entry.alertStatus])}>
+                            {ALERT_STATUS_LABELS[entry.alertStatus]}
+                          </span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {entries.length === 0 && (
+                  <p className="text-center text-muted-foreground py-8">
+                    {portfolio.entries.length === 0 ? 'No domains mapped yet' : 'No domains match these filters'}
+                  </p>
+                )}
+              </div>
+            </div>
+          </motion.div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default function AIPortfolioPage() {
+  return (
+    <FeatureGate featureSlug="ai-visibility">
+      <AIPortfolioContent />
+    </FeatureGate>
+  )
+}
@@ -7,6 +7,8 @@ import { apiService } from '@/services/api'
 import { Loader2, CheckCircle, XCircle, AlertCircle, ExternalLink, Trash2, Plus, X, Globe, AlertTriangle, Sparkles } from 'lucide-react'
 import toast from 'react-hot-toast'
 import ConfirmModal from '@/components/ConfirmModal'
+import HubSpotSyncHistory from '@/components/HubSpotSyncHistory'
+import HubSpotDraftStatus from '@/components/HubSpotDraftStatus'
 import { HubSpotDomainAssociationModal, shouldShowDomainPrompt } from '@/components/HubSpotDomainAssociationModal'
 
 export default function HubSpotPage() {
@@ -540,6 +542,20 @@ export default function HubSpotPage() {
           )}
         </div>
 
+        {/* Page drafts with unpublished schema */}
+        {connections.length > 0 && (
+          <div className="mt-6">
+            <HubSpotDraftStatus connections={connections} />
+          </div>
+        )}
+
+        {/* Sync History */}
+        {connections.length > 0 && (
+          <div className="mt-6">
+            <HubSpotSyncHistory />
+          </div>
+        )}
+
         {/* Disconnect Confirmation Modal */}
         <ConfirmModal
           isOpen={disconnectModal.isOpen}
@@ -1,23 +1,32 @@
 import { useState, useCallback, useEffect, useMemo } from 'react'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { useAuth } from '@clerk/clerk-react'
-import { Library, Search, Eye, EyeOff, Trash2, Loader2, AlertCircle, X, ExternalLink, Sparkles, Plus, ChevronDown, ChevronRight } from 'lucide-react'
+import { Library, Search, Eye, EyeOff, Trash2, Loader2, AlertCircle, X, ExternalLink, Sparkles, Plus, ChevronDown, ChevronRight, RefreshCw, Upload, Globe, Download, Code, FileText } from 'lucide-react'
 import { apiService } from '@/services/api'
-import type { DiscoveredUrl, HubSpotContentMatchResult } from '@shared/types'
+import type { DiscoveredUrl, HubSpotContentMatchResult, HubSpotPublishOptions, WordPressContentMatchResult } from '@shared/types'
 import { cn } from '@/utils/cn'
 import SchemaEditor from '@/components/SchemaEditor'
 import SchemaScoreCompact from '@/components/SchemaScoreCompact'
 import RichResultsPreview from '@/components/RichResultsPreview'
 import ConfirmModal from '@/components/ConfirmModal'
 import HubSpotContentMatcher from '@/components/HubSpotContentMatcher'
+import HubSpotBulkPushModal from '@/components/HubSpotBulkPushModal'
+import WordPressContentMatcher from '@/components/WordPressContentMatcher'
 import UnassociatedDomainModal from '@/components/UnassociatedDomainModal'
+import SchemaExportModal from '@/components/SchemaExportModal'
+import ClientReportModal from '@/components/ClientReportModal'
+import SchemaEmbedModal from '@/components/SchemaEmbedModal'
+import SchemaDriftBadge from '@/components/SchemaDriftBadge'
+import DomainDriftHealth from '@/components/DomainDriftHealth'
+import SchemaImpactPanel from '@/components/SchemaImpactPanel'
 import { toast } from 'react-hot-toast'
 import { useNavigate, useSearchParams } from 'react-router-dom'
 import LightningBoltIcon from '@/components/icons/LightningBoltIcon'
 import SuperSchemaBoltSolid from '@/components/icons/SuperSchemaBoltSolid'
-import { calculateSchemaScore } from '@/utils/calculateSchemaScore'
+import { calculateSchemaScore } from '@shared/utils'
 import { MAX_REFINEMENTS } from '@shared/config/refinement'
 import { hubspotApi } from '@/services/hubspot'
+import { wordpressApi } from '@/services/wordpress'
 import { findConnectionByDomain } from '@/utils/domain'
 import { SCHEMA_TYPES } from '@/constants/schemaTypes'
 
@@ -45,13 +54,19 @@ export default function LibraryPage() {
   const [urlToDelete, setUrlToDelete] = useState<{ id: string; url: string } | null>(null)
   const [showDeleteDomainModal, setShowDeleteDomainModal] = useState(false)
   const [domainToDelete, setDomainToDelete] = useState<{ id: string; domain: string } | null>(null)
+  const [domainToExport, setDomainToExport] = useState<{ id: string; domain: string } | null>(null)
+  const [domainToReport, setDomainToReport] = useState<{ id: string; domain: string } | null>(null)
+  const [embedDomainId, setEmbedDomainId] = useState<string | null>(null)
   const [isRefining, setIsRefining] = useState(false)
   const [isRecalculating, setIsRecalculating] = useState(false)
   const [highlightedChanges, setHighlightedChanges] = useState<string[]>([])
   const [showChangesBanner, setShowChangesBanner] = useState(false)
   const [showHubSpotMatcher, setShowHubSpotMatcher] = useState(false)
   const [selectedHubSpotConnection, setSelectedHubSpotConnection] = useState<string | null>(null)
+  const [showWordPressMatcher, setShowWordPressMatcher] = useState(false)
+  const [selectedWordPressConnection, setSelectedWordPressConnection] = useState<string | null>(null)
   const [showUnassociatedDomainModal, setShowUnassociatedDomainModal] = useState(false)
+  const [bulkPushConnectionId, setBulkPushConnectionId] = useState<string | null>(null)
   const [showAddSchemaType, setShowAddSchemaType] = useState(false)
   const [isAddingSchemaType, setIsAddingSchemaType] = useState(false)
   const [pendingSchemaType, setPendingSchemaType] = useState<string | null>(null)
@@ -115,8 +130,30 @@ export default function LibraryPage() {
     refetchOnMount: 'always'
   })
 
+  // Fetch WordPress connections - Wait for Clerk to load before firing
+  const { data: wordpressConnectionsResponse } = useQuery({
+    queryKey: ['wordpress-connections'],
+    queryFn: () => wordpressApi.getConnections(),
+    enabled: isLoaded  // Prevents race condition with Clerk auth
+  })
+
+  // Fetch per-domain schema drift health - Wait for Clerk to load before firing
+  const { data: driftSummaryResponse, refetch: refetchDriftSummary } = useQuery({
+    queryKey: ['drift-summary'],
+    queryFn: () => apiService.getDriftSummary(),
+    enabled: isLoaded,  // Prevents race condition with Clerk auth
+    refetchOnMount: 'always'
+  })
+
+  const driftSummaryByDomain = useMemo(
+    () => new Map((driftSummaryResponse?.data || []).map(summary => [summary.domainId, summary])),
+    [driftSummaryResponse]
+  )
+
   const hubspotConnections = hubspotConnectionsResponse?.data || []
   const hasActiveHubSpotConnection = hubspotConnections.some(conn => conn.isActive)
+  const wordpressConnections = wordpressConnectionsResponse?.data || []
+  const activeWordPressConnections = wordpressConnections.filter(conn => conn.isActive)
 
   // Log schema response for debugging
   console.log('📊 Schema query state:', {
@@ -247,6 +284,28 @@ export default function LibraryPage() {
     }
   }
 
+  const [checkingDriftUrlId, setCheckingDriftUrlId] = useState<string | null>(null)
+
+  const handleCheckDrift = async (urlId: string) => {
+    setCheckingDriftUrlId(urlId)
+    try {
+      const result = await apiService.checkUrlDrift(urlId)
+      if (result.data?.status === 'in_sync') {
+        toast.success('Schema is live and up to date')
+      } else {
+        toast('Schema drift detected - see the badge for details', { icon: '⚠️' })
+      }
+      refetchUrls()
+      refetchAllUrls()
+      refetchDriftSummary()
+    } catch (error: any) {
+      console.error('Failed to check schema drift:', error)
+      toast.error(error.response?.data?.error || 'Failed to check live page')
+    } finally {
+      setCheckingDriftUrlId(null)
+    }
+  }
+
   const toggleDomainCollapse = (domainId: string) => {
     setCollapsedDomains(prev => {
       const newSet = new Set(prev)
@@ -768,9 +827,14 @@ export default function LibraryPage() {
       schemaHtml: string
       contentTitle?: string
       contentUrl?: string
+      publish?: HubSpotPublishOptions
     }) => hubspotApi.pushSchema(data),
-    onSuccess: () => {
-      toast.success('Schema successfully pushed to HubSpot!')
+    onSuccess: (response) => {
+      if (response.data?.publishError) {
+        toast.error(response.message || 'Schema pushed to the draft, but publishing failed')
+      } else {
+        toast.success(response.message || 'Schema successfully pushed to HubSpot!')
+      }
       setShowHubSpotMatcher(false)
     },
     onError: (error: any) => {
@@ -780,6 +844,22 @@ export default function LibraryPage() {
     }
   })
 
+  // Generate HTML script tags from ALL schema types (not just selected one)
+  const buildSchemaHtml = () => schemaRecords
+    .map(record => {
+      // Extract schemas from each record
+      let schemas = record.schemas
+      if (!Array.isArray(schemas)) {
+        schemas = [schemas]
+      }
+
+      // Generate script tags for each schema in this record
+      return schemas
+        .map(schema => `<script type="application/ld+json">\n${JSON.stringify(schema, null, 2)}\n</script>`)
+        .join('\n')
+    })
+    .join('\n')
+
   const handlePushToHubSpot = () => {
     if (!hasActiveHubSpotConnection) {
       toast.error('Please connect a HubSpot account first')
@@ -815,27 +895,37 @@ export default function LibraryPage() {
     }
   }
 
-  const handleSelectHubSpotContent = (match: HubSpotContentMatchResult) => {
+  const handleBulkPushToHubSpot = () => {
+    if (!hasActiveHubSpotConnection) {
+      toast.error('Please connect a HubSpot account first')
+      navigate('/hubspot')
+      return
+    }
+
+    // Pick the portal by the selected URLs' domain, same as a single push
+    const selected = allUrls.filter(url => selectedUrls.has(url.id))
+    const matchedConnection = selected
+      .map(url => findConnectionByDomain(hubspotConnections, url.url))
+      .find(connection => connection !== null)
+    const activeConnections = hubspotConnections.filter(conn => conn.isActive)
+
+    if (matchedConnection) {
+      setBulkPushConnectionId(matchedConnection.id)
+    } else if (activeConnections.length === 1) {
+      setBulkPushConnectionId(activeConnections[0].id)
+    } else {
+      toast.error('Associate these domains with a HubSpot portal to push in bulk')
+      navigate('/hubspot')
+    }
+  }
+
+  const handleSelectHubSpotContent = (match: HubSpotContentMatchResult, publish?: HubSpotPublishOptions) => {
     if (!selectedHubSpotConnection || schemaRecords.length === 0) {
       toast.error('Missing connection or schema data')
       return
     }
 
-    // Generate HTML script tags from ALL schema types (not just selected one)
-    const schemaHtml = schemaRecords
-      .map(record => {
-        // Extract schemas from each record
-        let schemas = record.schemas
-        if (!Array.isArray(schemas)) {
-          schemas = [schemas]
-        }
-
-        // Generate script tags for each schema in this record
-        return schemas
-          .map(schema => `<script type="application/ld+json">\n${JSON.stringify(schema, null, 2)}\n</script>`)
-          .join('\n')
-      })
-      .join('\n')
+    const schemaHtml = buildSchemaHtml()
 
     pushToHubSpotMutation.mutate({
       connectionId: selectedHubSpotConnection,
@@ -843,6 +933,67 @@ export default function LibraryPage() {
       contentType: match.contentType as 'blog_post' | 'page' | 'landing_page',
       schemaHtml,
       contentTitle: match.title,
+      contentUrl: match.url,
+      publish
+    })
+  }
+
+  // Push to WordPress mutation
+  const pushToWordPressMutation = useMutation({
+    mutationFn: (data: {
+      connectionId: string
+      contentId: string
+      contentType: 'post' | 'page'
+      schemaHtml: string
+      contentTitle?: string
+      contentUrl?: string
+    }) => wordpressApi.pushSchema(data),
+    onSuccess: (response) => {
+      toast.success(response.message || 'Schema successfully pushed to WordPress!')
+      queryClient.invalidateQueries({ queryKey: ['wordpress-sync-history'] })
+      setShowWordPressMatcher(false)
+    },
+    onError: (error: any) => {
+      const message = error?.response?.data?.error || 'Failed to push schema to WordPress'
+      toast.error(message)
+      console.error('WordPress push error:', error)
+    }
+  })
+
+  const handlePushToWordPress = () => {
+    const selectedUrl = urls.find(u => u.id === selectedUrlId)
+    if (!selectedUrl) {
+      toast.error('No URL selected')
+      return
+    }
+
+    // Same site selection as HubSpot: domain match first, then the only site
+    const matchedConnection = findConnectionByDomain(wordpressConnections, selectedUrl.url)
+
+    if (matchedConnection) {
+      setSelectedWordPressConnection(matchedConnection.id)
+      setTimeout(() => setShowWordPressMatcher(true), 0)
+    } else if (activeWordPressConnections.length === 1) {
+      setSelectedWordPressConnection(activeWordPressConnections[0].id)
+      setTimeout(() => setShowWordPressMatcher(true), 0)
+    } else {
+      toast.error('Associate this domain with a WordPress site first')
+      navigate('/wordpress')
+    }
+  }
+
+  const handleSelectWordPressContent = (match: WordPressContentMatchResult) => {
+    if (!selectedWordPressConnection || schemaRecords.length === 0) {
+      toast.error('Missing connection or schema data')
+      return
+    }
+
+    pushToWordPressMutation.mutate({
+      connectionId: selectedWordPressConnection,
+      contentId: match.contentId,
+      contentType: match.contentType,
+      schemaHtml: buildSchemaHtml(),
+      contentTitle: match.title,
       contentUrl: match.url
     })
   }
@@ -1010,13 +1161,22 @@ export default function LibraryPage() {
               <span className="text-sm font-medium">
                 {selectedUrls.size} URL{selectedUrls.size !== 1 ? 's' : ''} selected
               </span>
-              <button
-                onClick={() => setShowDeleteModal(true)}
-                className="px-3 py-1 text-sm bg-destructive text-destructive-foreground rounded-md hover:bg-destructive/90 transition-colors flex items-center gap-1"
-              >
-                <Trash2 className="h-3 w-3" />
-                Delete Selected
-              </button>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={handleBulkPushToHubSpot}
+                  className="px-3 py-1 text-sm bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors flex items-center gap-1"
+                >
+                  <Upload className="h-3 w-3" />
+                  Push to HubSpot
+                </button>
+                <button
+                  onClick={() => setShowDeleteModal(true)}
+                  className="px-3 py-1 text-sm bg-destructive text-destructive-foreground rounded-md hover:bg-destructive/90 transition-colors flex items-center gap-1"
+                >
+                  <Trash2 className="h-3 w-3" />
+                  Delete Selected
+                </button>
+              </div>
             </div>
           )}
 
@@ -1075,8 +1235,42 @@ export default function LibraryPage() {
                               <p className="text-xs text-muted-foreground">
                                 {totalDomainUrls} URL{totalDomainUrls !== 1 ? 's' : ''}
                               </p>
+                              <DomainDriftHealth summary={driftSummaryByDomain.get(domain.id)} />
                             </div>
                           </button>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              setEmbedDomainId(domain.id)
+                            }}
+                            className={cn(
+                              'mr-3 hover:text-foreground transition-colors',
+                              domain.embedEnabled ? 'text-primary' : 'text-muted-foreground opacity-0 group-hover:opacity-100'
+                            )}
+                            title={domain.embedEnabled ? 'Schema embed enabled' : 'Embed schema'}
+                          >
+                            <Code className="h-3 w-3" />
+                          </button>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              setDomainToExport({ id: domain.id, domain: domain.domain })
+                            }}
+                            className="mr-3 text-muted-foreground hover:text-foreground transition-colors opacity-0 group-hover:opacity-100"
+                            title="Export schema"
+                          >
+                            <Download className="h-3 w-3" />
+                          </button>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              setDomainToReport({ id: domain.id, domain: domain.domain })
+                            }}
+                            className="mr-3 text-muted-foreground hover:text-foreground transition-colors opacity-0 group-hover:opacity-100"
+                            title="Client report"
+                          >
+                            <FileText className="h-3 w-3" />
+                          </button>
                           <button
                             onClick={(e) => {
                               e.stopPropagation()
@@ -1126,6 +1320,13 @@ export default function LibraryPage() {
                                 )}
 
                                 <span className="text-sm truncate">{url.path}</span>
+                                {url.hasSchema && (
+                                  <SchemaDriftBadge
+                                    status={url.driftStatus}
+                                    details={url.driftDetails}
+                                    checkedAt={url.driftCheckedAt}
+                                  />
+                                )}
                               </div>
 
                               {/* Action buttons */}
@@ -1144,6 +1345,21 @@ export default function LibraryPage() {
                                   </button>
                                 )}
 
+                                {/* Check live page for drift */}
+                                {url.hasSchema && !selectionMode && (
+                                  <button
+                                    onClick={(e) => {
+                                      e.stopPropagation()
+                                      handleCheckDrift(url.id)
+                                    }}
+                                    disabled={checkingDriftUrlId === url.id}
+                                    className="opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-foreground disabled:opacity-100"
+                                    title="Check live page now"
+                                  >
+                                    <RefreshCw className={cn('h-3 w-3', checkingDriftUrlId === url.id && 'animate-spin')} />
+                                  </button>
+                                )}
+
                                 {/* Hide/Unhide button */}
                                 {!selectionMode && (
                                   <button
@@ -1219,6 +1435,13 @@ export default function LibraryPage() {
                           <LightningBoltIcon className="h-3 w-3 text-gray-400 flex-shrink-0" />
                         )}
                         <span className="text-sm truncate">{url.url}</span>
+                        {url.hasSchema && (
+                          <SchemaDriftBadge
+                            status={url.driftStatus}
+                            details={url.driftDetails}
+                            checkedAt={url.driftCheckedAt}
+                          />
+                        )}
                       </div>
                       <div className="flex items-center gap-1">
                         {!url.hasSchema && !selectionMode && (
@@ -1233,6 +1456,19 @@ export default function LibraryPage() {
                             <LightningBoltIcon className="h-3 w-3" />
                           </button>
                         )}
+                        {url.hasSchema && !selectionMode && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              handleCheckDrift(url.id)
+                            }}
+                            disabled={checkingDriftUrlId === url.id}
+                            className="opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-foreground disabled:opacity-100"
+                            title="Check live page now"
+                          >
+                            <RefreshCw className={cn('h-3 w-3', checkingDriftUrlId === url.id && 'animate-spin')} />
+                          </button>
+                        )}
                         {!selectionMode && (
                           <>
                             <button
@@ -1327,8 +1563,12 @@ export default function LibraryPage() {
                             setCurrentSchemaId(record.id)
                           }}
                           className="flex-1"
+                          title={record.isImportedSchema ? 'Imported from the live page' : undefined}
                         >
                           {record.schemaType}
+                          {record.isImportedSchema && (
+                            <span className="ml-1.5 text-[10px] uppercase tracking-wide opacity-75">Imported</span>
+                          )}
                         </button>
                         <button
                           onClick={(e) => {
@@ -1433,6 +1673,35 @@ export default function LibraryPage() {
                 </div>
               )}
 
+              {/* Push to WordPress Button - Show for users with connected WordPress sites */}
+              {activeWordPressConnections.length > 0 && (
+                <div className="flex items-center justify-between bg-muted/20 border border-border rounded-lg p-4">
+                  <div className="flex-1">
+                    <h3 className="font-medium mb-1">Push to WordPress</h3>
+                    <p className="text-sm text-muted-foreground">
+                      Save this schema to the matching WordPress post or page
+                    </p>
+                  </div>
+                  <button
+                    onClick={handlePushToWordPress}
+                    disabled={pushToWordPressMutation.isPending}
+                    className="flex items-center gap-2 px-4 py-2 rounded-md transition-colors flex-shrink-0 bg-primary text-primary-foreground hover:bg-primary/90"
+                  >
+                    {pushToWordPressMutation.isPending ? (
+                      <>
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        <span>Pushing...</span>
+                      </>
+                    ) : (
+                      <>
+                        <Globe className="h-4 w-4" />
+                        <span>Push to WordPress</span>
+                      </>
+                    )}
+                  </button>
+                </div>
+              )}
+
               {/* Schema Quality Score */}
               {displayScore && (
                 <div>
@@ -1541,6 +1810,8 @@ export default function LibraryPage() {
                 <h2 className="text-xl font-bold mb-4">Google Rich Results Preview</h2>
                 <RichResultsPreview schemas={schemasArray} />
               </div>
+
+              <SchemaImpactPanel urlId={selectedUrlId} />
             </div>
           ) : (
             <div className="flex-1 flex items-center justify-center">
@@ -1614,6 +1885,27 @@ export default function LibraryPage() {
         variant="danger"
       />
 
+      {/* Domain Schema Export Modal */}
+      <SchemaExportModal
+        isOpen={!!domainToExport}
+        onClose={() => setDomainToExport(null)}
+        domain={domainToExport}
+      />
+
+      {/* Domain Client Report Modal */}
+      <ClientReportModal
+        isOpen={!!domainToReport}
+        onClose={() => setDomainToReport(null)}
+        domain={domainToReport}
+      />
+
+      {/* Domain Schema Embed Modal */}
+      <SchemaEmbedModal
+        isOpen={!!embedDomainId}
+        onClose={() => setEmbedDomainId(null)}
+        domain={domains.find((domain) => domain.id === embedDomainId) || null}
+      />
+
       {/* HubSpot Content Matcher Modal */}
       {selectedHubSpotConnection && selectedUrlId && (
         <HubSpotContentMatcher
@@ -1625,6 +1917,27 @@ export default function LibraryPage() {
         />
       )}
 
+      {/* WordPress Content Matcher Modal */}
+      {selectedWordPressConnection && selectedUrlId && (
+        <WordPressContentMatcher
+          isOpen={showWordPressMatcher}
+          onClose={() => setShowWordPressMatcher(false)}
+          onSelectContent={handleSelectWordPressContent}
+          connectionId={selectedWordPressConnection}
+          targetUrl={urls.find(u => u.id === selectedUrlId)?.url || ''}
+        />
+      )}
+
+      {/* HubSpot Bulk Push Modal */}
+      {bulkPushConnectionId && (
+        <HubSpotBulkPushModal
+          isOpen={!!bulkPushConnectionId}
+          onClose={() => setBulkPushConnectionId(null)}
+          connectionId={bulkPushConnectionId}
+          urlIds={Array.from(selectedUrls)}
+        />
+      )}
+
       {/* Unassociated Domain Warning Modal */}
       {selectedUrlId && (
         <UnassociatedDomainModal
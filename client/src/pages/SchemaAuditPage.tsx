@@ -0,0 +1,242 @@
+import { useState, useEffect } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useAuth } from '@clerk/clerk-react'
+import { Loader2, AlertCircle, Search, Download, CheckCircle, XCircle, ClipboardCheck } from 'lucide-react'
+import { toast } from 'react-hot-toast'
+import type { SchemaAuditExportFormat } from '@shared/types'
+import { apiService } from '@/services/api'
+import { normalizeDomain } from '@/utils/domain'
+import { cn } from '@/utils/cn'
+import SchemaAuditReport from '@/components/SchemaAuditReport'
+
+const PAGE_LIMIT_OPTIONS = [25, 50, 100, 200]
+
+const POLL_INTERVAL_MS = 3000
+
+export default function SchemaAuditPage() {
+  const queryClient = useQueryClient()
+  const { isLoaded } = useAuth()
+  const [domain, setDomain] = useState('')
+  const [maxPages, setMaxPages] = useState(50)
+  const [selectedAuditId, setSelectedAuditId] = useState<string | null>(null)
+
+  const { data: auditsResponse, isLoading: auditsLoading } = useQuery({
+    queryKey: ['schema-audits'],
+    queryFn: () => apiService.listSchemaAudits(),
+    enabled: isLoaded
+  })
+
+  const audits = auditsResponse?.data || []
+  const activeAuditId = selectedAuditId || audits[0]?.id || null
+
+  const { data: auditResponse, isError: auditError } = useQuery({
+    queryKey: ['schema-audit', activeAuditId],
+    queryFn: () => apiService.getSchemaAudit(activeAuditId!),
+    enabled: isLoaded && !!activeAuditId,
+    // Keep polling while the audit runs server-side
+    refetchInterval: (query) => {
+      const status = query.state.data?.data?.status
+      return status && status !== 'running' ? false : POLL_INTERVAL_MS
+    }
+  })
+
+  const audit = auditResponse?.data
+
+  // Refresh the history once the watched audit finishes so its status icon updates
+  useEffect(() => {
+    if (audit && audit.status !== 'running') {
+      queryClient.invalidateQueries({ queryKey: ['schema-audits'] })
+    }
+  }, [audit?.id, audit?.status, queryClient])
+
+  const startMutation = useMutation({
+    mutationFn: () => apiService.startSchemaAudit(normalizeDomain(domain), maxPages),
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ['schema-audits'] })
+      setSelectedAuditId(response.data?.id || null)
+      setDomain('')
+      toast.success(response.message || 'Audit started')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to start audit')
+    }
+  })
+
+  const exportMutation = useMutation({
+    mutationFn: (format: SchemaAuditExportFormat) => apiService.exportSchemaAudit(audit!.id, format),
+    onSuccess: (blob, format) => {
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      const hostname = audit!.domain.replace(/^https?:\/\//, '').replace(/\/.*$/, '')
+      a.download = `${hostname}-schema-audit.${format}`
+      a.click()
+      URL.revokeObjectURL(url)
+    },
+    onError: () => {
+      toast.error('Failed to export audit')
+    }
+  })
+
+  const handleStart = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!domain.trim()) return
+    startMutation.mutate()
+  }
+
+  const progress = audit && audit.pagesTotal > 0 ? Math.round((audit.pagesScanned / audit.pagesTotal) * 100) : 0
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-6xl mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold mb-2">Schema Audit</h1>
+          <p className="text-muted-foreground">
+            Crawl a site and grade the structured data it already publishes: coverage by page type, the most
+            common errors, pages without markup, Organization conflicts and rich-result eligibility.
+          </p>
+        </div>
+
+        {/* Start form */}
+        <form onSubmit={handleStart} className="mb-8 bg-card border border-border rounded-lg p-6">
+          <div className="flex flex-col md:flex-row gap-3">
+            <input
+              type="text"
+              placeholder="example.com"
+              value={domain}
+              onChange={(e) => setDomain(e.target.value)}
+              className="flex-1 px-3 py-2 text-sm border border-border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+            <select
+              value={maxPages}
+              onChange={(e) => setMaxPages(Number(e.target.value))}
+              className="px-3 py-2 text-sm border border-border rounded-md bg-background"
+            >
+              {PAGE_LIMIT_OPTIONS.map((limit) => (
+                <option key={limit} value={limit}>Up to {limit} pages</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={!domain.trim() || startMutation.isPending}
+              className="px-6 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors font-medium disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+              {startMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+              Run Audit
+            </button>
+          </div>
+          <p className="text-xs text-muted-foreground mt-2">
+            Every page is loaded in a real browser, so larger audits take a few minutes. You can leave this page while it runs.
+          </p>
+        </form>
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          {/* Audit history */}
+          <div className="lg:col-span-1">
+            <h2 className="text-sm font-semibold text-muted-foreground mb-3">Past audits</h2>
+            {auditsLoading ? (
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            ) : audits.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No audits yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {audits.map((item) => (
+                  <button
+                    key={item.id}
+                    onClick={() => setSelectedAuditId(item.id)}
+                    className={cn(
+                      'w-full text-left p-3 rounded-md border transition-colors',
+                      item.id === activeAuditId ? 'border-primary bg-primary/5' : 'border-border hover:bg-accent'
+                    )}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium truncate">{item.domain}</span>
+                      {item.status === 'running' ? (
+                        <Loader2 className="h-3 w-3 animate-spin text-primary flex-shrink-0" />
+                      ) : item.status === 'completed' ? (
+                        <CheckCircle className="h-3 w-3 text-green-500 flex-shrink-0" />
+                      ) : (
+                        <XCircle className="h-3 w-3 text-red-500 flex-shrink-0" />
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">{new Date(item.createdAt).toLocaleString()}</p>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Selected audit */}
+          <div className="lg:col-span-3">
+            {!activeAuditId ? (
+              <div className="bg-card border border-border rounded-lg p-12 text-center text-muted-foreground">
+                <ClipboardCheck className="h-10 w-10 mx-auto mb-3 opacity-50" />
+                <p>Run an audit to see how a site's structured data holds up.</p>
+              </div>
+            ) : auditError ? (
+              <div className="py-8 flex items-center space-x-2 text-destructive">
+                <AlertCircle className="h-5 w-5" />
+                <span className="font-semibold">Failed to load audit</span>
+              </div>
+            ) : !audit ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="space-y-6">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <h2 className="text-xl font-semibold">{audit.domain}</h2>
+                    <p className="text-sm text-muted-foreground">
+                      Started {new Date(audit.startedAt).toLocaleString()}
+                      {audit.completedAt && ` · Finished ${new Date(audit.completedAt).toLocaleString()}`}
+                    </p>
+                  </div>
+                  {audit.status === 'completed' && (
+                    <div className="flex items-center gap-2">
+                      {(['csv', 'json'] as SchemaAuditExportFormat[]).map((format) => (
+                        <button
+                          key={format}
+                          onClick={() => exportMutation.mutate(format)}
+                          disabled={exportMutation.isPending}
+                          className="flex items-center gap-1.5 px-3 py-1.5 text-sm border border-border rounded-md hover:bg-accent transition-colors disabled:opacity-50"
+                        >
+                          <Download className="h-4 w-4" />
+                          {format.toUpperCase()}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {audit.status === 'running' && (
+                  <div className="bg-card border border-border rounded-lg p-6">
+                    <p className="text-sm font-medium flex items-center gap-2 mb-3">
+                      <Loader2 className="h-4 w-4 animate-spin text-primary" />
+                      {audit.pagesTotal === 0
+                        ? 'Discovering pages...'
+                        : `Scanning pages: ${audit.pagesScanned} of ${audit.pagesTotal}`}
+                    </p>
+                    <div className="w-full bg-muted rounded-full h-2">
+                      <div className="bg-primary h-2 rounded-full transition-all" style={{ width: `${progress}%` }} />
+                    </div>
+                  </div>
+                )}
+
+                {audit.status === 'failed' && (
+                  <div className="bg-card border border-destructive/50 rounded-lg p-6 flex items-center gap-2 text-destructive">
+                    <AlertCircle className="h-5 w-5" />
+                    <span>Audit failed: {audit.error || 'Unknown error'}</span>
+                  </div>
+                )}
+
+                {audit.report && <SchemaAuditReport report={audit.report} />}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
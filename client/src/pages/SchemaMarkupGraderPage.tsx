@@ -21,7 +21,7 @@ import PillarPageNav from '@/components/PillarPageNav'
 import SchemaScore from '@/components/SchemaScore'
 import FAQItem from '@/components/FAQItem'
 import Footer from '@/components/Footer'
-import { calculateSchemaScore } from '@/utils/calculateSchemaScore'
+import { calculateSchemaScore } from '@shared/utils'
 import type { SchemaScore as SchemaScoreType } from '@shared/types'
 
 type InputMethod = 'code' | 'url'
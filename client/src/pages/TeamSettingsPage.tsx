@@ -20,6 +20,8 @@ import { cn } from '@/utils/cn'
 import { toast } from 'react-hot-toast'
 import ConfirmModal from '@/components/ConfirmModal'
 import OrganizationNameModal from '@/components/OrganizationNameModal'
+import TeamApiKeysSection from '@/components/TeamApiKeysSection'
+import TeamWebhooksSection from '@/components/TeamWebhooksSection'
 
 export default function TeamSettingsPage() {
   const navigate = useNavigate()
@@ -565,6 +567,12 @@ export default function TeamSettingsPage() {
         </div>
       )}
 
+      {/* API Keys - visible to all members, managed by owners */}
+      <TeamApiKeysSection isOwner={isTeamOwner} />
+
+      {/* Webhooks - visible to all members, managed by owners */}
+      <TeamWebhooksSection isOwner={isTeamOwner} />
+
       {/* Leave Team Section - Only for non-owners */}
       {!isTeamOwner && (
         <div className="bg-card rounded-lg border border-destructive/50 p-6">
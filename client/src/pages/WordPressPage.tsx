@@ -0,0 +1,452 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useAuth } from '@clerk/clerk-react'
+import { wordpressApi } from '@/services/wordpress'
+import { Loader2, CheckCircle, XCircle, AlertCircle, Trash2, Plus, X, Globe } from 'lucide-react'
+import toast from 'react-hot-toast'
+import ConfirmModal from '@/components/ConfirmModal'
+import WordPressSyncHistory from '@/components/WordPressSyncHistory'
+import type { CreateWordPressConnectionRequest, WordPressSchemaInjection } from 'aeo-schema-generator-shared/types'
+
+const INJECTION_METHOD_LABELS: Record<WordPressSchemaInjection, string> = {
+  post_meta: 'JSON-LD meta field',
+  head_block: 'Head HTML meta field'
+}
+
+const EMPTY_CONNECT_FORM: CreateWordPressConnectionRequest = {
+  siteUrl: '',
+  username: '',
+  applicationPassword: '',
+  injectionMethod: 'post_meta',
+  metaKey: ''
+}
+
+export default function WordPressPage() {
+  const queryClient = useQueryClient()
+  const { isLoaded } = useAuth()
+  const [connectForm, setConnectForm] = useState<CreateWordPressConnectionRequest>(EMPTY_CONNECT_FORM)
+  const [validatingId, setValidatingId] = useState<string | null>(null)
+  const [newDomain, setNewDomain] = useState<{ [key: string]: string }>({})
+  const [showAddDomain, setShowAddDomain] = useState<{ [key: string]: boolean }>({})
+  const [disconnectModal, setDisconnectModal] = useState<{ isOpen: boolean; connectionId: string | null; siteName?: string }>({
+    isOpen: false,
+    connectionId: null,
+    siteName: undefined
+  })
+
+  // Fetch connections - Wait for Clerk to load before firing
+  const { data: connectionsResponse, isLoading, error } = useQuery({
+    queryKey: ['wordpress-connections'],
+    queryFn: () => wordpressApi.getConnections(),
+    enabled: isLoaded
+  })
+
+  const connections = connectionsResponse?.data || []
+
+  // Connect mutation
+  const connectMutation = useMutation({
+    mutationFn: (request: CreateWordPressConnectionRequest) => wordpressApi.createConnection({
+      ...request,
+      metaKey: request.metaKey?.trim() || undefined
+    }),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['wordpress-connections'] })
+      toast.success(`Connected ${data.data?.siteName || data.data?.siteUrl || 'WordPress site'}`)
+      setConnectForm(EMPTY_CONNECT_FORM)
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || 'Failed to connect WordPress site')
+    }
+  })
+
+  // Add domain mutation
+  const addDomainMutation = useMutation({
+    mutationFn: ({ connectionId, domain }: { connectionId: string; domain: string }) =>
+      wordpressApi.addDomainToConnection(connectionId, domain),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['wordpress-connections'] })
+      toast.success('Domain added successfully')
+      setNewDomain({})
+      setShowAddDomain({})
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || 'Failed to add domain')
+    }
+  })
+
+  // Remove domain mutation
+  const removeDomainMutation = useMutation({
+    mutationFn: ({ connectionId, domain }: { connectionId: string; domain: string }) =>
+      wordpressApi.removeDomainFromConnection(connectionId, domain),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['wordpress-connections'] })
+      toast.success('Domain removed successfully')
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || 'Failed to remove domain')
+    }
+  })
+
+  // Disconnect mutation
+  const disconnectMutation = useMutation({
+    mutationFn: (connectionId: string) => wordpressApi.disconnectSite(connectionId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['wordpress-connections'] })
+      toast.success('WordPress site disconnected successfully')
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || 'Failed to disconnect site')
+    }
+  })
+
+  // Validate mutation
+  const validateMutation = useMutation({
+    mutationFn: (connectionId: string) => wordpressApi.validateConnection(connectionId),
+    onSuccess: (data) => {
+      if (data.data?.isValid) {
+        toast.success('Connection is valid!')
+        queryClient.invalidateQueries({ queryKey: ['wordpress-connections'] })
+      } else {
+        toast.error('Connection is invalid. Check the application password.')
+      }
+      setValidatingId(null)
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || 'Failed to validate connection')
+      setValidatingId(null)
+    }
+  })
+
+  const handleConnect = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!connectForm.siteUrl.trim() || !connectForm.username.trim() || !connectForm.applicationPassword.trim()) {
+      toast.error('Site URL, username and application password are required')
+      return
+    }
+    connectMutation.mutate(connectForm)
+  }
+
+  const handleValidate = (connectionId: string) => {
+    setValidatingId(connectionId)
+    validateMutation.mutate(connectionId)
+  }
+
+  const confirmDisconnect = () => {
+    if (disconnectModal.connectionId) {
+      disconnectMutation.mutate(disconnectModal.connectionId)
+    }
+  }
+
+  const handleAddDomain = (connectionId: string) => {
+    const domain = newDomain[connectionId]?.trim()
+    if (!domain) {
+      toast.error('Please enter a domain')
+      return
+    }
+    addDomainMutation.mutate({ connectionId, domain })
+  }
+
+  const handleRemoveDomain = (connectionId: string, domain: string, siteName?: string) => {
+    if (confirm(`Remove ${domain} from ${siteName || 'this site'}?`)) {
+      removeDomainMutation.mutate({ connectionId, domain })
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-5xl mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold mb-2">WordPress Integration</h1>
+          <p className="text-muted-foreground">
+            Connect a WordPress site with an application password to push schema markup to your posts and pages.
+          </p>
+        </div>
+
+        {/* Setup notes */}
+        <div className="mb-8 bg-info border border-info rounded-lg p-6">
+          <h3 className="font-semibold mb-3 flex items-center text-info-foreground">
+            <AlertCircle className="h-5 w-5 mr-2" />
+            Before You Connect
+          </h3>
+          <div className="space-y-2 text-sm text-info-foreground">
+            <p>
+              1. <strong>Application password:</strong> Create one under Users → Profile → Application Passwords (WordPress 5.6+). The site must use HTTPS.
+            </p>
+            <p>
+              2. <strong>Meta field:</strong> Schema is saved to a post meta field. Your theme or SEO plugin must register it with <code>show_in_rest</code> and print it in the page head.
+            </p>
+            <p>
+              3. <strong>Push:</strong> Click "Push to WordPress" in your library to add schema to the matching post or page.
+            </p>
+          </div>
+        </div>
+
+        {/* Connect Form */}
+        <form onSubmit={handleConnect} className="mb-8 bg-card border border-border rounded-lg p-6 space-y-4">
+          <h2 className="text-xl font-semibold">Connect a Site</h2>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="block">
+              <span className="text-sm font-medium">Site URL</span>
+              <input
+                type="url"
+                placeholder="https://example.com"
+                value={connectForm.siteUrl}
+                onChange={(e) => setConnectForm({ ...connectForm, siteUrl: e.target.value })}
+                className="mt-1 w-full px-3 py-2 text-sm border border-border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+            </label>
+
+            <label className="block">
+              <span className="text-sm font-medium">Username</span>
+              <input
+                type="text"
+                autoComplete="off"
+                value={connectForm.username}
+                onChange={(e) => setConnectForm({ ...connectForm, username: e.target.value })}
+                className="mt-1 w-full px-3 py-2 text-sm border border-border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+            </label>
+
+            <label className="block">
+              <span className="text-sm font-medium">Application Password</span>
+              <input
+                type="password"
+                autoComplete="new-password"
+                placeholder="xxxx xxxx xxxx xxxx xxxx xxxx"
+                value={connectForm.applicationPassword}
+                onChange={(e) => setConnectForm({ ...connectForm, applicationPassword: e.target.value })}
+                className="mt-1 w-full px-3 py-2 text-sm border border-border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+            </label>
+
+            <label className="block">
+              <span className="text-sm font-medium">Schema Storage</span>
+              <select
+                value={connectForm.injectionMethod}
+                onChange={(e) => setConnectForm({ ...connectForm, injectionMethod: e.target.value as WordPressSchemaInjection })}
+                className="mt-1 w-full px-3 py-2 text-sm border border-border rounded-md bg-background"
+              >
+                {(Object.keys(INJECTION_METHOD_LABELS) as WordPressSchemaInjection[]).map((method) => (
+                  <option key={method} value={method}>{INJECTION_METHOD_LABELS[method]}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="block md:col-span-2">
+              <span className="text-sm font-medium">Meta Key (optional)</span>
+              <input
+                type="text"
+                placeholder={connectForm.injectionMethod === 'head_block' ? 'superschema_head_html' : 'superschema_json_ld'}
+                value={connectForm.metaKey}
+                onChange={(e) => setConnectForm({ ...connectForm, metaKey: e.target.value })}
+                className="mt-1 w-full px-3 py-2 text-sm font-mono border border-border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+            </label>
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={connectMutation.isPending}
+              className="px-6 py-2.5 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors font-medium disabled:opacity-50 flex items-center gap-2"
+            >
+              {connectMutation.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+              Connect WordPress Site
+            </button>
+          </div>
+        </form>
+
+        {/* Connections List */}
+        <div className="bg-card border border-border rounded-lg p-6">
+          <h2 className="text-xl font-semibold mb-4">Connected Sites</h2>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : error ? (
+            <div className="py-8 flex items-center space-x-2 text-destructive">
+              <AlertCircle className="h-5 w-5" />
+              <span className="font-semibold">Failed to load connections</span>
+            </div>
+          ) : connections.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <p className="mb-2">No WordPress sites connected yet.</p>
+              <p className="text-sm">Connect a site above to get started.</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {connections.map((connection) => (
+                <div
+                  key={connection.id}
+                  className="border border-border rounded-lg overflow-hidden"
+                >
+                  {/* Connection Header */}
+                  <div className="bg-muted/30 p-4 border-b border-border">
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1">
+                        <div className="flex items-center space-x-3 mb-2">
+                          <h3 className="font-semibold text-lg">
+                            {connection.siteName || connection.siteUrl}
+                          </h3>
+                          {connection.isActive ? (
+                            <span className="flex items-center text-xs px-2 py-1 rounded-full bg-success text-success-foreground">
+                              <CheckCircle className="h-3 w-3 mr-1" />
+                              Ready
+                            </span>
+                          ) : (
+                            <span className="flex items-center text-xs px-2 py-1 rounded-full bg-destructive text-destructive-foreground">
+                              <XCircle className="h-3 w-3 mr-1" />
+                              Inactive
+                            </span>
+                          )}
+                        </div>
+
+                        <div className="text-sm text-muted-foreground space-y-1">
+                          <p>{connection.siteUrl} · {connection.username}</p>
+                          <p>
+                            {INJECTION_METHOD_LABELS[connection.injectionMethod]}: <span className="font-mono">{connection.metaKey}</span>
+                          </p>
+                          <p>Connected: {new Date(connection.createdAt).toLocaleDateString()}</p>
+                        </div>
+                      </div>
+
+                      <div className="flex items-center space-x-2">
+                        <button
+                          onClick={() => handleValidate(connection.id)}
+                          disabled={validatingId === connection.id || validateMutation.isPending}
+                          className="px-3 py-2 text-sm border border-border rounded-md hover:bg-accent transition-colors disabled:opacity-50"
+                        >
+                          {validatingId === connection.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            'Validate'
+                          )}
+                        </button>
+
+                        <button
+                          onClick={() => setDisconnectModal({ isOpen: true, connectionId: connection.id, siteName: connection.siteName || connection.siteUrl })}
+                          disabled={disconnectMutation.isPending}
+                          className="px-3 py-2 text-sm border border-border rounded-md hover:bg-destructive hover:text-destructive-foreground transition-colors disabled:opacity-50"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+
+                  {/* Domain Management */}
+                  <div className="p-4 bg-background">
+                    <div className="mb-4">
+                      <div className="flex items-center space-x-2 mb-2">
+                        <Globe className="h-4 w-4 text-primary" />
+                        <h4 className="font-semibold text-sm">Associated Domains</h4>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Library URLs on these domains are pushed to this site.
+                      </p>
+                    </div>
+
+                    {connection.associatedDomains && connection.associatedDomains.length > 0 && (
+                      <div className="space-y-2 mb-3">
+                        {connection.associatedDomains.map((domain) => (
+                          <div
+                            key={domain}
+                            className="flex items-center justify-between bg-muted/30 border border-border rounded-md px-3 py-2"
+                          >
+                            <div className="flex items-center space-x-2">
+                              <Globe className="h-3.5 w-3.5 text-muted-foreground" />
+                              <span className="text-sm font-mono">{domain}</span>
+                            </div>
+                            <button
+                              onClick={() => handleRemoveDomain(connection.id, domain, connection.siteName)}
+                              disabled={removeDomainMutation.isPending}
+                              className="text-destructive hover:bg-destructive/10 p-1 rounded transition-colors disabled:opacity-50"
+                              title="Remove domain"
+                            >
+                              <X className="h-4 w-4" />
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {!showAddDomain[connection.id] ? (
+                      <button
+                        onClick={() => setShowAddDomain({ ...showAddDomain, [connection.id]: true })}
+                        className="w-full flex items-center justify-center space-x-2 px-4 py-3 text-sm rounded-md transition-all font-semibold bg-primary/10 text-primary border-2 border-dashed border-primary/30 hover:bg-primary/20 hover:border-primary/50"
+                      >
+                        <Plus className="h-4 w-4" />
+                        <span>Add Domain</span>
+                      </button>
+                    ) : (
+                      <div className="flex items-center space-x-2">
+                        <input
+                          type="text"
+                          placeholder="example.com"
+                          value={newDomain[connection.id] || ''}
+                          onChange={(e) => setNewDomain({ ...newDomain, [connection.id]: e.target.value })}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') {
+                              handleAddDomain(connection.id)
+                            } else if (e.key === 'Escape') {
+                              setShowAddDomain({ ...showAddDomain, [connection.id]: false })
+                              setNewDomain({ ...newDomain, [connection.id]: '' })
+                            }
+                          }}
+                          className="flex-1 px-3 py-2 text-sm border border-border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+                          autoFocus
+                        />
+                        <button
+                          onClick={() => handleAddDomain(connection.id)}
+                          disabled={addDomainMutation.isPending}
+                          className="px-4 py-2 text-sm bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50 font-medium"
+                        >
+                          {addDomainMutation.isPending ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            'Add'
+                          )}
+                        </button>
+                        <button
+                          onClick={() => {
+                            setShowAddDomain({ ...showAddDomain, [connection.id]: false })
+                            setNewDomain({ ...newDomain, [connection.id]: '' })
+                          }}
+                          className="px-3 py-2 text-sm border border-border rounded-md hover:bg-accent transition-colors"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Sync History */}
+        {connections.length > 0 && (
+          <div className="mt-6">
+            <WordPressSyncHistory />
+          </div>
+        )}
+
+        {/* Disconnect Confirmation Modal */}
+        <ConfirmModal
+          isOpen={disconnectModal.isOpen}
+          onClose={() => setDisconnectModal({ isOpen: false, connectionId: null, siteName: undefined })}
+          onConfirm={confirmDisconnect}
+          title="Disconnect WordPress Site"
+          message={`Are you sure you want to disconnect ${disconnectModal.siteName || 'this WordPress site'}? Revoke the application password in WordPress to remove access completely.`}
+          confirmText="Disconnect"
+          cancelText="Cancel"
+          variant="danger"
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,289 @@
+import { useEffect, useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { Bot, Plus, Trash2, Power, PowerOff, History, Upload } from 'lucide-react'
+import { toast } from 'react-hot-toast'
+import { ga4Api, type AIPlatformDefinition, type AIReferrerField, type AIReferrerPatternType } from '@/services/ga4'
+import { AI_REFERRER_CATALOG_KEY } from '@/hooks/useGA4AIReferrerPatterns'
+import {
+  AI_REFERRER_FIELD_LABELS,
+  AI_REFERRER_PATTERN_TYPE_LABELS
+} from '@/components/ga4/GA4AIReferrerPatternManager'
+
+// Comma-separated editing for domain and utm_source lists
+const toListText = (values: string[]) => values.join(', ')
+const fromListText = (text: string) => text.split(',').map(v => v.trim()).filter(Boolean)
+
+// Stable keys so the uncontrolled list inputs survive removals
+type DraftPlatform = AIPlatformDefinition & { key: number }
+let nextDraftKey = 0
+const toDraft = (platforms: AIPlatformDefinition[]): DraftPlatform[] =>
+  platforms.map(platform => ({ ...platform, key: nextDraftKey++ }))
+
+export default function AdminAIPlatforms() {
+  const queryClient = useQueryClient()
+  const [platforms, setPlatforms] = useState<DraftPlatform[]>([])
+  const [changeNote, setChangeNote] = useState('')
+  const [isDirty, setIsDirty] = useState(false)
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['admin-ai-referrer-catalog'],
+    queryFn: async () => {
+      const response = await ga4Api.getAdminAIReferrerCatalog()
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to load AI referrer catalog')
+      }
+      return response.data
+    }
+  })
+
+  // Start editing from the current version
+  useEffect(() => {
+    if (data?.current && !isDirty) {
+      setPlatforms(toDraft(data.current.platforms))
+    }
+  }, [data?.current, isDirty])
+
+  const publish = useMutation({
+    mutationFn: async () => {
+      const response = await ga4Api.publishAIReferrerCatalog(
+        platforms.map(({ key: _key, ...platform }) => platform),
+        changeNote || undefined
+      )
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to publish catalog')
+      }
+      return response.data
+    },
+    onSuccess: (catalog) => {
+      toast.success(`Published catalog version ${catalog.version}`)
+      setChangeNote('')
+      setIsDirty(false)
+      queryClient.invalidateQueries({ queryKey: ['admin-ai-referrer-catalog'] })
+      queryClient.invalidateQueries({ queryKey: [AI_REFERRER_CATALOG_KEY] })
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || error?.message || 'Failed to publish catalog')
+    }
+  })
+
+  const updatePlatform = (index: number, updates: Partial<AIPlatformDefinition>) => {
+    setPlatforms(prev => prev.map((p, i) => (i === index ? { ...p, ...updates } : p)))
+    setIsDirty(true)
+  }
+
+  const removePlatform = (index: number) => {
+    setPlatforms(prev => prev.filter((_, i) => i !== index))
+    setIsDirty(true)
+  }
+
+  const addPlatform = () => {
+    setPlatforms(prev => [...prev, ...toDraft([{ name: '', referrerDomains: [], utmSources: [], rules: [], isActive: true }])])
+    setIsDirty(true)
+  }
+
+  const resetDraft = () => {
+    setPlatforms(toDraft(data?.current.platforms || []))
+    setIsDirty(false)
+  }
+
+  const versions = data?.versions || []
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold tracking-tight">AI Platforms</h2>
+        <p className="text-muted-foreground mt-1">
+          Catalog of AI platforms detected in GA4 referral traffic. Publishing creates a new version;
+          cached metrics refresh and new snapshots record the version used.
+        </p>
+      </div>
+
+      {/* Catalog Editor */}
+      <div className="rounded-lg border border-border bg-card p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <Bot className="h-5 w-5 text-primary" />
+            <h2 className="text-xl font-semibold">
+              Catalog {data?.current ? `v${data.current.version}` : ''}
+            </h2>
+            {isDirty && <span className="text-xs text-orange-500">Unpublished changes</span>}
+          </div>
+          <button
+            onClick={addPlatform}
+            className="px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors flex items-center gap-1.5"
+          >
+            <Plus className="h-4 w-4" />
+            Add Platform
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground py-4">Loading catalog...</div>
+        ) : (
+          <div className="space-y-3">
+            {platforms.map((platform, index) => (
+              <div key={platform.key} className="rounded-md border border-border p-4 space-y-3">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    placeholder="Platform name"
+                    value={platform.name}
+                    onChange={(e) => updatePlatform(index, { name: e.target.value })}
+                    className="flex-1 px-3 py-1.5 text-sm font-medium border border-border rounded-md bg-background"
+                  />
+                  <button
+                    onClick={() => updatePlatform(index, { isActive: !platform.isActive })}
+                    className="h-8 w-8 rounded hover:bg-muted flex items-center justify-center"
+                    title={platform.isActive ? 'Disable platform' : 'Enable platform'}
+                  >
+                    {platform.isActive ? (
+                      <Power className="h-4 w-4 text-green-600" />
+                    ) : (
+                      <PowerOff className="h-4 w-4 text-muted-foreground" />
+                    )}
+                  </button>
+                  <button
+                    onClick={() => removePlatform(index)}
+                    className="h-8 w-8 rounded hover:bg-muted flex items-center justify-center text-destructive"
+                    title="Remove platform"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div>
+                    <label className="text-xs font-medium text-muted-foreground">Referrer domains</label>
+                    <input
+                      type="text"
+                      placeholder="chatgpt.com, chat.openai.com"
+                      defaultValue={toListText(platform.referrerDomains)}
+                      onBlur={(e) => updatePlatform(index, { referrerDomains: fromListText(e.target.value) })}
+                      className="w-full px-3 py-1.5 text-sm border border-border rounded-md bg-background"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs font-medium text-muted-foreground">utm_source values</label>
+                    <input
+                      type="text"
+                      placeholder="chatgpt.com"
+                      defaultValue={toListText(platform.utmSources)}
+                      onBlur={(e) => updatePlatform(index, { utmSources: fromListText(e.target.value) })}
+                      className="w-full px-3 py-1.5 text-sm border border-border rounded-md bg-background"
+                    />
+                  </div>
+                </div>
+
+                {/* Extra match rules */}
+                <div className="space-y-2">
+                  {platform.rules.map((rule, ruleIndex) => (
+                    <div key={ruleIndex} className="flex items-center gap-2">
+                      <select
+                        value={rule.field}
+                        onChange={(e) => updatePlatform(index, {
+                          rules: platform.rules.map((r, i) => (i === ruleIndex ? { ...r, field: e.target.value as AIReferrerField } : r))
+                        })}
+                        className="px-2 py-1.5 text-sm border border-border rounded-md bg-background"
+                      >
+                        {(Object.keys(AI_REFERRER_FIELD_LABELS) as AIReferrerField[]).map((field) => (
+                          <option key={field} value={field}>{AI_REFERRER_FIELD_LABELS[field]}</option>
+                        ))}
+                      </select>
+                      <select
+                        value={rule.patternType}
+                        onChange={(e) => updatePlatform(index, {
+                          rules: platform.rules.map((r, i) => (i === ruleIndex ? { ...r, patternType: e.target.value as AIReferrerPatternType } : r))
+                        })}
+                        className="px-2 py-1.5 text-sm border border-border rounded-md bg-background"
+                      >
+                        {(Object.keys(AI_REFERRER_PATTERN_TYPE_LABELS) as AIReferrerPatternType[]).map((type) => (
+                          <option key={type} value={type}>{AI_REFERRER_PATTERN_TYPE_LABELS[type]}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="text"
+                        value={rule.pattern}
+                        onChange={(e) => updatePlatform(index, {
+                          rules: platform.rules.map((r, i) => (i === ruleIndex ? { ...r, pattern: e.target.value } : r))
+                        })}
+                        className="flex-1 px-3 py-1.5 text-sm font-mono border border-border rounded-md bg-background"
+                      />
+                      <button
+                        onClick={() => updatePlatform(index, { rules: platform.rules.filter((_, i) => i !== ruleIndex) })}
+                        className="h-8 w-8 rounded hover:bg-muted flex items-center justify-center text-destructive"
+                        title="Remove rule"
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => updatePlatform(index, {
+                      rules: [...platform.rules, { field: 'referrer', patternType: 'contains', pattern: '' }]
+                    })}
+                    className="text-xs text-primary hover:underline"
+                  >
+                    + Add match rule
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="mt-6 flex flex-col md:flex-row md:items-center gap-3">
+          <input
+            type="text"
+            placeholder="Change note (e.g. Added Grok and DeepSeek)"
+            value={changeNote}
+            onChange={(e) => setChangeNote(e.target.value)}
+            maxLength={500}
+            className="flex-1 px-3 py-2 text-sm border border-border rounded-md bg-background"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={resetDraft}
+              disabled={!isDirty}
+              className="px-4 py-2 text-sm rounded-md border border-border hover:bg-muted transition-colors disabled:opacity-50"
+            >
+              Discard
+            </button>
+            <button
+              onClick={() => publish.mutate()}
+              disabled={!isDirty || publish.isPending}
+              className="px-4 py-2 text-sm bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors flex items-center gap-1.5 disabled:opacity-50"
+            >
+              <Upload className="h-4 w-4" />
+              {publish.isPending ? 'Publishing...' : 'Publish New Version'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Version History */}
+      <div className="rounded-lg border border-border bg-card p-6">
+        <div className="flex items-center gap-2 mb-4">
+          <History className="h-5 w-5 text-primary" />
+          <h2 className="text-xl font-semibold">Version History</h2>
+        </div>
+        {versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No published versions yet</p>
+        ) : (
+          <div className="space-y-2">
+            {versions.map((version) => (
+              <div key={version.version} className="flex items-center justify-between py-2 px-3 rounded-md bg-muted/20">
+                <div>
+                  <span className="text-sm font-semibold">v{version.version}</span>
+                  <span className="text-sm text-muted-foreground ml-3">{version.changeNote || 'No change note'}</span>
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {version.platforms.filter(p => p.isActive).length} active platforms • {new Date(version.createdAt).toLocaleDateString()}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
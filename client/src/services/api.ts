@@ -26,7 +26,32 @@ import type {
   CreateOrganizationRequest,
   UpdateOrganizationRequest,
   OrganizationCompleteness,
-  GetOrganizationResponse
+  GetOrganizationResponse,
+  TeamApiKey,
+  CreatedApiKey,
+  CreateApiKeyRequest,
+  UpdateApiKeyRequest,
+  TeamWebhookEndpoint,
+  CreatedWebhookEndpoint,
+  CreateWebhookEndpointRequest,
+  UpdateWebhookEndpointRequest,
+  WebhookDelivery,
+  BatchJob,
+  BatchJobDetails,
+  CreateBatchJobRequest,
+  DomainDriftSummary,
+  SchemaDriftStatus,
+  SchemaDriftDetails,
+  CrawlOptions,
+  CrawlSource,
+  SiteCrawl,
+  CrawlDiff,
+  SchemaExportFormat,
+  SchemaOutputMode,
+  ClientReportFormat,
+  ClientReportPeriod,
+  SchemaAudit,
+  SchemaAuditExportFormat
 } from '@shared/types'
 
 // In production, API is served from same origin as the client (supports both superschema.ai and www.superschema.ai)
@@ -203,6 +228,42 @@ class ApiService {
     return response.data
   }
 
+  // Batch generation job endpoints (persisted, processed server-side)
+  async createBatchJob(request: CreateBatchJobRequest): Promise<ApiResponse<BatchJob>> {
+    const response = await api.post('/schema/batch-jobs', request)
+    return response.data
+  }
+
+  async listBatchJobs(): Promise<ApiResponse<BatchJob[]>> {
+    const response = await api.get('/schema/batch-jobs')
+    return response.data
+  }
+
+  async getBatchJob(jobId: string): Promise<ApiResponse<BatchJobDetails>> {
+    const response = await api.get(`/schema/batch-jobs/${jobId}`)
+    return response.data
+  }
+
+  async pauseBatchJob(jobId: string): Promise<ApiResponse<BatchJob>> {
+    const response = await api.post(`/schema/batch-jobs/${jobId}/pause`)
+    return response.data
+  }
+
+  async resumeBatchJob(jobId: string): Promise<ApiResponse<BatchJob>> {
+    const response = await api.post(`/schema/batch-jobs/${jobId}/resume`)
+    return response.data
+  }
+
+  async cancelBatchJob(jobId: string): Promise<ApiResponse<BatchJob>> {
+    const response = await api.post(`/schema/batch-jobs/${jobId}/cancel`)
+    return response.data
+  }
+
+  async retryBatchJob(jobId: string): Promise<ApiResponse<BatchJob>> {
+    const response = await api.post(`/schema/batch-jobs/${jobId}/retry`)
+    return response.data
+  }
+
   async validateSchema(schema: JsonLdSchema, strict = false): Promise<ApiResponse<{
     isValid: boolean
     errors: any[]
@@ -390,22 +451,23 @@ class ApiService {
   }
 
   // Crawler endpoints
-  async discoverUrls(domain: string): Promise<ApiResponse<{
+  async discoverUrls(domain: string, options?: CrawlOptions): Promise<ApiResponse<{
     crawlId: string
-    urls: Array<{ url: string; path: string; depth: number }>
+    urls: Array<{ url: string; path: string; depth: number; source: CrawlSource; foundOn?: string }>
     totalFound: number
     status: string
     hasMore: boolean
   }>> {
     const response = await api.post('/crawler/discover', {
-      domain
+      domain,
+      options
     })
     return response.data
   }
 
   async getCrawlResults(crawlId: string): Promise<ApiResponse<{
     crawlId: string
-    urls: Array<{ url: string; path: string; depth: number }>
+    urls: Array<{ url: string; path: string; depth: number; source: CrawlSource; foundOn?: string }>
     totalFound: number
     status: string
     hasMore: boolean
@@ -416,7 +478,7 @@ class ApiService {
 
   async getCachedCrawl(domain: string): Promise<ApiResponse<{
     crawlId: string
-    urls: Array<{ url: string; path: string; depth: number }>
+    urls: Array<{ url: string; path: string; depth: number; source: CrawlSource; foundOn?: string }>
     totalFound: number
     status: string
     cached: boolean
@@ -425,6 +487,16 @@ class ApiService {
     return response.data
   }
 
+  async getCrawlHistory(domain: string): Promise<ApiResponse<SiteCrawl[]>> {
+    const response = await api.get(`/crawler/history/${encodeURIComponent(domain)}`)
+    return response.data
+  }
+
+  async getCrawlDiff(fromCrawlId: string, toCrawlId: string): Promise<ApiResponse<CrawlDiff>> {
+    const response = await api.get(`/crawler/diff/${fromCrawlId}/${toCrawlId}`)
+    return response.data
+  }
+
   // URL Library endpoints
   async getUserDomains(): Promise<ApiResponse<UserDomain[]>> {
     const response = await api.get('/library/domains')
@@ -461,6 +533,56 @@ class ApiService {
     return response.data
   }
 
+  async updateDomainEmbed(domainId: string, enabled: boolean): Promise<ApiResponse<UserDomain>> {
+    const response = await api.put(`/library/domains/${domainId}/embed`, { enabled })
+    return response.data
+  }
+
+  async rotateDomainEmbedKey(domainId: string): Promise<ApiResponse<UserDomain>> {
+    const response = await api.post(`/library/domains/${domainId}/embed/rotate`)
+    return response.data
+  }
+
+  async exportDomainSchemas(domainId: string, format: SchemaExportFormat, outputMode: SchemaOutputMode = 'flat'): Promise<Blob> {
+    const response = await api.get(`/library/domains/${domainId}/export`, {
+      params: { format, outputMode },
+      responseType: 'blob'
+    })
+    return response.data
+  }
+
+  async downloadClientReport(domainId: string, format: ClientReportFormat, days: ClientReportPeriod): Promise<Blob> {
+    const response = await api.get(`/library/domains/${domainId}/report`, {
+      params: { format, days },
+      responseType: 'blob'
+    })
+    return response.data
+  }
+
+  // Schema audits
+  async startSchemaAudit(domain: string, maxPages?: number): Promise<ApiResponse<SchemaAudit>> {
+    const response = await api.post('/audits', { domain, maxPages })
+    return response.data
+  }
+
+  async listSchemaAudits(): Promise<ApiResponse<SchemaAudit[]>> {
+    const response = await api.get('/audits')
+    return response.data
+  }
+
+  async getSchemaAudit(auditId: string): Promise<ApiResponse<SchemaAudit>> {
+    const response = await api.get(`/audits/${auditId}`)
+    return response.data
+  }
+
+  async exportSchemaAudit(auditId: string, format: SchemaAuditExportFormat): Promise<Blob> {
+    const response = await api.get(`/audits/${auditId}/export`, {
+      params: { format },
+      responseType: 'blob'
+    })
+    return response.data
+  }
+
   async getUrlSchema(urlId: string): Promise<ApiResponse<any>> {
     const response = await api.get(`/library/urls/${urlId}/schema`)
     return response.data
@@ -481,6 +603,20 @@ class ApiService {
     return response.data
   }
 
+  async getDriftSummary(): Promise<ApiResponse<DomainDriftSummary[]>> {
+    const response = await api.get('/library/drift-summary')
+    return response.data
+  }
+
+  async checkUrlDrift(urlId: string): Promise<ApiResponse<{
+    urlId: string
+    status: SchemaDriftStatus
+    details: SchemaDriftDetails
+  }>> {
+    const response = await api.post(`/library/urls/${urlId}/drift-check`)
+    return response.data
+  }
+
   async deleteSchemaType(schemaId: string): Promise<ApiResponse<{ message: string }>> {
     const response = await api.delete(`/schema/${schemaId}`)
     return response.data
@@ -803,6 +939,68 @@ class ApiService {
     return response.data
   }
 
+  // Team API key endpoints
+  async listApiKeys(): Promise<ApiResponse<TeamApiKey[]>> {
+    const response = await api.get('/team/api-keys')
+    return response.data
+  }
+
+  async createApiKey(data: CreateApiKeyRequest): Promise<ApiResponse<CreatedApiKey>> {
+    const response = await api.post('/team/api-keys', data)
+    return response.data
+  }
+
+  async updateApiKey(keyId: string, data: UpdateApiKeyRequest): Promise<ApiResponse<TeamApiKey>> {
+    const response = await api.patch(`/team/api-keys/${keyId}`, data)
+    return response.data
+  }
+
+  async rotateApiKey(keyId: string): Promise<ApiResponse<CreatedApiKey>> {
+    const response = await api.post(`/team/api-keys/${keyId}/rotate`)
+    return response.data
+  }
+
+  async revokeApiKey(keyId: string): Promise<ApiResponse<{ message: string }>> {
+    const response = await api.delete(`/team/api-keys/${keyId}`)
+    return response.data
+  }
+
+  // Team webhook endpoints
+  async listWebhooks(): Promise<ApiResponse<TeamWebhookEndpoint[]>> {
+    const response = await api.get('/team/webhooks')
+    return response.data
+  }
+
+  async createWebhook(data: CreateWebhookEndpointRequest): Promise<ApiResponse<CreatedWebhookEndpoint>> {
+    const response = await api.post('/team/webhooks', data)
+    return response.data
+  }
+
+  async updateWebhook(endpointId: string, data: UpdateWebhookEndpointRequest): Promise<ApiResponse<TeamWebhookEndpoint>> {
+    const response = await api.patch(`/team/webhooks/${endpointId}`, data)
+    return response.data
+  }
+
+  async rotateWebhookSecret(endpointId: string): Promise<ApiResponse<CreatedWebhookEndpoint>> {
+    const response = await api.post(`/team/webhooks/${endpointId}/rotate`)
+    return response.data
+  }
+
+  async deleteWebhook(endpointId: string): Promise<ApiResponse<{ message: string }>> {
+    const response = await api.delete(`/team/webhooks/${endpointId}`)
+    return response.data
+  }
+
+  async testWebhook(endpointId: string): Promise<ApiResponse<WebhookDelivery>> {
+    const response = await api.post(`/team/webhooks/${endpointId}/test`)
+    return response.data
+  }
+
+  async listWebhookDeliveries(endpointId: string, limit: number = 20): Promise<ApiResponse<WebhookDelivery[]>> {
+    const response = await api.get(`/team/webhooks/${endpointId}/deliveries`, { params: { limit } })
+    return response.data
+  }
+
   // Organization endpoints
   async listOrganizations(): Promise<ApiResponse<Array<Organization & { completeness: OrganizationCompleteness }>>> {
     const response = await api.get('/organizations')
@@ -0,0 +1,100 @@
+/**
+ * Crawler Logs API Service
+ * Client-side API calls for AI crawler hits ingested from server access logs
+ */
+
+import { api } from './api'
+import type {
+  ApiResponse,
+  CrawlerLogFormat,
+  CrawlerLogIngestResult,
+  CrawlerLogSource
+} from 'aeo-schema-generator-shared/types'
+import type { CrawlerStats, PageCrawlerInfo } from './ga4'
+
+export interface CrawlerLogStats extends CrawlerStats {
+  verifiedHits: number
+}
+
+/**
+ * Same table shapes as GA4 metrics - log hits have no sessions, so sessions and
+ * page views both count requests
+ */
+export interface CrawlerLogMetrics {
+  domain: string
+  dateRangeStart: string
+  dateRangeEnd: string
+  totalHits: number
+  verifiedHits: number
+  spoofedHits: number
+  crawlerList: string[]
+  topCrawlers: CrawlerLogStats[]
+  topPages: PageCrawlerInfo[]
+  lastReceivedAt?: string
+}
+
+export const crawlerLogsApi = {
+  /**
+   * List log sources
+   */
+  listSources: async (): Promise<ApiResponse<CrawlerLogSource[]>> => {
+    const response = await api.get('/crawler-logs/sources')
+    return response.data
+  },
+
+  /**
+   * Create the log source for a domain (returns the existing one if there is one)
+   */
+  createSource: async (domain: string): Promise<ApiResponse<CrawlerLogSource>> => {
+    const response = await api.post('/crawler-logs/sources', { domain })
+    return response.data
+  },
+
+  /**
+   * Delete a log source and its hits
+   */
+  deleteSource: async (sourceId: string): Promise<ApiResponse<void>> => {
+    const response = await api.delete(`/crawler-logs/sources/${sourceId}`)
+    return response.data
+  },
+
+  /**
+   * Upload an access log file - the format is detected unless given
+   */
+  uploadLog: async (
+    sourceId: string,
+    file: Blob,
+    format?: CrawlerLogFormat
+  ): Promise<ApiResponse<CrawlerLogIngestResult>> => {
+    const response = await api.post(`/crawler-logs/sources/${sourceId}/upload`, file, {
+      params: format ? { format } : undefined,
+      headers: { 'Content-Type': 'text/plain' }
+    })
+    return response.data
+  },
+
+  /**
+   * AI crawler tables for a domain from ingested logs (null without a log source)
+   */
+  getMetrics: async (
+    domain: string,
+    startDate: string,
+    endDate: string
+  ): Promise<ApiResponse<CrawlerLogMetrics | null>> => {
+    const response = await api.get('/crawler-logs/metrics', {
+      params: {
+        domain,
+        startDate,
+        endDate
+      }
+    })
+    return response.data
+  }
+}
+
+/**
+ * Public URL log drains post to
+ */
+export function getIngestUrl(ingestKey: string): string {
+  return `${new URL(api.defaults.baseURL!).origin}/ingest/crawler-logs/${ingestKey}`
+}
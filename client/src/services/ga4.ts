@@ -86,6 +86,7 @@ export interface ActivitySnapshot {
   aiCrawledPages: number
   totalActivePages: number
   crawlerList: string[]
+  catalogVersion?: number | null // AI referrer catalog version that produced the snapshot
 }
 
 export type ExclusionPatternType = 'exact' | 'prefix' | 'suffix' | 'regex'
@@ -104,6 +105,172 @@ export interface ExclusionPattern {
   createdBy: string | null
 }
 
+export type AIReferrerField = 'referrer' | 'source' | 'any'
+export type AIReferrerPatternType = 'domain' | 'exact' | 'contains' | 'regex'
+
+export interface AIReferrerRule {
+  field: AIReferrerField
+  patternType: AIReferrerPatternType
+  pattern: string
+}
+
+export interface AIPlatformDefinition {
+  name: string
+  referrerDomains: string[]
+  utmSources: string[]
+  rules: AIReferrerRule[]
+  isActive: boolean
+}
+
+export interface AIReferrerCatalog {
+  version: number
+  platforms: AIPlatformDefinition[]
+  changeNote: string | null
+  createdBy: string | null
+  createdAt: string
+}
+
+/**
+ * Private AI referrer pattern for a domain mapping (checked before the catalog)
+ */
+export interface AIReferrerPattern extends AIReferrerRule {
+  id: string
+  mappingId: string
+  platformName: string
+  description: string | null
+  isActive: boolean
+  createdAt: string
+  createdBy: string | null
+}
+
+/**
+ * Schema impact: AI referral traffic before vs. after schema went live on a page
+ */
+export type SchemaImpactWindowDays = 7 | 14 | 28
+export type SchemaImpactStatus = 'complete' | 'in_progress' | 'too_old'
+
+export interface SchemaDeployment {
+  urlId: string
+  url: string
+  path: string
+  deployedAt: string
+  source: 'cms_push' | 'generation'
+}
+
+export interface SchemaImpactWindow {
+  startDate: string
+  endDate: string
+  days: number
+  aiSessions: number
+  sessionsPerDay: number
+  aiPlatforms: string[]
+}
+
+export interface SchemaImpactGroup {
+  pages: number
+  beforeSessionsPerPageDay: number
+  afterSessionsPerPageDay: number
+  sessionsChangePercentage: number | null
+  averagePlatformsChange: number
+}
+
+export interface PageSchemaImpact {
+  deployment: SchemaDeployment
+  windowDays: number
+  status: SchemaImpactStatus
+  before: SchemaImpactWindow | null
+  after: SchemaImpactWindow | null
+  sessionsChangePercentage: number | null
+  platformsChange: number
+  control: SchemaImpactGroup | null
+  liftPercentage: number | null
+}
+
+export interface SchemaImpactRollup {
+  windowDays: number
+  pagesWithSchema: number
+  pagesComplete: number
+  pagesInProgress: number
+  pagesTooOld: number
+  schemaPages: SchemaImpactGroup
+  control: SchemaImpactGroup | null
+  liftPercentage: number | null
+  pages: PageSchemaImpact[]
+}
+
+/**
+ * Portfolio: one row per mapped domain, built from stored metrics and snapshots
+ */
+export type PortfolioPeriodDays = 7 | 30 | 90
+export type PortfolioAlertStatus = 'ok' | 'declining' | 'stale' | 'no_data'
+
+export interface PortfolioEntry {
+  mappingId: string
+  domain: string
+  propertyId: string
+  propertyName: string
+  score: number | null
+  scoreRefreshedAt: string | null
+  averageScore: number | null
+  previousAverageScore: number | null
+  scoreChange: number | null
+  aiSessions: number
+  previousAiSessions: number
+  sessionsChangePercentage: number | null
+  platforms: string[]
+  sparkline: Array<{ date: string; score: number }>
+  lastSnapshotDate: string | null
+  alertStatus: PortfolioAlertStatus
+}
+
+export type PortfolioMover = Pick<PortfolioEntry, 'mappingId' | 'domain' | 'score' | 'scoreChange'>
+
+export interface GA4Portfolio {
+  periodDays: number
+  generatedAt: string
+  entries: PortfolioEntry[]
+  movers: {
+    gainers: PortfolioMover[]
+    decliners: PortfolioMover[]
+  }
+}
+
+/**
+ * Alert rules per domain mapping and alert history
+ */
+export type GA4AlertRuleType = 'score_drop' | 'page_lost_ai_referrals' | 'new_ai_platform' | 'token_refresh_failed'
+
+export interface GA4AlertRule {
+  id: string | null // null until changed from the defaults
+  mappingId: string
+  ruleType: GA4AlertRuleType
+  threshold: number | null
+  isEnabled: boolean
+  notifyInApp: boolean
+  notifyEmail: boolean
+  isMuted: boolean
+  mutedUntil: string | null // null with isMuted = muted until unmuted
+}
+
+export type GA4AlertRuleUpdate = Partial<Pick<
+  GA4AlertRule,
+  'threshold' | 'isEnabled' | 'notifyInApp' | 'notifyEmail' | 'isMuted' | 'mutedUntil'
+>>
+
+export interface GA4AlertEvent {
+  id: string
+  mappingId: string
+  ruleType: GA4AlertRuleType
+  title: string
+  message: string
+  details: Record<string, any>
+  dedupeKey: string
+  notifiedInApp: boolean
+  notifiedEmail: boolean
+  emailError: string | null
+  createdAt: string
+}
+
 /**
  * GA4-specific API response types
  * These match the actual backend response structure where data is at root level
@@ -144,6 +311,28 @@ export interface GA4ExclusionsResponse extends GA4BaseResponse {
   patterns: ExclusionPattern[]
 }
 
+export interface GA4AIReferrerPatternsResponse extends GA4BaseResponse {
+  patterns: AIReferrerPattern[]
+}
+
+export interface GA4PortfolioResponse extends GA4BaseResponse {
+  portfolio: GA4Portfolio
+}
+
+export interface GA4AlertRulesResponse extends GA4BaseResponse {
+  rules: GA4AlertRule[]
+  emailAvailable: boolean
+}
+
+export interface GA4AlertHistoryResponse extends GA4BaseResponse {
+  alerts: GA4AlertEvent[]
+}
+
+export interface GA4SchemaImpactResponse<T> extends GA4BaseResponse {
+  impact: T | null
+  note?: string
+}
+
 export const ga4Api = {
   /**
    * Get OAuth authorization URL
@@ -312,6 +501,45 @@ export const ga4Api = {
     return response.data
   },
 
+  /**
+   * Get the portfolio of all mapped domains
+   */
+  getPortfolio: async (days: PortfolioPeriodDays): Promise<GA4PortfolioResponse> => {
+    const response = await api.get('/ga4/portfolio', {
+      params: { days }
+    })
+    return response.data
+  },
+
+  /**
+   * Get the schema impact rollup for a domain mapping
+   */
+  getSchemaImpact: async (
+    mappingId: string,
+    windowDays: SchemaImpactWindowDays
+  ): Promise<GA4SchemaImpactResponse<SchemaImpactRollup>> => {
+    const response = await api.get('/ga4/schema-impact', {
+      params: {
+        mappingId,
+        windowDays
+      }
+    })
+    return response.data
+  },
+
+  /**
+   * Get the schema impact of a single library URL
+   */
+  getUrlSchemaImpact: async (
+    urlId: string,
+    windowDays: SchemaImpactWindowDays
+  ): Promise<GA4SchemaImpactResponse<PageSchemaImpact>> => {
+    const response = await api.get(`/ga4/schema-impact/urls/${urlId}`, {
+      params: { windowDays }
+    })
+    return response.data
+  },
+
   /**
    * List exclusion patterns for a domain mapping
    */
@@ -379,5 +607,104 @@ export const ga4Api = {
       isActive
     })
     return response.data
+  },
+
+  /**
+   * Get the current AI referrer catalog
+   */
+  getAIReferrerCatalog: async (): Promise<ApiResponse<AIReferrerCatalog>> => {
+    const response = await api.get('/ga4/ai-referrer-catalog')
+    return response.data
+  },
+
+  /**
+   * List private AI referrer patterns for a domain mapping
+   */
+  listAIReferrerPatterns: async (mappingId: string): Promise<GA4AIReferrerPatternsResponse> => {
+    const response = await api.get(`/ga4/domain-mapping/${mappingId}/ai-patterns`)
+    return response.data
+  },
+
+  /**
+   * Create a private AI referrer pattern
+   */
+  createAIReferrerPattern: async (
+    mappingId: string,
+    data: AIReferrerRule & { platformName: string; description?: string }
+  ): Promise<ApiResponse<{ patternId: string; message: string }>> => {
+    const response = await api.post(`/ga4/domain-mapping/${mappingId}/ai-patterns`, data)
+    return response.data
+  },
+
+  /**
+   * Update (or enable/disable) a private AI referrer pattern
+   */
+  updateAIReferrerPattern: async (
+    mappingId: string,
+    patternId: string,
+    updates: Partial<AIReferrerRule> & { platformName?: string; description?: string; isActive?: boolean }
+  ): Promise<ApiResponse<{ message: string }>> => {
+    const response = await api.patch(`/ga4/domain-mapping/${mappingId}/ai-patterns/${patternId}`, updates)
+    return response.data
+  },
+
+  /**
+   * Delete a private AI referrer pattern
+   */
+  deleteAIReferrerPattern: async (
+    mappingId: string,
+    patternId: string
+  ): Promise<ApiResponse<{ message: string }>> => {
+    const response = await api.delete(`/ga4/domain-mapping/${mappingId}/ai-patterns/${patternId}`)
+    return response.data
+  },
+
+  /**
+   * List the alert rules of a domain mapping
+   */
+  listAlertRules: async (mappingId: string): Promise<GA4AlertRulesResponse> => {
+    const response = await api.get(`/ga4/domain-mapping/${mappingId}/alert-rules`)
+    return response.data
+  },
+
+  /**
+   * Update an alert rule (threshold, channels, enable/disable, mute)
+   */
+  updateAlertRule: async (
+    mappingId: string,
+    ruleType: GA4AlertRuleType,
+    updates: GA4AlertRuleUpdate
+  ): Promise<GA4BaseResponse & { rule: GA4AlertRule }> => {
+    const response = await api.patch(`/ga4/domain-mapping/${mappingId}/alert-rules/${ruleType}`, updates)
+    return response.data
+  },
+
+  /**
+   * Get alert history - all domains, or one domain mapping
+   */
+  getAlertHistory: async (mappingId?: string, limit?: number): Promise<GA4AlertHistoryResponse> => {
+    const response = await api.get('/ga4/alerts', {
+      params: { mappingId, limit }
+    })
+    return response.data
+  },
+
+  /**
+   * Admin: current AI referrer catalog and version history
+   */
+  getAdminAIReferrerCatalog: async (): Promise<ApiResponse<{ current: AIReferrerCatalog; versions: AIReferrerCatalog[] }>> => {
+    const response = await api.get('/admin/ai-referrer-catalog')
+    return response.data
+  },
+
+  /**
+   * Admin: publish a new AI referrer catalog version
+   */
+  publishAIReferrerCatalog: async (
+    platforms: AIPlatformDefinition[],
+    changeNote?: string
+  ): Promise<ApiResponse<AIReferrerCatalog>> => {
+    const response = await api.post('/admin/ai-referrer-catalog', { platforms, changeNote })
+    return response.data
   }
 }
@@ -10,6 +10,10 @@ import type {
   HubSpotPage,
   HubSpotContentMatchResult,
   PushSchemaToHubSpotRequest,
+  HubSpotBulkPushRequest,
+  HubSpotBulkPushResult,
+  HubSpotDraftStatus,
+  PublishHubSpotDraftRequest,
   ApiResponse
 } from 'aeo-schema-generator-shared/types'
 
@@ -114,6 +118,16 @@ export const hubspotApi = {
     return response.data
   },
 
+  /**
+   * List landing pages for connected portal
+   */
+  listLandingPages: async (connectionId: string): Promise<ApiResponse<HubSpotPage[]>> => {
+    const response = await api.get('/hubspot/content/landing-pages', {
+      params: { connectionId }
+    })
+    return response.data
+  },
+
   /**
    * Match URL to HubSpot content
    */
@@ -134,11 +148,60 @@ export const hubspotApi = {
     syncJobId: string
     contentId: string
     contentType: string
+    published: boolean
+    publishError?: string
   }>> => {
     const response = await api.post('/hubspot/sync/push', request)
     return response.data
   },
 
+  /**
+   * Pushed pages whose draft SuperSchema markup is not live yet
+   */
+  getDraftStatus: async (connectionId: string): Promise<ApiResponse<HubSpotDraftStatus[]>> => {
+    const response = await api.get('/hubspot/content/draft-status', {
+      params: { connectionId }
+    })
+    return response.data
+  },
+
+  /**
+   * Push a page or landing page draft live, or schedule it
+   */
+  publishDraft: async (request: PublishHubSpotDraftRequest): Promise<ApiResponse> => {
+    const response = await api.post('/hubspot/content/publish', request)
+    return response.data
+  },
+
+  /**
+   * Dry run of a bulk push: head HTML before and after for each matched page
+   */
+  previewBulkPush: async (request: HubSpotBulkPushRequest): Promise<ApiResponse<HubSpotBulkPushResult>> => {
+    const response = await api.post('/hubspot/sync/bulk/preview', request)
+    return response.data
+  },
+
+  /**
+   * Push schema for many library URLs to their matching HubSpot content
+   */
+  bulkPushSchema: async (request: HubSpotBulkPushRequest): Promise<ApiResponse<HubSpotBulkPushResult>> => {
+    const response = await api.post('/hubspot/sync/bulk/push', request)
+    return response.data
+  },
+
+  /**
+   * Restore the head HTML a sync replaced
+   * Rolling back a live push publishes the page draft; the server refuses with 409 and
+   * unpublishedDraftChanges when that would publish other draft edits, until publishDraftChanges is set
+   */
+  rollbackSyncJob: async (
+    syncJobId: string,
+    publishDraftChanges = false
+  ): Promise<ApiResponse<{ syncJobId: string; republished: boolean }>> => {
+    const response = await api.post(`/hubspot/sync/jobs/${syncJobId}/rollback`, { publishDraftChanges })
+    return response.data
+  },
+
   /**
    * Get sync history for user
    */
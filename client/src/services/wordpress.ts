@@ -0,0 +1,130 @@
+/**
+ * WordPress API Service
+ * Client-side API calls for WordPress integration
+ */
+
+import { api } from './api'
+import type {
+  WordPressConnection,
+  WordPressContent,
+  WordPressContentMatchResult,
+  CreateWordPressConnectionRequest,
+  PushSchemaToWordPressRequest,
+  ApiResponse
+} from 'aeo-schema-generator-shared/types'
+
+export const wordpressApi = {
+  /**
+   * Connect a WordPress site with an application password
+   */
+  createConnection: async (request: CreateWordPressConnectionRequest): Promise<ApiResponse<{
+    connectionId: string
+    siteUrl: string
+    siteName?: string
+  }>> => {
+    const response = await api.post('/wordpress/connections', request)
+    return response.data
+  },
+
+  /**
+   * Get user's WordPress connections
+   */
+  getConnections: async (): Promise<ApiResponse<WordPressConnection[]>> => {
+    const response = await api.get('/wordpress/connections')
+    return response.data
+  },
+
+  /**
+   * Validate a WordPress connection
+   */
+  validateConnection: async (connectionId: string): Promise<ApiResponse<{
+    isValid: boolean
+    connectionId: string
+  }>> => {
+    const response = await api.get(`/wordpress/connections/${connectionId}/validate`)
+    return response.data
+  },
+
+  /**
+   * Disconnect WordPress site
+   */
+  disconnectSite: async (connectionId: string): Promise<ApiResponse> => {
+    const response = await api.delete(`/wordpress/connections/${connectionId}`)
+    return response.data
+  },
+
+  /**
+   * List posts for connected site
+   */
+  listPosts: async (connectionId: string): Promise<ApiResponse<WordPressContent[]>> => {
+    const response = await api.get('/wordpress/content/posts', {
+      params: { connectionId }
+    })
+    return response.data
+  },
+
+  /**
+   * List pages for connected site
+   */
+  listPages: async (connectionId: string): Promise<ApiResponse<WordPressContent[]>> => {
+    const response = await api.get('/wordpress/content/pages', {
+      params: { connectionId }
+    })
+    return response.data
+  },
+
+  /**
+   * Match URL to WordPress content
+   */
+  matchContent: async (
+    connectionId: string,
+    url: string
+  ): Promise<ApiResponse<WordPressContentMatchResult[]>> => {
+    const response = await api.get('/wordpress/content/match', {
+      params: { connectionId, url }
+    })
+    return response.data
+  },
+
+  /**
+   * Push schema to a WordPress post or page
+   */
+  pushSchema: async (request: PushSchemaToWordPressRequest): Promise<ApiResponse<{
+    syncJobId: string
+    contentId: string
+    contentType: string
+  }>> => {
+    const response = await api.post('/wordpress/sync/push', request)
+    return response.data
+  },
+
+  /**
+   * Get sync history for user
+   */
+  getSyncHistory: async (limit?: number, offset?: number): Promise<ApiResponse<any[]>> => {
+    const response = await api.get('/wordpress/sync/history', {
+      params: { limit, offset }
+    })
+    return response.data
+  },
+
+  /**
+   * Add domain to WordPress connection
+   */
+  addDomainToConnection: async (connectionId: string, domain: string): Promise<ApiResponse> => {
+    const response = await api.patch(`/wordpress/connections/${connectionId}/domains/add`, {
+      domain
+    })
+    return response.data
+  },
+
+  /**
+   * Remove domain from WordPress connection
+   */
+  removeDomainFromConnection: async (connectionId: string, domain: string): Promise<ApiResponse> => {
+    const response = await api.patch(`/wordpress/connections/${connectionId}/domains/remove`, {
+      domain
+    })
+    return response.data
+  }
+}
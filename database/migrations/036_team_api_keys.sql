@@ -0,0 +1,125 @@
+-- Migration: 036_team_api_keys.sql
+-- Description: Team-owned API keys for headless access to the schema API
+-- Date: 2026-10-19
+--
+-- Lets build pipelines and CI jobs call /api/schema/generate and /api/schema/validate
+-- without a Clerk session. Keys belong to a team, are charged against the team owner's
+-- credit balance, and only the SHA-256 hash of the secret is ever stored.
+
+-- =============================================================================
+-- CREATE TEAM_API_KEYS TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS team_api_keys (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+    created_by TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+    -- Display data
+    name TEXT NOT NULL,
+    key_prefix TEXT NOT NULL,          -- e.g. "ss_live_Ab3dE9xQ" (shown in UI to identify the key)
+
+    -- Secret (one-way hash only, raw key is shown once at creation/rotation)
+    key_hash TEXT NOT NULL UNIQUE,
+
+    -- Permissions (e.g. ["schema:generate", "schema:validate"])
+    scopes JSONB NOT NULL DEFAULT '["schema:generate", "schema:validate"]',
+
+    -- Usage tracking
+    last_used_at TIMESTAMPTZ,
+    last_used_ip TEXT,
+    usage_count INTEGER NOT NULL DEFAULT 0,
+
+    -- Lifecycle
+    rotated_at TIMESTAMPTZ,
+    revoked_at TIMESTAMPTZ,
+    revoked_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT chk_api_key_name_length CHECK (length(name) BETWEEN 1 AND 100),
+    CHECK (usage_count >= 0)
+);
+
+-- =============================================================================
+-- INDEXES
+-- =============================================================================
+
+-- Fast lookup by team (Team Settings listing)
+CREATE INDEX IF NOT EXISTS idx_team_api_keys_team_id ON team_api_keys(team_id);
+
+-- Fast lookup of active keys by hash (every API-key authenticated request)
+CREATE INDEX IF NOT EXISTS idx_team_api_keys_active_hash ON team_api_keys(key_hash) WHERE revoked_at IS NULL;
+
+-- =============================================================================
+-- FUNCTION: Record API key usage atomically
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION record_api_key_usage(
+    p_key_id UUID,
+    p_ip_address TEXT
+) RETURNS void AS $$
+BEGIN
+    UPDATE team_api_keys
+    SET last_used_at = NOW(),
+        last_used_ip = p_ip_address,
+        usage_count = usage_count + 1
+    WHERE id = p_key_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================================================
+-- TRIGGER: Auto-update updated_at timestamp
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION update_team_api_keys_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_team_api_keys_updated_at ON team_api_keys;
+CREATE TRIGGER trigger_team_api_keys_updated_at
+    BEFORE UPDATE OF name, key_prefix, key_hash, scopes, rotated_at, revoked_at ON team_api_keys
+    FOR EACH ROW
+    EXECUTE FUNCTION update_team_api_keys_updated_at();
+
+-- =============================================================================
+-- RLS POLICIES
+-- =============================================================================
+-- CRITICAL: auth.uid() returns UUID but user_id/owner_id columns are TEXT
+-- Must cast auth.uid() to TEXT for proper comparison
+
+ALTER TABLE team_api_keys ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Team members can view their team's keys (hash is never returned by the API)
+CREATE POLICY "Users can view team api keys"
+ON team_api_keys FOR SELECT
+USING (
+    team_id IN (
+        SELECT team_id FROM team_members WHERE user_id = auth.uid()::TEXT
+    )
+);
+
+-- Policy: Team owners can manage keys
+CREATE POLICY "Team owners can manage api keys"
+ON team_api_keys FOR ALL
+USING (
+    team_id IN (
+        SELECT id FROM teams WHERE owner_id = auth.uid()::TEXT
+    )
+);
+
+-- =============================================================================
+-- COMMENTS
+-- =============================================================================
+
+COMMENT ON TABLE team_api_keys IS 'Team-owned API keys for headless schema generation/validation (CI pipelines)';
+COMMENT ON COLUMN team_api_keys.key_prefix IS 'Non-secret prefix of the key shown in the UI to identify it';
+COMMENT ON COLUMN team_api_keys.key_hash IS 'SHA-256 hash of the full API key - raw key is never stored';
+COMMENT ON COLUMN team_api_keys.scopes IS 'Array of granted scopes: schema:generate, schema:validate';
+COMMENT ON COLUMN team_api_keys.rotated_at IS 'Last time the secret was rotated (old secret stops working immediately)';
+COMMENT ON COLUMN team_api_keys.revoked_at IS 'When set, the key can no longer authenticate';
+COMMENT ON FUNCTION record_api_key_usage IS 'Increment usage counter and last-used metadata for an API key';
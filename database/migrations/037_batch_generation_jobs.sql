@@ -0,0 +1,235 @@
+-- Migration: 037_batch_generation_jobs.sql
+-- Description: Durable batch schema generation jobs with per-URL state
+-- Date: 2026-10-19
+--
+-- Replaces the 10-URL SSE stream that lived inside a single HTTP connection. Jobs are
+-- persisted up front and processed by a server-side worker, so closing the tab no longer
+-- kills the batch. Jobs can be paused, resumed, cancelled and have failed URLs retried.
+
+-- =============================================================================
+-- CREATE BATCH_JOBS TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS batch_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    team_id UUID REFERENCES teams(id) ON DELETE SET NULL,
+
+    -- Lifecycle: queued -> running -> completed
+    --            running <-> paused, any non-terminal state -> cancelled
+    status TEXT NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'running', 'paused', 'completed', 'cancelled')),
+    pause_reason TEXT,                  -- e.g. "Insufficient credits" when the worker pauses a job itself
+
+    -- Generation options applied to every URL (schemaType, etc.)
+    options JSONB NOT NULL DEFAULT '{}',
+
+    -- Denormalized counters (kept in sync by the worker, avoids counting items on every poll)
+    total_urls INTEGER NOT NULL DEFAULT 0,
+    success_count INTEGER NOT NULL DEFAULT 0,
+    failed_count INTEGER NOT NULL DEFAULT 0,
+    credits_used INTEGER NOT NULL DEFAULT 0,
+
+    started_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CHECK (total_urls >= 0),
+    CHECK (success_count >= 0),
+    CHECK (failed_count >= 0),
+    CHECK (credits_used >= 0)
+);
+
+-- =============================================================================
+-- CREATE BATCH_JOB_ITEMS TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS batch_job_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    job_id UUID NOT NULL REFERENCES batch_jobs(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    url TEXT NOT NULL,
+
+    status TEXT NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'processing', 'success', 'failed', 'cancelled')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+
+    -- Results (set on success)
+    schema_id UUID,
+    discovered_url_id UUID,
+    credits_used INTEGER NOT NULL DEFAULT 0,
+
+    started_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    UNIQUE (job_id, position)
+);
+
+-- =============================================================================
+-- INDEXES
+-- =============================================================================
+
+-- Job history per user (newest first)
+CREATE INDEX IF NOT EXISTS idx_batch_jobs_user_id ON batch_jobs(user_id, created_at DESC);
+
+-- Worker lookup of jobs with pending work
+CREATE INDEX IF NOT EXISTS idx_batch_jobs_active ON batch_jobs(status) WHERE status IN ('queued', 'running');
+
+-- Item listing in order
+CREATE INDEX IF NOT EXISTS idx_batch_job_items_job_id ON batch_job_items(job_id, position);
+
+-- Worker claim of next queued item
+CREATE INDEX IF NOT EXISTS idx_batch_job_items_queued ON batch_job_items(job_id, position) WHERE status = 'queued';
+
+-- Stale processing item recovery
+CREATE INDEX IF NOT EXISTS idx_batch_job_items_processing ON batch_job_items(started_at) WHERE status = 'processing';
+
+-- =============================================================================
+-- FUNCTION: Claim the next queued item across all active jobs
+-- =============================================================================
+-- Uses FOR UPDATE SKIP LOCKED so multiple workers (or server instances) never
+-- pick up the same URL. Jobs are served oldest first, items in submission order.
+
+CREATE OR REPLACE FUNCTION claim_next_batch_job_item()
+RETURNS SETOF batch_job_items AS $$
+DECLARE
+    v_item_id UUID;
+BEGIN
+    SELECT i.id INTO v_item_id
+    FROM batch_job_items i
+    JOIN batch_jobs j ON j.id = i.job_id
+    WHERE i.status = 'queued'
+      AND j.status IN ('queued', 'running')
+    ORDER BY j.created_at ASC, i.position ASC
+    LIMIT 1
+    FOR UPDATE OF i SKIP LOCKED;
+
+    IF v_item_id IS NULL THEN
+        RETURN;
+    END IF;
+
+    UPDATE batch_jobs
+    SET status = 'running',
+        started_at = COALESCE(started_at, NOW())
+    WHERE id = (SELECT job_id FROM batch_job_items WHERE id = v_item_id)
+      AND status = 'queued';
+
+    RETURN QUERY
+    UPDATE batch_job_items
+    SET status = 'processing',
+        attempts = attempts + 1,
+        started_at = NOW(),
+        error = NULL
+    WHERE id = v_item_id
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================================================
+-- FUNCTION: Record an item result and update job counters atomically
+-- =============================================================================
+-- Marks the job completed once no queued/processing items remain.
+
+CREATE OR REPLACE FUNCTION complete_batch_job_item(
+    p_item_id UUID,
+    p_success BOOLEAN,
+    p_error TEXT,
+    p_schema_id UUID,
+    p_discovered_url_id UUID,
+    p_credits_used INTEGER
+) RETURNS void AS $$
+DECLARE
+    v_job_id UUID;
+BEGIN
+    UPDATE batch_job_items
+    SET status = CASE WHEN p_success THEN 'success' ELSE 'failed' END,
+        error = p_error,
+        schema_id = p_schema_id,
+        discovered_url_id = p_discovered_url_id,
+        credits_used = p_credits_used,
+        completed_at = NOW()
+    WHERE id = p_item_id
+      AND status = 'processing'
+    RETURNING job_id INTO v_job_id;
+
+    IF v_job_id IS NULL THEN
+        RETURN;
+    END IF;
+
+    UPDATE batch_jobs
+    SET success_count = success_count + CASE WHEN p_success THEN 1 ELSE 0 END,
+        failed_count = failed_count + CASE WHEN p_success THEN 0 ELSE 1 END,
+        credits_used = credits_used + p_credits_used
+    WHERE id = v_job_id;
+
+    UPDATE batch_jobs
+    SET status = 'completed',
+        completed_at = NOW()
+    WHERE id = v_job_id
+      AND status = 'running'
+      AND NOT EXISTS (
+          SELECT 1 FROM batch_job_items
+          WHERE job_id = v_job_id AND status IN ('queued', 'processing')
+      );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================================================
+-- TRIGGER: Auto-update updated_at timestamp
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION update_batch_jobs_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_batch_jobs_updated_at ON batch_jobs;
+CREATE TRIGGER trigger_batch_jobs_updated_at
+    BEFORE UPDATE ON batch_jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_batch_jobs_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_batch_job_items_updated_at ON batch_job_items;
+CREATE TRIGGER trigger_batch_job_items_updated_at
+    BEFORE UPDATE ON batch_job_items
+    FOR EACH ROW
+    EXECUTE FUNCTION update_batch_jobs_updated_at();
+
+-- =============================================================================
+-- RLS POLICIES
+-- =============================================================================
+-- CRITICAL: auth.uid() returns UUID but user_id columns are TEXT
+-- Must cast auth.uid() to TEXT for proper comparison
+
+ALTER TABLE batch_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE batch_job_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own batch jobs"
+ON batch_jobs FOR SELECT
+USING (user_id = auth.uid()::TEXT);
+
+CREATE POLICY "Users can view own batch job items"
+ON batch_job_items FOR SELECT
+USING (
+    job_id IN (
+        SELECT id FROM batch_jobs WHERE user_id = auth.uid()::TEXT
+    )
+);
+
+-- =============================================================================
+-- COMMENTS
+-- =============================================================================
+
+COMMENT ON TABLE batch_jobs IS 'Persisted batch schema generation jobs processed by the server-side worker';
+COMMENT ON COLUMN batch_jobs.pause_reason IS 'Set when the worker pauses a job on its own (e.g. out of credits)';
+COMMENT ON TABLE batch_job_items IS 'One row per URL in a batch job with its processing state and result';
+COMMENT ON COLUMN batch_job_items.attempts IS 'Number of times the worker has picked up this URL (incremented on claim)';
+COMMENT ON FUNCTION claim_next_batch_job_item IS 'Atomically claim the next queued URL across active jobs (SKIP LOCKED)';
+COMMENT ON FUNCTION complete_batch_job_item IS 'Record a URL result, bump job counters and complete the job when drained';
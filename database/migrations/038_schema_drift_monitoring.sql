@@ -0,0 +1,52 @@
+-- Migration: 038_schema_drift_monitoring.sql
+-- Description: Track drift between generated schema and the live page
+-- Date: 2026-10-19
+--
+-- A scheduled monitor re-scrapes library URLs that have schema and records whether the
+-- live page still carries it, whether someone edited it, or whether the page content has
+-- changed enough since generation that the schema is likely stale.
+
+-- =============================================================================
+-- CONTENT FINGERPRINT AT GENERATION TIME
+-- =============================================================================
+
+-- 64-bit SimHash (hex) of the page text the schema was generated from.
+-- Similar pages produce fingerprints with a small Hamming distance.
+ALTER TABLE schema_generations ADD COLUMN IF NOT EXISTS content_fingerprint TEXT;
+
+-- =============================================================================
+-- DRIFT STATUS PER LIBRARY URL
+-- =============================================================================
+
+ALTER TABLE discovered_urls ADD COLUMN IF NOT EXISTS drift_status TEXT
+    CHECK (drift_status IN ('in_sync', 'missing_on_page', 'modified', 'content_changed', 'unreachable'));
+ALTER TABLE discovered_urls ADD COLUMN IF NOT EXISTS drift_details JSONB;
+ALTER TABLE discovered_urls ADD COLUMN IF NOT EXISTS drift_checked_at TIMESTAMPTZ;
+
+-- Fallback baseline for schemas generated before content_fingerprint existed
+-- (captured on the first drift check)
+ALTER TABLE discovered_urls ADD COLUMN IF NOT EXISTS content_fingerprint TEXT;
+
+-- =============================================================================
+-- INDEXES
+-- =============================================================================
+
+-- Monitor lookup of URLs due for a check (oldest first)
+CREATE INDEX IF NOT EXISTS idx_discovered_urls_drift_due
+    ON discovered_urls(drift_checked_at NULLS FIRST)
+    WHERE has_schema = true AND is_hidden = false;
+
+-- Per-domain health summary
+CREATE INDEX IF NOT EXISTS idx_discovered_urls_drift_status
+    ON discovered_urls(user_id, domain_id, drift_status)
+    WHERE has_schema = true;
+
+-- =============================================================================
+-- COMMENTS
+-- =============================================================================
+
+COMMENT ON COLUMN schema_generations.content_fingerprint IS 'SimHash of page content at generation time - used to detect stale schema';
+COMMENT ON COLUMN discovered_urls.drift_status IS 'Result of the last drift check: in_sync, missing_on_page, modified, content_changed, unreachable';
+COMMENT ON COLUMN discovered_urls.drift_details IS 'Details of the last drift check (missing/modified types, content similarity, error)';
+COMMENT ON COLUMN discovered_urls.drift_checked_at IS 'When the drift monitor last checked the live page';
+COMMENT ON COLUMN discovered_urls.content_fingerprint IS 'Baseline content fingerprint captured on first check when the generation has none';
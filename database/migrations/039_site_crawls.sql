@@ -0,0 +1,117 @@
+-- Migration: 039_site_crawls.sql
+-- Description: Persist site crawls and the URLs they discovered
+-- Date: 2026-10-19
+--
+-- Replaces the in-memory crawl cache in the crawler controller. Crawls survive server
+-- restarts, can be polled from any server instance, and are kept as history per domain
+-- so two crawls of the same site can be compared (new, removed and changed URLs).
+
+-- =============================================================================
+-- CREATE SITE_CRAWLS TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS site_crawls (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    domain TEXT NOT NULL,                -- Domain as requested (lowercased, no trailing slash)
+
+    status TEXT NOT NULL DEFAULT 'in_progress'
+        CHECK (status IN ('in_progress', 'completed', 'failed')),
+    error TEXT,
+
+    -- Per-request crawl limits and sources (maxUrls, maxDepth, timeoutMs, follow*)
+    options JSONB NOT NULL DEFAULT '{}',
+
+    -- Denormalized count (avoids counting site_crawl_urls on every poll)
+    total_found INTEGER NOT NULL DEFAULT 0,
+
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CHECK (total_found >= 0)
+);
+
+-- =============================================================================
+-- CREATE SITE_CRAWL_URLS TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS site_crawl_urls (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    crawl_id UUID NOT NULL REFERENCES site_crawls(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,           -- Discovery order within the crawl
+
+    url TEXT NOT NULL,
+    path TEXT NOT NULL,
+    depth INTEGER NOT NULL DEFAULT 0,
+    source TEXT NOT NULL
+        CHECK (source IN ('sitemap', 'feed', 'hreflang', 'crawl')),
+    found_on TEXT,                       -- Sitemap, feed or page the URL was found on
+    last_modified TIMESTAMPTZ,           -- <lastmod> / feed date when the source provides one
+
+    discovered_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    UNIQUE (crawl_id, url)
+);
+
+-- =============================================================================
+-- INDEXES
+-- =============================================================================
+
+-- Crawl history per domain (newest first)
+CREATE INDEX IF NOT EXISTS idx_site_crawls_user_domain ON site_crawls(user_id, domain, started_at DESC);
+
+-- Interrupted crawl recovery
+CREATE INDEX IF NOT EXISTS idx_site_crawls_in_progress ON site_crawls(updated_at) WHERE status = 'in_progress';
+
+-- URL listing in discovery order
+CREATE INDEX IF NOT EXISTS idx_site_crawl_urls_crawl_id ON site_crawl_urls(crawl_id, position);
+
+-- =============================================================================
+-- TRIGGER: Auto-update updated_at timestamp
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION update_site_crawls_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_site_crawls_updated_at ON site_crawls;
+CREATE TRIGGER trigger_site_crawls_updated_at
+    BEFORE UPDATE ON site_crawls
+    FOR EACH ROW
+    EXECUTE FUNCTION update_site_crawls_updated_at();
+
+-- =============================================================================
+-- RLS POLICIES
+-- =============================================================================
+-- CRITICAL: auth.uid() returns UUID but user_id columns are TEXT
+-- Must cast auth.uid() to TEXT for proper comparison
+
+ALTER TABLE site_crawls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE site_crawl_urls ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own site crawls"
+ON site_crawls FOR SELECT
+USING (user_id = auth.uid()::TEXT);
+
+CREATE POLICY "Users can view own site crawl urls"
+ON site_crawl_urls FOR SELECT
+USING (
+    crawl_id IN (
+        SELECT id FROM site_crawls WHERE user_id = auth.uid()::TEXT
+    )
+);
+
+-- =============================================================================
+-- COMMENTS
+-- =============================================================================
+
+COMMENT ON TABLE site_crawls IS 'URL discovery runs per user and domain - kept as history for crawl comparisons';
+COMMENT ON COLUMN site_crawls.updated_at IS 'Bumped on every batch of URLs; in-progress crawls that stop updating were interrupted';
+COMMENT ON TABLE site_crawl_urls IS 'URLs found by a crawl, with the source they were discovered from';
+COMMENT ON COLUMN site_crawl_urls.last_modified IS 'Last modified date reported by the sitemap or feed - a change between crawls marks the URL as changed';
@@ -0,0 +1,74 @@
+-- Migration: 040_hubspot_head_html_snapshots.sql
+-- Description: Keep head HTML snapshots on HubSpot sync jobs for rollback
+-- Date: 2026-10-19
+--
+-- Pushing schema rewrites the <!-- SuperSchema --> block in a post's or page's head HTML.
+-- Each sync job now stores the head HTML from before and after the push, so a push can be
+-- reviewed and rolled back to the exact previous head HTML.
+
+-- =============================================================================
+-- ADD SNAPSHOT COLUMNS
+-- =============================================================================
+
+ALTER TABLE hubspot_sync_jobs
+    ADD COLUMN IF NOT EXISTS previous_head_html TEXT,   -- Head HTML read before the push
+    ADD COLUMN IF NOT EXISTS new_head_html TEXT,        -- Head HTML written by the push
+    ADD COLUMN IF NOT EXISTS rolled_back_at TIMESTAMPTZ;
+
+-- =============================================================================
+-- UPDATE SYNC HISTORY FUNCTION
+-- =============================================================================
+
+-- Return type changes, so the function has to be dropped first
+DROP FUNCTION IF EXISTS get_hubspot_sync_history(TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION get_hubspot_sync_history(
+    p_user_id TEXT,
+    p_limit INTEGER DEFAULT 50,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    hubspot_content_id TEXT,
+    hubspot_content_type TEXT,
+    hubspot_content_title TEXT,
+    hubspot_content_url TEXT,
+    status TEXT,
+    error_message TEXT,
+    synced_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE,
+    portal_name TEXT,
+    has_snapshot BOOLEAN,
+    rolled_back_at TIMESTAMPTZ
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        hsj.id,
+        hsj.hubspot_content_id,
+        hsj.hubspot_content_type,
+        hsj.hubspot_content_title,
+        hsj.hubspot_content_url,
+        hsj.status,
+        hsj.error_message,
+        hsj.synced_at,
+        hsj.created_at,
+        hc.portal_name,
+        hsj.previous_head_html IS NOT NULL,
+        hsj.rolled_back_at
+    FROM hubspot_sync_jobs hsj
+    JOIN hubspot_connections hc ON hsj.connection_id = hc.id
+    WHERE hsj.user_id = p_user_id
+    ORDER BY hsj.created_at DESC
+    LIMIT p_limit
+    OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================================================
+-- COMMENTS
+-- =============================================================================
+
+COMMENT ON COLUMN hubspot_sync_jobs.previous_head_html IS 'Head HTML before the push, restored on rollback';
+COMMENT ON COLUMN hubspot_sync_jobs.new_head_html IS 'Head HTML written by the push';
+COMMENT ON COLUMN hubspot_sync_jobs.rolled_back_at IS 'When the push was rolled back to previous_head_html';
@@ -0,0 +1,99 @@
+-- Migration: 041_hubspot_sync_retry.sql
+-- Description: Retry queue for failed HubSpot sync jobs
+-- Date: 2026-10-19
+--
+-- Transient push failures (429, HubSpot 5xx, timeouts, token refresh failures) are retried
+-- by a background worker with exponential backoff. The job keeps the schema it pushed so it
+-- can be pushed again, plus why it failed and when the next attempt is due. Permanent
+-- failures (e.g. page head HTML not available on the portal's tier) are non-retryable.
+
+-- =============================================================================
+-- ADD RETRY COLUMNS
+-- =============================================================================
+
+ALTER TABLE hubspot_sync_jobs
+    ADD COLUMN IF NOT EXISTS schema_html TEXT,           -- Script tags pushed, re-sent on retry
+    ADD COLUMN IF NOT EXISTS failure_reason TEXT
+        CHECK (failure_reason IN (
+            'rate_limited', 'server_error', 'network_error', 'token_refresh_failed',
+            'tier_limited', 'not_found', 'unauthorized', 'connection_inactive',
+            'invalid_request', 'unknown'
+        )),
+    ADD COLUMN IF NOT EXISTS is_retryable BOOLEAN,
+    ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ; -- Set while status = 'retrying'
+
+-- =============================================================================
+-- INDEXES
+-- =============================================================================
+
+-- Retry worker polls for due jobs
+CREATE INDEX IF NOT EXISTS idx_hubspot_sync_jobs_next_attempt
+    ON hubspot_sync_jobs(next_attempt_at)
+    WHERE status = 'retrying';
+
+-- =============================================================================
+-- UPDATE SYNC HISTORY FUNCTION
+-- =============================================================================
+
+-- Return type changes, so the function has to be dropped first
+DROP FUNCTION IF EXISTS get_hubspot_sync_history(TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION get_hubspot_sync_history(
+    p_user_id TEXT,
+    p_limit INTEGER DEFAULT 50,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    hubspot_content_id TEXT,
+    hubspot_content_type TEXT,
+    hubspot_content_title TEXT,
+    hubspot_content_url TEXT,
+    status TEXT,
+    error_message TEXT,
+    synced_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE,
+    portal_name TEXT,
+    has_snapshot BOOLEAN,
+    rolled_back_at TIMESTAMPTZ,
+    failure_reason TEXT,
+    is_retryable BOOLEAN,
+    retry_count INTEGER,
+    next_attempt_at TIMESTAMPTZ
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        hsj.id,
+        hsj.hubspot_content_id,
+        hsj.hubspot_content_type,
+        hsj.hubspot_content_title,
+        hsj.hubspot_content_url,
+        hsj.status,
+        hsj.error_message,
+        hsj.synced_at,
+        hsj.created_at,
+        hc.portal_name,
+        hsj.previous_head_html IS NOT NULL,
+        hsj.rolled_back_at,
+        hsj.failure_reason,
+        hsj.is_retryable,
+        hsj.retry_count,
+        hsj.next_attempt_at
+    FROM hubspot_sync_jobs hsj
+    JOIN hubspot_connections hc ON hsj.connection_id = hc.id
+    WHERE hsj.user_id = p_user_id
+    ORDER BY hsj.created_at DESC
+    LIMIT p_limit
+    OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================================================
+-- COMMENTS
+-- =============================================================================
+
+COMMENT ON COLUMN hubspot_sync_jobs.schema_html IS 'Schema script tags pushed by this job - kept so failed pushes can be retried';
+COMMENT ON COLUMN hubspot_sync_jobs.failure_reason IS 'Category of the last failure - decides whether the job is retried';
+COMMENT ON COLUMN hubspot_sync_jobs.is_retryable IS 'False when the last failure cannot be fixed by trying again';
+COMMENT ON COLUMN hubspot_sync_jobs.next_attempt_at IS 'When the retry worker pushes again (exponential backoff)';
@@ -0,0 +1,34 @@
+-- Migration: 042_hubspot_publish_drafts.sql
+-- Description: Publish options for schema pushed to HubSpot page and landing page drafts
+-- Date: 2026-10-19
+--
+-- Pushes to site pages and landing pages only update the draft. A push can now ask for the
+-- draft to be pushed live or scheduled once the head HTML is written. The option is kept on
+-- the sync job so the retry worker publishes too, and published_at records when it happened.
+
+-- =============================================================================
+-- ADD PUBLISH COLUMNS
+-- =============================================================================
+
+ALTER TABLE hubspot_sync_jobs
+    ADD COLUMN IF NOT EXISTS publish_mode TEXT
+        CHECK (publish_mode IN ('draft', 'live', 'schedule')),
+    ADD COLUMN IF NOT EXISTS publish_date TIMESTAMPTZ,  -- Required for publish_mode = 'schedule'
+    ADD COLUMN IF NOT EXISTS published_at TIMESTAMPTZ;
+
+-- =============================================================================
+-- INDEXES
+-- =============================================================================
+
+-- Draft status view lists the pages pushed through a connection
+CREATE INDEX IF NOT EXISTS idx_hubspot_sync_jobs_connection_synced
+    ON hubspot_sync_jobs(connection_id, synced_at DESC)
+    WHERE status = 'success';
+
+-- =============================================================================
+-- COMMENTS
+-- =============================================================================
+
+COMMENT ON COLUMN hubspot_sync_jobs.publish_mode IS 'Page drafts only: leave as draft, push live or schedule after the push';
+COMMENT ON COLUMN hubspot_sync_jobs.publish_date IS 'When a scheduled draft goes live';
+COMMENT ON COLUMN hubspot_sync_jobs.published_at IS 'When the draft was pushed live or scheduled by SuperSchema';
@@ -0,0 +1,177 @@
+-- Migration: 043_wordpress_integration.sql
+-- Description: WordPress connections through application passwords and schema sync tracking
+-- Date: 2026-10-19
+--
+-- A WordPress site is connected with its URL, a username and an application password
+-- (WordPress 5.6+). The password is stored encrypted, like HubSpot OAuth tokens. Schema is
+-- pushed over the REST API into a post meta field that the site prints in <head>: either
+-- plain JSON-LD or a SuperSchema-marked script block merged into an existing head HTML field.
+
+-- =============================================================================
+-- CONNECTIONS
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS wordpress_connections (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    site_url TEXT NOT NULL,                -- Normalized, no trailing slash
+    site_name TEXT,                        -- From the REST API index, for display
+    username TEXT NOT NULL,
+    application_password TEXT NOT NULL,    -- Encrypted application password
+    injection_method TEXT NOT NULL DEFAULT 'post_meta'
+        CHECK (injection_method IN ('post_meta', 'head_block')),
+    meta_key TEXT NOT NULL,                -- Meta field registered with show_in_rest
+    associated_domains TEXT[] DEFAULT '{}',
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    last_validated_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE(user_id, site_url)
+);
+
+-- =============================================================================
+-- SYNC JOBS
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS wordpress_sync_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    connection_id UUID NOT NULL REFERENCES wordpress_connections(id) ON DELETE CASCADE,
+    schema_generation_id UUID REFERENCES schema_generations(id) ON DELETE SET NULL,
+    wp_content_id TEXT NOT NULL,
+    wp_content_type TEXT NOT NULL CHECK (wp_content_type IN ('post', 'page')),
+    wp_content_title TEXT,
+    wp_content_url TEXT,
+    status TEXT NOT NULL CHECK (status IN ('pending', 'success', 'failed')),
+    error_message TEXT,
+    previous_value TEXT,                   -- Meta field before the push
+    new_value TEXT,                        -- Meta field written by the push
+    synced_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- =============================================================================
+-- INDEXES
+-- =============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_wordpress_connections_user_id ON wordpress_connections(user_id);
+CREATE INDEX IF NOT EXISTS idx_wordpress_connections_associated_domains
+    ON wordpress_connections USING GIN (associated_domains);
+
+CREATE INDEX IF NOT EXISTS idx_wordpress_sync_jobs_user_id ON wordpress_sync_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_wordpress_sync_jobs_connection_id ON wordpress_sync_jobs(connection_id);
+CREATE INDEX IF NOT EXISTS idx_wordpress_sync_jobs_created_at ON wordpress_sync_jobs(created_at);
+
+-- =============================================================================
+-- TRIGGERS
+-- =============================================================================
+
+CREATE TRIGGER update_wordpress_connections_updated_at BEFORE UPDATE ON wordpress_connections
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================================================
+-- ROW LEVEL SECURITY
+-- =============================================================================
+
+ALTER TABLE wordpress_connections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE wordpress_sync_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own WordPress connections" ON wordpress_connections
+    FOR SELECT USING (auth.uid()::text = user_id);
+
+CREATE POLICY "Service role can manage all WordPress connections" ON wordpress_connections
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Users can view their own WordPress sync jobs" ON wordpress_sync_jobs
+    FOR SELECT USING (auth.uid()::text = user_id);
+
+CREATE POLICY "Service role can manage all WordPress sync jobs" ON wordpress_sync_jobs
+    FOR ALL USING (auth.role() = 'service_role');
+
+-- =============================================================================
+-- FUNCTIONS
+-- =============================================================================
+
+-- Add domain to WordPress connection (no duplicates)
+CREATE OR REPLACE FUNCTION add_domain_to_wordpress_connection(
+    p_connection_id UUID,
+    p_domain TEXT
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+    UPDATE wordpress_connections
+    SET associated_domains = array_append(associated_domains, p_domain),
+        updated_at = NOW()
+    WHERE id = p_connection_id
+      AND NOT (p_domain = ANY(associated_domains));
+
+    RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Remove domain from WordPress connection
+CREATE OR REPLACE FUNCTION remove_domain_from_wordpress_connection(
+    p_connection_id UUID,
+    p_domain TEXT
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+    UPDATE wordpress_connections
+    SET associated_domains = array_remove(associated_domains, p_domain),
+        updated_at = NOW()
+    WHERE id = p_connection_id;
+
+    RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Sync history for user, newest first
+CREATE OR REPLACE FUNCTION get_wordpress_sync_history(
+    p_user_id TEXT,
+    p_limit INTEGER DEFAULT 50,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    wp_content_id TEXT,
+    wp_content_type TEXT,
+    wp_content_title TEXT,
+    wp_content_url TEXT,
+    status TEXT,
+    error_message TEXT,
+    synced_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ,
+    site_name TEXT,
+    site_url TEXT
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        wsj.id,
+        wsj.wp_content_id,
+        wsj.wp_content_type,
+        wsj.wp_content_title,
+        wsj.wp_content_url,
+        wsj.status,
+        wsj.error_message,
+        wsj.synced_at,
+        wsj.created_at,
+        wc.site_name,
+        wc.site_url
+    FROM wordpress_sync_jobs wsj
+    JOIN wordpress_connections wc ON wsj.connection_id = wc.id
+    WHERE wsj.user_id = p_user_id
+    ORDER BY wsj.created_at DESC
+    LIMIT p_limit
+    OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================================================
+-- COMMENTS
+-- =============================================================================
+
+COMMENT ON TABLE wordpress_connections IS 'WordPress sites connected with an application password';
+COMMENT ON COLUMN wordpress_connections.application_password IS 'Encrypted WordPress application password (never returned to clients)';
+COMMENT ON COLUMN wordpress_connections.injection_method IS 'post_meta: JSON-LD in meta_key; head_block: SuperSchema block merged into the head HTML in meta_key';
+COMMENT ON TABLE wordpress_sync_jobs IS 'Schema pushes to WordPress posts and pages';
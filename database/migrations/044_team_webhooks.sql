@@ -0,0 +1,158 @@
+-- Migration: 044_team_webhooks.sql
+-- Description: Team-configurable outbound webhooks with signed payloads and a delivery log
+-- Date: 2026-10-19
+--
+-- Teams register HTTPS endpoints that receive HMAC-SHA256 signed JSON when schema is
+-- generated, refined, edited, pushed to a CMS or fails validation. Unlike API keys the
+-- signing secret has to be read back to sign deliveries, so it is stored encrypted rather
+-- than hashed. After a rotation the previous secret keeps signing for a grace period.
+-- Every delivery is logged per endpoint and retried with backoff until it succeeds.
+
+-- =============================================================================
+-- CREATE TEAM_WEBHOOK_ENDPOINTS TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS team_webhook_endpoints (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+    created_by TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+    -- Display data
+    name TEXT NOT NULL,
+    url TEXT NOT NULL,
+
+    -- Subscribed events (e.g. ["schema.generated", "schema.pushed"])
+    events JSONB NOT NULL DEFAULT '[]',
+
+    -- Signing secret (encrypted, raw secret is shown once at creation/rotation)
+    secret TEXT NOT NULL,
+    secret_prefix TEXT NOT NULL,       -- e.g. "whsec_Ab3dE9xQ" (shown in UI to identify the secret)
+    previous_secret TEXT,              -- Encrypted secret replaced by the last rotation
+    previous_secret_expires_at TIMESTAMPTZ,
+
+    -- Lifecycle
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    rotated_at TIMESTAMPTZ,
+    last_delivery_at TIMESTAMPTZ,
+    last_delivery_status TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT chk_webhook_endpoint_name_length CHECK (length(name) BETWEEN 1 AND 100)
+);
+
+-- =============================================================================
+-- CREATE WEBHOOK_DELIVERIES TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    endpoint_id UUID NOT NULL REFERENCES team_webhook_endpoints(id) ON DELETE CASCADE,
+    team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+
+    -- Event (event_id is shared by every endpoint receiving the same event)
+    event_id UUID NOT NULL,
+    event_type TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    is_test BOOLEAN NOT NULL DEFAULT false,
+
+    -- Delivery state
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'delivering', 'success', 'failed')),
+    attempt_count INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMPTZ,
+
+    -- Last attempt
+    response_status INTEGER,
+    response_body TEXT,                -- Truncated
+    error_message TEXT,
+    duration_ms INTEGER,
+    delivered_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CHECK (attempt_count >= 0)
+);
+
+-- =============================================================================
+-- INDEXES
+-- =============================================================================
+
+-- Fast lookup by team (Team Settings listing, fan-out on every event)
+CREATE INDEX IF NOT EXISTS idx_team_webhook_endpoints_team_id ON team_webhook_endpoints(team_id);
+
+-- Per-endpoint delivery log, newest first
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint_created
+    ON webhook_deliveries(endpoint_id, created_at DESC);
+
+-- Retry worker: pending deliveries whose next attempt is due
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due
+    ON webhook_deliveries(next_attempt_at)
+    WHERE status = 'pending';
+
+-- =============================================================================
+-- TRIGGER: Auto-update updated_at timestamp
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION update_team_webhook_endpoints_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_team_webhook_endpoints_updated_at ON team_webhook_endpoints;
+CREATE TRIGGER trigger_team_webhook_endpoints_updated_at
+    BEFORE UPDATE OF name, url, events, secret, is_active ON team_webhook_endpoints
+    FOR EACH ROW
+    EXECUTE FUNCTION update_team_webhook_endpoints_updated_at();
+
+-- =============================================================================
+-- RLS POLICIES
+-- =============================================================================
+-- CRITICAL: auth.uid() returns UUID but user_id/owner_id columns are TEXT
+-- Must cast auth.uid() to TEXT for proper comparison
+
+ALTER TABLE team_webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Team members can view their team's endpoints (secrets are never returned by the API)
+CREATE POLICY "Users can view team webhook endpoints"
+ON team_webhook_endpoints FOR SELECT
+USING (
+    team_id IN (
+        SELECT team_id FROM team_members WHERE user_id = auth.uid()::TEXT
+    )
+);
+
+-- Policy: Team owners can manage endpoints
+CREATE POLICY "Team owners can manage webhook endpoints"
+ON team_webhook_endpoints FOR ALL
+USING (
+    team_id IN (
+        SELECT id FROM teams WHERE owner_id = auth.uid()::TEXT
+    )
+);
+
+-- Policy: Team members can view their team's delivery log
+CREATE POLICY "Users can view team webhook deliveries"
+ON webhook_deliveries FOR SELECT
+USING (
+    team_id IN (
+        SELECT team_id FROM team_members WHERE user_id = auth.uid()::TEXT
+    )
+);
+
+CREATE POLICY "Service role can manage all webhook deliveries"
+ON webhook_deliveries FOR ALL
+USING (auth.role() = 'service_role');
+
+-- =============================================================================
+-- COMMENTS
+-- =============================================================================
+
+COMMENT ON TABLE team_webhook_endpoints IS 'Team-owned outbound webhook endpoints for schema events';
+COMMENT ON COLUMN team_webhook_endpoints.secret IS 'Encrypted HMAC signing secret (never returned to clients after creation/rotation)';
+COMMENT ON COLUMN team_webhook_endpoints.previous_secret IS 'Encrypted secret from before the last rotation, also used to sign until previous_secret_expires_at';
+COMMENT ON TABLE webhook_deliveries IS 'Outbound webhook delivery log and retry queue';
+COMMENT ON COLUMN webhook_deliveries.event_id IS 'Stable event ID sent in the payload so receivers can deduplicate retries';
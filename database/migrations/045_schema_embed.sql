@@ -0,0 +1,32 @@
+-- Migration: 045_schema_embed.sql
+-- Description: Per-domain site keys for the embeddable schema loader
+-- Date: 2026-10-19
+--
+-- Sites without a supported CMS can add one script tag that fetches the JSON-LD for the
+-- current page from a public, cacheable endpoint. The endpoint is keyed by a per-domain site
+-- key rather than a secret: site keys are visible in page source, so they only identify the
+-- domain, and pages are only served for URLs on that domain. Embedding is off until the
+-- owner enables it, and rotating the key stops old snippets from loading.
+
+-- =============================================================================
+-- ADD EMBED COLUMNS
+-- =============================================================================
+
+ALTER TABLE user_domains
+    ADD COLUMN IF NOT EXISTS embed_site_key TEXT UNIQUE,    -- e.g. "site_4f9c2a7d1e8b3c6a"
+    ADD COLUMN IF NOT EXISTS embed_enabled BOOLEAN NOT NULL DEFAULT false;
+
+-- =============================================================================
+-- INDEXES
+-- =============================================================================
+
+-- Loader lookups: exact normalized URL within a domain
+CREATE INDEX IF NOT EXISTS idx_discovered_urls_domain_url
+    ON discovered_urls(domain_id, url);
+
+-- =============================================================================
+-- COMMENTS
+-- =============================================================================
+
+COMMENT ON COLUMN user_domains.embed_site_key IS 'Public key used by the embeddable loader to look up this domain (not a secret)';
+COMMENT ON COLUMN user_domains.embed_enabled IS 'Whether the public embed endpoint serves schema for this domain';
@@ -0,0 +1,93 @@
+-- Migration: 046_schema_audits.sql
+-- Description: Site-wide schema audits of a domain's existing markup
+-- Date: 2026-10-19
+--
+-- An audit crawls up to max_pages URLs of a domain, extracts the JSON-LD each page already
+-- publishes, checks compliance and scores it. The aggregated report (coverage by page type,
+-- common errors, pages without markup, Organization conflicts, rich-result eligibility and
+-- the per-page results) is stored as JSONB once the audit completes. Audits run in the
+-- background, so progress counters are updated as pages are scanned.
+
+-- =============================================================================
+-- CREATE SCHEMA_AUDITS TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS schema_audits (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    domain TEXT NOT NULL,                -- Domain as requested (lowercased, no trailing slash)
+
+    status TEXT NOT NULL DEFAULT 'running'
+        CHECK (status IN ('running', 'completed', 'failed')),
+    error TEXT,
+
+    -- Progress (pages_total is known once URL discovery finishes)
+    max_pages INTEGER NOT NULL,
+    pages_total INTEGER NOT NULL DEFAULT 0,
+    pages_scanned INTEGER NOT NULL DEFAULT 0,
+
+    -- Aggregated report, set when the audit completes
+    report JSONB,
+
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CHECK (max_pages > 0),
+    CHECK (pages_scanned >= 0 AND pages_total >= 0)
+);
+
+-- =============================================================================
+-- INDEXES
+-- =============================================================================
+
+-- Audit history per user, newest first
+CREATE INDEX IF NOT EXISTS idx_schema_audits_user_created
+    ON schema_audits(user_id, created_at DESC);
+
+-- Interrupted audit recovery
+CREATE INDEX IF NOT EXISTS idx_schema_audits_running
+    ON schema_audits(updated_at)
+    WHERE status = 'running';
+
+-- =============================================================================
+-- TRIGGER: Auto-update updated_at timestamp
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION update_schema_audits_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_schema_audits_updated_at ON schema_audits;
+CREATE TRIGGER trigger_schema_audits_updated_at
+    BEFORE UPDATE ON schema_audits
+    FOR EACH ROW
+    EXECUTE FUNCTION update_schema_audits_updated_at();
+
+-- =============================================================================
+-- RLS POLICIES
+-- =============================================================================
+-- CRITICAL: auth.uid() returns UUID but user_id columns are TEXT
+-- Must cast auth.uid() to TEXT for proper comparison
+
+ALTER TABLE schema_audits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own schema audits"
+ON schema_audits FOR SELECT
+USING (user_id = auth.uid()::TEXT);
+
+CREATE POLICY "Service role can manage all schema audits"
+ON schema_audits FOR ALL
+USING (auth.role() = 'service_role');
+
+-- =============================================================================
+-- COMMENTS
+-- =============================================================================
+
+COMMENT ON TABLE schema_audits IS 'Site-wide audits of the JSON-LD a domain already publishes';
+COMMENT ON COLUMN schema_audits.report IS 'SchemaAuditReport JSON (summary, coverage, issues, per-page results), set on completion';
@@ -0,0 +1,144 @@
+-- Migration: 047_crawler_logs.sql
+-- Description: Server-log ingestion of AI crawler hits
+-- Date: 2026-10-19
+--
+-- GA4 only sees humans clicking through from AI chat interfaces - bot crawlers never run
+-- its tag. Access logs do see them, so users can upload logs (nginx/Apache combined,
+-- Cloudflare, CloudFront, Vercel) or point a log drain at a per-domain ingest URL.
+-- Hits from known AI crawler user agents are checked against the operator's published
+-- IP ranges where available and stored as daily per-path counts.
+
+-- =============================================================================
+-- CREATE CRAWLER_LOG_SOURCES TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS crawler_log_sources (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    domain TEXT NOT NULL,                -- Hostname, lowercased, without www.
+
+    -- Public key in the streaming ingest URL (logs_ + 24 hex chars)
+    ingest_key TEXT NOT NULL UNIQUE,
+
+    hits_total BIGINT NOT NULL DEFAULT 0,
+    last_received_at TIMESTAMPTZ,
+
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    UNIQUE (user_id, domain)
+);
+
+-- =============================================================================
+-- CREATE CRAWLER_HITS TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS crawler_hits (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    source_id UUID NOT NULL REFERENCES crawler_log_sources(id) ON DELETE CASCADE,
+    hit_date DATE NOT NULL,              -- UTC day of the requests
+    path TEXT NOT NULL,                  -- Request path without query string
+    crawler TEXT NOT NULL,               -- Crawler name, e.g. GPTBot
+    verification TEXT NOT NULL
+        CHECK (verification IN ('verified', 'unverified', 'spoofed')),
+    hit_count INTEGER NOT NULL DEFAULT 0,
+    last_hit_at TIMESTAMPTZ NOT NULL,
+
+    UNIQUE (source_id, hit_date, path, crawler, verification)
+);
+
+-- =============================================================================
+-- INDEXES
+-- =============================================================================
+
+-- Metrics for a date range
+CREATE INDEX IF NOT EXISTS idx_crawler_hits_source_date
+    ON crawler_hits(source_id, hit_date);
+
+-- =============================================================================
+-- FUNCTION: Add hit counts in one round trip
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION record_crawler_hits(
+    p_source_id UUID,
+    p_hits JSONB
+) RETURNS void AS $$
+DECLARE
+    v_total BIGINT;
+BEGIN
+    INSERT INTO crawler_hits (source_id, hit_date, path, crawler, verification, hit_count, last_hit_at)
+    SELECT p_source_id, h.hit_date, h.path, h.crawler, h.verification, h.hit_count, h.last_hit_at
+    FROM jsonb_to_recordset(p_hits) AS h(
+        hit_date DATE,
+        path TEXT,
+        crawler TEXT,
+        verification TEXT,
+        hit_count INTEGER,
+        last_hit_at TIMESTAMPTZ
+    )
+    ON CONFLICT (source_id, hit_date, path, crawler, verification) DO UPDATE
+    SET hit_count = crawler_hits.hit_count + EXCLUDED.hit_count,
+        last_hit_at = GREATEST(crawler_hits.last_hit_at, EXCLUDED.last_hit_at);
+
+    SELECT COALESCE(SUM((h->>'hit_count')::BIGINT), 0) INTO v_total
+    FROM jsonb_array_elements(p_hits) AS h;
+
+    UPDATE crawler_log_sources
+    SET hits_total = hits_total + v_total,
+        last_received_at = NOW()
+    WHERE id = p_source_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================================================
+-- TRIGGER: Auto-update updated_at timestamp
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION update_crawler_log_sources_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_crawler_log_sources_updated_at ON crawler_log_sources;
+CREATE TRIGGER trigger_crawler_log_sources_updated_at
+    BEFORE UPDATE OF domain, ingest_key ON crawler_log_sources
+    FOR EACH ROW
+    EXECUTE FUNCTION update_crawler_log_sources_updated_at();
+
+-- =============================================================================
+-- RLS POLICIES
+-- =============================================================================
+-- CRITICAL: auth.uid() returns UUID but user_id columns are TEXT
+-- Must cast auth.uid() to TEXT for proper comparison
+
+ALTER TABLE crawler_log_sources ENABLE ROW LEVEL SECURITY;
+ALTER TABLE crawler_hits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own crawler log sources"
+ON crawler_log_sources FOR SELECT
+USING (user_id = auth.uid()::TEXT);
+
+CREATE POLICY "Service role can manage all crawler log sources"
+ON crawler_log_sources FOR ALL
+USING (auth.role() = 'service_role');
+
+CREATE POLICY "Users can view own crawler hits"
+ON crawler_hits FOR SELECT
+USING (source_id IN (SELECT id FROM crawler_log_sources WHERE user_id = auth.uid()::TEXT));
+
+CREATE POLICY "Service role can manage all crawler hits"
+ON crawler_hits FOR ALL
+USING (auth.role() = 'service_role');
+
+-- =============================================================================
+-- COMMENTS
+-- =============================================================================
+
+COMMENT ON TABLE crawler_log_sources IS 'Per-domain access-log ingestion for AI crawler hits';
+COMMENT ON COLUMN crawler_log_sources.ingest_key IS 'Key in the public ingest URL log drains post to';
+COMMENT ON TABLE crawler_hits IS 'Daily AI crawler request counts per path, from access logs';
+COMMENT ON COLUMN crawler_hits.verification IS 'verified: IP in the operator''s published ranges; spoofed: outside them; unverified: no ranges published or no IP in the log';
+COMMENT ON FUNCTION record_crawler_hits IS 'Add aggregated hit counts for a log source and bump its totals';
@@ -0,0 +1,133 @@
+-- Migration: 048_ai_referrer_catalog.sql
+-- Description: Versioned, admin-managed catalog of AI referrer platforms
+-- Date: 2026-10-19
+--
+-- AI referral traffic in GA4 was classified with a hard-coded list of platforms.
+-- The catalog moves that list into the database: admins publish new versions as
+-- assistants appear, cached metrics and daily snapshots record the version that
+-- classified them, and teams can add private patterns per domain mapping.
+
+-- =============================================================================
+-- CREATE AI_REFERRER_CATALOG_VERSIONS TABLE
+-- =============================================================================
+
+-- Each row is an immutable version of the full catalog; the highest version is current
+CREATE TABLE IF NOT EXISTS ai_referrer_catalog_versions (
+    version SERIAL PRIMARY KEY,
+
+    -- [{ name, referrerDomains: [], utmSources: [], rules: [{ field, patternType, pattern }], isActive }]
+    platforms JSONB NOT NULL,
+
+    change_note TEXT,
+    created_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CHECK (jsonb_typeof(platforms) = 'array')
+);
+
+-- Version 1: the platforms that were previously hard-coded
+INSERT INTO ai_referrer_catalog_versions (version, platforms, change_note)
+VALUES (1, '[
+  {"name": "ChatGPT", "referrerDomains": ["chat.openai.com", "chatgpt.com", "openai.com"], "utmSources": ["chatgpt.com"], "rules": [], "isActive": true},
+  {"name": "Claude", "referrerDomains": ["claude.ai"], "utmSources": [], "rules": [], "isActive": true},
+  {"name": "Gemini", "referrerDomains": ["gemini.google.com", "bard.google.com"], "utmSources": [], "rules": [], "isActive": true},
+  {"name": "Perplexity", "referrerDomains": ["perplexity.ai"], "utmSources": ["perplexity"], "rules": [], "isActive": true},
+  {"name": "You.com", "referrerDomains": ["you.com"], "utmSources": [], "rules": [], "isActive": true},
+  {"name": "Bing Copilot", "referrerDomains": ["copilot.microsoft.com"], "utmSources": [], "rules": [{"field": "referrer", "patternType": "contains", "pattern": "bing.com/chat"}], "isActive": true},
+  {"name": "Meta AI", "referrerDomains": ["meta.ai"], "utmSources": [], "rules": [], "isActive": true},
+  {"name": "DuckDuckGo AI", "referrerDomains": ["duck.ai"], "utmSources": [], "rules": [{"field": "referrer", "patternType": "contains", "pattern": "duckduckgo.com/?q="}], "isActive": true}
+]'::jsonb, 'Initial catalog')
+ON CONFLICT (version) DO NOTHING;
+
+SELECT setval(
+    pg_get_serial_sequence('ai_referrer_catalog_versions', 'version'),
+    (SELECT MAX(version) FROM ai_referrer_catalog_versions)
+);
+
+-- =============================================================================
+-- CREATE GA4_AI_REFERRER_PATTERNS TABLE
+-- =============================================================================
+
+-- Private patterns per domain mapping (e.g. an internal RAG tool), checked before the catalog
+CREATE TABLE IF NOT EXISTS ga4_ai_referrer_patterns (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    mapping_id UUID NOT NULL REFERENCES ga4_domain_mappings(id) ON DELETE CASCADE,
+
+    platform_name TEXT NOT NULL,
+    match_field VARCHAR(20) NOT NULL CHECK (match_field IN ('referrer', 'source', 'any')),
+    pattern_type VARCHAR(20) NOT NULL CHECK (pattern_type IN ('domain', 'exact', 'contains', 'regex')),
+    pattern TEXT NOT NULL,
+    description TEXT,
+
+    is_active BOOLEAN NOT NULL DEFAULT true,
+
+    created_by TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    UNIQUE (mapping_id, platform_name, match_field, pattern_type, pattern)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ga4_ai_referrer_patterns_mapping ON ga4_ai_referrer_patterns(mapping_id);
+
+-- =============================================================================
+-- RECORD CATALOG VERSION ON METRICS AND SNAPSHOTS
+-- =============================================================================
+
+ALTER TABLE ga4_crawler_metrics
+ADD COLUMN IF NOT EXISTS catalog_version INTEGER;
+
+ALTER TABLE ga4_daily_activity_snapshots
+ADD COLUMN IF NOT EXISTS catalog_version INTEGER;
+
+-- =============================================================================
+-- UPDATED_AT TRIGGER
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION update_ga4_ai_referrer_patterns_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_ga4_ai_referrer_patterns_timestamp
+BEFORE UPDATE ON ga4_ai_referrer_patterns
+FOR EACH ROW
+EXECUTE FUNCTION update_ga4_ai_referrer_patterns_updated_at();
+
+-- =============================================================================
+-- ROW LEVEL SECURITY
+-- =============================================================================
+
+ALTER TABLE ai_referrer_catalog_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ga4_ai_referrer_patterns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view the AI referrer catalog"
+ON ai_referrer_catalog_versions FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Service role can manage the AI referrer catalog"
+ON ai_referrer_catalog_versions FOR ALL
+USING (auth.role() = 'service_role');
+
+CREATE POLICY "Users can view own AI referrer patterns"
+ON ga4_ai_referrer_patterns FOR SELECT
+USING (mapping_id IN (SELECT id FROM ga4_domain_mappings WHERE user_id = auth.uid()::TEXT));
+
+CREATE POLICY "Service role can manage all AI referrer patterns"
+ON ga4_ai_referrer_patterns FOR ALL
+USING (auth.role() = 'service_role');
+
+-- =============================================================================
+-- COMMENTS
+-- =============================================================================
+
+COMMENT ON TABLE ai_referrer_catalog_versions IS 'Immutable versions of the AI platform catalog used to classify GA4 referral traffic; highest version is current';
+COMMENT ON COLUMN ai_referrer_catalog_versions.platforms IS 'Platforms with referrer domains, utm_source values and extra match rules';
+COMMENT ON TABLE ga4_ai_referrer_patterns IS 'Private AI referrer patterns for a domain mapping, checked before the catalog';
+COMMENT ON COLUMN ga4_ai_referrer_patterns.match_field IS 'referrer = pageReferrer, source = sessionSource, any = either';
+COMMENT ON COLUMN ga4_ai_referrer_patterns.pattern_type IS 'domain (host or subdomain), exact, contains, or regex (case-insensitive)';
+COMMENT ON COLUMN ga4_crawler_metrics.catalog_version IS 'AI referrer catalog version used to classify the cached metrics';
+COMMENT ON COLUMN ga4_daily_activity_snapshots.catalog_version IS 'AI referrer catalog version that produced this snapshot';
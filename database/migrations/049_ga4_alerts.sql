@@ -0,0 +1,131 @@
+-- Migration: 049_ga4_alerts.sql
+-- Description: Alert rules per GA4 domain mapping and alert history
+-- Date: 2026-10-19
+--
+-- The nightly GA4 refresh records daily snapshots but nobody was told when something
+-- changed. Alert rules are evaluated after each mapping is refreshed: score drops week
+-- over week, top pages losing all AI referrals, AI platforms seen for the first time and
+-- failed GA4 token refreshes. Alerts are delivered as in-app notifications and email,
+-- and every alert sent is kept as history.
+
+-- =============================================================================
+-- CREATE GA4_ALERT_RULES TABLE
+-- =============================================================================
+
+-- Rules without a row use the defaults in the server (enabled, in-app only)
+CREATE TABLE IF NOT EXISTS ga4_alert_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    mapping_id UUID NOT NULL REFERENCES ga4_domain_mappings(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+    rule_type VARCHAR(40) NOT NULL CHECK (rule_type IN ('score_drop', 'page_lost_ai_referrals', 'new_ai_platform', 'token_refresh_failed')),
+    -- score_drop: points; page_lost_ai_referrals: number of top pages watched
+    threshold NUMERIC,
+
+    is_enabled BOOLEAN NOT NULL DEFAULT true,
+    notify_in_app BOOLEAN NOT NULL DEFAULT true,
+    notify_email BOOLEAN NOT NULL DEFAULT false,
+
+    -- Muted rules are still saved but not delivered; NULL muted_until = until unmuted
+    is_muted BOOLEAN NOT NULL DEFAULT false,
+    muted_until TIMESTAMPTZ,
+
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    UNIQUE (mapping_id, rule_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ga4_alert_rules_user ON ga4_alert_rules(user_id);
+
+-- =============================================================================
+-- CREATE GA4_ALERT_EVENTS TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS ga4_alert_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    mapping_id UUID NOT NULL REFERENCES ga4_domain_mappings(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+    rule_type VARCHAR(40) NOT NULL,
+    title TEXT NOT NULL,
+    message TEXT NOT NULL,
+    details JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+    -- Identifies the condition (e.g. platform name, week) so it is only alerted once
+    dedupe_key TEXT NOT NULL,
+
+    notified_in_app BOOLEAN NOT NULL DEFAULT false,
+    notified_email BOOLEAN NOT NULL DEFAULT false,
+    email_error TEXT,
+
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    UNIQUE (mapping_id, rule_type, dedupe_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ga4_alert_events_user_created ON ga4_alert_events(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ga4_alert_events_mapping_created ON ga4_alert_events(mapping_id, created_at DESC);
+
+-- =============================================================================
+-- IN-APP NOTIFICATIONS
+-- =============================================================================
+
+ALTER TABLE user_notifications DROP CONSTRAINT IF EXISTS user_notifications_type_check;
+ALTER TABLE user_notifications
+ADD CONSTRAINT user_notifications_type_check
+CHECK (type IN ('beta_access_granted', 'feature_announcement', 'system', 'ga4_alert'));
+
+ALTER TABLE user_notifications
+ADD COLUMN IF NOT EXISTS link TEXT;
+
+-- =============================================================================
+-- UPDATED_AT TRIGGER
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION update_ga4_alert_rules_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_ga4_alert_rules_timestamp
+BEFORE UPDATE ON ga4_alert_rules
+FOR EACH ROW
+EXECUTE FUNCTION update_ga4_alert_rules_updated_at();
+
+-- =============================================================================
+-- ROW LEVEL SECURITY
+-- =============================================================================
+
+ALTER TABLE ga4_alert_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ga4_alert_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own GA4 alert rules"
+ON ga4_alert_rules FOR SELECT
+USING (user_id = auth.uid()::TEXT);
+
+CREATE POLICY "Service role can manage all GA4 alert rules"
+ON ga4_alert_rules FOR ALL
+USING (auth.role() = 'service_role');
+
+CREATE POLICY "Users can view own GA4 alert events"
+ON ga4_alert_events FOR SELECT
+USING (user_id = auth.uid()::TEXT);
+
+CREATE POLICY "Service role can manage all GA4 alert events"
+ON ga4_alert_events FOR ALL
+USING (auth.role() = 'service_role');
+
+-- =============================================================================
+-- COMMENTS
+-- =============================================================================
+
+COMMENT ON TABLE ga4_alert_rules IS 'Alert rules per GA4 domain mapping, evaluated after the nightly refresh';
+COMMENT ON COLUMN ga4_alert_rules.threshold IS 'score_drop: points lost week over week; page_lost_ai_referrals: top pages watched';
+COMMENT ON COLUMN ga4_alert_rules.muted_until IS 'End of a temporary mute; NULL with is_muted = muted until unmuted';
+COMMENT ON TABLE ga4_alert_events IS 'History of GA4 alerts sent and how they were delivered';
+COMMENT ON COLUMN ga4_alert_events.dedupe_key IS 'Condition identity (week, page, platform or day) so each condition is alerted once';
+COMMENT ON COLUMN user_notifications.link IS 'Optional in-app path the notification links to';
@@ -0,0 +1,32 @@
+-- Migration: 050_webhook_delivery_updated_at.sql
+-- Description: Track when webhook deliveries last changed so interrupted attempts can be requeued
+-- Date: 2026-10-19
+--
+-- A delivery is claimed by setting its status to 'delivering' before the POST is sent.
+-- If the server crashes or restarts during the send, the row stayed 'delivering' forever.
+-- The retry worker now moves deliveries that have been 'delivering' for too long back to
+-- 'pending', using updated_at as the claim time.
+
+ALTER TABLE webhook_deliveries
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+CREATE OR REPLACE FUNCTION update_webhook_deliveries_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_webhook_deliveries_updated_at ON webhook_deliveries;
+CREATE TRIGGER trigger_webhook_deliveries_updated_at
+    BEFORE UPDATE ON webhook_deliveries
+    FOR EACH ROW
+    EXECUTE FUNCTION update_webhook_deliveries_updated_at();
+
+-- Retry worker: deliveries stuck in 'delivering'
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_delivering
+    ON webhook_deliveries(updated_at)
+    WHERE status = 'delivering';
+
+COMMENT ON COLUMN webhook_deliveries.updated_at IS 'Last status change; a delivering row older than the cutoff was interrupted and is requeued';
@@ -0,0 +1,21 @@
+-- Migration: 051_hubspot_live_head_html_snapshot.sql
+-- Description: Keep the live head HTML of pages on HubSpot sync jobs for rollback
+-- Date: 2026-10-19
+--
+-- Pushes to pages and landing pages write the draft, and publishing pushes the draft live.
+-- previous_head_html only holds the draft, so rolling back a published push restored the
+-- draft while the live page kept the pushed schema. Sync jobs now also store the live head
+-- HTML read before the push; rollback restores it and pushes it live again.
+
+-- =============================================================================
+-- ADD SNAPSHOT COLUMN
+-- =============================================================================
+
+ALTER TABLE hubspot_sync_jobs
+    ADD COLUMN IF NOT EXISTS previous_live_head_html TEXT;   -- Live head HTML read before the push (pages only)
+
+-- =============================================================================
+-- COMMENTS
+-- =============================================================================
+
+COMMENT ON COLUMN hubspot_sync_jobs.previous_live_head_html IS 'Live head HTML of a page before the push, restored and published on rollback when the push went live';
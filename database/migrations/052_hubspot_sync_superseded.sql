@@ -0,0 +1,31 @@
+-- Migration: 052_hubspot_sync_superseded.sql
+-- Description: Stop HubSpot retries from re-pushing schema that a newer push or rollback replaced
+-- Date: 2026-10-19
+--
+-- A retry re-sends the schema HTML captured when the job first failed, and the push replaces
+-- the whole SuperSchema block. Retries run for about half an hour, so a stale job could
+-- overwrite a newer successful push or a rollback of the same post or page. Such jobs now
+-- end as failed with failure_reason 'superseded' instead of being pushed.
+
+-- =============================================================================
+-- ADD FAILURE REASON
+-- =============================================================================
+
+ALTER TABLE hubspot_sync_jobs
+    DROP CONSTRAINT IF EXISTS hubspot_sync_jobs_failure_reason_check;
+
+ALTER TABLE hubspot_sync_jobs
+    ADD CONSTRAINT hubspot_sync_jobs_failure_reason_check
+        CHECK (failure_reason IN (
+            'rate_limited', 'server_error', 'network_error', 'token_refresh_failed',
+            'tier_limited', 'not_found', 'unauthorized', 'connection_inactive',
+            'invalid_request', 'superseded', 'unknown'
+        ));
+
+-- =============================================================================
+-- INDEXES
+-- =============================================================================
+
+-- Newer jobs and rollbacks of the same content, checked before every retry
+CREATE INDEX IF NOT EXISTS idx_hubspot_sync_jobs_content
+    ON hubspot_sync_jobs(connection_id, hubspot_content_id, created_at);
@@ -0,0 +1,18 @@
+-- Migration: 053_hubspot_sync_claimed_at.sql
+-- Description: Track when the retry worker claimed a HubSpot sync job so interrupted retries can be requeued
+-- Date: 2026-10-19
+--
+-- The retry worker claims a due job by moving it from 'retrying' to 'pending' before pushing.
+-- If the server crashed or restarted during the push, the job stayed 'pending' forever. The
+-- worker now moves jobs claimed too long ago back to 'retrying' (or 'failed' once out of
+-- retries), using claimed_at as the claim time.
+
+ALTER TABLE hubspot_sync_jobs
+ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMPTZ;
+
+-- Retry worker: claimed jobs stuck in 'pending'
+CREATE INDEX IF NOT EXISTS idx_hubspot_sync_jobs_claimed
+    ON hubspot_sync_jobs(claimed_at)
+    WHERE status = 'pending' AND claimed_at IS NOT NULL;
+
+COMMENT ON COLUMN hubspot_sync_jobs.claimed_at IS 'When the retry worker claimed the job; a pending job claimed before the cutoff was interrupted and is requeued';
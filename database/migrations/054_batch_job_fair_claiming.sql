@@ -0,0 +1,71 @@
+-- Migration: 054_batch_job_fair_claiming.sql
+-- Description: Share batch generation workers fairly between users
+-- Date: 2026-10-19
+--
+-- claim_next_batch_job_item() served the oldest job first, so one user's large batch kept
+-- every worker slot busy until it finished and everyone else's jobs waited behind it.
+-- Jobs now record when an item was last claimed, and the claim goes to the user whose
+-- active jobs were served least recently (users without a claim yet come first). A user's
+-- own jobs are still served oldest first, items in submission order.
+
+-- =============================================================================
+-- ADD LAST_CLAIMED_AT TO BATCH_JOBS
+-- =============================================================================
+
+ALTER TABLE batch_jobs
+ADD COLUMN IF NOT EXISTS last_claimed_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN batch_jobs.last_claimed_at IS 'When the worker last claimed an item of this job; the user served least recently is claimed for next';
+
+-- Worker lookup of each user's last claim among active jobs
+CREATE INDEX IF NOT EXISTS idx_batch_jobs_active_user
+    ON batch_jobs(user_id, last_claimed_at)
+    WHERE status IN ('queued', 'running');
+
+-- =============================================================================
+-- FUNCTION: Claim the next queued item, round-robin across users
+-- =============================================================================
+-- Still FOR UPDATE SKIP LOCKED so multiple workers never pick up the same URL.
+
+CREATE OR REPLACE FUNCTION claim_next_batch_job_item()
+RETURNS SETOF batch_job_items AS $$
+DECLARE
+    v_item_id UUID;
+    v_job_id UUID;
+BEGIN
+    WITH user_last_claim AS (
+        SELECT user_id, MAX(last_claimed_at) AS last_claimed_at
+        FROM batch_jobs
+        WHERE status IN ('queued', 'running')
+        GROUP BY user_id
+    )
+    SELECT i.id, i.job_id INTO v_item_id, v_job_id
+    FROM batch_job_items i
+    JOIN batch_jobs j ON j.id = i.job_id
+    JOIN user_last_claim u ON u.user_id = j.user_id
+    WHERE i.status = 'queued'
+      AND j.status IN ('queued', 'running')
+    ORDER BY u.last_claimed_at ASC NULLS FIRST, j.created_at ASC, i.position ASC
+    LIMIT 1
+    FOR UPDATE OF i SKIP LOCKED;
+
+    IF v_item_id IS NULL THEN
+        RETURN;
+    END IF;
+
+    UPDATE batch_jobs
+    SET status = CASE WHEN status = 'queued' THEN 'running' ELSE status END,
+        started_at = COALESCE(started_at, NOW()),
+        last_claimed_at = NOW()
+    WHERE id = v_job_id;
+
+    RETURN QUERY
+    UPDATE batch_job_items
+    SET status = 'processing',
+        attempts = attempts + 1,
+        started_at = NOW(),
+        error = NULL
+    WHERE id = v_item_id
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
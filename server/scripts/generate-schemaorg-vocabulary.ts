@@ -0,0 +1,322 @@
+/**
+ * Generate src/data/schemaorgVocabulary.ts from a schema.org release
+ *
+ * Usage:
+ *   npx tsx scripts/generate-schemaorg-vocabulary.ts
+ *   npx tsx scripts/generate-schemaorg-vocabulary.ts --input schemaorg-current-https.jsonld --release 29.4
+ *
+ * Without --input, the vocabulary is read from the pinned @vocabulary/schema devDependency,
+ * which ships schema.org's schemaorg-current-http.nt. With --input, pass a file downloaded
+ * from https://schema.org/version/<release>/ (JSON-LD or N-Triples) and its release number.
+ *
+ * Both files hold the same vocabulary (core and pending terms); only the serialization and
+ * the http/https namespace differ.
+ */
+
+import { readFileSync, writeFileSync } from 'fs'
+import { createRequire } from 'module'
+import path from 'path'
+import { fileURLToPath } from 'url'
+
+const require = createRequire(import.meta.url)
+
+const OUTPUT_FILE = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../src/data/schemaorgVocabulary.ts')
+const PINNED_PACKAGE = '@vocabulary/schema'
+
+const RDF_TYPE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type'
+const RDF_PROPERTY = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#Property'
+const RDFS_CLASS = 'http://www.w3.org/2000/01/rdf-schema#Class'
+const RDFS_SUBCLASS_OF = 'http://www.w3.org/2000/01/rdf-schema#subClassOf'
+const SCHEMA_NAMESPACE = /^https?:\/\/schema\.org\/([A-Za-z0-9_-]+)$/
+
+/** Wrap arrays in the generated file at this width */
+const LINE_WIDTH = 110
+
+type Triple = [subject: string, predicate: string, object: string]
+
+// =============================================================================
+// INPUT
+// =============================================================================
+
+/**
+ * IRI triples of an N-Triples / N-Quads file (literal objects are skipped, nothing needs them)
+ */
+function parseNTriples(source: string): Triple[] {
+  const triples: Triple[] = []
+  for (const line of source.split('\n')) {
+    const match = line.match(/^<([^>]+)> <([^>]+)> <([^>]+)>/)
+    if (match) triples.push([match[1], match[2], match[3]])
+  }
+  return triples
+}
+
+/**
+ * IRI triples of schema.org's JSON-LD release file (a flat @graph with compact IRIs)
+ */
+function parseJsonLd(source: string): Triple[] {
+  const document = JSON.parse(source)
+  const context: Record<string, string> = document['@context'] || {}
+  const expand = (iri: string): string => {
+    const separator = iri.indexOf(':')
+    const prefix = separator > 0 ? iri.slice(0, separator) : ''
+    return typeof context[prefix] === 'string' && !iri.startsWith(`${prefix}://`)
+      ? `${context[prefix]}${iri.slice(separator + 1)}`
+      : iri
+  }
+
+  const triples: Triple[] = []
+  for (const node of document['@graph'] || []) {
+    const subject = expand(node['@id'])
+    for (const [key, value] of Object.entries(node)) {
+      if (key === '@id') continue
+      const predicate = key === '@type' ? RDF_TYPE : expand(key)
+      for (const object of Array.isArray(value) ? value : [value]) {
+        if (typeof object === 'string' && key === '@type') triples.push([subject, predicate, expand(object)])
+        else if (object && typeof object === 'object' && typeof (object as any)['@id'] === 'string') {
+          triples.push([subject, predicate, expand((object as any)['@id'])])
+        }
+      }
+    }
+  }
+  return triples
+}
+
+function readArgs(): { input?: string; release?: string } {
+  const args = process.argv.slice(2)
+  const valueOf = (name: string) => {
+    const index = args.indexOf(name)
+    return index >= 0 ? args[index + 1] : undefined
+  }
+  return { input: valueOf('--input'), release: valueOf('--release') }
+}
+
+function loadTriples(): { triples: Triple[]; release: string } {
+  const { input, release } = readArgs()
+
+  if (input) {
+    if (!release) {
+      throw new Error('--release is required with --input (the version in the schema.org download URL)')
+    }
+    const source = readFileSync(input, 'utf8')
+    return { triples: input.endsWith('.jsonld') ? parseJsonLd(source) : parseNTriples(source), release }
+  }
+
+  const pkg = require(`${PINNED_PACKAGE}/package.json`)
+  const source = readFileSync(require.resolve(`${PINNED_PACKAGE}/schema.nq`), 'utf8')
+  return {
+    triples: parseNTriples(source),
+    release: release || `${pkg.vocabulary.file.split('/').pop()} from ${pkg.name}@${pkg.version}`
+  }
+}
+
+// =============================================================================
+// VOCABULARY
+// =============================================================================
+
+function buildVocabulary(triples: Triple[]) {
+  const term = (iri: string) => iri.match(SCHEMA_NAMESPACE)?.[1]
+  const classes = new Set<string>()
+  const propertyNames = new Set<string>()
+  const parents = new Map<string, Set<string>>()
+  const instanceTypes = new Map<string, Set<string>>()
+  const domains = new Map<string, Set<string>>()
+  const ranges = new Map<string, Set<string>>()
+  const superseded = new Map<string, string[]>()
+
+  const add = (map: Map<string, Set<string>>, key: string, value: string) => {
+    if (!map.has(key)) map.set(key, new Set())
+    map.get(key)!.add(value)
+  }
+
+  for (const [subjectIri, predicate, objectIri] of triples) {
+    const subject = term(subjectIri)
+    if (!subject) continue
+    const object = term(objectIri)
+
+    if (predicate === RDF_TYPE) {
+      if (objectIri === RDFS_CLASS) classes.add(subject)
+      else if (objectIri === RDF_PROPERTY) propertyNames.add(subject)
+      else if (object) add(instanceTypes, subject, object)
+    } else if (predicate === RDFS_SUBCLASS_OF && object) {
+      add(parents, subject, object)
+    } else if (object && predicate.endsWith('schema.org/domainIncludes')) {
+      add(domains, subject, object)
+    } else if (object && predicate.endsWith('schema.org/rangeIncludes')) {
+      add(ranges, subject, object)
+    } else if (object && predicate.endsWith('schema.org/supersededBy')) {
+      superseded.set(subject, [...(superseded.get(subject) || []), object])
+    }
+  }
+
+  const sorted = (values: Iterable<string>) => Array.from(values).sort((a, b) => a.localeCompare(b, 'en'))
+
+  // Data types are the classes typed schema:DataType and their subclasses (URL -> Text)
+  const isDataType = (name: string, seen = new Set<string>()): boolean => {
+    if (seen.has(name)) return false
+    seen.add(name)
+    if (instanceTypes.get(name)?.has('DataType')) return true
+    return Array.from(parents.get(name) || []).some(parent => isDataType(parent, seen))
+  }
+  const dataTypeNames = sorted(Array.from(classes).filter(name => name !== 'DataType' && isDataType(name)))
+  const dataTypeSet = new Set(dataTypeNames)
+
+  const typeNames = sorted(Array.from(classes).filter(name => name !== 'DataType' && !dataTypeSet.has(name)))
+  const typeSet = new Set(typeNames)
+
+  const declaredProperties = new Map<string, string[]>()
+  for (const property of sorted(propertyNames)) {
+    for (const domain of domains.get(property) || []) {
+      if (typeSet.has(domain)) declaredProperties.set(domain, [...(declaredProperties.get(domain) || []), property])
+    }
+  }
+
+  const isEnumeration = (name: string, seen = new Set<string>()): boolean => {
+    if (name === 'Enumeration') return true
+    if (seen.has(name)) return false
+    seen.add(name)
+    return Array.from(parents.get(name) || []).some(parent => isEnumeration(parent, seen))
+  }
+  const enumerationMembers = new Map<string, string[]>()
+  for (const [member, memberTypes] of instanceTypes) {
+    for (const enumeration of memberTypes) {
+      if (typeSet.has(enumeration) && isEnumeration(enumeration)) {
+        enumerationMembers.set(enumeration, [...(enumerationMembers.get(enumeration) || []), member])
+      }
+    }
+  }
+
+  return {
+    types: typeNames.map(name => ({
+      name,
+      parents: sorted(Array.from(parents.get(name) || []).filter(parent => typeSet.has(parent))),
+      properties: sorted(declaredProperties.get(name) || [])
+    })),
+    dataTypes: dataTypeNames.map(name => ({
+      name,
+      parents: sorted(Array.from(parents.get(name) || []).filter(parent => dataTypeSet.has(parent)))
+    })),
+    properties: sorted(propertyNames).map(name => ({ name, ranges: sorted(ranges.get(name) || []) })),
+    enumerationMembers: sorted(enumerationMembers.keys()).map(name => ({
+      name,
+      members: sorted(enumerationMembers.get(name)!)
+    })),
+    superseded: sorted(superseded.keys()).map(name => ({ name, replacement: sorted(superseded.get(name)!)[0] }))
+  }
+}
+
+// =============================================================================
+// OUTPUT
+// =============================================================================
+
+function key(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : `'${name}'`
+}
+
+/**
+ * A string array literal, wrapped onto indented lines when it doesn't fit after the prefix
+ */
+function formatArray(values: string[], prefix: string, indent: string): string {
+  const items = values.map(value => `'${value}'`)
+  const inline = `[${items.join(', ')}]`
+  if (prefix.length + inline.length <= LINE_WIDTH) return inline
+
+  const lines: string[] = []
+  let line = ''
+  for (const item of items) {
+    const next = line ? `${line} ${item},` : `${item},`
+    if (indent.length + 2 + next.length > LINE_WIDTH && line) {
+      lines.push(line)
+      line = `${item},`
+    } else {
+      line = next
+    }
+  }
+  lines.push(line.replace(/,$/, ''))
+  return `[\n${lines.map(l => `${indent}  ${l}`).join('\n')}\n${indent}]`
+}
+
+function render(vocabulary: ReturnType<typeof buildVocabulary>, release: string): string {
+  const out: string[] = []
+
+  out.push(`/**
+ * Bundled schema.org vocabulary
+ *
+ * Generated by scripts/generate-schemaorg-vocabulary.ts - do not edit by hand.
+ * Used to validate and sanitize generated schemas. Unknown types are never used to reject a
+ * property or value.
+ *
+ * Format:
+ * - types: every class with its direct parents and the properties declared on it
+ *   (schema:domainIncludes inverted). Inherited properties are not repeated.
+ * - dataTypes: literal types (Text, URL, Number, ...) with their parents
+ * - properties: property name -> accepted value types (schema:rangeIncludes)
+ * - enumerationMembers: enumeration -> member names
+ * - superseded: deprecated type/property/member -> replacement (schema:supersededBy)
+ */
+
+export interface SchemaVocabularyType {
+  parents: string[]
+  properties: string[]
+}
+
+export interface SchemaVocabularyData {
+  /** schema.org release the bundle was built from */
+  release: string
+  types: Record<string, SchemaVocabularyType>
+  dataTypes: Record<string, string[]>
+  properties: Record<string, string[]>
+  enumerationMembers: Record<string, string[]>
+  superseded: Record<string, string>
+}
+
+export const SCHEMAORG_VOCABULARY: SchemaVocabularyData = {
+  release: '${release.replace(/'/g, "\\'")}',
+`)
+
+  out.push('  types: {')
+  out.push(vocabulary.types.map(type => {
+    const parents = formatArray(type.parents, `    ${key(type.name)}: { parents: `, '      ')
+    const inline = `    ${key(type.name)}: { parents: ${parents}, properties: ${formatArray(type.properties, '', '      ')} }`
+    if (!inline.includes('\n') && inline.length <= LINE_WIDTH) return inline
+    return [
+      `    ${key(type.name)}: {`,
+      `      parents: ${formatArray(type.parents, '      parents: ', '      ')},`,
+      `      properties: ${formatArray(type.properties, '      properties: ', '      ')}`,
+      '    }'
+    ].join('\n')
+  }).join(',\n'))
+  out.push('  },\n')
+
+  const section = (name: string, entries: Array<[string, string]>) => {
+    out.push(`  ${name}: {`)
+    out.push(entries.map(([entryKey, value]) => `    ${entryKey}: ${value}`).join(',\n'))
+    out.push('  }')
+  }
+
+  section('dataTypes', vocabulary.dataTypes.map(type => [key(type.name), formatArray(type.parents, `    ${key(type.name)}: `, '    ')]))
+  out[out.length - 1] += ',\n'
+  section('properties', vocabulary.properties.map(property => [
+    key(property.name),
+    formatArray(property.ranges, `    ${key(property.name)}: `, '    ')
+  ]))
+  out[out.length - 1] += ',\n'
+  section('enumerationMembers', vocabulary.enumerationMembers.map(enumeration => [
+    key(enumeration.name),
+    formatArray(enumeration.members, `    ${key(enumeration.name)}: `, '    ')
+  ]))
+  out[out.length - 1] += ',\n'
+  section('superseded', vocabulary.superseded.map(entry => [key(entry.name), `'${entry.replacement}'`]))
+  out.push('}\n')
+
+  return out.join('\n')
+}
+
+const { triples, release } = loadTriples()
+const vocabulary = buildVocabulary(triples)
+writeFileSync(OUTPUT_FILE, render(vocabulary, release))
+
+console.log(
+  `✅ Wrote ${path.relative(process.cwd(), OUTPUT_FILE)} (${release}): ${vocabulary.types.length} types, ` +
+  `${vocabulary.dataTypes.length} data types, ${vocabulary.properties.length} properties, ` +
+  `${vocabulary.enumerationMembers.length} enumerations`
+)
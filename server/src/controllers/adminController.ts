@@ -4,6 +4,14 @@ import { createError, asyncHandler } from '../middleware/errorHandler.js'
 import type { AuthenticatedRequest } from '../middleware/auth.js'
 import { hubspotCRM } from '../services/hubspotCRM.js'
 import { z } from 'zod'
+import {
+  aiReferrerCatalog,
+  AI_REFERRER_FIELDS,
+  AI_REFERRER_PATTERN_TYPES,
+  type AIPlatformDefinition,
+  type AIReferrerField,
+  type AIReferrerPatternType
+} from '../services/ga4/aiReferrerCatalog.js'
 
 // Validation schemas
 const searchUsersSchema = z.object({
@@ -25,6 +33,21 @@ const toggleAdminStatusSchema = z.object({
   isAdmin: z.boolean()
 })
 
+const publishAIReferrerCatalogSchema = z.object({
+  platforms: z.array(z.object({
+    name: z.string().min(1),
+    referrerDomains: z.array(z.string()).default([]),
+    utmSources: z.array(z.string()).default([]),
+    rules: z.array(z.object({
+      field: z.enum(AI_REFERRER_FIELDS as [AIReferrerField, ...AIReferrerField[]]),
+      patternType: z.enum(AI_REFERRER_PATTERN_TYPES as [AIReferrerPatternType, ...AIReferrerPatternType[]]),
+      pattern: z.string().min(1)
+    })).default([]),
+    isActive: z.boolean().default(true)
+  })).min(1),
+  changeNote: z.string().max(500).optional()
+})
+
 // Health check endpoint for admin access verification
 export const adminHealthCheck = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
   console.log('✅ [AdminController] Health check passed for user:', req.auth?.userId)
@@ -971,3 +994,44 @@ export const updateFeatureStatus = asyncHandler(async (req: AuthenticatedRequest
     }
   })
 })
+
+// AI Referrer Catalog Management
+
+export const getAIReferrerCatalogVersions = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const [current, versions] = await Promise.all([
+    aiReferrerCatalog.getCurrentCatalog(),
+    aiReferrerCatalog.listVersions()
+  ])
+
+  res.json({
+    success: true,
+    data: {
+      current,
+      versions
+    }
+  })
+})
+
+export const publishAIReferrerCatalog = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const parsed = publishAIReferrerCatalogSchema.safeParse(req.body)
+  if (!parsed.success) {
+    throw createError(`Invalid catalog: ${parsed.error.errors.map(e => `${e.path.join('.') || 'body'} ${e.message}`).join(', ')}`, 400)
+  }
+
+  // Non-strict mode types zod output as partial - defaults fill every field
+  const platforms = parsed.data.platforms as AIPlatformDefinition[]
+  const { changeNote } = parsed.data
+
+  let catalog
+  try {
+    catalog = await aiReferrerCatalog.publishVersion(platforms, req.auth.userId, changeNote)
+  } catch (error) {
+    throw createError(error instanceof Error ? error.message : 'Failed to publish catalog', 400)
+  }
+
+  res.json({
+    success: true,
+    data: catalog,
+    message: `AI referrer catalog version ${catalog.version} published`
+  })
+})
@@ -0,0 +1,207 @@
+import { Response } from 'express'
+import { createError, asyncHandler } from '../middleware/errorHandler.js'
+import type { AuthenticatedRequest } from '../middleware/auth.js'
+import apiKeyService from '../services/apiKeyService.js'
+
+// =============================================================================
+// INPUT VALIDATION HELPERS
+// =============================================================================
+
+const MAX_NAME_LENGTH = 100
+
+/**
+ * Validate and trim an API key name
+ */
+function validateKeyName(name: unknown, required: boolean): string | undefined {
+  if (name === undefined && !required) {
+    return undefined
+  }
+
+  if (typeof name !== 'string' || name.trim().length === 0) {
+    throw createError('API key name is required', 400)
+  }
+
+  const trimmed = name.trim()
+  if (trimmed.length > MAX_NAME_LENGTH) {
+    throw createError(`API key name cannot exceed ${MAX_NAME_LENGTH} characters`, 400)
+  }
+
+  return trimmed
+}
+
+/**
+ * Validate requested scopes, converting service errors to 400s
+ */
+function validateScopes(scopes: unknown) {
+  if (scopes === undefined) {
+    return undefined
+  }
+
+  try {
+    return apiKeyService.normalizeScopes(scopes)
+  } catch (error) {
+    throw createError(error instanceof Error ? error.message : 'Invalid scopes', 400)
+  }
+}
+
+/**
+ * Map service "not found"/"revoked"/"limit" errors to proper HTTP status codes
+ */
+function toHttpError(error: unknown, fallback: string) {
+  const message = error instanceof Error ? error.message : fallback
+
+  if (message.includes('not found')) return createError(message, 404)
+  if (message.includes('already been revoked')) return createError(message, 409)
+  if (message.includes('at most')) return createError(message, 400)
+
+  return createError(message, 500)
+}
+
+// =============================================================================
+// API KEY HANDLERS
+// =============================================================================
+
+/**
+ * GET /api/team/api-keys
+ * List API keys for the current team
+ */
+export const listApiKeys = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const teamId = req.auth!.teamId!
+
+    const apiKeys = await apiKeyService.listApiKeys(teamId)
+
+    res.json({
+      success: true,
+      data: apiKeys
+    })
+  }
+)
+
+/**
+ * POST /api/team/api-keys
+ * Create a new API key - the secret is only returned in this response
+ */
+export const createApiKey = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const teamId = req.auth!.teamId!
+    const userId = req.auth!.userId
+
+    const name = validateKeyName(req.body?.name, true)!
+    const scopes = validateScopes(req.body?.scopes)
+
+    console.log('🔑 [ApiKeyController] Creating API key:', { teamId, userId, name, scopes })
+
+    try {
+      const created = await apiKeyService.createApiKey(teamId, userId, { name, scopes })
+
+      res.status(201).json({
+        success: true,
+        data: created,
+        message: 'API key created. Copy it now - it will not be shown again.'
+      })
+    } catch (error) {
+      throw toHttpError(error, 'Failed to create API key')
+    }
+  }
+)
+
+/**
+ * PATCH /api/team/api-keys/:keyId
+ * Rename an API key or change its scopes
+ */
+export const updateApiKey = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { keyId } = req.params
+    const teamId = req.auth!.teamId!
+
+    if (!keyId) {
+      throw createError('API key ID is required', 400)
+    }
+
+    const name = validateKeyName(req.body?.name, false)
+    const scopes = validateScopes(req.body?.scopes)
+
+    if (name === undefined && scopes === undefined) {
+      throw createError('Nothing to update', 400)
+    }
+
+    try {
+      const apiKey = await apiKeyService.updateApiKey(keyId, teamId, { name, scopes })
+
+      res.json({
+        success: true,
+        data: apiKey,
+        message: 'API key updated successfully'
+      })
+    } catch (error) {
+      throw toHttpError(error, 'Failed to update API key')
+    }
+  }
+)
+
+/**
+ * POST /api/team/api-keys/:keyId/rotate
+ * Replace an API key's secret - the old secret stops working immediately
+ */
+export const rotateApiKey = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { keyId } = req.params
+    const teamId = req.auth!.teamId!
+
+    if (!keyId) {
+      throw createError('API key ID is required', 400)
+    }
+
+    console.log('🔄 [ApiKeyController] Rotating API key:', { keyId, teamId })
+
+    try {
+      const rotated = await apiKeyService.rotateApiKey(keyId, teamId)
+
+      res.json({
+        success: true,
+        data: rotated,
+        message: 'API key rotated. Copy the new key now - it will not be shown again.'
+      })
+    } catch (error) {
+      throw toHttpError(error, 'Failed to rotate API key')
+    }
+  }
+)
+
+/**
+ * DELETE /api/team/api-keys/:keyId
+ * Revoke an API key
+ */
+export const revokeApiKey = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { keyId } = req.params
+    const teamId = req.auth!.teamId!
+    const userId = req.auth!.userId
+
+    if (!keyId) {
+      throw createError('API key ID is required', 400)
+    }
+
+    console.log('🗑️ [ApiKeyController] Revoking API key:', { keyId, teamId, userId })
+
+    try {
+      await apiKeyService.revokeApiKey(keyId, teamId, userId)
+
+      res.json({
+        success: true,
+        message: 'API key revoked successfully'
+      })
+    } catch (error) {
+      throw toHttpError(error, 'Failed to revoke API key')
+    }
+  }
+)
+
+export default {
+  listApiKeys,
+  createApiKey,
+  updateApiKey,
+  rotateApiKey,
+  revokeApiKey
+}
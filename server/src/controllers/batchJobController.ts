@@ -0,0 +1,246 @@
+import { Response } from 'express'
+import { createError, asyncHandler } from '../middleware/errorHandler.js'
+import type { AuthenticatedRequest } from '../middleware/auth.js'
+import batchJobService, { MAX_URLS_PER_JOB } from '../services/batchJobService.js'
+import { batchJobWorker } from '../services/batchJobWorker.js'
+import type { BatchJobMode } from 'aeo-schema-generator-shared/types'
+
+const BATCH_JOB_MODES: BatchJobMode[] = ['generate', 'import']
+
+// =============================================================================
+// INPUT VALIDATION HELPERS
+// =============================================================================
+
+/**
+ * Validate, normalize and de-duplicate the submitted URL list
+ */
+function validateUrls(urls: unknown): string[] {
+  if (!Array.isArray(urls) || urls.length === 0) {
+    throw createError('Request must contain an array of URLs', 400)
+  }
+
+  const unique: string[] = []
+  const seen = new Set<string>()
+
+  for (const value of urls) {
+    if (typeof value !== 'string') {
+      throw createError('Each URL must be a string', 400)
+    }
+
+    let parsed: URL
+    try {
+      parsed = new URL(value.trim())
+    } catch {
+      throw createError(`Invalid URL format: ${value}`, 400)
+    }
+
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      throw createError(`Only http(s) URLs are supported: ${value}`, 400)
+    }
+
+    const normalized = parsed.toString()
+    if (!seen.has(normalized)) {
+      seen.add(normalized)
+      unique.push(normalized)
+    }
+  }
+
+  if (unique.length > MAX_URLS_PER_JOB) {
+    throw createError(`Maximum ${MAX_URLS_PER_JOB} URLs allowed per batch job`, 400)
+  }
+
+  return unique
+}
+
+/**
+ * Map service "not found"/"transition"/"limit" errors to proper HTTP status codes
+ */
+function toHttpError(error: unknown, fallback: string) {
+  const message = error instanceof Error ? error.message : fallback
+
+  if (message.includes('not found')) return createError(message, 404)
+  if (message.includes('cannot be changed') || message.includes('no failed URLs')) return createError(message, 409)
+  if (message.includes('at most')) return createError(message, 429)
+
+  return createError(message, 500)
+}
+
+// =============================================================================
+// BATCH JOB HANDLERS
+// =============================================================================
+
+/**
+ * POST /api/schema/batch-jobs
+ * Queue a batch generation job - processing continues after the client disconnects
+ * With options.mode = 'import' the job imports each page's existing JSON-LD instead (no credits)
+ */
+export const createBatchJob = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.auth!.userId
+    const urls = validateUrls(req.body?.urls)
+    const options = req.body?.options && typeof req.body.options === 'object' ? req.body.options : {}
+
+    if (options.mode !== undefined && !BATCH_JOB_MODES.includes(options.mode)) {
+      throw createError(`Invalid batch job mode. Must be one of: ${BATCH_JOB_MODES.join(', ')}`, 400)
+    }
+
+    console.log('📦 [BatchJobController] Creating batch job:', { userId, urlCount: urls.length })
+
+    try {
+      const job = await batchJobService.createJob(userId, urls, options, req.auth!.teamId)
+      batchJobWorker.kick()
+
+      res.status(201).json({
+        success: true,
+        data: job,
+        message: options.mode === 'import'
+          ? `Import job queued with ${urls.length} URLs`
+          : `Batch job queued with ${urls.length} URLs`
+      })
+    } catch (error) {
+      throw toHttpError(error, 'Failed to create batch job')
+    }
+  }
+)
+
+/**
+ * GET /api/schema/batch-jobs
+ * List the user's recent batch jobs
+ */
+export const listBatchJobs = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.auth!.userId
+
+    const jobs = await batchJobService.listJobs(userId)
+
+    res.json({
+      success: true,
+      data: jobs
+    })
+  }
+)
+
+/**
+ * GET /api/schema/batch-jobs/:jobId
+ * Get a job with per-URL state - polled by the client to follow or reattach to a job
+ */
+export const getBatchJob = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.auth!.userId
+    const { jobId } = req.params
+
+    const details = await batchJobService.getJobDetails(jobId, userId)
+    if (!details) {
+      throw createError('Batch job not found', 404)
+    }
+
+    res.json({
+      success: true,
+      data: details
+    })
+  }
+)
+
+/**
+ * POST /api/schema/batch-jobs/:jobId/pause
+ * Stop claiming new URLs for a job
+ */
+export const pauseBatchJob = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.auth!.userId
+    const { jobId } = req.params
+
+    try {
+      const job = await batchJobService.pauseJob(jobId, userId)
+
+      res.json({
+        success: true,
+        data: job,
+        message: 'Batch job paused'
+      })
+    } catch (error) {
+      throw toHttpError(error, 'Failed to pause batch job')
+    }
+  }
+)
+
+/**
+ * POST /api/schema/batch-jobs/:jobId/resume
+ * Resume a paused job
+ */
+export const resumeBatchJob = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.auth!.userId
+    const { jobId } = req.params
+
+    try {
+      const job = await batchJobService.resumeJob(jobId, userId)
+      batchJobWorker.kick()
+
+      res.json({
+        success: true,
+        data: job,
+        message: 'Batch job resumed'
+      })
+    } catch (error) {
+      throw toHttpError(error, 'Failed to resume batch job')
+    }
+  }
+)
+
+/**
+ * POST /api/schema/batch-jobs/:jobId/cancel
+ * Cancel a job - remaining queued URLs are skipped
+ */
+export const cancelBatchJob = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.auth!.userId
+    const { jobId } = req.params
+
+    try {
+      const job = await batchJobService.cancelJob(jobId, userId)
+
+      res.json({
+        success: true,
+        data: job,
+        message: 'Batch job cancelled'
+      })
+    } catch (error) {
+      throw toHttpError(error, 'Failed to cancel batch job')
+    }
+  }
+)
+
+/**
+ * POST /api/schema/batch-jobs/:jobId/retry
+ * Re-queue every failed URL in a job
+ */
+export const retryBatchJob = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.auth!.userId
+    const { jobId } = req.params
+
+    try {
+      const job = await batchJobService.retryFailedItems(jobId, userId)
+      batchJobWorker.kick()
+
+      res.json({
+        success: true,
+        data: job,
+        message: 'Failed URLs re-queued'
+      })
+    } catch (error) {
+      throw toHttpError(error, 'Failed to retry batch job')
+    }
+  }
+)
+
+export default {
+  createBatchJob,
+  listBatchJobs,
+  getBatchJob,
+  pauseBatchJob,
+  resumeBatchJob,
+  cancelBatchJob,
+  retryBatchJob
+}
@@ -1,5 +1,12 @@
 import { Request, Response } from 'express'
-import { siteCrawlerService, type DiscoveredUrl, type CrawlResult } from '../services/siteCrawler.js'
+import { z } from 'zod'
+import type { CrawlStatus } from 'aeo-schema-generator-shared/types'
+import {
+  siteCrawlerService,
+  MAX_CRAWL_LIMITS,
+  type DiscoveredUrl
+} from '../services/siteCrawler.js'
+import crawlHistoryService from '../services/crawlHistoryService.js'
 import { asyncHandler } from '../middleware/errorHandler.js'
 import { db } from '../services/database.js'
 
@@ -7,21 +14,27 @@ export interface AuthenticatedRequest extends Request {
   userId?: string
 }
 
-// Extended DiscoveredUrl with hasSchema flag
-interface DiscoveredUrlWithSchema extends DiscoveredUrl {
-  hasSchema?: boolean
-}
+// Per-request crawl limits (defaults applied by the crawler)
+const crawlOptionsSchema = z.object({
+  maxUrls: z.number().int().min(1).max(MAX_CRAWL_LIMITS.maxUrls).optional(),
+  maxDepth: z.number().int().min(0).max(MAX_CRAWL_LIMITS.maxDepth).optional(),
+  timeoutMs: z.number().int().min(1000).max(MAX_CRAWL_LIMITS.timeoutMs).optional(),
+  followSitemaps: z.boolean().optional(),
+  followFeeds: z.boolean().optional(),
+  followHreflang: z.boolean().optional()
+}).strict()
 
-// In-memory storage for crawl results (will be replaced with database in production)
-const crawlCache = new Map<string, CrawlResult>()
+// Persist newly found URLs once this many are pending or this long has passed
+const FLUSH_BATCH_SIZE = 25
+const FLUSH_INTERVAL_MS = 2000
 
 /**
  * Helper function to enrich URLs with hasSchema status
  */
-async function enrichUrlsWithSchemaStatus(
+async function enrichUrlsWithSchemaStatus<T extends { url: string }>(
   userId: string,
-  urls: DiscoveredUrl[]
-): Promise<DiscoveredUrlWithSchema[]> {
+  urls: T[]
+): Promise<Array<T & { hasSchema: boolean }>> {
   if (urls.length === 0) {
     return []
   }
@@ -40,7 +53,7 @@ async function enrichUrlsWithSchemaStatus(
  * POST /api/crawler/discover
  */
 export const discoverUrls = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-  const { domain } = req.body
+  const { domain, options } = req.body
   const userId = req.userId || 'test-user-id'
 
   if (!domain) {
@@ -51,41 +64,69 @@ export const discoverUrls = asyncHandler(async (req: AuthenticatedRequest, res:
     return
   }
 
+  const parsedOptions = crawlOptionsSchema.safeParse(options ?? {})
+  if (!parsedOptions.success) {
+    res.status(400).json({
+      success: false,
+      error: `Invalid crawl options: ${parsedOptions.error.errors.map(e => `${e.path.join('.')} ${e.message}`).join(', ')}`
+    })
+    return
+  }
+
   console.log(`🔍 Starting URL discovery for domain: ${domain}`)
 
   try {
-    // Generate unique crawl ID
-    const crawlId = `crawl_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-
-    // Initialize crawl result
-    const crawlResult: CrawlResult = {
-      domain,
-      urls: [],
-      totalFound: 0,
-      status: 'in_progress'
-    }
+    const crawl = await crawlHistoryService.createCrawl(userId, domain, parsedOptions.data)
+    const crawlId = crawl.id
 
-    crawlCache.set(crawlId, crawlResult)
+    // URLs found so far in this process - only used for the initial response,
+    // everything else reads the persisted crawl
+    const foundUrls: DiscoveredUrl[] = []
+    let crawlStatus = 'in_progress' as CrawlStatus
+    let crawlError: string | undefined
 
-    // Start async generator to discover URLs and continue in background
+    // Start async generator to discover URLs and persist them in batches
     const continueDiscovery = async () => {
+      let pending: DiscoveredUrl[] = []
+      let persistedCount = 0
+      let lastFlush = Date.now()
+
+      const flush = async () => {
+        const batch = pending
+        pending = []
+        lastFlush = Date.now()
+        await crawlHistoryService.appendUrls(crawlId, batch, persistedCount)
+        persistedCount += batch.length
+      }
+
       try {
-        const urlGenerator = siteCrawlerService.discoverUrls(domain)
+        const urlGenerator = siteCrawlerService.discoverUrls(domain, parsedOptions.data)
 
         for await (const url of urlGenerator) {
-          crawlResult.urls.push(url)
-          crawlResult.totalFound++
-          crawlCache.set(crawlId, crawlResult)
+          foundUrls.push(url)
+          pending.push(url)
+
+          if (pending.length >= FLUSH_BATCH_SIZE || Date.now() - lastFlush >= FLUSH_INTERVAL_MS) {
+            await flush()
+          }
         }
 
-        crawlResult.status = 'completed'
-        crawlCache.set(crawlId, crawlResult)
-        console.log(`✅ Crawl ${crawlId} completed with ${crawlResult.totalFound} URLs`)
+        await flush()
+        await crawlHistoryService.completeCrawl(crawlId, persistedCount)
+        crawlStatus = 'completed'
+        console.log(`✅ Crawl ${crawlId} completed with ${persistedCount} URLs`)
       } catch (error) {
-        crawlResult.status = 'failed'
-        crawlResult.error = error instanceof Error ? error.message : 'Unknown error'
-        crawlCache.set(crawlId, crawlResult)
+        crawlStatus = 'failed'
+        crawlError = error instanceof Error ? error.message : 'Unknown error'
         console.error(`❌ Crawl ${crawlId} failed:`, error)
+
+        try {
+          await flush()
+        } catch {
+          // Keep the original error - the crawl is being failed anyway
+        }
+
+        await crawlHistoryService.failCrawl(crawlId, crawlError, persistedCount).catch(failError => console.error(`❌ Failed to record crawl failure for ${crawlId}:`, failError))
       }
     }
 
@@ -97,7 +138,7 @@ export const discoverUrls = asyncHandler(async (req: AuthenticatedRequest, res:
       const maxWaitTime = 10000 // 10 seconds max wait
       const startTime = Date.now()
 
-      while (crawlResult.totalFound < 20 && crawlResult.status === 'in_progress') {
+      while (foundUrls.length < 20 && crawlStatus === 'in_progress') {
         if (Date.now() - startTime > maxWaitTime) break
         await new Promise(resolve => setTimeout(resolve, 100))
       }
@@ -105,18 +146,27 @@ export const discoverUrls = asyncHandler(async (req: AuthenticatedRequest, res:
 
     await waitForInitialUrls()
 
+    // Nothing to show (e.g. blocked by robots.txt) - surface the reason
+    if (crawlStatus === 'failed' && foundUrls.length === 0) {
+      res.status(500).json({
+        success: false,
+        error: crawlError
+      })
+      return
+    }
+
     // Enrich URLs with hasSchema status
-    const enrichedUrls = await enrichUrlsWithSchemaStatus(userId, crawlResult.urls)
+    const enrichedUrls = await enrichUrlsWithSchemaStatus(userId, [...foundUrls])
 
     // Return response with current URLs
-    const hasMore = crawlResult.status === 'in_progress'
+    const hasMore = crawlStatus === 'in_progress'
 
     res.json({
       success: true,
       data: {
         crawlId,
         urls: enrichedUrls,
-        totalFound: crawlResult.totalFound,
+        totalFound: enrichedUrls.length,
         status: hasMore ? 'in_progress' : 'completed',
         hasMore
       }
@@ -150,9 +200,9 @@ export const getCrawlResults = asyncHandler(async (req: AuthenticatedRequest, re
     return
   }
 
-  const crawlResult = crawlCache.get(crawlId)
+  const crawl = await crawlHistoryService.getCrawl(crawlId, userId)
 
-  if (!crawlResult) {
+  if (!crawl) {
     res.status(404).json({
       success: false,
       error: 'Crawl not found'
@@ -161,23 +211,24 @@ export const getCrawlResults = asyncHandler(async (req: AuthenticatedRequest, re
   }
 
   // Enrich URLs with hasSchema status
-  const enrichedUrls = await enrichUrlsWithSchemaStatus(userId, crawlResult.urls)
+  const urls = await crawlHistoryService.getCrawlUrls(crawl.id)
+  const enrichedUrls = await enrichUrlsWithSchemaStatus(userId, urls)
 
   res.json({
     success: true,
     data: {
-      crawlId,
+      crawlId: crawl.id,
       urls: enrichedUrls,
-      totalFound: crawlResult.totalFound,
-      status: crawlResult.status,
-      error: crawlResult.error,
-      hasMore: crawlResult.status === 'in_progress'
+      totalFound: crawl.totalFound,
+      status: crawl.status,
+      error: crawl.error,
+      hasMore: crawl.status === 'in_progress'
     }
   })
 })
 
 /**
- * Check if cached crawl exists for domain
+ * Check if a recent (last 24 hours) completed crawl exists for domain
  * GET /api/crawler/cached/:domain
  */
 export const getCachedCrawl = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
@@ -192,51 +243,79 @@ export const getCachedCrawl = asyncHandler(async (req: AuthenticatedRequest, res
     return
   }
 
-  // Search cache for matching domain (within last 24 hours)
-  const now = Date.now()
   const twentyFourHours = 24 * 60 * 60 * 1000
+  const crawl = await crawlHistoryService.findRecentCrawl(userId, domain, new Date(Date.now() - twentyFourHours))
 
-  for (const [crawlId, crawlResult] of crawlCache.entries()) {
-    if (crawlResult.domain === domain && crawlResult.status === 'completed') {
-      // Check if crawl is within 24 hours
-      const crawlTime = parseInt(crawlId.split('_')[1])
-      if (now - crawlTime < twentyFourHours) {
-        // Enrich URLs with hasSchema status
-        const enrichedUrls = await enrichUrlsWithSchemaStatus(userId, crawlResult.urls)
-
-        res.json({
-          success: true,
-          data: {
-            crawlId,
-            urls: enrichedUrls,
-            totalFound: crawlResult.totalFound,
-            status: crawlResult.status,
-            cached: true
-          }
-        })
-        return
-      }
+  if (!crawl) {
+    res.json({
+      success: true,
+      data: null
+    })
+    return
+  }
+
+  // Enrich URLs with hasSchema status
+  const urls = await crawlHistoryService.getCrawlUrls(crawl.id)
+  const enrichedUrls = await enrichUrlsWithSchemaStatus(userId, urls)
+
+  res.json({
+    success: true,
+    data: {
+      crawlId: crawl.id,
+      urls: enrichedUrls,
+      totalFound: crawl.totalFound,
+      status: crawl.status,
+      cached: true
     }
+  })
+})
+
+/**
+ * List past crawls of a domain, newest first
+ * GET /api/crawler/history/:domain
+ */
+export const getCrawlHistory = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { domain } = req.params
+  const userId = req.userId || 'test-user-id'
+
+  if (!domain) {
+    res.status(400).json({
+      success: false,
+      error: 'Domain is required'
+    })
+    return
   }
 
+  const crawls = await crawlHistoryService.listCrawls(userId, domain)
+
   res.json({
     success: true,
-    data: null
+    data: crawls
   })
 })
 
 /**
- * Clean up old crawl results from cache (keep last 24 hours only)
+ * Compare two crawls of the same domain (new, removed and changed URLs)
+ * GET /api/crawler/diff/:fromCrawlId/:toCrawlId
  */
-setInterval(() => {
-  const now = Date.now()
-  const twentyFourHours = 24 * 60 * 60 * 1000
+export const getCrawlDiff = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { fromCrawlId, toCrawlId } = req.params
+  const userId = req.userId || 'test-user-id'
 
-  for (const [crawlId, crawlResult] of crawlCache.entries()) {
-    const crawlTime = parseInt(crawlId.split('_')[1])
-    if (now - crawlTime > twentyFourHours) {
-      crawlCache.delete(crawlId)
-      console.log(`🗑️ Cleaned up old crawl: ${crawlId}`)
-    }
+  try {
+    const diff = await crawlHistoryService.diffCrawls(userId, fromCrawlId, toCrawlId)
+
+    res.json({
+      success: true,
+      data: diff
+    })
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+    const status = errorMessage.includes('not found') ? 404 : errorMessage.includes('same domain') ? 400 : 500
+
+    res.status(status).json({
+      success: false,
+      error: errorMessage
+    })
   }
-}, 60 * 60 * 1000) // Run every hour
+})
@@ -0,0 +1,165 @@
+import { Request, Response } from 'express'
+import { z } from 'zod'
+import type { CrawlerLogFormat } from 'aeo-schema-generator-shared/types'
+import { createError, asyncHandler } from '../middleware/errorHandler.js'
+import type { AuthenticatedRequest } from '../middleware/auth.js'
+import crawlerLogService from '../services/crawlerLogs/crawlerLogService.js'
+import { CRAWLER_LOG_FORMATS } from '../services/crawlerLogs/parser.js'
+
+const createSourceSchema = z.object({
+  domain: z.string().trim().min(1, 'Domain is required')
+})
+
+const metricsQuerySchema = z.object({
+  domain: z.string().trim().min(1, 'Domain is required'),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'must be YYYY-MM-DD'),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'must be YYYY-MM-DD')
+})
+
+/**
+ * Map service "not found"/"limit"/format errors to proper HTTP status codes
+ */
+function toHttpError(error: unknown, fallback: string) {
+  const message = error instanceof Error ? error.message : fallback
+
+  if (message.includes('not found')) return createError(message, 404)
+  if (message.includes('at most')) return createError(message, 429)
+  if (message.includes('Unrecognized log format') || message.includes('valid domain')) return createError(message, 400)
+
+  return createError(message, 500)
+}
+
+/**
+ * Optional ?format= override - the format is detected from the content otherwise
+ */
+function getFormatParam(value: unknown): CrawlerLogFormat | undefined {
+  if (value === undefined || value === '') return undefined
+  if (!CRAWLER_LOG_FORMATS.includes(value as CrawlerLogFormat)) {
+    throw createError(`Format must be one of: ${CRAWLER_LOG_FORMATS.join(', ')}`, 400)
+  }
+  return value as CrawlerLogFormat
+}
+
+function getLogBody(body: unknown): string {
+  if (typeof body !== 'string' || body.trim() === '') {
+    throw createError('Log content is required', 400)
+  }
+  return body
+}
+
+/**
+ * GET /api/crawler-logs/sources
+ * The user's log sources with their ingest keys
+ */
+export const listLogSources = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const sources = await crawlerLogService.listSources(req.auth!.userId)
+
+  res.json({
+    success: true,
+    data: sources
+  })
+})
+
+/**
+ * POST /api/crawler-logs/sources
+ * Create the log source for a domain (returns the existing one if there is one)
+ */
+export const createLogSource = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const parsed = createSourceSchema.safeParse(req.body ?? {})
+  if (!parsed.success) {
+    throw createError(`Invalid log source: ${parsed.error.errors.map(e => `${e.path.join('.') || 'body'} ${e.message}`).join(', ')}`, 400)
+  }
+
+  try {
+    const source = await crawlerLogService.createSource(req.auth!.userId, parsed.data.domain)
+
+    res.status(201).json({
+      success: true,
+      data: source
+    })
+  } catch (error) {
+    throw toHttpError(error, 'Failed to create log source')
+  }
+})
+
+/**
+ * DELETE /api/crawler-logs/sources/:sourceId
+ * Delete a log source and all hits ingested for it
+ */
+export const deleteLogSource = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    await crawlerLogService.deleteSource(req.params.sourceId, req.auth!.userId)
+
+    res.json({
+      success: true,
+      message: 'Log source deleted'
+    })
+  } catch (error) {
+    throw toHttpError(error, 'Failed to delete log source')
+  }
+})
+
+/**
+ * POST /api/crawler-logs/sources/:sourceId/upload?format=
+ * Ingest an uploaded access log (raw text body)
+ */
+export const uploadCrawlerLog = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const format = getFormatParam(req.query.format)
+  const content = getLogBody(req.body)
+
+  try {
+    const result = await crawlerLogService.ingestUpload(req.params.sourceId, req.auth!.userId, content, format)
+
+    res.json({
+      success: true,
+      data: result,
+      message: `Found ${result.crawlerHits} AI crawler requests in ${result.linesTotal} log lines`
+    })
+  } catch (error) {
+    throw toHttpError(error, 'Failed to ingest log')
+  }
+})
+
+/**
+ * GET /api/crawler-logs/metrics?domain=&startDate=&endDate=
+ * Crawler and page tables from ingested logs - data is null without a log source
+ */
+export const getCrawlerLogMetrics = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const parsed = metricsQuerySchema.safeParse(req.query)
+  if (!parsed.success) {
+    throw createError(`Invalid metrics request: ${parsed.error.errors.map(e => `${e.path.join('.')} ${e.message}`).join(', ')}`, 400)
+  }
+
+  const { domain, startDate, endDate } = parsed.data
+  const metrics = await crawlerLogService.getMetrics(req.auth!.userId, domain, startDate, endDate)
+
+  res.json({
+    success: true,
+    data: metrics
+  })
+})
+
+/**
+ * POST /ingest/crawler-logs/:ingestKey?format=
+ * Public endpoint for log drains (Cloudflare Logpush, Vercel, shippers tailing nginx logs)
+ */
+export const ingestCrawlerLogStream = asyncHandler(async (req: Request, res: Response) => {
+  const format = getFormatParam(req.query.format)
+  const content = getLogBody(req.body)
+
+  let result
+  try {
+    result = await crawlerLogService.ingestStream(req.params.ingestKey, content, format)
+  } catch (error) {
+    throw toHttpError(error, 'Failed to ingest log')
+  }
+
+  if (!result) {
+    throw createError('Unknown ingest key', 404)
+  }
+
+  res.json({
+    success: true,
+    data: result
+  })
+})
@@ -0,0 +1,58 @@
+import { Request, Response } from 'express'
+import { createError, asyncHandler } from '../middleware/errorHandler.js'
+import {
+  schemaEmbedService,
+  EMBED_LOADER_SCRIPT,
+  EMBED_LOADER_MAX_AGE_SECONDS,
+  EMBED_SCHEMA_MAX_AGE_SECONDS
+} from '../services/schemaEmbed.js'
+
+/**
+ * Helmet defaults to same-origin resource policy, which would stop other sites loading
+ * the script and reading schema responses
+ */
+function allowCrossOriginEmbedding(res: Response) {
+  res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin')
+}
+
+/**
+ * GET /embed/loader.js
+ * The script tag sites add once
+ */
+export const getEmbedLoader = (req: Request, res: Response) => {
+  allowCrossOriginEmbedding(res)
+  res.setHeader('Content-Type', 'application/javascript; charset=utf-8')
+  res.setHeader('Cache-Control', `public, max-age=${EMBED_LOADER_MAX_AGE_SECONDS}`)
+  res.send(EMBED_LOADER_SCRIPT)
+}
+
+/**
+ * GET /embed/:siteKey/schema?url=...
+ * Public, read-only JSON-LD for a page of the site key's domain
+ */
+export const getEmbedSchema = asyncHandler(async (req: Request, res: Response) => {
+  const { siteKey } = req.params
+  const url = req.query.url
+
+  if (!url || typeof url !== 'string') {
+    throw createError('URL parameter is required', 400)
+  }
+
+  allowCrossOriginEmbedding(res)
+
+  const result = await schemaEmbedService.getSchemaForUrl(siteKey, url)
+
+  if (result.status !== 'ok') {
+    // Short cache so a newly enabled site key starts working soon
+    res.setHeader('Cache-Control', 'public, max-age=60')
+    throw createError(result.message, result.status === 'forbidden' ? 403 : 404)
+  }
+
+  res.setHeader('Access-Control-Allow-Origin', result.allowedOrigin)
+  res.setHeader('Cache-Control', `public, max-age=${EMBED_SCHEMA_MAX_AGE_SECONDS}, stale-while-revalidate=3600`)
+  res.setHeader('ETag', result.etag)
+  res.type('application/json')
+
+  // res.send answers with 304 when If-None-Match matches the ETag
+  res.send(result.body)
+})
@@ -4,6 +4,23 @@ import type { AuthenticatedRequest } from '../middleware/auth.js'
 import { ga4OAuth } from '../services/ga4/oauth.js'
 import { ga4Data } from '../services/ga4/data.js'
 import { db } from '../services/database.js'
+import {
+  aiReferrerCatalog,
+  validateAIReferrerRule,
+  AI_REFERRER_FIELDS,
+  AI_REFERRER_PATTERN_TYPES,
+  type AIReferrerField,
+  type AIReferrerPatternType
+} from '../services/ga4/aiReferrerCatalog.js'
+import { schemaImpactService, SCHEMA_IMPACT_WINDOWS } from '../services/schemaImpact.js'
+import { ga4Portfolio, PORTFOLIO_PERIODS } from '../services/ga4/portfolio.js'
+import {
+  ga4Alerts,
+  GA4_ALERT_RULE_TYPES,
+  type GA4AlertRuleType,
+  type GA4AlertRuleUpdate
+} from '../services/ga4/alerts.js'
+import { emailService } from '../services/email.js'
 
 /**
  * Generate Google Analytics 4 OAuth authorization URL
@@ -359,7 +376,7 @@ export const createDomainMapping = asyncHandler(
 
     try {
       console.log('📸 [GA4 Controller] Recording initial activity snapshots (this may take a few seconds)...')
-      await ga4Data.recordDailyActivitySnapshots(userId, propertyId, snapshotStartDate, snapshotEndDate)
+      await ga4Data.recordDailyActivitySnapshots(userId, propertyId, snapshotStartDate, snapshotEndDate, mappingId)
       console.log('✅ [GA4 Controller] Initial activity snapshots recorded for new mapping')
     } catch (err: any) {
       // Log error but don't fail mapping creation - snapshots can be recorded later via refresh
@@ -584,6 +601,94 @@ export const getTrend = asyncHandler(
   }
 )
 
+/**
+ * Get the portfolio of all mapped domains (score, sparkline, change, alert status)
+ * Built from cached metrics and snapshots - no GA4 API calls
+ */
+export const getPortfolio = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.auth.userId
+    const days = Number(req.query.days || 30)
+
+    if (!PORTFOLIO_PERIODS.includes(days)) {
+      throw createError(`Days must be one of: ${PORTFOLIO_PERIODS.join(', ')}`, 400)
+    }
+
+    console.log('📊 [GA4 Controller] Getting portfolio', { userId, days })
+
+    const portfolio = await ga4Portfolio.getPortfolio(userId, days)
+
+    res.json({
+      success: true,
+      portfolio
+    })
+  }
+)
+
+function parseImpactWindowDays(value: unknown): number {
+  const windowDays = Number(value || 28)
+  if (!SCHEMA_IMPACT_WINDOWS.includes(windowDays)) {
+    throw createError(`Window days must be one of: ${SCHEMA_IMPACT_WINDOWS.join(', ')}`, 400)
+  }
+  return windowDays
+}
+
+/**
+ * Get the schema impact rollup for a domain mapping
+ * Compares AI referral traffic before and after each library page got schema
+ */
+export const getSchemaImpact = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.auth.userId
+    const { mappingId } = req.query
+
+    if (!mappingId) {
+      throw createError('Mapping ID is required', 400)
+    }
+
+    const windowDays = parseImpactWindowDays(req.query.windowDays)
+
+    console.log('📊 [GA4 Controller] Getting schema impact', { userId, mappingId, windowDays })
+
+    const result = await schemaImpactService.getDomainImpact(userId, mappingId as string, windowDays)
+
+    if (!result) {
+      throw createError('Domain mapping not found', 404)
+    }
+
+    res.json({
+      success: true,
+      impact: result.impact,
+      note: result.note
+    })
+  }
+)
+
+/**
+ * Get the schema impact of a single library URL
+ */
+export const getUrlSchemaImpact = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.auth.userId
+    const { urlId } = req.params
+    const windowDays = parseImpactWindowDays(req.query.windowDays)
+
+    console.log('📊 [GA4 Controller] Getting URL schema impact', { userId, urlId, windowDays })
+
+    const result = await schemaImpactService.getUrlImpact(userId, urlId, windowDays)
+
+    if (!result) {
+      throw createError('URL not found', 404)
+    }
+
+    res.json({
+      success: true,
+      impact: result.impact,
+      note: result.note
+    })
+  }
+)
+
 /**
  * Get daily activity snapshots for trend visualization
  * Returns stored snapshots from database
@@ -900,3 +1005,347 @@ export const toggleExclusionPattern = asyncHandler(
     })
   }
 )
+
+/**
+ * Get the current AI referrer catalog (platforms detected as AI traffic)
+ */
+export const getAIReferrerCatalog = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const catalog = await aiReferrerCatalog.getCurrentCatalog()
+
+    res.json({
+      success: true,
+      data: catalog
+    })
+  }
+)
+
+/**
+ * Validate a private AI referrer pattern body - fields may be partial for updates
+ */
+function parseAIReferrerPatternBody(body: any, partial: boolean): {
+  platformName?: string
+  field?: AIReferrerField
+  patternType?: AIReferrerPatternType
+  pattern?: string
+  description?: string
+  isActive?: boolean
+} {
+  const { platformName, field, patternType, pattern, description, isActive } = body || {}
+
+  if (!partial && (!platformName || !field || !patternType || !pattern)) {
+    throw createError('Platform name, field, pattern type, and pattern are required', 400)
+  }
+  if (platformName !== undefined && (typeof platformName !== 'string' || !platformName.trim())) {
+    throw createError('Platform name must be a non-empty string', 400)
+  }
+  if (field !== undefined && !AI_REFERRER_FIELDS.includes(field)) {
+    throw createError(`Field must be one of: ${AI_REFERRER_FIELDS.join(', ')}`, 400)
+  }
+  if (patternType !== undefined && !AI_REFERRER_PATTERN_TYPES.includes(patternType)) {
+    throw createError(`Pattern type must be one of: ${AI_REFERRER_PATTERN_TYPES.join(', ')}`, 400)
+  }
+  if (pattern !== undefined && typeof pattern !== 'string') {
+    throw createError('Pattern must be a string', 400)
+  }
+  if (isActive !== undefined && typeof isActive !== 'boolean') {
+    throw createError('isActive must be a boolean', 400)
+  }
+
+  return {
+    platformName: platformName?.trim(),
+    field,
+    patternType,
+    pattern: pattern?.trim(),
+    description,
+    isActive
+  }
+}
+
+/**
+ * List private AI referrer patterns for a domain mapping
+ */
+export const listAIReferrerPatterns = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.auth.userId
+    const { mappingId } = req.params
+
+    // Verify user owns this mapping
+    const mappings = await db.getGA4DomainMappings(userId)
+    const mapping = mappings.find(m => m.id === mappingId)
+    if (!mapping) {
+      throw createError('Domain mapping not found', 404)
+    }
+
+    const patterns = await db.getGA4AIReferrerPatterns(mappingId)
+
+    res.json({
+      success: true,
+      patterns
+    })
+  }
+)
+
+/**
+ * Create a private AI referrer pattern
+ */
+export const createAIReferrerPattern = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.auth.userId
+    const { mappingId } = req.params
+    const input = parseAIReferrerPatternBody(req.body, false)
+
+    console.log('➕ [GA4 Controller] Creating AI referrer pattern', {
+      userId,
+      mappingId,
+      platformName: input.platformName,
+      pattern: input.pattern
+    })
+
+    // Verify user owns this mapping
+    const mappings = await db.getGA4DomainMappings(userId)
+    const mapping = mappings.find(m => m.id === mappingId)
+    if (!mapping) {
+      throw createError('Domain mapping not found', 404)
+    }
+
+    let rule
+    try {
+      rule = validateAIReferrerRule({
+        field: input.field!,
+        patternType: input.patternType!,
+        pattern: input.pattern!
+      }, input.platformName!)
+    } catch (error) {
+      throw createError(error instanceof Error ? error.message : 'Invalid pattern', 400)
+    }
+
+    const patternId = await db.createGA4AIReferrerPattern({
+      mappingId,
+      platformName: input.platformName!,
+      ...rule,
+      description: input.description,
+      createdBy: userId
+    })
+
+    // Invalidate cached metrics and snapshots since AI detection changed
+    await db.invalidateGA4CachedMetrics(mappingId)
+    await db.deleteGA4SnapshotsForMapping(mappingId)
+
+    console.log('✅ [GA4 Controller] AI referrer pattern created (cache and snapshots cleared)', {
+      userId,
+      mappingId,
+      patternId
+    })
+
+    res.json({
+      success: true,
+      patternId,
+      message: 'AI referrer pattern created successfully'
+    })
+  }
+)
+
+/**
+ * Update (or enable/disable) a private AI referrer pattern
+ */
+export const updateAIReferrerPattern = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.auth.userId
+    const { mappingId, patternId } = req.params
+    const updates = parseAIReferrerPatternBody(req.body, true)
+
+    // Verify user owns this mapping
+    const mappings = await db.getGA4DomainMappings(userId)
+    const mapping = mappings.find(m => m.id === mappingId)
+    if (!mapping) {
+      throw createError('Domain mapping not found', 404)
+    }
+
+    const existing = (await db.getGA4AIReferrerPatterns(mappingId)).find(p => p.id === patternId)
+    if (!existing) {
+      throw createError('AI referrer pattern not found', 404)
+    }
+
+    try {
+      validateAIReferrerRule({
+        field: updates.field ?? existing.field,
+        patternType: updates.patternType ?? existing.patternType,
+        pattern: updates.pattern ?? existing.pattern
+      }, updates.platformName ?? existing.platformName)
+    } catch (error) {
+      throw createError(error instanceof Error ? error.message : 'Invalid pattern', 400)
+    }
+
+    await db.updateGA4AIReferrerPattern(mappingId, patternId, updates)
+
+    // Invalidate cached metrics and snapshots since AI detection changed
+    await db.invalidateGA4CachedMetrics(mappingId)
+    await db.deleteGA4SnapshotsForMapping(mappingId)
+
+    console.log('✅ [GA4 Controller] AI referrer pattern updated (cache and snapshots cleared)', {
+      userId,
+      mappingId,
+      patternId
+    })
+
+    res.json({
+      success: true,
+      message: 'AI referrer pattern updated successfully'
+    })
+  }
+)
+
+/**
+ * Delete a private AI referrer pattern
+ */
+export const deleteAIReferrerPattern = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.auth.userId
+    const { mappingId, patternId } = req.params
+
+    // Verify user owns this mapping
+    const mappings = await db.getGA4DomainMappings(userId)
+    const mapping = mappings.find(m => m.id === mappingId)
+    if (!mapping) {
+      throw createError('Domain mapping not found', 404)
+    }
+
+    await db.deleteGA4AIReferrerPattern(mappingId, patternId)
+
+    // Invalidate cached metrics and snapshots since AI detection changed
+    await db.invalidateGA4CachedMetrics(mappingId)
+    await db.deleteGA4SnapshotsForMapping(mappingId)
+
+    console.log('✅ [GA4 Controller] AI referrer pattern deleted (cache and snapshots cleared)', {
+      userId,
+      mappingId,
+      patternId
+    })
+
+    res.json({
+      success: true,
+      message: 'AI referrer pattern deleted successfully'
+    })
+  }
+)
+
+/**
+ * Validate an alert rule update body - all fields are optional
+ */
+function parseAlertRuleUpdate(ruleType: GA4AlertRuleType, body: any): GA4AlertRuleUpdate {
+  const { threshold, isEnabled, notifyInApp, notifyEmail, isMuted, mutedUntil } = body || {}
+  const updates: GA4AlertRuleUpdate = {}
+
+  for (const [key, value] of Object.entries({ isEnabled, notifyInApp, notifyEmail, isMuted })) {
+    if (value === undefined) continue
+    if (typeof value !== 'boolean') {
+      throw createError(`${key} must be a boolean`, 400)
+    }
+    updates[key as 'isEnabled' | 'notifyInApp' | 'notifyEmail' | 'isMuted'] = value
+  }
+
+  if (threshold !== undefined) {
+    if (ruleType === 'score_drop') {
+      if (typeof threshold !== 'number' || threshold < 1 || threshold > 100) {
+        throw createError('Score drop threshold must be between 1 and 100 points', 400)
+      }
+    } else if (ruleType === 'page_lost_ai_referrals') {
+      if (!Number.isInteger(threshold) || threshold < 1 || threshold > 20) {
+        throw createError('Top pages watched must be a whole number between 1 and 20', 400)
+      }
+    } else {
+      throw createError('This alert rule has no threshold', 400)
+    }
+    updates.threshold = threshold
+  }
+
+  if (mutedUntil !== undefined) {
+    if (mutedUntil === null) {
+      updates.mutedUntil = null
+    } else {
+      const date = new Date(mutedUntil)
+      if (typeof mutedUntil !== 'string' || isNaN(date.getTime()) || date <= new Date()) {
+        throw createError('mutedUntil must be a future date or null', 400)
+      }
+      updates.mutedUntil = date
+    }
+  }
+
+  return updates
+}
+
+/**
+ * List the alert rules of a domain mapping (defaults for rules never changed)
+ */
+export const listAlertRules = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.auth.userId
+    const { mappingId } = req.params
+
+    // Verify user owns this mapping
+    const mappings = await db.getGA4DomainMappings(userId)
+    const mapping = mappings.find(m => m.id === mappingId)
+    if (!mapping) {
+      throw createError('Domain mapping not found', 404)
+    }
+
+    const rules = await ga4Alerts.getRules(mappingId)
+
+    res.json({
+      success: true,
+      rules,
+      emailAvailable: emailService.isEnabled()
+    })
+  }
+)
+
+/**
+ * Update an alert rule - thresholds, channels, enable/disable and mute
+ */
+export const updateAlertRule = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.auth.userId
+    const { mappingId, ruleType } = req.params
+
+    if (!GA4_ALERT_RULE_TYPES.includes(ruleType as GA4AlertRuleType)) {
+      throw createError(`Rule type must be one of: ${GA4_ALERT_RULE_TYPES.join(', ')}`, 400)
+    }
+
+    const updates = parseAlertRuleUpdate(ruleType as GA4AlertRuleType, req.body)
+
+    // Verify user owns this mapping
+    const mappings = await db.getGA4DomainMappings(userId)
+    const mapping = mappings.find(m => m.id === mappingId)
+    if (!mapping) {
+      throw createError('Domain mapping not found', 404)
+    }
+
+    const rule = await ga4Alerts.updateRule(userId, mappingId, ruleType as GA4AlertRuleType, updates)
+
+    console.log('✅ [GA4 Controller] Alert rule updated', { userId, mappingId, ruleType, updates })
+
+    res.json({
+      success: true,
+      rule
+    })
+  }
+)
+
+/**
+ * Get alert history - all domains, or one domain mapping
+ */
+export const getAlertHistory = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.auth.userId
+    const mappingId = req.query.mappingId as string | undefined
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200)
+
+    const alerts = await ga4Alerts.getHistory(userId, { mappingId, limit })
+
+    res.json({
+      success: true,
+      alerts
+    })
+  }
+)
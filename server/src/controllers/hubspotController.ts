@@ -2,8 +2,44 @@ import { Response } from 'express'
 import { asyncHandler, createError } from '../middleware/errorHandler.js'
 import type { AuthenticatedRequest } from '../middleware/auth.js'
 import { hubspotOAuthService } from '../services/hubspot/oauth.js'
-import { hubspotCMSService } from '../services/hubspot/cms.js'
+import {
+  hubspotCMSService,
+  getSchemaPublishState,
+  isUnpublishedDraftChangesError,
+  type HubSpotHeadHtmlChange
+} from '../services/hubspot/cms.js'
+import { hubspotBulkPushService, BULK_PUSH_MAX_URLS } from '../services/hubspot/bulkPush.js'
+import { publishPushedDraft, recordSyncFailure } from '../services/hubspot/syncRetry.js'
+import { emitWebhookEvent } from '../services/webhooks/delivery.js'
 import { db } from '../services/database.js'
+import type { HubSpotDraftStatus, HubSpotPublishOptions } from 'aeo-schema-generator-shared/types'
+
+/** Max pushed pages checked by the draft status view (two HubSpot requests each) */
+const DRAFT_STATUS_MAX_PAGES = 25
+
+/**
+ * Validate optional publish options from a request body
+ */
+function parsePublishOptions(value: unknown): HubSpotPublishOptions | undefined {
+  if (value === undefined || value === null) return undefined
+
+  const { mode, publishDate } = value as Partial<HubSpotPublishOptions>
+  if (mode !== 'draft' && mode !== 'live' && mode !== 'schedule') {
+    throw createError('publish.mode must be draft, live or schedule', 400)
+  }
+
+  if (mode !== 'schedule') return { mode }
+
+  const date = typeof publishDate === 'string' ? new Date(publishDate) : null
+  if (!date || isNaN(date.getTime())) {
+    throw createError('publish.publishDate is required to schedule a draft', 400)
+  }
+  if (date.getTime() <= Date.now()) {
+    throw createError('publish.publishDate must be in the future', 400)
+  }
+
+  return { mode, publishDate: date.toISOString() }
+}
 
 /**
  * Handle OAuth callback from Clerk/HubSpot
@@ -534,6 +570,33 @@ export const listPages = asyncHandler(
   }
 )
 
+/**
+ * List landing pages for connected portal
+ */
+export const listLandingPages = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.auth!.userId
+    const { connectionId } = req.query
+
+    if (!connectionId || typeof connectionId !== 'string') {
+      throw createError('Connection ID is required', 400)
+    }
+
+    // Verify connection belongs to user
+    const connection = await db.getHubSpotConnection(connectionId)
+    if (!connection || connection.userId !== userId) {
+      throw createError('Connection not found', 404)
+    }
+
+    const pages = await hubspotCMSService.listLandingPages(connectionId)
+
+    res.json({
+      success: true,
+      data: pages
+    })
+  }
+)
+
 /**
  * Match URL to HubSpot content
  */
@@ -585,6 +648,8 @@ export const pushSchema = asyncHandler(
       throw createError('Missing required fields', 400)
     }
 
+    const publish = parsePublishOptions(req.body.publish)
+
     // Verify connection belongs to user
     const connection = await db.getHubSpotConnection(connectionId)
     if (!connection || connection.userId !== userId) {
@@ -599,21 +664,24 @@ export const pushSchema = asyncHandler(
       hubspotContentId: contentId,
       hubspotContentType: contentType,
       hubspotContentTitle: contentTitle,
-      hubspotContentUrl: contentUrl
+      hubspotContentUrl: contentUrl,
+      schemaHtml,
+      publish
     })
 
     try {
       // Push schema to HubSpot
+      let change: HubSpotHeadHtmlChange
       if (contentType === 'blog_post') {
-        await hubspotCMSService.pushSchemaToPost(connectionId, contentId, schemaHtml)
+        change = await hubspotCMSService.pushSchemaToPost(connectionId, contentId, schemaHtml)
       } else if (contentType === 'page' || contentType === 'landing_page') {
-        await hubspotCMSService.pushSchemaToPage(connectionId, contentId, schemaHtml)
+        change = await hubspotCMSService.pushSchemaToPage(connectionId, contentId, schemaHtml, contentType)
       } else {
         throw createError('Invalid content type', 400)
       }
 
-      // Update sync job as successful
-      await db.updateHubSpotSyncJobSuccess(syncJobId)
+      // Update sync job as successful, keeping the previous head HTML for rollback
+      await db.updateHubSpotSyncJobSuccess(syncJobId, change)
 
       console.log('✅ [HubSpot Controller] Schema pushed successfully:', {
         syncJobId,
@@ -621,23 +689,304 @@ export const pushSchema = asyncHandler(
         contentType
       })
 
-      res.json({
-        success: true,
-        data: {
-          syncJobId,
-          contentId,
-          contentType
-        },
-        message: 'Schema pushed to HubSpot successfully'
+      emitWebhookEvent({ userId, teamId: req.auth!.teamId }, 'schema.pushed', {
+        cms: 'hubspot',
+        connectionId,
+        syncJobId,
+        contentId,
+        contentType,
+        contentTitle,
+        contentUrl,
+        schemaGenerationId,
+        userId
       })
     } catch (error) {
-      // Update sync job as failed
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-      await db.updateHubSpotSyncJobFailure(syncJobId, errorMessage)
+      // Update sync job as failed - transient errors are queued for the retry worker
+      await recordSyncFailure(syncJobId, 0, error)
 
       console.error('❌ [HubSpot Controller] Schema push failed:', error)
       throw error
     }
+
+    // The push succeeded either way - a publish failure leaves the schema in the draft
+    let published = false
+    let publishError: string | undefined
+    try {
+      published = await publishPushedDraft(syncJobId, connectionId, contentId, contentType, publish)
+    } catch (error) {
+      publishError = error instanceof Error ? error.message : 'Unknown error'
+      console.error('❌ [HubSpot Controller] Publishing draft failed:', error)
+    }
+
+    res.json({
+      success: true,
+      data: {
+        syncJobId,
+        contentId,
+        contentType,
+        published,
+        publishError
+      },
+      message: publishError
+        ? `Schema pushed to the draft, but publishing failed: ${publishError}`
+        : published
+          ? publish?.mode === 'schedule'
+            ? 'Schema pushed to HubSpot and the draft is scheduled'
+            : 'Schema pushed to HubSpot and published'
+          : 'Schema pushed to HubSpot successfully'
+    })
+  }
+)
+
+/**
+ * Validate a bulk push request and verify the connection belongs to the user
+ */
+async function getBulkPushRequest(req: AuthenticatedRequest): Promise<{
+  connectionId: string
+  urlIds: string[]
+  publish?: HubSpotPublishOptions
+}> {
+  const userId = req.auth!.userId
+  const { connectionId, urlIds } = req.body
+
+  if (!connectionId || typeof connectionId !== 'string') {
+    throw createError('Connection ID is required', 400)
+  }
+
+  if (!Array.isArray(urlIds) || urlIds.length === 0 || urlIds.some(id => typeof id !== 'string')) {
+    throw createError('urlIds must be a non-empty array of URL IDs', 400)
+  }
+
+  if (urlIds.length > BULK_PUSH_MAX_URLS) {
+    throw createError(`A bulk push is limited to ${BULK_PUSH_MAX_URLS} URLs`, 400)
+  }
+
+  // Verify connection belongs to user
+  const connection = await db.getHubSpotConnection(connectionId)
+  if (!connection || connection.userId !== userId) {
+    throw createError('Connection not found', 404)
+  }
+
+  return {
+    connectionId,
+    urlIds: [...new Set<string>(urlIds)],
+    publish: parsePublishOptions(req.body.publish)
+  }
+}
+
+/**
+ * Dry run of a bulk push: head HTML before and after for every matched page
+ */
+export const previewBulkPush = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.auth!.userId
+    const { connectionId, urlIds } = await getBulkPushRequest(req)
+
+    const result = await hubspotBulkPushService.preview(userId, connectionId, urlIds)
+
+    res.json({
+      success: true,
+      data: result
+    })
+  }
+)
+
+/**
+ * Push schema for many library URLs to their matching HubSpot content
+ */
+export const bulkPushSchema = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.auth!.userId
+    const { connectionId, urlIds, publish } = await getBulkPushRequest(req)
+
+    const result = await hubspotBulkPushService.push(userId, connectionId, urlIds, publish)
+
+    console.log('✅ [HubSpot Controller] Bulk push finished:', result.summary)
+
+    res.json({
+      success: true,
+      data: result,
+      message: `Schema pushed to ${result.summary.success} of ${result.items.length} pages`
+    })
+  }
+)
+
+/**
+ * Restore the head HTML a sync job replaced
+ * A live push is rolled back by publishing the page draft; when the draft has other
+ * unpublished edits this answers 409 until publishDraftChanges confirms they may go live
+ */
+export const rollbackSyncJob = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.auth!.userId
+    const { syncJobId } = req.params
+    const publishDraftChanges = req.body?.publishDraftChanges === true
+
+    const syncJob = await db.getHubSpotSyncJob(syncJobId)
+    if (!syncJob || syncJob.userId !== userId) {
+      throw createError('Sync job not found', 404)
+    }
+
+    if (syncJob.status !== 'success' || syncJob.previousHeadHtml === undefined) {
+      throw createError('This sync has no head HTML snapshot to restore', 400)
+    }
+
+    if (syncJob.rolledBackAt) {
+      throw createError('This sync has already been rolled back', 409)
+    }
+
+    const connection = await db.getHubSpotConnection(syncJob.connectionId)
+    if (!connection || connection.userId !== userId || !connection.isActive) {
+      throw createError('Connection not found', 404)
+    }
+
+    // Only roll back when the page still has what this push wrote; otherwise a later
+    // push or a manual edit would be silently overwritten
+    const currentHeadHtml = await hubspotCMSService.getHeadHtml(
+      syncJob.connectionId,
+      syncJob.hubspotContentId,
+      syncJob.hubspotContentType
+    )
+    if (currentHeadHtml !== syncJob.newHeadHtml) {
+      throw createError('The head HTML has changed since this sync. Roll back later syncs of this page first.', 409)
+    }
+
+    let republished: boolean
+    try {
+      ({ republished } = await hubspotCMSService.restoreHeadHtml(
+        syncJob.connectionId,
+        syncJob.hubspotContentId,
+        syncJob.hubspotContentType,
+        {
+          previousHeadHtml: syncJob.previousHeadHtml,
+          newHeadHtml: syncJob.newHeadHtml,
+          previousLiveHeadHtml: syncJob.previousLiveHeadHtml
+        },
+        { publishDraftChanges }
+      ))
+    } catch (error) {
+      if (isUnpublishedDraftChangesError(error)) {
+        return res.status(409).json({
+          success: false,
+          error: (error as Error).message,
+          unpublishedDraftChanges: true
+        })
+      }
+      throw error
+    }
+    await db.markHubSpotSyncJobRolledBack(syncJobId)
+
+    console.log('⏪ [HubSpot Controller] Sync job rolled back:', {
+      syncJobId,
+      contentId: syncJob.hubspotContentId,
+      republished
+    })
+
+    res.json({
+      success: true,
+      data: { syncJobId, republished },
+      message: republished ? 'Previous head HTML restored and published' : 'Previous head HTML restored'
+    })
+  }
+)
+
+/**
+ * Pushed pages whose draft SuperSchema markup is not (or not fully) live yet
+ * Checks the most recently pushed pages and landing pages of a connection
+ */
+export const getDraftStatus = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.auth!.userId
+    const { connectionId } = req.query
+
+    if (!connectionId || typeof connectionId !== 'string') {
+      throw createError('Connection ID is required', 400)
+    }
+
+    // Verify connection belongs to user
+    const connection = await db.getHubSpotConnection(connectionId)
+    if (!connection || connection.userId !== userId) {
+      throw createError('Connection not found', 404)
+    }
+
+    const syncedPages = await db.getHubSpotSyncedPages(connectionId, DRAFT_STATUS_MAX_PAGES)
+
+    // Sequential on purpose: HubSpot rate limits are per portal
+    const statuses: HubSpotDraftStatus[] = []
+    for (const job of syncedPages) {
+      if (job.hubspotContentType === 'blog_post') continue
+
+      try {
+        const versions = await hubspotCMSService.getPageHeadHtmlVersions(
+          connectionId,
+          job.hubspotContentId,
+          job.hubspotContentType
+        )
+        const state = getSchemaPublishState(versions.draftHeadHtml, versions.liveHeadHtml)
+        if (!state) continue // SuperSchema markup removed from the draft since the push
+
+        statuses.push({
+          contentId: job.hubspotContentId,
+          contentType: job.hubspotContentType,
+          title: job.hubspotContentTitle,
+          url: job.hubspotContentUrl,
+          state,
+          pageState: versions.pageState,
+          scheduledFor: versions.pageState === 'SCHEDULED' ? versions.publishDate : undefined,
+          lastSyncedAt: job.syncedAt
+        })
+      } catch (error) {
+        // Deleted or inaccessible pages are left out instead of failing the whole view
+        console.warn('⚠️ [HubSpot Controller] Could not read draft status:', {
+          contentId: job.hubspotContentId,
+          error: error instanceof Error ? error.message : error
+        })
+      }
+    }
+
+    res.json({
+      success: true,
+      data: statuses
+    })
+  }
+)
+
+/**
+ * Push a page or landing page draft live, or schedule it
+ */
+export const publishDraft = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.auth!.userId
+    const { connectionId, contentId, contentType } = req.body
+
+    if (!connectionId || !contentId) {
+      throw createError('Missing required fields', 400)
+    }
+
+    if (contentType !== 'page' && contentType !== 'landing_page') {
+      throw createError('Only page and landing page drafts can be published', 400)
+    }
+
+    const publish = parsePublishOptions(req.body.publish)
+    if (!publish || publish.mode === 'draft') {
+      throw createError('publish.mode must be live or schedule', 400)
+    }
+
+    // Verify connection belongs to user
+    const connection = await db.getHubSpotConnection(connectionId)
+    if (!connection || connection.userId !== userId) {
+      throw createError('Connection not found', 404)
+    }
+
+    await hubspotCMSService.publishPageDraft(connectionId, contentId, contentType, publish)
+
+    console.log('📢 [HubSpot Controller] Draft published:', { contentId, contentType, mode: publish.mode })
+
+    res.json({
+      success: true,
+      data: { contentId, contentType, publish },
+      message: publish.mode === 'schedule' ? 'Draft scheduled' : 'Draft published'
+    })
   }
 )
 
@@ -0,0 +1,117 @@
+import { Response } from 'express'
+import { z } from 'zod'
+import type { SchemaAuditExportFormat } from 'aeo-schema-generator-shared/types'
+import { createError, asyncHandler } from '../middleware/errorHandler.js'
+import type { AuthenticatedRequest } from '../middleware/auth.js'
+import schemaAuditService, { DEFAULT_AUDIT_PAGES, MAX_AUDIT_PAGES } from '../services/schemaAuditService.js'
+import { renderAuditCsv } from '../services/schemaAuditReport.js'
+
+const AUDIT_EXPORT_FORMATS: SchemaAuditExportFormat[] = ['json', 'csv']
+
+const startAuditSchema = z.object({
+  domain: z.string().trim().min(1, 'Domain is required'),
+  maxPages: z.number().int().min(1).max(MAX_AUDIT_PAGES).optional()
+})
+
+/**
+ * Map service "not found"/"limit" errors to proper HTTP status codes
+ */
+function toHttpError(error: unknown, fallback: string) {
+  const message = error instanceof Error ? error.message : fallback
+
+  if (message.includes('not found')) return createError(message, 404)
+  if (message.includes('at most')) return createError(message, 429)
+
+  return createError(message, 500)
+}
+
+/**
+ * POST /api/audits
+ * Start a site-wide audit of a domain's existing markup - runs in the background
+ */
+export const startSchemaAudit = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.auth!.userId
+
+  const parsed = startAuditSchema.safeParse(req.body ?? {})
+  if (!parsed.success) {
+    throw createError(`Invalid audit request: ${parsed.error.errors.map(e => `${e.path.join('.') || 'body'} ${e.message}`).join(', ')}`, 400)
+  }
+
+  try {
+    const audit = await schemaAuditService.startAudit(userId, parsed.data.domain, parsed.data.maxPages ?? DEFAULT_AUDIT_PAGES)
+
+    res.status(202).json({
+      success: true,
+      data: audit,
+      message: `Auditing up to ${audit.maxPages} pages of ${audit.domain}`
+    })
+  } catch (error) {
+    throw toHttpError(error, 'Failed to start audit')
+  }
+})
+
+/**
+ * GET /api/audits
+ * List the user's audits, newest first (without reports)
+ */
+export const listSchemaAudits = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const audits = await schemaAuditService.listAudits(req.auth!.userId)
+
+  res.json({
+    success: true,
+    data: audits
+  })
+})
+
+/**
+ * GET /api/audits/:auditId
+ * Poll an audit - includes the report once completed
+ */
+export const getSchemaAudit = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const audit = await schemaAuditService.getAudit(req.params.auditId, req.auth!.userId)
+
+  if (!audit) {
+    throw createError('Audit not found', 404)
+  }
+
+  res.json({
+    success: true,
+    data: audit
+  })
+})
+
+/**
+ * GET /api/audits/:auditId/export?format=json|csv
+ * Download a completed audit's report
+ */
+export const exportSchemaAudit = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const format = (req.query.format || 'json') as SchemaAuditExportFormat
+
+  if (!AUDIT_EXPORT_FORMATS.includes(format)) {
+    throw createError(`Format must be one of: ${AUDIT_EXPORT_FORMATS.join(', ')}`, 400)
+  }
+
+  const audit = await schemaAuditService.getAudit(req.params.auditId, req.auth!.userId)
+
+  if (!audit) {
+    throw createError('Audit not found', 404)
+  }
+
+  if (!audit.report) {
+    throw createError('This audit has not completed yet', 409)
+  }
+
+  const slug = audit.domain.replace(/^https?:\/\//, '').replace(/[^a-z0-9.-]+/gi, '-')
+  const date = audit.report.generatedAt.slice(0, 10)
+
+  if (format === 'csv') {
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8')
+    res.setHeader('Content-Disposition', `attachment; filename="${slug}-schema-audit-${date}.csv"`)
+    res.send(renderAuditCsv(audit.report))
+    return
+  }
+
+  res.setHeader('Content-Type', 'application/json; charset=utf-8')
+  res.setHeader('Content-Disposition', `attachment; filename="${slug}-schema-audit-${date}.json"`)
+  res.send(JSON.stringify(audit.report, null, 2))
+})
@@ -13,6 +13,7 @@ import { db } from '../services/database.js'
 import { MAX_REFINEMENTS } from 'aeo-schema-generator-shared/config'
 import { scraperService } from '../services/scraper.js'
 import { urlValidator } from '../services/urlValidator.js'
+import { emitSchemaChangeEvents } from '../services/webhooks/delivery.js'
 
 export const generateSchema = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
   const userId = req.auth!.userId
@@ -91,7 +92,8 @@ export const generateSchema = asyncHandler(async (req: AuthenticatedRequest, res
       ipAddress: req.ip,
       userAgent: req.get('User-Agent'),
       schemaType,
-      shouldChargeCredits: isFirstSchemaForUrl  // Only charge for first schema
+      shouldChargeCredits: isFirstSchemaForUrl,  // Only charge for first schema
+      apiKeyId: req.auth!.apiKeyId
     })
 
     if (result.success) {
@@ -131,6 +133,19 @@ export const generateSchema = asyncHandler(async (req: AuthenticatedRequest, res
         // Don't fail the request if library save fails
       }
 
+      emitSchemaChangeEvents(
+        { userId, teamId: req.auth!.teamId },
+        'schema.generated',
+        {
+          url: validatedData.url,
+          urlId,
+          schemaId: result.metadata.schemaId,
+          schemas: result.schemas,
+          schemaScore: result.schemaScore?.overallScore
+        },
+        validatorService.validateMultipleSchemas(result.schemas)
+      )
+
       res.json({
         success: true,
         data: {
@@ -283,6 +298,19 @@ export const refineSchema = asyncHandler(async (req: AuthenticatedRequest, res:
         // Don't fail the request if library update fails
       }
 
+      emitSchemaChangeEvents(
+        { userId, teamId: req.auth!.teamId },
+        'schema.refined',
+        {
+          url,
+          urlId: schemaRecord?.discoveredUrlId || undefined,
+          schemaId: schemaRecord?.id,
+          schemas: result.schemas,
+          schemaScore: result.schemaScore?.overallScore
+        },
+        validatorService.validateMultipleSchemas(result.schemas)
+      )
+
       res.json({
         success: true,
         data: {
@@ -369,6 +397,19 @@ export const refineLibrarySchema = asyncHandler(async (req: AuthenticatedRequest
 
       console.log(`💾 Schema updated in database with ${currentRefinements + 1} refinements`)
 
+      emitSchemaChangeEvents(
+        { userId, teamId: req.auth!.teamId },
+        'schema.refined',
+        {
+          url,
+          urlId: schemaRecord.discoveredUrlId || undefined,
+          schemaId: schemaRecord.id,
+          schemas: result.schemas,
+          schemaScore: result.schemaScore?.overallScore
+        },
+        validatorService.validateMultipleSchemas(result.schemas)
+      )
+
       res.json({
         success: true,
         data: {
@@ -456,6 +497,22 @@ export const validateSchema = asyncHandler(async (req: AuthenticatedRequest, res
   try {
     const validationResult = validatorService.validateSchema(schemaToValidate)
 
+    // Record headless validations against the API key that made them
+    if (req.auth?.apiKeyId) {
+      await db.trackUsage(
+        req.auth.userId,
+        'schema_validation',
+        {
+          apiKeyId: req.auth.apiKeyId,
+          source: 'api_key',
+          schemaType: schemaToValidate['@type'],
+          isValid: validationResult.isValid
+        },
+        req.ip,
+        req.get('User-Agent')
+      ).catch((error) => console.error('❌ Failed to track API key validation usage:', error))
+    }
+
     res.json({
       success: true,
       data: {
@@ -650,145 +707,6 @@ export const batchGenerateSchemas = asyncHandler(async (req: AuthenticatedReques
   }
 })
 
-// Batch generate schemas with SSE streaming for real-time progress
-export const batchGenerateSchemasStream = async (req: AuthenticatedRequest, res: Response) => {
-  const userId = req.auth!.userId
-  const { urls, options } = req.body
-
-  if (!Array.isArray(urls) || urls.length === 0) {
-    res.status(400).json({ error: 'Request must contain an array of URLs' })
-    return
-  }
-
-  if (urls.length > 10) {
-    res.status(400).json({ error: 'Maximum 10 URLs allowed per batch request' })
-    return
-  }
-
-  // Set up SSE headers
-  res.setHeader('Content-Type', 'text/event-stream')
-  res.setHeader('Cache-Control', 'no-cache')
-  res.setHeader('Connection', 'keep-alive')
-  res.flushHeaders()
-
-  const sendEvent = (event: string, data: any) => {
-    res.write(`event: ${event}\n`)
-    res.write(`data: ${JSON.stringify(data)}\n\n`)
-  }
-
-  try {
-    let totalCreditsUsed = 0
-    let successCount = 0
-    let failedCount = 0
-
-    // Process URLs sequentially and stream results
-    for (let i = 0; i < urls.length; i++) {
-      const url = urls[i]
-
-      try {
-        // Send processing event
-        sendEvent('progress', {
-          index: i,
-          url,
-          status: 'processing',
-          completed: i,
-          total: urls.length
-        })
-
-        // Generate schema for single URL
-        const request = {
-          url,
-          userId,
-          options,
-          ipAddress: req.ip,
-          userAgent: req.get('User-Agent')
-        }
-
-        const result = await schemaGeneratorService.generateSchemas(request)
-        totalCreditsUsed += result.metadata.creditsUsed
-
-        let discoveredUrlId: string | undefined = undefined
-
-        // Save to library if successful
-        if (result.success && result.metadata.schemaId) {
-          try {
-            const baseDomain = extractBaseDomain(url)
-            const domain = await db.saveOrUpdateDomain(userId, baseDomain)
-            const path = extractPath(url)
-            const depth = calculatePathDepth(path)
-
-            const discoveredUrl = await db.saveSingleUrlToLibrary(
-              userId,
-              url,
-              path,
-              depth,
-              domain.id
-            )
-            discoveredUrlId = discoveredUrl.id
-
-            await db.linkSchemaToDiscoveredUrl(result.metadata.schemaId, discoveredUrlId)
-            successCount++
-          } catch (error) {
-            console.error('❌ Failed to save URL to library:', error)
-          }
-        } else {
-          failedCount++
-        }
-
-        // Send completion event for this URL
-        sendEvent('progress', {
-          index: i,
-          url,
-          status: result.success ? 'success' : 'failed',
-          schemas: result.schemas,
-          error: result.metadata.errorMessage,
-          urlId: discoveredUrlId,
-          completed: i + 1,
-          total: urls.length
-        })
-
-        // Add delay between requests (except for the last one)
-        if (i < urls.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 1000))
-        }
-
-      } catch (error) {
-        failedCount++
-        sendEvent('progress', {
-          index: i,
-          url,
-          status: 'failed',
-          error: error instanceof Error ? error.message : 'Unknown error',
-          completed: i + 1,
-          total: urls.length
-        })
-
-        // Continue with next URL even if this one failed
-        if (i < urls.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 1000))
-        }
-      }
-    }
-
-    // Send final completion event
-    sendEvent('complete', {
-      summary: {
-        total: urls.length,
-        successful: successCount,
-        failed: failedCount,
-        creditsUsed: totalCreditsUsed
-      }
-    })
-
-    res.end()
-  } catch (error) {
-    sendEvent('error', {
-      message: error instanceof Error ? error.message : 'Batch generation failed'
-    })
-    res.end()
-  }
-}
-
 // Extract schema from URL - public endpoint for schema grader tool
 export const extractSchemaFromUrl = asyncHandler(async (req: Request, res: Response) => {
   const { url } = req.body
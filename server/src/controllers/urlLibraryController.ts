@@ -4,6 +4,13 @@ import { createError, asyncHandler } from '../middleware/errorHandler.js'
 import type { AuthenticatedRequest } from '../middleware/auth.js'
 import { z } from 'zod'
 import { normalizeUrl } from 'aeo-schema-generator-shared/utils'
+import { schemaDriftMonitor } from '../services/schemaDriftMonitor.js'
+import { validatorService } from '../services/validator.js'
+import { emitSchemaChangeEvents } from '../services/webhooks/delivery.js'
+import { schemaExportService, SCHEMA_EXPORT_FORMATS, SCHEMA_OUTPUT_MODES } from '../services/schemaExport.js'
+import { schemaEmbedService, generateSiteKey } from '../services/schemaEmbed.js'
+import { clientReportService, CLIENT_REPORT_FORMATS, CLIENT_REPORT_PERIODS } from '../services/clientReport.js'
+import type { ClientReportFormat, ClientReportPeriod, SchemaExportFormat, SchemaOutputMode } from 'aeo-schema-generator-shared/types'
 
 // Validation schemas
 const saveUrlsSchema = z.object({
@@ -124,6 +131,136 @@ export const deleteDomain = asyncHandler(async (req: AuthenticatedRequest, res:
   })
 })
 
+// Download a domain's schema as a JSON manifest, CSV or static-site framework bundle
+export const exportDomainSchemas = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.auth!.userId
+  const { domainId } = req.params
+  const format = (req.query.format || 'json') as SchemaExportFormat
+  const outputMode = (req.query.outputMode || 'flat') as SchemaOutputMode
+
+  if (!domainId) {
+    throw createError('Domain ID is required', 400)
+  }
+
+  if (!SCHEMA_EXPORT_FORMATS.includes(format)) {
+    throw createError(`Format must be one of: ${SCHEMA_EXPORT_FORMATS.join(', ')}`, 400)
+  }
+
+  if (!SCHEMA_OUTPUT_MODES.includes(outputMode)) {
+    throw createError(`Output mode must be one of: ${SCHEMA_OUTPUT_MODES.join(', ')}`, 400)
+  }
+
+  const file = await schemaExportService.exportDomain(userId, domainId, format, outputMode)
+
+  if (!file) {
+    throw createError('Domain not found', 404)
+  }
+
+  if (file.pageCount === 0) {
+    throw createError('This domain has no schema to export yet', 400)
+  }
+
+  res.setHeader('Content-Type', file.contentType)
+  res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`)
+  res.send(file.body)
+})
+
+// Download a branded client report (schema coverage, audit, GA4 AI visibility) as HTML or PDF
+export const downloadClientReport = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.auth!.userId
+  const teamId = req.auth!.teamId || undefined
+  const { domainId } = req.params
+  const format = (req.query.format || 'pdf') as ClientReportFormat
+  const days = Number(req.query.days || 30) as ClientReportPeriod
+
+  if (!domainId) {
+    throw createError('Domain ID is required', 400)
+  }
+
+  if (!CLIENT_REPORT_FORMATS.includes(format)) {
+    throw createError(`Format must be one of: ${CLIENT_REPORT_FORMATS.join(', ')}`, 400)
+  }
+
+  if (!CLIENT_REPORT_PERIODS.includes(days)) {
+    throw createError(`Days must be one of: ${CLIENT_REPORT_PERIODS.join(', ')}`, 400)
+  }
+
+  const file = await clientReportService.generateReport(userId, teamId, domainId, format, days)
+
+  if (!file) {
+    throw createError('Domain not found', 404)
+  }
+
+  res.setHeader('Content-Type', file.contentType)
+  res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`)
+  res.send(file.body)
+})
+
+// Turn the embeddable schema loader on or off for a domain (a site key is created on first enable)
+export const updateDomainEmbed = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.auth!.userId
+  const { domainId } = req.params
+  const { enabled } = req.body
+
+  if (!domainId) {
+    throw createError('Domain ID is required', 400)
+  }
+
+  if (typeof enabled !== 'boolean') {
+    throw createError('enabled must be a boolean', 400)
+  }
+
+  const domain = (await db.getUserDomains(userId)).find(d => d.id === domainId)
+  if (!domain) {
+    throw createError('Domain not found', 404)
+  }
+
+  const updated = await db.updateDomainEmbedSettings(userId, domainId, {
+    embedEnabled: enabled,
+    embedSiteKey: enabled && !domain.embedSiteKey ? generateSiteKey() : undefined
+  })
+
+  if (domain.embedSiteKey) {
+    schemaEmbedService.invalidateSiteKey(domain.embedSiteKey)
+  }
+
+  res.json({
+    success: true,
+    data: updated,
+    message: enabled ? 'Schema embed enabled' : 'Schema embed disabled'
+  })
+})
+
+// Replace a domain's embed site key - snippets with the old key stop loading schema
+export const rotateDomainEmbedKey = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.auth!.userId
+  const { domainId } = req.params
+
+  if (!domainId) {
+    throw createError('Domain ID is required', 400)
+  }
+
+  const domain = (await db.getUserDomains(userId)).find(d => d.id === domainId)
+  if (!domain) {
+    throw createError('Domain not found', 404)
+  }
+
+  const updated = await db.updateDomainEmbedSettings(userId, domainId, {
+    embedEnabled: domain.embedEnabled ?? false,
+    embedSiteKey: generateSiteKey()
+  })
+
+  if (domain.embedSiteKey) {
+    schemaEmbedService.invalidateSiteKey(domain.embedSiteKey)
+  }
+
+  res.json({
+    success: true,
+    data: updated,
+    message: 'Site key rotated. Update the snippet on your site.'
+  })
+})
+
 // Get schema for a discovered URL
 // BACKWARD COMPATIBLE: Returns first schema to maintain existing frontend compatibility
 export const getUrlSchema = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
@@ -195,6 +332,13 @@ export const updateUrlSchema = asyncHandler(async (req: AuthenticatedRequest, re
   // Update the schemas
   await db.updateSchemaContent(schemaRecord.id, schemas)
 
+  emitSchemaChangeEvents(
+    { userId: req.auth!.userId, teamId: req.auth!.teamId },
+    'schema.updated',
+    { url: schemaRecord.url, urlId, schemaId: schemaRecord.id, schemas },
+    validatorService.validateMultipleSchemas(schemas)
+  )
+
   res.json({
     success: true,
     message: 'Schema updated successfully'
@@ -238,3 +382,36 @@ export const checkUrlExists = asyncHandler(async (req: AuthenticatedRequest, res
     data: result
   })
 })
+
+// Get per-domain schema drift health summary
+export const getDriftSummary = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.auth!.userId
+
+  const summaries = await db.getDriftSummaryByDomain(userId)
+
+  res.json({
+    success: true,
+    data: summaries
+  })
+})
+
+// Re-check a URL's live page for schema drift now (instead of waiting for the scheduled monitor)
+export const checkUrlDrift = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.auth!.userId
+  const { urlId } = req.params
+
+  if (!urlId) {
+    throw createError('URL ID is required', 400)
+  }
+
+  const result = await schemaDriftMonitor.checkUrl(urlId, userId)
+
+  if (!result) {
+    throw createError('URL not found or has no generated schema', 404)
+  }
+
+  res.json({
+    success: true,
+    data: result
+  })
+})
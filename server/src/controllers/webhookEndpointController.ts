@@ -0,0 +1,263 @@
+import { Response } from 'express'
+import { createError, asyncHandler } from '../middleware/errorHandler.js'
+import type { AuthenticatedRequest } from '../middleware/auth.js'
+import webhookEndpointService from '../services/webhooks/endpoints.js'
+import { listDeliveries, sendTestWebhook } from '../services/webhooks/delivery.js'
+
+// =============================================================================
+// INPUT VALIDATION HELPERS
+// =============================================================================
+
+const MAX_NAME_LENGTH = 100
+
+/**
+ * Validate and trim an endpoint name
+ */
+function validateEndpointName(name: unknown, required: boolean): string | undefined {
+  if (name === undefined && !required) {
+    return undefined
+  }
+
+  if (typeof name !== 'string' || name.trim().length === 0) {
+    throw createError('Webhook name is required', 400)
+  }
+
+  const trimmed = name.trim()
+  if (trimmed.length > MAX_NAME_LENGTH) {
+    throw createError(`Webhook name cannot exceed ${MAX_NAME_LENGTH} characters`, 400)
+  }
+
+  return trimmed
+}
+
+/**
+ * Validate URL and events up front, converting service errors to 400s
+ */
+function validateEndpointInput(url: unknown, events: unknown) {
+  try {
+    return {
+      url: url === undefined ? undefined : webhookEndpointService.validateWebhookUrl(url),
+      events: events === undefined ? undefined : webhookEndpointService.normalizeEvents(events)
+    }
+  } catch (error) {
+    throw createError(error instanceof Error ? error.message : 'Invalid webhook endpoint', 400)
+  }
+}
+
+/**
+ * Map service "not found"/"limit" errors to proper HTTP status codes
+ */
+function toHttpError(error: unknown, fallback: string) {
+  const message = error instanceof Error ? error.message : fallback
+
+  if (message.includes('not found')) return createError(message, 404)
+  if (message.includes('at most')) return createError(message, 400)
+
+  return createError(message, 500)
+}
+
+// =============================================================================
+// WEBHOOK ENDPOINT HANDLERS
+// =============================================================================
+
+/**
+ * GET /api/team/webhooks
+ * List webhook endpoints for the current team
+ */
+export const listWebhookEndpoints = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const teamId = req.auth!.teamId!
+
+    const endpoints = await webhookEndpointService.listEndpoints(teamId)
+
+    res.json({
+      success: true,
+      data: endpoints
+    })
+  }
+)
+
+/**
+ * POST /api/team/webhooks
+ * Create a webhook endpoint - the signing secret is only returned in this response
+ */
+export const createWebhookEndpoint = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const teamId = req.auth!.teamId!
+    const userId = req.auth!.userId
+
+    const name = validateEndpointName(req.body?.name, true)!
+    const { url, events } = validateEndpointInput(req.body?.url ?? '', req.body?.events)
+
+    console.log('🪝 [WebhookController] Creating endpoint:', { teamId, userId, name, url, events })
+
+    try {
+      const created = await webhookEndpointService.createEndpoint(teamId, userId, { name, url: url!, events })
+
+      res.status(201).json({
+        success: true,
+        data: created,
+        message: 'Webhook created. Copy the signing secret now - it will not be shown again.'
+      })
+    } catch (error) {
+      throw toHttpError(error, 'Failed to create webhook endpoint')
+    }
+  }
+)
+
+/**
+ * PATCH /api/team/webhooks/:endpointId
+ * Rename an endpoint, change its URL or events, or pause/resume it
+ */
+export const updateWebhookEndpoint = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { endpointId } = req.params
+    const teamId = req.auth!.teamId!
+
+    if (!endpointId) {
+      throw createError('Webhook endpoint ID is required', 400)
+    }
+
+    const name = validateEndpointName(req.body?.name, false)
+    const { url, events } = validateEndpointInput(req.body?.url, req.body?.events)
+    const isActive = req.body?.isActive
+
+    if (isActive !== undefined && typeof isActive !== 'boolean') {
+      throw createError('isActive must be a boolean', 400)
+    }
+
+    if (name === undefined && url === undefined && events === undefined && isActive === undefined) {
+      throw createError('Nothing to update', 400)
+    }
+
+    try {
+      const endpoint = await webhookEndpointService.updateEndpoint(endpointId, teamId, { name, url, events, isActive })
+
+      res.json({
+        success: true,
+        data: endpoint,
+        message: 'Webhook updated successfully'
+      })
+    } catch (error) {
+      throw toHttpError(error, 'Failed to update webhook endpoint')
+    }
+  }
+)
+
+/**
+ * POST /api/team/webhooks/:endpointId/rotate
+ * Replace the signing secret - the old secret keeps signing for a grace period
+ */
+export const rotateWebhookSecret = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { endpointId } = req.params
+    const teamId = req.auth!.teamId!
+
+    if (!endpointId) {
+      throw createError('Webhook endpoint ID is required', 400)
+    }
+
+    console.log('🔄 [WebhookController] Rotating secret:', { endpointId, teamId })
+
+    try {
+      const rotated = await webhookEndpointService.rotateEndpointSecret(endpointId, teamId)
+
+      res.json({
+        success: true,
+        data: rotated,
+        message: 'Signing secret rotated. Deliveries are signed with both secrets for the next 24 hours.'
+      })
+    } catch (error) {
+      throw toHttpError(error, 'Failed to rotate webhook secret')
+    }
+  }
+)
+
+/**
+ * DELETE /api/team/webhooks/:endpointId
+ * Delete an endpoint and its delivery log
+ */
+export const deleteWebhookEndpoint = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { endpointId } = req.params
+    const teamId = req.auth!.teamId!
+
+    if (!endpointId) {
+      throw createError('Webhook endpoint ID is required', 400)
+    }
+
+    try {
+      await webhookEndpointService.deleteEndpoint(endpointId, teamId)
+
+      res.json({
+        success: true,
+        message: 'Webhook deleted successfully'
+      })
+    } catch (error) {
+      throw toHttpError(error, 'Failed to delete webhook endpoint')
+    }
+  }
+)
+
+/**
+ * POST /api/team/webhooks/:endpointId/test
+ * Send a signed webhook.test event and return the delivery outcome
+ */
+export const testWebhookEndpoint = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { endpointId } = req.params
+    const teamId = req.auth!.teamId!
+
+    const endpoint = await webhookEndpointService.getEndpoint(endpointId, teamId)
+    if (!endpoint) {
+      throw createError('Webhook endpoint not found or access denied', 404)
+    }
+    if (!endpoint.isActive) {
+      throw createError('Resume the webhook before sending a test', 400)
+    }
+
+    const delivery = await sendTestWebhook(endpointId, teamId)
+
+    res.json({
+      success: true,
+      data: delivery,
+      message: delivery.status === 'success'
+        ? `Test delivered (HTTP ${delivery.responseStatus})`
+        : `Test delivery failed: ${delivery.errorMessage}`
+    })
+  }
+)
+
+/**
+ * GET /api/team/webhooks/:endpointId/deliveries
+ * Recent deliveries for an endpoint
+ */
+export const listWebhookDeliveries = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { endpointId } = req.params
+    const teamId = req.auth!.teamId!
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 100)
+
+    const endpoint = await webhookEndpointService.getEndpoint(endpointId, teamId)
+    if (!endpoint) {
+      throw createError('Webhook endpoint not found or access denied', 404)
+    }
+
+    const deliveries = await listDeliveries(endpointId, teamId, limit)
+
+    res.json({
+      success: true,
+      data: deliveries
+    })
+  }
+)
+
+export default {
+  listWebhookEndpoints,
+  createWebhookEndpoint,
+  updateWebhookEndpoint,
+  rotateWebhookSecret,
+  deleteWebhookEndpoint,
+  testWebhookEndpoint,
+  listWebhookDeliveries
+}
@@ -0,0 +1,350 @@
+import { Response } from 'express'
+import { asyncHandler, createError } from '../middleware/errorHandler.js'
+import type { AuthenticatedRequest } from '../middleware/auth.js'
+import {
+  wordpressCMSService,
+  normalizeWordPressSiteUrl,
+  DEFAULT_META_KEYS
+} from '../services/wordpress/cms.js'
+import { encrypt } from '../services/encryption.js'
+import { db } from '../services/database.js'
+import { emitWebhookEvent } from '../services/webhooks/delivery.js'
+import type { WordPressSchemaInjection } from 'aeo-schema-generator-shared/types'
+
+const INJECTION_METHODS: WordPressSchemaInjection[] = ['post_meta', 'head_block']
+
+/**
+ * Load a connection and verify it belongs to the user
+ */
+async function getUserConnection(userId: string, connectionId: unknown) {
+  if (!connectionId || typeof connectionId !== 'string') {
+    throw createError('Connection ID is required', 400)
+  }
+
+  const connection = await db.getWordPressConnection(connectionId)
+  if (!connection || connection.userId !== userId || !connection.isActive) {
+    throw createError('Connection not found', 404)
+  }
+  return connection
+}
+
+/**
+ * Connect a WordPress site with an application password
+ */
+export const createConnection = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.auth!.userId
+    const { siteUrl, username, applicationPassword, injectionMethod = 'post_meta', metaKey } = req.body
+
+    if (!siteUrl || !username || !applicationPassword) {
+      throw createError('Site URL, username and application password are required', 400)
+    }
+
+    if (!INJECTION_METHODS.includes(injectionMethod)) {
+      throw createError('injectionMethod must be post_meta or head_block', 400)
+    }
+
+    const resolvedMetaKey = (typeof metaKey === 'string' && metaKey.trim()) || DEFAULT_META_KEYS[injectionMethod as WordPressSchemaInjection]
+    if (!/^[A-Za-z0-9_-]+$/.test(resolvedMetaKey)) {
+      throw createError('Meta key may only contain letters, numbers, underscores and dashes', 400)
+    }
+
+    let normalizedSiteUrl: string
+    try {
+      normalizedSiteUrl = normalizeWordPressSiteUrl(siteUrl)
+    } catch (error) {
+      throw createError(error instanceof Error ? error.message : 'Invalid site URL', 400)
+    }
+
+    // Nothing is stored unless WordPress accepts the credentials
+    let siteName: string | undefined
+    try {
+      ({ siteName } = await wordpressCMSService.validateCredentials(normalizedSiteUrl, username, applicationPassword))
+    } catch (error) {
+      throw createError(error instanceof Error ? error.message : 'Could not connect to WordPress', 400)
+    }
+
+    const connectionId = await db.createWordPressConnection({
+      userId,
+      siteUrl: normalizedSiteUrl,
+      siteName,
+      username,
+      applicationPassword: encrypt(applicationPassword),
+      injectionMethod,
+      metaKey: resolvedMetaKey
+    })
+
+    // Match library URLs on the site's own domain without manual setup
+    await db.addDomainToWordPressConnection(connectionId, new URL(normalizedSiteUrl).hostname)
+
+    console.log('✅ [WordPress Controller] Site connected:', { connectionId, siteUrl: normalizedSiteUrl })
+
+    res.json({
+      success: true,
+      data: { connectionId, siteUrl: normalizedSiteUrl, siteName },
+      message: 'WordPress site connected successfully'
+    })
+  }
+)
+
+/**
+ * Get user's WordPress connections
+ */
+export const getConnections = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.auth!.userId
+
+    const connections = await db.getUserWordPressConnections(userId)
+
+    res.json({
+      success: true,
+      data: connections
+    })
+  }
+)
+
+/**
+ * Validate a WordPress connection
+ */
+export const validateConnection = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.auth!.userId
+    const { connectionId } = req.params
+
+    await getUserConnection(userId, connectionId)
+
+    const isValid = await wordpressCMSService.validateConnection(connectionId)
+
+    res.json({
+      success: true,
+      data: {
+        isValid,
+        connectionId
+      }
+    })
+  }
+)
+
+/**
+ * Disconnect WordPress site
+ * The application password stays valid in WordPress until the user revokes it there
+ */
+export const disconnectSite = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.auth!.userId
+    const { connectionId } = req.params
+
+    await getUserConnection(userId, connectionId)
+    await db.deactivateWordPressConnection(connectionId)
+
+    res.json({
+      success: true,
+      message: 'WordPress site disconnected successfully'
+    })
+  }
+)
+
+/**
+ * List published posts of a connected site
+ */
+export const listPosts = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.auth!.userId
+    const connection = await getUserConnection(userId, req.query.connectionId)
+
+    const posts = await wordpressCMSService.listPosts(connection.id)
+
+    res.json({
+      success: true,
+      data: posts
+    })
+  }
+)
+
+/**
+ * List published pages of a connected site
+ */
+export const listPages = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.auth!.userId
+    const connection = await getUserConnection(userId, req.query.connectionId)
+
+    const pages = await wordpressCMSService.listPages(connection.id)
+
+    res.json({
+      success: true,
+      data: pages
+    })
+  }
+)
+
+/**
+ * Match URL to WordPress content
+ */
+export const matchContent = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.auth!.userId
+    const { url } = req.query
+
+    if (!url || typeof url !== 'string') {
+      throw createError('URL is required', 400)
+    }
+
+    const connection = await getUserConnection(userId, req.query.connectionId)
+    const matches = await wordpressCMSService.matchUrlToContent(connection.id, url)
+
+    res.json({
+      success: true,
+      data: matches
+    })
+  }
+)
+
+/**
+ * Push schema to a WordPress post or page
+ */
+export const pushSchema = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.auth!.userId
+    const {
+      connectionId,
+      contentId,
+      contentType,
+      schemaHtml,
+      schemaGenerationId,
+      contentTitle,
+      contentUrl
+    } = req.body
+
+    if (!connectionId || !contentId || !contentType || !schemaHtml) {
+      throw createError('Missing required fields', 400)
+    }
+
+    if (contentType !== 'post' && contentType !== 'page') {
+      throw createError('Invalid content type', 400)
+    }
+
+    await getUserConnection(userId, connectionId)
+
+    const syncJobId = await db.createWordPressSyncJob({
+      userId,
+      connectionId,
+      schemaGenerationId,
+      wpContentId: String(contentId),
+      wpContentType: contentType,
+      wpContentTitle: contentTitle,
+      wpContentUrl: contentUrl
+    })
+
+    try {
+      const change = await wordpressCMSService.pushSchema(connectionId, String(contentId), contentType, schemaHtml)
+      await db.updateWordPressSyncJobSuccess(syncJobId, change)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      await db.updateWordPressSyncJobFailure(syncJobId, errorMessage)
+
+      console.error('❌ [WordPress Controller] Schema push failed:', error)
+      throw createError(errorMessage, 502)
+    }
+
+    console.log('✅ [WordPress Controller] Schema pushed successfully:', { syncJobId, contentId, contentType })
+
+    emitWebhookEvent({ userId, teamId: req.auth!.teamId }, 'schema.pushed', {
+      cms: 'wordpress',
+      connectionId,
+      syncJobId,
+      contentId: String(contentId),
+      contentType,
+      contentTitle,
+      contentUrl,
+      schemaGenerationId,
+      userId
+    })
+
+    res.json({
+      success: true,
+      data: {
+        syncJobId,
+        contentId,
+        contentType
+      },
+      message: 'Schema pushed to WordPress successfully'
+    })
+  }
+)
+
+/**
+ * Get WordPress sync history for user
+ */
+export const getSyncHistory = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.auth!.userId
+    const limit = parseInt(req.query.limit as string) || 50
+    const offset = parseInt(req.query.offset as string) || 0
+
+    const history = await db.getWordPressSyncHistory(userId, limit, offset)
+
+    res.json({
+      success: true,
+      data: history
+    })
+  }
+)
+
+/**
+ * Add domain to WordPress connection
+ */
+export const addDomainToConnection = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.auth!.userId
+    const { connectionId } = req.params
+    const { domain } = req.body
+
+    if (!domain || typeof domain !== 'string') {
+      throw createError('Domain is required', 400)
+    }
+
+    // Normalize domain - strip protocol, path, trailing slash
+    let normalizedDomain: string
+    try {
+      normalizedDomain = new URL(domain.includes('://') ? domain.trim() : `https://${domain.trim()}`).hostname
+    } catch {
+      throw createError('Invalid domain', 400)
+    }
+
+    await getUserConnection(userId, connectionId)
+
+    const success = await db.addDomainToWordPressConnection(connectionId, normalizedDomain)
+    if (!success) {
+      throw createError('Domain already associated with this connection', 400)
+    }
+
+    res.json({
+      success: true,
+      message: 'Domain added to connection successfully'
+    })
+  }
+)
+
+/**
+ * Remove domain from WordPress connection
+ */
+export const removeDomainFromConnection = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.auth!.userId
+    const { connectionId } = req.params
+    const { domain } = req.body
+
+    if (!domain) {
+      throw createError('Domain is required', 400)
+    }
+
+    await getUserConnection(userId, connectionId)
+    await db.removeDomainFromWordPressConnection(connectionId, domain)
+
+    res.json({
+      success: true,
+      message: 'Domain removed from connection successfully'
+    })
+  }
+)
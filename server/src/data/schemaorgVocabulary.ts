@@ -0,0 +1,3850 @@
+/**
+ * Bundled schema.org vocabulary
+ *
+ * Generated by scripts/generate-schemaorg-vocabulary.ts - do not edit by hand.
+ * Used to validate and sanitize generated schemas. Unknown types are never used to reject a
+ * property or value.
+ *
+ * Format:
+ * - types: every class with its direct parents and the properties declared on it
+ *   (schema:domainIncludes inverted). Inherited properties are not repeated.
+ * - dataTypes: literal types (Text, URL, Number, ...) with their parents
+ * - properties: property name -> accepted value types (schema:rangeIncludes)
+ * - enumerationMembers: enumeration -> member names
+ * - superseded: deprecated type/property/member -> replacement (schema:supersededBy)
+ */
+
+export interface SchemaVocabularyType {
+  parents: string[]
+  properties: string[]
+}
+
+export interface SchemaVocabularyData {
+  /** schema.org release the bundle was built from */
+  release: string
+  types: Record<string, SchemaVocabularyType>
+  dataTypes: Record<string, string[]>
+  properties: Record<string, string[]>
+  enumerationMembers: Record<string, string[]>
+  superseded: Record<string, string>
+}
+
+export const SCHEMAORG_VOCABULARY: SchemaVocabularyData = {
+  release: 'schemaorg-current-http.nt from @vocabulary/schema@1.1.0',
+
+  types: {
+    '3DModel': { parents: ['MediaObject'], properties: ['isResizable'] },
+    AboutPage: { parents: ['WebPage'], properties: [] },
+    AcceptAction: { parents: ['AllocateAction'], properties: [] },
+    Accommodation: {
+      parents: ['Place'],
+      properties: [
+        'accommodationCategory', 'accommodationFloorPlan', 'amenityFeature', 'bed', 'floorLevel', 'floorSize',
+        'leaseLength', 'numberOfBathroomsTotal', 'numberOfBedrooms', 'numberOfFullBathrooms',
+        'numberOfPartialBathrooms', 'numberOfRooms', 'occupancy', 'permittedUsage', 'petsAllowed',
+        'tourBookingPage', 'yearBuilt'
+      ]
+    },
+    AccountingService: { parents: ['FinancialService'], properties: [] },
+    AchieveAction: { parents: ['Action'], properties: [] },
+    Action: {
+      parents: ['Thing'],
+      properties: [
+        'actionProcess', 'actionStatus', 'agent', 'endTime', 'error', 'instrument', 'location', 'object',
+        'participant', 'provider', 'result', 'startTime', 'target'
+      ]
+    },
+    ActionAccessSpecification: {
+      parents: ['Intangible'],
+      properties: [
+        'availabilityEnds', 'availabilityStarts', 'category', 'eligibleRegion', 'expectsAcceptanceOf',
+        'ineligibleRegion', 'requiresSubscription'
+      ]
+    },
+    ActionStatusType: { parents: ['StatusEnumeration'], properties: [] },
+    ActivateAction: { parents: ['ControlAction'], properties: [] },
+    AddAction: { parents: ['UpdateAction'], properties: [] },
+    AdministrativeArea: { parents: ['Place'], properties: [] },
+    AdultEntertainment: { parents: ['EntertainmentBusiness'], properties: [] },
+    AdultOrientedEnumeration: { parents: ['Enumeration'], properties: [] },
+    AdvertiserContentArticle: { parents: ['Article'], properties: [] },
+    AggregateOffer: { parents: ['Offer'], properties: ['highPrice', 'lowPrice', 'offerCount', 'offers'] },
+    AggregateRating: { parents: ['Rating'], properties: ['itemReviewed', 'ratingCount', 'reviewCount'] },
+    AgreeAction: { parents: ['ReactAction'], properties: [] },
+    Airline: { parents: ['Organization'], properties: ['boardingPolicy', 'iataCode'] },
+    Airport: { parents: ['CivicStructure'], properties: ['iataCode', 'icaoCode'] },
+    AlignmentObject: {
+      parents: ['Intangible'],
+      properties: ['alignmentType', 'educationalFramework', 'targetDescription', 'targetName', 'targetUrl']
+    },
+    AllocateAction: { parents: ['OrganizeAction'], properties: [] },
+    AmpStory: { parents: ['CreativeWork', 'MediaObject'], properties: [] },
+    AMRadioChannel: { parents: ['RadioChannel'], properties: [] },
+    AmusementPark: { parents: ['EntertainmentBusiness'], properties: [] },
+    AnalysisNewsArticle: { parents: ['NewsArticle'], properties: [] },
+    AnatomicalStructure: {
+      parents: ['MedicalEntity'],
+      properties: [
+        'associatedPathophysiology', 'bodyLocation', 'connectedTo', 'diagram', 'partOfSystem',
+        'relatedCondition', 'relatedTherapy', 'subStructure'
+      ]
+    },
+    AnatomicalSystem: {
+      parents: ['MedicalEntity'],
+      properties: [
+        'associatedPathophysiology', 'comprisedOf', 'relatedCondition', 'relatedStructure', 'relatedTherapy'
+      ]
+    },
+    AnimalShelter: { parents: ['LocalBusiness'], properties: [] },
+    Answer: { parents: ['Comment'], properties: ['answerExplanation', 'parentItem'] },
+    Apartment: { parents: ['Accommodation'], properties: ['numberOfRooms', 'occupancy'] },
+    ApartmentComplex: {
+      parents: ['Residence'],
+      properties: [
+        'numberOfAccommodationUnits', 'numberOfAvailableAccommodationUnits', 'numberOfBedrooms',
+        'petsAllowed', 'tourBookingPage'
+      ]
+    },
+    APIReference: {
+      parents: ['TechArticle'],
+      properties: [
+        'assembly', 'assemblyVersion', 'executableLibraryName', 'programmingModel', 'targetPlatform'
+      ]
+    },
+    AppendAction: { parents: ['InsertAction'], properties: [] },
+    ApplyAction: { parents: ['OrganizeAction'], properties: [] },
+    ApprovedIndication: { parents: ['MedicalIndication'], properties: [] },
+    Aquarium: { parents: ['CivicStructure'], properties: [] },
+    ArchiveComponent: { parents: ['CreativeWork'], properties: ['holdingArchive', 'itemLocation'] },
+    ArchiveOrganization: { parents: ['LocalBusiness'], properties: ['archiveHeld'] },
+    ArriveAction: { parents: ['MoveAction'], properties: [] },
+    Artery: { parents: ['Vessel'], properties: ['arterialBranch', 'supplyTo'] },
+    ArtGallery: { parents: ['EntertainmentBusiness'], properties: [] },
+    Article: {
+      parents: ['CreativeWork'],
+      properties: [
+        'articleBody', 'articleSection', 'backstory', 'pageEnd', 'pageStart', 'pagination', 'speakable',
+        'wordCount'
+      ]
+    },
+    AskAction: { parents: ['CommunicateAction'], properties: ['question'] },
+    AskPublicNewsArticle: { parents: ['NewsArticle'], properties: [] },
+    AssessAction: { parents: ['Action'], properties: [] },
+    AssignAction: { parents: ['AllocateAction'], properties: [] },
+    Atlas: { parents: ['CreativeWork'], properties: [] },
+    Attorney: { parents: ['LegalService'], properties: [] },
+    Audience: { parents: ['Intangible'], properties: ['audienceType', 'geographicArea'] },
+    Audiobook: { parents: ['AudioObject', 'Book'], properties: ['duration', 'readBy'] },
+    AudioObject: { parents: ['MediaObject'], properties: ['caption', 'embeddedTextCaption', 'transcript'] },
+    AudioObjectSnapshot: { parents: ['AudioObject'], properties: [] },
+    AuthenticateAction: { parents: ['ControlAction'], properties: [] },
+    AuthorizeAction: { parents: ['AllocateAction'], properties: ['recipient'] },
+    AutoBodyShop: { parents: ['AutomotiveBusiness'], properties: [] },
+    AutoDealer: { parents: ['AutomotiveBusiness'], properties: [] },
+    AutomatedTeller: { parents: ['FinancialService'], properties: [] },
+    AutomotiveBusiness: { parents: ['LocalBusiness'], properties: [] },
+    AutoPartsStore: { parents: ['AutomotiveBusiness', 'Store'], properties: [] },
+    AutoRental: { parents: ['AutomotiveBusiness'], properties: [] },
+    AutoRepair: { parents: ['AutomotiveBusiness'], properties: [] },
+    AutoWash: { parents: ['AutomotiveBusiness'], properties: [] },
+    BackgroundNewsArticle: { parents: ['NewsArticle'], properties: [] },
+    Bakery: { parents: ['FoodEstablishment'], properties: [] },
+    BankAccount: {
+      parents: ['FinancialProduct'],
+      properties: ['accountMinimumInflow', 'accountOverdraftLimit', 'bankAccountType']
+    },
+    BankOrCreditUnion: { parents: ['FinancialService'], properties: [] },
+    Barcode: { parents: ['ImageObject'], properties: [] },
+    BarOrPub: { parents: ['FoodEstablishment'], properties: [] },
+    Beach: { parents: ['CivicStructure'], properties: [] },
+    BeautySalon: { parents: ['HealthAndBeautyBusiness'], properties: [] },
+    BedAndBreakfast: { parents: ['LodgingBusiness'], properties: [] },
+    BedDetails: { parents: ['Intangible'], properties: ['numberOfBeds', 'typeOfBed'] },
+    BedType: { parents: ['QualitativeValue'], properties: [] },
+    BefriendAction: { parents: ['InteractAction'], properties: [] },
+    BikeStore: { parents: ['Store'], properties: [] },
+    BioChemEntity: {
+      parents: ['Thing'],
+      properties: [
+        'associatedDisease', 'bioChemInteraction', 'bioChemSimilarity', 'biologicalRole', 'funding',
+        'hasBioChemEntityPart', 'hasMolecularFunction', 'hasRepresentation', 'isEncodedByBioChemEntity',
+        'isInvolvedInBiologicalProcess', 'isLocatedInSubcellularLocation', 'isPartOfBioChemEntity',
+        'taxonomicRange'
+      ]
+    },
+    Blog: { parents: ['CreativeWork'], properties: ['blogPost', 'blogPosts', 'issn'] },
+    BlogPosting: { parents: ['SocialMediaPosting'], properties: [] },
+    BloodTest: { parents: ['MedicalTest'], properties: [] },
+    BoardingPolicyType: { parents: ['Enumeration'], properties: [] },
+    BoatReservation: { parents: ['Reservation'], properties: [] },
+    BoatTerminal: { parents: ['CivicStructure'], properties: [] },
+    BoatTrip: { parents: ['Trip'], properties: ['arrivalBoatTerminal', 'departureBoatTerminal'] },
+    BodyMeasurementTypeEnumeration: { parents: ['MeasurementTypeEnumeration'], properties: [] },
+    BodyOfWater: { parents: ['Landform'], properties: [] },
+    Bone: { parents: ['AnatomicalStructure'], properties: [] },
+    Book: {
+      parents: ['CreativeWork'],
+      properties: ['abridged', 'bookEdition', 'bookFormat', 'illustrator', 'isbn', 'numberOfPages']
+    },
+    BookFormatType: { parents: ['Enumeration'], properties: [] },
+    BookmarkAction: { parents: ['OrganizeAction'], properties: [] },
+    BookSeries: { parents: ['CreativeWorkSeries'], properties: [] },
+    BookStore: { parents: ['Store'], properties: [] },
+    BorrowAction: { parents: ['TransferAction'], properties: ['lender'] },
+    BowlingAlley: { parents: ['SportsActivityLocation'], properties: [] },
+    BrainStructure: { parents: ['AnatomicalStructure'], properties: [] },
+    Brand: { parents: ['Intangible'], properties: ['aggregateRating', 'logo', 'review', 'slogan'] },
+    BreadcrumbList: { parents: ['ItemList'], properties: [] },
+    Brewery: { parents: ['FoodEstablishment'], properties: [] },
+    Bridge: { parents: ['CivicStructure'], properties: [] },
+    BroadcastChannel: {
+      parents: ['Intangible'],
+      properties: [
+        'broadcastChannelId', 'broadcastFrequency', 'broadcastServiceTier', 'genre', 'inBroadcastLineup',
+        'providesBroadcastService'
+      ]
+    },
+    BroadcastEvent: {
+      parents: ['PublicationEvent'],
+      properties: ['broadcastOfEvent', 'isLiveBroadcast', 'subtitleLanguage', 'videoFormat']
+    },
+    BroadcastFrequencySpecification: {
+      parents: ['Intangible'],
+      properties: ['broadcastFrequencyValue', 'broadcastSignalModulation', 'broadcastSubChannel']
+    },
+    BroadcastService: {
+      parents: ['Service'],
+      properties: [
+        'area', 'broadcastAffiliateOf', 'broadcastDisplayName', 'broadcaster', 'broadcastFrequency',
+        'broadcastTimezone', 'callSign', 'hasBroadcastChannel', 'inLanguage', 'parentService', 'videoFormat'
+      ]
+    },
+    BrokerageAccount: { parents: ['InvestmentOrDeposit'], properties: [] },
+    BuddhistTemple: { parents: ['PlaceOfWorship'], properties: [] },
+    BusinessAudience: {
+      parents: ['Audience'],
+      properties: ['numberOfEmployees', 'yearlyRevenue', 'yearsInOperation']
+    },
+    BusinessEntityType: { parents: ['Enumeration'], properties: [] },
+    BusinessEvent: { parents: ['Event'], properties: [] },
+    BusinessFunction: { parents: ['Enumeration'], properties: [] },
+    BusOrCoach: { parents: ['Vehicle'], properties: ['acrissCode', 'roofLoad'] },
+    BusReservation: { parents: ['Reservation'], properties: [] },
+    BusStation: { parents: ['CivicStructure'], properties: [] },
+    BusStop: { parents: ['CivicStructure'], properties: [] },
+    BusTrip: { parents: ['Trip'], properties: ['arrivalBusStop', 'busName', 'busNumber', 'departureBusStop'] },
+    BuyAction: { parents: ['TradeAction'], properties: ['seller', 'vendor', 'warrantyPromise'] },
+    CableOrSatelliteService: { parents: ['Service'], properties: [] },
+    CafeOrCoffeeShop: { parents: ['FoodEstablishment'], properties: [] },
+    Campground: { parents: ['CivicStructure', 'LodgingBusiness'], properties: [] },
+    CampingPitch: { parents: ['Accommodation'], properties: [] },
+    Canal: { parents: ['BodyOfWater'], properties: [] },
+    CancelAction: { parents: ['PlanAction'], properties: [] },
+    Car: { parents: ['Vehicle'], properties: ['acrissCode', 'roofLoad'] },
+    CarUsageType: { parents: ['Enumeration'], properties: [] },
+    Casino: { parents: ['EntertainmentBusiness'], properties: [] },
+    CategoryCode: { parents: ['DefinedTerm'], properties: ['codeValue', 'inCodeSet'] },
+    CategoryCodeSet: { parents: ['DefinedTermSet'], properties: ['hasCategoryCode'] },
+    CatholicChurch: { parents: ['Church'], properties: [] },
+    CDCPMDRecord: {
+      parents: ['StructuredValue'],
+      properties: [
+        'cvdCollectionDate', 'cvdFacilityCounty', 'cvdFacilityId', 'cvdNumBeds', 'cvdNumBedsOcc',
+        'cvdNumC19Died', 'cvdNumC19HOPats', 'cvdNumC19HospPats', 'cvdNumC19MechVentPats',
+        'cvdNumC19OFMechVentPats', 'cvdNumC19OverflowPats', 'cvdNumICUBeds', 'cvdNumICUBedsOcc',
+        'cvdNumTotBeds', 'cvdNumVent', 'cvdNumVentUse', 'datePosted'
+      ]
+    },
+    Cemetery: { parents: ['CivicStructure'], properties: [] },
+    Certification: {
+      parents: ['CreativeWork'],
+      properties: [
+        'about', 'auditDate', 'certificationIdentification', 'certificationRating', 'certificationStatus',
+        'datePublished', 'expires', 'hasMeasurement', 'issuedBy', 'logo', 'validFrom', 'validIn'
+      ]
+    },
+    CertificationStatusEnumeration: { parents: ['Enumeration'], properties: [] },
+    Chapter: { parents: ['CreativeWork'], properties: ['pageEnd', 'pageStart', 'pagination'] },
+    CheckAction: { parents: ['FindAction'], properties: [] },
+    CheckInAction: { parents: ['CommunicateAction'], properties: [] },
+    CheckOutAction: { parents: ['CommunicateAction'], properties: [] },
+    CheckoutPage: { parents: ['WebPage'], properties: [] },
+    ChemicalSubstance: {
+      parents: ['BioChemEntity'],
+      properties: ['chemicalComposition', 'chemicalRole', 'potentialUse']
+    },
+    ChildCare: { parents: ['LocalBusiness'], properties: [] },
+    ChildrensEvent: { parents: ['Event'], properties: [] },
+    ChooseAction: { parents: ['AssessAction'], properties: ['actionOption', 'option'] },
+    Church: { parents: ['PlaceOfWorship'], properties: [] },
+    City: { parents: ['AdministrativeArea'], properties: [] },
+    CityHall: { parents: ['GovernmentBuilding'], properties: [] },
+    CivicStructure: { parents: ['Place'], properties: ['openingHours'] },
+    Claim: { parents: ['CreativeWork'], properties: ['appearance', 'claimInterpreter', 'firstAppearance'] },
+    ClaimReview: { parents: ['Review'], properties: ['claimReviewed'] },
+    Class: { parents: ['Intangible'], properties: ['supersededBy'] },
+    Clip: {
+      parents: ['CreativeWork'],
+      properties: [
+        'actor', 'actors', 'clipNumber', 'director', 'directors', 'endOffset', 'musicBy', 'partOfEpisode',
+        'partOfSeason', 'partOfSeries', 'startOffset'
+      ]
+    },
+    ClothingStore: { parents: ['Store'], properties: [] },
+    Code: { parents: ['CreativeWork'], properties: [] },
+    Collection: { parents: ['CreativeWork'], properties: ['collectionSize'] },
+    CollectionPage: { parents: ['WebPage'], properties: [] },
+    CollegeOrUniversity: { parents: ['EducationalOrganization'], properties: [] },
+    ComedyClub: { parents: ['EntertainmentBusiness'], properties: [] },
+    ComedyEvent: { parents: ['Event'], properties: [] },
+    ComicCoverArt: { parents: ['ComicStory', 'CoverArt'], properties: [] },
+    ComicIssue: {
+      parents: ['PublicationIssue'],
+      properties: ['artist', 'colorist', 'inker', 'letterer', 'penciler', 'variantCover']
+    },
+    ComicSeries: { parents: ['Periodical'], properties: [] },
+    ComicStory: {
+      parents: ['CreativeWork'],
+      properties: ['artist', 'colorist', 'inker', 'letterer', 'penciler']
+    },
+    Comment: {
+      parents: ['CreativeWork'],
+      properties: ['downvoteCount', 'parentItem', 'sharedContent', 'upvoteCount']
+    },
+    CommentAction: { parents: ['CommunicateAction'], properties: ['resultComment'] },
+    CommunicateAction: {
+      parents: ['InteractAction'],
+      properties: ['about', 'inLanguage', 'language', 'recipient']
+    },
+    CompleteDataFeed: { parents: ['DataFeed'], properties: [] },
+    CompoundPriceSpecification: {
+      parents: ['PriceSpecification'],
+      properties: ['priceComponent', 'priceType']
+    },
+    ComputerLanguage: { parents: ['Intangible'], properties: [] },
+    ComputerStore: { parents: ['Store'], properties: [] },
+    ConferenceEvent: { parents: ['Event'], properties: [] },
+    ConfirmAction: { parents: ['InformAction'], properties: [] },
+    Consortium: { parents: ['Organization'], properties: [] },
+    ConstraintNode: { parents: ['Intangible'], properties: ['constraintProperty', 'numConstraints'] },
+    ConsumeAction: {
+      parents: ['Action'],
+      properties: ['actionAccessibilityRequirement', 'expectsAcceptanceOf']
+    },
+    ContactPage: { parents: ['WebPage'], properties: [] },
+    ContactPoint: {
+      parents: ['StructuredValue'],
+      properties: [
+        'areaServed', 'availableLanguage', 'contactOption', 'contactType', 'email', 'faxNumber',
+        'hoursAvailable', 'productSupported', 'serviceArea', 'telephone'
+      ]
+    },
+    ContactPointOption: { parents: ['Enumeration'], properties: [] },
+    Continent: { parents: ['Landform'], properties: [] },
+    ControlAction: { parents: ['Action'], properties: [] },
+    ConvenienceStore: { parents: ['Store'], properties: [] },
+    Conversation: { parents: ['CreativeWork'], properties: [] },
+    CookAction: { parents: ['CreateAction'], properties: ['foodEstablishment', 'foodEvent', 'recipe'] },
+    Cooperative: { parents: ['Organization'], properties: [] },
+    Corporation: { parents: ['Organization'], properties: ['tickerSymbol'] },
+    CorrectionComment: { parents: ['Comment'], properties: [] },
+    Country: { parents: ['AdministrativeArea'], properties: [] },
+    Course: {
+      parents: ['CreativeWork', 'LearningResource'],
+      properties: [
+        'availableLanguage', 'courseCode', 'coursePrerequisites', 'educationalCredentialAwarded',
+        'financialAidEligible', 'hasCourseInstance', 'numberOfCredits', 'occupationalCredentialAwarded',
+        'syllabusSections', 'totalHistoricalEnrollment'
+      ]
+    },
+    CourseInstance: {
+      parents: ['Event'],
+      properties: ['courseMode', 'courseSchedule', 'courseWorkload', 'instructor']
+    },
+    Courthouse: { parents: ['GovernmentBuilding'], properties: [] },
+    CoverArt: { parents: ['VisualArtwork'], properties: [] },
+    CovidTestingFacility: { parents: ['MedicalClinic'], properties: [] },
+    CreateAction: { parents: ['Action'], properties: [] },
+    CreativeWork: {
+      parents: ['Thing'],
+      properties: [
+        'about', 'abstract', 'accessibilityAPI', 'accessibilityControl', 'accessibilityFeature',
+        'accessibilityHazard', 'accessibilitySummary', 'accessMode', 'accessModeSufficient',
+        'accountablePerson', 'acquireLicensePage', 'aggregateRating', 'alternativeHeadline', 'archivedAt',
+        'assesses', 'associatedMedia', 'audience', 'audio', 'author', 'award', 'awards', 'character',
+        'citation', 'comment', 'commentCount', 'conditionsOfAccess', 'contentLocation', 'contentRating',
+        'contentReferenceTime', 'contributor', 'copyrightHolder', 'copyrightNotice', 'copyrightYear',
+        'correction', 'countryOfOrigin', 'creativeWorkStatus', 'creator', 'creditText', 'dateCreated',
+        'dateModified', 'datePublished', 'digitalSourceType', 'discussionUrl', 'displayLocation', 'editEIDR',
+        'editor', 'educationalAlignment', 'educationalLevel', 'educationalUse', 'encoding', 'encodingFormat',
+        'encodings', 'exampleOfWork', 'expires', 'fileFormat', 'funder', 'funding', 'genre', 'hasPart',
+        'headline', 'inLanguage', 'interactionStatistic', 'interactivityType', 'interpretedAsClaim',
+        'isAccessibleForFree', 'isBasedOn', 'isBasedOnUrl', 'isFamilyFriendly', 'isPartOf', 'keywords',
+        'learningResourceType', 'license', 'locationCreated', 'mainEntity', 'maintainer', 'material',
+        'materialExtent', 'mentions', 'offers', 'pattern', 'position', 'producer', 'provider', 'publication',
+        'publisher', 'publisherImprint', 'publishingPrinciples', 'recordedAt', 'releasedEvent', 'review',
+        'reviews', 'schemaVersion', 'sdDatePublished', 'sdLicense', 'sdPublisher', 'size',
+        'sourceOrganization', 'spatial', 'spatialCoverage', 'sponsor', 'teaches', 'temporal',
+        'temporalCoverage', 'text', 'thumbnail', 'thumbnailUrl', 'timeRequired', 'translationOfWork',
+        'translator', 'typicalAgeRange', 'usageInfo', 'version', 'video', 'wordCount', 'workExample',
+        'workTranslation'
+      ]
+    },
+    CreativeWorkSeason: {
+      parents: ['CreativeWork'],
+      properties: [
+        'actor', 'director', 'endDate', 'episode', 'episodes', 'numberOfEpisodes', 'partOfSeries',
+        'productionCompany', 'seasonNumber', 'startDate', 'trailer'
+      ]
+    },
+    CreativeWorkSeries: { parents: ['CreativeWork', 'Series'], properties: ['endDate', 'issn', 'startDate'] },
+    CreditCard: { parents: ['LoanOrCredit', 'PaymentCard'], properties: [] },
+    Crematorium: { parents: ['CivicStructure'], properties: [] },
+    CriticReview: { parents: ['Review'], properties: [] },
+    CurrencyConversionService: { parents: ['FinancialProduct'], properties: [] },
+    DanceEvent: { parents: ['Event'], properties: [] },
+    DanceGroup: { parents: ['PerformingGroup'], properties: [] },
+    DataCatalog: {
+      parents: ['CreativeWork'],
+      properties: ['dataset', 'measurementMethod', 'measurementTechnique']
+    },
+    DataDownload: { parents: ['MediaObject'], properties: ['measurementMethod', 'measurementTechnique'] },
+    DataFeed: { parents: ['Dataset'], properties: ['dataFeedElement'] },
+    DataFeedItem: {
+      parents: ['Intangible'],
+      properties: ['dateCreated', 'dateDeleted', 'dateModified', 'item']
+    },
+    Dataset: {
+      parents: ['CreativeWork'],
+      properties: [
+        'catalog', 'datasetTimeInterval', 'distribution', 'includedDataCatalog', 'includedInDataCatalog',
+        'issn', 'measurementMethod', 'measurementTechnique', 'variableMeasured'
+      ]
+    },
+    DatedMoneySpecification: {
+      parents: ['StructuredValue'],
+      properties: ['amount', 'currency', 'endDate', 'startDate']
+    },
+    DayOfWeek: { parents: ['Enumeration'], properties: [] },
+    DaySpa: { parents: ['HealthAndBeautyBusiness'], properties: [] },
+    DDxElement: { parents: ['MedicalIntangible'], properties: ['diagnosis', 'distinguishingSign'] },
+    DeactivateAction: { parents: ['ControlAction'], properties: [] },
+    DefenceEstablishment: { parents: ['GovernmentBuilding'], properties: [] },
+    DefinedRegion: {
+      parents: ['Place', 'StructuredValue'],
+      properties: ['addressCountry', 'addressRegion', 'postalCode', 'postalCodePrefix', 'postalCodeRange']
+    },
+    DefinedTerm: { parents: ['Intangible'], properties: ['about', 'inDefinedTermSet', 'termCode'] },
+    DefinedTermSet: { parents: ['CreativeWork'], properties: ['about', 'hasDefinedTerm'] },
+    DeleteAction: { parents: ['UpdateAction'], properties: [] },
+    DeliveryChargeSpecification: {
+      parents: ['PriceSpecification'],
+      properties: ['appliesToDeliveryMethod', 'areaServed', 'eligibleRegion', 'ineligibleRegion']
+    },
+    DeliveryEvent: {
+      parents: ['Event'],
+      properties: ['accessCode', 'availableFrom', 'availableThrough', 'hasDeliveryMethod']
+    },
+    DeliveryMethod: { parents: ['Enumeration'], properties: [] },
+    Demand: {
+      parents: ['Intangible'],
+      properties: [
+        'acceptedPaymentMethod', 'advanceBookingRequirement', 'areaServed', 'asin', 'availability',
+        'availabilityEnds', 'availabilityStarts', 'availableAtOrFrom', 'availableDeliveryMethod',
+        'businessFunction', 'deliveryLeadTime', 'eligibleCustomerType', 'eligibleDuration',
+        'eligibleQuantity', 'eligibleRegion', 'eligibleTransactionVolume', 'gtin', 'gtin12', 'gtin13',
+        'gtin14', 'gtin8', 'includesObject', 'ineligibleRegion', 'inventoryLevel', 'itemCondition',
+        'itemOffered', 'mpn', 'priceSpecification', 'seller', 'serialNumber', 'sku', 'validFrom',
+        'validThrough', 'warranty'
+      ]
+    },
+    Dentist: { parents: ['LocalBusiness', 'MedicalBusiness', 'MedicalOrganization'], properties: [] },
+    DepartAction: { parents: ['MoveAction'], properties: [] },
+    DepartmentStore: { parents: ['Store'], properties: [] },
+    DepositAccount: { parents: ['BankAccount', 'InvestmentOrDeposit'], properties: [] },
+    DiagnosticLab: { parents: ['MedicalOrganization'], properties: ['availableTest'] },
+    DiagnosticProcedure: { parents: ['MedicalProcedure'], properties: [] },
+    Diet: {
+      parents: ['CreativeWork', 'LifestyleModification'],
+      properties: ['dietFeatures', 'endorsers', 'expertConsiderations', 'physiologicalBenefits', 'risks']
+    },
+    DietarySupplement: {
+      parents: ['Product', 'Substance'],
+      properties: [
+        'activeIngredient', 'isProprietary', 'legalStatus', 'maximumIntake', 'mechanismOfAction',
+        'nonProprietaryName', 'proprietaryName', 'recommendedIntake', 'safetyConsideration',
+        'targetPopulation'
+      ]
+    },
+    DigitalDocument: { parents: ['CreativeWork'], properties: ['hasDigitalDocumentPermission'] },
+    DigitalDocumentPermission: { parents: ['Intangible'], properties: ['grantee', 'permissionType'] },
+    DigitalDocumentPermissionType: { parents: ['Enumeration'], properties: [] },
+    DigitalPlatformEnumeration: { parents: ['Enumeration'], properties: [] },
+    DisagreeAction: { parents: ['ReactAction'], properties: [] },
+    DiscoverAction: { parents: ['FindAction'], properties: [] },
+    DiscussionForumPosting: { parents: ['SocialMediaPosting'], properties: [] },
+    DislikeAction: { parents: ['ReactAction'], properties: [] },
+    Distance: { parents: ['Quantity'], properties: [] },
+    Distillery: { parents: ['FoodEstablishment'], properties: [] },
+    DonateAction: {
+      parents: ['TransferAction'],
+      properties: ['price', 'priceCurrency', 'priceSpecification', 'recipient']
+    },
+    DoseSchedule: {
+      parents: ['MedicalIntangible'],
+      properties: ['doseUnit', 'doseValue', 'frequency', 'targetPopulation']
+    },
+    DownloadAction: { parents: ['TransferAction'], properties: [] },
+    DrawAction: { parents: ['CreateAction'], properties: [] },
+    Drawing: { parents: ['CreativeWork'], properties: [] },
+    DrinkAction: { parents: ['ConsumeAction'], properties: [] },
+    DriveWheelConfigurationValue: { parents: ['QualitativeValue'], properties: [] },
+    Drug: {
+      parents: ['Product', 'Substance'],
+      properties: [
+        'activeIngredient', 'administrationRoute', 'alcoholWarning', 'availableStrength',
+        'breastfeedingWarning', 'clincalPharmacology', 'clinicalPharmacology', 'dosageForm', 'doseSchedule',
+        'drugClass', 'drugUnit', 'foodWarning', 'includedInHealthInsurancePlan', 'interactingDrug',
+        'isAvailableGenerically', 'isProprietary', 'labelDetails', 'legalStatus', 'maximumIntake',
+        'mechanismOfAction', 'nonProprietaryName', 'overdosage', 'pregnancyCategory', 'pregnancyWarning',
+        'prescribingInfo', 'prescriptionStatus', 'proprietaryName', 'relatedDrug', 'rxcui', 'warning'
+      ]
+    },
+    DrugClass: { parents: ['MedicalEntity'], properties: ['drug'] },
+    DrugCost: {
+      parents: ['MedicalEntity'],
+      properties: [
+        'applicableLocation', 'costCategory', 'costCurrency', 'costOrigin', 'costPerUnit', 'drugUnit'
+      ]
+    },
+    DrugCostCategory: { parents: ['MedicalEnumeration'], properties: [] },
+    DrugLegalStatus: { parents: ['MedicalIntangible'], properties: ['applicableLocation'] },
+    DrugPregnancyCategory: { parents: ['MedicalEnumeration'], properties: [] },
+    DrugPrescriptionStatus: { parents: ['MedicalEnumeration'], properties: [] },
+    DrugStrength: {
+      parents: ['MedicalIntangible'],
+      properties: ['activeIngredient', 'availableIn', 'maximumIntake', 'strengthUnit', 'strengthValue']
+    },
+    DryCleaningOrLaundry: { parents: ['LocalBusiness'], properties: [] },
+    Duration: { parents: ['Quantity'], properties: [] },
+    EatAction: { parents: ['ConsumeAction'], properties: [] },
+    EducationalAudience: { parents: ['Audience'], properties: ['educationalRole'] },
+    EducationalOccupationalCredential: {
+      parents: ['CreativeWork'],
+      properties: [
+        'competencyRequired', 'credentialCategory', 'educationalLevel', 'recognizedBy', 'validFor', 'validIn'
+      ]
+    },
+    EducationalOccupationalProgram: {
+      parents: ['Intangible'],
+      properties: [
+        'applicationDeadline', 'applicationStartDate', 'dayOfWeek', 'educationalCredentialAwarded',
+        'educationalProgramMode', 'endDate', 'financialAidEligible', 'hasCourse', 'maximumEnrollment',
+        'numberOfCredits', 'occupationalCategory', 'occupationalCredentialAwarded', 'offers',
+        'programPrerequisites', 'programType', 'provider', 'salaryUponCompletion', 'startDate',
+        'termDuration', 'termsPerYear', 'timeOfDay', 'timeToComplete', 'trainingSalary',
+        'typicalCreditsPerTerm'
+      ]
+    },
+    EducationalOrganization: { parents: ['CivicStructure', 'Organization'], properties: ['alumni'] },
+    EducationEvent: { parents: ['Event'], properties: ['assesses', 'educationalLevel', 'teaches'] },
+    Electrician: { parents: ['HomeAndConstructionBusiness'], properties: [] },
+    ElectronicsStore: { parents: ['Store'], properties: [] },
+    ElementarySchool: { parents: ['EducationalOrganization'], properties: [] },
+    EmailMessage: { parents: ['Message'], properties: [] },
+    Embassy: { parents: ['GovernmentBuilding'], properties: [] },
+    EmergencyService: { parents: ['LocalBusiness'], properties: [] },
+    EmployeeRole: { parents: ['OrganizationRole'], properties: ['baseSalary', 'salaryCurrency'] },
+    EmployerAggregateRating: { parents: ['AggregateRating'], properties: [] },
+    EmployerReview: { parents: ['Review'], properties: [] },
+    EmploymentAgency: { parents: ['LocalBusiness'], properties: [] },
+    EndorseAction: { parents: ['ReactAction'], properties: ['endorsee'] },
+    EndorsementRating: { parents: ['Rating'], properties: [] },
+    Energy: { parents: ['Quantity'], properties: [] },
+    EnergyConsumptionDetails: {
+      parents: ['Intangible'],
+      properties: ['energyEfficiencyScaleMax', 'energyEfficiencyScaleMin', 'hasEnergyEfficiencyCategory']
+    },
+    EnergyEfficiencyEnumeration: { parents: ['Enumeration'], properties: [] },
+    EnergyStarEnergyEfficiencyEnumeration: { parents: ['EnergyEfficiencyEnumeration'], properties: [] },
+    EngineSpecification: {
+      parents: ['StructuredValue'],
+      properties: ['engineDisplacement', 'enginePower', 'engineType', 'fuelType', 'torque']
+    },
+    EntertainmentBusiness: { parents: ['LocalBusiness'], properties: [] },
+    EntryPoint: {
+      parents: ['Intangible'],
+      properties: [
+        'actionApplication', 'actionPlatform', 'application', 'contentType', 'encodingType', 'httpMethod',
+        'urlTemplate'
+      ]
+    },
+    Enumeration: { parents: ['Intangible'], properties: ['supersededBy'] },
+    Episode: {
+      parents: ['CreativeWork'],
+      properties: [
+        'actor', 'actors', 'director', 'directors', 'duration', 'episodeNumber', 'musicBy', 'partOfSeason',
+        'partOfSeries', 'productionCompany', 'trailer'
+      ]
+    },
+    Error: { parents: ['InstantaneousEvent'], properties: ['errorCode'] },
+    EUEnergyEfficiencyEnumeration: { parents: ['EnergyEfficiencyEnumeration'], properties: [] },
+    Event: {
+      parents: ['Thing'],
+      properties: [
+        'about', 'actor', 'aggregateRating', 'attendee', 'attendees', 'audience', 'composer', 'contributor',
+        'director', 'doorTime', 'duration', 'endDate', 'eventAttendanceMode', 'eventSchedule', 'eventStatus',
+        'funder', 'funding', 'hasParticipationOffer', 'hasSponsorshipOffer', 'inLanguage',
+        'isAccessibleForFree', 'keywords', 'location', 'maximumAttendeeCapacity',
+        'maximumPhysicalAttendeeCapacity', 'maximumVirtualAttendeeCapacity', 'offers', 'organizer',
+        'performer', 'performers', 'previousStartDate', 'recordedIn', 'remainingAttendeeCapacity', 'review',
+        'sponsor', 'startDate', 'subEvent', 'subEvents', 'superEvent', 'translator', 'typicalAgeRange',
+        'workFeatured', 'workPerformed'
+      ]
+    },
+    EventAttendanceModeEnumeration: { parents: ['Enumeration'], properties: [] },
+    EventReservation: { parents: ['Reservation'], properties: [] },
+    EventSeries: { parents: ['Event', 'Series'], properties: [] },
+    EventStatusType: { parents: ['StatusEnumeration'], properties: [] },
+    EventVenue: { parents: ['CivicStructure'], properties: [] },
+    ExchangeRateSpecification: {
+      parents: ['StructuredValue'],
+      properties: ['currency', 'currentExchangeRate', 'exchangeRateSpread']
+    },
+    ExerciseAction: {
+      parents: ['PlayAction'],
+      properties: [
+        'course', 'diet', 'distance', 'exerciseCourse', 'exercisePlan', 'exerciseRelatedDiet', 'exerciseType',
+        'fromLocation', 'opponent', 'sportsActivityLocation', 'sportsEvent', 'sportsTeam', 'toLocation'
+      ]
+    },
+    ExerciseGym: { parents: ['SportsActivityLocation'], properties: [] },
+    ExercisePlan: {
+      parents: ['CreativeWork', 'PhysicalActivity'],
+      properties: [
+        'activityDuration', 'activityFrequency', 'additionalVariable', 'exerciseType', 'intensity',
+        'repetitions', 'restPeriods', 'workload'
+      ]
+    },
+    ExhibitionEvent: { parents: ['Event'], properties: [] },
+    FAQPage: { parents: ['WebPage'], properties: [] },
+    FastFoodRestaurant: { parents: ['FoodEstablishment'], properties: [] },
+    Festival: { parents: ['Event'], properties: [] },
+    FilmAction: { parents: ['CreateAction'], properties: [] },
+    FinancialIncentive: {
+      parents: ['Intangible'],
+      properties: [
+        'areaServed', 'eligibleWithSupplier', 'incentiveAmount', 'incentiveStatus', 'incentiveType',
+        'incentivizedItem', 'incomeLimit', 'provider', 'publisher', 'purchasePriceLimit', 'purchaseType',
+        'qualifiedExpense', 'validFrom', 'validThrough'
+      ]
+    },
+    FinancialProduct: {
+      parents: ['Service'],
+      properties: ['annualPercentageRate', 'feesAndCommissionsSpecification', 'interestRate']
+    },
+    FinancialService: { parents: ['LocalBusiness'], properties: ['feesAndCommissionsSpecification'] },
+    FindAction: { parents: ['Action'], properties: [] },
+    FireStation: { parents: ['CivicStructure', 'EmergencyService'], properties: [] },
+    Flight: {
+      parents: ['Trip'],
+      properties: [
+        'aircraft', 'arrivalAirport', 'arrivalGate', 'arrivalTerminal', 'boardingPolicy', 'carrier',
+        'departureAirport', 'departureGate', 'departureTerminal', 'estimatedFlightDuration', 'flightDistance',
+        'flightNumber', 'mealService', 'seller', 'webCheckinTime'
+      ]
+    },
+    FlightReservation: {
+      parents: ['Reservation'],
+      properties: ['boardingGroup', 'passengerPriorityStatus', 'passengerSequenceNumber', 'securityScreening']
+    },
+    FloorPlan: {
+      parents: ['Intangible'],
+      properties: [
+        'amenityFeature', 'floorSize', 'isPlanForApartment', 'layoutImage', 'numberOfAccommodationUnits',
+        'numberOfAvailableAccommodationUnits', 'numberOfBathroomsTotal', 'numberOfBedrooms',
+        'numberOfFullBathrooms', 'numberOfPartialBathrooms', 'numberOfRooms', 'petsAllowed'
+      ]
+    },
+    Florist: { parents: ['Store'], properties: [] },
+    FMRadioChannel: { parents: ['RadioChannel'], properties: [] },
+    FollowAction: { parents: ['InteractAction'], properties: ['followee'] },
+    FoodEstablishment: {
+      parents: ['LocalBusiness'],
+      properties: ['acceptsReservations', 'hasMenu', 'menu', 'servesCuisine', 'starRating']
+    },
+    FoodEstablishmentReservation: {
+      parents: ['Reservation'],
+      properties: ['endTime', 'partySize', 'startTime']
+    },
+    FoodEvent: { parents: ['Event'], properties: [] },
+    FoodService: { parents: ['Service'], properties: [] },
+    FulfillmentTypeEnumeration: { parents: ['Enumeration'], properties: [] },
+    FundingAgency: { parents: ['Project'], properties: [] },
+    FundingScheme: { parents: ['Organization'], properties: [] },
+    FurnitureStore: { parents: ['Store'], properties: [] },
+    Game: {
+      parents: ['CreativeWork'],
+      properties: ['characterAttribute', 'gameItem', 'gameLocation', 'numberOfPlayers', 'quest']
+    },
+    GameAvailabilityEnumeration: { parents: ['Enumeration'], properties: [] },
+    GamePlayMode: { parents: ['Enumeration'], properties: [] },
+    GameServer: { parents: ['Intangible'], properties: ['game', 'playersOnline', 'serverStatus'] },
+    GameServerStatus: { parents: ['StatusEnumeration'], properties: [] },
+    GardenStore: { parents: ['Store'], properties: [] },
+    GasStation: { parents: ['AutomotiveBusiness'], properties: [] },
+    GatedResidenceCommunity: { parents: ['Residence'], properties: [] },
+    GenderType: { parents: ['Enumeration'], properties: [] },
+    Gene: {
+      parents: ['BioChemEntity'],
+      properties: ['alternativeOf', 'encodesBioChemEntity', 'expressedIn', 'hasBioPolymerSequence']
+    },
+    GeneralContractor: { parents: ['HomeAndConstructionBusiness'], properties: [] },
+    GeoCircle: { parents: ['GeoShape'], properties: ['geoMidpoint', 'geoRadius'] },
+    GeoCoordinates: {
+      parents: ['StructuredValue'],
+      properties: ['address', 'addressCountry', 'elevation', 'latitude', 'longitude', 'postalCode']
+    },
+    GeoShape: {
+      parents: ['StructuredValue'],
+      properties: ['address', 'addressCountry', 'box', 'circle', 'elevation', 'line', 'polygon', 'postalCode']
+    },
+    GeospatialGeometry: {
+      parents: ['Intangible'],
+      properties: [
+        'geoContains', 'geoCoveredBy', 'geoCovers', 'geoCrosses', 'geoDisjoint', 'geoEquals', 'geoIntersects',
+        'geoOverlaps', 'geoTouches', 'geoWithin'
+      ]
+    },
+    GiveAction: { parents: ['TransferAction'], properties: ['recipient'] },
+    GolfCourse: { parents: ['SportsActivityLocation'], properties: [] },
+    GovernmentBenefitsType: { parents: ['Enumeration'], properties: [] },
+    GovernmentBuilding: { parents: ['CivicStructure'], properties: [] },
+    GovernmentOffice: { parents: ['LocalBusiness'], properties: [] },
+    GovernmentOrganization: { parents: ['Organization'], properties: [] },
+    GovernmentPermit: { parents: ['Permit'], properties: [] },
+    GovernmentService: { parents: ['Service'], properties: ['jurisdiction', 'serviceOperator'] },
+    Grant: { parents: ['Intangible'], properties: ['fundedItem', 'funder', 'sponsor'] },
+    GroceryStore: { parents: ['Store'], properties: [] },
+    Guide: { parents: ['CreativeWork'], properties: ['category', 'reviewAspect'] },
+    Hackathon: { parents: ['Event'], properties: [] },
+    HairSalon: { parents: ['HealthAndBeautyBusiness'], properties: [] },
+    HardwareStore: { parents: ['Store'], properties: [] },
+    HealthAndBeautyBusiness: { parents: ['LocalBusiness'], properties: [] },
+    HealthAspectEnumeration: { parents: ['Enumeration'], properties: [] },
+    HealthClub: { parents: ['HealthAndBeautyBusiness', 'SportsActivityLocation'], properties: [] },
+    HealthInsurancePlan: {
+      parents: ['Intangible'],
+      properties: [
+        'benefitsSummaryUrl', 'contactPoint', 'healthPlanDrugOption', 'healthPlanDrugTier', 'healthPlanId',
+        'healthPlanMarketingUrl', 'includesHealthPlanFormulary', 'includesHealthPlanNetwork',
+        'usesHealthPlanIdStandard'
+      ]
+    },
+    HealthPlanCostSharingSpecification: {
+      parents: ['Intangible'],
+      properties: [
+        'healthPlanCoinsuranceOption', 'healthPlanCoinsuranceRate', 'healthPlanCopay',
+        'healthPlanCopayOption', 'healthPlanPharmacyCategory'
+      ]
+    },
+    HealthPlanFormulary: {
+      parents: ['Intangible'],
+      properties: ['healthPlanCostSharing', 'healthPlanDrugTier', 'offersPrescriptionByMail']
+    },
+    HealthPlanNetwork: {
+      parents: ['Intangible'],
+      properties: ['healthPlanCostSharing', 'healthPlanNetworkId', 'healthPlanNetworkTier']
+    },
+    HealthTopicContent: { parents: ['WebContent'], properties: ['hasHealthAspect'] },
+    HighSchool: { parents: ['EducationalOrganization'], properties: [] },
+    HinduTemple: { parents: ['PlaceOfWorship'], properties: [] },
+    HobbyShop: { parents: ['Store'], properties: [] },
+    HomeAndConstructionBusiness: { parents: ['LocalBusiness'], properties: [] },
+    HomeGoodsStore: { parents: ['Store'], properties: [] },
+    Hospital: {
+      parents: ['CivicStructure', 'EmergencyService', 'MedicalOrganization'],
+      properties: ['availableService', 'healthcareReportingData', 'medicalSpecialty']
+    },
+    Hostel: { parents: ['LodgingBusiness'], properties: [] },
+    Hotel: { parents: ['LodgingBusiness'], properties: [] },
+    HotelRoom: { parents: ['Room'], properties: ['bed', 'occupancy'] },
+    House: { parents: ['Accommodation'], properties: ['numberOfRooms'] },
+    HousePainter: { parents: ['HomeAndConstructionBusiness'], properties: [] },
+    HowTo: {
+      parents: ['CreativeWork'],
+      properties: [
+        'estimatedCost', 'performTime', 'prepTime', 'step', 'steps', 'supply', 'tool', 'totalTime', 'yield'
+      ]
+    },
+    HowToDirection: {
+      parents: ['CreativeWork', 'ListItem'],
+      properties: [
+        'afterMedia', 'beforeMedia', 'duringMedia', 'performTime', 'prepTime', 'supply', 'tool', 'totalTime'
+      ]
+    },
+    HowToItem: { parents: ['ListItem'], properties: ['requiredQuantity'] },
+    HowToSection: { parents: ['CreativeWork', 'ItemList', 'ListItem'], properties: ['steps'] },
+    HowToStep: { parents: ['CreativeWork', 'ItemList', 'ListItem'], properties: [] },
+    HowToSupply: { parents: ['HowToItem'], properties: ['estimatedCost'] },
+    HowToTip: { parents: ['CreativeWork', 'ListItem'], properties: [] },
+    HowToTool: { parents: ['HowToItem'], properties: [] },
+    HVACBusiness: { parents: ['HomeAndConstructionBusiness'], properties: [] },
+    HyperToc: { parents: ['CreativeWork'], properties: ['associatedMedia', 'tocEntry'] },
+    HyperTocEntry: {
+      parents: ['CreativeWork'],
+      properties: ['associatedMedia', 'tocContinuation', 'utterances']
+    },
+    IceCreamShop: { parents: ['FoodEstablishment'], properties: [] },
+    IgnoreAction: { parents: ['AssessAction'], properties: [] },
+    ImageGallery: { parents: ['MediaGallery'], properties: [] },
+    ImageObject: {
+      parents: ['MediaObject'],
+      properties: ['caption', 'embeddedTextCaption', 'exifData', 'representativeOfPage']
+    },
+    ImageObjectSnapshot: { parents: ['ImageObject'], properties: [] },
+    ImagingTest: { parents: ['MedicalTest'], properties: ['imagingTechnique'] },
+    IncentiveQualifiedExpenseType: { parents: ['Enumeration'], properties: [] },
+    IncentiveStatus: { parents: ['Enumeration'], properties: [] },
+    IncentiveType: { parents: ['Enumeration'], properties: [] },
+    IndividualPhysician: { parents: ['Physician'], properties: ['practicesAt'] },
+    IndividualProduct: { parents: ['Product'], properties: ['serialNumber'] },
+    InfectiousAgentClass: { parents: ['MedicalEnumeration'], properties: [] },
+    InfectiousDisease: {
+      parents: ['MedicalCondition'],
+      properties: ['infectiousAgent', 'infectiousAgentClass', 'transmissionMethod']
+    },
+    InformAction: { parents: ['CommunicateAction'], properties: ['event'] },
+    InsertAction: { parents: ['AddAction'], properties: ['toLocation'] },
+    InstallAction: { parents: ['ConsumeAction'], properties: [] },
+    InstantaneousEvent: { parents: ['StructuredValue'], properties: ['data', 'source', 'timestamp'] },
+    InsuranceAgency: { parents: ['FinancialService'], properties: [] },
+    Intangible: { parents: ['Thing'], properties: [] },
+    InteractAction: { parents: ['Action'], properties: [] },
+    InteractionCounter: {
+      parents: ['StructuredValue'],
+      properties: [
+        'endTime', 'interactionService', 'interactionType', 'location', 'startTime', 'userInteractionCount'
+      ]
+    },
+    InternetCafe: { parents: ['LocalBusiness'], properties: [] },
+    InvestmentFund: { parents: ['InvestmentOrDeposit'], properties: [] },
+    InvestmentOrDeposit: { parents: ['FinancialProduct'], properties: ['amount'] },
+    InviteAction: { parents: ['CommunicateAction'], properties: ['event'] },
+    Invoice: {
+      parents: ['Intangible'],
+      properties: [
+        'accountId', 'billingPeriod', 'broker', 'category', 'confirmationNumber', 'customer',
+        'minimumPaymentDue', 'paymentDue', 'paymentDueDate', 'paymentMethod', 'paymentMethodId',
+        'paymentStatus', 'provider', 'referencesOrder', 'scheduledPaymentDate', 'totalPaymentDue'
+      ]
+    },
+    IPTCDigitalSourceEnumeration: { parents: ['MediaEnumeration'], properties: [] },
+    ItemAvailability: { parents: ['Enumeration'], properties: [] },
+    ItemList: {
+      parents: ['Intangible'],
+      properties: ['aggregateElement', 'itemListElement', 'itemListOrder', 'numberOfItems']
+    },
+    ItemListOrderType: { parents: ['Enumeration'], properties: [] },
+    ItemPage: { parents: ['WebPage'], properties: [] },
+    JewelryStore: { parents: ['Store'], properties: [] },
+    JobPosting: {
+      parents: ['Intangible'],
+      properties: [
+        'applicantLocationRequirements', 'applicationContact', 'baseSalary', 'benefits', 'datePosted',
+        'directApply', 'educationRequirements', 'eligibilityToWorkRequirement', 'employerOverview',
+        'employmentType', 'employmentUnit', 'estimatedSalary', 'experienceInPlaceOfEducation',
+        'experienceRequirements', 'hiringOrganization', 'incentiveCompensation', 'incentives', 'industry',
+        'jobBenefits', 'jobImmediateStart', 'jobLocation', 'jobLocationType', 'jobStartDate',
+        'occupationalCategory', 'physicalRequirement', 'qualifications', 'relevantOccupation',
+        'responsibilities', 'salaryCurrency', 'securityClearanceRequirement', 'sensoryRequirement', 'skills',
+        'specialCommitments', 'title', 'totalJobOpenings', 'validThrough', 'workHours'
+      ]
+    },
+    JoinAction: { parents: ['InteractAction'], properties: ['event'] },
+    Joint: {
+      parents: ['AnatomicalStructure'],
+      properties: ['biomechnicalClass', 'functionalClass', 'structuralClass']
+    },
+    LakeBodyOfWater: { parents: ['BodyOfWater'], properties: [] },
+    Landform: { parents: ['Place'], properties: [] },
+    LandmarksOrHistoricalBuildings: { parents: ['Place'], properties: [] },
+    Language: { parents: ['Intangible'], properties: [] },
+    LearningResource: {
+      parents: ['CreativeWork'],
+      properties: [
+        'assesses', 'competencyRequired', 'educationalAlignment', 'educationalLevel', 'educationalUse',
+        'learningResourceType', 'teaches'
+      ]
+    },
+    LeaveAction: { parents: ['InteractAction'], properties: ['event'] },
+    LegalForceStatus: { parents: ['StatusEnumeration'], properties: [] },
+    LegalService: { parents: ['LocalBusiness'], properties: [] },
+    LegalValueLevel: { parents: ['Enumeration'], properties: [] },
+    Legislation: {
+      parents: ['CreativeWork'],
+      properties: [
+        'jurisdiction', 'legislationAmends', 'legislationApplies', 'legislationChanges',
+        'legislationCommences', 'legislationConsolidates', 'legislationCorrects',
+        'legislationCountersignedBy', 'legislationDate', 'legislationDateOfApplicability',
+        'legislationDateVersion', 'legislationEnsuresImplementationOf', 'legislationIdentifier',
+        'legislationJurisdiction', 'legislationLegalForce', 'legislationPassedBy', 'legislationRepeals',
+        'legislationResponsible', 'legislationTransposes', 'legislationType'
+      ]
+    },
+    LegislationObject: { parents: ['Legislation', 'MediaObject'], properties: ['legislationLegalValue'] },
+    LegislativeBuilding: { parents: ['GovernmentBuilding'], properties: [] },
+    LendAction: { parents: ['TransferAction'], properties: ['borrower'] },
+    Library: { parents: ['LocalBusiness'], properties: [] },
+    LibrarySystem: { parents: ['Organization'], properties: [] },
+    LifestyleModification: { parents: ['MedicalEntity'], properties: [] },
+    Ligament: { parents: ['AnatomicalStructure'], properties: [] },
+    LikeAction: { parents: ['ReactAction'], properties: [] },
+    LinkRole: { parents: ['Role'], properties: ['inLanguage', 'linkRelationship'] },
+    LiquorStore: { parents: ['Store'], properties: [] },
+    ListenAction: { parents: ['ConsumeAction'], properties: [] },
+    ListItem: { parents: ['Intangible'], properties: ['item', 'nextItem', 'position', 'previousItem'] },
+    LiteraryEvent: { parents: ['Event'], properties: [] },
+    LiveBlogPosting: {
+      parents: ['BlogPosting'],
+      properties: ['coverageEndTime', 'coverageStartTime', 'liveBlogUpdate']
+    },
+    LoanOrCredit: {
+      parents: ['FinancialProduct'],
+      properties: [
+        'amount', 'currency', 'gracePeriod', 'loanRepaymentForm', 'loanTerm', 'loanType', 'recourseLoan',
+        'renegotiableLoan', 'requiredCollateral'
+      ]
+    },
+    LocalBusiness: {
+      parents: ['Organization', 'Place'],
+      properties: ['branchOf', 'currenciesAccepted', 'openingHours', 'paymentAccepted', 'priceRange']
+    },
+    LocationFeatureSpecification: {
+      parents: ['PropertyValue'],
+      properties: ['hoursAvailable', 'validFrom', 'validThrough']
+    },
+    Locksmith: { parents: ['HomeAndConstructionBusiness'], properties: [] },
+    LodgingBusiness: {
+      parents: ['LocalBusiness'],
+      properties: [
+        'amenityFeature', 'audience', 'availableLanguage', 'checkinTime', 'checkoutTime', 'numberOfRooms',
+        'petsAllowed', 'starRating'
+      ]
+    },
+    LodgingReservation: {
+      parents: ['Reservation'],
+      properties: [
+        'checkinTime', 'checkoutTime', 'lodgingUnitDescription', 'lodgingUnitType', 'numAdults',
+        'numChildren'
+      ]
+    },
+    LoginAction: { parents: ['ControlAction'], properties: [] },
+    LoseAction: { parents: ['AchieveAction'], properties: ['winner'] },
+    LymphaticVessel: { parents: ['Vessel'], properties: ['originatesFrom', 'regionDrained', 'runsTo'] },
+    Manuscript: { parents: ['CreativeWork'], properties: [] },
+    Map: { parents: ['CreativeWork'], properties: ['mapType'] },
+    MapCategoryType: { parents: ['Enumeration'], properties: [] },
+    MarryAction: { parents: ['InteractAction'], properties: [] },
+    Mass: { parents: ['Quantity'], properties: [] },
+    MathSolver: { parents: ['CreativeWork'], properties: ['mathExpression'] },
+    MaximumDoseSchedule: { parents: ['DoseSchedule'], properties: [] },
+    MeasurementMethodEnum: { parents: ['Enumeration'], properties: [] },
+    MeasurementTypeEnumeration: { parents: ['Enumeration'], properties: [] },
+    MediaEnumeration: { parents: ['Enumeration'], properties: [] },
+    MediaGallery: { parents: ['CollectionPage'], properties: [] },
+    MediaManipulationRatingEnumeration: { parents: ['Enumeration'], properties: [] },
+    MediaObject: {
+      parents: ['CreativeWork'],
+      properties: [
+        'associatedArticle', 'bitrate', 'contentSize', 'contentUrl', 'duration', 'embedUrl',
+        'encodesCreativeWork', 'encodingFormat', 'endTime', 'height', 'ineligibleRegion',
+        'interpretedAsClaim', 'playerType', 'productionCompany', 'regionsAllowed', 'requiresSubscription',
+        'sha256', 'startTime', 'uploadDate', 'width'
+      ]
+    },
+    MediaReview: {
+      parents: ['Review'],
+      properties: ['mediaAuthenticityCategory', 'originalMediaContextDescription', 'originalMediaLink']
+    },
+    MediaReviewItem: { parents: ['CreativeWork'], properties: ['mediaItemAppearance'] },
+    MediaSubscription: { parents: ['Intangible'], properties: ['authenticator', 'expectsAcceptanceOf'] },
+    MedicalAudience: { parents: ['Audience', 'PeopleAudience'], properties: [] },
+    MedicalAudienceType: { parents: ['MedicalEnumeration'], properties: [] },
+    MedicalBusiness: { parents: ['LocalBusiness'], properties: [] },
+    MedicalCause: { parents: ['MedicalEntity'], properties: ['causeOf'] },
+    MedicalClinic: {
+      parents: ['MedicalBusiness', 'MedicalOrganization'],
+      properties: ['availableService', 'medicalSpecialty']
+    },
+    MedicalCode: { parents: ['CategoryCode', 'MedicalIntangible'], properties: ['codeValue', 'codingSystem'] },
+    MedicalCondition: {
+      parents: ['MedicalEntity'],
+      properties: [
+        'associatedAnatomy', 'cause', 'differentialDiagnosis', 'drug', 'epidemiology', 'expectedPrognosis',
+        'naturalProgression', 'pathophysiology', 'possibleComplication', 'possibleTreatment',
+        'primaryPrevention', 'riskFactor', 'secondaryPrevention', 'signOrSymptom', 'stage', 'status',
+        'typicalTest'
+      ]
+    },
+    MedicalConditionStage: { parents: ['MedicalIntangible'], properties: ['stageAsNumber', 'subStageSuffix'] },
+    MedicalContraindication: { parents: ['MedicalEntity'], properties: [] },
+    MedicalDevice: {
+      parents: ['MedicalEntity'],
+      properties: [
+        'adverseOutcome', 'contraindication', 'postOp', 'preOp', 'procedure', 'seriousAdverseOutcome'
+      ]
+    },
+    MedicalDevicePurpose: { parents: ['MedicalEnumeration'], properties: [] },
+    MedicalEntity: {
+      parents: ['Thing'],
+      properties: [
+        'code', 'funding', 'guideline', 'legalStatus', 'medicineSystem', 'recognizingAuthority',
+        'relevantSpecialty', 'study'
+      ]
+    },
+    MedicalEnumeration: { parents: ['Enumeration'], properties: [] },
+    MedicalEvidenceLevel: { parents: ['MedicalEnumeration'], properties: [] },
+    MedicalGuideline: {
+      parents: ['MedicalEntity'],
+      properties: ['evidenceLevel', 'evidenceOrigin', 'guidelineDate', 'guidelineSubject']
+    },
+    MedicalGuidelineContraindication: { parents: ['MedicalGuideline'], properties: [] },
+    MedicalGuidelineRecommendation: { parents: ['MedicalGuideline'], properties: ['recommendationStrength'] },
+    MedicalImagingTechnique: { parents: ['MedicalEnumeration'], properties: [] },
+    MedicalIndication: { parents: ['MedicalEntity'], properties: [] },
+    MedicalIntangible: { parents: ['MedicalEntity'], properties: [] },
+    MedicalObservationalStudy: { parents: ['MedicalStudy'], properties: ['studyDesign'] },
+    MedicalObservationalStudyDesign: { parents: ['MedicalEnumeration'], properties: [] },
+    MedicalOrganization: {
+      parents: ['Organization'],
+      properties: ['healthPlanNetworkId', 'isAcceptingNewPatients', 'medicalSpecialty']
+    },
+    MedicalProcedure: {
+      parents: ['MedicalEntity'],
+      properties: ['bodyLocation', 'followup', 'howPerformed', 'preparation', 'procedureType', 'status']
+    },
+    MedicalProcedureType: { parents: ['MedicalEnumeration'], properties: [] },
+    MedicalRiskCalculator: { parents: ['MedicalRiskEstimator'], properties: [] },
+    MedicalRiskEstimator: {
+      parents: ['MedicalEntity'],
+      properties: ['estimatesRiskOf', 'includedRiskFactor']
+    },
+    MedicalRiskFactor: { parents: ['MedicalEntity'], properties: ['increasesRiskOf'] },
+    MedicalRiskScore: { parents: ['MedicalRiskEstimator'], properties: ['algorithm'] },
+    MedicalScholarlyArticle: { parents: ['ScholarlyArticle'], properties: ['publicationType'] },
+    MedicalSign: { parents: ['MedicalSignOrSymptom'], properties: ['identifyingExam', 'identifyingTest'] },
+    MedicalSignOrSymptom: { parents: ['MedicalCondition'], properties: ['possibleTreatment'] },
+    MedicalSpecialty: { parents: ['MedicalEnumeration', 'Specialty'], properties: [] },
+    MedicalStudy: {
+      parents: ['MedicalEntity'],
+      properties: ['healthCondition', 'sponsor', 'status', 'studyLocation', 'studySubject']
+    },
+    MedicalStudyStatus: { parents: ['MedicalEnumeration'], properties: [] },
+    MedicalSymptom: { parents: ['MedicalSignOrSymptom'], properties: [] },
+    MedicalTest: {
+      parents: ['MedicalEntity'],
+      properties: ['affectedBy', 'normalRange', 'signDetected', 'usedToDiagnose', 'usesDevice']
+    },
+    MedicalTestPanel: { parents: ['MedicalTest'], properties: ['subTest'] },
+    MedicalTherapy: {
+      parents: ['TherapeuticProcedure'],
+      properties: ['contraindication', 'duplicateTherapy', 'seriousAdverseOutcome']
+    },
+    MedicalTrial: { parents: ['MedicalStudy'], properties: ['trialDesign'] },
+    MedicalTrialDesign: { parents: ['MedicalEnumeration'], properties: [] },
+    MedicalWebPage: { parents: ['WebPage'], properties: ['aspect', 'medicalAudience'] },
+    MedicineSystem: { parents: ['MedicalEnumeration'], properties: [] },
+    MeetingRoom: { parents: ['Room'], properties: [] },
+    MemberProgram: { parents: ['Intangible'], properties: ['hasTiers', 'hostingOrganization'] },
+    MemberProgramTier: {
+      parents: ['Intangible'],
+      properties: ['hasTierBenefit', 'hasTierRequirement', 'isTierOf', 'membershipPointsEarned']
+    },
+    MensClothingStore: { parents: ['Store'], properties: [] },
+    Menu: { parents: ['CreativeWork'], properties: ['hasMenuItem', 'hasMenuSection'] },
+    MenuItem: { parents: ['Intangible'], properties: ['menuAddOn', 'nutrition', 'offers', 'suitableForDiet'] },
+    MenuSection: { parents: ['CreativeWork'], properties: ['hasMenuItem', 'hasMenuSection'] },
+    MerchantReturnEnumeration: { parents: ['Enumeration'], properties: [] },
+    MerchantReturnPolicy: {
+      parents: ['Intangible'],
+      properties: [
+        'additionalProperty', 'applicableCountry', 'customerRemorseReturnFees',
+        'customerRemorseReturnLabelSource', 'customerRemorseReturnShippingFeesAmount',
+        'inStoreReturnsOffered', 'itemCondition', 'itemDefectReturnFees', 'itemDefectReturnLabelSource',
+        'itemDefectReturnShippingFeesAmount', 'merchantReturnDays', 'merchantReturnLink', 'refundType',
+        'restockingFee', 'returnFees', 'returnLabelSource', 'returnMethod', 'returnPolicyCategory',
+        'returnPolicyCountry', 'returnPolicySeasonalOverride', 'returnShippingFeesAmount',
+        'validForMemberTier'
+      ]
+    },
+    MerchantReturnPolicySeasonalOverride: {
+      parents: ['Intangible'],
+      properties: [
+        'endDate', 'merchantReturnDays', 'refundType', 'restockingFee', 'returnFees', 'returnMethod',
+        'returnPolicyCategory', 'returnShippingFeesAmount', 'startDate'
+      ]
+    },
+    Message: {
+      parents: ['CreativeWork'],
+      properties: [
+        'bccRecipient', 'ccRecipient', 'dateRead', 'dateReceived', 'dateSent', 'messageAttachment',
+        'recipient', 'sender', 'toRecipient'
+      ]
+    },
+    MiddleSchool: { parents: ['EducationalOrganization'], properties: [] },
+    MobileApplication: { parents: ['SoftwareApplication'], properties: ['carrierRequirements'] },
+    MobilePhoneStore: { parents: ['Store'], properties: [] },
+    MolecularEntity: {
+      parents: ['BioChemEntity'],
+      properties: [
+        'chemicalRole', 'inChI', 'inChIKey', 'iupacName', 'molecularFormula', 'molecularWeight',
+        'monoisotopicMolecularWeight', 'potentialUse', 'smiles'
+      ]
+    },
+    MonetaryAmount: {
+      parents: ['StructuredValue'],
+      properties: ['currency', 'maxValue', 'minValue', 'validFrom', 'validThrough', 'value']
+    },
+    MonetaryAmountDistribution: { parents: ['QuantitativeValueDistribution'], properties: ['currency'] },
+    MonetaryGrant: { parents: ['Grant'], properties: ['amount', 'funder'] },
+    MoneyTransfer: { parents: ['TransferAction'], properties: ['amount', 'beneficiaryBank'] },
+    MortgageLoan: {
+      parents: ['LoanOrCredit'],
+      properties: ['domiciledMortgage', 'loanMortgageMandateAmount']
+    },
+    Mosque: { parents: ['PlaceOfWorship'], properties: [] },
+    Motel: { parents: ['LodgingBusiness'], properties: [] },
+    Motorcycle: { parents: ['Vehicle'], properties: [] },
+    MotorcycleDealer: { parents: ['AutomotiveBusiness'], properties: [] },
+    MotorcycleRepair: { parents: ['AutomotiveBusiness'], properties: [] },
+    MotorizedBicycle: { parents: ['Vehicle'], properties: [] },
+    Mountain: { parents: ['Landform'], properties: [] },
+    MoveAction: { parents: ['Action'], properties: ['fromLocation', 'toLocation'] },
+    Movie: {
+      parents: ['CreativeWork'],
+      properties: [
+        'actor', 'actors', 'countryOfOrigin', 'director', 'directors', 'duration', 'musicBy',
+        'productionCompany', 'subtitleLanguage', 'titleEIDR', 'trailer'
+      ]
+    },
+    MovieClip: { parents: ['Clip'], properties: [] },
+    MovieRentalStore: { parents: ['Store'], properties: [] },
+    MovieSeries: {
+      parents: ['CreativeWorkSeries'],
+      properties: ['actor', 'actors', 'director', 'directors', 'musicBy', 'productionCompany', 'trailer']
+    },
+    MovieTheater: { parents: ['CivicStructure', 'EntertainmentBusiness'], properties: ['screenCount'] },
+    MovingCompany: { parents: ['HomeAndConstructionBusiness'], properties: [] },
+    Muscle: {
+      parents: ['AnatomicalStructure'],
+      properties: ['antagonist', 'bloodSupply', 'insertion', 'muscleAction', 'nerve']
+    },
+    Museum: { parents: ['CivicStructure'], properties: [] },
+    MusicAlbum: {
+      parents: ['MusicPlaylist'],
+      properties: ['albumProductionType', 'albumRelease', 'albumReleaseType', 'byArtist']
+    },
+    MusicAlbumProductionType: { parents: ['Enumeration'], properties: [] },
+    MusicAlbumReleaseType: { parents: ['Enumeration'], properties: [] },
+    MusicComposition: {
+      parents: ['CreativeWork'],
+      properties: [
+        'composer', 'firstPerformance', 'includedComposition', 'iswcCode', 'lyricist', 'lyrics', 'musicalKey',
+        'musicArrangement', 'musicCompositionForm', 'recordedAs'
+      ]
+    },
+    MusicEvent: { parents: ['Event'], properties: [] },
+    MusicGroup: {
+      parents: ['PerformingGroup'],
+      properties: ['album', 'albums', 'genre', 'musicGroupMember', 'track', 'tracks']
+    },
+    MusicPlaylist: { parents: ['CreativeWork'], properties: ['numTracks', 'track', 'tracks'] },
+    MusicRecording: {
+      parents: ['CreativeWork'],
+      properties: ['byArtist', 'duration', 'inAlbum', 'inPlaylist', 'isrcCode', 'recordingOf']
+    },
+    MusicRelease: {
+      parents: ['MusicPlaylist'],
+      properties: [
+        'catalogNumber', 'creditedTo', 'duration', 'musicReleaseFormat', 'recordLabel', 'releaseOf'
+      ]
+    },
+    MusicReleaseFormatType: { parents: ['Enumeration'], properties: [] },
+    MusicStore: { parents: ['Store'], properties: [] },
+    MusicVenue: { parents: ['CivicStructure'], properties: [] },
+    MusicVideoObject: { parents: ['MediaObject'], properties: [] },
+    NailSalon: { parents: ['HealthAndBeautyBusiness'], properties: [] },
+    Nerve: {
+      parents: ['AnatomicalStructure'],
+      properties: ['branch', 'nerveMotor', 'sensoryUnit', 'sourcedFrom']
+    },
+    NewsArticle: {
+      parents: ['Article'],
+      properties: ['dateline', 'printColumn', 'printEdition', 'printPage', 'printSection']
+    },
+    NewsMediaOrganization: {
+      parents: ['Organization'],
+      properties: [
+        'actionableFeedbackPolicy', 'correctionsPolicy', 'diversityPolicy', 'diversityStaffingReport',
+        'ethicsPolicy', 'masthead', 'missionCoveragePrioritiesPolicy', 'noBylinesPolicy',
+        'ownershipFundingInfo', 'unnamedSourcesPolicy', 'verificationFactCheckingPolicy'
+      ]
+    },
+    Newspaper: { parents: ['Periodical'], properties: [] },
+    NGO: { parents: ['Organization'], properties: [] },
+    NightClub: { parents: ['EntertainmentBusiness'], properties: [] },
+    NLNonprofitType: { parents: ['NonprofitType'], properties: [] },
+    NonprofitType: { parents: ['Enumeration'], properties: [] },
+    Notary: { parents: ['LegalService'], properties: [] },
+    NoteDigitalDocument: { parents: ['DigitalDocument'], properties: [] },
+    NutritionInformation: {
+      parents: ['StructuredValue'],
+      properties: [
+        'calories', 'carbohydrateContent', 'cholesterolContent', 'fatContent', 'fiberContent',
+        'proteinContent', 'saturatedFatContent', 'servingSize', 'sodiumContent', 'sugarContent',
+        'transFatContent', 'unsaturatedFatContent'
+      ]
+    },
+    Observation: {
+      parents: ['Intangible', 'QuantitativeValue'],
+      properties: [
+        'marginOfError', 'measuredProperty', 'measurementDenominator', 'measurementMethod',
+        'measurementQualifier', 'measurementTechnique', 'observationAbout', 'observationDate',
+        'observationPeriod', 'variableMeasured'
+      ]
+    },
+    Occupation: {
+      parents: ['Intangible'],
+      properties: [
+        'educationRequirements', 'estimatedSalary', 'experienceRequirements', 'occupationalCategory',
+        'occupationLocation', 'qualifications', 'responsibilities', 'skills'
+      ]
+    },
+    OccupationalExperienceRequirements: { parents: ['Intangible'], properties: ['monthsOfExperience'] },
+    OccupationalTherapy: { parents: ['MedicalTherapy'], properties: [] },
+    OceanBodyOfWater: { parents: ['BodyOfWater'], properties: [] },
+    Offer: {
+      parents: ['Intangible'],
+      properties: [
+        'acceptedPaymentMethod', 'additionalProperty', 'addOn', 'advanceBookingRequirement',
+        'aggregateRating', 'areaServed', 'asin', 'availability', 'availabilityEnds', 'availabilityStarts',
+        'availableAtOrFrom', 'availableDeliveryMethod', 'businessFunction', 'category',
+        'checkoutPageURLTemplate', 'deliveryLeadTime', 'eligibleCustomerType', 'eligibleDuration',
+        'eligibleQuantity', 'eligibleRegion', 'eligibleTransactionVolume', 'gtin', 'gtin12', 'gtin13',
+        'gtin14', 'gtin8', 'hasAdultConsideration', 'hasGS1DigitalLink', 'hasMeasurement',
+        'hasMerchantReturnPolicy', 'includesObject', 'ineligibleRegion', 'inventoryLevel', 'isFamilyFriendly',
+        'itemCondition', 'itemOffered', 'leaseLength', 'mobileUrl', 'mpn', 'offeredBy', 'price',
+        'priceCurrency', 'priceSpecification', 'priceValidUntil', 'review', 'reviews', 'seller',
+        'serialNumber', 'shippingDetails', 'sku', 'validForMemberTier', 'validFrom', 'validThrough',
+        'warranty'
+      ]
+    },
+    OfferCatalog: { parents: ['ItemList'], properties: [] },
+    OfferForLease: { parents: ['Offer'], properties: [] },
+    OfferForPurchase: { parents: ['Offer'], properties: [] },
+    OfferItemCondition: { parents: ['Enumeration'], properties: [] },
+    OfferShippingDetails: {
+      parents: ['StructuredValue'],
+      properties: [
+        'deliveryTime', 'depth', 'doesNotShip', 'hasShippingService', 'height', 'shippingDestination',
+        'shippingOrigin', 'shippingRate', 'validForMemberTier', 'weight', 'width'
+      ]
+    },
+    OfficeEquipmentStore: { parents: ['Store'], properties: [] },
+    OnDemandEvent: { parents: ['PublicationEvent'], properties: [] },
+    OnlineBusiness: { parents: ['Organization'], properties: [] },
+    OnlineMarketplace: { parents: ['OnlineStore'], properties: ['hasStore'] },
+    OnlineStore: { parents: ['OnlineBusiness'], properties: ['isStoreOn'] },
+    OpeningHoursSpecification: {
+      parents: ['StructuredValue'],
+      properties: ['closes', 'dayOfWeek', 'opens', 'validFrom', 'validThrough']
+    },
+    OperatingSystem: { parents: ['SoftwareApplication'], properties: [] },
+    OpinionNewsArticle: { parents: ['NewsArticle'], properties: [] },
+    Optician: { parents: ['MedicalBusiness'], properties: [] },
+    Order: {
+      parents: ['Intangible'],
+      properties: [
+        'acceptedOffer', 'billingAddress', 'broker', 'confirmationNumber', 'customer', 'discount',
+        'discountCode', 'discountCurrency', 'isGift', 'merchant', 'orderDate', 'orderDelivery', 'orderedItem',
+        'orderNumber', 'orderStatus', 'partOfInvoice', 'paymentDue', 'paymentDueDate', 'paymentMethod',
+        'paymentMethodId', 'paymentUrl', 'seller'
+      ]
+    },
+    OrderAction: { parents: ['TradeAction'], properties: ['deliveryMethod'] },
+    OrderItem: {
+      parents: ['StructuredValue'],
+      properties: ['orderDelivery', 'orderedItem', 'orderItemNumber', 'orderItemStatus', 'orderQuantity']
+    },
+    OrderStatus: { parents: ['StatusEnumeration'], properties: [] },
+    Organization: {
+      parents: ['Thing'],
+      properties: [
+        'acceptedPaymentMethod', 'actionableFeedbackPolicy', 'address', 'agentInteractionStatistic',
+        'aggregateRating', 'alumni', 'areaServed', 'award', 'awards', 'brand', 'companyRegistration',
+        'contactPoint', 'contactPoints', 'correctionsPolicy', 'department', 'dissolutionDate',
+        'diversityPolicy', 'diversityStaffingReport', 'duns', 'email', 'employee', 'employees',
+        'ethicsPolicy', 'event', 'events', 'faxNumber', 'founder', 'founders', 'foundingDate',
+        'foundingLocation', 'funder', 'funding', 'globalLocationNumber', 'hasCertification', 'hasCredential',
+        'hasGS1DigitalLink', 'hasMemberProgram', 'hasMerchantReturnPolicy', 'hasOfferCatalog', 'hasPOS',
+        'hasShippingService', 'interactionStatistic', 'isicV4', 'iso6523Code', 'keywords', 'knowsAbout',
+        'knowsLanguage', 'legalAddress', 'legalName', 'legalRepresentative', 'leiCode', 'location', 'logo',
+        'makesOffer', 'member', 'memberOf', 'members', 'naics', 'nonprofitStatus', 'numberOfEmployees',
+        'ownershipFundingInfo', 'owns', 'parentOrganization', 'publishingPrinciples', 'review', 'reviews',
+        'seeks', 'serviceArea', 'skills', 'slogan', 'sponsor', 'subOrganization', 'taxID', 'telephone',
+        'unnamedSourcesPolicy', 'vatID'
+      ]
+    },
+    OrganizationRole: { parents: ['Role'], properties: ['numberedPosition'] },
+    OrganizeAction: { parents: ['Action'], properties: [] },
+    OutletStore: { parents: ['Store'], properties: [] },
+    OwnershipInfo: {
+      parents: ['StructuredValue'],
+      properties: ['acquiredFrom', 'ownedFrom', 'ownedThrough', 'typeOfGood']
+    },
+    PaintAction: { parents: ['CreateAction'], properties: [] },
+    Painting: { parents: ['CreativeWork'], properties: [] },
+    PalliativeProcedure: { parents: ['MedicalProcedure', 'MedicalTherapy'], properties: [] },
+    ParcelDelivery: {
+      parents: ['Intangible'],
+      properties: [
+        'carrier', 'deliveryAddress', 'deliveryStatus', 'expectedArrivalFrom', 'expectedArrivalUntil',
+        'hasDeliveryMethod', 'itemShipped', 'originAddress', 'partOfOrder', 'provider', 'trackingNumber',
+        'trackingUrl'
+      ]
+    },
+    ParentAudience: { parents: ['PeopleAudience'], properties: ['childMaxAge', 'childMinAge'] },
+    Park: { parents: ['CivicStructure'], properties: [] },
+    ParkingFacility: { parents: ['CivicStructure'], properties: [] },
+    PathologyTest: { parents: ['MedicalTest'], properties: ['tissueSample'] },
+    Patient: { parents: ['MedicalAudience', 'Person'], properties: ['diagnosis', 'drug', 'healthCondition'] },
+    PawnShop: { parents: ['Store'], properties: [] },
+    PayAction: { parents: ['TradeAction'], properties: ['recipient'] },
+    PaymentCard: {
+      parents: ['FinancialProduct', 'PaymentMethod'],
+      properties: ['cashBack', 'contactlessPayment', 'floorLimit', 'monthlyMinimumRepaymentAmount']
+    },
+    PaymentChargeSpecification: {
+      parents: ['PriceSpecification'],
+      properties: ['appliesToDeliveryMethod', 'appliesToPaymentMethod']
+    },
+    PaymentMethod: { parents: ['Intangible'], properties: ['paymentMethodType'] },
+    PaymentMethodType: { parents: ['Enumeration'], properties: [] },
+    PaymentService: { parents: ['FinancialProduct', 'PaymentMethod'], properties: [] },
+    PaymentStatusType: { parents: ['StatusEnumeration'], properties: [] },
+    PeopleAudience: {
+      parents: ['Audience'],
+      properties: [
+        'healthCondition', 'requiredGender', 'requiredMaxAge', 'requiredMinAge', 'suggestedAge',
+        'suggestedGender', 'suggestedMaxAge', 'suggestedMeasurement', 'suggestedMinAge'
+      ]
+    },
+    PerformAction: { parents: ['PlayAction'], properties: ['entertainmentBusiness'] },
+    PerformanceRole: { parents: ['Role'], properties: ['characterName'] },
+    PerformingArtsEvent: { parents: ['Event'], properties: [] },
+    PerformingArtsTheater: { parents: ['CivicStructure'], properties: [] },
+    PerformingGroup: { parents: ['Organization'], properties: [] },
+    Periodical: { parents: ['CreativeWorkSeries'], properties: [] },
+    Permit: {
+      parents: ['Intangible'],
+      properties: [
+        'issuedBy', 'issuedThrough', 'permitAudience', 'validFor', 'validFrom', 'validIn', 'validUntil'
+      ]
+    },
+    Person: {
+      parents: ['Thing'],
+      properties: [
+        'additionalName', 'address', 'affiliation', 'agentInteractionStatistic', 'alumniOf', 'award',
+        'awards', 'birthDate', 'birthPlace', 'brand', 'callSign', 'children', 'colleague', 'colleagues',
+        'contactPoint', 'contactPoints', 'deathDate', 'deathPlace', 'duns', 'email', 'familyName',
+        'faxNumber', 'follows', 'funder', 'funding', 'gender', 'givenName', 'globalLocationNumber',
+        'hasCertification', 'hasCredential', 'hasOccupation', 'hasOfferCatalog', 'hasPOS', 'height',
+        'homeLocation', 'honorificPrefix', 'honorificSuffix', 'interactionStatistic', 'isicV4', 'jobTitle',
+        'knows', 'knowsAbout', 'knowsLanguage', 'lifeEvent', 'makesOffer', 'memberOf', 'naics', 'nationality',
+        'netWorth', 'owns', 'parent', 'parents', 'performerIn', 'pronouns', 'publishingPrinciples',
+        'relatedTo', 'seeks', 'sibling', 'siblings', 'skills', 'sponsor', 'spouse', 'taxID', 'telephone',
+        'vatID', 'weight', 'workLocation', 'worksFor'
+      ]
+    },
+    PetStore: { parents: ['Store'], properties: [] },
+    Pharmacy: { parents: ['MedicalBusiness', 'MedicalOrganization'], properties: [] },
+    Photograph: { parents: ['CreativeWork'], properties: [] },
+    PhotographAction: { parents: ['CreateAction'], properties: [] },
+    PhysicalActivity: {
+      parents: ['LifestyleModification'],
+      properties: ['associatedAnatomy', 'category', 'epidemiology', 'pathophysiology']
+    },
+    PhysicalActivityCategory: { parents: ['Enumeration'], properties: [] },
+    PhysicalExam: { parents: ['MedicalEnumeration', 'MedicalProcedure'], properties: [] },
+    PhysicalTherapy: { parents: ['MedicalTherapy'], properties: [] },
+    Physician: {
+      parents: ['MedicalBusiness', 'MedicalOrganization'],
+      properties: [
+        'availableService', 'hospitalAffiliation', 'medicalSpecialty', 'occupationalCategory', 'usNPI'
+      ]
+    },
+    PhysiciansOffice: { parents: ['Physician'], properties: [] },
+    Place: {
+      parents: ['Thing'],
+      properties: [
+        'additionalProperty', 'address', 'aggregateRating', 'amenityFeature', 'branchCode', 'containedIn',
+        'containedInPlace', 'containsPlace', 'event', 'events', 'faxNumber', 'geo', 'geoContains',
+        'geoCoveredBy', 'geoCovers', 'geoCrosses', 'geoDisjoint', 'geoEquals', 'geoIntersects', 'geoOverlaps',
+        'geoTouches', 'geoWithin', 'globalLocationNumber', 'hasCertification', 'hasDriveThroughService',
+        'hasGS1DigitalLink', 'hasMap', 'isAccessibleForFree', 'isicV4', 'keywords', 'latitude', 'logo',
+        'longitude', 'map', 'maps', 'maximumAttendeeCapacity', 'openingHoursSpecification', 'photo', 'photos',
+        'publicAccess', 'review', 'reviews', 'slogan', 'smokingAllowed', 'specialOpeningHoursSpecification',
+        'telephone', 'tourBookingPage'
+      ]
+    },
+    PlaceOfWorship: { parents: ['CivicStructure'], properties: [] },
+    PlanAction: { parents: ['OrganizeAction'], properties: ['scheduledTime'] },
+    Play: { parents: ['CreativeWork'], properties: [] },
+    PlayAction: { parents: ['Action'], properties: ['audience', 'event'] },
+    PlayGameAction: { parents: ['ConsumeAction'], properties: ['gameAvailabilityType'] },
+    Playground: { parents: ['CivicStructure'], properties: [] },
+    Plumber: { parents: ['HomeAndConstructionBusiness'], properties: [] },
+    PodcastEpisode: { parents: ['Episode'], properties: [] },
+    PodcastSeason: { parents: ['CreativeWorkSeason'], properties: [] },
+    PodcastSeries: { parents: ['CreativeWorkSeries'], properties: ['actor', 'webFeed'] },
+    PoliceStation: { parents: ['CivicStructure', 'EmergencyService'], properties: [] },
+    PoliticalParty: { parents: ['Organization'], properties: [] },
+    Pond: { parents: ['BodyOfWater'], properties: [] },
+    PostalAddress: {
+      parents: ['ContactPoint'],
+      properties: [
+        'addressCountry', 'addressLocality', 'addressRegion', 'extendedAddress', 'postalCode',
+        'postOfficeBoxNumber', 'streetAddress'
+      ]
+    },
+    PostalCodeRangeSpecification: {
+      parents: ['StructuredValue'],
+      properties: ['postalCodeBegin', 'postalCodeEnd']
+    },
+    Poster: { parents: ['CreativeWork'], properties: [] },
+    PostOffice: { parents: ['GovernmentOffice'], properties: [] },
+    PreOrderAction: { parents: ['TradeAction'], properties: [] },
+    PrependAction: { parents: ['InsertAction'], properties: [] },
+    Preschool: { parents: ['EducationalOrganization'], properties: [] },
+    PresentationDigitalDocument: { parents: ['DigitalDocument'], properties: [] },
+    PreventionIndication: { parents: ['MedicalIndication'], properties: [] },
+    PriceComponentTypeEnumeration: { parents: ['Enumeration'], properties: [] },
+    PriceSpecification: {
+      parents: ['StructuredValue'],
+      properties: [
+        'eligibleQuantity', 'eligibleTransactionVolume', 'maxPrice', 'membershipPointsEarned', 'minPrice',
+        'price', 'priceCurrency', 'validForMemberTier', 'validFrom', 'validThrough', 'valueAddedTaxIncluded'
+      ]
+    },
+    PriceTypeEnumeration: { parents: ['Enumeration'], properties: [] },
+    Product: {
+      parents: ['Thing'],
+      properties: [
+        'additionalProperty', 'aggregateRating', 'asin', 'audience', 'award', 'awards', 'brand', 'category',
+        'color', 'colorSwatch', 'countryOfAssembly', 'countryOfLastProcessing', 'countryOfOrigin', 'depth',
+        'displayLocation', 'funding', 'gtin', 'gtin12', 'gtin13', 'gtin14', 'gtin8', 'hasAdultConsideration',
+        'hasCertification', 'hasEnergyConsumptionDetails', 'hasGS1DigitalLink', 'hasMeasurement',
+        'hasMerchantReturnPolicy', 'height', 'inProductGroupWithID', 'isAccessoryOrSparePartFor',
+        'isConsumableFor', 'isFamilyFriendly', 'isRelatedTo', 'isSimilarTo', 'isVariantOf', 'itemCondition',
+        'keywords', 'logo', 'manufacturer', 'material', 'mobileUrl', 'model', 'mpn', 'negativeNotes', 'nsn',
+        'offers', 'pattern', 'positiveNotes', 'productID', 'productionDate', 'purchaseDate', 'releaseDate',
+        'review', 'reviews', 'size', 'sku', 'slogan', 'weight', 'width'
+      ]
+    },
+    ProductCollection: { parents: ['Collection', 'Product'], properties: ['includesObject'] },
+    ProductGroup: { parents: ['Product'], properties: ['hasVariant', 'productGroupID', 'variesBy'] },
+    ProductModel: { parents: ['Product'], properties: ['isVariantOf', 'predecessorOf', 'successorOf'] },
+    ProfessionalService: { parents: ['LocalBusiness'], properties: [] },
+    ProfilePage: { parents: ['WebPage'], properties: [] },
+    ProgramMembership: {
+      parents: ['Intangible'],
+      properties: [
+        'hostingOrganization', 'member', 'members', 'membershipNumber', 'membershipPointsEarned', 'program',
+        'programName'
+      ]
+    },
+    Project: { parents: ['Organization'], properties: [] },
+    Property: {
+      parents: ['Intangible'],
+      properties: ['domainIncludes', 'inverseOf', 'rangeIncludes', 'supersededBy']
+    },
+    PropertyValue: {
+      parents: ['StructuredValue'],
+      properties: [
+        'maxValue', 'measurementMethod', 'measurementTechnique', 'minValue', 'propertyID', 'unitCode',
+        'unitText', 'value', 'valueReference'
+      ]
+    },
+    PropertyValueSpecification: {
+      parents: ['Intangible'],
+      properties: [
+        'defaultValue', 'maxValue', 'minValue', 'multipleValues', 'readonlyValue', 'stepValue',
+        'valueMaxLength', 'valueMinLength', 'valueName', 'valuePattern', 'valueRequired'
+      ]
+    },
+    Protein: { parents: ['BioChemEntity'], properties: ['hasBioPolymerSequence'] },
+    PsychologicalTreatment: { parents: ['TherapeuticProcedure'], properties: [] },
+    PublicationEvent: { parents: ['Event'], properties: ['free', 'publishedBy', 'publishedOn'] },
+    PublicationIssue: {
+      parents: ['CreativeWork'],
+      properties: ['issueNumber', 'pageEnd', 'pageStart', 'pagination']
+    },
+    PublicationVolume: {
+      parents: ['CreativeWork'],
+      properties: ['pageEnd', 'pageStart', 'pagination', 'volumeNumber']
+    },
+    PublicSwimmingPool: { parents: ['SportsActivityLocation'], properties: [] },
+    PublicToilet: { parents: ['CivicStructure'], properties: [] },
+    PurchaseType: { parents: ['Enumeration'], properties: [] },
+    QAPage: { parents: ['WebPage'], properties: [] },
+    QualitativeValue: {
+      parents: ['Enumeration'],
+      properties: [
+        'additionalProperty', 'equal', 'greater', 'greaterOrEqual', 'lesser', 'lesserOrEqual', 'nonEqual',
+        'valueReference'
+      ]
+    },
+    QuantitativeValue: {
+      parents: ['StructuredValue'],
+      properties: [
+        'additionalProperty', 'maxValue', 'minValue', 'unitCode', 'unitText', 'value', 'valueReference'
+      ]
+    },
+    QuantitativeValueDistribution: {
+      parents: ['StructuredValue'],
+      properties: ['duration', 'median', 'percentile10', 'percentile25', 'percentile75', 'percentile90']
+    },
+    Quantity: { parents: ['Intangible'], properties: [] },
+    Question: {
+      parents: ['Comment'],
+      properties: ['acceptedAnswer', 'answerCount', 'eduQuestionType', 'parentItem', 'suggestedAnswer']
+    },
+    Quiz: { parents: ['LearningResource'], properties: [] },
+    Quotation: { parents: ['CreativeWork'], properties: ['spokenByCharacter'] },
+    QuoteAction: { parents: ['TradeAction'], properties: [] },
+    RadiationTherapy: { parents: ['MedicalTherapy'], properties: [] },
+    RadioBroadcastService: { parents: ['BroadcastService'], properties: [] },
+    RadioChannel: { parents: ['BroadcastChannel'], properties: [] },
+    RadioClip: { parents: ['Clip'], properties: [] },
+    RadioEpisode: { parents: ['Episode'], properties: [] },
+    RadioSeason: { parents: ['CreativeWorkSeason'], properties: [] },
+    RadioSeries: {
+      parents: ['CreativeWorkSeries'],
+      properties: [
+        'actor', 'actors', 'containsSeason', 'director', 'directors', 'episode', 'episodes', 'musicBy',
+        'numberOfEpisodes', 'numberOfSeasons', 'productionCompany', 'season', 'seasons', 'trailer'
+      ]
+    },
+    RadioStation: { parents: ['LocalBusiness'], properties: [] },
+    Rating: {
+      parents: ['Intangible'],
+      properties: ['author', 'bestRating', 'ratingExplanation', 'ratingValue', 'reviewAspect', 'worstRating']
+    },
+    ReactAction: { parents: ['AssessAction'], properties: [] },
+    ReadAction: { parents: ['ConsumeAction'], properties: [] },
+    RealEstateAgent: { parents: ['LocalBusiness'], properties: [] },
+    RealEstateListing: { parents: ['WebPage'], properties: ['datePosted', 'leaseLength'] },
+    ReceiveAction: { parents: ['TransferAction'], properties: ['deliveryMethod', 'sender'] },
+    Recipe: {
+      parents: ['HowTo'],
+      properties: [
+        'cookingMethod', 'cookTime', 'ingredients', 'nutrition', 'recipeCategory', 'recipeCuisine',
+        'recipeIngredient', 'recipeInstructions', 'recipeYield', 'suitableForDiet'
+      ]
+    },
+    Recommendation: { parents: ['Review'], properties: ['category'] },
+    RecommendedDoseSchedule: { parents: ['DoseSchedule'], properties: [] },
+    RecyclingCenter: { parents: ['LocalBusiness'], properties: [] },
+    RefundTypeEnumeration: { parents: ['Enumeration'], properties: [] },
+    RegisterAction: { parents: ['InteractAction'], properties: [] },
+    RejectAction: { parents: ['AllocateAction'], properties: [] },
+    RentAction: { parents: ['TradeAction'], properties: ['landlord', 'realEstateAgent'] },
+    RentalCarReservation: {
+      parents: ['Reservation'],
+      properties: ['dropoffLocation', 'dropoffTime', 'pickupLocation', 'pickupTime']
+    },
+    RepaymentSpecification: {
+      parents: ['StructuredValue'],
+      properties: [
+        'downPayment', 'earlyPrepaymentPenalty', 'loanPaymentAmount', 'loanPaymentFrequency',
+        'numberOfLoanPayments'
+      ]
+    },
+    ReplaceAction: { parents: ['UpdateAction'], properties: ['replacee', 'replacer'] },
+    ReplyAction: { parents: ['CommunicateAction'], properties: ['resultComment'] },
+    Report: { parents: ['Article'], properties: ['reportNumber'] },
+    ReportageNewsArticle: { parents: ['NewsArticle'], properties: [] },
+    ReportedDoseSchedule: { parents: ['DoseSchedule'], properties: [] },
+    Researcher: { parents: ['Audience'], properties: [] },
+    ResearchOrganization: { parents: ['Organization'], properties: [] },
+    ResearchProject: { parents: ['Project'], properties: [] },
+    Reservation: {
+      parents: ['Intangible'],
+      properties: [
+        'bookingAgent', 'bookingTime', 'broker', 'modifiedTime', 'priceCurrency', 'programMembershipUsed',
+        'provider', 'reservationFor', 'reservationId', 'reservationStatus', 'reservedTicket', 'totalPrice',
+        'underName'
+      ]
+    },
+    ReservationPackage: { parents: ['Reservation'], properties: ['subReservation'] },
+    ReservationStatusType: { parents: ['StatusEnumeration'], properties: [] },
+    ReserveAction: { parents: ['PlanAction'], properties: [] },
+    Reservoir: { parents: ['BodyOfWater'], properties: [] },
+    ResetPasswordAction: { parents: ['ControlAction'], properties: [] },
+    Residence: { parents: ['Place'], properties: ['accommodationFloorPlan'] },
+    Resort: { parents: ['LodgingBusiness'], properties: [] },
+    Restaurant: { parents: ['FoodEstablishment'], properties: [] },
+    RestrictedDiet: { parents: ['Enumeration'], properties: [] },
+    ResumeAction: { parents: ['ControlAction'], properties: [] },
+    ReturnAction: { parents: ['TransferAction'], properties: ['recipient'] },
+    ReturnFeesEnumeration: { parents: ['Enumeration'], properties: [] },
+    ReturnLabelSourceEnumeration: { parents: ['Enumeration'], properties: [] },
+    ReturnMethodEnumeration: { parents: ['Enumeration'], properties: [] },
+    Review: {
+      parents: ['CreativeWork'],
+      properties: [
+        'associatedClaimReview', 'associatedMediaReview', 'associatedReview', 'itemReviewed', 'negativeNotes',
+        'positiveNotes', 'reviewAspect', 'reviewBody', 'reviewRating'
+      ]
+    },
+    ReviewAction: { parents: ['AssessAction'], properties: ['resultReview'] },
+    ReviewNewsArticle: { parents: ['CriticReview', 'NewsArticle'], properties: [] },
+    RiverBodyOfWater: { parents: ['BodyOfWater'], properties: [] },
+    Role: { parents: ['Intangible'], properties: ['endDate', 'namedPosition', 'roleName', 'startDate'] },
+    RoofingContractor: { parents: ['HomeAndConstructionBusiness'], properties: [] },
+    Room: { parents: ['Accommodation'], properties: [] },
+    RsvpAction: {
+      parents: ['InformAction'],
+      properties: ['additionalNumberOfGuests', 'comment', 'rsvpResponse']
+    },
+    RsvpResponseType: { parents: ['Enumeration'], properties: [] },
+    RuntimePlatform: { parents: ['SoftwareApplication'], properties: [] },
+    RVPark: { parents: ['CivicStructure'], properties: [] },
+    SaleEvent: { parents: ['Event'], properties: [] },
+    SatiricalArticle: { parents: ['Article'], properties: [] },
+    Schedule: {
+      parents: ['Intangible'],
+      properties: [
+        'byDay', 'byMonth', 'byMonthDay', 'byMonthWeek', 'duration', 'endDate', 'endTime', 'exceptDate',
+        'repeatCount', 'repeatFrequency', 'scheduleTimezone', 'startDate', 'startTime'
+      ]
+    },
+    ScheduleAction: { parents: ['PlanAction'], properties: [] },
+    ScholarlyArticle: { parents: ['Article'], properties: [] },
+    School: { parents: ['EducationalOrganization'], properties: [] },
+    SchoolDistrict: { parents: ['AdministrativeArea'], properties: [] },
+    ScreeningEvent: { parents: ['Event'], properties: ['subtitleLanguage', 'videoFormat', 'workPresented'] },
+    Sculpture: { parents: ['CreativeWork'], properties: [] },
+    SeaBodyOfWater: { parents: ['BodyOfWater'], properties: [] },
+    SearchAction: { parents: ['Action'], properties: ['query'] },
+    SearchRescueOrganization: { parents: ['Organization'], properties: [] },
+    SearchResultsPage: { parents: ['WebPage'], properties: [] },
+    Season: { parents: ['CreativeWork'], properties: [] },
+    Seat: { parents: ['Intangible'], properties: ['seatingType', 'seatNumber', 'seatRow', 'seatSection'] },
+    SeekToAction: { parents: ['Action'], properties: ['startOffset'] },
+    SelfStorage: { parents: ['LocalBusiness'], properties: [] },
+    SellAction: { parents: ['TradeAction'], properties: ['buyer', 'warrantyPromise'] },
+    SendAction: { parents: ['TransferAction'], properties: ['deliveryMethod', 'recipient'] },
+    SequentialArt: { parents: ['Book', 'VisualArtwork'], properties: [] },
+    Series: { parents: ['Intangible'], properties: [] },
+    Service: {
+      parents: ['Intangible'],
+      properties: [
+        'aggregateRating', 'areaServed', 'audience', 'availableChannel', 'award', 'brand', 'broker',
+        'category', 'hasCertification', 'hasOfferCatalog', 'hoursAvailable', 'isRelatedTo', 'isSimilarTo',
+        'logo', 'offers', 'produces', 'provider', 'providerMobility', 'review', 'serviceArea',
+        'serviceAudience', 'serviceOutput', 'serviceType', 'slogan', 'termsOfService'
+      ]
+    },
+    ServiceChannel: {
+      parents: ['Intangible'],
+      properties: [
+        'availableLanguage', 'processingTime', 'providesService', 'serviceLocation', 'servicePhone',
+        'servicePostalAddress', 'serviceSmsNumber', 'serviceUrl'
+      ]
+    },
+    ServicePeriod: { parents: ['StructuredValue'], properties: ['businessDays', 'cutoffTime', 'duration'] },
+    ShareAction: { parents: ['CommunicateAction'], properties: [] },
+    SheetMusic: { parents: ['CreativeWork'], properties: [] },
+    ShippingConditions: {
+      parents: ['StructuredValue'],
+      properties: [
+        'depth', 'doesNotShip', 'height', 'numItems', 'orderValue', 'seasonalOverride', 'shippingDestination',
+        'shippingOrigin', 'shippingRate', 'transitTime', 'weight', 'width'
+      ]
+    },
+    ShippingDeliveryTime: {
+      parents: ['StructuredValue'],
+      properties: ['businessDays', 'cutoffTime', 'handlingTime', 'transitTime']
+    },
+    ShippingRateSettings: {
+      parents: ['StructuredValue'],
+      properties: [
+        'doesNotShip', 'freeShippingThreshold', 'isUnlabelledFallback', 'orderPercentage',
+        'shippingDestination', 'shippingRate', 'weightPercentage'
+      ]
+    },
+    ShippingService: {
+      parents: ['StructuredValue'],
+      properties: ['fulfillmentType', 'handlingTime', 'shippingConditions', 'validForMemberTier']
+    },
+    ShoeStore: { parents: ['Store'], properties: [] },
+    ShoppingCenter: { parents: ['LocalBusiness'], properties: [] },
+    ShortStory: { parents: ['CreativeWork'], properties: [] },
+    SingleFamilyResidence: { parents: ['House'], properties: ['numberOfRooms', 'occupancy'] },
+    SiteNavigationElement: { parents: ['WebPageElement'], properties: [] },
+    SizeGroupEnumeration: { parents: ['Enumeration'], properties: [] },
+    SizeSpecification: {
+      parents: ['QualitativeValue'],
+      properties: [
+        'hasMeasurement', 'sizeGroup', 'sizeSystem', 'suggestedAge', 'suggestedGender',
+        'suggestedMeasurement'
+      ]
+    },
+    SizeSystemEnumeration: { parents: ['Enumeration'], properties: [] },
+    SkiResort: { parents: ['Resort', 'SportsActivityLocation'], properties: [] },
+    SocialEvent: { parents: ['Event'], properties: [] },
+    SocialMediaPosting: { parents: ['Article'], properties: ['sharedContent'] },
+    SoftwareApplication: {
+      parents: ['CreativeWork'],
+      properties: [
+        'applicationCategory', 'applicationSubCategory', 'applicationSuite', 'availableOnDevice',
+        'countriesNotSupported', 'countriesSupported', 'device', 'downloadUrl', 'featureList', 'fileSize',
+        'installUrl', 'memoryRequirements', 'operatingSystem', 'permissions', 'processorRequirements',
+        'releaseNotes', 'requirements', 'runtimePlatform', 'screenshot', 'softwareAddOn', 'softwareHelp',
+        'softwareRequirements', 'softwareVersion', 'storageRequirements', 'supportingData'
+      ]
+    },
+    SoftwareSourceCode: {
+      parents: ['CreativeWork'],
+      properties: [
+        'codeRepository', 'codeSampleType', 'programmingLanguage', 'runtime', 'runtimePlatform', 'sampleType',
+        'targetProduct'
+      ]
+    },
+    SolveMathAction: { parents: ['Action'], properties: ['eduQuestionType'] },
+    SomeProducts: { parents: ['Product'], properties: ['inventoryLevel'] },
+    SpeakableSpecification: { parents: ['Intangible'], properties: ['cssSelector', 'xpath'] },
+    SpecialAnnouncement: {
+      parents: ['CreativeWork'],
+      properties: [
+        'announcementLocation', 'category', 'datePosted', 'diseasePreventionInfo', 'diseaseSpreadStatistics',
+        'gettingTestedInfo', 'governmentBenefitsInfo', 'newsUpdatesAndGuidelines',
+        'publicTransportClosuresInfo', 'quarantineGuidelines', 'schoolClosuresInfo', 'travelBans', 'webFeed'
+      ]
+    },
+    Specialty: { parents: ['Enumeration'], properties: [] },
+    SportingGoodsStore: { parents: ['Store'], properties: [] },
+    SportsActivityLocation: { parents: ['LocalBusiness'], properties: [] },
+    SportsClub: { parents: ['SportsActivityLocation'], properties: [] },
+    SportsEvent: {
+      parents: ['Event'],
+      properties: ['awayTeam', 'competitor', 'homeTeam', 'referee', 'sport']
+    },
+    SportsOrganization: { parents: ['Organization'], properties: ['sport'] },
+    SportsTeam: { parents: ['SportsOrganization'], properties: ['athlete', 'coach', 'gender'] },
+    SpreadsheetDigitalDocument: { parents: ['DigitalDocument'], properties: [] },
+    StadiumOrArena: { parents: ['CivicStructure', 'SportsActivityLocation'], properties: [] },
+    State: { parents: ['AdministrativeArea'], properties: [] },
+    Statement: { parents: ['CreativeWork'], properties: [] },
+    StatisticalPopulation: { parents: ['Intangible'], properties: ['populationType'] },
+    StatisticalVariable: {
+      parents: ['ConstraintNode'],
+      properties: [
+        'measuredProperty', 'measurementDenominator', 'measurementMethod', 'measurementQualifier',
+        'measurementTechnique', 'populationType', 'statType'
+      ]
+    },
+    StatusEnumeration: { parents: ['Enumeration'], properties: [] },
+    SteeringPositionValue: { parents: ['QualitativeValue'], properties: [] },
+    Store: { parents: ['LocalBusiness'], properties: [] },
+    StructuredValue: { parents: ['Intangible'], properties: [] },
+    SubscribeAction: { parents: ['InteractAction'], properties: [] },
+    Substance: { parents: ['MedicalEntity'], properties: ['activeIngredient', 'maximumIntake'] },
+    SubwayStation: { parents: ['CivicStructure'], properties: [] },
+    Suite: { parents: ['Accommodation'], properties: ['bed', 'numberOfRooms', 'occupancy'] },
+    SuperficialAnatomy: {
+      parents: ['MedicalEntity'],
+      properties: [
+        'associatedPathophysiology', 'relatedAnatomy', 'relatedCondition', 'relatedTherapy', 'significance'
+      ]
+    },
+    SurgicalProcedure: { parents: ['MedicalProcedure'], properties: [] },
+    SuspendAction: { parents: ['ControlAction'], properties: [] },
+    Syllabus: { parents: ['LearningResource'], properties: [] },
+    Synagogue: { parents: ['PlaceOfWorship'], properties: [] },
+    Table: { parents: ['WebPageElement'], properties: [] },
+    TakeAction: { parents: ['TransferAction'], properties: [] },
+    TattooParlor: { parents: ['HealthAndBeautyBusiness'], properties: [] },
+    Taxi: { parents: ['Service'], properties: [] },
+    TaxiReservation: { parents: ['Reservation'], properties: ['partySize', 'pickupLocation', 'pickupTime'] },
+    TaxiService: { parents: ['Service'], properties: [] },
+    TaxiStand: { parents: ['CivicStructure'], properties: [] },
+    Taxon: { parents: ['Thing'], properties: ['childTaxon', 'hasDefinedTerm', 'parentTaxon', 'taxonRank'] },
+    TechArticle: { parents: ['Article'], properties: ['dependencies', 'proficiencyLevel'] },
+    TelevisionChannel: { parents: ['BroadcastChannel'], properties: [] },
+    TelevisionStation: { parents: ['LocalBusiness'], properties: [] },
+    TennisComplex: { parents: ['SportsActivityLocation'], properties: [] },
+    TextDigitalDocument: { parents: ['DigitalDocument'], properties: [] },
+    TextObject: { parents: ['MediaObject'], properties: [] },
+    TheaterEvent: { parents: ['Event'], properties: [] },
+    TheaterGroup: { parents: ['PerformingGroup'], properties: [] },
+    TherapeuticProcedure: {
+      parents: ['MedicalProcedure'],
+      properties: ['adverseOutcome', 'doseSchedule', 'drug']
+    },
+    Thesis: { parents: ['CreativeWork'], properties: ['inSupportOf'] },
+    Thing: {
+      parents: [],
+      properties: [
+        'additionalType', 'alternateName', 'description', 'disambiguatingDescription', 'identifier', 'image',
+        'mainEntityOfPage', 'name', 'owner', 'potentialAction', 'sameAs', 'subjectOf', 'url'
+      ]
+    },
+    Ticket: {
+      parents: ['Intangible'],
+      properties: [
+        'dateIssued', 'issuedBy', 'priceCurrency', 'ticketedSeat', 'ticketNumber', 'ticketToken',
+        'totalPrice', 'underName'
+      ]
+    },
+    TieAction: { parents: ['AchieveAction'], properties: [] },
+    TierBenefitEnumeration: { parents: ['Enumeration'], properties: [] },
+    TipAction: { parents: ['TradeAction'], properties: ['recipient'] },
+    TireShop: { parents: ['Store'], properties: [] },
+    TouristAttraction: { parents: ['Place'], properties: ['availableLanguage', 'touristType'] },
+    TouristDestination: { parents: ['Place'], properties: ['includesAttraction', 'touristType'] },
+    TouristInformationCenter: { parents: ['LocalBusiness'], properties: [] },
+    TouristTrip: { parents: ['Trip'], properties: ['touristType'] },
+    ToyStore: { parents: ['Store'], properties: [] },
+    TrackAction: { parents: ['FindAction'], properties: ['deliveryMethod'] },
+    TradeAction: { parents: ['Action'], properties: ['price', 'priceCurrency', 'priceSpecification'] },
+    TrainReservation: { parents: ['Reservation'], properties: [] },
+    TrainStation: { parents: ['CivicStructure'], properties: [] },
+    TrainTrip: {
+      parents: ['Trip'],
+      properties: [
+        'arrivalPlatform', 'arrivalStation', 'departurePlatform', 'departureStation', 'trainName',
+        'trainNumber'
+      ]
+    },
+    TransferAction: { parents: ['Action'], properties: ['fromLocation', 'toLocation'] },
+    TravelAction: { parents: ['MoveAction'], properties: ['distance'] },
+    TravelAgency: { parents: ['LocalBusiness'], properties: [] },
+    TreatmentIndication: { parents: ['MedicalIndication'], properties: [] },
+    Trip: {
+      parents: ['Intangible'],
+      properties: [
+        'arrivalTime', 'departureTime', 'itinerary', 'offers', 'partOfTrip', 'provider', 'subTrip',
+        'tripOrigin'
+      ]
+    },
+    TVClip: { parents: ['Clip'], properties: ['partOfTVSeries'] },
+    TVEpisode: {
+      parents: ['Episode'],
+      properties: ['countryOfOrigin', 'partOfTVSeries', 'subtitleLanguage', 'titleEIDR']
+    },
+    TVSeason: {
+      parents: ['CreativeWork', 'CreativeWorkSeason'],
+      properties: ['countryOfOrigin', 'partOfTVSeries', 'titleEIDR']
+    },
+    TVSeries: {
+      parents: ['CreativeWork', 'CreativeWorkSeries'],
+      properties: [
+        'actor', 'actors', 'containsSeason', 'countryOfOrigin', 'director', 'directors', 'episode',
+        'episodes', 'musicBy', 'numberOfEpisodes', 'numberOfSeasons', 'productionCompany', 'season',
+        'seasons', 'titleEIDR', 'trailer'
+      ]
+    },
+    TypeAndQuantityNode: {
+      parents: ['StructuredValue'],
+      properties: ['amountOfThisGood', 'businessFunction', 'typeOfGood', 'unitCode', 'unitText']
+    },
+    UKNonprofitType: { parents: ['NonprofitType'], properties: [] },
+    UnitPriceSpecification: {
+      parents: ['PriceSpecification'],
+      properties: [
+        'billingDuration', 'billingIncrement', 'billingStart', 'priceComponentType', 'priceType',
+        'referenceQuantity', 'unitCode', 'unitText'
+      ]
+    },
+    UnRegisterAction: { parents: ['InteractAction'], properties: [] },
+    UpdateAction: { parents: ['Action'], properties: ['collection', 'targetCollection'] },
+    UseAction: { parents: ['ConsumeAction'], properties: [] },
+    UserBlocks: { parents: ['UserInteraction'], properties: [] },
+    UserCheckins: { parents: ['UserInteraction'], properties: [] },
+    UserComments: {
+      parents: ['UserInteraction'],
+      properties: ['commentText', 'commentTime', 'creator', 'discusses', 'replyToUrl']
+    },
+    UserDownloads: { parents: ['UserInteraction'], properties: [] },
+    UserInteraction: { parents: ['Event'], properties: [] },
+    UserLikes: { parents: ['UserInteraction'], properties: [] },
+    UserPageVisits: { parents: ['UserInteraction'], properties: [] },
+    UserPlays: { parents: ['UserInteraction'], properties: [] },
+    UserPlusOnes: { parents: ['UserInteraction'], properties: [] },
+    UserReview: { parents: ['Review'], properties: [] },
+    UserTweets: { parents: ['UserInteraction'], properties: [] },
+    USNonprofitType: { parents: ['NonprofitType'], properties: [] },
+    VacationRental: { parents: ['LodgingBusiness'], properties: [] },
+    Vehicle: {
+      parents: ['Product'],
+      properties: [
+        'accelerationTime', 'bodyType', 'callSign', 'cargoVolume', 'dateVehicleFirstRegistered',
+        'driveWheelConfiguration', 'emissionsCO2', 'fuelCapacity', 'fuelConsumption', 'fuelEfficiency',
+        'fuelType', 'knownVehicleDamages', 'meetsEmissionStandard', 'mileageFromOdometer', 'modelDate',
+        'numberOfAirbags', 'numberOfAxles', 'numberOfDoors', 'numberOfForwardGears', 'numberOfPreviousOwners',
+        'payload', 'productionDate', 'purchaseDate', 'seatingCapacity', 'speed', 'steeringPosition',
+        'tongueWeight', 'trailerWeight', 'vehicleConfiguration', 'vehicleEngine',
+        'vehicleIdentificationNumber', 'vehicleInteriorColor', 'vehicleInteriorType', 'vehicleModelDate',
+        'vehicleSeatingCapacity', 'vehicleSpecialUsage', 'vehicleTransmission', 'weightTotal', 'wheelbase'
+      ]
+    },
+    Vein: { parents: ['Vessel'], properties: ['drainsTo', 'regionDrained', 'tributary'] },
+    Vessel: { parents: ['AnatomicalStructure'], properties: [] },
+    VeterinaryCare: { parents: ['MedicalOrganization'], properties: [] },
+    VideoGallery: { parents: ['MediaGallery'], properties: [] },
+    VideoGame: {
+      parents: ['Game', 'SoftwareApplication'],
+      properties: [
+        'actor', 'actors', 'cheatCode', 'director', 'directors', 'gameEdition', 'gamePlatform', 'gameServer',
+        'gameTip', 'musicBy', 'playMode', 'trailer'
+      ]
+    },
+    VideoGameClip: { parents: ['Clip'], properties: [] },
+    VideoGameSeries: {
+      parents: ['CreativeWorkSeries'],
+      properties: [
+        'actor', 'actors', 'characterAttribute', 'cheatCode', 'containsSeason', 'director', 'directors',
+        'episode', 'episodes', 'gameItem', 'gameLocation', 'gamePlatform', 'musicBy', 'numberOfEpisodes',
+        'numberOfPlayers', 'numberOfSeasons', 'playMode', 'productionCompany', 'quest', 'season', 'seasons',
+        'trailer'
+      ]
+    },
+    VideoObject: {
+      parents: ['MediaObject'],
+      properties: [
+        'actor', 'actors', 'caption', 'director', 'directors', 'embeddedTextCaption', 'musicBy', 'transcript',
+        'videoFrameSize', 'videoQuality'
+      ]
+    },
+    VideoObjectSnapshot: { parents: ['VideoObject'], properties: [] },
+    ViewAction: { parents: ['ConsumeAction'], properties: [] },
+    VirtualLocation: { parents: ['Intangible'], properties: [] },
+    VisualArtsEvent: { parents: ['Event'], properties: [] },
+    VisualArtwork: {
+      parents: ['CreativeWork'],
+      properties: [
+        'artEdition', 'artform', 'artist', 'artMedium', 'artworkSurface', 'colorist', 'depth', 'height',
+        'inker', 'letterer', 'penciler', 'surface', 'weight', 'width'
+      ]
+    },
+    VitalSign: { parents: ['MedicalSign'], properties: [] },
+    Volcano: { parents: ['Landform'], properties: [] },
+    VoteAction: { parents: ['ChooseAction'], properties: ['candidate'] },
+    WantAction: { parents: ['ReactAction'], properties: [] },
+    WarrantyPromise: { parents: ['StructuredValue'], properties: ['durationOfWarranty', 'warrantyScope'] },
+    WarrantyScope: { parents: ['Enumeration'], properties: [] },
+    WatchAction: { parents: ['ConsumeAction'], properties: [] },
+    Waterfall: { parents: ['BodyOfWater'], properties: [] },
+    WearableMeasurementTypeEnumeration: { parents: ['MeasurementTypeEnumeration'], properties: [] },
+    WearableSizeGroupEnumeration: { parents: ['SizeGroupEnumeration'], properties: [] },
+    WearableSizeSystemEnumeration: { parents: ['SizeSystemEnumeration'], properties: [] },
+    WearAction: { parents: ['UseAction'], properties: [] },
+    WebAPI: { parents: ['Service'], properties: ['documentation'] },
+    WebApplication: { parents: ['SoftwareApplication'], properties: ['browserRequirements'] },
+    WebContent: { parents: ['CreativeWork'], properties: [] },
+    WebPage: {
+      parents: ['CreativeWork'],
+      properties: [
+        'breadcrumb', 'lastReviewed', 'mainContentOfPage', 'primaryImageOfPage', 'relatedLink', 'reviewedBy',
+        'significantLink', 'significantLinks', 'speakable', 'specialty'
+      ]
+    },
+    WebPageElement: { parents: ['CreativeWork'], properties: ['cssSelector', 'xpath'] },
+    WebSite: { parents: ['CreativeWork'], properties: ['issn'] },
+    WholesaleStore: { parents: ['Store'], properties: [] },
+    WinAction: { parents: ['AchieveAction'], properties: ['loser'] },
+    Winery: { parents: ['FoodEstablishment'], properties: [] },
+    WorkBasedProgram: {
+      parents: ['EducationalOccupationalProgram'],
+      properties: ['occupationalCategory', 'trainingSalary']
+    },
+    WorkersUnion: { parents: ['Organization'], properties: [] },
+    WPAdBlock: { parents: ['WebPageElement'], properties: [] },
+    WPFooter: { parents: ['WebPageElement'], properties: [] },
+    WPHeader: { parents: ['WebPageElement'], properties: [] },
+    WPSideBar: { parents: ['WebPageElement'], properties: [] },
+    WriteAction: { parents: ['CreateAction'], properties: ['inLanguage', 'language'] },
+    Zoo: { parents: ['CivicStructure'], properties: [] }
+  },
+
+  dataTypes: {
+    Boolean: [],
+    CssSelectorType: ['Text'],
+    Date: [],
+    DateTime: [],
+    Float: ['Number'],
+    Integer: ['Number'],
+    Number: [],
+    PronounceableText: ['Text'],
+    Text: [],
+    Time: [],
+    URL: ['Text'],
+    XPathType: ['Text']
+  },
+
+  properties: {
+    about: ['Thing'],
+    abridged: ['Boolean'],
+    abstract: ['Text'],
+    accelerationTime: ['QuantitativeValue'],
+    acceptedAnswer: ['Answer', 'ItemList'],
+    acceptedOffer: ['Offer'],
+    acceptedPaymentMethod: ['LoanOrCredit', 'PaymentMethod', 'Text'],
+    acceptsReservations: ['Boolean', 'Text', 'URL'],
+    accessCode: ['Text'],
+    accessibilityAPI: ['Text'],
+    accessibilityControl: ['Text'],
+    accessibilityFeature: ['Text'],
+    accessibilityHazard: ['Text'],
+    accessibilitySummary: ['Text'],
+    accessMode: ['Text'],
+    accessModeSufficient: ['ItemList'],
+    accommodationCategory: ['Text'],
+    accommodationFloorPlan: ['FloorPlan'],
+    accountablePerson: ['Person'],
+    accountId: ['Text'],
+    accountMinimumInflow: ['MonetaryAmount'],
+    accountOverdraftLimit: ['MonetaryAmount'],
+    acquiredFrom: ['Organization', 'Person'],
+    acquireLicensePage: ['CreativeWork', 'URL'],
+    acrissCode: ['Text'],
+    actionableFeedbackPolicy: ['CreativeWork', 'URL'],
+    actionAccessibilityRequirement: ['ActionAccessSpecification'],
+    actionApplication: ['SoftwareApplication'],
+    actionOption: ['Text', 'Thing'],
+    actionPlatform: ['DigitalPlatformEnumeration', 'Text', 'URL'],
+    actionProcess: ['HowTo'],
+    actionStatus: ['ActionStatusType'],
+    activeIngredient: ['Text'],
+    activityDuration: ['Duration', 'QuantitativeValue'],
+    activityFrequency: ['QuantitativeValue', 'Text'],
+    actor: ['PerformingGroup', 'Person'],
+    actors: ['Person'],
+    additionalName: ['Text'],
+    additionalNumberOfGuests: ['Number'],
+    additionalProperty: ['PropertyValue'],
+    additionalType: ['Text', 'URL'],
+    additionalVariable: ['Text'],
+    addOn: ['Offer'],
+    address: ['PostalAddress', 'Text'],
+    addressCountry: ['Country', 'Text'],
+    addressLocality: ['Text'],
+    addressRegion: ['AdministrativeArea', 'Text'],
+    administrationRoute: ['Text'],
+    advanceBookingRequirement: ['QuantitativeValue'],
+    adverseOutcome: ['MedicalEntity'],
+    affectedBy: ['Drug'],
+    affiliation: ['Organization'],
+    afterMedia: ['MediaObject', 'URL'],
+    agent: ['Organization', 'Person'],
+    agentInteractionStatistic: ['InteractionCounter'],
+    aggregateElement: ['Thing'],
+    aggregateRating: ['AggregateRating'],
+    aircraft: ['Text', 'Vehicle'],
+    album: ['MusicAlbum'],
+    albumProductionType: ['MusicAlbumProductionType'],
+    albumRelease: ['MusicRelease'],
+    albumReleaseType: ['MusicAlbumReleaseType'],
+    albums: ['MusicAlbum'],
+    alcoholWarning: ['Text'],
+    algorithm: ['Text'],
+    alignmentType: ['Text'],
+    alternateName: ['Text'],
+    alternativeHeadline: ['Text'],
+    alternativeOf: ['Gene'],
+    alumni: ['Person'],
+    alumniOf: ['EducationalOrganization', 'Organization'],
+    amenityFeature: ['LocationFeatureSpecification'],
+    amount: ['MonetaryAmount', 'Number'],
+    amountOfThisGood: ['Number'],
+    announcementLocation: ['CivicStructure', 'LocalBusiness'],
+    annualPercentageRate: ['Number', 'QuantitativeValue'],
+    answerCount: ['Integer'],
+    answerExplanation: ['Comment', 'WebContent'],
+    antagonist: ['Muscle'],
+    appearance: ['CreativeWork'],
+    applicableCountry: ['Country', 'Text'],
+    applicableLocation: ['AdministrativeArea'],
+    applicantLocationRequirements: ['AdministrativeArea'],
+    application: ['SoftwareApplication'],
+    applicationCategory: ['Text', 'URL'],
+    applicationContact: ['ContactPoint'],
+    applicationDeadline: ['Date', 'Text'],
+    applicationStartDate: ['Date'],
+    applicationSubCategory: ['Text', 'URL'],
+    applicationSuite: ['Text'],
+    appliesToDeliveryMethod: ['DeliveryMethod'],
+    appliesToPaymentMethod: ['PaymentMethod'],
+    archivedAt: ['URL', 'WebPage'],
+    archiveHeld: ['ArchiveComponent'],
+    area: ['Place'],
+    areaServed: ['AdministrativeArea', 'GeoShape', 'Place', 'Text'],
+    arrivalAirport: ['Airport'],
+    arrivalBoatTerminal: ['BoatTerminal'],
+    arrivalBusStop: ['BusStation', 'BusStop'],
+    arrivalGate: ['Text'],
+    arrivalPlatform: ['Text'],
+    arrivalStation: ['TrainStation'],
+    arrivalTerminal: ['Text'],
+    arrivalTime: ['DateTime', 'Time'],
+    artEdition: ['Integer', 'Text'],
+    arterialBranch: ['AnatomicalStructure'],
+    artform: ['Text', 'URL'],
+    articleBody: ['Text'],
+    articleSection: ['Text'],
+    artist: ['Person'],
+    artMedium: ['Text', 'URL'],
+    artworkSurface: ['Text', 'URL'],
+    asin: ['Text', 'URL'],
+    aspect: ['Text'],
+    assembly: ['Text'],
+    assemblyVersion: ['Text'],
+    assesses: ['DefinedTerm', 'Text'],
+    associatedAnatomy: ['AnatomicalStructure', 'AnatomicalSystem', 'SuperficialAnatomy'],
+    associatedArticle: ['NewsArticle'],
+    associatedClaimReview: ['Review'],
+    associatedDisease: ['MedicalCondition', 'PropertyValue', 'URL'],
+    associatedMedia: ['MediaObject'],
+    associatedMediaReview: ['Review'],
+    associatedPathophysiology: ['Text'],
+    associatedReview: ['Review'],
+    athlete: ['Person'],
+    attendee: ['Organization', 'Person'],
+    attendees: ['Organization', 'Person'],
+    audience: ['Audience'],
+    audienceType: ['Text'],
+    audio: ['AudioObject', 'Clip', 'MusicRecording'],
+    auditDate: ['Date', 'DateTime'],
+    authenticator: ['Organization'],
+    author: ['Organization', 'Person'],
+    availability: ['ItemAvailability'],
+    availabilityEnds: ['Date', 'DateTime', 'Time'],
+    availabilityStarts: ['Date', 'DateTime', 'Time'],
+    availableAtOrFrom: ['Place'],
+    availableChannel: ['ServiceChannel'],
+    availableDeliveryMethod: ['DeliveryMethod'],
+    availableFrom: ['DateTime'],
+    availableIn: ['AdministrativeArea'],
+    availableLanguage: ['Language', 'Text'],
+    availableOnDevice: ['Text'],
+    availableService: ['MedicalProcedure', 'MedicalTest', 'MedicalTherapy'],
+    availableStrength: ['DrugStrength'],
+    availableTest: ['MedicalTest'],
+    availableThrough: ['DateTime'],
+    award: ['Text'],
+    awards: ['Text'],
+    awayTeam: ['Person', 'SportsTeam'],
+    backstory: ['CreativeWork', 'Text'],
+    bankAccountType: ['Text', 'URL'],
+    baseSalary: ['MonetaryAmount', 'Number', 'PriceSpecification'],
+    bccRecipient: ['ContactPoint', 'Organization', 'Person'],
+    bed: ['BedDetails', 'BedType', 'Text'],
+    beforeMedia: ['MediaObject', 'URL'],
+    beneficiaryBank: ['BankOrCreditUnion', 'Text'],
+    benefits: ['Text'],
+    benefitsSummaryUrl: ['URL'],
+    bestRating: ['Number', 'Text'],
+    billingAddress: ['PostalAddress'],
+    billingDuration: ['Duration', 'Number', 'QuantitativeValue'],
+    billingIncrement: ['Number'],
+    billingPeriod: ['Duration'],
+    billingStart: ['Number'],
+    bioChemInteraction: ['BioChemEntity'],
+    bioChemSimilarity: ['BioChemEntity'],
+    biologicalRole: ['DefinedTerm'],
+    biomechnicalClass: ['Text'],
+    birthDate: ['Date'],
+    birthPlace: ['Place'],
+    bitrate: ['Text'],
+    blogPost: ['BlogPosting'],
+    blogPosts: ['BlogPosting'],
+    bloodSupply: ['Vessel'],
+    boardingGroup: ['Text'],
+    boardingPolicy: ['BoardingPolicyType'],
+    bodyLocation: ['Text'],
+    bodyType: ['QualitativeValue', 'Text', 'URL'],
+    bookEdition: ['Text'],
+    bookFormat: ['BookFormatType'],
+    bookingAgent: ['Organization', 'Person'],
+    bookingTime: ['DateTime'],
+    borrower: ['Person'],
+    box: ['Text'],
+    branch: ['AnatomicalStructure'],
+    branchCode: ['Text'],
+    branchOf: ['Organization'],
+    brand: ['Brand', 'Organization'],
+    breadcrumb: ['BreadcrumbList', 'Text'],
+    breastfeedingWarning: ['Text'],
+    broadcastAffiliateOf: ['Organization'],
+    broadcastChannelId: ['Text'],
+    broadcastDisplayName: ['Text'],
+    broadcaster: ['Organization'],
+    broadcastFrequency: ['BroadcastFrequencySpecification', 'Text'],
+    broadcastFrequencyValue: ['Number', 'QuantitativeValue'],
+    broadcastOfEvent: ['Event'],
+    broadcastServiceTier: ['Text'],
+    broadcastSignalModulation: ['QualitativeValue', 'Text'],
+    broadcastSubChannel: ['Text'],
+    broadcastTimezone: ['Text'],
+    broker: ['Organization', 'Person'],
+    browserRequirements: ['Text'],
+    businessDays: ['DayOfWeek', 'OpeningHoursSpecification'],
+    businessFunction: ['BusinessFunction'],
+    busName: ['Text'],
+    busNumber: ['Text'],
+    buyer: ['Organization', 'Person'],
+    byArtist: ['MusicGroup', 'Person'],
+    byDay: ['DayOfWeek', 'Text'],
+    byMonth: ['Integer'],
+    byMonthDay: ['Integer'],
+    byMonthWeek: ['Integer'],
+    callSign: ['Text'],
+    calories: ['Energy'],
+    candidate: ['Person'],
+    caption: ['MediaObject', 'Text'],
+    carbohydrateContent: ['Mass'],
+    cargoVolume: ['QuantitativeValue'],
+    carrier: ['Organization'],
+    carrierRequirements: ['Text'],
+    cashBack: ['Boolean', 'Number'],
+    catalog: ['DataCatalog'],
+    catalogNumber: ['Text'],
+    category: ['CategoryCode', 'PhysicalActivityCategory', 'Text', 'Thing', 'URL'],
+    cause: ['MedicalCause'],
+    causeOf: ['MedicalEntity'],
+    ccRecipient: ['ContactPoint', 'Organization', 'Person'],
+    certificationIdentification: ['DefinedTerm', 'Text'],
+    certificationRating: ['Rating'],
+    certificationStatus: ['CertificationStatusEnumeration'],
+    character: ['Person'],
+    characterAttribute: ['Thing'],
+    characterName: ['Text'],
+    cheatCode: ['CreativeWork'],
+    checkinTime: ['DateTime', 'Time'],
+    checkoutPageURLTemplate: ['Text'],
+    checkoutTime: ['DateTime', 'Time'],
+    chemicalComposition: ['Text'],
+    chemicalRole: ['DefinedTerm'],
+    childMaxAge: ['Number'],
+    childMinAge: ['Number'],
+    children: ['Person'],
+    childTaxon: ['Taxon', 'Text', 'URL'],
+    cholesterolContent: ['Mass'],
+    circle: ['Text'],
+    citation: ['CreativeWork', 'Text'],
+    claimInterpreter: ['Organization', 'Person'],
+    claimReviewed: ['Text'],
+    clincalPharmacology: ['Text'],
+    clinicalPharmacology: ['Text'],
+    clipNumber: ['Integer', 'Text'],
+    closes: ['Time'],
+    coach: ['Person'],
+    code: ['MedicalCode'],
+    codeRepository: ['URL'],
+    codeSampleType: ['Text'],
+    codeValue: ['Text'],
+    codingSystem: ['Text'],
+    colleague: ['Person', 'URL'],
+    colleagues: ['Person'],
+    collection: ['Thing'],
+    collectionSize: ['Integer'],
+    color: ['Text'],
+    colorist: ['Person'],
+    colorSwatch: ['ImageObject', 'URL'],
+    comment: ['Comment'],
+    commentCount: ['Integer'],
+    commentText: ['Text'],
+    commentTime: ['Date', 'DateTime'],
+    companyRegistration: ['Certification'],
+    competencyRequired: ['DefinedTerm', 'Text', 'URL'],
+    competitor: ['Person', 'SportsTeam'],
+    composer: ['Organization', 'Person'],
+    comprisedOf: ['AnatomicalStructure', 'AnatomicalSystem'],
+    conditionsOfAccess: ['Text'],
+    confirmationNumber: ['Text'],
+    connectedTo: ['AnatomicalStructure'],
+    constraintProperty: ['Property', 'URL'],
+    contactlessPayment: ['Boolean'],
+    contactOption: ['ContactPointOption'],
+    contactPoint: ['ContactPoint'],
+    contactPoints: ['ContactPoint'],
+    contactType: ['Text'],
+    containedIn: ['Place'],
+    containedInPlace: ['Place'],
+    containsPlace: ['Place'],
+    containsSeason: ['CreativeWorkSeason'],
+    contentLocation: ['Place'],
+    contentRating: ['Rating', 'Text'],
+    contentReferenceTime: ['DateTime'],
+    contentSize: ['Text'],
+    contentType: ['Text'],
+    contentUrl: ['URL'],
+    contraindication: ['MedicalContraindication', 'Text'],
+    contributor: ['Organization', 'Person'],
+    cookingMethod: ['Text'],
+    cookTime: ['Duration'],
+    copyrightHolder: ['Organization', 'Person'],
+    copyrightNotice: ['Text'],
+    copyrightYear: ['Number'],
+    correction: ['CorrectionComment', 'Text', 'URL'],
+    correctionsPolicy: ['CreativeWork', 'URL'],
+    costCategory: ['DrugCostCategory'],
+    costCurrency: ['Text'],
+    costOrigin: ['Text'],
+    costPerUnit: ['Number', 'QualitativeValue', 'Text'],
+    countriesNotSupported: ['Text'],
+    countriesSupported: ['Text'],
+    countryOfAssembly: ['Text'],
+    countryOfLastProcessing: ['Text'],
+    countryOfOrigin: ['Country'],
+    course: ['Place'],
+    courseCode: ['Text'],
+    courseMode: ['Text', 'URL'],
+    coursePrerequisites: ['AlignmentObject', 'Course', 'Text'],
+    courseSchedule: ['Schedule'],
+    courseWorkload: ['Text'],
+    coverageEndTime: ['DateTime'],
+    coverageStartTime: ['DateTime'],
+    creativeWorkStatus: ['DefinedTerm', 'Text'],
+    creator: ['Organization', 'Person'],
+    credentialCategory: ['DefinedTerm', 'Text', 'URL'],
+    creditedTo: ['Organization', 'Person'],
+    creditText: ['Text'],
+    cssSelector: ['CssSelectorType'],
+    currenciesAccepted: ['Text'],
+    currency: ['Text'],
+    currentExchangeRate: ['UnitPriceSpecification'],
+    customer: ['Organization', 'Person'],
+    customerRemorseReturnFees: ['ReturnFeesEnumeration'],
+    customerRemorseReturnLabelSource: ['ReturnLabelSourceEnumeration'],
+    customerRemorseReturnShippingFeesAmount: ['MonetaryAmount'],
+    cutoffTime: ['Time'],
+    cvdCollectionDate: ['DateTime', 'Text'],
+    cvdFacilityCounty: ['Text'],
+    cvdFacilityId: ['Text'],
+    cvdNumBeds: ['Number'],
+    cvdNumBedsOcc: ['Number'],
+    cvdNumC19Died: ['Number'],
+    cvdNumC19HOPats: ['Number'],
+    cvdNumC19HospPats: ['Number'],
+    cvdNumC19MechVentPats: ['Number'],
+    cvdNumC19OFMechVentPats: ['Number'],
+    cvdNumC19OverflowPats: ['Number'],
+    cvdNumICUBeds: ['Number'],
+    cvdNumICUBedsOcc: ['Number'],
+    cvdNumTotBeds: ['Number'],
+    cvdNumVent: ['Number'],
+    cvdNumVentUse: ['Number'],
+    data: ['Thing'],
+    dataFeedElement: ['DataFeedItem', 'Text', 'Thing'],
+    dataset: ['Dataset'],
+    datasetTimeInterval: ['DateTime'],
+    dateCreated: ['Date', 'DateTime'],
+    dateDeleted: ['Date', 'DateTime'],
+    dateIssued: ['Date', 'DateTime'],
+    dateline: ['Text'],
+    dateModified: ['Date', 'DateTime'],
+    datePosted: ['Date', 'DateTime'],
+    datePublished: ['Date', 'DateTime'],
+    dateRead: ['Date', 'DateTime'],
+    dateReceived: ['DateTime'],
+    dateSent: ['DateTime'],
+    dateVehicleFirstRegistered: ['Date'],
+    dayOfWeek: ['DayOfWeek'],
+    deathDate: ['Date'],
+    deathPlace: ['Place'],
+    defaultValue: ['Text', 'Thing'],
+    deliveryAddress: ['PostalAddress'],
+    deliveryLeadTime: ['QuantitativeValue'],
+    deliveryMethod: ['DeliveryMethod'],
+    deliveryStatus: ['DeliveryEvent'],
+    deliveryTime: ['ShippingDeliveryTime'],
+    department: ['Organization'],
+    departureAirport: ['Airport'],
+    departureBoatTerminal: ['BoatTerminal'],
+    departureBusStop: ['BusStation', 'BusStop'],
+    departureGate: ['Text'],
+    departurePlatform: ['Text'],
+    departureStation: ['TrainStation'],
+    departureTerminal: ['Text'],
+    departureTime: ['DateTime', 'Time'],
+    dependencies: ['Text'],
+    depth: ['Distance', 'QuantitativeValue'],
+    description: ['Text', 'TextObject'],
+    device: ['Text'],
+    diagnosis: ['MedicalCondition'],
+    diagram: ['ImageObject'],
+    diet: ['Diet'],
+    dietFeatures: ['Text'],
+    differentialDiagnosis: ['DDxElement'],
+    digitalSourceType: ['IPTCDigitalSourceEnumeration'],
+    directApply: ['Boolean'],
+    director: ['Person'],
+    directors: ['Person'],
+    disambiguatingDescription: ['Text'],
+    discount: ['Number', 'Text'],
+    discountCode: ['Text'],
+    discountCurrency: ['Text'],
+    discusses: ['CreativeWork'],
+    discussionUrl: ['URL'],
+    diseasePreventionInfo: ['URL', 'WebContent'],
+    diseaseSpreadStatistics: ['Dataset', 'Observation', 'URL', 'WebContent'],
+    displayLocation: ['Place'],
+    dissolutionDate: ['Date'],
+    distance: ['Distance'],
+    distinguishingSign: ['MedicalSignOrSymptom'],
+    distribution: ['DataDownload'],
+    diversityPolicy: ['CreativeWork', 'URL'],
+    diversityStaffingReport: ['Article', 'URL'],
+    documentation: ['CreativeWork', 'URL'],
+    doesNotShip: ['Boolean'],
+    domainIncludes: ['Class'],
+    domiciledMortgage: ['Boolean'],
+    doorTime: ['DateTime', 'Time'],
+    dosageForm: ['Text'],
+    doseSchedule: ['DoseSchedule'],
+    doseUnit: ['Text'],
+    doseValue: ['Number', 'QualitativeValue'],
+    downloadUrl: ['URL'],
+    downPayment: ['MonetaryAmount', 'Number'],
+    downvoteCount: ['Integer'],
+    drainsTo: ['Vessel'],
+    driveWheelConfiguration: ['DriveWheelConfigurationValue', 'Text'],
+    dropoffLocation: ['Place'],
+    dropoffTime: ['DateTime'],
+    drug: ['Drug'],
+    drugClass: ['DrugClass'],
+    drugUnit: ['Text'],
+    duns: ['Text'],
+    duplicateTherapy: ['MedicalTherapy'],
+    duration: ['Duration', 'QuantitativeValue'],
+    durationOfWarranty: ['QuantitativeValue'],
+    duringMedia: ['MediaObject', 'URL'],
+    earlyPrepaymentPenalty: ['MonetaryAmount'],
+    editEIDR: ['Text', 'URL'],
+    editor: ['Person'],
+    educationalAlignment: ['AlignmentObject'],
+    educationalCredentialAwarded: ['EducationalOccupationalCredential', 'Text', 'URL'],
+    educationalFramework: ['Text'],
+    educationalLevel: ['DefinedTerm', 'Text', 'URL'],
+    educationalProgramMode: ['Text', 'URL'],
+    educationalRole: ['Text'],
+    educationalUse: ['DefinedTerm', 'Text'],
+    educationRequirements: ['EducationalOccupationalCredential', 'Text'],
+    eduQuestionType: ['Text'],
+    elevation: ['Number', 'Text'],
+    eligibilityToWorkRequirement: ['Text'],
+    eligibleCustomerType: ['BusinessEntityType'],
+    eligibleDuration: ['QuantitativeValue'],
+    eligibleQuantity: ['QuantitativeValue'],
+    eligibleRegion: ['GeoShape', 'Place', 'Text'],
+    eligibleTransactionVolume: ['PriceSpecification'],
+    eligibleWithSupplier: ['Organization'],
+    email: ['Text'],
+    embeddedTextCaption: ['Text'],
+    embedUrl: ['URL'],
+    emissionsCO2: ['Number'],
+    employee: ['Person'],
+    employees: ['Person'],
+    employerOverview: ['Text'],
+    employmentType: ['Text'],
+    employmentUnit: ['Organization'],
+    encodesBioChemEntity: ['BioChemEntity'],
+    encodesCreativeWork: ['CreativeWork'],
+    encoding: ['MediaObject'],
+    encodingFormat: ['Text', 'URL'],
+    encodings: ['MediaObject'],
+    encodingType: ['Text'],
+    endDate: ['Date', 'DateTime'],
+    endOffset: ['HyperTocEntry', 'Number'],
+    endorsee: ['Organization', 'Person'],
+    endorsers: ['Organization', 'Person'],
+    endTime: ['DateTime', 'Time'],
+    energyEfficiencyScaleMax: ['EUEnergyEfficiencyEnumeration'],
+    energyEfficiencyScaleMin: ['EUEnergyEfficiencyEnumeration'],
+    engineDisplacement: ['QuantitativeValue'],
+    enginePower: ['QuantitativeValue'],
+    engineType: ['QualitativeValue', 'Text', 'URL'],
+    entertainmentBusiness: ['EntertainmentBusiness'],
+    epidemiology: ['Text'],
+    episode: ['Episode'],
+    episodeNumber: ['Integer', 'Text'],
+    episodes: ['Episode'],
+    equal: ['QualitativeValue'],
+    error: ['Thing'],
+    errorCode: ['DefinedTerm', 'Integer', 'StatusEnumeration', 'Text'],
+    estimatedCost: ['MonetaryAmount', 'Text'],
+    estimatedFlightDuration: ['Duration', 'Text'],
+    estimatedSalary: ['MonetaryAmount', 'MonetaryAmountDistribution', 'Number'],
+    estimatesRiskOf: ['MedicalEntity'],
+    ethicsPolicy: ['CreativeWork', 'URL'],
+    event: ['Event'],
+    eventAttendanceMode: ['EventAttendanceModeEnumeration'],
+    events: ['Event'],
+    eventSchedule: ['Schedule'],
+    eventStatus: ['EventStatusType'],
+    evidenceLevel: ['MedicalEvidenceLevel'],
+    evidenceOrigin: ['Text'],
+    exampleOfWork: ['CreativeWork'],
+    exceptDate: ['Date', 'DateTime'],
+    exchangeRateSpread: ['MonetaryAmount', 'Number'],
+    executableLibraryName: ['Text'],
+    exerciseCourse: ['Place'],
+    exercisePlan: ['ExercisePlan'],
+    exerciseRelatedDiet: ['Diet'],
+    exerciseType: ['Text'],
+    exifData: ['PropertyValue', 'Text'],
+    expectedArrivalFrom: ['Date', 'DateTime'],
+    expectedArrivalUntil: ['Date', 'DateTime'],
+    expectedPrognosis: ['Text'],
+    expectsAcceptanceOf: ['Offer'],
+    experienceInPlaceOfEducation: ['Boolean'],
+    experienceRequirements: ['OccupationalExperienceRequirements', 'Text'],
+    expertConsiderations: ['Text'],
+    expires: ['Date', 'DateTime'],
+    expressedIn: ['AnatomicalStructure', 'AnatomicalSystem', 'BioChemEntity', 'DefinedTerm'],
+    extendedAddress: ['Text'],
+    familyName: ['Text'],
+    fatContent: ['Mass'],
+    faxNumber: ['Text'],
+    featureList: ['Text', 'URL'],
+    feesAndCommissionsSpecification: ['Text', 'URL'],
+    fiberContent: ['Mass'],
+    fileFormat: ['Text', 'URL'],
+    fileSize: ['Text'],
+    financialAidEligible: ['DefinedTerm', 'Text'],
+    firstAppearance: ['CreativeWork'],
+    firstPerformance: ['Event'],
+    flightDistance: ['Distance', 'Text'],
+    flightNumber: ['Text'],
+    floorLevel: ['Text'],
+    floorLimit: ['MonetaryAmount'],
+    floorSize: ['QuantitativeValue'],
+    followee: ['Organization', 'Person'],
+    follows: ['Person'],
+    followup: ['Text'],
+    foodEstablishment: ['FoodEstablishment', 'Place'],
+    foodEvent: ['FoodEvent'],
+    foodWarning: ['Text'],
+    founder: ['Organization', 'Person'],
+    founders: ['Person'],
+    foundingDate: ['Date'],
+    foundingLocation: ['Place'],
+    free: ['Boolean'],
+    freeShippingThreshold: ['DeliveryChargeSpecification', 'MonetaryAmount'],
+    frequency: ['Text'],
+    fromLocation: ['Place'],
+    fuelCapacity: ['QuantitativeValue'],
+    fuelConsumption: ['QuantitativeValue'],
+    fuelEfficiency: ['QuantitativeValue'],
+    fuelType: ['QualitativeValue', 'Text', 'URL'],
+    fulfillmentType: ['FulfillmentTypeEnumeration'],
+    functionalClass: ['MedicalEntity', 'Text'],
+    fundedItem: [
+      'BioChemEntity', 'CreativeWork', 'Event', 'MedicalEntity', 'Organization', 'Person', 'Product'
+    ],
+    funder: ['Organization', 'Person'],
+    funding: ['Grant'],
+    game: ['VideoGame'],
+    gameAvailabilityType: ['GameAvailabilityEnumeration', 'Text'],
+    gameEdition: ['Text'],
+    gameItem: ['Thing'],
+    gameLocation: ['Place', 'PostalAddress', 'URL'],
+    gamePlatform: ['Text', 'Thing', 'URL'],
+    gameServer: ['GameServer'],
+    gameTip: ['CreativeWork'],
+    gender: ['GenderType', 'Text'],
+    genre: ['DefinedTerm', 'Text', 'URL'],
+    geo: ['GeoCoordinates', 'GeoShape'],
+    geoContains: ['GeospatialGeometry', 'Place'],
+    geoCoveredBy: ['GeospatialGeometry', 'Place'],
+    geoCovers: ['GeospatialGeometry', 'Place'],
+    geoCrosses: ['GeospatialGeometry', 'Place'],
+    geoDisjoint: ['GeospatialGeometry', 'Place'],
+    geoEquals: ['GeospatialGeometry', 'Place'],
+    geographicArea: ['AdministrativeArea'],
+    geoIntersects: ['GeospatialGeometry', 'Place'],
+    geoMidpoint: ['GeoCoordinates'],
+    geoOverlaps: ['GeospatialGeometry', 'Place'],
+    geoRadius: ['Distance', 'Number', 'Text'],
+    geoTouches: ['GeospatialGeometry', 'Place'],
+    geoWithin: ['GeospatialGeometry', 'Place'],
+    gettingTestedInfo: ['URL', 'WebContent'],
+    givenName: ['Text'],
+    globalLocationNumber: ['Text'],
+    governmentBenefitsInfo: ['GovernmentService'],
+    gracePeriod: ['Duration'],
+    grantee: ['Audience', 'ContactPoint', 'Organization', 'Person'],
+    greater: ['QualitativeValue'],
+    greaterOrEqual: ['QualitativeValue'],
+    gtin: ['Text', 'URL'],
+    gtin12: ['Text'],
+    gtin13: ['Text'],
+    gtin14: ['Text'],
+    gtin8: ['Text'],
+    guideline: ['MedicalGuideline'],
+    guidelineDate: ['Date'],
+    guidelineSubject: ['MedicalEntity'],
+    handlingTime: ['QuantitativeValue', 'ServicePeriod'],
+    hasAdultConsideration: ['AdultOrientedEnumeration'],
+    hasBioChemEntityPart: ['BioChemEntity'],
+    hasBioPolymerSequence: ['Text'],
+    hasBroadcastChannel: ['BroadcastChannel'],
+    hasCategoryCode: ['CategoryCode'],
+    hasCertification: ['Certification'],
+    hasCourse: ['Course'],
+    hasCourseInstance: ['CourseInstance'],
+    hasCredential: ['EducationalOccupationalCredential'],
+    hasDefinedTerm: ['DefinedTerm'],
+    hasDeliveryMethod: ['DeliveryMethod'],
+    hasDigitalDocumentPermission: ['DigitalDocumentPermission'],
+    hasDriveThroughService: ['Boolean'],
+    hasEnergyConsumptionDetails: ['EnergyConsumptionDetails'],
+    hasEnergyEfficiencyCategory: ['EnergyEfficiencyEnumeration'],
+    hasGS1DigitalLink: ['URL'],
+    hasHealthAspect: ['HealthAspectEnumeration'],
+    hasMap: ['Map', 'URL'],
+    hasMeasurement: ['QuantitativeValue'],
+    hasMemberProgram: ['MemberProgram'],
+    hasMenu: ['Menu', 'Text', 'URL'],
+    hasMenuItem: ['MenuItem'],
+    hasMenuSection: ['MenuSection'],
+    hasMerchantReturnPolicy: ['MerchantReturnPolicy'],
+    hasMolecularFunction: ['DefinedTerm', 'PropertyValue', 'URL'],
+    hasOccupation: ['Occupation'],
+    hasOfferCatalog: ['OfferCatalog'],
+    hasPart: ['CreativeWork'],
+    hasParticipationOffer: ['Offer'],
+    hasPOS: ['Place'],
+    hasRepresentation: ['PropertyValue', 'Text', 'URL'],
+    hasShippingService: ['ShippingService'],
+    hasSponsorshipOffer: ['Offer'],
+    hasStore: ['OnlineStore'],
+    hasTierBenefit: ['TierBenefitEnumeration'],
+    hasTierRequirement: ['CreditCard', 'MonetaryAmount', 'Text', 'UnitPriceSpecification'],
+    hasTiers: ['MemberProgramTier'],
+    hasVariant: ['Product'],
+    headline: ['Text'],
+    healthcareReportingData: ['CDCPMDRecord', 'Dataset'],
+    healthCondition: ['MedicalCondition'],
+    healthPlanCoinsuranceOption: ['Text'],
+    healthPlanCoinsuranceRate: ['Number'],
+    healthPlanCopay: ['PriceSpecification'],
+    healthPlanCopayOption: ['Text'],
+    healthPlanCostSharing: ['Boolean', 'HealthPlanCostSharingSpecification'],
+    healthPlanDrugOption: ['Text'],
+    healthPlanDrugTier: ['Text'],
+    healthPlanId: ['Text'],
+    healthPlanMarketingUrl: ['URL'],
+    healthPlanNetworkId: ['Text'],
+    healthPlanNetworkTier: ['Text'],
+    healthPlanPharmacyCategory: ['Text'],
+    height: ['Distance', 'QuantitativeValue'],
+    highPrice: ['Number', 'Text'],
+    hiringOrganization: ['Organization', 'Person'],
+    holdingArchive: ['ArchiveOrganization'],
+    homeLocation: ['ContactPoint', 'Place'],
+    homeTeam: ['Person', 'SportsTeam'],
+    honorificPrefix: ['Text'],
+    honorificSuffix: ['Text'],
+    hospitalAffiliation: ['Hospital'],
+    hostingOrganization: ['Organization'],
+    hoursAvailable: ['OpeningHoursSpecification'],
+    howPerformed: ['Text'],
+    httpMethod: ['Text'],
+    iataCode: ['Text'],
+    icaoCode: ['Text'],
+    identifier: ['PropertyValue', 'Text', 'URL'],
+    identifyingExam: ['PhysicalExam'],
+    identifyingTest: ['MedicalTest'],
+    illustrator: ['Person'],
+    image: ['ImageObject', 'URL'],
+    imagingTechnique: ['MedicalImagingTechnique'],
+    inAlbum: ['MusicAlbum'],
+    inBroadcastLineup: ['CableOrSatelliteService'],
+    incentiveAmount: ['LoanOrCredit', 'QuantitativeValue', 'UnitPriceSpecification'],
+    incentiveCompensation: ['Text'],
+    incentives: ['Text'],
+    incentiveStatus: ['IncentiveStatus'],
+    incentiveType: ['IncentiveType'],
+    incentivizedItem: ['DefinedTerm', 'Product'],
+    inChI: ['Text'],
+    inChIKey: ['Text'],
+    includedComposition: ['MusicComposition'],
+    includedDataCatalog: ['DataCatalog'],
+    includedInDataCatalog: ['DataCatalog'],
+    includedInHealthInsurancePlan: ['HealthInsurancePlan'],
+    includedRiskFactor: ['MedicalRiskFactor'],
+    includesAttraction: ['TouristAttraction'],
+    includesHealthPlanFormulary: ['HealthPlanFormulary'],
+    includesHealthPlanNetwork: ['HealthPlanNetwork'],
+    includesObject: ['TypeAndQuantityNode'],
+    inCodeSet: ['CategoryCodeSet', 'URL'],
+    incomeLimit: ['MonetaryAmount', 'Text'],
+    increasesRiskOf: ['MedicalEntity'],
+    inDefinedTermSet: ['DefinedTermSet', 'URL'],
+    industry: ['DefinedTerm', 'Text'],
+    ineligibleRegion: ['GeoShape', 'Place', 'Text'],
+    infectiousAgent: ['Text'],
+    infectiousAgentClass: ['InfectiousAgentClass'],
+    ingredients: ['Text'],
+    inker: ['Person'],
+    inLanguage: ['Language', 'Text'],
+    inPlaylist: ['MusicPlaylist'],
+    inProductGroupWithID: ['Text'],
+    insertion: ['AnatomicalStructure'],
+    installUrl: ['URL'],
+    inStoreReturnsOffered: ['Boolean'],
+    instructor: ['Person'],
+    instrument: ['Thing'],
+    inSupportOf: ['Text'],
+    intensity: ['QuantitativeValue', 'Text'],
+    interactingDrug: ['Drug'],
+    interactionCount: [],
+    interactionService: ['SoftwareApplication', 'WebSite'],
+    interactionStatistic: ['InteractionCounter'],
+    interactionType: ['Action'],
+    interactivityType: ['Text'],
+    interestRate: ['Number', 'QuantitativeValue'],
+    interpretedAsClaim: ['Claim'],
+    inventoryLevel: ['QuantitativeValue'],
+    inverseOf: ['Property'],
+    isAcceptingNewPatients: ['Boolean'],
+    isAccessibleForFree: ['Boolean'],
+    isAccessoryOrSparePartFor: ['Product'],
+    isAvailableGenerically: ['Boolean'],
+    isBasedOn: ['CreativeWork', 'Product', 'URL'],
+    isBasedOnUrl: ['CreativeWork', 'Product', 'URL'],
+    isbn: ['Text'],
+    isConsumableFor: ['Product'],
+    isEncodedByBioChemEntity: ['Gene'],
+    isFamilyFriendly: ['Boolean'],
+    isGift: ['Boolean'],
+    isicV4: ['Text'],
+    isInvolvedInBiologicalProcess: ['DefinedTerm', 'PropertyValue', 'URL'],
+    isLiveBroadcast: ['Boolean'],
+    isLocatedInSubcellularLocation: ['DefinedTerm', 'PropertyValue', 'URL'],
+    iso6523Code: ['Text'],
+    isPartOf: ['CreativeWork', 'URL'],
+    isPartOfBioChemEntity: ['BioChemEntity'],
+    isPlanForApartment: ['Accommodation'],
+    isProprietary: ['Boolean'],
+    isrcCode: ['Text'],
+    isRelatedTo: ['Product', 'Service'],
+    isResizable: ['Boolean'],
+    isSimilarTo: ['Product', 'Service'],
+    issn: ['Text'],
+    isStoreOn: ['OnlineMarketplace'],
+    issuedBy: ['Organization'],
+    issuedThrough: ['Service'],
+    issueNumber: ['Integer', 'Text'],
+    isTierOf: ['MemberProgram'],
+    isUnlabelledFallback: ['Boolean'],
+    isVariantOf: ['ProductGroup', 'ProductModel'],
+    iswcCode: ['Text'],
+    item: ['Thing'],
+    itemCondition: ['OfferItemCondition'],
+    itemDefectReturnFees: ['ReturnFeesEnumeration'],
+    itemDefectReturnLabelSource: ['ReturnLabelSourceEnumeration'],
+    itemDefectReturnShippingFeesAmount: ['MonetaryAmount'],
+    itemListElement: ['ListItem', 'Text', 'Thing'],
+    itemListOrder: ['ItemListOrderType', 'Text'],
+    itemLocation: ['Place', 'PostalAddress', 'Text'],
+    itemOffered: ['AggregateOffer', 'CreativeWork', 'Event', 'MenuItem', 'Product', 'Service', 'Trip'],
+    itemReviewed: ['Thing'],
+    itemShipped: ['Product'],
+    itinerary: ['ItemList', 'Place'],
+    iupacName: ['Text'],
+    jobBenefits: ['Text'],
+    jobImmediateStart: ['Boolean'],
+    jobLocation: ['Place'],
+    jobLocationType: ['Text'],
+    jobStartDate: ['Date', 'Text'],
+    jobTitle: ['DefinedTerm', 'Text'],
+    jurisdiction: ['AdministrativeArea', 'Text'],
+    keywords: ['DefinedTerm', 'Text', 'URL'],
+    knownVehicleDamages: ['Text'],
+    knows: ['Person'],
+    knowsAbout: ['Text', 'Thing', 'URL'],
+    knowsLanguage: ['Language', 'Text'],
+    labelDetails: ['URL'],
+    landlord: ['Organization', 'Person'],
+    language: ['Language'],
+    lastReviewed: ['Date'],
+    latitude: ['Number', 'Text'],
+    layoutImage: ['ImageObject', 'URL'],
+    learningResourceType: ['DefinedTerm', 'Text'],
+    leaseLength: ['Duration', 'QuantitativeValue'],
+    legalAddress: ['PostalAddress'],
+    legalName: ['Text'],
+    legalRepresentative: ['Person'],
+    legalStatus: ['DrugLegalStatus', 'MedicalEnumeration', 'Text'],
+    legislationAmends: ['Legislation'],
+    legislationApplies: ['Legislation'],
+    legislationChanges: ['Legislation'],
+    legislationCommences: ['Legislation'],
+    legislationConsolidates: ['Legislation'],
+    legislationCorrects: ['Legislation'],
+    legislationCountersignedBy: ['Organization', 'Person'],
+    legislationDate: ['Date'],
+    legislationDateOfApplicability: ['Date'],
+    legislationDateVersion: ['Date'],
+    legislationEnsuresImplementationOf: ['Legislation'],
+    legislationIdentifier: ['Text', 'URL'],
+    legislationJurisdiction: ['AdministrativeArea', 'Text'],
+    legislationLegalForce: ['LegalForceStatus'],
+    legislationLegalValue: ['LegalValueLevel'],
+    legislationPassedBy: ['Organization', 'Person'],
+    legislationRepeals: ['Legislation'],
+    legislationResponsible: ['Organization', 'Person'],
+    legislationTransposes: ['Legislation'],
+    legislationType: ['CategoryCode', 'Text'],
+    leiCode: ['Text'],
+    lender: ['Organization', 'Person'],
+    lesser: ['QualitativeValue'],
+    lesserOrEqual: ['QualitativeValue'],
+    letterer: ['Person'],
+    license: ['CreativeWork', 'URL'],
+    lifeEvent: ['Event'],
+    line: ['Text'],
+    linkRelationship: ['Text'],
+    liveBlogUpdate: ['BlogPosting'],
+    loanMortgageMandateAmount: ['MonetaryAmount'],
+    loanPaymentAmount: ['MonetaryAmount'],
+    loanPaymentFrequency: ['Number'],
+    loanRepaymentForm: ['RepaymentSpecification'],
+    loanTerm: ['QuantitativeValue'],
+    loanType: ['Text', 'URL'],
+    location: ['Place', 'PostalAddress', 'Text', 'VirtualLocation'],
+    locationCreated: ['Place'],
+    lodgingUnitDescription: ['Text'],
+    lodgingUnitType: ['QualitativeValue', 'Text'],
+    logo: ['ImageObject', 'URL'],
+    longitude: ['Number', 'Text'],
+    loser: ['Person'],
+    lowPrice: ['Number', 'Text'],
+    lyricist: ['Person'],
+    lyrics: ['CreativeWork'],
+    mainContentOfPage: ['WebPageElement'],
+    mainEntity: ['Thing'],
+    mainEntityOfPage: ['CreativeWork', 'URL'],
+    maintainer: ['Organization', 'Person'],
+    makesOffer: ['Offer'],
+    manufacturer: ['Organization'],
+    map: ['URL'],
+    maps: ['URL'],
+    mapType: ['MapCategoryType'],
+    marginOfError: ['QuantitativeValue'],
+    masthead: ['CreativeWork', 'URL'],
+    material: ['Product', 'Text', 'URL'],
+    materialExtent: ['QuantitativeValue', 'Text'],
+    mathExpression: ['SolveMathAction', 'Text'],
+    maximumAttendeeCapacity: ['Integer'],
+    maximumEnrollment: ['Integer'],
+    maximumIntake: ['MaximumDoseSchedule'],
+    maximumPhysicalAttendeeCapacity: ['Integer'],
+    maximumVirtualAttendeeCapacity: ['Integer'],
+    maxPrice: ['Number'],
+    maxValue: ['Number'],
+    mealService: ['Text'],
+    measuredProperty: ['Property'],
+    measurementDenominator: ['StatisticalVariable'],
+    measurementMethod: ['DefinedTerm', 'MeasurementMethodEnum', 'Text', 'URL'],
+    measurementQualifier: ['Enumeration'],
+    measurementTechnique: ['DefinedTerm', 'MeasurementMethodEnum', 'Text', 'URL'],
+    mechanismOfAction: ['Text'],
+    mediaAuthenticityCategory: ['MediaManipulationRatingEnumeration'],
+    mediaItemAppearance: ['MediaObject'],
+    median: ['Number'],
+    medicalAudience: ['MedicalAudience', 'MedicalAudienceType'],
+    medicalSpecialty: ['MedicalSpecialty'],
+    medicineSystem: ['MedicineSystem'],
+    meetsEmissionStandard: ['QualitativeValue', 'Text', 'URL'],
+    member: ['Organization', 'Person'],
+    memberOf: ['MemberProgramTier', 'Organization', 'ProgramMembership'],
+    members: ['Organization', 'Person'],
+    membershipNumber: ['Text'],
+    membershipPointsEarned: ['Number', 'QuantitativeValue'],
+    memoryRequirements: ['Text', 'URL'],
+    mentions: ['Thing'],
+    menu: ['Menu', 'Text', 'URL'],
+    menuAddOn: ['MenuItem', 'MenuSection'],
+    merchant: ['Organization', 'Person'],
+    merchantReturnDays: ['Date', 'DateTime', 'Integer'],
+    merchantReturnLink: ['URL'],
+    messageAttachment: ['CreativeWork'],
+    mileageFromOdometer: ['QuantitativeValue'],
+    minimumPaymentDue: ['MonetaryAmount', 'PriceSpecification'],
+    minPrice: ['Number'],
+    minValue: ['Number'],
+    missionCoveragePrioritiesPolicy: ['CreativeWork', 'URL'],
+    mobileUrl: ['Text'],
+    model: ['ProductModel', 'Text'],
+    modelDate: ['Date'],
+    modifiedTime: ['DateTime'],
+    molecularFormula: ['Text'],
+    molecularWeight: ['QuantitativeValue', 'Text'],
+    monoisotopicMolecularWeight: ['QuantitativeValue', 'Text'],
+    monthlyMinimumRepaymentAmount: ['MonetaryAmount', 'Number'],
+    monthsOfExperience: ['Number'],
+    mpn: ['Text'],
+    multipleValues: ['Boolean'],
+    muscleAction: ['Text'],
+    musicalKey: ['Text'],
+    musicArrangement: ['MusicComposition'],
+    musicBy: ['MusicGroup', 'Person'],
+    musicCompositionForm: ['Text'],
+    musicGroupMember: ['Person'],
+    musicReleaseFormat: ['MusicReleaseFormatType'],
+    naics: ['Text'],
+    name: ['Text'],
+    namedPosition: ['Text', 'URL'],
+    nationality: ['Country'],
+    naturalProgression: ['Text'],
+    negativeNotes: ['ItemList', 'ListItem', 'Text', 'WebContent'],
+    nerve: ['Nerve'],
+    nerveMotor: ['Muscle'],
+    netWorth: ['MonetaryAmount', 'PriceSpecification'],
+    newsUpdatesAndGuidelines: ['URL', 'WebContent'],
+    nextItem: ['ListItem'],
+    noBylinesPolicy: ['CreativeWork', 'URL'],
+    nonEqual: ['QualitativeValue'],
+    nonprofitStatus: ['NonprofitType'],
+    nonProprietaryName: ['Text'],
+    normalRange: ['MedicalEnumeration', 'Text'],
+    nsn: ['Text'],
+    numAdults: ['Integer', 'QuantitativeValue'],
+    numberedPosition: ['Number'],
+    numberOfAccommodationUnits: ['QuantitativeValue'],
+    numberOfAirbags: ['Number', 'Text'],
+    numberOfAvailableAccommodationUnits: ['QuantitativeValue'],
+    numberOfAxles: ['Number', 'QuantitativeValue'],
+    numberOfBathroomsTotal: ['Integer'],
+    numberOfBedrooms: ['Number', 'QuantitativeValue'],
+    numberOfBeds: ['Number'],
+    numberOfCredits: ['Integer', 'StructuredValue'],
+    numberOfDoors: ['Number', 'QuantitativeValue'],
+    numberOfEmployees: ['QuantitativeValue'],
+    numberOfEpisodes: ['Integer'],
+    numberOfForwardGears: ['Number', 'QuantitativeValue'],
+    numberOfFullBathrooms: ['Number'],
+    numberOfItems: ['Integer'],
+    numberOfLoanPayments: ['Number'],
+    numberOfPages: ['Integer'],
+    numberOfPartialBathrooms: ['Number'],
+    numberOfPlayers: ['QuantitativeValue'],
+    numberOfPreviousOwners: ['Number', 'QuantitativeValue'],
+    numberOfRooms: ['Number', 'QuantitativeValue'],
+    numberOfSeasons: ['Integer'],
+    numChildren: ['Integer', 'QuantitativeValue'],
+    numConstraints: ['Integer'],
+    numItems: ['QuantitativeValue'],
+    numTracks: ['Integer'],
+    nutrition: ['NutritionInformation'],
+    object: ['Thing'],
+    observationAbout: ['Place', 'Thing'],
+    observationDate: ['Date', 'DateTime'],
+    observationPeriod: ['Text'],
+    occupancy: ['QuantitativeValue'],
+    occupationalCategory: ['CategoryCode', 'Text'],
+    occupationalCredentialAwarded: ['EducationalOccupationalCredential', 'Text', 'URL'],
+    occupationLocation: ['AdministrativeArea'],
+    offerCount: ['Integer'],
+    offeredBy: ['Organization', 'Person'],
+    offers: ['Demand', 'Offer'],
+    offersPrescriptionByMail: ['Boolean'],
+    openingHours: ['Text'],
+    openingHoursSpecification: ['OpeningHoursSpecification'],
+    opens: ['Time'],
+    operatingSystem: ['OperatingSystem', 'Text'],
+    opponent: ['Person'],
+    option: ['Text', 'Thing'],
+    orderDate: ['Date', 'DateTime'],
+    orderDelivery: ['ParcelDelivery'],
+    orderedItem: ['OrderItem', 'Product', 'Service'],
+    orderItemNumber: ['Text'],
+    orderItemStatus: ['OrderStatus'],
+    orderNumber: ['Text'],
+    orderPercentage: ['Number'],
+    orderQuantity: ['Number', 'QuantitativeValue'],
+    orderStatus: ['OrderStatus'],
+    orderValue: ['MonetaryAmount'],
+    organizer: ['Organization', 'Person'],
+    originAddress: ['PostalAddress'],
+    originalMediaContextDescription: ['Text'],
+    originalMediaLink: ['MediaObject', 'URL', 'WebPage'],
+    originatesFrom: ['Vessel'],
+    overdosage: ['Text'],
+    ownedFrom: ['DateTime'],
+    ownedThrough: ['DateTime'],
+    owner: ['Organization', 'Person'],
+    ownershipFundingInfo: ['AboutPage', 'CreativeWork', 'Text', 'URL'],
+    owns: ['Thing'],
+    pageEnd: ['Integer', 'Text'],
+    pageStart: ['Integer', 'Text'],
+    pagination: ['Text'],
+    parent: ['Person'],
+    parentItem: ['Comment', 'CreativeWork'],
+    parentOrganization: ['Organization'],
+    parents: ['Person'],
+    parentService: ['BroadcastService'],
+    parentTaxon: ['Taxon', 'Text', 'URL'],
+    participant: ['Organization', 'Person'],
+    partOfEpisode: ['Episode'],
+    partOfInvoice: ['Invoice'],
+    partOfOrder: ['Order'],
+    partOfSeason: ['CreativeWorkSeason'],
+    partOfSeries: ['CreativeWorkSeries'],
+    partOfSystem: ['AnatomicalSystem'],
+    partOfTrip: ['Trip'],
+    partOfTVSeries: ['TVSeries'],
+    partySize: ['Integer', 'QuantitativeValue'],
+    passengerPriorityStatus: ['QualitativeValue', 'Text'],
+    passengerSequenceNumber: ['Text'],
+    pathophysiology: ['Text'],
+    pattern: ['DefinedTerm', 'Text'],
+    payload: ['QuantitativeValue'],
+    paymentAccepted: ['Text'],
+    paymentDue: ['DateTime'],
+    paymentDueDate: ['Date', 'DateTime'],
+    paymentMethod: ['PaymentMethod', 'Text'],
+    paymentMethodId: ['Text'],
+    paymentMethodType: ['PaymentMethodType'],
+    paymentStatus: ['PaymentStatusType', 'Text'],
+    paymentUrl: ['URL'],
+    penciler: ['Person'],
+    percentile10: ['Number'],
+    percentile25: ['Number'],
+    percentile75: ['Number'],
+    percentile90: ['Number'],
+    performer: ['Organization', 'Person'],
+    performerIn: ['Event'],
+    performers: ['Organization', 'Person'],
+    performTime: ['Duration'],
+    permissions: ['Text'],
+    permissionType: ['DigitalDocumentPermissionType'],
+    permitAudience: ['Audience'],
+    permittedUsage: ['Text'],
+    petsAllowed: ['Boolean', 'Text'],
+    phoneticText: ['Text'],
+    photo: ['ImageObject', 'Photograph'],
+    photos: ['ImageObject', 'Photograph'],
+    physicalRequirement: ['DefinedTerm', 'Text', 'URL'],
+    physiologicalBenefits: ['Text'],
+    pickupLocation: ['Place'],
+    pickupTime: ['DateTime'],
+    playersOnline: ['Integer'],
+    playerType: ['Text'],
+    playMode: ['GamePlayMode'],
+    polygon: ['Text'],
+    populationType: ['Class'],
+    position: ['Integer', 'Text'],
+    positiveNotes: ['ItemList', 'ListItem', 'Text', 'WebContent'],
+    possibleComplication: ['Text'],
+    possibleTreatment: ['Drug', 'DrugClass', 'LifestyleModification', 'MedicalTherapy'],
+    postalCode: ['Text'],
+    postalCodeBegin: ['Text'],
+    postalCodeEnd: ['Text'],
+    postalCodePrefix: ['Text'],
+    postalCodeRange: ['PostalCodeRangeSpecification'],
+    postOfficeBoxNumber: ['Text'],
+    postOp: ['Text'],
+    potentialAction: ['Action'],
+    potentialUse: ['DefinedTerm'],
+    practicesAt: ['MedicalOrganization'],
+    predecessorOf: ['ProductModel'],
+    pregnancyCategory: ['DrugPregnancyCategory'],
+    pregnancyWarning: ['Text'],
+    preOp: ['Text'],
+    preparation: ['MedicalEntity', 'Text'],
+    prepTime: ['Duration'],
+    prescribingInfo: ['URL'],
+    prescriptionStatus: ['DrugPrescriptionStatus', 'Text'],
+    previousItem: ['ListItem'],
+    previousStartDate: ['Date'],
+    price: ['Number', 'Text'],
+    priceComponent: ['PriceSpecification'],
+    priceComponentType: ['PriceComponentTypeEnumeration'],
+    priceCurrency: ['Text'],
+    priceRange: ['Text'],
+    priceSpecification: ['PriceSpecification'],
+    priceType: ['PriceTypeEnumeration', 'Text'],
+    priceValidUntil: ['Date'],
+    primaryImageOfPage: ['ImageObject'],
+    primaryPrevention: ['MedicalTherapy'],
+    printColumn: ['Text'],
+    printEdition: ['Text'],
+    printPage: ['Text'],
+    printSection: ['Text'],
+    procedure: ['Text'],
+    procedureType: ['MedicalProcedureType'],
+    processingTime: ['Duration'],
+    processorRequirements: ['Text'],
+    producer: ['Organization', 'Person'],
+    produces: ['Thing'],
+    productGroupID: ['Text'],
+    productID: ['Text'],
+    productionCompany: ['Organization'],
+    productionDate: ['Date'],
+    productSupported: ['Product', 'Text'],
+    proficiencyLevel: ['Text'],
+    program: ['MemberProgram'],
+    programMembershipUsed: ['ProgramMembership'],
+    programmingLanguage: ['ComputerLanguage', 'Text'],
+    programmingModel: ['Text'],
+    programName: ['Text'],
+    programPrerequisites: ['AlignmentObject', 'Course', 'EducationalOccupationalCredential', 'Text'],
+    programType: ['DefinedTerm', 'Text'],
+    pronouns: ['DefinedTerm', 'StructuredValue', 'Text'],
+    propertyID: ['Text', 'URL'],
+    proprietaryName: ['Text'],
+    proteinContent: ['Mass'],
+    provider: ['Organization', 'Person'],
+    providerMobility: ['Text'],
+    providesBroadcastService: ['BroadcastService'],
+    providesService: ['Service'],
+    publicAccess: ['Boolean'],
+    publication: ['PublicationEvent'],
+    publicationType: ['Text'],
+    publicTransportClosuresInfo: ['URL', 'WebContent'],
+    publishedBy: ['Organization', 'Person'],
+    publishedOn: ['BroadcastService'],
+    publisher: ['Organization', 'Person'],
+    publisherImprint: ['Organization'],
+    publishingPrinciples: ['CreativeWork', 'URL'],
+    purchaseDate: ['Date'],
+    purchasePriceLimit: ['MonetaryAmount'],
+    purchaseType: ['PurchaseType'],
+    qualifications: ['EducationalOccupationalCredential', 'Text'],
+    qualifiedExpense: ['IncentiveQualifiedExpenseType'],
+    quarantineGuidelines: ['URL', 'WebContent'],
+    query: ['Text'],
+    quest: ['Thing'],
+    question: ['Question'],
+    rangeIncludes: ['Class'],
+    ratingCount: ['Integer'],
+    ratingExplanation: ['Text'],
+    ratingValue: ['Number', 'Text'],
+    readBy: ['Person'],
+    readonlyValue: ['Boolean'],
+    realEstateAgent: ['RealEstateAgent'],
+    recipe: ['Recipe'],
+    recipeCategory: ['Text'],
+    recipeCuisine: ['Text'],
+    recipeIngredient: ['ItemList', 'PropertyValue', 'Text'],
+    recipeInstructions: ['CreativeWork', 'ItemList', 'Text'],
+    recipeYield: ['QuantitativeValue', 'Text'],
+    recipient: ['Audience', 'ContactPoint', 'Organization', 'Person'],
+    recognizedBy: ['Organization'],
+    recognizingAuthority: ['Organization'],
+    recommendationStrength: ['Text'],
+    recommendedIntake: ['RecommendedDoseSchedule'],
+    recordedAs: ['MusicRecording'],
+    recordedAt: ['Event'],
+    recordedIn: ['CreativeWork'],
+    recordingOf: ['MusicComposition'],
+    recordLabel: ['Organization'],
+    recourseLoan: ['Boolean'],
+    referee: ['Person'],
+    referenceQuantity: ['QuantitativeValue'],
+    referencesOrder: ['Order'],
+    refundType: ['RefundTypeEnumeration'],
+    regionDrained: ['AnatomicalStructure', 'AnatomicalSystem'],
+    regionsAllowed: ['Place'],
+    relatedAnatomy: ['AnatomicalStructure', 'AnatomicalSystem'],
+    relatedCondition: ['MedicalCondition'],
+    relatedDrug: ['Drug'],
+    relatedLink: ['URL'],
+    relatedStructure: ['AnatomicalStructure'],
+    relatedTherapy: ['MedicalTherapy'],
+    relatedTo: ['Person'],
+    releaseDate: ['Date'],
+    releasedEvent: ['PublicationEvent'],
+    releaseNotes: ['Text', 'URL'],
+    releaseOf: ['MusicAlbum'],
+    relevantOccupation: ['Occupation'],
+    relevantSpecialty: ['MedicalSpecialty'],
+    remainingAttendeeCapacity: ['Integer'],
+    renegotiableLoan: ['Boolean'],
+    repeatCount: ['Integer'],
+    repeatFrequency: ['Duration', 'Text'],
+    repetitions: ['Number', 'QuantitativeValue'],
+    replacee: ['Thing'],
+    replacer: ['Thing'],
+    replyToUrl: ['URL'],
+    reportNumber: ['Text'],
+    representativeOfPage: ['Boolean'],
+    requiredCollateral: ['Text', 'Thing'],
+    requiredGender: ['Text'],
+    requiredMaxAge: ['Integer'],
+    requiredMinAge: ['Integer'],
+    requiredQuantity: ['Number', 'QuantitativeValue', 'Text'],
+    requirements: ['Text', 'URL'],
+    requiresSubscription: ['Boolean', 'MediaSubscription'],
+    reservationFor: ['Thing'],
+    reservationId: ['Text'],
+    reservationStatus: ['ReservationStatusType'],
+    reservedTicket: ['Ticket'],
+    responsibilities: ['Text'],
+    restockingFee: ['MonetaryAmount', 'Number'],
+    restPeriods: ['QuantitativeValue', 'Text'],
+    result: ['Thing'],
+    resultComment: ['Comment'],
+    resultReview: ['Review'],
+    returnFees: ['ReturnFeesEnumeration'],
+    returnLabelSource: ['ReturnLabelSourceEnumeration'],
+    returnMethod: ['ReturnMethodEnumeration'],
+    returnPolicyCategory: ['MerchantReturnEnumeration'],
+    returnPolicyCountry: ['Country', 'Text'],
+    returnPolicySeasonalOverride: ['MerchantReturnPolicySeasonalOverride'],
+    returnShippingFeesAmount: ['MonetaryAmount'],
+    review: ['Review'],
+    reviewAspect: ['StructuredValue', 'Text'],
+    reviewBody: ['Text'],
+    reviewCount: ['Integer'],
+    reviewedBy: ['Organization', 'Person'],
+    reviewRating: ['Rating'],
+    reviews: ['Review'],
+    riskFactor: ['MedicalRiskFactor'],
+    risks: ['Text'],
+    roleName: ['Text', 'URL'],
+    roofLoad: ['QuantitativeValue'],
+    rsvpResponse: ['RsvpResponseType'],
+    runsTo: ['Vessel'],
+    runtime: ['Text'],
+    runtimePlatform: ['RuntimePlatform', 'Text'],
+    rxcui: ['Text'],
+    safetyConsideration: ['Text'],
+    salaryCurrency: ['Text'],
+    salaryUponCompletion: ['MonetaryAmountDistribution'],
+    sameAs: ['URL'],
+    sampleType: ['Text'],
+    saturatedFatContent: ['Mass'],
+    scheduledPaymentDate: ['Date'],
+    scheduledTime: ['Date', 'DateTime'],
+    scheduleTimezone: ['Text'],
+    schemaVersion: ['Text', 'URL'],
+    schoolClosuresInfo: ['URL', 'WebContent'],
+    screenCount: ['Number'],
+    screenshot: ['ImageObject', 'URL'],
+    sdDatePublished: ['Date'],
+    sdLicense: ['CreativeWork', 'URL'],
+    sdPublisher: ['Organization', 'Person'],
+    season: ['CreativeWorkSeason', 'URL'],
+    seasonalOverride: ['OpeningHoursSpecification'],
+    seasonNumber: ['Integer', 'Text'],
+    seasons: ['CreativeWorkSeason'],
+    seatingCapacity: ['Number', 'QuantitativeValue'],
+    seatingType: ['QualitativeValue', 'Text'],
+    seatNumber: ['Text'],
+    seatRow: ['Text'],
+    seatSection: ['Text'],
+    secondaryPrevention: ['Drug', 'DrugClass', 'LifestyleModification', 'MedicalTherapy'],
+    securityClearanceRequirement: ['Text', 'URL'],
+    securityScreening: ['Text'],
+    seeks: ['Demand'],
+    seller: ['Organization', 'Person'],
+    sender: ['Audience', 'Organization', 'Person'],
+    sensoryRequirement: ['DefinedTerm', 'Text', 'URL'],
+    sensoryUnit: ['AnatomicalStructure', 'SuperficialAnatomy'],
+    serialNumber: ['Text'],
+    seriousAdverseOutcome: ['MedicalEntity'],
+    serverStatus: ['GameServerStatus'],
+    servesCuisine: ['Text'],
+    serviceArea: ['AdministrativeArea', 'GeoShape', 'Place'],
+    serviceAudience: ['Audience'],
+    serviceLocation: ['Place'],
+    serviceOperator: ['Organization'],
+    serviceOutput: ['Thing'],
+    servicePhone: ['ContactPoint'],
+    servicePostalAddress: ['PostalAddress'],
+    serviceSmsNumber: ['ContactPoint'],
+    serviceType: ['GovernmentBenefitsType', 'Text'],
+    serviceUrl: ['URL'],
+    servingSize: ['Text'],
+    sha256: ['Text'],
+    sharedContent: ['CreativeWork'],
+    shippingConditions: ['ShippingConditions'],
+    shippingDestination: ['DefinedRegion'],
+    shippingDetails: ['OfferShippingDetails'],
+    shippingOrigin: ['DefinedRegion'],
+    shippingRate: ['MonetaryAmount', 'ShippingRateSettings'],
+    sibling: ['Person'],
+    siblings: ['Person'],
+    signDetected: ['MedicalSign'],
+    significance: ['Text'],
+    significantLink: ['URL'],
+    significantLinks: ['URL'],
+    signOrSymptom: ['MedicalSignOrSymptom'],
+    size: ['DefinedTerm', 'QuantitativeValue', 'SizeSpecification', 'Text'],
+    sizeGroup: ['SizeGroupEnumeration', 'Text'],
+    sizeSystem: ['SizeSystemEnumeration', 'Text'],
+    skills: ['DefinedTerm', 'Text'],
+    sku: ['Text'],
+    slogan: ['Text'],
+    smiles: ['Text'],
+    smokingAllowed: ['Boolean'],
+    sodiumContent: ['Mass'],
+    softwareAddOn: ['SoftwareApplication'],
+    softwareHelp: ['CreativeWork'],
+    softwareRequirements: ['SoftwareApplication', 'Text', 'URL'],
+    softwareVersion: ['Text'],
+    source: ['Thing'],
+    sourcedFrom: ['BrainStructure'],
+    sourceOrganization: ['Organization'],
+    spatial: ['Place'],
+    spatialCoverage: ['Place'],
+    speakable: ['SpeakableSpecification', 'URL'],
+    specialCommitments: ['Text'],
+    specialOpeningHoursSpecification: ['OpeningHoursSpecification'],
+    specialty: ['Specialty'],
+    speechToTextMarkup: ['Text'],
+    speed: ['QuantitativeValue'],
+    spokenByCharacter: ['Organization', 'Person'],
+    sponsor: ['Organization', 'Person'],
+    sport: ['Text', 'URL'],
+    sportsActivityLocation: ['SportsActivityLocation'],
+    sportsEvent: ['SportsEvent'],
+    sportsTeam: ['SportsTeam'],
+    spouse: ['Person'],
+    stage: ['MedicalConditionStage'],
+    stageAsNumber: ['Number'],
+    starRating: ['Rating'],
+    startDate: ['Date', 'DateTime'],
+    startOffset: ['HyperTocEntry', 'Number'],
+    startTime: ['DateTime', 'Time'],
+    statType: ['Property', 'Text', 'URL'],
+    status: ['EventStatusType', 'MedicalStudyStatus', 'Text'],
+    steeringPosition: ['SteeringPositionValue'],
+    step: ['CreativeWork', 'HowToSection', 'HowToStep', 'Text'],
+    steps: ['CreativeWork', 'ItemList', 'Text'],
+    stepValue: ['Number'],
+    storageRequirements: ['Text', 'URL'],
+    streetAddress: ['Text'],
+    strengthUnit: ['Text'],
+    strengthValue: ['Number'],
+    structuralClass: ['Text'],
+    study: ['MedicalStudy'],
+    studyDesign: ['MedicalObservationalStudyDesign'],
+    studyLocation: ['AdministrativeArea'],
+    studySubject: ['MedicalEntity'],
+    subEvent: ['Event'],
+    subEvents: ['Event'],
+    subjectOf: ['CreativeWork', 'Event'],
+    subOrganization: ['Organization'],
+    subReservation: ['Reservation'],
+    subStageSuffix: ['Text'],
+    subStructure: ['AnatomicalStructure'],
+    subTest: ['MedicalTest'],
+    subtitleLanguage: ['Language', 'Text'],
+    subTrip: ['Trip'],
+    successorOf: ['ProductModel'],
+    sugarContent: ['Mass'],
+    suggestedAge: ['QuantitativeValue'],
+    suggestedAnswer: ['Answer', 'ItemList'],
+    suggestedGender: ['GenderType', 'Text'],
+    suggestedMaxAge: ['Number'],
+    suggestedMeasurement: ['QuantitativeValue'],
+    suggestedMinAge: ['Number'],
+    suitableForDiet: ['RestrictedDiet'],
+    superEvent: ['Event'],
+    supersededBy: ['Class', 'Enumeration', 'Property'],
+    supply: ['HowToSupply', 'Text'],
+    supplyTo: ['AnatomicalStructure'],
+    supportingData: ['DataFeed'],
+    surface: ['Text', 'URL'],
+    syllabusSections: ['Syllabus'],
+    target: ['EntryPoint', 'URL'],
+    targetCollection: ['Thing'],
+    targetDescription: ['Text'],
+    targetName: ['Text'],
+    targetPlatform: ['Text'],
+    targetPopulation: ['Text'],
+    targetProduct: ['SoftwareApplication'],
+    targetUrl: ['URL'],
+    taxID: ['Text'],
+    taxonomicRange: ['DefinedTerm', 'Taxon', 'Text', 'URL'],
+    taxonRank: ['PropertyValue', 'Text', 'URL'],
+    teaches: ['DefinedTerm', 'Text'],
+    telephone: ['Text'],
+    temporal: ['DateTime', 'Text'],
+    temporalCoverage: ['DateTime', 'Text', 'URL'],
+    termCode: ['Text'],
+    termDuration: ['Duration'],
+    termsOfService: ['Text', 'URL'],
+    termsPerYear: ['Number'],
+    text: ['Text'],
+    textValue: ['Text'],
+    thumbnail: ['ImageObject'],
+    thumbnailUrl: ['URL'],
+    tickerSymbol: ['Text'],
+    ticketedSeat: ['Seat'],
+    ticketNumber: ['Text'],
+    ticketToken: ['Text', 'URL'],
+    timeOfDay: ['Text'],
+    timeRequired: ['Duration'],
+    timestamp: ['DateTime'],
+    timeToComplete: ['Duration'],
+    tissueSample: ['Text'],
+    title: ['Text'],
+    titleEIDR: ['Text', 'URL'],
+    tocContinuation: ['HyperTocEntry'],
+    tocEntry: ['HyperTocEntry'],
+    toLocation: ['Place'],
+    tongueWeight: ['QuantitativeValue'],
+    tool: ['HowToTool', 'Text'],
+    toRecipient: ['Audience', 'ContactPoint', 'Organization', 'Person'],
+    torque: ['QuantitativeValue'],
+    totalHistoricalEnrollment: ['Integer'],
+    totalJobOpenings: ['Integer'],
+    totalPaymentDue: ['MonetaryAmount', 'PriceSpecification'],
+    totalPrice: ['Number', 'PriceSpecification', 'Text'],
+    totalTime: ['Duration'],
+    tourBookingPage: ['URL'],
+    touristType: ['Audience', 'Text'],
+    track: ['ItemList', 'MusicRecording'],
+    trackingNumber: ['Text'],
+    trackingUrl: ['URL'],
+    tracks: ['MusicRecording'],
+    trailer: ['VideoObject'],
+    trailerWeight: ['QuantitativeValue'],
+    trainingSalary: ['MonetaryAmountDistribution'],
+    trainName: ['Text'],
+    trainNumber: ['Text'],
+    transcript: ['Text'],
+    transFatContent: ['Mass'],
+    transitTime: ['QuantitativeValue', 'ServicePeriod'],
+    translationOfWork: ['CreativeWork'],
+    translator: ['Organization', 'Person'],
+    transmissionMethod: ['Text'],
+    travelBans: ['URL', 'WebContent'],
+    trialDesign: ['MedicalTrialDesign'],
+    tributary: ['AnatomicalStructure'],
+    tripOrigin: ['Place'],
+    typeOfBed: ['BedType', 'Text'],
+    typeOfGood: ['Product', 'Service'],
+    typicalAgeRange: ['Text'],
+    typicalCreditsPerTerm: ['Integer', 'StructuredValue'],
+    typicalTest: ['MedicalTest'],
+    underName: ['Organization', 'Person'],
+    unitCode: ['Text', 'URL'],
+    unitText: ['Text'],
+    unnamedSourcesPolicy: ['CreativeWork', 'URL'],
+    unsaturatedFatContent: ['Mass'],
+    uploadDate: ['Date', 'DateTime'],
+    upvoteCount: ['Integer'],
+    url: ['URL'],
+    urlTemplate: ['Text'],
+    usageInfo: ['CreativeWork', 'URL'],
+    usedToDiagnose: ['MedicalCondition'],
+    userInteractionCount: ['Integer'],
+    usesDevice: ['MedicalDevice'],
+    usesHealthPlanIdStandard: ['Text', 'URL'],
+    usNPI: ['Text'],
+    utterances: ['Text'],
+    validFor: ['Duration'],
+    validForMemberTier: ['MemberProgramTier'],
+    validFrom: ['Date', 'DateTime'],
+    validIn: ['AdministrativeArea'],
+    validThrough: ['Date', 'DateTime'],
+    validUntil: ['Date'],
+    value: ['Boolean', 'Number', 'StructuredValue', 'Text'],
+    valueAddedTaxIncluded: ['Boolean'],
+    valueMaxLength: ['Number'],
+    valueMinLength: ['Number'],
+    valueName: ['Text'],
+    valuePattern: ['Text'],
+    valueReference: [
+      'DefinedTerm', 'Enumeration', 'MeasurementTypeEnumeration', 'PropertyValue', 'QualitativeValue',
+      'QuantitativeValue', 'StructuredValue', 'Text'
+    ],
+    valueRequired: ['Boolean'],
+    variableMeasured: ['Property', 'PropertyValue', 'StatisticalVariable', 'Text'],
+    variantCover: ['Text'],
+    variesBy: ['DefinedTerm', 'Text'],
+    vatID: ['Text'],
+    vehicleConfiguration: ['Text'],
+    vehicleEngine: ['EngineSpecification'],
+    vehicleIdentificationNumber: ['Text'],
+    vehicleInteriorColor: ['Text'],
+    vehicleInteriorType: ['Text'],
+    vehicleModelDate: ['Date'],
+    vehicleSeatingCapacity: ['Number', 'QuantitativeValue'],
+    vehicleSpecialUsage: ['CarUsageType', 'Text'],
+    vehicleTransmission: ['QualitativeValue', 'Text', 'URL'],
+    vendor: ['Organization', 'Person'],
+    verificationFactCheckingPolicy: ['CreativeWork', 'URL'],
+    version: ['Number', 'Text'],
+    video: ['Clip', 'VideoObject'],
+    videoFormat: ['Text'],
+    videoFrameSize: ['Text'],
+    videoQuality: ['Text'],
+    volumeNumber: ['Integer', 'Text'],
+    warning: ['Text', 'URL'],
+    warranty: ['WarrantyPromise'],
+    warrantyPromise: ['WarrantyPromise'],
+    warrantyScope: ['WarrantyScope'],
+    webCheckinTime: ['DateTime'],
+    webFeed: ['DataFeed', 'URL'],
+    weight: ['Mass', 'QuantitativeValue'],
+    weightPercentage: ['Number'],
+    weightTotal: ['QuantitativeValue'],
+    wheelbase: ['QuantitativeValue'],
+    width: ['Distance', 'QuantitativeValue'],
+    winner: ['Person'],
+    wordCount: ['Integer'],
+    workExample: ['CreativeWork'],
+    workFeatured: ['CreativeWork'],
+    workHours: ['Text'],
+    workload: ['Energy', 'QuantitativeValue'],
+    workLocation: ['ContactPoint', 'Place'],
+    workPerformed: ['CreativeWork'],
+    workPresented: ['Movie'],
+    worksFor: ['Organization'],
+    workTranslation: ['CreativeWork'],
+    worstRating: ['Number', 'Text'],
+    xpath: ['XPathType'],
+    yearBuilt: ['Number'],
+    yearlyRevenue: ['QuantitativeValue'],
+    yearsInOperation: ['QuantitativeValue'],
+    yield: ['QuantitativeValue', 'Text']
+  },
+
+  enumerationMembers: {
+    ActionStatusType: [
+      'ActiveActionStatus', 'CompletedActionStatus', 'FailedActionStatus', 'PotentialActionStatus'
+    ],
+    AdultOrientedEnumeration: [
+      'AlcoholConsideration', 'DangerousGoodConsideration', 'HealthcareConsideration',
+      'NarcoticConsideration', 'ReducedRelevanceForChildrenConsideration', 'SexualContentConsideration',
+      'TobaccoNicotineConsideration', 'UnclassifiedAdultConsideration', 'ViolenceConsideration',
+      'WeaponConsideration'
+    ],
+    BoardingPolicyType: ['GroupBoardingPolicy', 'ZoneBoardingPolicy'],
+    BodyMeasurementTypeEnumeration: [
+      'BodyMeasurementArm', 'BodyMeasurementBust', 'BodyMeasurementChest', 'BodyMeasurementFoot',
+      'BodyMeasurementHand', 'BodyMeasurementHead', 'BodyMeasurementHeight', 'BodyMeasurementHips',
+      'BodyMeasurementInsideLeg', 'BodyMeasurementNeck', 'BodyMeasurementUnderbust', 'BodyMeasurementWaist',
+      'BodyMeasurementWeight'
+    ],
+    BookFormatType: ['AudiobookFormat', 'EBook', 'GraphicNovel', 'Hardcover', 'Pamphlet', 'Paperback'],
+    CarUsageType: ['DrivingSchoolVehicleUsage', 'RentalVehicleUsage', 'TaxiVehicleUsage'],
+    CertificationStatusEnumeration: ['CertificationActive', 'CertificationInactive'],
+    ContactPointOption: ['HearingImpairedSupported', 'TollFree'],
+    DayOfWeek: [
+      'Friday', 'Monday', 'PublicHolidays', 'Saturday', 'Sunday', 'Thursday', 'Tuesday', 'Wednesday'
+    ],
+    DeliveryMethod: ['LockerDelivery', 'OnSitePickup', 'ParcelService'],
+    DigitalDocumentPermissionType: ['CommentPermission', 'ReadPermission', 'WritePermission'],
+    DigitalPlatformEnumeration: [
+      'AndroidPlatform', 'DesktopWebPlatform', 'GenericWebPlatform', 'IOSPlatform', 'MobileWebPlatform'
+    ],
+    DriveWheelConfigurationValue: [
+      'AllWheelDriveConfiguration', 'FourWheelDriveConfiguration', 'FrontWheelDriveConfiguration',
+      'RearWheelDriveConfiguration'
+    ],
+    DrugCostCategory: ['ReimbursementCap', 'Retail', 'Wholesale'],
+    DrugPregnancyCategory: [
+      'FDAcategoryA', 'FDAcategoryB', 'FDAcategoryC', 'FDAcategoryD', 'FDAcategoryX', 'FDAnotEvaluated'
+    ],
+    DrugPrescriptionStatus: ['OTC', 'PrescriptionOnly'],
+    EnergyStarEnergyEfficiencyEnumeration: ['EnergyStarCertified'],
+    EUEnergyEfficiencyEnumeration: [
+      'EUEnergyEfficiencyCategoryA', 'EUEnergyEfficiencyCategoryA1Plus', 'EUEnergyEfficiencyCategoryA2Plus',
+      'EUEnergyEfficiencyCategoryA3Plus', 'EUEnergyEfficiencyCategoryB', 'EUEnergyEfficiencyCategoryC',
+      'EUEnergyEfficiencyCategoryD', 'EUEnergyEfficiencyCategoryE', 'EUEnergyEfficiencyCategoryF',
+      'EUEnergyEfficiencyCategoryG'
+    ],
+    EventAttendanceModeEnumeration: [
+      'MixedEventAttendanceMode', 'OfflineEventAttendanceMode', 'OnlineEventAttendanceMode'
+    ],
+    EventStatusType: [
+      'EventCancelled', 'EventMovedOnline', 'EventPostponed', 'EventRescheduled', 'EventScheduled'
+    ],
+    FulfillmentTypeEnumeration: [
+      'FulfillmentTypeCollectionPoint', 'FulfillmentTypeDelivery', 'FulfillmentTypePickupDropoff',
+      'FulfillmentTypePickupInStore', 'FulfillmentTypeScheduledDelivery'
+    ],
+    GameAvailabilityEnumeration: ['DemoGameAvailability', 'FullGameAvailability'],
+    GamePlayMode: ['CoOp', 'MultiPlayer', 'SinglePlayer'],
+    GameServerStatus: ['OfflinePermanently', 'OfflineTemporarily', 'Online', 'OnlineFull'],
+    GenderType: ['Female', 'Male'],
+    GovernmentBenefitsType: [
+      'BasicIncome', 'BusinessSupport', 'DisabilitySupport', 'HealthCare', 'OneTimePayments', 'PaidLeave',
+      'ParentalSupport', 'UnemploymentSupport'
+    ],
+    HealthAspectEnumeration: [
+      'AllergiesHealthAspect', 'BenefitsHealthAspect', 'CausesHealthAspect', 'ContagiousnessHealthAspect',
+      'EffectivenessHealthAspect', 'GettingAccessHealthAspect', 'HowItWorksHealthAspect',
+      'HowOrWhereHealthAspect', 'IngredientsHealthAspect', 'LivingWithHealthAspect', 'MayTreatHealthAspect',
+      'MisconceptionsHealthAspect', 'OverviewHealthAspect', 'PatientExperienceHealthAspect',
+      'PregnancyHealthAspect', 'PreventionHealthAspect', 'PrognosisHealthAspect', 'RelatedTopicsHealthAspect',
+      'RisksOrComplicationsHealthAspect', 'SafetyHealthAspect', 'ScreeningHealthAspect',
+      'SeeDoctorHealthAspect', 'SelfCareHealthAspect', 'SideEffectsHealthAspect', 'StagesHealthAspect',
+      'SymptomsHealthAspect', 'TreatmentsHealthAspect', 'TypesHealthAspect', 'UsageOrScheduleHealthAspect'
+    ],
+    IncentiveQualifiedExpenseType: [
+      'IncentiveQualifiedExpenseTypeGoodsOnly', 'IncentiveQualifiedExpenseTypeGoodsOrServices',
+      'IncentiveQualifiedExpenseTypeServicesOnly', 'IncentiveQualifiedExpenseTypeUtilityBill'
+    ],
+    IncentiveStatus: [
+      'IncentiveStatusActive', 'IncentiveStatusInDevelopment', 'IncentiveStatusOnHold',
+      'IncentiveStatusRetired'
+    ],
+    IncentiveType: [
+      'IncentiveTypeLoan', 'IncentiveTypeRebateOrSubsidy', 'IncentiveTypeTaxCredit',
+      'IncentiveTypeTaxDeduction', 'IncentiveTypeTaxWaiver'
+    ],
+    InfectiousAgentClass: ['Bacteria', 'Fungus', 'MulticellularParasite', 'Prion', 'Protozoa', 'Virus'],
+    IPTCDigitalSourceEnumeration: [
+      'AlgorithmicallyEnhancedDigitalSource', 'AlgorithmicMediaDigitalSource',
+      'CompositeCaptureDigitalSource', 'CompositeDigitalSource', 'CompositeSyntheticDigitalSource',
+      'CompositeWithTrainedAlgorithmicMediaDigitalSource', 'DataDrivenMediaDigitalSource',
+      'DigitalArtDigitalSource', 'DigitalCaptureDigitalSource', 'MinorHumanEditsDigitalSource',
+      'MultiFrameComputationalCaptureDigitalSource', 'NegativeFilmDigitalSource', 'PositiveFilmDigitalSource',
+      'PrintDigitalSource', 'ScreenCaptureDigitalSource', 'TrainedAlgorithmicMediaDigitalSource',
+      'VirtualRecordingDigitalSource'
+    ],
+    ItemAvailability: [
+      'BackOrder', 'Discontinued', 'InStock', 'InStoreOnly', 'LimitedAvailability', 'MadeToOrder',
+      'OnlineOnly', 'OutOfStock', 'PreOrder', 'PreSale', 'Reserved', 'SoldOut'
+    ],
+    ItemListOrderType: ['ItemListOrderAscending', 'ItemListOrderDescending', 'ItemListUnordered'],
+    LegalForceStatus: ['InForce', 'NotInForce', 'PartiallyInForce'],
+    LegalValueLevel: [
+      'AuthoritativeLegalValue', 'DefinitiveLegalValue', 'OfficialLegalValue', 'UnofficialLegalValue'
+    ],
+    MapCategoryType: ['ParkingMap', 'SeatingMap', 'TransitMap', 'VenueMap'],
+    MeasurementMethodEnum: ['ExampleMeasurementMethodEnum'],
+    MediaManipulationRatingEnumeration: [
+      'DecontextualizedContent', 'EditedOrCroppedContent', 'OriginalMediaContent', 'SatireOrParodyContent',
+      'StagedContent', 'TransformedContent'
+    ],
+    MedicalAudienceType: ['Clinician', 'MedicalResearcher'],
+    MedicalDevicePurpose: ['Diagnostic', 'Therapeutic'],
+    MedicalEvidenceLevel: ['EvidenceLevelA', 'EvidenceLevelB', 'EvidenceLevelC'],
+    MedicalImagingTechnique: ['CT', 'MRI', 'PET', 'Radiography', 'Ultrasound', 'XRay'],
+    MedicalObservationalStudyDesign: [
+      'CaseSeries', 'CohortStudy', 'CrossSectional', 'Longitudinal', 'Observational', 'Registry'
+    ],
+    MedicalProcedureType: ['NoninvasiveProcedure', 'PercutaneousProcedure'],
+    MedicalSpecialty: [
+      'Anesthesia', 'Cardiovascular', 'CommunityHealth', 'Dentistry', 'Dermatologic', 'Dermatology',
+      'DietNutrition', 'Emergency', 'Endocrine', 'Gastroenterologic', 'Genetic', 'Geriatric', 'Gynecologic',
+      'Hematologic', 'Infectious', 'LaboratoryScience', 'Midwifery', 'Musculoskeletal', 'Neurologic',
+      'Nursing', 'Obstetric', 'Oncologic', 'Optometric', 'Otolaryngologic', 'Pathology', 'Pediatric',
+      'PharmacySpecialty', 'Physiotherapy', 'PlasticSurgery', 'Podiatric', 'PrimaryCare', 'Psychiatric',
+      'PublicHealth', 'Pulmonary', 'Radiography', 'Renal', 'RespiratoryTherapy', 'Rheumatologic',
+      'SpeechPathology', 'Surgical', 'Toxicologic', 'Urologic'
+    ],
+    MedicalStudyStatus: [
+      'ActiveNotRecruiting', 'Completed', 'EnrollingByInvitation', 'NotYetRecruiting', 'Recruiting',
+      'ResultsAvailable', 'ResultsNotAvailable', 'Suspended', 'Terminated', 'Withdrawn'
+    ],
+    MedicalTrialDesign: [
+      'DoubleBlindedTrial', 'InternationalTrial', 'MultiCenterTrial', 'OpenTrial', 'PlaceboControlledTrial',
+      'RandomizedTrial', 'SingleBlindedTrial', 'SingleCenterTrial', 'TripleBlindedTrial'
+    ],
+    MedicineSystem: [
+      'Ayurvedic', 'Chiropractic', 'Homeopathic', 'Osteopathic', 'TraditionalChinese', 'WesternConventional'
+    ],
+    MerchantReturnEnumeration: [
+      'MerchantReturnFiniteReturnWindow', 'MerchantReturnNotPermitted', 'MerchantReturnUnlimitedWindow',
+      'MerchantReturnUnspecified'
+    ],
+    MusicAlbumProductionType: [
+      'CompilationAlbum', 'DemoAlbum', 'DJMixAlbum', 'LiveAlbum', 'MixtapeAlbum', 'RemixAlbum',
+      'SoundtrackAlbum', 'SpokenWordAlbum', 'StudioAlbum'
+    ],
+    MusicAlbumReleaseType: ['AlbumRelease', 'BroadcastRelease', 'EPRelease', 'SingleRelease'],
+    MusicReleaseFormatType: [
+      'CassetteFormat', 'CDFormat', 'DigitalAudioTapeFormat', 'DigitalFormat', 'DVDFormat', 'LaserDiscFormat',
+      'VinylFormat'
+    ],
+    NLNonprofitType: ['NonprofitANBI', 'NonprofitSBBI'],
+    OfferItemCondition: ['DamagedCondition', 'NewCondition', 'RefurbishedCondition', 'UsedCondition'],
+    OrderStatus: [
+      'OrderCancelled', 'OrderDelivered', 'OrderInTransit', 'OrderPaymentDue', 'OrderPickupAvailable',
+      'OrderProblem', 'OrderProcessing', 'OrderReturned'
+    ],
+    PaymentMethodType: [
+      'ByBankTransferInAdvance', 'ByInvoice', 'Cash', 'CheckInAdvance', 'COD', 'DirectDebit', 'InStorePrepay',
+      'PhoneCarrierPayment'
+    ],
+    PaymentStatusType: [
+      'PaymentAutomaticallyApplied', 'PaymentComplete', 'PaymentDeclined', 'PaymentDue', 'PaymentPastDue'
+    ],
+    PhysicalActivityCategory: [
+      'AerobicActivity', 'AnaerobicActivity', 'Balance', 'Flexibility', 'LeisureTimeActivity',
+      'OccupationalActivity', 'StrengthTraining'
+    ],
+    PhysicalExam: [
+      'Abdomen', 'Appearance', 'CardiovascularExam', 'Ear', 'Eye', 'Genitourinary', 'Head', 'Lung',
+      'MusculoskeletalExam', 'Neck', 'Neuro', 'Nose', 'Skin', 'Throat'
+    ],
+    PriceComponentTypeEnumeration: [
+      'ActivationFee', 'CleaningFee', 'DistanceFee', 'Downpayment', 'Installment', 'Subscription'
+    ],
+    PriceTypeEnumeration: [
+      'InvoicePrice', 'ListPrice', 'MinimumAdvertisedPrice', 'MSRP', 'RegularPrice', 'SalePrice', 'SRP',
+      'StrikethroughPrice'
+    ],
+    PurchaseType: [
+      'PurchaseTypeLease', 'PurchaseTypeNewPurchase', 'PurchaseTypeTradeIn', 'PurchaseTypeUsedPurchase'
+    ],
+    RefundTypeEnumeration: ['ExchangeRefund', 'FullRefund', 'StoreCreditRefund'],
+    ReservationStatusType: [
+      'ReservationCancelled', 'ReservationConfirmed', 'ReservationHold', 'ReservationPending'
+    ],
+    RestrictedDiet: [
+      'DiabeticDiet', 'GlutenFreeDiet', 'HalalDiet', 'HinduDiet', 'KosherDiet', 'LowCalorieDiet',
+      'LowFatDiet', 'LowLactoseDiet', 'LowSaltDiet', 'VeganDiet', 'VegetarianDiet'
+    ],
+    ReturnFeesEnumeration: [
+      'FreeReturn', 'OriginalShippingFees', 'RestockingFees', 'ReturnFeesCustomerResponsibility',
+      'ReturnShippingFees'
+    ],
+    ReturnLabelSourceEnumeration: [
+      'ReturnLabelCustomerResponsibility', 'ReturnLabelDownloadAndPrint', 'ReturnLabelInBox'
+    ],
+    ReturnMethodEnumeration: ['KeepProduct', 'ReturnAtKiosk', 'ReturnByMail', 'ReturnInStore'],
+    RsvpResponseType: ['RsvpResponseMaybe', 'RsvpResponseNo', 'RsvpResponseYes'],
+    SizeSystemEnumeration: ['SizeSystemImperial', 'SizeSystemMetric'],
+    SteeringPositionValue: ['LeftHandDriving', 'RightHandDriving'],
+    TierBenefitEnumeration: [
+      'TierBenefitLoyaltyPoints', 'TierBenefitLoyaltyPrice', 'TierBenefitLoyaltyReturns',
+      'TierBenefitLoyaltyShipping'
+    ],
+    UKNonprofitType: [
+      'CharitableIncorporatedOrganization', 'LimitedByGuaranteeCharity', 'UKTrust',
+      'UnincorporatedAssociationCharity'
+    ],
+    USNonprofitType: [
+      'Nonprofit501a', 'Nonprofit501c1', 'Nonprofit501c10', 'Nonprofit501c11', 'Nonprofit501c12',
+      'Nonprofit501c13', 'Nonprofit501c14', 'Nonprofit501c15', 'Nonprofit501c16', 'Nonprofit501c17',
+      'Nonprofit501c18', 'Nonprofit501c19', 'Nonprofit501c2', 'Nonprofit501c20', 'Nonprofit501c21',
+      'Nonprofit501c22', 'Nonprofit501c23', 'Nonprofit501c24', 'Nonprofit501c25', 'Nonprofit501c26',
+      'Nonprofit501c27', 'Nonprofit501c28', 'Nonprofit501c3', 'Nonprofit501c4', 'Nonprofit501c5',
+      'Nonprofit501c6', 'Nonprofit501c7', 'Nonprofit501c8', 'Nonprofit501c9', 'Nonprofit501d',
+      'Nonprofit501e', 'Nonprofit501f', 'Nonprofit501k', 'Nonprofit501n', 'Nonprofit501q', 'Nonprofit527'
+    ],
+    WearableMeasurementTypeEnumeration: [
+      'WearableMeasurementBack', 'WearableMeasurementChestOrBust', 'WearableMeasurementCollar',
+      'WearableMeasurementCup', 'WearableMeasurementHeight', 'WearableMeasurementHips',
+      'WearableMeasurementInseam', 'WearableMeasurementLength', 'WearableMeasurementOutsideLeg',
+      'WearableMeasurementSleeve', 'WearableMeasurementWaist', 'WearableMeasurementWidth'
+    ],
+    WearableSizeGroupEnumeration: [
+      'WearableSizeGroupBig', 'WearableSizeGroupBoys', 'WearableSizeGroupExtraShort',
+      'WearableSizeGroupExtraTall', 'WearableSizeGroupGirls', 'WearableSizeGroupHusky',
+      'WearableSizeGroupInfants', 'WearableSizeGroupJuniors', 'WearableSizeGroupMaternity',
+      'WearableSizeGroupMens', 'WearableSizeGroupMisses', 'WearableSizeGroupPetite', 'WearableSizeGroupPlus',
+      'WearableSizeGroupRegular', 'WearableSizeGroupShort', 'WearableSizeGroupTall',
+      'WearableSizeGroupWomens'
+    ],
+    WearableSizeSystemEnumeration: [
+      'WearableSizeSystemAU', 'WearableSizeSystemBR', 'WearableSizeSystemCN', 'WearableSizeSystemContinental',
+      'WearableSizeSystemDE', 'WearableSizeSystemEN13402', 'WearableSizeSystemEurope', 'WearableSizeSystemFR',
+      'WearableSizeSystemGS1', 'WearableSizeSystemIT', 'WearableSizeSystemJP', 'WearableSizeSystemMX',
+      'WearableSizeSystemUK', 'WearableSizeSystemUS'
+    ]
+  },
+
+  superseded: {
+    actors: 'actor',
+    albums: 'album',
+    application: 'actionApplication',
+    area: 'serviceArea',
+    aspect: 'mainContentOfPage',
+    assembly: 'executableLibraryName',
+    attendees: 'attendee',
+    awards: 'award',
+    benefits: 'jobBenefits',
+    blogPosts: 'blogPost',
+    bookingAgent: 'broker',
+    branch: 'arterialBranch',
+    branchOf: 'parentOrganization',
+    carrier: 'provider',
+    catalog: 'includedInDataCatalog',
+    clincalPharmacology: 'clinicalPharmacology',
+    Code: 'SoftwareSourceCode',
+    colleagues: 'colleague',
+    collection: 'targetCollection',
+    contactPoints: 'contactPoint',
+    containedIn: 'containedInPlace',
+    course: 'exerciseCourse',
+    datasetTimeInterval: 'temporalCoverage',
+    DatedMoneySpecification: 'MonetaryAmount',
+    Dermatologic: 'Dermatology',
+    device: 'availableOnDevice',
+    directors: 'director',
+    employees: 'employee',
+    encodings: 'encoding',
+    episodes: 'episode',
+    events: 'event',
+    fileFormat: 'encodingFormat',
+    founders: 'founder',
+    free: 'isAccessibleForFree',
+    incentives: 'incentiveCompensation',
+    includedDataCatalog: 'includedInDataCatalog',
+    ingredients: 'recipeIngredient',
+    interactionCount: 'interactionStatistic',
+    isBasedOnUrl: 'isBasedOn',
+    language: 'inLanguage',
+    map: 'hasMap',
+    maps: 'hasMap',
+    members: 'member',
+    menu: 'hasMenu',
+    merchant: 'seller',
+    musicGroupMember: 'member',
+    namedPosition: 'roleName',
+    option: 'actionOption',
+    parents: 'parent',
+    partOfTVSeries: 'partOfSeries',
+    paymentDue: 'paymentDueDate',
+    performers: 'performer',
+    photos: 'photo',
+    produces: 'serviceOutput',
+    requirements: 'softwareRequirements',
+    reviews: 'review',
+    runtime: 'runtimePlatform',
+    sampleType: 'codeSampleType',
+    season: 'containsSeason',
+    Season: 'CreativeWorkSeason',
+    seasons: 'season',
+    serviceArea: 'areaServed',
+    serviceAudience: 'audience',
+    siblings: 'sibling',
+    significantLinks: 'significantLink',
+    steps: 'step',
+    subEvents: 'subEvent',
+    surface: 'artworkSurface',
+    Taxi: 'TaxiService',
+    tracks: 'track',
+    UserBlocks: 'InteractionCounter',
+    UserCheckins: 'InteractionCounter',
+    UserComments: 'InteractionCounter',
+    UserDownloads: 'InteractionCounter',
+    UserInteraction: 'InteractionCounter',
+    UserLikes: 'InteractionCounter',
+    UserPageVisits: 'InteractionCounter',
+    UserPlays: 'InteractionCounter',
+    UserPlusOnes: 'InteractionCounter',
+    UserTweets: 'InteractionCounter',
+    vendor: 'seller',
+    warrantyPromise: 'warranty'
+  }
+}
@@ -26,6 +26,13 @@ import { authMiddleware } from './middleware/auth.js'
 import { logFeatureFlags } from './config/featureFlags.js'
 import { cleanupService } from './services/cleanupService.js'
 import { ga4MetricsRefreshService } from './services/ga4/metricsRefreshService.js'
+import { batchJobWorker } from './services/batchJobWorker.js'
+import { schemaDriftMonitor } from './services/schemaDriftMonitor.js'
+import { hubspotSyncRetryWorker } from './services/hubspot/syncRetry.js'
+import { webhookDeliveryWorker } from './services/webhooks/delivery.js'
+import crawlHistoryService from './services/crawlHistoryService.js'
+import schemaAuditService from './services/schemaAuditService.js'
+import { MAX_CRAWL_LIMITS } from './services/siteCrawler.js'
 import schemaRoutes from './routes/schema.js'
 import userRoutes from './routes/user.js'
 import paymentRoutes from './routes/payment.js'
@@ -36,11 +43,16 @@ import urlLibraryRoutes from './routes/urlLibrary.js'
 import adminRoutes from './routes/admin.js'
 import supportRoutes from './routes/support.js'
 import hubspotRoutes from './routes/hubspot.js'
+import wordpressRoutes from './routes/wordpress.js'
 import ga4Routes from './routes/ga4.js'
 import releaseNotesRoutes from './routes/releaseNotes.js'
 import teamRoutes from './routes/team.js'
 import featureRoutes from './routes/features.js'
 import organizationRoutes from './routes/organization.js'
+import embedRoutes from './routes/embed.js'
+import auditRoutes from './routes/audits.js'
+import crawlerLogRoutes from './routes/crawlerLogs.js'
+import logIngestRoutes from './routes/logIngest.js'
 
 const app = express()
 const PORT = process.env.PORT || 8080
@@ -83,9 +95,32 @@ const schemaLimiter = rateLimit({
 })
 app.use('/api/schema/generate', schemaLimiter)
 
+// Embed loader rate limiting - every page view on an embedding site is one request,
+// so this is per visitor IP and much looser than the API limit
+const embedLimiter = rateLimit({
+  windowMs: parseInt(process.env.EMBED_RATE_LIMIT_WINDOW_MS || '60000'), // Default: 1 minute
+  max: parseInt(process.env.EMBED_RATE_LIMIT_MAX_REQUESTS || '120'), // Default: 120 requests
+  message: 'Too many requests from this IP, please try again later.',
+  skip: () => process.env.NODE_ENV === 'development', // Skip rate limiting in development
+})
+app.use('/embed', embedLimiter)
+
+// Log drain rate limiting - drains batch their posts, so this only stops runaway senders
+const ingestLimiter = rateLimit({
+  windowMs: parseInt(process.env.INGEST_RATE_LIMIT_WINDOW_MS || '60000'), // Default: 1 minute
+  max: parseInt(process.env.INGEST_RATE_LIMIT_MAX_REQUESTS || '300'), // Default: 300 requests
+  message: 'Too many requests from this IP, please try again later.',
+  skip: () => process.env.NODE_ENV === 'development', // Skip rate limiting in development
+})
+app.use('/ingest', ingestLimiter)
+
 // Webhook routes MUST come before express.json() to receive raw body for Stripe signature verification
 app.use('/webhooks/stripe', express.raw({ type: 'application/json' }), webhookRoutes)
 
+// Log drain ingestion parses its own raw text body, so it also comes before express.json()
+// (no auth - keyed by per-domain ingest key)
+app.use('/ingest', logIngestRoutes)
+
 // Request parsing
 app.use(express.json({ limit: '10mb' }))
 app.use(express.urlencoded({ extended: true, limit: '10mb' }))
@@ -96,6 +131,9 @@ app.use('/webhooks', webhookRoutes)
 // Logging
 app.use(morgan('combined'))
 
+// Public schema embed loader (no auth - keyed by per-domain site key)
+app.use('/embed', embedRoutes)
+
 // Health check
 app.get('/health', (req, res) => {
   res.status(200).json({
@@ -115,8 +153,11 @@ app.use('/api/payment', authMiddleware, paymentRoutes)
 app.use('/api/model-test', authMiddleware, modelTestRouter)
 app.use('/api/crawler', authMiddleware, crawlerRoutes)
 app.use('/api/library', authMiddleware, urlLibraryRoutes)
+app.use('/api/audits', authMiddleware, auditRoutes)
+app.use('/api/crawler-logs', authMiddleware, crawlerLogRoutes)
 app.use('/api/support', supportRoutes) // Support routes include their own auth middleware
 app.use('/api/hubspot', hubspotRoutes) // HubSpot routes include their own auth middleware
+app.use('/api/wordpress', wordpressRoutes) // WordPress routes include their own auth middleware
 app.use('/api/ga4', ga4Routes) // GA4 routes include their own auth middleware
 app.use('/api/release-notes', releaseNotesRoutes) // Release notes routes include their own auth middleware
 app.use('/api/team', teamRoutes) // Team routes include their own auth middleware
@@ -277,4 +318,79 @@ app.listen(PORT, () => {
   })
 
   console.log('⏰ [Cron] GA4 metrics refresh job scheduled to run daily at 2:00 AM')
+
+  // Schedule schema drift monitoring - runs every hour
+  // Each run re-checks a small slice of library URLs not checked in the last 24 hours
+  // 30 * * * * = every hour at :30 (offset from the cleanup job)
+  cron.schedule('30 * * * *', async () => {
+    console.log('⏰ [Cron] Running scheduled schema drift check...')
+    try {
+      const stats = await schemaDriftMonitor.checkDueUrls()
+      if (stats.checkedCount > 0 || stats.failedCount > 0) {
+        console.log('✅ [Cron] Schema drift check completed:', stats)
+      }
+    } catch (error) {
+      console.error('❌ [Cron] Schema drift check failed:', error)
+    }
+  })
+
+  console.log('⏰ [Cron] Schema drift monitor scheduled to run hourly')
+
+  // Fail crawls whose server restarted mid-crawl - runs every 15 minutes
+  // No crawl runs longer than the max crawl timeout, so one that hasn't been updated for
+  // longer than that (plus a margin) is no longer running on any server
+  cron.schedule('*/15 * * * *', async () => {
+    try {
+      const failedCount = await crawlHistoryService.failInterruptedCrawls(MAX_CRAWL_LIMITS.timeoutMs + 5 * 60 * 1000)
+      if (failedCount > 0) {
+        console.log(`✅ [Cron] Marked ${failedCount} interrupted crawls as failed`)
+      }
+    } catch (error) {
+      console.error('❌ [Cron] Interrupted crawl recovery failed:', error)
+    }
+  })
+
+  // Fail schema audits whose server restarted mid-run - runs every 15 minutes
+  // Audits record progress after every page, so 15 minutes without an update means no server is running it
+  cron.schedule('*/15 * * * *', async () => {
+    try {
+      const failedCount = await schemaAuditService.failInterruptedAudits(15 * 60 * 1000)
+      if (failedCount > 0) {
+        console.log(`✅ [Cron] Marked ${failedCount} interrupted schema audits as failed`)
+      }
+    } catch (error) {
+      console.error('❌ [Cron] Interrupted schema audit recovery failed:', error)
+    }
+  })
+
+  // Retry HubSpot pushes that failed with transient errors - runs every minute
+  // Retries interrupted by a restart (claimed but never finished) are requeued first
+  // Backoff is per job (next_attempt_at), so most runs find nothing due
+  cron.schedule('* * * * *', async () => {
+    try {
+      const stats = await hubspotSyncRetryWorker.retryDueJobs()
+      if (stats.retriedCount > 0 || stats.supersededCount > 0 || stats.requeuedCount > 0) {
+        console.log('✅ [Cron] HubSpot sync retries completed:', stats)
+      }
+    } catch (error) {
+      console.error('❌ [Cron] HubSpot sync retry failed:', error)
+    }
+  })
+
+  // Retry webhook deliveries that got a non-2xx response or no response - runs every minute
+  // Backoff is per delivery (next_attempt_at), so most runs find nothing due
+  cron.schedule('* * * * *', async () => {
+    try {
+      const stats = await webhookDeliveryWorker.retryDueDeliveries()
+      if (stats.attemptedCount > 0 || stats.requeuedCount > 0) {
+        console.log('✅ [Cron] Webhook delivery retries completed:', stats)
+      }
+    } catch (error) {
+      console.error('❌ [Cron] Webhook delivery retry failed:', error)
+    }
+  })
+
+  // Start background worker for persisted batch generation jobs
+  // Picks up any jobs that were queued or running before a restart
+  batchJobWorker.start()
 })
\ No newline at end of file
@@ -0,0 +1,94 @@
+import { Response, NextFunction } from 'express'
+import type { ApiKeyScope } from 'aeo-schema-generator-shared/types'
+import { AuthenticatedRequest, authMiddleware } from './auth.js'
+import { createError } from './errorHandler.js'
+import { authenticateApiKey, recordApiKeyUsage, isApiKey } from '../services/apiKeyService.js'
+
+/**
+ * Pull a SuperSchema API key from the request
+ * Accepts either `X-API-Key: ss_live_...` or `Authorization: Bearer ss_live_...`
+ */
+const extractApiKey = (req: AuthenticatedRequest): string | undefined => {
+  const headerKey = req.headers['x-api-key']
+  if (typeof headerKey === 'string' && headerKey.trim()) {
+    return headerKey.trim()
+  }
+
+  const authHeader = req.headers.authorization
+  if (authHeader?.startsWith('Bearer ')) {
+    const token = authHeader.substring(7)
+    if (isApiKey(token)) {
+      return token
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Second auth path alongside authMiddleware for headless callers (CI jobs, build pipelines)
+ *
+ * Requests carrying a team API key are authenticated against team_api_keys and act as
+ * the team owner, so credits are charged to the team. Everything else falls through to
+ * the normal Clerk session check in authMiddleware.
+ */
+export const apiKeyOrSessionAuth = (requiredScope: ApiKeyScope) => {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const rawKey = extractApiKey(req)
+
+    if (!rawKey) {
+      return authMiddleware(req, res, next)
+    }
+
+    console.log('🔑 [ApiKeyAuth] Processing API key request:', {
+      url: req.url,
+      method: req.method,
+      keyPrefix: rawKey.substring(0, 16),
+      requiredScope
+    })
+
+    authenticateApiKey(rawKey)
+      .then((result) => {
+        if (!result) {
+          console.warn('⚠️ [ApiKeyAuth] Unknown or revoked API key:', {
+            keyPrefix: rawKey.substring(0, 16)
+          })
+          return next(createError('Invalid or revoked API key', 401))
+        }
+
+        if (!result.scopes.includes(requiredScope)) {
+          console.warn('⚠️ [ApiKeyAuth] API key missing scope:', {
+            keyId: result.keyId,
+            requiredScope,
+            scopes: result.scopes
+          })
+          return next(createError(`API key does not have the "${requiredScope}" scope`, 403))
+        }
+
+        req.auth = {
+          userId: result.ownerId,
+          sessionId: `api-key:${result.keyId}`,
+          teamId: result.teamId,
+          isTeamOwner: false,
+          apiKeyId: result.keyId
+        }
+        req.userId = result.ownerId
+
+        console.log('✅ [ApiKeyAuth] API key authenticated:', {
+          keyId: result.keyId,
+          teamId: result.teamId
+        })
+
+        // Best effort - usage bookkeeping must never fail the request
+        recordApiKeyUsage(result.keyId, req.ip).catch(() => {})
+
+        next()
+      })
+      .catch((error) => {
+        console.error('❌ [ApiKeyAuth] Failed to authenticate API key:', {
+          error: error instanceof Error ? error.message : 'Unknown error'
+        })
+        next(createError('API key authentication failed', 500))
+      })
+  }
+}
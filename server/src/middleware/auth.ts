@@ -13,6 +13,7 @@ export interface AuthenticatedRequest extends Request {
     lastName?: string
     teamId?: string | null
     isTeamOwner?: boolean
+    apiKeyId?: string // Set when the request was authenticated with a team API key
   }
   userId?: string
 }
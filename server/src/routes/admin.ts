@@ -30,7 +30,9 @@ import {
   grantBetaAccess,
   revokeBetaAccess,
   getFeatures,
-  updateFeatureStatus
+  updateFeatureStatus,
+  getAIReferrerCatalogVersions,
+  publishAIReferrerCatalog
 } from '../controllers/adminController.js'
 
 const router = Router()
@@ -138,4 +140,12 @@ router.get('/features', getFeatures)
 // PATCH /api/admin/features/:featureId/status - Update feature status
 router.patch('/features/:featureId/status', updateFeatureStatus)
 
+// AI Referrer Catalog Routes
+
+// GET /api/admin/ai-referrer-catalog - Current catalog and version history
+router.get('/ai-referrer-catalog', getAIReferrerCatalogVersions)
+
+// POST /api/admin/ai-referrer-catalog - Publish a new catalog version
+router.post('/ai-referrer-catalog', publishAIReferrerCatalog)
+
 export default router
@@ -0,0 +1,23 @@
+import { Router } from 'express'
+import {
+  startSchemaAudit,
+  listSchemaAudits,
+  getSchemaAudit,
+  exportSchemaAudit
+} from '../controllers/schemaAuditController.js'
+
+const router = Router()
+
+// POST /api/audits - Start a site-wide schema audit
+router.post('/', startSchemaAudit)
+
+// GET /api/audits - List past audits
+router.get('/', listSchemaAudits)
+
+// GET /api/audits/:auditId - Poll progress / get the report
+router.get('/:auditId', getSchemaAudit)
+
+// GET /api/audits/:auditId/export?format=json|csv - Download the report
+router.get('/:auditId/export', exportSchemaAudit)
+
+export default router
@@ -2,7 +2,9 @@ import { Router } from 'express'
 import {
   discoverUrls,
   getCrawlResults,
-  getCachedCrawl
+  getCachedCrawl,
+  getCrawlHistory,
+  getCrawlDiff
 } from '../controllers/crawlerController.js'
 import { authMiddleware } from '../middleware/auth.js'
 
@@ -20,4 +22,10 @@ router.get('/results/:crawlId', getCrawlResults)
 // GET /api/crawler/cached/:domain - Check for cached crawl
 router.get('/cached/:domain', getCachedCrawl)
 
+// GET /api/crawler/history/:domain - List past crawls of a domain
+router.get('/history/:domain', getCrawlHistory)
+
+// GET /api/crawler/diff/:fromCrawlId/:toCrawlId - Compare two crawls
+router.get('/diff/:fromCrawlId/:toCrawlId', getCrawlDiff)
+
 export default router
@@ -0,0 +1,30 @@
+import express, { Router } from 'express'
+import {
+  listLogSources,
+  createLogSource,
+  deleteLogSource,
+  uploadCrawlerLog,
+  getCrawlerLogMetrics
+} from '../controllers/crawlerLogController.js'
+
+/** Uploaded logs arrive as the raw file body */
+const logBody = express.text({ type: '*/*', limit: '50mb' })
+
+const router = Router()
+
+// GET /api/crawler-logs/sources - List log sources
+router.get('/sources', listLogSources)
+
+// POST /api/crawler-logs/sources - Create the log source for a domain
+router.post('/sources', createLogSource)
+
+// DELETE /api/crawler-logs/sources/:sourceId - Delete a log source and its hits
+router.delete('/sources/:sourceId', deleteLogSource)
+
+// POST /api/crawler-logs/sources/:sourceId/upload?format= - Ingest an uploaded access log
+router.post('/sources/:sourceId/upload', logBody, uploadCrawlerLog)
+
+// GET /api/crawler-logs/metrics?domain=&startDate=&endDate= - AI crawler tables from logs
+router.get('/metrics', getCrawlerLogMetrics)
+
+export default router
@@ -0,0 +1,13 @@
+import { Router } from 'express'
+import { getEmbedLoader, getEmbedSchema } from '../controllers/embedController.js'
+
+// Public routes - no auth, called from customers' sites by the loader script
+const router = Router()
+
+// GET /embed/loader.js - Loader script (<script src=".../embed/loader.js" data-site-key="site_..." async>)
+router.get('/loader.js', getEmbedLoader)
+
+// GET /embed/:siteKey/schema?url= - JSON-LD for a page of the site key's domain
+router.get('/:siteKey/schema', getEmbedSchema)
+
+export default router
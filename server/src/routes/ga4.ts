@@ -31,13 +31,32 @@ router.patch('/domain-mapping/:mappingId/exclusions/:patternId', ga4Controller.u
 router.delete('/domain-mapping/:mappingId/exclusions/:patternId', ga4Controller.deleteExclusionPattern)
 router.patch('/domain-mapping/:mappingId/exclusions/:patternId/toggle', ga4Controller.toggleExclusionPattern)
 
+// AI referrer catalog and private AI referrer patterns
+router.get('/ai-referrer-catalog', ga4Controller.getAIReferrerCatalog)
+router.get('/domain-mapping/:mappingId/ai-patterns', ga4Controller.listAIReferrerPatterns)
+router.post('/domain-mapping/:mappingId/ai-patterns', ga4Controller.createAIReferrerPattern)
+router.patch('/domain-mapping/:mappingId/ai-patterns/:patternId', ga4Controller.updateAIReferrerPattern)
+router.delete('/domain-mapping/:mappingId/ai-patterns/:patternId', ga4Controller.deleteAIReferrerPattern)
+
+// Alert rules and alert history
+router.get('/domain-mapping/:mappingId/alert-rules', ga4Controller.listAlertRules)
+router.patch('/domain-mapping/:mappingId/alert-rules/:ruleType', ga4Controller.updateAlertRule)
+router.get('/alerts', ga4Controller.getAlertHistory)
+
 // AI Crawler metrics
 router.get('/metrics', ga4Controller.getMetrics)
 router.post('/metrics/refresh', ga4Controller.refreshMetrics)
 router.get('/metrics/trend', ga4Controller.getTrend)
 
+// Portfolio of all mapped domains
+router.get('/portfolio', ga4Controller.getPortfolio)
+
 // Daily activity snapshots
 router.get('/metrics/activity-snapshots', ga4Controller.getActivitySnapshots)
 router.post('/metrics/activity-snapshots', ga4Controller.recordActivitySnapshots)
 
+// Schema deployments vs. AI referral traffic
+router.get('/schema-impact', ga4Controller.getSchemaImpact)
+router.get('/schema-impact/urls/:urlId', ga4Controller.getUrlSchemaImpact)
+
 export default router
@@ -31,10 +31,18 @@ router.get('/connections/for-domain/:domain', hubspotController.findConnectionBy
 // Content discovery
 router.get('/content/posts', hubspotController.listBlogPosts)
 router.get('/content/pages', hubspotController.listPages)
+router.get('/content/landing-pages', hubspotController.listLandingPages)
 router.get('/content/match', hubspotController.matchContent)
 
+// Page draft publishing
+router.get('/content/draft-status', hubspotController.getDraftStatus)
+router.post('/content/publish', hubspotController.publishDraft)
+
 // Schema sync
 router.post('/sync/push', hubspotController.pushSchema)
+router.post('/sync/bulk/preview', hubspotController.previewBulkPush)
+router.post('/sync/bulk/push', hubspotController.bulkPushSchema)
+router.post('/sync/jobs/:syncJobId/rollback', hubspotController.rollbackSyncJob)
 router.get('/sync/history', hubspotController.getSyncHistory)
 
 export default router
@@ -0,0 +1,13 @@
+import express, { Router } from 'express'
+import { ingestCrawlerLogStream } from '../controllers/crawlerLogController.js'
+
+// Public routes - no auth, called by log drains with the per-domain ingest key
+const router = Router()
+
+// Raw text whatever the content type (NDJSON, JSON arrays, plain log lines); gzip is inflated
+const logBody = express.text({ type: '*/*', limit: '10mb' })
+
+// POST /ingest/crawler-logs/:ingestKey?format= - Ingest a batch of access log lines
+router.post('/crawler-logs/:ingestKey', logBody, ingestCrawlerLogStream)
+
+export default router
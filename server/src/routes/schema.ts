@@ -7,7 +7,6 @@ import {
   getGenerationStats,
   getGenerationInsights,
   batchGenerateSchemas,
-  batchGenerateSchemasStream,
   refineSchema,
   refineLibrarySchema,
   recalculateScore,
@@ -16,6 +15,16 @@ import {
   getUnviewedCount
 } from '../controllers/schemaController.js'
 import { authMiddleware, optionalAuth } from '../middleware/auth.js'
+import { apiKeyOrSessionAuth } from '../middleware/apiKeyAuth.js'
+import {
+  createBatchJob,
+  listBatchJobs,
+  getBatchJob,
+  pauseBatchJob,
+  resumeBatchJob,
+  cancelBatchJob,
+  retryBatchJob
+} from '../controllers/batchJobController.js'
 
 const router = Router()
 
@@ -25,14 +34,33 @@ const router = Router()
 router.post('/extract', optionalAuth, extractSchemaFromUrl)
 
 // PROTECTED ROUTES (auth required)
-// POST /api/schema/generate
-router.post('/generate', authMiddleware, generateSchema)
+// POST /api/schema/generate - Also accepts team API keys (X-API-Key) for CI/headless use
+router.post('/generate', apiKeyOrSessionAuth('schema:generate'), generateSchema)
 
 // POST /api/schema/batch-generate
 router.post('/batch-generate', authMiddleware, batchGenerateSchemas)
 
-// POST /api/schema/batch-generate-stream - SSE streaming for real-time progress
-router.post('/batch-generate-stream', authMiddleware, batchGenerateSchemasStream)
+// BATCH JOBS - persisted, processed by the background worker (survive the tab closing)
+// POST /api/schema/batch-jobs
+router.post('/batch-jobs', authMiddleware, createBatchJob)
+
+// GET /api/schema/batch-jobs
+router.get('/batch-jobs', authMiddleware, listBatchJobs)
+
+// GET /api/schema/batch-jobs/:jobId - Poll job + per-URL progress
+router.get('/batch-jobs/:jobId', authMiddleware, getBatchJob)
+
+// POST /api/schema/batch-jobs/:jobId/pause
+router.post('/batch-jobs/:jobId/pause', authMiddleware, pauseBatchJob)
+
+// POST /api/schema/batch-jobs/:jobId/resume
+router.post('/batch-jobs/:jobId/resume', authMiddleware, resumeBatchJob)
+
+// POST /api/schema/batch-jobs/:jobId/cancel
+router.post('/batch-jobs/:jobId/cancel', authMiddleware, cancelBatchJob)
+
+// POST /api/schema/batch-jobs/:jobId/retry - Re-queue failed URLs
+router.post('/batch-jobs/:jobId/retry', authMiddleware, retryBatchJob)
 
 // POST /api/schema/refine
 router.post('/refine', authMiddleware, refineSchema)
@@ -43,8 +71,8 @@ router.post('/refine-library', authMiddleware, refineLibrarySchema)
 // POST /api/schema/recalculate-score
 router.post('/recalculate-score', authMiddleware, recalculateScore)
 
-// POST /api/schema/validate
-router.post('/validate', authMiddleware, validateSchema)
+// POST /api/schema/validate - Also accepts team API keys (X-API-Key) for CI/headless use
+router.post('/validate', apiKeyOrSessionAuth('schema:validate'), validateSchema)
 
 // POST /api/schema/validate-multiple
 router.post('/validate-multiple', authMiddleware, validateMultipleSchemas)
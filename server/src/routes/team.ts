@@ -22,6 +22,22 @@ import {
   getCurrentTeam,
   createNewTeam
 } from '../controllers/teamController.js'
+import {
+  listApiKeys,
+  createApiKey,
+  updateApiKey,
+  rotateApiKey,
+  revokeApiKey
+} from '../controllers/apiKeyController.js'
+import {
+  listWebhookEndpoints,
+  createWebhookEndpoint,
+  updateWebhookEndpoint,
+  rotateWebhookSecret,
+  deleteWebhookEndpoint,
+  testWebhookEndpoint,
+  listWebhookDeliveries
+} from '../controllers/webhookEndpointController.js'
 
 const router = Router()
 
@@ -172,4 +188,180 @@ router.get(
   getCurrentTeam
 )
 
+// =============================================================================
+// API KEY ROUTES
+// =============================================================================
+
+/**
+ * GET /api/team/api-keys
+ * List the team's API keys (secrets are never returned)
+ * Requires: Team member
+ */
+router.get(
+  '/api-keys',
+  authMiddleware,
+  requireTeamsEnabled,
+  requireTeamContext,
+  requireTeamMember,
+  listApiKeys
+)
+
+/**
+ * POST /api/team/api-keys
+ * Create a new API key for headless schema generation/validation
+ * Requires: Team owner
+ */
+router.post(
+  '/api-keys',
+  authMiddleware,
+  requireTeamsEnabled,
+  requireTeamContext,
+  requireTeamOwner,
+  createApiKey
+)
+
+/**
+ * PATCH /api/team/api-keys/:keyId
+ * Rename an API key or change its scopes
+ * Requires: Team owner
+ */
+router.patch(
+  '/api-keys/:keyId',
+  authMiddleware,
+  requireTeamsEnabled,
+  requireTeamContext,
+  requireTeamOwner,
+  updateApiKey
+)
+
+/**
+ * POST /api/team/api-keys/:keyId/rotate
+ * Replace an API key's secret
+ * Requires: Team owner
+ */
+router.post(
+  '/api-keys/:keyId/rotate',
+  authMiddleware,
+  requireTeamsEnabled,
+  requireTeamContext,
+  requireTeamOwner,
+  rotateApiKey
+)
+
+/**
+ * DELETE /api/team/api-keys/:keyId
+ * Revoke an API key
+ * Requires: Team owner
+ */
+router.delete(
+  '/api-keys/:keyId',
+  authMiddleware,
+  requireTeamsEnabled,
+  requireTeamContext,
+  requireTeamOwner,
+  revokeApiKey
+)
+
+// =============================================================================
+// WEBHOOK ROUTES
+// =============================================================================
+
+/**
+ * GET /api/team/webhooks
+ * List the team's webhook endpoints (signing secrets are never returned)
+ * Requires: Team member
+ */
+router.get(
+  '/webhooks',
+  authMiddleware,
+  requireTeamsEnabled,
+  requireTeamContext,
+  requireTeamMember,
+  listWebhookEndpoints
+)
+
+/**
+ * POST /api/team/webhooks
+ * Register an endpoint for signed schema event deliveries
+ * Requires: Team owner
+ */
+router.post(
+  '/webhooks',
+  authMiddleware,
+  requireTeamsEnabled,
+  requireTeamContext,
+  requireTeamOwner,
+  createWebhookEndpoint
+)
+
+/**
+ * PATCH /api/team/webhooks/:endpointId
+ * Rename an endpoint, change its URL or events, or pause/resume it
+ * Requires: Team owner
+ */
+router.patch(
+  '/webhooks/:endpointId',
+  authMiddleware,
+  requireTeamsEnabled,
+  requireTeamContext,
+  requireTeamOwner,
+  updateWebhookEndpoint
+)
+
+/**
+ * POST /api/team/webhooks/:endpointId/rotate
+ * Replace an endpoint's signing secret
+ * Requires: Team owner
+ */
+router.post(
+  '/webhooks/:endpointId/rotate',
+  authMiddleware,
+  requireTeamsEnabled,
+  requireTeamContext,
+  requireTeamOwner,
+  rotateWebhookSecret
+)
+
+/**
+ * POST /api/team/webhooks/:endpointId/test
+ * Send a signed test event to an endpoint
+ * Requires: Team owner
+ */
+router.post(
+  '/webhooks/:endpointId/test',
+  authMiddleware,
+  requireTeamsEnabled,
+  requireTeamContext,
+  requireTeamOwner,
+  testWebhookEndpoint
+)
+
+/**
+ * GET /api/team/webhooks/:endpointId/deliveries
+ * Delivery log for an endpoint
+ * Requires: Team member
+ */
+router.get(
+  '/webhooks/:endpointId/deliveries',
+  authMiddleware,
+  requireTeamsEnabled,
+  requireTeamContext,
+  requireTeamMember,
+  listWebhookDeliveries
+)
+
+/**
+ * DELETE /api/team/webhooks/:endpointId
+ * Delete an endpoint and its delivery log
+ * Requires: Team owner
+ */
+router.delete(
+  '/webhooks/:endpointId',
+  authMiddleware,
+  requireTeamsEnabled,
+  requireTeamContext,
+  requireTeamOwner,
+  deleteWebhookEndpoint
+)
+
 export default router
@@ -6,11 +6,17 @@ import {
   hideUrl,
   unhideUrl,
   deleteDomain,
+  exportDomainSchemas,
+  downloadClientReport,
+  updateDomainEmbed,
+  rotateDomainEmbedKey,
   getUrlSchema,
   getAllUrlSchemas,
   updateUrlSchema,
   deleteUrl,
-  checkUrlExists
+  checkUrlExists,
+  getDriftSummary,
+  checkUrlDrift
 } from '../controllers/urlLibraryController.js'
 
 const router = Router()
@@ -18,6 +24,9 @@ const router = Router()
 // GET /api/library/domains - Get user's saved domains
 router.get('/domains', getUserDomains)
 
+// GET /api/library/drift-summary - Per-domain schema drift health
+router.get('/drift-summary', getDriftSummary)
+
 // GET /api/library/check-url - Check if a URL exists in user's library
 router.get('/check-url', checkUrlExists)
 
@@ -36,6 +45,9 @@ router.get('/urls/:urlId/schemas', getAllUrlSchemas)
 // PUT /api/library/urls/:urlId/schema - Update schema for a URL
 router.put('/urls/:urlId/schema', updateUrlSchema)
 
+// POST /api/library/urls/:urlId/drift-check - Compare live page with stored schema now
+router.post('/urls/:urlId/drift-check', checkUrlDrift)
+
 // PUT /api/library/urls/:urlId/hide - Hide a URL
 router.put('/urls/:urlId/hide', hideUrl)
 
@@ -45,6 +57,18 @@ router.put('/urls/:urlId/unhide', unhideUrl)
 // DELETE /api/library/urls/:urlId - Delete a discovered URL
 router.delete('/urls/:urlId', deleteUrl)
 
+// GET /api/library/domains/:domainId/export - Download a domain's schema (?format=json|csv|nextjs|astro|hugo|jekyll)
+router.get('/domains/:domainId/export', exportDomainSchemas)
+
+// GET /api/library/domains/:domainId/report - Download a branded client report (?format=html|pdf&days=7|30|90)
+router.get('/domains/:domainId/report', downloadClientReport)
+
+// PUT /api/library/domains/:domainId/embed - Enable or disable the embeddable schema loader
+router.put('/domains/:domainId/embed', updateDomainEmbed)
+
+// POST /api/library/domains/:domainId/embed/rotate - Replace the domain's embed site key
+router.post('/domains/:domainId/embed/rotate', rotateDomainEmbedKey)
+
 // DELETE /api/library/domains/:domainId - Delete a domain and all its URLs
 router.delete('/domains/:domainId', deleteDomain)
 
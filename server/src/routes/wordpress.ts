@@ -0,0 +1,29 @@
+import { Router } from 'express'
+import { authMiddleware } from '../middleware/auth.js'
+import * as wordpressController from '../controllers/wordpressController.js'
+
+const router = Router()
+
+// All WordPress routes require authentication
+router.use(authMiddleware)
+
+// Connection management
+router.post('/connections', wordpressController.createConnection)
+router.get('/connections', wordpressController.getConnections)
+router.get('/connections/:connectionId/validate', wordpressController.validateConnection)
+router.delete('/connections/:connectionId', wordpressController.disconnectSite)
+
+// Domain association
+router.patch('/connections/:connectionId/domains/add', wordpressController.addDomainToConnection)
+router.patch('/connections/:connectionId/domains/remove', wordpressController.removeDomainFromConnection)
+
+// Content discovery
+router.get('/content/posts', wordpressController.listPosts)
+router.get('/content/pages', wordpressController.listPages)
+router.get('/content/match', wordpressController.matchContent)
+
+// Schema sync
+router.post('/sync/push', wordpressController.pushSchema)
+router.get('/sync/history', wordpressController.getSyncHistory)
+
+export default router
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { aiProviderRegistry, type SchemaAIProvider } from './aiProviderRegistry.js'
+import { mockAIProvider } from './mockAIProvider.js'
+import type { ContentAnalysis } from './openai.js'
+
+const analysis: ContentAnalysis = {
+  url: 'https://example.com/about',
+  title: 'About Example',
+  description: 'Who we are',
+  content: 'Example is a company that makes examples.'
+}
+
+/**
+ * Test provider that fails with the given error, or returns a fixed schema
+ */
+function createFakeProvider(name: string, error?: Error): SchemaAIProvider & { callCount: number } {
+  return {
+    name,
+    modelId: `${name}-model`,
+    callCount: 0,
+    isAvailable: () => true,
+    isCircuitOpen: () => false,
+    async generateSchemas() {
+      this.callCount++
+      if (error) throw error
+      return [{ '@context': 'https://schema.org', '@type': 'WebPage', name }]
+    }
+  }
+}
+
+function httpError(status: number): Error {
+  return Object.assign(new Error(`HTTP ${status}`), { status })
+}
+
+describe('AIProviderRegistry', () => {
+  const originalEnv = { ...process.env }
+
+  beforeEach(() => {
+    mockAIProvider.reset()
+    process.env.AI_MODEL_PROVIDER = 'mock'
+    process.env.AI_FALLBACK_PROVIDER = 'none'
+    delete process.env.AI_PROVIDER_ROUTES
+  })
+
+  afterEach(() => {
+    process.env = { ...originalEnv }
+  })
+
+  describe('mock provider', () => {
+    it('generates schemas offline from the content analysis', async () => {
+      const { schemas, provider } = await aiProviderRegistry.generateSchemas(analysis)
+
+      expect(provider.name).toBe('mock')
+      expect(schemas).toHaveLength(1)
+      expect(schemas[0]['@type']).toBe('WebPage')
+      expect(schemas[0].name).toBe('About Example')
+      expect(mockAIProvider.calls).toHaveLength(1)
+    })
+
+    it('generates only the requested schema types', async () => {
+      const { schemas } = await aiProviderRegistry.generateSchemas(analysis, { requestedSchemaTypes: ['Article'] })
+
+      expect(schemas.map(schema => schema['@type'])).toEqual(['Article'])
+      expect(schemas[0].headline).toBe('About Example')
+    })
+  })
+
+  describe('routing', () => {
+    it('routes by schema type', () => {
+      process.env.AI_PROVIDER_ROUTES = JSON.stringify({ schemaTypes: { Recipe: 'openai' } })
+
+      expect(aiProviderRegistry.resolveChain({ schemaType: 'Recipe' }).map(p => p.name)).toEqual(['openai', 'mock'])
+      expect(aiProviderRegistry.resolveChain({ schemaType: 'Article' }).map(p => p.name)).toEqual(['mock'])
+    })
+
+    it('prefers team routes over schema type routes', () => {
+      process.env.AI_PROVIDER_ROUTES = JSON.stringify({
+        schemaTypes: { Recipe: 'openai' },
+        teams: { 'team-1': 'anthropic' }
+      })
+
+      expect(aiProviderRegistry.resolveChain({ schemaType: 'Recipe', teamId: 'team-1' })[0].name).toBe('anthropic')
+    })
+
+    it('ignores invalid routing JSON', () => {
+      process.env.AI_PROVIDER_ROUTES = '{not json'
+
+      expect(aiProviderRegistry.resolveChain({ schemaType: 'Recipe' }).map(p => p.name)).toEqual(['mock'])
+    })
+  })
+
+  describe('failover', () => {
+    it('fails over to the fallback provider on overload', async () => {
+      const overloaded = createFakeProvider('overloaded', httpError(529))
+      aiProviderRegistry.register(overloaded)
+      process.env.AI_MODEL_PROVIDER = 'overloaded'
+      process.env.AI_FALLBACK_PROVIDER = 'mock'
+
+      const { provider } = await aiProviderRegistry.generateSchemas(analysis)
+
+      expect(overloaded.callCount).toBe(1)
+      expect(provider.name).toBe('mock')
+    })
+
+    it('skips a provider whose circuit breaker is open', async () => {
+      const tripped = { ...createFakeProvider('tripped'), isCircuitOpen: () => true }
+      aiProviderRegistry.register(tripped)
+      process.env.AI_MODEL_PROVIDER = 'tripped'
+      process.env.AI_FALLBACK_PROVIDER = 'mock'
+
+      const { provider } = await aiProviderRegistry.generateSchemas(analysis)
+
+      expect(tripped.callCount).toBe(0)
+      expect(provider.name).toBe('mock')
+    })
+
+    it('does not fail over on client errors', async () => {
+      const rejecting = createFakeProvider('rejecting', httpError(400))
+      aiProviderRegistry.register(rejecting)
+      process.env.AI_MODEL_PROVIDER = 'rejecting'
+      process.env.AI_FALLBACK_PROVIDER = 'mock'
+
+      await expect(aiProviderRegistry.generateSchemas(analysis)).rejects.toMatchObject({
+        status: 400,
+        aiModelProvider: 'rejecting-model'
+      })
+      expect(mockAIProvider.calls).toHaveLength(0)
+    })
+  })
+})
@@ -0,0 +1,191 @@
+import type { JsonLdSchema } from 'aeo-schema-generator-shared/types'
+import type { ContentAnalysis, SchemaGenerationOptions } from './openai.js'
+import { openaiService } from './openai.js'
+import { anthropicService } from './anthropic.js'
+import { mockAIProvider } from './mockAIProvider.js'
+
+/**
+ * AI Provider Registry
+ *
+ * Decides which model generates schemas for a request and fails over to the next
+ * provider when one is overloaded or its circuit breaker has tripped.
+ *
+ * Configuration (environment):
+ * - AI_MODEL_PROVIDER: primary provider - anthropic (default), openai or mock
+ * - AI_FALLBACK_PROVIDER: provider tried when the routed one fails - defaults to the other
+ *   real provider; set to "none" to disable failover
+ * - AI_PROVIDER_ROUTES: optional JSON routing rules, team rules win over schema type rules
+ *   e.g. {"schemaTypes": {"Recipe": "openai"}, "teams": {"<team id>": "anthropic"}}
+ */
+
+export interface SchemaAIProvider {
+  readonly name: string
+  /** Model identifier recorded on generation records */
+  readonly modelId: string
+  /** Provider is configured (API key present) */
+  isAvailable(): boolean
+  /** Provider is refusing requests for now (circuit breaker tripped) */
+  isCircuitOpen(): boolean
+  generateSchemas(analysis: ContentAnalysis, options?: SchemaGenerationOptions): Promise<JsonLdSchema[]>
+}
+
+export interface ProviderRoutingContext {
+  /** Explicitly requested schema type ('Auto' or undefined for auto-detection) */
+  schemaType?: string
+  teamId?: string | null
+}
+
+interface ProviderRoutes {
+  schemaTypes: Record<string, string>
+  teams: Record<string, string>
+}
+
+const DEFAULT_PRIMARY_PROVIDER = 'anthropic'
+
+const DEFAULT_FALLBACKS: Record<string, string> = {
+  anthropic: 'openai',
+  openai: 'anthropic'
+}
+
+/**
+ * Errors where another provider has a real chance of succeeding
+ * (overload, rate limits, server errors, network failures) - not bad input
+ */
+function isFailoverError(error: any): boolean {
+  const status = error?.status
+  if (status === 429 || status === 529 || (typeof status === 'number' && status >= 500)) {
+    return true
+  }
+
+  return ['ETIMEDOUT', 'ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND'].includes(error?.code)
+}
+
+class AIProviderRegistry {
+  private providers = new Map<string, SchemaAIProvider>()
+
+  register(provider: SchemaAIProvider): void {
+    this.providers.set(provider.name, provider)
+  }
+
+  get(name: string): SchemaAIProvider | undefined {
+    return this.providers.get(name.toLowerCase())
+  }
+
+  getPrimaryName(): string {
+    return (process.env.AI_MODEL_PROVIDER || DEFAULT_PRIMARY_PROVIDER).toLowerCase()
+  }
+
+  /**
+   * Provider that serves requests when no routing rule matches
+   */
+  getPrimary(): SchemaAIProvider {
+    const primary = this.get(this.getPrimaryName())
+    if (!primary) {
+      console.warn(`⚠️ [AI Providers] Unknown AI_MODEL_PROVIDER "${this.getPrimaryName()}" - using ${DEFAULT_PRIMARY_PROVIDER}`)
+      return this.get(DEFAULT_PRIMARY_PROVIDER)!
+    }
+    return primary
+  }
+
+  private getFallbackName(providerName: string): string | null {
+    const configured = process.env.AI_FALLBACK_PROVIDER?.toLowerCase()
+    if (configured === 'none') {
+      return null
+    }
+    return configured || DEFAULT_FALLBACKS[providerName] || null
+  }
+
+  private getRoutes(): ProviderRoutes {
+    const routes: ProviderRoutes = { schemaTypes: {}, teams: {} }
+    const raw = process.env.AI_PROVIDER_ROUTES
+    if (!raw) {
+      return routes
+    }
+
+    try {
+      const parsed = JSON.parse(raw)
+      return {
+        schemaTypes: parsed.schemaTypes || {},
+        teams: parsed.teams || {}
+      }
+    } catch {
+      console.warn('⚠️ [AI Providers] AI_PROVIDER_ROUTES is not valid JSON - ignoring routing rules')
+      return routes
+    }
+  }
+
+  /**
+   * Ordered providers to try for a request: routed provider, primary, then fallback
+   */
+  resolveChain(context: ProviderRoutingContext = {}): SchemaAIProvider[] {
+    const routes = this.getRoutes()
+    const primary = this.getPrimary()
+
+    const routedName = (context.teamId && routes.teams[context.teamId])
+      || (context.schemaType && routes.schemaTypes[context.schemaType])
+      || primary.name
+
+    const names = [routedName, primary.name, this.getFallbackName(routedName)]
+    const chain: SchemaAIProvider[] = []
+
+    for (const name of names) {
+      const provider = name ? this.get(name) : undefined
+      if (provider && !chain.includes(provider)) {
+        chain.push(provider)
+      }
+    }
+
+    return chain
+  }
+
+  /**
+   * Generate schemas with the routed provider, failing over down the chain
+   * Providers without credentials or with a tripped circuit breaker are skipped; if none
+   * are usable the first one is still called so its own error reaches the user.
+   *
+   * Errors thrown carry `aiModelProvider` with the model that produced them.
+   */
+  async generateSchemas(
+    analysis: ContentAnalysis,
+    options: SchemaGenerationOptions = {},
+    context: ProviderRoutingContext = {}
+  ): Promise<{ schemas: JsonLdSchema[]; provider: SchemaAIProvider }> {
+    const chain = this.resolveChain(context)
+    const usable = chain.filter(provider => provider.isAvailable() && !provider.isCircuitOpen())
+    const candidates = usable.length > 0 ? usable : chain.slice(0, 1)
+
+    for (let i = 0; i < candidates.length; i++) {
+      const provider = candidates[i]
+
+      if (i === 0 && provider !== chain[0]) {
+        console.warn(`🔀 [AI Providers] Using ${provider.name} instead of ${chain[0].name}`)
+      }
+
+      try {
+        const schemas = await provider.generateSchemas(analysis, options)
+        return { schemas, provider }
+      } catch (error: any) {
+        if (error && typeof error === 'object') {
+          error.aiModelProvider = provider.modelId
+        }
+
+        const hasNext = i < candidates.length - 1
+        if (!hasNext || !isFailoverError(error)) {
+          throw error
+        }
+
+        console.warn(`⚠️ [AI Providers] ${provider.name} failed (${error.status || error.code}) - failing over to ${candidates[i + 1].name}`)
+      }
+    }
+
+    // Unreachable - the loop either returns or throws
+    throw new Error('No AI provider available')
+  }
+}
+
+export const aiProviderRegistry = new AIProviderRegistry()
+aiProviderRegistry.register(anthropicService)
+aiProviderRegistry.register(openaiService)
+aiProviderRegistry.register(mockAIProvider)
+
+export default aiProviderRegistry
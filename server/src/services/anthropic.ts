@@ -2,6 +2,7 @@ import Anthropic from '@anthropic-ai/sdk'
 import type { JsonLdSchema } from 'aeo-schema-generator-shared/types'
 import type { ContentAnalysis, SchemaGenerationOptions } from './openai'
 import { openaiService } from './openai.js'
+import type { SchemaAIProvider } from './aiProviderRegistry.js'
 
 /**
  * Anthropic Claude Service for Schema Generation
@@ -23,7 +24,9 @@ interface AnthropicError {
   message?: string
 }
 
-class AnthropicService {
+class AnthropicService implements SchemaAIProvider {
+  readonly name = 'anthropic'
+
   private client: Anthropic | null = null
   private clientInitialized = false
 
@@ -44,6 +47,33 @@ class AnthropicService {
   private readonly CIRCUIT_BREAKER_THRESHOLD = 3 // Trip after 3 consecutive 529s
   private readonly CIRCUIT_BREAKER_RESET_TIME = 300000 // 5 minutes
 
+  get modelId(): string {
+    return process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-20250514'
+  }
+
+  isAvailable(): boolean {
+    return !!process.env.ANTHROPIC_API_KEY
+  }
+
+  /**
+   * Whether the 529 circuit breaker is currently tripped
+   * Lets the provider registry fail over without waiting for this service to throw
+   */
+  isCircuitOpen(): boolean {
+    const now = Date.now()
+
+    // Reset counter every 5 minutes
+    if (now - AnthropicService.lastCircuitBreakerCheck > this.CIRCUIT_BREAKER_RESET_TIME) {
+      if (AnthropicService.consecutive529Errors > 0) {
+        console.log('🔄 [Circuit Breaker] Resetting after cooldown period')
+      }
+      AnthropicService.consecutive529Errors = 0
+      AnthropicService.lastCircuitBreakerCheck = now
+    }
+
+    return AnthropicService.consecutive529Errors >= this.CIRCUIT_BREAKER_THRESHOLD
+  }
+
   private initializeClient(): Anthropic | null {
     if (this.clientInitialized) {
       return this.client
@@ -76,19 +106,12 @@ class AnthropicService {
    * Fails fast during Anthropic outages to prevent cascading failures
    */
   private checkCircuitBreaker(): void {
-    const now = Date.now()
-
-    // Reset counter every 5 minutes
-    if (now - AnthropicService.lastCircuitBreakerCheck > this.CIRCUIT_BREAKER_RESET_TIME) {
-      console.log('🔄 [Circuit Breaker] Resetting after cooldown period')
-      AnthropicService.consecutive529Errors = 0
-      AnthropicService.lastCircuitBreakerCheck = now
-    }
-
     // If circuit is tripped, fail fast
-    if (AnthropicService.consecutive529Errors >= this.CIRCUIT_BREAKER_THRESHOLD) {
+    if (this.isCircuitOpen()) {
       console.error(`⚠️ [Circuit Breaker] TRIPPED - ${AnthropicService.consecutive529Errors} consecutive 529 errors detected`)
-      throw new Error('🔋 Our AI partner (Claude) is experiencing high demand. Your credit has been refunded. Please try again in a few minutes.')
+      const error = new Error('🔋 Our AI partner (Claude) is experiencing high demand. Your credit has been refunded. Please try again in a few minutes.') as any
+      error.status = 529 // Treated like an overload response so callers can fail over
+      throw error
     }
   }
 
@@ -238,7 +261,7 @@ class AnthropicService {
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
-        const model = process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-20250514'
+        const model = this.modelId
 
         if (attempt > 1) {
           const errorType = this.is529Error(lastError) ? '529 overload' : 'API error'
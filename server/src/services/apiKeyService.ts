@@ -0,0 +1,437 @@
+// IMPORTANT: Load environment variables FIRST
+import '../config/env.js'
+
+import { createClient } from '@supabase/supabase-js'
+import crypto from 'crypto'
+import { hash } from './encryption.js'
+import type {
+  ApiKeyScope,
+  TeamApiKey,
+  CreatedApiKey,
+  CreateApiKeyRequest,
+  UpdateApiKeyRequest
+} from 'aeo-schema-generator-shared/types'
+
+// Initialize Supabase client
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+)
+
+// =============================================================================
+// INTERNAL TYPES (Database row format)
+// =============================================================================
+
+interface TeamApiKeyRow {
+  id: string
+  team_id: string
+  created_by: string
+  name: string
+  key_prefix: string
+  key_hash: string
+  scopes: ApiKeyScope[] | null
+  last_used_at: string | null
+  last_used_ip: string | null
+  usage_count: number
+  rotated_at: string | null
+  revoked_at: string | null
+  revoked_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Result of authenticating a raw API key
+ * ownerId is the team owner whose credit balance pays for API calls
+ */
+export interface ApiKeyAuthResult {
+  keyId: string
+  teamId: string
+  ownerId: string
+  scopes: ApiKeyScope[]
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Prefix that identifies SuperSchema API keys (lets middleware route them away from Clerk JWTs) */
+export const API_KEY_PREFIX = 'ss_live_'
+
+export const API_KEY_SCOPES: readonly ApiKeyScope[] = ['schema:generate', 'schema:validate'] as const
+
+/** Maximum active (non-revoked) keys per team */
+export const MAX_ACTIVE_KEYS_PER_TEAM = 10
+
+const POSTGRES_ERROR_CODES = {
+  /** No rows returned from single-row query */
+  NOT_FOUND: 'PGRST116'
+} as const
+
+const ERROR_MESSAGES = {
+  NOT_FOUND: 'API key not found or access denied',
+  LIST_FAILED: 'Failed to list API keys',
+  CREATE_FAILED: 'Failed to create API key',
+  UPDATE_FAILED: 'Failed to update API key',
+  ROTATE_FAILED: 'Failed to rotate API key',
+  REVOKE_FAILED: 'Failed to revoke API key',
+  ALREADY_REVOKED: 'API key has already been revoked',
+  LIMIT_REACHED: `Teams can have at most ${MAX_ACTIVE_KEYS_PER_TEAM} active API keys`
+} as const
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function rowToApiKey(row: TeamApiKeyRow): TeamApiKey {
+  return {
+    id: row.id,
+    teamId: row.team_id,
+    createdBy: row.created_by,
+    name: row.name,
+    keyPrefix: row.key_prefix,
+    scopes: row.scopes || [],
+    lastUsedAt: row.last_used_at || undefined,
+    usageCount: row.usage_count,
+    rotatedAt: row.rotated_at || undefined,
+    revokedAt: row.revoked_at || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
+
+/**
+ * Generate a new raw API key secret
+ * 32 bytes of randomness, base64url encoded, behind a recognizable prefix
+ */
+function generateSecret(): { secret: string; prefix: string } {
+  const random = crypto
+    .randomBytes(32)
+    .toString('base64')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=/g, '')
+
+  const secret = `${API_KEY_PREFIX}${random}`
+
+  return {
+    secret,
+    prefix: secret.substring(0, API_KEY_PREFIX.length + 8)
+  }
+}
+
+/**
+ * Check whether a string looks like a SuperSchema API key
+ */
+export function isApiKey(value: string | undefined): boolean {
+  return !!value && value.startsWith(API_KEY_PREFIX)
+}
+
+/**
+ * Filter a requested scope list down to known scopes (defaults to all scopes)
+ */
+export function normalizeScopes(scopes: unknown): ApiKeyScope[] {
+  if (scopes === undefined || scopes === null) {
+    return [...API_KEY_SCOPES]
+  }
+
+  if (!Array.isArray(scopes)) {
+    throw new Error('Scopes must be an array')
+  }
+
+  const unknownScopes = scopes.filter(scope => !API_KEY_SCOPES.includes(scope))
+  if (unknownScopes.length > 0) {
+    throw new Error(`Unknown API key scope(s): ${unknownScopes.join(', ')}`)
+  }
+
+  const unique = Array.from(new Set(scopes as ApiKeyScope[]))
+  if (unique.length === 0) {
+    throw new Error('At least one scope is required')
+  }
+
+  return unique
+}
+
+// =============================================================================
+// CRUD OPERATIONS
+// =============================================================================
+
+/**
+ * List all API keys for a team (active first, newest first)
+ */
+export async function listApiKeys(teamId: string): Promise<TeamApiKey[]> {
+  const { data, error } = await supabase
+    .from('team_api_keys')
+    .select('*')
+    .eq('team_id', teamId)
+    .order('revoked_at', { ascending: true, nullsFirst: true })
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw new Error(`${ERROR_MESSAGES.LIST_FAILED}: ${error.message}`)
+  }
+
+  return (data || []).map(rowToApiKey)
+}
+
+/**
+ * Get a single API key by ID
+ * SECURITY: Always requires teamId to prevent cross-tenant data access
+ */
+export async function getApiKey(keyId: string, teamId: string): Promise<TeamApiKey | null> {
+  const { data, error } = await supabase
+    .from('team_api_keys')
+    .select('*')
+    .eq('id', keyId)
+    .eq('team_id', teamId)
+    .single()
+
+  if (error) {
+    if (error.code === POSTGRES_ERROR_CODES.NOT_FOUND) {
+      return null
+    }
+    throw new Error(`${ERROR_MESSAGES.NOT_FOUND}: ${error.message}`)
+  }
+
+  return rowToApiKey(data)
+}
+
+/**
+ * Create a new API key for a team
+ * Returns the raw secret - it is not stored and cannot be retrieved again
+ */
+export async function createApiKey(
+  teamId: string,
+  createdBy: string,
+  request: CreateApiKeyRequest
+): Promise<CreatedApiKey> {
+  const { count, error: countError } = await supabase
+    .from('team_api_keys')
+    .select('*', { count: 'exact', head: true })
+    .eq('team_id', teamId)
+    .is('revoked_at', null)
+
+  if (countError) {
+    throw new Error(`${ERROR_MESSAGES.CREATE_FAILED}: ${countError.message}`)
+  }
+
+  if ((count || 0) >= MAX_ACTIVE_KEYS_PER_TEAM) {
+    throw new Error(ERROR_MESSAGES.LIMIT_REACHED)
+  }
+
+  const { secret, prefix } = generateSecret()
+
+  const { data, error } = await supabase
+    .from('team_api_keys')
+    .insert({
+      team_id: teamId,
+      created_by: createdBy,
+      name: request.name,
+      key_prefix: prefix,
+      key_hash: hash(secret),
+      scopes: normalizeScopes(request.scopes)
+    })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`${ERROR_MESSAGES.CREATE_FAILED}: ${error.message}`)
+  }
+
+  console.log(`🔑 [ApiKeys] Created key ${data.id} (${prefix}…) for team ${teamId}`)
+
+  return {
+    apiKey: rowToApiKey(data),
+    secret
+  }
+}
+
+/**
+ * Rename an API key or change its scopes
+ */
+export async function updateApiKey(
+  keyId: string,
+  teamId: string,
+  request: UpdateApiKeyRequest
+): Promise<TeamApiKey> {
+  const existing = await getApiKey(keyId, teamId)
+  if (!existing) {
+    throw new Error(ERROR_MESSAGES.NOT_FOUND)
+  }
+  if (existing.revokedAt) {
+    throw new Error(ERROR_MESSAGES.ALREADY_REVOKED)
+  }
+
+  const updateData: Partial<TeamApiKeyRow> = {}
+  if (request.name !== undefined) updateData.name = request.name
+  if (request.scopes !== undefined) updateData.scopes = normalizeScopes(request.scopes)
+
+  const { data, error } = await supabase
+    .from('team_api_keys')
+    .update(updateData)
+    .eq('id', keyId)
+    .eq('team_id', teamId)  // Defense in depth: always filter by team_id
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`${ERROR_MESSAGES.UPDATE_FAILED}: ${error.message}`)
+  }
+
+  return rowToApiKey(data)
+}
+
+/**
+ * Rotate an API key's secret
+ * The previous secret stops working immediately; name, scopes and usage history are kept
+ */
+export async function rotateApiKey(keyId: string, teamId: string): Promise<CreatedApiKey> {
+  const existing = await getApiKey(keyId, teamId)
+  if (!existing) {
+    throw new Error(ERROR_MESSAGES.NOT_FOUND)
+  }
+  if (existing.revokedAt) {
+    throw new Error(ERROR_MESSAGES.ALREADY_REVOKED)
+  }
+
+  const { secret, prefix } = generateSecret()
+
+  const { data, error } = await supabase
+    .from('team_api_keys')
+    .update({
+      key_prefix: prefix,
+      key_hash: hash(secret),
+      rotated_at: new Date().toISOString()
+    })
+    .eq('id', keyId)
+    .eq('team_id', teamId)
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`${ERROR_MESSAGES.ROTATE_FAILED}: ${error.message}`)
+  }
+
+  console.log(`🔄 [ApiKeys] Rotated key ${keyId} for team ${teamId}`)
+
+  return {
+    apiKey: rowToApiKey(data),
+    secret
+  }
+}
+
+/**
+ * Revoke an API key (soft delete - kept for audit history)
+ */
+export async function revokeApiKey(keyId: string, teamId: string, revokedBy: string): Promise<void> {
+  const existing = await getApiKey(keyId, teamId)
+  if (!existing) {
+    throw new Error(ERROR_MESSAGES.NOT_FOUND)
+  }
+  if (existing.revokedAt) {
+    throw new Error(ERROR_MESSAGES.ALREADY_REVOKED)
+  }
+
+  const { error } = await supabase
+    .from('team_api_keys')
+    .update({
+      revoked_at: new Date().toISOString(),
+      revoked_by: revokedBy
+    })
+    .eq('id', keyId)
+    .eq('team_id', teamId)
+
+  if (error) {
+    throw new Error(`${ERROR_MESSAGES.REVOKE_FAILED}: ${error.message}`)
+  }
+
+  console.log(`🗑️ [ApiKeys] Revoked key ${keyId} for team ${teamId}`)
+}
+
+// =============================================================================
+// AUTHENTICATION
+// =============================================================================
+
+/**
+ * Resolve a raw API key to its team and paying owner
+ * Returns null for unknown or revoked keys
+ */
+export async function authenticateApiKey(rawKey: string): Promise<ApiKeyAuthResult | null> {
+  if (!isApiKey(rawKey)) {
+    return null
+  }
+
+  const { data, error } = await supabase
+    .from('team_api_keys')
+    .select(`
+      id,
+      team_id,
+      scopes,
+      revoked_at,
+      teams!inner (
+        owner_id
+      )
+    `)
+    .eq('key_hash', hash(rawKey))
+    .is('revoked_at', null)
+    .single()
+
+  if (error) {
+    if (error.code === POSTGRES_ERROR_CODES.NOT_FOUND) {
+      return null
+    }
+    throw new Error(`Failed to authenticate API key: ${error.message}`)
+  }
+
+  const team = Array.isArray(data.teams) ? data.teams[0] : data.teams
+  if (!team?.owner_id) {
+    return null
+  }
+
+  return {
+    keyId: data.id,
+    teamId: data.team_id,
+    ownerId: team.owner_id,
+    scopes: (data.scopes as ApiKeyScope[] | null) || []
+  }
+}
+
+/**
+ * Record that a key was used (best effort - never blocks the request)
+ */
+export async function recordApiKeyUsage(keyId: string, ipAddress?: string): Promise<void> {
+  const { error } = await supabase.rpc('record_api_key_usage', {
+    p_key_id: keyId,
+    p_ip_address: ipAddress || null
+  })
+
+  if (error) {
+    console.warn(`⚠️ [ApiKeys] Failed to record usage for key ${keyId}:`, error.message)
+  }
+}
+
+// =============================================================================
+// EXPORTS
+// =============================================================================
+
+export default {
+  // CRUD operations
+  listApiKeys,
+  getApiKey,
+  createApiKey,
+  updateApiKey,
+  rotateApiKey,
+  revokeApiKey,
+
+  // Authentication
+  authenticateApiKey,
+  recordApiKeyUsage,
+  isApiKey,
+  normalizeScopes
+}
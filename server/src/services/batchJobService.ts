@@ -0,0 +1,565 @@
+// IMPORTANT: Load environment variables FIRST
+import '../config/env.js'
+
+import { createClient } from '@supabase/supabase-js'
+import type {
+  BatchJob,
+  BatchJobItem,
+  BatchJobDetails,
+  BatchJobStatus,
+  BatchJobItemStatus
+} from 'aeo-schema-generator-shared/types'
+
+// Initialize Supabase client
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+)
+
+// =============================================================================
+// INTERNAL TYPES (Database row format)
+// =============================================================================
+
+interface BatchJobRow {
+  id: string
+  user_id: string
+  team_id: string | null
+  status: BatchJobStatus
+  pause_reason: string | null
+  options: Record<string, any> | null
+  total_urls: number
+  success_count: number
+  failed_count: number
+  credits_used: number
+  started_at: string | null
+  completed_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface BatchJobItemRow {
+  id: string
+  job_id: string
+  position: number
+  url: string
+  status: BatchJobItemStatus
+  attempts: number
+  error: string | null
+  schema_id: string | null
+  discovered_url_id: string | null
+  credits_used: number
+  started_at: string | null
+  completed_at: string | null
+}
+
+/**
+ * Outcome of processing a single URL, written back by the worker
+ */
+export interface BatchJobItemResult {
+  success: boolean
+  error?: string
+  schemaId?: string
+  discoveredUrlId?: string
+  creditsUsed: number
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Maximum URLs per job - large enough for a full crawled domain */
+export const MAX_URLS_PER_JOB = 500
+
+/** Maximum non-terminal jobs a user can have at once */
+export const MAX_ACTIVE_JOBS_PER_USER = 3
+
+const ACTIVE_JOB_STATUSES: BatchJobStatus[] = ['queued', 'running', 'paused']
+
+const POSTGRES_ERROR_CODES = {
+  /** No rows returned from single-row query */
+  NOT_FOUND: 'PGRST116'
+} as const
+
+const ERROR_MESSAGES = {
+  NOT_FOUND: 'Batch job not found or access denied',
+  CREATE_FAILED: 'Failed to create batch job',
+  LIST_FAILED: 'Failed to list batch jobs',
+  UPDATE_FAILED: 'Failed to update batch job',
+  TOO_MANY_ACTIVE: `You can have at most ${MAX_ACTIVE_JOBS_PER_USER} active batch jobs - wait for one to finish or cancel it`,
+  INVALID_TRANSITION: 'Batch job cannot be changed from its current status',
+  NOTHING_TO_RETRY: 'Batch job has no failed URLs to retry'
+} as const
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function rowToJob(row: BatchJobRow): BatchJob {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    teamId: row.team_id || undefined,
+    status: row.status,
+    pauseReason: row.pause_reason || undefined,
+    options: row.options || {},
+    totalUrls: row.total_urls,
+    successCount: row.success_count,
+    failedCount: row.failed_count,
+    creditsUsed: row.credits_used,
+    startedAt: row.started_at || undefined,
+    completedAt: row.completed_at || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
+
+function rowToItem(row: BatchJobItemRow): BatchJobItem {
+  return {
+    id: row.id,
+    jobId: row.job_id,
+    position: row.position,
+    url: row.url,
+    status: row.status,
+    attempts: row.attempts,
+    error: row.error || undefined,
+    schemaId: row.schema_id || undefined,
+    discoveredUrlId: row.discovered_url_id || undefined,
+    startedAt: row.started_at || undefined,
+    completedAt: row.completed_at || undefined
+  }
+}
+
+/**
+ * Conditionally move a job between statuses
+ * Returns null when the job is not in one of the allowed source statuses
+ */
+async function transitionJob(
+  jobId: string,
+  userId: string,
+  from: BatchJobStatus[],
+  update: Partial<BatchJobRow>
+): Promise<BatchJob | null> {
+  const { data, error } = await supabase
+    .from('batch_jobs')
+    .update(update)
+    .eq('id', jobId)
+    .eq('user_id', userId)
+    .in('status', from)
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`${ERROR_MESSAGES.UPDATE_FAILED}: ${error.message}`)
+  }
+
+  return data ? rowToJob(data) : null
+}
+
+/**
+ * Ensure a job exists and belongs to the user before a state change
+ */
+async function requireJob(jobId: string, userId: string): Promise<BatchJob> {
+  const job = await getJob(jobId, userId)
+  if (!job) {
+    throw new Error(ERROR_MESSAGES.NOT_FOUND)
+  }
+  return job
+}
+
+// =============================================================================
+// JOB OPERATIONS
+// =============================================================================
+
+/**
+ * Persist a new job and its URLs - the worker picks it up from the queue
+ */
+export async function createJob(
+  userId: string,
+  urls: string[],
+  options: Record<string, any> = {},
+  teamId?: string
+): Promise<BatchJob> {
+  const { count, error: countError } = await supabase
+    .from('batch_jobs')
+    .select('*', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .in('status', ACTIVE_JOB_STATUSES)
+
+  if (countError) {
+    throw new Error(`${ERROR_MESSAGES.CREATE_FAILED}: ${countError.message}`)
+  }
+
+  if ((count || 0) >= MAX_ACTIVE_JOBS_PER_USER) {
+    throw new Error(ERROR_MESSAGES.TOO_MANY_ACTIVE)
+  }
+
+  const { data: jobRow, error: jobError } = await supabase
+    .from('batch_jobs')
+    .insert({
+      user_id: userId,
+      team_id: teamId || null,
+      options,
+      total_urls: urls.length
+    })
+    .select()
+    .single()
+
+  if (jobError) {
+    throw new Error(`${ERROR_MESSAGES.CREATE_FAILED}: ${jobError.message}`)
+  }
+
+  const { error: itemsError } = await supabase
+    .from('batch_job_items')
+    .insert(urls.map((url, position) => ({
+      job_id: jobRow.id,
+      position,
+      url
+    })))
+
+  if (itemsError) {
+    // Don't leave an empty job behind for the worker
+    await supabase.from('batch_jobs').delete().eq('id', jobRow.id)
+    throw new Error(`${ERROR_MESSAGES.CREATE_FAILED}: ${itemsError.message}`)
+  }
+
+  console.log(`📦 [BatchJobs] Created job ${jobRow.id} with ${urls.length} URLs for user ${userId}`)
+
+  return rowToJob(jobRow)
+}
+
+/**
+ * Get a job by ID
+ * SECURITY: Always requires userId to prevent cross-user access
+ */
+export async function getJob(jobId: string, userId: string): Promise<BatchJob | null> {
+  const { data, error } = await supabase
+    .from('batch_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .eq('user_id', userId)
+    .single()
+
+  if (error) {
+    if (error.code === POSTGRES_ERROR_CODES.NOT_FOUND) {
+      return null
+    }
+    throw new Error(`${ERROR_MESSAGES.NOT_FOUND}: ${error.message}`)
+  }
+
+  return rowToJob(data)
+}
+
+/**
+ * Get a job with all of its items (used for polling/reattaching)
+ */
+export async function getJobDetails(jobId: string, userId: string): Promise<BatchJobDetails | null> {
+  const job = await getJob(jobId, userId)
+  if (!job) {
+    return null
+  }
+
+  const { data, error } = await supabase
+    .from('batch_job_items')
+    .select('*')
+    .eq('job_id', jobId)
+    .order('position', { ascending: true })
+
+  if (error) {
+    throw new Error(`${ERROR_MESSAGES.LIST_FAILED}: ${error.message}`)
+  }
+
+  return {
+    job,
+    items: (data || []).map(rowToItem)
+  }
+}
+
+/**
+ * List a user's jobs, newest first
+ */
+export async function listJobs(userId: string, limit: number = 20): Promise<BatchJob[]> {
+  const { data, error } = await supabase
+    .from('batch_jobs')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`${ERROR_MESSAGES.LIST_FAILED}: ${error.message}`)
+  }
+
+  return (data || []).map(rowToJob)
+}
+
+/**
+ * Pause a job - URLs already being processed finish, no new ones are claimed
+ */
+export async function pauseJob(jobId: string, userId: string, reason?: string): Promise<BatchJob> {
+  await requireJob(jobId, userId)
+
+  const job = await transitionJob(jobId, userId, ['queued', 'running'], {
+    status: 'paused',
+    pause_reason: reason || null
+  })
+
+  if (!job) {
+    throw new Error(ERROR_MESSAGES.INVALID_TRANSITION)
+  }
+
+  console.log(`⏸️ [BatchJobs] Paused job ${jobId}${reason ? ` (${reason})` : ''}`)
+  return job
+}
+
+/**
+ * Resume a paused job
+ */
+export async function resumeJob(jobId: string, userId: string): Promise<BatchJob> {
+  await requireJob(jobId, userId)
+
+  const job = await transitionJob(jobId, userId, ['paused'], {
+    status: 'running',
+    pause_reason: null
+  })
+
+  if (!job) {
+    throw new Error(ERROR_MESSAGES.INVALID_TRANSITION)
+  }
+
+  // Job may have drained while paused (in-flight items finished)
+  await completeJobIfDrained(jobId)
+
+  console.log(`▶️ [BatchJobs] Resumed job ${jobId}`)
+  return (await getJob(jobId, userId)) || job
+}
+
+/**
+ * Cancel a job - queued URLs are marked cancelled, in-flight URLs are allowed to finish
+ */
+export async function cancelJob(jobId: string, userId: string): Promise<BatchJob> {
+  await requireJob(jobId, userId)
+
+  const job = await transitionJob(jobId, userId, ACTIVE_JOB_STATUSES, {
+    status: 'cancelled',
+    completed_at: new Date().toISOString()
+  })
+
+  if (!job) {
+    throw new Error(ERROR_MESSAGES.INVALID_TRANSITION)
+  }
+
+  const { error } = await supabase
+    .from('batch_job_items')
+    .update({ status: 'cancelled' })
+    .eq('job_id', jobId)
+    .eq('status', 'queued')
+
+  if (error) {
+    throw new Error(`${ERROR_MESSAGES.UPDATE_FAILED}: ${error.message}`)
+  }
+
+  console.log(`🛑 [BatchJobs] Cancelled job ${jobId}`)
+  return job
+}
+
+/**
+ * Re-queue every failed URL in a job and put the job back in the queue
+ */
+export async function retryFailedItems(jobId: string, userId: string): Promise<BatchJob> {
+  const existing = await requireJob(jobId, userId)
+
+  if (existing.status === 'cancelled') {
+    throw new Error(ERROR_MESSAGES.INVALID_TRANSITION)
+  }
+
+  const { data: requeued, error } = await supabase
+    .from('batch_job_items')
+    .update({ status: 'queued', error: null, completed_at: null })
+    .eq('job_id', jobId)
+    .eq('status', 'failed')
+    .select('id')
+
+  if (error) {
+    throw new Error(`${ERROR_MESSAGES.UPDATE_FAILED}: ${error.message}`)
+  }
+
+  if (!requeued || requeued.length === 0) {
+    throw new Error(ERROR_MESSAGES.NOTHING_TO_RETRY)
+  }
+
+  // Failed counter is recalculated from the items so it stays accurate after retries
+  const job = await transitionJob(jobId, userId, ['queued', 'running', 'paused', 'completed'], {
+    status: existing.status === 'paused' ? 'paused' : 'queued',
+    failed_count: Math.max(0, existing.failedCount - requeued.length),
+    completed_at: null
+  })
+
+  if (!job) {
+    throw new Error(ERROR_MESSAGES.INVALID_TRANSITION)
+  }
+
+  console.log(`🔁 [BatchJobs] Re-queued ${requeued.length} failed URLs in job ${jobId}`)
+  return job
+}
+
+// =============================================================================
+// WORKER OPERATIONS
+// =============================================================================
+
+/**
+ * Atomically claim the next queued URL across all active jobs
+ * Claims rotate between users (least recently served first), so one large job cannot hold
+ * every worker slot while other users wait
+ */
+export async function claimNextItem(): Promise<BatchJobItemRow | null> {
+  const { data, error } = await supabase.rpc('claim_next_batch_job_item')
+
+  if (error) {
+    throw new Error(`Failed to claim batch job item: ${error.message}`)
+  }
+
+  const rows = (data || []) as BatchJobItemRow[]
+  return rows[0] || null
+}
+
+/**
+ * Load job data the worker needs to process a claimed item (no ownership check)
+ */
+export async function getJobForWorker(jobId: string): Promise<BatchJob | null> {
+  const { data, error } = await supabase
+    .from('batch_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .single()
+
+  if (error) {
+    if (error.code === POSTGRES_ERROR_CODES.NOT_FOUND) {
+      return null
+    }
+    throw new Error(`${ERROR_MESSAGES.NOT_FOUND}: ${error.message}`)
+  }
+
+  return rowToJob(data)
+}
+
+/**
+ * Record the outcome of a URL and update job counters
+ */
+export async function completeItem(itemId: string, result: BatchJobItemResult): Promise<void> {
+  const { error } = await supabase.rpc('complete_batch_job_item', {
+    p_item_id: itemId,
+    p_success: result.success,
+    p_error: result.error || null,
+    p_schema_id: result.schemaId || null,
+    p_discovered_url_id: result.discoveredUrlId || null,
+    p_credits_used: result.creditsUsed
+  })
+
+  if (error) {
+    throw new Error(`Failed to record batch job item result: ${error.message}`)
+  }
+}
+
+/**
+ * Put a claimed item back in the queue without counting it as failed
+ * Used when a job is paused because the user ran out of credits
+ */
+export async function requeueItem(itemId: string): Promise<void> {
+  const { error } = await supabase
+    .from('batch_job_items')
+    .update({ status: 'queued', started_at: null })
+    .eq('id', itemId)
+    .eq('status', 'processing')
+
+  if (error) {
+    throw new Error(`Failed to re-queue batch job item: ${error.message}`)
+  }
+}
+
+/**
+ * Pause a job on behalf of the worker (e.g. out of credits)
+ */
+export async function pauseJobForWorker(jobId: string, reason: string): Promise<void> {
+  const { error } = await supabase
+    .from('batch_jobs')
+    .update({ status: 'paused', pause_reason: reason })
+    .eq('id', jobId)
+    .in('status', ['queued', 'running'])
+
+  if (error) {
+    throw new Error(`${ERROR_MESSAGES.UPDATE_FAILED}: ${error.message}`)
+  }
+}
+
+/**
+ * Mark a running job completed when it has no queued or processing items left
+ */
+export async function completeJobIfDrained(jobId: string): Promise<void> {
+  const { count, error } = await supabase
+    .from('batch_job_items')
+    .select('*', { count: 'exact', head: true })
+    .eq('job_id', jobId)
+    .in('status', ['queued', 'processing'])
+
+  if (error || (count || 0) > 0) {
+    return
+  }
+
+  await supabase
+    .from('batch_jobs')
+    .update({ status: 'completed', completed_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .in('status', ['queued', 'running'])
+}
+
+/**
+ * Re-queue items left in "processing" by a crashed or restarted server
+ * Returns the number of items recovered
+ */
+export async function recoverStaleItems(staleAfterMs: number): Promise<number> {
+  const cutoff = new Date(Date.now() - staleAfterMs).toISOString()
+
+  const { data, error } = await supabase
+    .from('batch_job_items')
+    .update({ status: 'queued', started_at: null })
+    .eq('status', 'processing')
+    .lt('started_at', cutoff)
+    .select('id')
+
+  if (error) {
+    throw new Error(`Failed to recover stale batch job items: ${error.message}`)
+  }
+
+  return data?.length || 0
+}
+
+// =============================================================================
+// EXPORTS
+// =============================================================================
+
+export default {
+  // Job operations
+  createJob,
+  getJob,
+  getJobDetails,
+  listJobs,
+  pauseJob,
+  resumeJob,
+  cancelJob,
+  retryFailedItems,
+
+  // Worker operations
+  claimNextItem,
+  getJobForWorker,
+  completeItem,
+  requeueItem,
+  pauseJobForWorker,
+  completeJobIfDrained,
+  recoverStaleItems
+}
@@ -0,0 +1,233 @@
+/**
+ * Batch Job Worker
+ * Processes persisted batch generation jobs in the background
+ *
+ * The worker claims queued URLs one at a time through claim_next_batch_job_item()
+ * (SKIP LOCKED, so several server instances can share the queue) and keeps at most
+ * WORKER_CONCURRENCY generations in flight. All state lives in the database, so a
+ * restart only loses in-flight URLs, which are re-queued by stale item recovery.
+ */
+
+import { schemaGeneratorService } from './schemaGenerator.js'
+import { db } from './database.js'
+import batchJobService, { type BatchJobItemRow, type BatchJobItemResult } from './batchJobService.js'
+import { extractPath, calculatePathDepth, extractBaseDomain } from '../utils/urlHelpers.js'
+import { validatorService } from './validator.js'
+import { emitSchemaChangeEvents } from './webhooks/delivery.js'
+import { schemaImportService } from './schemaImport.js'
+
+/** Maximum URLs generated at the same time (across all jobs) */
+const WORKER_CONCURRENCY = 3
+
+/** How often the worker looks for new work when idle */
+const POLL_INTERVAL_MS = 5000
+
+/** Items stuck in "processing" longer than this are assumed orphaned by a restart */
+const STALE_ITEM_TIMEOUT_MS = 10 * 60 * 1000
+
+/** How often stale item recovery runs */
+const STALE_RECOVERY_INTERVAL_MS = 60 * 1000
+
+/** Generation errors that should pause the job instead of failing every remaining URL */
+const PAUSE_ON_ERRORS = ['Insufficient credits']
+
+export class BatchJobWorker {
+  private activeCount = 0
+  private isFilling = false
+  private pollTimer: NodeJS.Timeout | null = null
+  private recoveryTimer: NodeJS.Timeout | null = null
+
+  /**
+   * Start polling for work and recover anything left over from a previous run
+   */
+  start(): void {
+    if (this.pollTimer) {
+      return
+    }
+
+    this.recoverStaleItems()
+    this.pollTimer = setInterval(() => this.kick(), POLL_INTERVAL_MS)
+    this.recoveryTimer = setInterval(() => this.recoverStaleItems(), STALE_RECOVERY_INTERVAL_MS)
+    this.kick()
+
+    console.log(`⚙️ [BatchJobWorker] Started (concurrency ${WORKER_CONCURRENCY})`)
+  }
+
+  /**
+   * Stop polling - in-flight URLs are allowed to finish
+   */
+  stop(): void {
+    if (this.pollTimer) clearInterval(this.pollTimer)
+    if (this.recoveryTimer) clearInterval(this.recoveryTimer)
+    this.pollTimer = null
+    this.recoveryTimer = null
+  }
+
+  /**
+   * Fill free worker slots with queued URLs
+   * Called on every poll and right after a job is created/resumed/retried
+   */
+  kick(): void {
+    if (this.isFilling) {
+      return
+    }
+
+    this.isFilling = true
+    this.fillSlots()
+      .catch((error) => {
+        console.error('❌ [BatchJobWorker] Failed to claim work:', error)
+      })
+      .finally(() => {
+        this.isFilling = false
+      })
+  }
+
+  private async fillSlots(): Promise<void> {
+    while (this.activeCount < WORKER_CONCURRENCY) {
+      const item = await batchJobService.claimNextItem()
+      if (!item) {
+        return
+      }
+
+      this.activeCount++
+      this.processItem(item)
+        .catch((error) => {
+          console.error(`❌ [BatchJobWorker] Unexpected error processing item ${item.id}:`, error)
+        })
+        .finally(() => {
+          this.activeCount--
+          this.kick()
+        })
+    }
+  }
+
+  private async processItem(item: BatchJobItemRow): Promise<void> {
+    const job = await batchJobService.getJobForWorker(item.job_id)
+    if (!job) {
+      return
+    }
+
+    console.log(`📦 [BatchJobWorker] Processing ${item.url} (job ${job.id}, #${item.position + 1}/${job.totalUrls}, attempt ${item.attempts})`)
+
+    let result: BatchJobItemResult
+
+    if (job.options.mode === 'import') {
+      result = await this.importItem(job.userId, item.url)
+      await batchJobService.completeItem(item.id, result)
+      console.log(`${result.success ? '📥' : '❌'} [BatchJobWorker] ${item.url}: ${result.success ? 'imported' : result.error}`)
+      return
+    }
+
+    try {
+      const generation = await schemaGeneratorService.generateSchemas({
+        url: item.url,
+        userId: job.userId,
+        options: job.options
+      })
+
+      const errorMessage = generation.metadata.errorMessage
+
+      if (!generation.success && errorMessage && PAUSE_ON_ERRORS.some(e => errorMessage.includes(e))) {
+        // Don't burn through the rest of the batch - wait for the user to top up and resume
+        await batchJobService.requeueItem(item.id)
+        await batchJobService.pauseJobForWorker(job.id, errorMessage)
+        console.warn(`⏸️ [BatchJobWorker] Paused job ${job.id}: ${errorMessage}`)
+        return
+      }
+
+      result = {
+        success: generation.success,
+        error: errorMessage,
+        schemaId: generation.metadata.schemaId,
+        creditsUsed: generation.metadata.creditsUsed
+      }
+
+      if (generation.success && generation.metadata.schemaId) {
+        result.discoveredUrlId = await this.saveToLibrary(job.userId, item.url, generation.metadata.schemaId)
+      }
+
+      if (generation.success) {
+        emitSchemaChangeEvents(
+          { userId: job.userId, teamId: job.teamId },
+          'schema.generated',
+          {
+            url: item.url,
+            urlId: result.discoveredUrlId,
+            schemaId: generation.metadata.schemaId,
+            schemas: generation.schemas,
+            schemaScore: generation.schemaScore?.overallScore
+          },
+          validatorService.validateMultipleSchemas(generation.schemas)
+        )
+      }
+    } catch (error) {
+      result = {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        creditsUsed: 0
+      }
+    }
+
+    await batchJobService.completeItem(item.id, result)
+
+    console.log(`${result.success ? '✅' : '❌'} [BatchJobWorker] ${item.url}: ${result.success ? 'success' : result.error}`)
+  }
+
+  /**
+   * Import a URL's existing JSON-LD into the library instead of generating - never charges credits
+   */
+  private async importItem(userId: string, url: string): Promise<BatchJobItemResult> {
+    try {
+      const imported = await schemaImportService.importUrl(userId, url)
+
+      return {
+        success: true,
+        schemaId: imported.schemaId,
+        discoveredUrlId: await this.saveToLibrary(userId, url, imported.schemaId),
+        creditsUsed: 0
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        creditsUsed: 0
+      }
+    }
+  }
+
+  /**
+   * Save a generated URL to the user's library and link its schema
+   * Library failures don't fail the URL - the schema was still generated and charged
+   */
+  private async saveToLibrary(userId: string, url: string, schemaId: string): Promise<string | undefined> {
+    try {
+      const domain = await db.saveOrUpdateDomain(userId, extractBaseDomain(url))
+      const path = extractPath(url)
+      const depth = calculatePathDepth(path)
+
+      const discoveredUrl = await db.saveSingleUrlToLibrary(userId, url, path, depth, domain.id)
+      await db.linkSchemaToDiscoveredUrl(schemaId, discoveredUrl.id)
+
+      return discoveredUrl.id
+    } catch (error) {
+      console.error('❌ [BatchJobWorker] Failed to save URL to library:', error)
+      return undefined
+    }
+  }
+
+  private recoverStaleItems(): void {
+    batchJobService.recoverStaleItems(STALE_ITEM_TIMEOUT_MS)
+      .then((count) => {
+        if (count > 0) {
+          console.log(`🔧 [BatchJobWorker] Re-queued ${count} stale processing item(s)`)
+          this.kick()
+        }
+      })
+      .catch((error) => {
+        console.error('❌ [BatchJobWorker] Stale item recovery failed:', error)
+      })
+  }
+}
+
+// Export singleton instance
+export const batchJobWorker = new BatchJobWorker()
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi } from 'vitest'
+
+// clientReport pulls in services that create a Supabase client at import time
+vi.mock('@supabase/supabase-js', () => ({ createClient: vi.fn(() => ({})) }))
+
+import type { DiscoveredUrl, SchemaScore } from 'aeo-schema-generator-shared/types'
+import {
+  getRecentGenerations,
+  renderClientReportHtml,
+  renderTrendChart,
+  summarizeLibrary,
+  type ClientReportData
+} from './clientReport.js'
+
+function url(id: string, path: string): DiscoveredUrl {
+  return {
+    id,
+    userId: 'user-1',
+    url: `https://example.com${path}`,
+    path,
+    depth: 1,
+    isHidden: false,
+    hasSchema: true,
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z'
+  }
+}
+
+function score(overallScore: number): SchemaScore {
+  return {
+    overallScore,
+    breakdown: { requiredProperties: 0, recommendedProperties: 0, advancedAEOFeatures: 0, contentQuality: 0 },
+    suggestions: [],
+    strengths: []
+  }
+}
+
+const urls = [url('a', '/'), url('b', '/blog/post'), url('c', '/pricing')]
+
+// Newest first, like db.getSchemasForDiscoveredUrls
+const recordsByUrlId = new Map([
+  ['a', [
+    { schemaType: 'Organization', schemaScore: score(90), createdAt: '2026-03-02T00:00:00Z' },
+    { schemaType: 'Organization', schemaScore: score(40), createdAt: '2026-03-01T00:00:00Z' },
+    { schemaType: 'WebSite', schemaScore: score(70), createdAt: '2026-02-01T00:00:00Z' }
+  ]],
+  ['b', [
+    { schemaType: 'BlogPosting', schemaScore: null, createdAt: '2026-04-01T00:00:00Z' }
+  ]]
+])
+
+function reportData(overrides: Partial<ClientReportData> = {}): ClientReportData {
+  return {
+    domain: 'https://example.com',
+    generatedAt: '2026-05-01T00:00:00Z',
+    periodDays: 30,
+    branding: { name: 'Acme Agency', logoUrl: 'https://acme.test/logo.png' },
+    library: summarizeLibrary(urls, recordsByUrlId),
+    recentGenerations: getRecentGenerations(urls, recordsByUrlId),
+    ...overrides
+  }
+}
+
+describe('summarizeLibrary', () => {
+  it('counts coverage and averages the latest score of each schema type', () => {
+    const library = summarizeLibrary(urls, recordsByUrlId)
+
+    expect(library.totalUrls).toBe(3)
+    expect(library.urlsWithSchema).toBe(2)
+    expect(library.coveragePercentage).toBe(67)
+    // Only page a is scored: (90 + 70) / 2
+    expect(library.averageScore).toBe(80)
+    expect(library.schemaTypes).toEqual({ Organization: 1, WebSite: 1, BlogPosting: 1 })
+  })
+})
+
+describe('getRecentGenerations', () => {
+  it('lists generations across pages newest first', () => {
+    const generations = getRecentGenerations(urls, recordsByUrlId, 2)
+
+    expect(generations.map(g => [g.path, g.schemaType])).toEqual([
+      ['/blog/post', 'BlogPosting'],
+      ['/', 'Organization']
+    ])
+    expect(generations[0].score).toBeNull()
+  })
+})
+
+describe('renderTrendChart', () => {
+  it('needs at least two points', () => {
+    expect(renderTrendChart([{ date: '2026-04-01', score: 50 }])).not.toContain('<svg')
+  })
+
+  it('draws one point per day', () => {
+    const svg = renderTrendChart([
+      { date: '2026-04-01', score: 0 },
+      { date: '2026-04-02', score: 50 },
+      { date: '2026-04-03', score: 100 }
+    ])
+    expect(svg).toContain('<polyline points="24.0,136.0 320.0,80.0 616.0,24.0"')
+  })
+})
+
+describe('renderClientReportHtml', () => {
+  it('brands the report and escapes content', () => {
+    const html = renderClientReportHtml(reportData({
+      branding: { name: 'Acme <Agency>', logoUrl: 'https://acme.test/logo.png' }
+    }))
+
+    expect(html).toContain('<img src="https://acme.test/logo.png" alt="Acme &lt;Agency&gt;" />')
+    expect(html).toContain('Prepared by Acme &lt;Agency&gt;')
+    expect(html).not.toContain('<Agency>')
+    expect(html).not.toContain('<script')
+  })
+
+  it('skips logos that are not served over https', () => {
+    const html = renderClientReportHtml(reportData({
+      branding: { name: 'Acme', logoUrl: 'http://acme.test/logo.png' }
+    }))
+    expect(html).not.toContain('<img')
+  })
+
+  it('explains a missing AI visibility section', () => {
+    const html = renderClientReportHtml(reportData({ aiVisibilityNote: 'No GA4 property is mapped.' }))
+    expect(html).toContain('No GA4 property is mapped.')
+    expect(html).not.toContain('Top AI platforms')
+  })
+
+  it('includes GA4 metrics when available', () => {
+    const html = renderClientReportHtml(reportData({
+      aiVisibility: {
+        propertyName: 'Example Site',
+        trend: [],
+        metrics: {
+          aiVisibilityScore: 72,
+          aiDiversityScore: 50,
+          coveragePercentage: 25,
+          totalPages: 40,
+          aiCrawledPages: 10,
+          ignoredPagesCount: 0,
+          crawlerList: ['ChatGPT', 'Perplexity'],
+          topCrawlers: [{ name: 'ChatGPT', sessions: 12, pageViews: 20, uniquePages: 6 }],
+          topPages: [{ path: '/blog/post', crawlerCount: 2, crawlers: ['ChatGPT', 'Perplexity'], sessions: 8, lastCrawled: '2026-04-30' }],
+          nonCrawledPages: [],
+          dateRangeStart: new Date('2026-04-01'),
+          dateRangeEnd: new Date('2026-05-01'),
+          scoreBreakdown: { diversityPoints: 30, coveragePoints: 28, volumePoints: 14, totalAiSessions: 15 }
+        }
+      }
+    }))
+
+    expect(html).toContain('GA4 property Example Site over the last 30 days')
+    expect(html).toContain('Top AI platforms')
+    expect(html).toContain('ChatGPT, Perplexity')
+    expect(html).toContain('10 of 40 (25%)')
+  })
+})
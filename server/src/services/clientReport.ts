@@ -0,0 +1,522 @@
+/**
+ * Client Report
+ * Branded HTML/PDF report of a library domain for agencies to hand to their clients
+ *
+ * Sections:
+ * - schema coverage and average scores of the domain's library URLs
+ * - the latest completed site audit of the domain, if any
+ * - GA4 AI-referral metrics (visibility score, trend, top AI platforms and pages) when a
+ *   GA4 property is mapped to the domain
+ * - the most recent schema generations
+ *
+ * Branding comes from the team's default Organization, falling back to the domain itself.
+ */
+
+import type {
+  ClientReportFormat,
+  ClientReportPeriod,
+  DiscoveredUrl,
+  SchemaAuditReport,
+  SchemaScore
+} from 'aeo-schema-generator-shared/types'
+import { db } from './database.js'
+import { ga4Data, type GA4MetricsResult } from './ga4/data.js'
+import { getDefaultOrganization } from './organizationService.js'
+import { getLatestCompletedAudit } from './schemaAuditService.js'
+import { scraperService } from './scraper.js'
+import { isOnDomain } from './schemaEmbed.js'
+import { getDomainSlug } from './schemaExport.js'
+
+export const CLIENT_REPORT_FORMATS: ClientReportFormat[] = ['html', 'pdf']
+
+export const CLIENT_REPORT_PERIODS: ClientReportPeriod[] = [7, 30, 90]
+
+/** Recent generations listed in the report */
+const RECENT_GENERATIONS_LIMIT = 10
+
+/** Top AI platforms and pages listed in the report */
+const TOP_ROWS_LIMIT = 10
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface SchemaRecord {
+  schemaType: string
+  schemaScore: SchemaScore | null
+  createdAt: string
+}
+
+export interface ClientReportBranding {
+  name: string
+  url?: string
+  /** Only https logos are rendered - the PDF renderer blocks everything else */
+  logoUrl?: string
+}
+
+export interface ClientReportLibrary {
+  totalUrls: number
+  urlsWithSchema: number
+  coveragePercentage: number
+  averageScore: number | null
+  /** Schema type -> number of URLs with it */
+  schemaTypes: Record<string, number>
+}
+
+export interface ClientReportGeneration {
+  url: string
+  path: string
+  schemaType: string
+  score: number | null
+  createdAt: string
+}
+
+export interface ClientReportAIVisibility {
+  propertyName: string
+  metrics: GA4MetricsResult
+  trend: Array<{ date: string; score: number; crawlerCount: number }>
+}
+
+export interface ClientReportData {
+  domain: string
+  generatedAt: string
+  periodDays: ClientReportPeriod
+  branding: ClientReportBranding
+  library: ClientReportLibrary
+  recentGenerations: ClientReportGeneration[]
+  audit?: {
+    completedAt: string
+    summary: SchemaAuditReport['summary']
+  }
+  aiVisibility?: ClientReportAIVisibility
+  /** Why the AI visibility section is missing */
+  aiVisibilityNote?: string
+}
+
+export interface ClientReportFile {
+  filename: string
+  contentType: string
+  body: string | Buffer
+}
+
+// =============================================================================
+// LIBRARY SUMMARY
+// =============================================================================
+
+/**
+ * Latest record per schema type - records arrive newest first
+ */
+function latestPerType(records: SchemaRecord[]): SchemaRecord[] {
+  const latest = new Map<string, SchemaRecord>()
+  for (const record of records) {
+    if (!latest.has(record.schemaType)) {
+      latest.set(record.schemaType, record)
+    }
+  }
+  return [...latest.values()]
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null
+  return Math.round(values.reduce((sum, value) => sum + value, 0) / values.length)
+}
+
+/**
+ * Coverage and scores of a domain's library URLs
+ * A URL's score is the average of the latest scored generation of each of its schema types
+ */
+export function summarizeLibrary(urls: DiscoveredUrl[], recordsByUrlId: Map<string, SchemaRecord[]>): ClientReportLibrary {
+  const schemaTypes: Record<string, number> = {}
+  const pageScores: number[] = []
+  let urlsWithSchema = 0
+
+  for (const url of urls) {
+    const latest = latestPerType(recordsByUrlId.get(url.id) || [])
+    if (latest.length === 0) continue
+
+    urlsWithSchema++
+    for (const record of latest) {
+      schemaTypes[record.schemaType] = (schemaTypes[record.schemaType] || 0) + 1
+    }
+
+    const pageScore = average(latest.flatMap(record => record.schemaScore ? [record.schemaScore.overallScore] : []))
+    if (pageScore !== null) {
+      pageScores.push(pageScore)
+    }
+  }
+
+  return {
+    totalUrls: urls.length,
+    urlsWithSchema,
+    coveragePercentage: urls.length > 0 ? Math.round((urlsWithSchema / urls.length) * 100) : 0,
+    averageScore: average(pageScores),
+    schemaTypes
+  }
+}
+
+/**
+ * Newest generations across the domain
+ */
+export function getRecentGenerations(
+  urls: DiscoveredUrl[],
+  recordsByUrlId: Map<string, SchemaRecord[]>,
+  limit: number = RECENT_GENERATIONS_LIMIT
+): ClientReportGeneration[] {
+  return urls
+    .flatMap(url => (recordsByUrlId.get(url.id) || []).map(record => ({
+      url: url.url,
+      path: url.path,
+      schemaType: record.schemaType,
+      score: record.schemaScore?.overallScore ?? null,
+      createdAt: record.createdAt
+    })))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, limit)
+}
+
+// =============================================================================
+// HTML RENDERING
+// =============================================================================
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function formatDate(value: string | Date): string {
+  return new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' })
+}
+
+function scoreClass(score: number | null): string {
+  if (score === null) return 'muted'
+  if (score >= 80) return 'good'
+  if (score >= 60) return 'fair'
+  return 'poor'
+}
+
+function renderStat(label: string, value: string, className: string = ''): string {
+  return `<div class="stat"><div class="stat-label">${escapeHtml(label)}</div><div class="stat-value ${className}">${escapeHtml(value)}</div></div>`
+}
+
+function renderTable(headers: string[], rows: string[][]): string {
+  const head = headers.map(header => `<th>${escapeHtml(header)}</th>`).join('')
+  const body = rows.map(row => `<tr>${row.map(cell => `<td>${cell}</td>`).join('')}</tr>`).join('')
+  return `<table><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>`
+}
+
+/**
+ * Daily AI visibility score as an inline SVG line chart (scores are 0-100)
+ */
+export function renderTrendChart(trend: Array<{ date: string; score: number }>): string {
+  if (trend.length < 2) {
+    return '<p class="muted">Not enough data for a trend yet.</p>'
+  }
+
+  const width = 640
+  const height = 160
+  const padding = 24
+  const stepX = (width - padding * 2) / (trend.length - 1)
+  const points = trend
+    .map((point, index) => {
+      const x = padding + index * stepX
+      const y = height - padding - (Math.max(0, Math.min(100, point.score)) / 100) * (height - padding * 2)
+      return `${x.toFixed(1)},${y.toFixed(1)}`
+    })
+    .join(' ')
+
+  return `<svg class="trend" viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg" role="img" aria-label="AI visibility score trend">
+  <line x1="${padding}" y1="${height - padding}" x2="${width - padding}" y2="${height - padding}" stroke="#e5e7eb" />
+  <line x1="${padding}" y1="${padding}" x2="${width - padding}" y2="${padding}" stroke="#f3f4f6" />
+  <text x="${padding - 4}" y="${padding + 4}" text-anchor="end" font-size="10" fill="#6b7280">100</text>
+  <text x="${padding - 4}" y="${height - padding + 4}" text-anchor="end" font-size="10" fill="#6b7280">0</text>
+  <polyline points="${points}" fill="none" stroke="#2563eb" stroke-width="2" />
+  <text x="${padding}" y="${height - 6}" font-size="10" fill="#6b7280">${escapeHtml(formatDate(trend[0].date))}</text>
+  <text x="${width - padding}" y="${height - 6}" text-anchor="end" font-size="10" fill="#6b7280">${escapeHtml(formatDate(trend[trend.length - 1].date))}</text>
+</svg>`
+}
+
+function renderLibrarySection(library: ClientReportLibrary): string {
+  const types = Object.entries(library.schemaTypes).sort((a, b) => b[1] - a[1])
+
+  return `<section>
+  <h2>Schema Coverage</h2>
+  <div class="stats">
+    ${renderStat('Pages tracked', String(library.totalUrls))}
+    ${renderStat('Pages with schema', `${library.urlsWithSchema} (${library.coveragePercentage}%)`)}
+    ${renderStat('Average schema score', library.averageScore === null ? '—' : String(library.averageScore), scoreClass(library.averageScore))}
+  </div>
+  ${types.length === 0
+    ? '<p class="muted">No schema has been generated for this domain yet.</p>'
+    : renderTable(['Schema type', 'Pages'], types.map(([type, count]) => [escapeHtml(type), String(count)]))}
+</section>`
+}
+
+function renderAuditSection(audit: NonNullable<ClientReportData['audit']>): string {
+  const { summary } = audit
+  const markupPercentage = summary.pagesScanned > 0 ? Math.round((summary.pagesWithMarkup / summary.pagesScanned) * 100) : 0
+
+  return `<section>
+  <h2>Site Audit</h2>
+  <p class="muted">Live markup audit completed ${escapeHtml(formatDate(audit.completedAt))}.</p>
+  <div class="stats">
+    ${renderStat('Pages scanned', String(summary.pagesScanned))}
+    ${renderStat('With markup', `${summary.pagesWithMarkup} (${markupPercentage}%)`)}
+    ${renderStat('Average score', summary.averageScore === null ? '—' : String(summary.averageScore), scoreClass(summary.averageScore))}
+    ${renderStat('Rich-result eligible', String(summary.richResultEligiblePages))}
+  </div>
+</section>`
+}
+
+function renderAIVisibilitySection(data: ClientReportData): string {
+  if (!data.aiVisibility) {
+    return `<section>
+  <h2>AI Visibility</h2>
+  <p class="muted">${escapeHtml(data.aiVisibilityNote || 'No GA4 data available.')}</p>
+</section>`
+  }
+
+  const { metrics, trend, propertyName } = data.aiVisibility
+  const { scoreBreakdown } = metrics
+
+  return `<section>
+  <h2>AI Visibility</h2>
+  <p class="muted">AI assistant referrals from GA4 property ${escapeHtml(propertyName)} over the last ${data.periodDays} days.</p>
+  <div class="stats">
+    ${renderStat('AI visibility score', String(metrics.aiVisibilityScore), scoreClass(metrics.aiVisibilityScore))}
+    ${renderStat('AI sessions', String(scoreBreakdown.totalAiSessions))}
+    ${renderStat('AI platforms', String(metrics.crawlerList.length))}
+    ${renderStat('Pages reached', `${metrics.aiCrawledPages} of ${metrics.totalPages} (${Math.round(metrics.coveragePercentage)}%)`)}
+  </div>
+  <p class="breakdown">Diversity ${scoreBreakdown.diversityPoints}/40 · Coverage ${scoreBreakdown.coveragePoints}/40 · Volume ${scoreBreakdown.volumePoints}/20</p>
+  <h3>Score trend</h3>
+  ${renderTrendChart(trend)}
+  <h3>Top AI platforms</h3>
+  ${metrics.topCrawlers.length === 0
+    ? '<p class="muted">No AI referrals in this period.</p>'
+    : renderTable(
+      ['Platform', 'Sessions', 'Page views', 'Pages'],
+      metrics.topCrawlers.slice(0, TOP_ROWS_LIMIT).map(crawler => [
+        escapeHtml(crawler.name),
+        String(crawler.sessions),
+        String(crawler.pageViews),
+        String(crawler.uniquePages)
+      ])
+    )}
+  <h3>Top pages</h3>
+  ${metrics.topPages.length === 0
+    ? '<p class="muted">No pages received AI referrals in this period.</p>'
+    : renderTable(
+      ['Page', 'AI platforms', 'Sessions'],
+      metrics.topPages.slice(0, TOP_ROWS_LIMIT).map(page => [
+        `<span class="mono">${escapeHtml(page.path)}</span>`,
+        escapeHtml(page.crawlers.join(', ')),
+        String(page.sessions)
+      ])
+    )}
+</section>`
+}
+
+function renderGenerationsSection(generations: ClientReportGeneration[]): string {
+  return `<section>
+  <h2>Recent Schema Updates</h2>
+  ${generations.length === 0
+    ? '<p class="muted">No schema generated yet.</p>'
+    : renderTable(
+      ['Page', 'Schema type', 'Score', 'Date'],
+      generations.map(generation => [
+        `<span class="mono">${escapeHtml(generation.path)}</span>`,
+        escapeHtml(generation.schemaType),
+        `<span class="${scoreClass(generation.score)}">${generation.score ?? '—'}</span>`,
+        escapeHtml(formatDate(generation.createdAt))
+      ])
+    )}
+</section>`
+}
+
+const REPORT_STYLES = `
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; color: #111827; margin: 0; font-size: 13px; line-height: 1.5; }
+  .report { max-width: 800px; margin: 0 auto; padding: 24px; }
+  header { display: flex; align-items: center; gap: 16px; border-bottom: 3px solid #2563eb; padding-bottom: 16px; margin-bottom: 24px; }
+  header img { max-height: 48px; max-width: 160px; }
+  header h1 { font-size: 22px; margin: 0; }
+  header p { margin: 2px 0 0; color: #6b7280; }
+  section { margin-bottom: 28px; page-break-inside: avoid; }
+  h2 { font-size: 16px; margin: 0 0 8px; }
+  h3 { font-size: 13px; margin: 16px 0 6px; color: #374151; }
+  .stats { display: flex; gap: 12px; margin: 12px 0; }
+  .stat { flex: 1; border: 1px solid #e5e7eb; border-radius: 6px; padding: 10px 12px; }
+  .stat-label { font-size: 11px; color: #6b7280; }
+  .stat-value { font-size: 20px; font-weight: 700; }
+  table { width: 100%; border-collapse: collapse; margin-top: 8px; }
+  th { text-align: left; font-weight: 600; color: #6b7280; font-size: 11px; border-bottom: 1px solid #e5e7eb; padding: 6px 4px; }
+  td { border-bottom: 1px solid #f3f4f6; padding: 6px 4px; vertical-align: top; }
+  .trend { width: 100%; height: auto; }
+  .breakdown { color: #374151; }
+  .mono { font-family: ui-monospace, Menlo, Consolas, monospace; font-size: 11px; word-break: break-all; }
+  .muted { color: #6b7280; }
+  .good { color: #16a34a; }
+  .fair { color: #ca8a04; }
+  .poor { color: #dc2626; }
+  footer { border-top: 1px solid #e5e7eb; padding-top: 12px; color: #6b7280; font-size: 11px; }
+`
+
+/**
+ * Render the report as a standalone HTML document (inline styles, no scripts)
+ */
+export function renderClientReportHtml(data: ClientReportData): string {
+  const { branding } = data
+  const logo = branding.logoUrl?.startsWith('https://')
+    ? `<img src="${escapeHtml(branding.logoUrl)}" alt="${escapeHtml(branding.name)}" />`
+    : ''
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(`${data.domain} - AI Visibility & Schema Report`)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<div class="report">
+<header>
+  ${logo}
+  <div>
+    <h1>AI Visibility &amp; Schema Report</h1>
+    <p>${escapeHtml(data.domain)} · ${escapeHtml(formatDate(data.generatedAt))}</p>
+  </div>
+</header>
+${renderLibrarySection(data.library)}
+${data.audit ? renderAuditSection(data.audit) : ''}
+${renderAIVisibilitySection(data)}
+${renderGenerationsSection(data.recentGenerations)}
+<footer>Prepared by ${escapeHtml(branding.name)}${branding.url ? ` · ${escapeHtml(branding.url)}` : ''}</footer>
+</div>
+</body>
+</html>`
+}
+
+// =============================================================================
+// SERVICE
+// =============================================================================
+
+export class ClientReportService {
+  /**
+   * GA4 metrics for the property mapped to the domain
+   * GA4 problems shouldn't block the report, so they become a note instead
+   */
+  private async getAIVisibility(
+    userId: string,
+    domain: string,
+    periodDays: ClientReportPeriod
+  ): Promise<Pick<ClientReportData, 'aiVisibility' | 'aiVisibilityNote'>> {
+    const mapping = (await db.getGA4DomainMappings(userId)).find(m => isOnDomain(domain, m.domain))
+    if (!mapping) {
+      return { aiVisibilityNote: 'Connect Google Analytics and map a GA4 property to this domain to include AI referral metrics.' }
+    }
+
+    const end = new Date()
+    const start = new Date(end.getTime() - periodDays * 24 * 60 * 60 * 1000)
+
+    try {
+      const [metrics, trend] = await Promise.all([
+        ga4Data.getAICrawlerMetrics(userId, mapping.propertyId, start, end, false, mapping.id),
+        ga4Data.getAIVisibilityTrend(userId, mapping.propertyId, start, end, mapping.id)
+      ])
+      return {
+        aiVisibility: {
+          propertyName: mapping.propertyName || mapping.propertyId,
+          metrics,
+          trend
+        }
+      }
+    } catch (error) {
+      console.error(`❌ [ClientReport] GA4 metrics unavailable for ${domain}:`, error)
+      return { aiVisibilityNote: 'AI referral metrics could not be loaded from Google Analytics.' }
+    }
+  }
+
+  private async getBranding(teamId: string | undefined, domain: string): Promise<ClientReportBranding> {
+    const organization = teamId ? await getDefaultOrganization(teamId).catch(() => null) : null
+    if (!organization) {
+      return { name: getDomainSlug(domain) }
+    }
+    return {
+      name: organization.name,
+      url: organization.url,
+      logoUrl: organization.logoUrl
+    }
+  }
+
+  /**
+   * Collect everything the report shows
+   * Returns null when the domain doesn't belong to the user
+   */
+  async buildReportData(
+    userId: string,
+    teamId: string | undefined,
+    domainId: string,
+    periodDays: ClientReportPeriod
+  ): Promise<ClientReportData | null> {
+    const domain = (await db.getUserDomains(userId)).find(d => d.id === domainId)
+    if (!domain) {
+      return null
+    }
+
+    const urls = await db.getUserUrls(userId, { domainId })
+    const recordsByUrlId = await db.getSchemasForDiscoveredUrls(urls.filter(url => url.hasSchema).map(url => url.id))
+
+    const [branding, audit, aiVisibility] = await Promise.all([
+      this.getBranding(teamId, domain.domain),
+      getLatestCompletedAudit(userId, domain.domain).catch(() => null),
+      this.getAIVisibility(userId, domain.domain, periodDays)
+    ])
+
+    return {
+      domain: domain.domain,
+      generatedAt: new Date().toISOString(),
+      periodDays,
+      branding,
+      library: summarizeLibrary(urls, recordsByUrlId),
+      recentGenerations: getRecentGenerations(urls, recordsByUrlId),
+      audit: audit?.report && audit.completedAt
+        ? { completedAt: audit.completedAt, summary: audit.report.summary }
+        : undefined,
+      ...aiVisibility
+    }
+  }
+
+  /**
+   * Build the report file for a library domain
+   * Returns null when the domain doesn't belong to the user
+   */
+  async generateReport(
+    userId: string,
+    teamId: string | undefined,
+    domainId: string,
+    format: ClientReportFormat,
+    periodDays: ClientReportPeriod
+  ): Promise<ClientReportFile | null> {
+    const data = await this.buildReportData(userId, teamId, domainId, periodDays)
+    if (!data) {
+      return null
+    }
+
+    const html = renderClientReportHtml(data)
+    const filename = `${getDomainSlug(data.domain)}-client-report.${format}`
+
+    console.log(`📄 [ClientReport] Rendering ${format} report for ${data.domain} (${periodDays} days)`)
+
+    if (format === 'html') {
+      return { filename, contentType: 'text/html; charset=utf-8', body: html }
+    }
+
+    return { filename, contentType: 'application/pdf', body: await scraperService.renderPdf(html) }
+  }
+}
+
+export const clientReportService = new ClientReportService()
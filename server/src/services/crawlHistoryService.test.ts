@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+/**
+ * In-memory stand-in for the two crawl tables
+ * Supports the query shapes crawlHistoryService uses: eq filters, order by position,
+ * range paging and single()
+ */
+const tables = vi.hoisted(() => ({
+  site_crawls: [] as Record<string, any>[],
+  site_crawl_urls: [] as Record<string, any>[]
+}))
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    from(table: keyof typeof tables) {
+      const filters: Array<[string, unknown]> = []
+      let range: [number, number] | null = null
+
+      const rows = () => {
+        const matching = tables[table]
+          .filter(row => filters.every(([column, value]) => row[column] === value))
+          .sort((a, b) => (a.position ?? 0) - (b.position ?? 0))
+        return range ? matching.slice(range[0], range[1] + 1) : matching
+      }
+
+      const query: any = {
+        select: () => query,
+        order: () => query,
+        eq(column: string, value: unknown) {
+          filters.push([column, value])
+          return query
+        },
+        range(from: number, to: number) {
+          range = [from, to]
+          return query
+        },
+        single: async () => {
+          const [row] = rows()
+          return row
+            ? { data: row, error: null }
+            : { data: null, error: { code: 'PGRST116', message: 'No rows found' } }
+        },
+        then: (resolve: (result: unknown) => void) => resolve({ data: rows(), error: null })
+      }
+      return query
+    }
+  })
+}))
+
+vi.mock('../config/env.js', () => ({}))
+
+import { diffCrawls } from './crawlHistoryService.js'
+
+const USER_ID = 'user_1'
+
+function crawl(id: string, domain = 'https://example.com', userId = USER_ID) {
+  tables.site_crawls.push({
+    id,
+    user_id: userId,
+    domain,
+    status: 'completed',
+    error: null,
+    options: {},
+    total_found: 0,
+    started_at: '2026-10-01T00:00:00Z',
+    completed_at: '2026-10-01T00:05:00Z',
+    created_at: '2026-10-01T00:00:00Z',
+    updated_at: '2026-10-01T00:05:00Z'
+  })
+}
+
+function url(crawlId: string, path: string, fields: { source?: string; lastModified?: string } = {}) {
+  const rows = tables.site_crawl_urls
+  rows.push({
+    id: `${crawlId}-${rows.length}`,
+    crawl_id: crawlId,
+    position: rows.filter(row => row.crawl_id === crawlId).length,
+    url: `https://example.com${path}`,
+    path,
+    depth: path.split('/').filter(Boolean).length,
+    source: fields.source || 'sitemap',
+    found_on: null,
+    last_modified: fields.lastModified || null,
+    discovered_at: '2026-10-01T00:01:00Z'
+  })
+}
+
+beforeEach(() => {
+  tables.site_crawls.length = 0
+  tables.site_crawl_urls.length = 0
+})
+
+describe('diffCrawls', () => {
+  beforeEach(() => {
+    crawl('crawl_old')
+    crawl('crawl_new')
+  })
+
+  it('lists added and removed URLs', async () => {
+    url('crawl_old', '/')
+    url('crawl_old', '/retired')
+    url('crawl_new', '/')
+    url('crawl_new', '/launched')
+    url('crawl_new', '/careers')
+
+    const diff = await diffCrawls(USER_ID, 'crawl_old', 'crawl_new')
+
+    expect(diff.fromCrawl.id).toBe('crawl_old')
+    expect(diff.toCrawl.id).toBe('crawl_new')
+    expect(diff.added.map(entry => entry.path)).toEqual(['/launched', '/careers'])
+    expect(diff.removed.map(entry => entry.path)).toEqual(['/retired'])
+    expect(diff.changed).toEqual([])
+    expect(diff.unchangedCount).toBe(1)
+  })
+
+  it('reports URLs whose source or last-modified date changed', async () => {
+    url('crawl_old', '/pricing', { lastModified: '2026-09-01T00:00:00.000Z' })
+    url('crawl_old', '/blog/post', { source: 'crawl' })
+    url('crawl_new', '/pricing', { lastModified: '2026-10-01T00:00:00.000Z' })
+    url('crawl_new', '/blog/post', { source: 'feed' })
+
+    const diff = await diffCrawls(USER_ID, 'crawl_old', 'crawl_new')
+
+    expect(diff.changed.map(change => ({ path: change.after.path, changes: change.changes }))).toEqual([
+      { path: '/pricing', changes: ['lastModified'] },
+      { path: '/blog/post', changes: ['source'] }
+    ])
+    expect(diff.changed[0].before.lastModified).toBe('2026-09-01T00:00:00.000Z')
+    expect(diff.unchangedCount).toBe(0)
+  })
+
+  it('does not count a last-modified date that only one crawl reported as a change', async () => {
+    url('crawl_old', '/about')
+    url('crawl_new', '/about', { lastModified: '2026-10-01T00:00:00.000Z' })
+
+    const diff = await diffCrawls(USER_ID, 'crawl_old', 'crawl_new')
+
+    expect(diff.changed).toEqual([])
+    expect(diff.unchangedCount).toBe(1)
+  })
+
+  it('reads crawls larger than one page of results', async () => {
+    for (let index = 0; index < 1005; index++) {
+      url('crawl_old', `/page-${index}`)
+      if (index !== 1002) url('crawl_new', `/page-${index}`)
+    }
+
+    const diff = await diffCrawls(USER_ID, 'crawl_old', 'crawl_new')
+
+    expect(diff.removed.map(entry => entry.path)).toEqual(['/page-1002'])
+    expect(diff.unchangedCount).toBe(1004)
+  })
+
+  it('refuses crawls of another user or another domain', async () => {
+    crawl('crawl_other_user', 'https://example.com', 'user_2')
+    crawl('crawl_other_domain', 'https://example.org')
+
+    await expect(diffCrawls(USER_ID, 'crawl_old', 'crawl_other_user'))
+      .rejects.toThrow('Crawl not found or access denied')
+    await expect(diffCrawls(USER_ID, 'crawl_old', 'crawl_other_domain'))
+      .rejects.toThrow('Only crawls of the same domain can be compared')
+  })
+})
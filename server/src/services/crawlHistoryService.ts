@@ -0,0 +1,419 @@
+// IMPORTANT: Load environment variables FIRST
+import '../config/env.js'
+
+import { createClient } from '@supabase/supabase-js'
+import type {
+  SiteCrawl,
+  CrawledUrl,
+  CrawlDiff,
+  CrawlUrlChange,
+  CrawlOptions,
+  CrawlSource,
+  CrawlStatus
+} from 'aeo-schema-generator-shared/types'
+import type { DiscoveredUrl } from './siteCrawler.js'
+
+// Initialize Supabase client
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+)
+
+// =============================================================================
+// INTERNAL TYPES (Database row format)
+// =============================================================================
+
+interface SiteCrawlRow {
+  id: string
+  user_id: string
+  domain: string
+  status: CrawlStatus
+  error: string | null
+  options: CrawlOptions | null
+  total_found: number
+  started_at: string
+  completed_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+interface SiteCrawlUrlRow {
+  id: string
+  crawl_id: string
+  position: number
+  url: string
+  path: string
+  depth: number
+  source: CrawlSource
+  found_on: string | null
+  last_modified: string | null
+  discovered_at: string
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** PostgREST caps result sets at 1000 rows, so large crawls are read in pages */
+const URL_PAGE_SIZE = 1000
+
+const POSTGRES_ERROR_CODES = {
+  /** No rows returned from single-row query */
+  NOT_FOUND: 'PGRST116',
+  /** Value is not a valid UUID */
+  INVALID_TEXT_REPRESENTATION: '22P02'
+} as const
+
+const ERROR_MESSAGES = {
+  NOT_FOUND: 'Crawl not found or access denied',
+  CREATE_FAILED: 'Failed to create crawl',
+  LIST_FAILED: 'Failed to list crawls',
+  UPDATE_FAILED: 'Failed to update crawl',
+  DOMAIN_MISMATCH: 'Only crawls of the same domain can be compared'
+} as const
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function rowToCrawl(row: SiteCrawlRow): SiteCrawl {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    domain: row.domain,
+    status: row.status,
+    error: row.error || undefined,
+    options: row.options || {},
+    totalFound: row.total_found,
+    startedAt: row.started_at,
+    completedAt: row.completed_at || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
+
+function rowToUrl(row: SiteCrawlUrlRow): CrawledUrl {
+  return {
+    url: row.url,
+    path: row.path,
+    depth: row.depth,
+    source: row.source,
+    foundOn: row.found_on || undefined,
+    lastModified: row.last_modified || undefined,
+    discoveredAt: row.discovered_at
+  }
+}
+
+/**
+ * Key used to group crawls of the same domain
+ */
+export function normalizeCrawlDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/\/+$/, '')
+}
+
+async function updateCrawl(crawlId: string, update: Partial<SiteCrawlRow>): Promise<void> {
+  const { error } = await supabase
+    .from('site_crawls')
+    .update(update)
+    .eq('id', crawlId)
+
+  if (error) {
+    throw new Error(`${ERROR_MESSAGES.UPDATE_FAILED}: ${error.message}`)
+  }
+}
+
+/**
+ * Compare the metadata of a URL found in both crawls
+ */
+function compareUrls(before: CrawledUrl, after: CrawledUrl): CrawlUrlChange | null {
+  const changes: CrawlUrlChange['changes'] = []
+
+  if (before.source !== after.source) {
+    changes.push('source')
+  }
+
+  // Only comparable when both crawls got a date from the sitemap/feed
+  if (before.lastModified && after.lastModified && before.lastModified !== after.lastModified) {
+    changes.push('lastModified')
+  }
+
+  return changes.length > 0 ? { url: after.url, changes, before, after } : null
+}
+
+// =============================================================================
+// CRAWL RECORDING (used while a crawl runs)
+// =============================================================================
+
+/**
+ * Start a crawl record - URLs are appended as the crawler finds them
+ */
+export async function createCrawl(userId: string, domain: string, options: CrawlOptions = {}): Promise<SiteCrawl> {
+  const { data, error } = await supabase
+    .from('site_crawls')
+    .insert({
+      user_id: userId,
+      domain: normalizeCrawlDomain(domain),
+      options
+    })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`${ERROR_MESSAGES.CREATE_FAILED}: ${error.message}`)
+  }
+
+  return rowToCrawl(data)
+}
+
+/**
+ * Append a batch of discovered URLs and bump the crawl's running count
+ * @param startPosition - Discovery position of the first URL in the batch
+ */
+export async function appendUrls(crawlId: string, urls: DiscoveredUrl[], startPosition: number): Promise<void> {
+  if (urls.length === 0) {
+    return
+  }
+
+  const { error } = await supabase
+    .from('site_crawl_urls')
+    .upsert(urls.map((url, index) => ({
+      crawl_id: crawlId,
+      position: startPosition + index,
+      url: url.url,
+      path: url.path,
+      depth: url.depth,
+      source: url.source,
+      found_on: url.foundOn || null,
+      last_modified: url.lastModified || null,
+      discovered_at: url.discoveredAt.toISOString()
+    })), {
+      onConflict: 'crawl_id,url',
+      ignoreDuplicates: true
+    })
+
+  if (error) {
+    throw new Error(`${ERROR_MESSAGES.UPDATE_FAILED}: ${error.message}`)
+  }
+
+  await updateCrawl(crawlId, { total_found: startPosition + urls.length })
+}
+
+/**
+ * Mark a crawl as finished
+ */
+export async function completeCrawl(crawlId: string, totalFound: number): Promise<void> {
+  await updateCrawl(crawlId, {
+    status: 'completed',
+    total_found: totalFound,
+    completed_at: new Date().toISOString()
+  })
+}
+
+/**
+ * Mark a crawl as failed, keeping whatever URLs it found
+ */
+export async function failCrawl(crawlId: string, errorMessage: string, totalFound: number): Promise<void> {
+  await updateCrawl(crawlId, {
+    status: 'failed',
+    error: errorMessage,
+    total_found: totalFound,
+    completed_at: new Date().toISOString()
+  })
+}
+
+/**
+ * Fail crawls that stopped making progress (their server restarted mid-crawl)
+ * Returns the number of crawls marked as failed
+ */
+export async function failInterruptedCrawls(staleAfterMs: number): Promise<number> {
+  const cutoff = new Date(Date.now() - staleAfterMs).toISOString()
+
+  const { data, error } = await supabase
+    .from('site_crawls')
+    .update({
+      status: 'failed',
+      error: 'Crawl was interrupted',
+      completed_at: new Date().toISOString()
+    })
+    .eq('status', 'in_progress')
+    .lt('updated_at', cutoff)
+    .select('id')
+
+  if (error) {
+    throw new Error(`Failed to recover interrupted crawls: ${error.message}`)
+  }
+
+  return data?.length || 0
+}
+
+// =============================================================================
+// CRAWL HISTORY
+// =============================================================================
+
+/**
+ * Get a crawl by ID
+ * SECURITY: Always requires userId to prevent cross-user access
+ */
+export async function getCrawl(crawlId: string, userId: string): Promise<SiteCrawl | null> {
+  const { data, error } = await supabase
+    .from('site_crawls')
+    .select('*')
+    .eq('id', crawlId)
+    .eq('user_id', userId)
+    .single()
+
+  if (error) {
+    // Malformed UUIDs (e.g. crawl IDs from before crawls were persisted) are simply not found
+    if (error.code === POSTGRES_ERROR_CODES.NOT_FOUND || error.code === POSTGRES_ERROR_CODES.INVALID_TEXT_REPRESENTATION) {
+      return null
+    }
+    throw new Error(`${ERROR_MESSAGES.NOT_FOUND}: ${error.message}`)
+  }
+
+  return rowToCrawl(data)
+}
+
+/**
+ * All URLs found by a crawl, in discovery order
+ * Callers must have checked ownership via getCrawl
+ */
+export async function getCrawlUrls(crawlId: string): Promise<CrawledUrl[]> {
+  const urls: CrawledUrl[] = []
+
+  for (let from = 0; ; from += URL_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('site_crawl_urls')
+      .select('*')
+      .eq('crawl_id', crawlId)
+      .order('position', { ascending: true })
+      .range(from, from + URL_PAGE_SIZE - 1)
+
+    if (error) {
+      throw new Error(`${ERROR_MESSAGES.LIST_FAILED}: ${error.message}`)
+    }
+
+    urls.push(...(data || []).map(rowToUrl))
+
+    if (!data || data.length < URL_PAGE_SIZE) {
+      return urls
+    }
+  }
+}
+
+/**
+ * Latest completed crawl of a domain started after `since`
+ */
+export async function findRecentCrawl(userId: string, domain: string, since: Date): Promise<SiteCrawl | null> {
+  const { data, error } = await supabase
+    .from('site_crawls')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('domain', normalizeCrawlDomain(domain))
+    .eq('status', 'completed')
+    .gte('started_at', since.toISOString())
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`${ERROR_MESSAGES.LIST_FAILED}: ${error.message}`)
+  }
+
+  return data ? rowToCrawl(data) : null
+}
+
+/**
+ * Crawl history for a domain, newest first
+ */
+export async function listCrawls(userId: string, domain: string, limit: number = 20): Promise<SiteCrawl[]> {
+  const { data, error } = await supabase
+    .from('site_crawls')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('domain', normalizeCrawlDomain(domain))
+    .order('started_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`${ERROR_MESSAGES.LIST_FAILED}: ${error.message}`)
+  }
+
+  return (data || []).map(rowToCrawl)
+}
+
+/**
+ * Compare two crawls of the same domain
+ * URLs are matched exactly; "changed" means the URL was found via a different
+ * source or its sitemap/feed last-modified date moved
+ */
+export async function diffCrawls(userId: string, fromCrawlId: string, toCrawlId: string): Promise<CrawlDiff> {
+  const [fromCrawl, toCrawl] = await Promise.all([
+    getCrawl(fromCrawlId, userId),
+    getCrawl(toCrawlId, userId)
+  ])
+
+  if (!fromCrawl || !toCrawl) {
+    throw new Error(ERROR_MESSAGES.NOT_FOUND)
+  }
+
+  if (fromCrawl.domain !== toCrawl.domain) {
+    throw new Error(ERROR_MESSAGES.DOMAIN_MISMATCH)
+  }
+
+  const [fromUrls, toUrls] = await Promise.all([
+    getCrawlUrls(fromCrawlId),
+    getCrawlUrls(toCrawlId)
+  ])
+
+  const fromByUrl = new Map(fromUrls.map(url => [url.url, url]))
+  const toByUrl = new Map(toUrls.map(url => [url.url, url]))
+
+  const added: CrawledUrl[] = []
+  const changed: CrawlUrlChange[] = []
+  let unchangedCount = 0
+
+  for (const url of toUrls) {
+    const before = fromByUrl.get(url.url)
+    if (!before) {
+      added.push(url)
+      continue
+    }
+
+    const change = compareUrls(before, url)
+    if (change) {
+      changed.push(change)
+    } else {
+      unchangedCount++
+    }
+  }
+
+  const removed = fromUrls.filter(url => !toByUrl.has(url.url))
+
+  return { fromCrawl, toCrawl, added, removed, changed, unchangedCount }
+}
+
+// =============================================================================
+// EXPORTS
+// =============================================================================
+
+export default {
+  // Crawl recording
+  createCrawl,
+  appendUrls,
+  completeCrawl,
+  failCrawl,
+  failInterruptedCrawls,
+
+  // Crawl history
+  getCrawl,
+  getCrawlUrls,
+  findRecentCrawl,
+  listCrawls,
+  diffCrawls
+}
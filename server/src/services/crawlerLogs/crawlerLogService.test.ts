@@ -0,0 +1,111 @@
+import { describe, it, expect, vi } from 'vitest'
+
+// crawlerLogService creates a Supabase client at import time
+vi.mock('@supabase/supabase-js', () => ({ createClient: vi.fn(() => ({})) }))
+
+import type { CrawlerVerification } from 'aeo-schema-generator-shared/types'
+import { identifyCrawler, isIpInRanges, parseIpRanges, type AICrawler } from './crawlers.js'
+import type { LogRequest } from './parser.js'
+import {
+  aggregateCrawlerHits,
+  buildCrawlerLogMetrics,
+  normalizeLogDomain,
+  type CrawlerHitRow
+} from './crawlerLogService.js'
+
+function request(path: string, userAgent: string, overrides: Partial<LogRequest> = {}): LogRequest {
+  return {
+    ip: '20.171.207.1',
+    timestamp: new Date('2026-10-18T10:00:00Z'),
+    method: 'GET',
+    path,
+    userAgent,
+    ...overrides
+  }
+}
+
+describe('identifyCrawler', () => {
+  it('matches AI crawler user agents and ignores everything else', () => {
+    expect(identifyCrawler('Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko); compatible; GPTBot/1.2')?.name).toBe('GPTBot')
+    expect(identifyCrawler('Mozilla/5.0 (compatible; ClaudeBot/1.0; +claudebot@anthropic.com)')?.name).toBe('ClaudeBot')
+    expect(identifyCrawler('Mozilla/5.0 (compatible; Perplexity-User/1.0)')?.name).toBe('Perplexity-User')
+    expect(identifyCrawler('Mozilla/5.0 (compatible; Googlebot/2.1)')).toBeNull()
+    expect(identifyCrawler(undefined)).toBeNull()
+  })
+})
+
+describe('parseIpRanges', () => {
+  it('checks IPv4 and IPv6 addresses against published prefixes', () => {
+    const ranges = parseIpRanges({
+      creationTime: '2026-10-01T00:00:00Z',
+      prefixes: [{ ipv4Prefix: '20.171.206.0/24' }, { ipv6Prefix: '2a06:98c0::/29' }, { ipv4Prefix: 'garbage' }]
+    })
+
+    expect(isIpInRanges(ranges, '20.171.206.12')).toBe(true)
+    expect(isIpInRanges(ranges, '20.171.207.12')).toBe(false)
+    expect(isIpInRanges(ranges, '2a06:98c1::1')).toBe(true)
+    expect(isIpInRanges(ranges, 'not-an-ip')).toBe(false)
+  })
+})
+
+describe('normalizeLogDomain', () => {
+  it('stores sources under the bare hostname', () => {
+    expect(normalizeLogDomain('https://www.Example.com/blog')).toBe('example.com')
+    expect(normalizeLogDomain('example.com')).toBe('example.com')
+  })
+})
+
+describe('aggregateCrawlerHits', () => {
+  it('counts AI crawler page hits per day, path, crawler and verification', async () => {
+    const verify = vi.fn(async (_crawler: AICrawler, ip: string | undefined): Promise<CrawlerVerification> =>
+      ip === '6.6.6.6' ? 'spoofed' : 'verified')
+
+    const aggregated = await aggregateCrawlerHits([
+      request('/blog/post', 'GPTBot/1.2'),
+      request('/blog/post', 'GPTBot/1.2', { timestamp: new Date('2026-10-18T12:00:00Z') }),
+      request('/blog/post', 'GPTBot/1.2', { ip: '6.6.6.6' }),
+      request('/blog/post', 'Mozilla/5.0 Chrome/130'),
+      request('/assets/app.js', 'GPTBot/1.2'),
+      request('/blog/post', 'GPTBot/1.2', { method: 'POST' }),
+      request('/blog/post', 'GPTBot/1.2', { host: 'other-site.com' }),
+      request('/blog/post', 'GPTBot/1.2', { host: 'www.example.com', timestamp: new Date('2026-10-19T01:00:00Z') })
+    ], 'example.com', verify)
+
+    expect(aggregated.crawlerHits).toBe(4)
+    expect(aggregated.verifiedHits).toBe(3)
+    expect(aggregated.spoofedHits).toBe(1)
+    // One lookup per crawler and IP
+    expect(verify).toHaveBeenCalledTimes(2)
+    expect(aggregated.hits).toEqual(expect.arrayContaining([
+      { hit_date: '2026-10-18', path: '/blog/post', crawler: 'GPTBot', verification: 'verified', hit_count: 2, last_hit_at: '2026-10-18T12:00:00.000Z' },
+      { hit_date: '2026-10-18', path: '/blog/post', crawler: 'GPTBot', verification: 'spoofed', hit_count: 1, last_hit_at: '2026-10-18T10:00:00.000Z' },
+      { hit_date: '2026-10-19', path: '/blog/post', crawler: 'GPTBot', verification: 'verified', hit_count: 1, last_hit_at: '2026-10-19T01:00:00.000Z' }
+    ]))
+    expect(aggregated.hits).toHaveLength(3)
+  })
+})
+
+describe('buildCrawlerLogMetrics', () => {
+  it('rolls hits up into CrawlerStats and PageCrawlerInfo shapes without spoofed hits', () => {
+    const rows: CrawlerHitRow[] = [
+      { hit_date: '2026-10-17', path: '/a', crawler: 'GPTBot', verification: 'verified', hit_count: 5, last_hit_at: '2026-10-17T09:00:00Z' },
+      { hit_date: '2026-10-18', path: '/a', crawler: 'ClaudeBot', verification: 'unverified', hit_count: 2, last_hit_at: '2026-10-18T09:00:00Z' },
+      { hit_date: '2026-10-18', path: '/b', crawler: 'GPTBot', verification: 'verified', hit_count: 9, last_hit_at: '2026-10-18T08:00:00Z' },
+      { hit_date: '2026-10-18', path: '/c', crawler: 'GPTBot', verification: 'spoofed', hit_count: 40, last_hit_at: '2026-10-18T08:00:00Z' }
+    ]
+
+    const metrics = buildCrawlerLogMetrics('example.com', rows, '2026-10-01', '2026-10-18')
+
+    expect(metrics.totalHits).toBe(16)
+    expect(metrics.verifiedHits).toBe(14)
+    expect(metrics.spoofedHits).toBe(40)
+    expect(metrics.topCrawlers).toEqual([
+      { name: 'GPTBot', sessions: 14, pageViews: 14, uniquePages: 2, verifiedHits: 14 },
+      { name: 'ClaudeBot', sessions: 2, pageViews: 2, uniquePages: 1, verifiedHits: 0 }
+    ])
+    expect(metrics.topPages).toEqual([
+      { path: '/a', crawlerCount: 2, crawlers: ['ClaudeBot', 'GPTBot'], sessions: 7, lastCrawled: '2026-10-18T09:00:00Z' },
+      { path: '/b', crawlerCount: 1, crawlers: ['GPTBot'], sessions: 9, lastCrawled: '2026-10-18T08:00:00Z' }
+    ])
+  })
+})
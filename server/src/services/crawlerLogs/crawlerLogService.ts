@@ -0,0 +1,531 @@
+/**
+ * Crawler Log Service
+ * Stores AI crawler hits from uploaded or streamed access logs and reports them in the
+ * same CrawlerStats / PageCrawlerInfo shapes as GA4 referral metrics
+ *
+ * Each log source belongs to one domain. Logs are parsed, requests from known AI crawler
+ * user agents are kept (page requests only - static assets are dropped), their IPs are
+ * checked against published ranges and the hits are added to daily per-path counts.
+ * Log hits have no sessions, so sessions and page views both count requests.
+ */
+
+// IMPORTANT: Load environment variables FIRST
+import '../../config/env.js'
+
+import crypto from 'crypto'
+import { createClient } from '@supabase/supabase-js'
+import type {
+  CrawlerLogFormat,
+  CrawlerLogIngestResult,
+  CrawlerLogSource,
+  CrawlerVerification
+} from 'aeo-schema-generator-shared/types'
+import type { CrawlerStats, PageCrawlerInfo } from '../ga4/data.js'
+import { identifyCrawler, verifyCrawlerIp, type AICrawler } from './crawlers.js'
+import { detectLogFormat, parseLog, type LogRequest } from './parser.js'
+
+// Initialize Supabase client
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+)
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface CrawlerLogSourceRow {
+  id: string
+  user_id: string
+  domain: string
+  ingest_key: string
+  hits_total: number
+  last_received_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+/** One row of crawler_hits / one element of the record_crawler_hits payload */
+export interface CrawlerHitRow {
+  hit_date: string
+  path: string
+  crawler: string
+  verification: CrawlerVerification
+  hit_count: number
+  last_hit_at: string
+}
+
+export interface CrawlerLogStats extends CrawlerStats {
+  verifiedHits: number
+}
+
+export interface CrawlerLogMetrics {
+  domain: string
+  dateRangeStart: string
+  dateRangeEnd: string
+  /** Requests from AI crawlers, excluding spoofed ones */
+  totalHits: number
+  verifiedHits: number
+  /** Requests claiming to be a crawler from outside its published IP ranges - not in the tables */
+  spoofedHits: number
+  crawlerList: string[]
+  topCrawlers: CrawlerLogStats[]
+  topPages: PageCrawlerInfo[]
+  lastReceivedAt?: string
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const INGEST_KEY_PREFIX = 'logs_'
+
+const MAX_SOURCES_PER_USER = 50
+
+/** Hits per record_crawler_hits call */
+const RECORD_BATCH_SIZE = 500
+
+/** Supabase caps selects at 1000 rows */
+const PAGE_SIZE = 1000
+
+/** Requests for these aren't page crawls */
+const STATIC_ASSET_PATTERN = /\.(css|js|mjs|map|json|png|jpe?g|gif|svg|ico|webp|avif|bmp|woff2?|ttf|otf|eot|mp4|webm|mp3|wav|zip|gz)$/i
+
+const CRAWLED_METHODS = new Set(['GET', 'HEAD'])
+
+const POSTGRES_ERROR_CODES = {
+  /** Value is not a valid UUID */
+  INVALID_TEXT_REPRESENTATION: '22P02'
+} as const
+
+const ERROR_MESSAGES = {
+  NOT_FOUND: 'Log source not found or access denied',
+  INVALID_DOMAIN: 'A valid domain is required',
+  TOO_MANY_SOURCES: `You can have at most ${MAX_SOURCES_PER_USER} log sources`,
+  UNKNOWN_FORMAT: 'Unrecognized log format - expected nginx/Apache combined, Cloudflare, CloudFront or Vercel logs',
+  CREATE_FAILED: 'Failed to create log source',
+  LIST_FAILED: 'Failed to list log sources',
+  DELETE_FAILED: 'Failed to delete log source',
+  RECORD_FAILED: 'Failed to record crawler hits',
+  METRICS_FAILED: 'Failed to load crawler log metrics'
+} as const
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+export function generateIngestKey(): string {
+  return `${INGEST_KEY_PREFIX}${crypto.randomBytes(12).toString('hex')}`
+}
+
+/**
+ * Hostname a source is stored under (lowercased, without www.)
+ */
+export function normalizeLogDomain(domain: string): string | null {
+  try {
+    const value = domain.trim()
+    return new URL(value.includes('://') ? value : `https://${value}`).hostname.toLowerCase().replace(/^www\./, '')
+  } catch {
+    return null
+  }
+}
+
+function rowToSource(row: CrawlerLogSourceRow): CrawlerLogSource {
+  return {
+    id: row.id,
+    domain: row.domain,
+    ingestKey: row.ingest_key,
+    hitsTotal: Number(row.hits_total),
+    lastReceivedAt: row.last_received_at || undefined,
+    createdAt: row.created_at
+  }
+}
+
+function isCrawledPage(request: LogRequest, domain: string): boolean {
+  if (!CRAWLED_METHODS.has(request.method)) return false
+  if (STATIC_ASSET_PATTERN.test(request.path)) return false
+  // Shared logs (e.g. a Cloudflare zone) can contain other hostnames
+  if (request.host && normalizeLogDomain(request.host) !== domain) return false
+  return true
+}
+
+// =============================================================================
+// AGGREGATION
+// =============================================================================
+
+export interface AggregatedHits {
+  hits: CrawlerHitRow[]
+  crawlerHits: number
+  verifiedHits: number
+  spoofedHits: number
+}
+
+/**
+ * Keep AI crawler page requests and count them per day, path, crawler and verification
+ * IPs are verified once per crawler and address
+ */
+export async function aggregateCrawlerHits(
+  requests: LogRequest[],
+  domain: string,
+  verify: (crawler: AICrawler, ip: string | undefined) => Promise<CrawlerVerification> = verifyCrawlerIp
+): Promise<AggregatedHits> {
+  const hits = new Map<string, CrawlerHitRow>()
+  const verifications = new Map<string, CrawlerVerification>()
+  let crawlerHits = 0
+  let verifiedHits = 0
+  let spoofedHits = 0
+
+  for (const request of requests) {
+    const crawler = identifyCrawler(request.userAgent)
+    if (!crawler || !isCrawledPage(request, domain)) continue
+
+    const verificationKey = `${crawler.name}|${request.ip || ''}`
+    let verification = verifications.get(verificationKey)
+    if (!verification) {
+      verification = await verify(crawler, request.ip)
+      verifications.set(verificationKey, verification)
+    }
+
+    crawlerHits++
+    if (verification === 'verified') verifiedHits++
+    if (verification === 'spoofed') spoofedHits++
+
+    const timestamp = request.timestamp.toISOString()
+    const hitDate = timestamp.split('T')[0]
+    const key = `${hitDate}|${request.path}|${crawler.name}|${verification}`
+    const existing = hits.get(key)
+
+    if (existing) {
+      existing.hit_count++
+      if (timestamp > existing.last_hit_at) existing.last_hit_at = timestamp
+    } else {
+      hits.set(key, {
+        hit_date: hitDate,
+        path: request.path,
+        crawler: crawler.name,
+        verification,
+        hit_count: 1,
+        last_hit_at: timestamp
+      })
+    }
+  }
+
+  return { hits: [...hits.values()], crawlerHits, verifiedHits, spoofedHits }
+}
+
+/**
+ * Roll stored hit rows up into crawler and page tables (spoofed hits excluded)
+ */
+export function buildCrawlerLogMetrics(
+  domain: string,
+  rows: CrawlerHitRow[],
+  dateRangeStart: string,
+  dateRangeEnd: string
+): CrawlerLogMetrics {
+  const crawlers = new Map<string, { hits: number; verifiedHits: number; paths: Set<string> }>()
+  const pages = new Map<string, { hits: number; crawlers: Set<string>; lastHitAt: string }>()
+  let totalHits = 0
+  let verifiedHits = 0
+  let spoofedHits = 0
+
+  for (const row of rows) {
+    if (row.verification === 'spoofed') {
+      spoofedHits += row.hit_count
+      continue
+    }
+
+    totalHits += row.hit_count
+    if (row.verification === 'verified') verifiedHits += row.hit_count
+
+    const crawler = crawlers.get(row.crawler) || { hits: 0, verifiedHits: 0, paths: new Set<string>() }
+    crawler.hits += row.hit_count
+    if (row.verification === 'verified') crawler.verifiedHits += row.hit_count
+    crawler.paths.add(row.path)
+    crawlers.set(row.crawler, crawler)
+
+    const page = pages.get(row.path) || { hits: 0, crawlers: new Set<string>(), lastHitAt: row.last_hit_at }
+    page.hits += row.hit_count
+    page.crawlers.add(row.crawler)
+    if (row.last_hit_at > page.lastHitAt) page.lastHitAt = row.last_hit_at
+    pages.set(row.path, page)
+  }
+
+  const topCrawlers: CrawlerLogStats[] = [...crawlers.entries()]
+    .map(([name, stats]) => ({
+      name,
+      sessions: stats.hits,
+      pageViews: stats.hits,
+      uniquePages: stats.paths.size,
+      verifiedHits: stats.verifiedHits
+    }))
+    .sort((a, b) => b.pageViews - a.pageViews)
+
+  // Same ordering as GA4 pages: crawler diversity first, then volume
+  const topPages: PageCrawlerInfo[] = [...pages.entries()]
+    .map(([path, stats]) => ({
+      path,
+      crawlerCount: stats.crawlers.size,
+      crawlers: [...stats.crawlers].sort(),
+      sessions: stats.hits,
+      lastCrawled: stats.lastHitAt
+    }))
+    .sort((a, b) => b.crawlerCount - a.crawlerCount || b.sessions - a.sessions)
+
+  return {
+    domain,
+    dateRangeStart,
+    dateRangeEnd,
+    totalHits,
+    verifiedHits,
+    spoofedHits,
+    crawlerList: topCrawlers.map(crawler => crawler.name),
+    topCrawlers,
+    topPages
+  }
+}
+
+// =============================================================================
+// SOURCES
+// =============================================================================
+
+/**
+ * A user's log sources
+ */
+export async function listSources(userId: string): Promise<CrawlerLogSource[]> {
+  const { data, error } = await supabase
+    .from('crawler_log_sources')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`${ERROR_MESSAGES.LIST_FAILED}: ${error.message}`)
+  }
+
+  return (data || []).map(rowToSource)
+}
+
+/**
+ * Create the log source for a domain, or return the existing one
+ */
+export async function createSource(userId: string, domain: string): Promise<CrawlerLogSource> {
+  const normalizedDomain = normalizeLogDomain(domain)
+  if (!normalizedDomain) {
+    throw new Error(ERROR_MESSAGES.INVALID_DOMAIN)
+  }
+
+  const sources = await listSources(userId)
+  const existing = sources.find(source => source.domain === normalizedDomain)
+  if (existing) {
+    return existing
+  }
+
+  if (sources.length >= MAX_SOURCES_PER_USER) {
+    throw new Error(ERROR_MESSAGES.TOO_MANY_SOURCES)
+  }
+
+  const { data, error } = await supabase
+    .from('crawler_log_sources')
+    .insert({
+      user_id: userId,
+      domain: normalizedDomain,
+      ingest_key: generateIngestKey()
+    })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`${ERROR_MESSAGES.CREATE_FAILED}: ${error.message}`)
+  }
+
+  console.log(`🪵 [CrawlerLogs] Created log source for ${normalizedDomain}`)
+
+  return rowToSource(data)
+}
+
+/**
+ * Delete a log source and its hits
+ * SECURITY: Always requires userId to prevent cross-user access
+ */
+export async function deleteSource(sourceId: string, userId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('crawler_log_sources')
+    .delete()
+    .eq('id', sourceId)
+    .eq('user_id', userId)
+    .select('id')
+
+  if (error) {
+    if (error.code === POSTGRES_ERROR_CODES.INVALID_TEXT_REPRESENTATION) {
+      throw new Error(ERROR_MESSAGES.NOT_FOUND)
+    }
+    throw new Error(`${ERROR_MESSAGES.DELETE_FAILED}: ${error.message}`)
+  }
+
+  if (!data || data.length === 0) {
+    throw new Error(ERROR_MESSAGES.NOT_FOUND)
+  }
+}
+
+async function getSourceRow(column: 'id' | 'ingest_key', value: string, userId?: string): Promise<CrawlerLogSourceRow | null> {
+  let query = supabase
+    .from('crawler_log_sources')
+    .select('*')
+    .eq(column, value)
+
+  if (userId) {
+    query = query.eq('user_id', userId)
+  }
+
+  const { data, error } = await query.maybeSingle()
+
+  if (error) {
+    if (error.code === POSTGRES_ERROR_CODES.INVALID_TEXT_REPRESENTATION) {
+      return null
+    }
+    throw new Error(`${ERROR_MESSAGES.LIST_FAILED}: ${error.message}`)
+  }
+
+  return data
+}
+
+// =============================================================================
+// INGESTION
+// =============================================================================
+
+async function ingest(source: CrawlerLogSourceRow, content: string, format?: CrawlerLogFormat): Promise<CrawlerLogIngestResult> {
+  const resolvedFormat = format || detectLogFormat(content)
+  if (!resolvedFormat) {
+    throw new Error(ERROR_MESSAGES.UNKNOWN_FORMAT)
+  }
+
+  const parsed = parseLog(content, resolvedFormat)
+  const aggregated = await aggregateCrawlerHits(parsed.requests, source.domain)
+
+  for (let i = 0; i < aggregated.hits.length; i += RECORD_BATCH_SIZE) {
+    const { error } = await supabase.rpc('record_crawler_hits', {
+      p_source_id: source.id,
+      p_hits: aggregated.hits.slice(i, i + RECORD_BATCH_SIZE)
+    })
+
+    if (error) {
+      throw new Error(`${ERROR_MESSAGES.RECORD_FAILED}: ${error.message}`)
+    }
+  }
+
+  console.log(`🪵 [CrawlerLogs] ${source.domain}: ${parsed.linesTotal} ${resolvedFormat} lines, ${aggregated.crawlerHits} AI crawler hits (${aggregated.verifiedHits} verified, ${aggregated.spoofedHits} spoofed)`)
+
+  return {
+    format: resolvedFormat,
+    linesTotal: parsed.linesTotal,
+    linesSkipped: parsed.linesSkipped,
+    crawlerHits: aggregated.crawlerHits,
+    verifiedHits: aggregated.verifiedHits,
+    spoofedHits: aggregated.spoofedHits
+  }
+}
+
+/**
+ * Ingest an uploaded log file
+ */
+export async function ingestUpload(
+  sourceId: string,
+  userId: string,
+  content: string,
+  format?: CrawlerLogFormat
+): Promise<CrawlerLogIngestResult> {
+  const source = await getSourceRow('id', sourceId, userId)
+  if (!source) {
+    throw new Error(ERROR_MESSAGES.NOT_FOUND)
+  }
+  return ingest(source, content, format)
+}
+
+/**
+ * Ingest a batch posted by a log drain to the public ingest URL
+ * Returns null for unknown keys
+ */
+export async function ingestStream(
+  ingestKey: string,
+  content: string,
+  format?: CrawlerLogFormat
+): Promise<CrawlerLogIngestResult | null> {
+  if (!ingestKey.startsWith(INGEST_KEY_PREFIX)) {
+    return null
+  }
+
+  const source = await getSourceRow('ingest_key', ingestKey)
+  return source ? ingest(source, content, format) : null
+}
+
+// =============================================================================
+// METRICS
+// =============================================================================
+
+/**
+ * Crawler and page tables for a domain over a date range (YYYY-MM-DD, inclusive)
+ * Returns null when the user has no log source for the domain
+ */
+export async function getMetrics(
+  userId: string,
+  domain: string,
+  dateRangeStart: string,
+  dateRangeEnd: string
+): Promise<CrawlerLogMetrics | null> {
+  const normalizedDomain = normalizeLogDomain(domain)
+  const source = normalizedDomain
+    ? (await listSources(userId)).find(s => s.domain === normalizedDomain)
+    : undefined
+
+  if (!source) {
+    return null
+  }
+
+  const rows: CrawlerHitRow[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('crawler_hits')
+      .select('hit_date, path, crawler, verification, hit_count, last_hit_at')
+      .eq('source_id', source.id)
+      .gte('hit_date', dateRangeStart)
+      .lte('hit_date', dateRangeEnd)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) {
+      throw new Error(`${ERROR_MESSAGES.METRICS_FAILED}: ${error.message}`)
+    }
+
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  return {
+    ...buildCrawlerLogMetrics(source.domain, rows, dateRangeStart, dateRangeEnd),
+    lastReceivedAt: source.lastReceivedAt
+  }
+}
+
+// =============================================================================
+// EXPORTS
+// =============================================================================
+
+export default {
+  // Sources
+  listSources,
+  createSource,
+  deleteSource,
+
+  // Ingestion
+  ingestUpload,
+  ingestStream,
+
+  // Metrics
+  getMetrics
+}
@@ -0,0 +1,140 @@
+/**
+ * AI Crawler Catalog
+ * User agents of AI training, search and assistant crawlers, and where their operators
+ * publish the IP ranges they crawl from
+ *
+ * Published range files use Google's format: { prefixes: [{ ipv4Prefix } | { ipv6Prefix }] }.
+ * Operators without a range file (or verified by reverse DNS only) leave ipRangesUrl unset,
+ * so their hits are stored as unverified.
+ */
+
+import net from 'net'
+import type { CrawlerVerification } from 'aeo-schema-generator-shared/types'
+
+export interface AICrawler {
+  /** Name shown in crawler tables */
+  name: string
+  operator: string
+  /** Matched against the User-Agent header */
+  pattern: RegExp
+  ipRangesUrl?: string
+}
+
+export const AI_CRAWLERS: AICrawler[] = [
+  { name: 'GPTBot', operator: 'OpenAI', pattern: /GPTBot/i, ipRangesUrl: 'https://openai.com/gptbot.json' },
+  { name: 'ChatGPT-User', operator: 'OpenAI', pattern: /ChatGPT-User/i, ipRangesUrl: 'https://openai.com/chatgpt-user.json' },
+  { name: 'OAI-SearchBot', operator: 'OpenAI', pattern: /OAI-SearchBot/i, ipRangesUrl: 'https://openai.com/searchbot.json' },
+  { name: 'ClaudeBot', operator: 'Anthropic', pattern: /ClaudeBot/i },
+  { name: 'Claude-User', operator: 'Anthropic', pattern: /Claude-User/i },
+  { name: 'Claude-SearchBot', operator: 'Anthropic', pattern: /Claude-SearchBot/i },
+  { name: 'anthropic-ai', operator: 'Anthropic', pattern: /anthropic-ai/i },
+  { name: 'PerplexityBot', operator: 'Perplexity', pattern: /PerplexityBot/i, ipRangesUrl: 'https://www.perplexity.com/perplexitybot.json' },
+  { name: 'Perplexity-User', operator: 'Perplexity', pattern: /Perplexity-User/i, ipRangesUrl: 'https://www.perplexity.com/perplexity-user.json' },
+  { name: 'Applebot', operator: 'Apple', pattern: /Applebot/i, ipRangesUrl: 'https://search.developer.apple.com/applebot.json' },
+  { name: 'Amazonbot', operator: 'Amazon', pattern: /Amazonbot/i },
+  { name: 'Meta-ExternalAgent', operator: 'Meta', pattern: /meta-externalagent/i },
+  { name: 'Meta-ExternalFetcher', operator: 'Meta', pattern: /meta-externalfetcher/i },
+  { name: 'Bytespider', operator: 'ByteDance', pattern: /Bytespider/i },
+  { name: 'CCBot', operator: 'Common Crawl', pattern: /CCBot/i },
+  { name: 'cohere-ai', operator: 'Cohere', pattern: /cohere-ai/i },
+  { name: 'DuckAssistBot', operator: 'DuckDuckGo', pattern: /DuckAssistBot/i },
+  { name: 'MistralAI-User', operator: 'Mistral', pattern: /MistralAI-User/i },
+  { name: 'YouBot', operator: 'You.com', pattern: /YouBot/i }
+]
+
+/** Published ranges change rarely */
+const IP_RANGES_TTL_MS = 24 * 60 * 60 * 1000
+
+/** A failed fetch is retried sooner */
+const IP_RANGES_RETRY_MS = 15 * 60 * 1000
+
+const IP_RANGES_FETCH_TIMEOUT_MS = 10000
+
+interface CachedRanges {
+  ranges: net.BlockList | null
+  expiresAt: number
+}
+
+const rangesCache = new Map<string, CachedRanges>()
+
+// =============================================================================
+// IDENTIFICATION
+// =============================================================================
+
+/**
+ * The AI crawler a User-Agent belongs to, or null for everything else
+ */
+export function identifyCrawler(userAgent: string | undefined): AICrawler | null {
+  if (!userAgent) return null
+  return AI_CRAWLERS.find(crawler => crawler.pattern.test(userAgent)) || null
+}
+
+// =============================================================================
+// IP VERIFICATION
+// =============================================================================
+
+/**
+ * Build a lookup from a published range file
+ */
+export function parseIpRanges(json: any): net.BlockList {
+  const ranges = new net.BlockList()
+
+  for (const prefix of json?.prefixes || []) {
+    const cidr: string | undefined = prefix.ipv4Prefix || prefix.ipv6Prefix
+    if (!cidr) continue
+
+    const [address, length] = cidr.split('/')
+    if (!net.isIP(address)) continue
+
+    const type = net.isIPv6(address) ? 'ipv6' : 'ipv4'
+    ranges.addSubnet(address, Number(length ?? (type === 'ipv6' ? 128 : 32)), type)
+  }
+
+  return ranges
+}
+
+export function isIpInRanges(ranges: net.BlockList, ip: string): boolean {
+  const type = net.isIPv6(ip) ? 'ipv6' : net.isIPv4(ip) ? 'ipv4' : null
+  return type !== null && ranges.check(ip, type)
+}
+
+/**
+ * Fetch and cache an operator's range file
+ * Failures are cached briefly (as null) so a down endpoint isn't hit for every log line
+ */
+async function getIpRanges(url: string): Promise<net.BlockList | null> {
+  const cached = rangesCache.get(url)
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.ranges
+  }
+
+  let ranges: net.BlockList | null = null
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(IP_RANGES_FETCH_TIMEOUT_MS) })
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`)
+    }
+    ranges = parseIpRanges(await response.json())
+  } catch (error) {
+    console.warn(`⚠️ [CrawlerLogs] Could not load IP ranges from ${url}:`, error instanceof Error ? error.message : error)
+  }
+
+  rangesCache.set(url, { ranges, expiresAt: Date.now() + (ranges ? IP_RANGES_TTL_MS : IP_RANGES_RETRY_MS) })
+  return ranges
+}
+
+/**
+ * Check a hit's client IP against the crawler's published ranges
+ */
+export async function verifyCrawlerIp(crawler: AICrawler, ip: string | undefined): Promise<CrawlerVerification> {
+  if (!crawler.ipRangesUrl || !ip || !net.isIP(ip)) {
+    return 'unverified'
+  }
+
+  const ranges = await getIpRanges(crawler.ipRangesUrl)
+  if (!ranges) {
+    return 'unverified'
+  }
+
+  return isIpInRanges(ranges, ip) ? 'verified' : 'spoofed'
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import { detectLogFormat, normalizeRequestPath, parseLog } from './parser.js'
+
+const COMBINED_LOG = [
+  '20.171.207.1 - - [18/Oct/2026:13:55:36 -0700] "GET /blog/post?utm=1 HTTP/1.1" 200 5120 "-" "Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko); compatible; GPTBot/1.2; +https://openai.com/gptbot"',
+  '66.249.66.1 - - [18/Oct/2026:13:56:00 -0700] "GET /pricing HTTP/1.1" 200 1024 "https://example.com/" "Mozilla/5.0 (compatible; Googlebot/2.1)"',
+  'not a log line'
+].join('\n')
+
+const CLOUDFRONT_LOG = [
+  '#Version: 1.0',
+  '#Fields: date time x-edge-location sc-bytes c-ip cs-method cs(Host) cs-uri-stem sc-status cs(Referer) cs(User-Agent) cs-uri-query cs(Cookie) x-edge-result-type x-edge-request-id x-host-header',
+  '2026-10-18\t20:55:36\tIAD89-C1\t5120\t52.230.152.4\tGET\td111.cloudfront.net\t/docs/start\t200\t-\tMozilla/5.0%20(compatible;%20PerplexityBot/1.0)\t-\t-\tHit\tabc==\texample.com'
+].join('\n')
+
+describe('normalizeRequestPath', () => {
+  it('drops query strings and hosts', () => {
+    expect(normalizeRequestPath('/blog/post?utm=1#top')).toBe('/blog/post')
+    expect(normalizeRequestPath('https://example.com/about?x=1')).toBe('/about')
+    expect(normalizeRequestPath('')).toBe('/')
+  })
+})
+
+describe('detectLogFormat', () => {
+  it('recognizes each supported format', () => {
+    expect(detectLogFormat(COMBINED_LOG)).toBe('combined')
+    expect(detectLogFormat(CLOUDFRONT_LOG)).toBe('cloudfront')
+    expect(detectLogFormat('{"ClientIP":"1.2.3.4","ClientRequestURI":"/"}\n')).toBe('cloudflare')
+    expect(detectLogFormat('[{"id":"1","proxy":{"path":"/"}}]')).toBe('vercel')
+    expect(detectLogFormat('hello world')).toBeNull()
+  })
+})
+
+describe('parseLog', () => {
+  it('parses combined logs and converts times to UTC', () => {
+    const parsed = parseLog(COMBINED_LOG, 'combined')
+
+    expect(parsed.linesTotal).toBe(3)
+    expect(parsed.linesSkipped).toBe(1)
+    expect(parsed.requests[0]).toMatchObject({
+      ip: '20.171.207.1',
+      method: 'GET',
+      path: '/blog/post',
+      status: 200
+    })
+    expect(parsed.requests[0].timestamp.toISOString()).toBe('2026-10-18T20:55:36.000Z')
+    expect(parsed.requests[0].userAgent).toContain('GPTBot/1.2')
+  })
+
+  it('parses CloudFront logs using the #Fields header and decodes user agents', () => {
+    const parsed = parseLog(CLOUDFRONT_LOG, 'cloudfront')
+
+    expect(parsed.linesTotal).toBe(1)
+    expect(parsed.requests[0]).toMatchObject({
+      ip: '52.230.152.4',
+      path: '/docs/start',
+      host: 'example.com',
+      userAgent: 'Mozilla/5.0 (compatible; PerplexityBot/1.0)'
+    })
+  })
+
+  it('parses Cloudflare Logpush NDJSON with nanosecond timestamps', () => {
+    const parsed = parseLog([
+      JSON.stringify({
+        ClientIP: '::ffff:20.171.207.1',
+        ClientRequestHost: 'www.example.com',
+        ClientRequestMethod: 'GET',
+        ClientRequestURI: '/products/widget?ref=ai',
+        ClientRequestUserAgent: 'ClaudeBot/1.0',
+        EdgeResponseStatus: 200,
+        EdgeStartTimestamp: 1792356936000000000
+      }),
+      '{broken'
+    ].join('\n'), 'cloudflare')
+
+    expect(parsed.linesSkipped).toBe(1)
+    expect(parsed.requests[0]).toMatchObject({
+      ip: '20.171.207.1',
+      host: 'www.example.com',
+      path: '/products/widget',
+      userAgent: 'ClaudeBot/1.0'
+    })
+    expect(parsed.requests[0].timestamp.toISOString()).toBe('2026-10-18T20:55:36.000Z')
+  })
+
+  it('only treats Vercel entries with proxy details as requests', () => {
+    const parsed = parseLog(JSON.stringify([
+      {
+        id: '1',
+        timestamp: 1792356936000,
+        proxy: {
+          timestamp: 1792356936000,
+          method: 'GET',
+          host: 'example.com',
+          path: '/about',
+          userAgent: ['Mozilla/5.0 (compatible; OAI-SearchBot/1.0)'],
+          statusCode: 200,
+          clientIp: '20.42.10.176'
+        }
+      },
+      { id: '2', timestamp: 1792356936000, message: 'build finished', source: 'build' }
+    ]), 'vercel')
+
+    expect(parsed.linesTotal).toBe(2)
+    expect(parsed.requests).toHaveLength(1)
+    expect(parsed.requests[0]).toMatchObject({ path: '/about', ip: '20.42.10.176', userAgent: 'Mozilla/5.0 (compatible; OAI-SearchBot/1.0)' })
+  })
+})
@@ -0,0 +1,298 @@
+/**
+ * Access Log Parser
+ * Turns raw access logs into request records for AI crawler ingestion
+ *
+ * Formats:
+ * - combined: nginx/Apache combined log format, one request per line
+ * - cloudflare: Logpush HTTP requests dataset, NDJSON (ClientIP, ClientRequestURI, ...)
+ * - cloudfront: CloudFront standard logs, tab-separated with #Fields header
+ * - vercel: log drain JSON (array or NDJSON) - only entries with proxy details are requests
+ */
+
+import type { CrawlerLogFormat } from 'aeo-schema-generator-shared/types'
+
+export const CRAWLER_LOG_FORMATS: CrawlerLogFormat[] = ['combined', 'cloudflare', 'cloudfront', 'vercel']
+
+export interface LogRequest {
+  ip?: string
+  timestamp: Date
+  method: string
+  /** Path without query string or fragment */
+  path: string
+  host?: string
+  status?: number
+  userAgent?: string
+}
+
+export interface ParsedLog {
+  format: CrawlerLogFormat
+  requests: LogRequest[]
+  linesTotal: number
+  /** Lines that aren't requests or couldn't be parsed */
+  linesSkipped: number
+}
+
+// 127.0.0.1 - frank [10/Oct/2000:13:55:36 -0700] "GET /index.html HTTP/1.0" 200 2326 "http://ref/" "Mozilla/5.0 ..."
+const COMBINED_LINE = /^(\S+) \S+ \S+ \[([^\]]+)\] "(\S+) (\S+)[^"]*" (\d{3}) \S+(?: "(?:[^"\\]|\\.)*" "((?:[^"\\]|\\.)*)")?/
+
+// 10/Oct/2000:13:55:36 -0700
+const COMBINED_TIME = /^(\d{2})\/(\w{3})\/(\d{4}):(\d{2}):(\d{2}):(\d{2}) ([+-])(\d{2})(\d{2})$/
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+/** CloudFront's field order when a file has no #Fields header */
+const CLOUDFRONT_DEFAULT_FIELDS = [
+  'date', 'time', 'x-edge-location', 'sc-bytes', 'c-ip', 'cs-method', 'cs(Host)', 'cs-uri-stem',
+  'sc-status', 'cs(Referer)', 'cs(User-Agent)', 'cs-uri-query', 'cs(Cookie)', 'x-edge-result-type',
+  'x-edge-request-id', 'x-host-header'
+]
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Strip query string and fragment; accepts absolute URLs too
+ */
+export function normalizeRequestPath(target: string): string {
+  let path = target
+  if (/^https?:\/\//i.test(path)) {
+    try {
+      path = new URL(path).pathname
+    } catch {
+      // Fall through with the raw value
+    }
+  }
+  path = path.split(/[?#]/)[0]
+  return path.startsWith('/') ? path : `/${path}`
+}
+
+/**
+ * Proxies often log IPv4 clients as IPv4-mapped IPv6
+ */
+function normalizeIp(ip: string | undefined): string | undefined {
+  if (!ip || ip === '-') return undefined
+  return ip.replace(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i, '$1')
+}
+
+function parseCombinedTime(value: string): Date | null {
+  const match = COMBINED_TIME.exec(value)
+  if (!match) return null
+
+  const [, day, month, year, hours, minutes, seconds, sign, offsetHours, offsetMinutes] = match
+  const monthIndex = MONTHS.indexOf(month)
+  if (monthIndex === -1) return null
+
+  const offsetMs = (Number(offsetHours) * 60 + Number(offsetMinutes)) * 60 * 1000 * (sign === '+' ? 1 : -1)
+  return new Date(Date.UTC(Number(year), monthIndex, Number(day), Number(hours), Number(minutes), Number(seconds)) - offsetMs)
+}
+
+/**
+ * Cloudflare timestamps are RFC3339, unix seconds, milliseconds or nanoseconds depending on
+ * the Logpush job's timestamp format
+ */
+function parseFlexibleTimestamp(value: unknown): Date | null {
+  if (value === undefined || value === null || value === '') return null
+
+  const numeric = typeof value === 'number' ? value : /^\d+$/.test(String(value)) ? Number(value) : null
+  if (numeric !== null) {
+    if (numeric > 1e17) return new Date(numeric / 1e6)
+    if (numeric > 1e11) return new Date(numeric)
+    return new Date(numeric * 1000)
+  }
+
+  const date = new Date(String(value))
+  return isNaN(date.getTime()) ? null : date
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    return value
+  }
+}
+
+function unescapeCombined(value: string): string {
+  return value.replace(/\\(.)/g, '$1')
+}
+
+// =============================================================================
+// LINE PARSERS
+// =============================================================================
+
+function parseCombinedLine(line: string): LogRequest | null {
+  const match = COMBINED_LINE.exec(line)
+  if (!match) return null
+
+  const [, ip, time, method, target, status, userAgent] = match
+  const timestamp = parseCombinedTime(time)
+  if (!timestamp) return null
+
+  return {
+    ip: normalizeIp(ip),
+    timestamp,
+    method: method.toUpperCase(),
+    path: normalizeRequestPath(target),
+    status: Number(status),
+    userAgent: userAgent ? unescapeCombined(userAgent) : undefined
+  }
+}
+
+function parseCloudflareEntry(entry: any): LogRequest | null {
+  const target = entry.ClientRequestURI || entry.ClientRequestPath
+  const timestamp = parseFlexibleTimestamp(entry.EdgeStartTimestamp ?? entry.Timestamp)
+  if (!target || !timestamp) return null
+
+  return {
+    ip: normalizeIp(entry.ClientIP),
+    timestamp,
+    method: String(entry.ClientRequestMethod || 'GET').toUpperCase(),
+    path: normalizeRequestPath(target),
+    host: entry.ClientRequestHost || undefined,
+    status: entry.EdgeResponseStatus ?? entry.OriginResponseStatus ?? undefined,
+    userAgent: entry.ClientRequestUserAgent || undefined
+  }
+}
+
+function parseVercelEntry(entry: any): LogRequest | null {
+  const proxy = entry.proxy
+  if (!proxy?.path) return null
+
+  const timestamp = parseFlexibleTimestamp(proxy.timestamp ?? entry.timestamp)
+  if (!timestamp) return null
+
+  const userAgent = Array.isArray(proxy.userAgent) ? proxy.userAgent.join(' ') : proxy.userAgent
+
+  return {
+    ip: normalizeIp(proxy.clientIp),
+    timestamp,
+    method: String(proxy.method || 'GET').toUpperCase(),
+    path: normalizeRequestPath(proxy.path),
+    host: proxy.host || entry.host || undefined,
+    status: proxy.statusCode ?? undefined,
+    userAgent: userAgent || undefined
+  }
+}
+
+function parseCloudFrontLine(line: string, fields: string[]): LogRequest | null {
+  const values = line.split('\t')
+  const get = (field: string): string | undefined => {
+    const index = fields.indexOf(field)
+    const value = index === -1 ? undefined : values[index]
+    return value && value !== '-' ? value : undefined
+  }
+
+  const date = get('date')
+  const time = get('time')
+  const target = get('cs-uri-stem')
+  if (!date || !time || !target) return null
+
+  const timestamp = new Date(`${date}T${time}Z`)
+  if (isNaN(timestamp.getTime())) return null
+
+  const userAgent = get('cs(User-Agent)')
+
+  return {
+    ip: normalizeIp(get('c-ip')),
+    timestamp,
+    method: (get('cs-method') || 'GET').toUpperCase(),
+    path: normalizeRequestPath(target),
+    host: get('x-host-header'),
+    status: get('sc-status') ? Number(get('sc-status')) : undefined,
+    // CloudFront URL-encodes the user agent (sometimes twice)
+    userAgent: userAgent ? safeDecode(safeDecode(userAgent)) : undefined
+  }
+}
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+/**
+ * JSON entries from a JSON array or NDJSON; null marks lines that aren't valid JSON
+ */
+function readJsonEntries(content: string): any[] {
+  const trimmed = content.trim()
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(trimmed)
+      if (Array.isArray(parsed)) return parsed
+    } catch {
+      // Not a single JSON array - try NDJSON
+    }
+  }
+
+  return splitLines(content).map(line => {
+    try {
+      return JSON.parse(line)
+    } catch {
+      return null
+    }
+  })
+}
+
+function splitLines(content: string): string[] {
+  return content.split(/\r?\n/).filter(line => line.trim() !== '')
+}
+
+/**
+ * Guess the format from the first entry
+ */
+export function detectLogFormat(content: string): CrawlerLogFormat | null {
+  const trimmed = content.trimStart()
+  if (trimmed.startsWith('#Version') || trimmed.startsWith('#Fields')) {
+    return 'cloudfront'
+  }
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const first = readJsonEntries(trimmed.startsWith('[') ? trimmed : trimmed.split(/\r?\n/, 1)[0])[0]
+    if (first?.proxy) return 'vercel'
+    if (first && ('ClientRequestURI' in first || 'ClientRequestUserAgent' in first)) return 'cloudflare'
+    return null
+  }
+
+  const firstLine = splitLines(trimmed)[0] || ''
+  if (COMBINED_LINE.test(firstLine)) return 'combined'
+  if (/^\d{4}-\d{2}-\d{2}\t\d{2}:\d{2}:\d{2}\t/.test(firstLine)) return 'cloudfront'
+
+  return null
+}
+
+/**
+ * Parse a log in a known format
+ */
+export function parseLog(content: string, format: CrawlerLogFormat): ParsedLog {
+  const requests: LogRequest[] = []
+  let linesTotal = 0
+
+  if (format === 'cloudflare' || format === 'vercel') {
+    const parseEntry = format === 'cloudflare' ? parseCloudflareEntry : parseVercelEntry
+    for (const entry of readJsonEntries(content)) {
+      linesTotal++
+      const request = entry ? parseEntry(entry) : null
+      if (request) requests.push(request)
+    }
+  } else if (format === 'cloudfront') {
+    let fields = CLOUDFRONT_DEFAULT_FIELDS
+    for (const line of splitLines(content)) {
+      if (line.startsWith('#Fields:')) {
+        fields = line.slice('#Fields:'.length).trim().split(/\s+/)
+        continue
+      }
+      if (line.startsWith('#')) continue
+
+      linesTotal++
+      const request = parseCloudFrontLine(line, fields)
+      if (request) requests.push(request)
+    }
+  } else {
+    for (const line of splitLines(content)) {
+      linesTotal++
+      const request = parseCombinedLine(line)
+      if (request) requests.push(request)
+    }
+  }
+
+  return { format, requests, linesTotal, linesSkipped: linesTotal - requests.length }
+}
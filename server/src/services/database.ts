@@ -14,8 +14,29 @@ import type {
   DiscoveredUrl,
   UrlLibraryFilters,
   SupportTicket,
-  ReleaseNote
+  ReleaseNote,
+  SchemaDriftStatus,
+  SchemaDriftDetails,
+  DomainDriftSummary,
+  HubSpotSyncJob,
+  HubSpotPublishOptions,
+  HubSpotSyncFailureReason,
+  WordPressConnection,
+  WordPressContentType,
+  WordPressSchemaInjection,
+  SchemaScore
 } from 'aeo-schema-generator-shared/types'
+import type {
+  AIPlatformDefinition,
+  AIReferrerCatalog,
+  AIReferrerField,
+  AIReferrerPatternType,
+  PrivateAIReferrerPattern
+} from './ga4/aiReferrerCatalog.js'
+import type { GA4AlertRule, GA4AlertEvent, GA4AlertRuleType } from './ga4/alerts.js'
+
+/** Error message of HubSpot retries cancelled because a newer push or rollback replaced their schema */
+export const HUBSPOT_SYNC_SUPERSEDED_MESSAGE = 'A newer push or rollback of this content replaced the schema, so it was not retried'
 
 // Database types for Supabase
 export interface Database {
@@ -267,6 +288,7 @@ export interface Database {
           title: string
           message: string
           feature_id: string | null
+          link: string | null
           is_read: boolean
           read_at: string | null
           created_at: string
@@ -278,6 +300,7 @@ export interface Database {
           title: string
           message: string
           feature_id?: string | null
+          link?: string | null
           is_read?: boolean
           read_at?: string | null
           created_at?: string
@@ -943,6 +966,49 @@ class DatabaseService {
     return data.id
   }
 
+  /**
+   * Record schema imported from a live page - no credits, stored as already successful
+   * so it can be refined like generated schema
+   */
+  async createImportedSchemaGeneration(
+    userId: string,
+    url: string,
+    imported: {
+      schemas: any[]
+      schemaType: string
+      schemaScore: any
+      contentFingerprint?: string
+      processingTimeMs?: number
+    }
+  ): Promise<string> {
+    if (!this.isDatabaseAvailable()) {
+      const generationId = `mock-import-${Date.now()}`
+      console.log('Mock: createImportedSchemaGeneration', { userId, url, generationId })
+      return generationId
+    }
+
+    const { data, error } = await this.supabase
+      .from('schema_generations')
+      .insert({
+        user_id: userId,
+        url,
+        credits_cost: 0,
+        schema_type: imported.schemaType,
+        schemas: imported.schemas,
+        schema_score: imported.schemaScore,
+        status: 'success',
+        processing_time_ms: imported.processingTimeMs || null,
+        content_fingerprint: imported.contentFingerprint || null,
+        is_imported_schema: true,
+        imported_at: new Date().toISOString()
+      })
+      .select('id')
+      .single()
+
+    if (error) throw error
+    return data.id
+  }
+
   async updateSchemaGeneration(
     id: string,
     updates: {
@@ -958,6 +1024,7 @@ class DatabaseService {
       aiModelProvider?: string
       stackTrace?: string
       requestContext?: any
+      contentFingerprint?: string
     }
   ): Promise<void> {
     if (!this.isDatabaseAvailable()) {
@@ -1002,6 +1069,9 @@ class DatabaseService {
     if (updates.requestContext !== undefined) {
       updateData.request_context = updates.requestContext
     }
+    if (updates.contentFingerprint !== undefined) {
+      updateData.content_fingerprint = updates.contentFingerprint
+    }
 
     console.log(`💾 updateSchemaGeneration: Updating record ${id} with:`, {
       hasSchemas: !!updateData.schemas,
@@ -1281,6 +1351,8 @@ class DatabaseService {
       domain: data.domain,
       lastCrawledAt: data.last_crawled_at,
       totalUrlsDiscovered: data.total_urls_discovered,
+      embedSiteKey: data.embed_site_key || undefined,
+      embedEnabled: data.embed_enabled || false,
       createdAt: data.created_at,
       updatedAt: data.updated_at
     }
@@ -1301,11 +1373,103 @@ class DatabaseService {
       domain: row.domain,
       lastCrawledAt: row.last_crawled_at,
       totalUrlsDiscovered: row.total_urls_discovered,
+      embedSiteKey: row.embed_site_key || undefined,
+      embedEnabled: row.embed_enabled || false,
       createdAt: row.created_at,
       updatedAt: row.updated_at
     }))
   }
 
+  /**
+   * Enable/disable the embeddable loader for a domain, optionally setting a new site key
+   * Returns null when the domain doesn't belong to the user
+   */
+  async updateDomainEmbedSettings(
+    userId: string,
+    domainId: string,
+    settings: { embedEnabled: boolean; embedSiteKey?: string }
+  ): Promise<UserDomain | null> {
+    const updates: Record<string, any> = { embed_enabled: settings.embedEnabled }
+    if (settings.embedSiteKey) {
+      updates.embed_site_key = settings.embedSiteKey
+    }
+
+    const { data, error } = await this.supabase
+      .from('user_domains')
+      .update(updates)
+      .eq('id', domainId)
+      .eq('user_id', userId)
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) return null
+
+    return {
+      id: data.id,
+      userId: data.user_id,
+      domain: data.domain,
+      lastCrawledAt: data.last_crawled_at,
+      totalUrlsDiscovered: data.total_urls_discovered,
+      embedSiteKey: data.embed_site_key || undefined,
+      embedEnabled: data.embed_enabled || false,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at
+    }
+  }
+
+  /**
+   * Look up a domain by its public embed site key (used by the unauthenticated loader endpoint)
+   */
+  async getDomainByEmbedSiteKey(siteKey: string): Promise<{ id: string; domain: string; embedEnabled: boolean } | null> {
+    const { data, error } = await this.supabase
+      .from('user_domains')
+      .select('id, domain, embed_enabled')
+      .eq('embed_site_key', siteKey)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) return null
+
+    return {
+      id: data.id,
+      domain: data.domain,
+      embedEnabled: data.embed_enabled || false
+    }
+  }
+
+  /**
+   * Find a visible library URL of a domain by exact URL (callers pass the normalized URL and
+   * its variants, since crawled URLs are stored as discovered)
+   */
+  async findDomainUrl(domainId: string, candidateUrls: string[]): Promise<DiscoveredUrl | null> {
+    const { data, error } = await this.supabase
+      .from('discovered_urls')
+      .select('*')
+      .eq('domain_id', domainId)
+      .eq('is_hidden', false)
+      .in('url', candidateUrls)
+      .limit(1)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) return null
+
+    return {
+      id: data.id,
+      userId: data.user_id,
+      domainId: data.domain_id,
+      url: data.url,
+      path: data.path,
+      depth: data.depth,
+      isHidden: data.is_hidden,
+      hasSchema: data.has_schema,
+      lastSchemaGeneratedAt: data.last_schema_generated_at,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at
+    }
+  }
+
   async deleteDomain(domainId: string): Promise<void> {
     // Delete the domain (CASCADE will automatically delete all associated discovered_urls)
     const { error } = await this.supabase
@@ -1385,6 +1549,35 @@ class DatabaseService {
 
     if (error) throw error
 
+    return data.map(row => ({
+      id: row.id,
+      userId: row.user_id,
+      domainId: row.domain_id,
+      url: row.url,
+      path: row.path,
+      depth: row.depth,
+      isHidden: row.is_hidden,
+      hasSchema: row.has_schema,
+      lastSchemaGeneratedAt: row.last_schema_generated_at,
+      driftStatus: row.drift_status || undefined,
+      driftDetails: row.drift_details || undefined,
+      driftCheckedAt: row.drift_checked_at || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    }))
+  }
+
+  async getUserUrlsByIds(userId: string, urlIds: string[]): Promise<DiscoveredUrl[]> {
+    if (urlIds.length === 0) return []
+
+    const { data, error } = await this.supabase
+      .from('discovered_urls')
+      .select('*')
+      .eq('user_id', userId)
+      .in('id', urlIds)
+
+    if (error) throw error
+
     return data.map(row => ({
       id: row.id,
       userId: row.user_id,
@@ -1703,6 +1896,132 @@ class DatabaseService {
     console.log('✅ URL deleted successfully')
   }
 
+  // Schema drift monitoring operations
+  async getDiscoveredUrlForDriftCheck(urlId: string, userId?: string): Promise<{
+    id: string
+    userId: string
+    url: string
+    contentFingerprint?: string
+  } | null> {
+    let query = this.supabase
+      .from('discovered_urls')
+      .select('id, user_id, url, content_fingerprint')
+      .eq('id', urlId)
+      .eq('has_schema', true)
+
+    // Scheduled checks run across all users, manual checks are scoped to the caller
+    if (userId) {
+      query = query.eq('user_id', userId)
+    }
+
+    const { data, error } = await query.maybeSingle()
+
+    if (error) throw error
+    if (!data) return null
+
+    return {
+      id: data.id,
+      userId: data.user_id,
+      url: data.url,
+      contentFingerprint: data.content_fingerprint || undefined
+    }
+  }
+
+  async getUrlsDueForDriftCheck(checkedBefore: Date, limit: number): Promise<string[]> {
+    const { data, error } = await this.supabase
+      .from('discovered_urls')
+      .select('id')
+      .eq('has_schema', true)
+      .eq('is_hidden', false)
+      .or(`drift_checked_at.is.null,drift_checked_at.lt.${checkedBefore.toISOString()}`)
+      .order('drift_checked_at', { ascending: true, nullsFirst: true })
+      .limit(limit)
+
+    if (error) throw error
+
+    return (data || []).map(row => row.id)
+  }
+
+  async updateUrlDriftStatus(
+    urlId: string,
+    status: SchemaDriftStatus | null,
+    details: SchemaDriftDetails | null,
+    baselineFingerprint?: string
+  ): Promise<void> {
+    const updateData: any = {
+      drift_status: status,
+      drift_details: details,
+      drift_checked_at: new Date().toISOString()
+    }
+
+    if (baselineFingerprint !== undefined) {
+      updateData.content_fingerprint = baselineFingerprint
+    }
+
+    const { error } = await this.supabase
+      .from('discovered_urls')
+      .update(updateData)
+      .eq('id', urlId)
+
+    if (error) throw error
+  }
+
+  async getDriftSummaryByDomain(userId: string): Promise<DomainDriftSummary[]> {
+    const [{ data: domains, error: domainsError }, { data: urls, error: urlsError }] = await Promise.all([
+      this.supabase
+        .from('user_domains')
+        .select('id, domain')
+        .eq('user_id', userId),
+      this.supabase
+        .from('discovered_urls')
+        .select('domain_id, drift_status, drift_checked_at')
+        .eq('user_id', userId)
+        .eq('has_schema', true)
+        .eq('is_hidden', false)
+    ])
+
+    if (domainsError) throw domainsError
+    if (urlsError) throw urlsError
+
+    const summaries = new Map<string, DomainDriftSummary>()
+    for (const domain of domains || []) {
+      summaries.set(domain.id, {
+        domainId: domain.id,
+        domain: domain.domain,
+        monitoredUrls: 0,
+        inSync: 0,
+        missingOnPage: 0,
+        modified: 0,
+        contentChanged: 0,
+        unreachable: 0,
+        unchecked: 0
+      })
+    }
+
+    const statusKeys: Record<SchemaDriftStatus, 'inSync' | 'missingOnPage' | 'modified' | 'contentChanged' | 'unreachable'> = {
+      in_sync: 'inSync',
+      missing_on_page: 'missingOnPage',
+      modified: 'modified',
+      content_changed: 'contentChanged',
+      unreachable: 'unreachable'
+    }
+
+    for (const row of urls || []) {
+      const summary = row.domain_id ? summaries.get(row.domain_id) : undefined
+      if (!summary) continue
+
+      summary.monitoredUrls++
+      const key = row.drift_status ? statusKeys[row.drift_status as SchemaDriftStatus] : 'unchecked'
+      summary[key]++
+
+      if (row.drift_checked_at && (!summary.lastCheckedAt || row.drift_checked_at > summary.lastCheckedAt)) {
+        summary.lastCheckedAt = row.drift_checked_at
+      }
+    }
+
+    return Array.from(summaries.values()).filter(summary => summary.monitoredUrls > 0)
+  }
+
   // ===================
   // ADMIN METHODS
   // ===================
@@ -2075,10 +2394,90 @@ class DatabaseService {
       isImportedSchema: row.is_imported_schema || false,
       hasBeenRefined: row.has_been_refined || false,
       importedAt: row.imported_at,
+      contentFingerprint: row.content_fingerprint,
       createdAt: row.created_at
     }))
   }
 
+  /**
+   * Get successful schemas for many discovered URLs at once, newest first, grouped by URL ID
+   * Used by domain exports so a whole domain doesn't cost one query per URL
+   */
+  async getSchemasForDiscoveredUrls(discoveredUrlIds: string[]): Promise<Map<string, Array<{ id: string; schemas: any; schemaType: string; schemaScore: SchemaScore | null; createdAt: string }>>> {
+    const result = new Map<string, Array<{ id: string; schemas: any; schemaType: string; schemaScore: SchemaScore | null; createdAt: string }>>()
+
+    // Chunked so large domains don't exceed the request URL length limit of the `in` filter
+    const CHUNK_SIZE = 200
+    for (let i = 0; i < discoveredUrlIds.length; i += CHUNK_SIZE) {
+      const { data, error } = await this.supabase
+        .from('schema_generations')
+        .select('id, discovered_url_id, schemas, schema_type, schema_score, created_at')
+        .in('discovered_url_id', discoveredUrlIds.slice(i, i + CHUNK_SIZE))
+        .eq('status', 'success')
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+
+      for (const row of data || []) {
+        const records = result.get(row.discovered_url_id) || []
+        records.push({
+          id: row.id,
+          schemas: row.schemas,
+          schemaType: row.schema_type,
+          schemaScore: row.schema_score || null,
+          createdAt: row.created_at
+        })
+        result.set(row.discovered_url_id, records)
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Successful HubSpot and WordPress pushes of the given schema generations, oldest first
+   * Used to date when schema actually went live on a page
+   */
+  async getSuccessfulCMSPushes(schemaGenerationIds: string[]): Promise<Array<{
+    schemaGenerationId: string
+    cms: 'hubspot' | 'wordpress'
+    syncedAt: string
+  }>> {
+    const pushes: Array<{ schemaGenerationId: string; cms: 'hubspot' | 'wordpress'; syncedAt: string }> = []
+
+    const CHUNK_SIZE = 200
+    for (let i = 0; i < schemaGenerationIds.length; i += CHUNK_SIZE) {
+      const chunk = schemaGenerationIds.slice(i, i + CHUNK_SIZE)
+
+      const [hubspot, wordpress] = await Promise.all([
+        this.supabase
+          .from('hubspot_sync_jobs')
+          .select('schema_generation_id, synced_at')
+          .in('schema_generation_id', chunk)
+          .eq('status', 'success')
+          .not('synced_at', 'is', null),
+        this.supabase
+          .from('wordpress_sync_jobs')
+          .select('schema_generation_id, synced_at')
+          .in('schema_generation_id', chunk)
+          .eq('status', 'success')
+          .not('synced_at', 'is', null)
+      ])
+
+      if (hubspot.error) throw hubspot.error
+      if (wordpress.error) throw wordpress.error
+
+      for (const row of hubspot.data || []) {
+        pushes.push({ schemaGenerationId: row.schema_generation_id, cms: 'hubspot', syncedAt: row.synced_at })
+      }
+      for (const row of wordpress.data || []) {
+        pushes.push({ schemaGenerationId: row.schema_generation_id, cms: 'wordpress', syncedAt: row.synced_at })
+      }
+    }
+
+    return pushes.sort((a, b) => a.syncedAt.localeCompare(b.syncedAt))
+  }
+
   /**
    * Get a specific schema type for a URL
    * Used to check if a type already exists before generation
@@ -2154,21 +2553,26 @@ class DatabaseService {
       return new Map()
     }
 
-    const { data, error } = await this.supabase
-      .from('discovered_urls')
-      .select('url, has_schema')
-      .eq('user_id', userId)
-      .in('url', urls)
+    const resultMap = new Map<string, boolean>()
 
-    if (error) {
-      console.error('Error batch checking hasSchema:', error)
-      return new Map(urls.map(url => [url, false]))
-    }
+    // Chunked so large crawls don't exceed the request URL length limit of the `in` filter
+    const CHUNK_SIZE = 200
+    for (let i = 0; i < urls.length; i += CHUNK_SIZE) {
+      const { data, error } = await this.supabase
+        .from('discovered_urls')
+        .select('url, has_schema')
+        .eq('user_id', userId)
+        .in('url', urls.slice(i, i + CHUNK_SIZE))
 
-    const resultMap = new Map<string, boolean>()
-    data?.forEach(row => {
-      resultMap.set(row.url, row.has_schema || false)
-    })
+      if (error) {
+        console.error('Error batch checking hasSchema:', error)
+        return new Map(urls.map(url => [url, false]))
+      }
+
+      data?.forEach(row => {
+        resultMap.set(row.url, row.has_schema || false)
+      })
+    }
 
     // Add false for URLs not found in database
     urls.forEach(url => {
@@ -3124,6 +3528,50 @@ class DatabaseService {
     }))
   }
 
+  /**
+   * Every active domain mapping whose user has an active GA4 connection
+   * Used by the scheduled refresh - all of a user's mappings, not just one per user
+   */
+  async getAllActiveGA4DomainMappings() {
+    if (!this.isDatabaseAvailable()) {
+      console.log('Mock: getAllActiveGA4DomainMappings')
+      return []
+    }
+
+    const [{ data: connections, error: connectionsError }, { data: mappings, error: mappingsError }] = await Promise.all([
+      this.supabase
+        .from('ga4_connections')
+        .select('user_id')
+        .eq('is_active', true),
+      this.supabase
+        .from('ga4_domain_mappings')
+        .select('*')
+        .eq('is_active', true)
+        .order('user_id', { ascending: true })
+        .order('created_at', { ascending: true })
+    ])
+
+    if (connectionsError) throw connectionsError
+    if (mappingsError) throw mappingsError
+
+    const connectedUsers = new Set((connections || []).map(row => row.user_id))
+
+    return (mappings || [])
+      .filter(row => connectedUsers.has(row.user_id))
+      .map(row => ({
+        id: row.id,
+        userId: row.user_id,
+        teamId: row.team_id,
+        connectionId: row.connection_id,
+        propertyId: row.property_id,
+        propertyName: row.property_name,
+        domain: row.domain,
+        isActive: row.is_active,
+        createdAt: new Date(row.created_at),
+        updatedAt: new Date(row.updated_at)
+      }))
+  }
+
   async getGA4DomainMappingByProperty(userId: string, propertyId: string) {
     if (!this.isDatabaseAvailable()) {
       console.log('Mock: getGA4DomainMappingByProperty', { userId, propertyId })
@@ -3188,6 +3636,7 @@ class DatabaseService {
     topCrawlers: any[]
     topPages: any[]
     nonCrawledPages: any[]
+    catalogVersion?: number
   }): Promise<void> {
     if (!this.isDatabaseAvailable()) {
       console.log('Mock: storeGA4Metrics', params)
@@ -3213,6 +3662,7 @@ class DatabaseService {
         top_crawlers: params.topCrawlers,
         top_pages: params.topPages,
         non_crawled_pages: params.nonCrawledPages,
+        catalog_version: params.catalogVersion ?? null,
         refreshed_at: new Date().toISOString(),
         created_at: new Date().toISOString()
       }, {
@@ -3277,11 +3727,58 @@ class DatabaseService {
       topCrawlers: data.top_crawlers,
       topPages: data.top_pages,
       nonCrawledPages: data.non_crawled_pages || [],
+      catalogVersion: data.catalog_version as number | null,
       refreshedAt: new Date(data.refreshed_at),
       createdAt: new Date(data.created_at)
     }
   }
 
+  /**
+   * Most recently refreshed cached metrics of each mapping, whatever its date range
+   */
+  async getLatestGA4CachedMetricsForMappings(mappingIds: string[]): Promise<Map<string, {
+    aiVisibilityScore: number
+    aiCrawlerList: string[]
+    dateRangeStart: string
+    dateRangeEnd: string
+    refreshedAt: string
+  }>> {
+    const result = new Map<string, {
+      aiVisibilityScore: number
+      aiCrawlerList: string[]
+      dateRangeStart: string
+      dateRangeEnd: string
+      refreshedAt: string
+    }>()
+
+    if (!this.isDatabaseAvailable()) {
+      console.log('Mock: getLatestGA4CachedMetricsForMappings', { count: mappingIds.length })
+      return result
+    }
+    if (mappingIds.length === 0) return result
+
+    const { data, error } = await this.supabase
+      .from('ga4_crawler_metrics')
+      .select('mapping_id, ai_visibility_score, ai_crawler_list, date_range_start, date_range_end, refreshed_at')
+      .in('mapping_id', mappingIds)
+      .order('refreshed_at', { ascending: false })
+
+    if (error) throw error
+
+    for (const row of data || []) {
+      if (result.has(row.mapping_id)) continue
+      result.set(row.mapping_id, {
+        aiVisibilityScore: row.ai_visibility_score || 0,
+        aiCrawlerList: row.ai_crawler_list || [],
+        dateRangeStart: row.date_range_start,
+        dateRangeEnd: row.date_range_end,
+        refreshedAt: row.refreshed_at
+      })
+    }
+
+    return result
+  }
+
   // ============================================
   // GA4 Exclusion Pattern Methods
   // ============================================
@@ -3459,6 +3956,7 @@ class DatabaseService {
     totalActivePages: number
     crawlerList: string[]
     exclusionPatternsHash: string
+    catalogVersion?: number
   }): Promise<void> {
     if (!this.isDatabaseAvailable()) {
       console.log('Mock: storeGA4DailySnapshot', params)
@@ -3476,6 +3974,7 @@ class DatabaseService {
         total_active_pages: params.totalActivePages,
         crawler_list: params.crawlerList,
         exclusion_patterns_hash: params.exclusionPatternsHash,
+        catalog_version: params.catalogVersion ?? null,
         calculated_at: new Date().toISOString()
       }, {
         onConflict: 'mapping_id,snapshot_date'
@@ -3514,14 +4013,76 @@ class DatabaseService {
       totalActivePages: row.total_active_pages,
       crawlerList: row.crawler_list,
       exclusionPatternsHash: row.exclusion_patterns_hash,
+      catalogVersion: row.catalog_version as number | null,
       calculatedAt: row.calculated_at
     }))
   }
 
-  async deleteGA4SnapshotsForMapping(mappingId: string): Promise<void> {
-    if (!this.isDatabaseAvailable()) {
-      console.log('Mock: deleteGA4SnapshotsForMapping', { mappingId })
-      return
+  /**
+   * Daily snapshots of several mappings, grouped by mapping and ordered by date
+   */
+  async getGA4DailySnapshotsForMappings(
+    mappingIds: string[],
+    startDate: string, // ISO date string (YYYY-MM-DD)
+    endDate: string    // ISO date string (YYYY-MM-DD)
+  ): Promise<Map<string, Array<{
+    snapshotDate: string
+    aiSessions: number
+    uniqueCrawlers: number
+    aiCrawledPages: number
+    totalActivePages: number
+    crawlerList: string[]
+  }>>> {
+    const result = new Map<string, Array<{
+      snapshotDate: string
+      aiSessions: number
+      uniqueCrawlers: number
+      aiCrawledPages: number
+      totalActivePages: number
+      crawlerList: string[]
+    }>>()
+
+    if (!this.isDatabaseAvailable()) {
+      console.log('Mock: getGA4DailySnapshotsForMappings', { count: mappingIds.length, startDate, endDate })
+      return result
+    }
+
+    // One snapshot per mapping per day - chunk mappings so a response stays under the 1000-row limit
+    const days = Math.round((Date.parse(endDate) - Date.parse(startDate)) / (24 * 60 * 60 * 1000)) + 1
+    const chunkSize = Math.max(1, Math.floor(1000 / Math.max(1, days)))
+
+    for (let i = 0; i < mappingIds.length; i += chunkSize) {
+      const { data, error } = await this.supabase
+        .from('ga4_daily_activity_snapshots')
+        .select('mapping_id, snapshot_date, ai_sessions, unique_crawlers, ai_crawled_pages, total_active_pages, crawler_list')
+        .in('mapping_id', mappingIds.slice(i, i + chunkSize))
+        .gte('snapshot_date', startDate)
+        .lte('snapshot_date', endDate)
+        .order('snapshot_date', { ascending: true })
+
+      if (error) throw error
+
+      for (const row of data || []) {
+        const snapshots = result.get(row.mapping_id) || []
+        snapshots.push({
+          snapshotDate: row.snapshot_date,
+          aiSessions: row.ai_sessions,
+          uniqueCrawlers: row.unique_crawlers,
+          aiCrawledPages: row.ai_crawled_pages,
+          totalActivePages: row.total_active_pages,
+          crawlerList: row.crawler_list || []
+        })
+        result.set(row.mapping_id, snapshots)
+      }
+    }
+
+    return result
+  }
+
+  async deleteGA4SnapshotsForMapping(mappingId: string): Promise<void> {
+    if (!this.isDatabaseAvailable()) {
+      console.log('Mock: deleteGA4SnapshotsForMapping', { mappingId })
+      return
     }
 
     const { error } = await this.supabase
@@ -3530,241 +4091,1182 @@ class DatabaseService {
       .eq('mapping_id', mappingId)
 
     if (error) throw error
-
-    console.log(`🗑️  [Database] Deleted all activity snapshots for mapping ${mappingId}`)
+
+    console.log(`🗑️  [Database] Deleted all activity snapshots for mapping ${mappingId}`)
+  }
+
+  async getLatestSnapshotDate(mappingId: string): Promise<string | null> {
+    if (!this.isDatabaseAvailable()) {
+      console.log('Mock: getLatestSnapshotDate', { mappingId })
+      return null
+    }
+
+    const { data, error } = await this.supabase
+      .from('ga4_daily_activity_snapshots')
+      .select('snapshot_date')
+      .eq('mapping_id', mappingId)
+      .order('snapshot_date', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) throw error
+
+    return data?.snapshot_date || null
+  }
+
+  // ============================================
+  // AI Referrer Catalog Methods
+  // ============================================
+
+  private mapAIReferrerCatalog(row: any): AIReferrerCatalog {
+    return {
+      version: row.version,
+      platforms: (row.platforms || []) as AIPlatformDefinition[],
+      changeNote: row.change_note,
+      createdBy: row.created_by,
+      createdAt: new Date(row.created_at)
+    }
+  }
+
+  async getLatestAIReferrerCatalog(): Promise<AIReferrerCatalog | null> {
+    if (!this.isDatabaseAvailable()) {
+      console.log('Mock: getLatestAIReferrerCatalog')
+      return null
+    }
+
+    const { data, error } = await this.supabase
+      .from('ai_referrer_catalog_versions')
+      .select('*')
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) throw error
+
+    return data ? this.mapAIReferrerCatalog(data) : null
+  }
+
+  async getAIReferrerCatalogVersions(limit: number = 20): Promise<AIReferrerCatalog[]> {
+    if (!this.isDatabaseAvailable()) {
+      console.log('Mock: getAIReferrerCatalogVersions', { limit })
+      return []
+    }
+
+    const { data, error } = await this.supabase
+      .from('ai_referrer_catalog_versions')
+      .select('*')
+      .order('version', { ascending: false })
+      .limit(limit)
+
+    if (error) throw error
+
+    return (data || []).map(row => this.mapAIReferrerCatalog(row))
+  }
+
+  async createAIReferrerCatalogVersion(params: {
+    platforms: AIPlatformDefinition[]
+    changeNote: string | null
+    createdBy: string
+  }): Promise<AIReferrerCatalog> {
+    if (!this.isDatabaseAvailable()) {
+      console.log('Mock: createAIReferrerCatalogVersion', params)
+      return {
+        version: 1,
+        platforms: params.platforms,
+        changeNote: params.changeNote,
+        createdBy: params.createdBy,
+        createdAt: new Date()
+      }
+    }
+
+    const { data, error } = await this.supabase
+      .from('ai_referrer_catalog_versions')
+      .insert({
+        platforms: params.platforms,
+        change_note: params.changeNote,
+        created_by: params.createdBy,
+        created_at: new Date().toISOString()
+      })
+      .select('*')
+      .single()
+
+    if (error) throw error
+    return this.mapAIReferrerCatalog(data)
+  }
+
+  async getGA4AIReferrerPatterns(mappingId: string): Promise<PrivateAIReferrerPattern[]> {
+    if (!this.isDatabaseAvailable()) {
+      console.log('Mock: getGA4AIReferrerPatterns', { mappingId })
+      return []
+    }
+
+    const { data, error } = await this.supabase
+      .from('ga4_ai_referrer_patterns')
+      .select('*')
+      .eq('mapping_id', mappingId)
+      .order('platform_name')
+      .order('pattern')
+
+    if (error) throw error
+
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      mappingId: row.mapping_id,
+      platformName: row.platform_name,
+      field: row.match_field,
+      patternType: row.pattern_type,
+      pattern: row.pattern,
+      description: row.description,
+      isActive: row.is_active,
+      createdAt: new Date(row.created_at),
+      createdBy: row.created_by
+    }))
+  }
+
+  async createGA4AIReferrerPattern(params: {
+    mappingId: string
+    platformName: string
+    field: AIReferrerField
+    patternType: AIReferrerPatternType
+    pattern: string
+    description?: string
+    createdBy?: string
+  }): Promise<string> {
+    if (!this.isDatabaseAvailable()) {
+      console.log('Mock: createGA4AIReferrerPattern', params)
+      return 'mock-ai-referrer-pattern-id'
+    }
+
+    const { data, error } = await this.supabase
+      .from('ga4_ai_referrer_patterns')
+      .insert({
+        mapping_id: params.mappingId,
+        platform_name: params.platformName,
+        match_field: params.field,
+        pattern_type: params.patternType,
+        pattern: params.pattern,
+        description: params.description || null,
+        is_active: true,
+        created_by: params.createdBy || null,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .select('id')
+      .single()
+
+    if (error) throw error
+    return data.id
+  }
+
+  async updateGA4AIReferrerPattern(
+    mappingId: string,
+    patternId: string,
+    updates: {
+      platformName?: string
+      field?: AIReferrerField
+      patternType?: AIReferrerPatternType
+      pattern?: string
+      description?: string
+      isActive?: boolean
+    }
+  ): Promise<void> {
+    if (!this.isDatabaseAvailable()) {
+      console.log('Mock: updateGA4AIReferrerPattern', { mappingId, patternId, updates })
+      return
+    }
+
+    const updateData: any = {
+      updated_at: new Date().toISOString()
+    }
+
+    if (updates.platformName !== undefined) updateData.platform_name = updates.platformName
+    if (updates.field !== undefined) updateData.match_field = updates.field
+    if (updates.patternType !== undefined) updateData.pattern_type = updates.patternType
+    if (updates.pattern !== undefined) updateData.pattern = updates.pattern
+    if (updates.description !== undefined) updateData.description = updates.description
+    if (updates.isActive !== undefined) updateData.is_active = updates.isActive
+
+    const { error } = await this.supabase
+      .from('ga4_ai_referrer_patterns')
+      .update(updateData)
+      .eq('id', patternId)
+      .eq('mapping_id', mappingId)
+
+    if (error) throw error
+  }
+
+  async deleteGA4AIReferrerPattern(mappingId: string, patternId: string): Promise<void> {
+    if (!this.isDatabaseAvailable()) {
+      console.log('Mock: deleteGA4AIReferrerPattern', { mappingId, patternId })
+      return
+    }
+
+    const { error } = await this.supabase
+      .from('ga4_ai_referrer_patterns')
+      .delete()
+      .eq('id', patternId)
+      .eq('mapping_id', mappingId)
+
+    if (error) throw error
+  }
+
+  // ============================================
+  // GA4 Alert Methods
+  // ============================================
+
+  private mapGA4AlertRule(row: any): GA4AlertRule {
+    return {
+      id: row.id,
+      mappingId: row.mapping_id,
+      ruleType: row.rule_type,
+      threshold: row.threshold === null ? null : Number(row.threshold),
+      isEnabled: row.is_enabled,
+      notifyInApp: row.notify_in_app,
+      notifyEmail: row.notify_email,
+      isMuted: row.is_muted,
+      mutedUntil: row.muted_until ? new Date(row.muted_until) : null
+    }
+  }
+
+  async getGA4AlertRules(mappingId: string): Promise<GA4AlertRule[]> {
+    if (!this.isDatabaseAvailable()) {
+      console.log('Mock: getGA4AlertRules', { mappingId })
+      return []
+    }
+
+    const { data, error } = await this.supabase
+      .from('ga4_alert_rules')
+      .select('*')
+      .eq('mapping_id', mappingId)
+
+    if (error) throw error
+
+    return (data || []).map(row => this.mapGA4AlertRule(row))
+  }
+
+  async saveGA4AlertRule(userId: string, rule: GA4AlertRule): Promise<GA4AlertRule> {
+    if (!this.isDatabaseAvailable()) {
+      console.log('Mock: saveGA4AlertRule', { userId, rule })
+      return { ...rule, id: rule.id || 'mock-alert-rule-id' }
+    }
+
+    const { data, error } = await this.supabase
+      .from('ga4_alert_rules')
+      .upsert({
+        mapping_id: rule.mappingId,
+        user_id: userId,
+        rule_type: rule.ruleType,
+        threshold: rule.threshold,
+        is_enabled: rule.isEnabled,
+        notify_in_app: rule.notifyInApp,
+        notify_email: rule.notifyEmail,
+        is_muted: rule.isMuted,
+        muted_until: rule.mutedUntil ? rule.mutedUntil.toISOString() : null
+      }, {
+        onConflict: 'mapping_id,rule_type'
+      })
+      .select('*')
+      .single()
+
+    if (error) throw error
+    return this.mapGA4AlertRule(data)
+  }
+
+  /**
+   * Record an alert - returns null when the same condition (dedupe key) was already alerted
+   */
+  async createGA4AlertEvent(params: {
+    mappingId: string
+    userId: string
+    ruleType: GA4AlertRuleType
+    title: string
+    message: string
+    details: Record<string, any>
+    dedupeKey: string
+  }): Promise<string | null> {
+    if (!this.isDatabaseAvailable()) {
+      console.log('Mock: createGA4AlertEvent', params)
+      return 'mock-alert-event-id'
+    }
+
+    const { data, error } = await this.supabase
+      .from('ga4_alert_events')
+      .upsert({
+        mapping_id: params.mappingId,
+        user_id: params.userId,
+        rule_type: params.ruleType,
+        title: params.title,
+        message: params.message,
+        details: params.details,
+        dedupe_key: params.dedupeKey,
+        created_at: new Date().toISOString()
+      }, {
+        onConflict: 'mapping_id,rule_type,dedupe_key',
+        ignoreDuplicates: true
+      })
+      .select('id')
+
+    if (error) throw error
+    return data && data.length > 0 ? data[0].id : null
+  }
+
+  async updateGA4AlertEventDelivery(
+    eventId: string,
+    delivery: { notifiedInApp: boolean; notifiedEmail: boolean; emailError: string | null }
+  ): Promise<void> {
+    if (!this.isDatabaseAvailable()) {
+      console.log('Mock: updateGA4AlertEventDelivery', { eventId, delivery })
+      return
+    }
+
+    const { error } = await this.supabase
+      .from('ga4_alert_events')
+      .update({
+        notified_in_app: delivery.notifiedInApp,
+        notified_email: delivery.notifiedEmail,
+        email_error: delivery.emailError
+      })
+      .eq('id', eventId)
+
+    if (error) throw error
+  }
+
+  async getGA4AlertEvents(
+    userId: string,
+    options: { mappingId?: string; limit?: number } = {}
+  ): Promise<GA4AlertEvent[]> {
+    if (!this.isDatabaseAvailable()) {
+      console.log('Mock: getGA4AlertEvents', { userId, options })
+      return []
+    }
+
+    let query = this.supabase
+      .from('ga4_alert_events')
+      .select('*')
+      .eq('user_id', userId)
+
+    if (options.mappingId) {
+      query = query.eq('mapping_id', options.mappingId)
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(options.limit || 50)
+
+    if (error) throw error
+
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      mappingId: row.mapping_id,
+      ruleType: row.rule_type,
+      title: row.title,
+      message: row.message,
+      details: row.details || {},
+      dedupeKey: row.dedupe_key,
+      notifiedInApp: row.notified_in_app,
+      notifiedEmail: row.notified_email,
+      emailError: row.email_error,
+      createdAt: new Date(row.created_at)
+    }))
+  }
+
+  async createUserNotification(params: {
+    userId: string
+    type: 'beta_access_granted' | 'feature_announcement' | 'system' | 'ga4_alert'
+    title: string
+    message: string
+    featureId?: string
+    link?: string
+  }): Promise<void> {
+    if (!this.isDatabaseAvailable()) {
+      console.log('Mock: createUserNotification', params)
+      return
+    }
+
+    const { error } = await this.supabase
+      .from('user_notifications')
+      .insert({
+        user_id: params.userId,
+        type: params.type,
+        title: params.title,
+        message: params.message,
+        feature_id: params.featureId || null,
+        link: params.link || null,
+        is_read: false
+      })
+
+    if (error) throw error
+  }
+
+  // ============================================
+  // Pending HubSpot Connections Methods
+  // ============================================
+
+  /**
+   * Create a pending HubSpot connection for marketplace-first installations
+   * This allows users to install from HubSpot Marketplace before creating a SuperSchema account
+   */
+  async createPendingHubSpotConnection(params: {
+    stateToken: string
+    oauthCode: string
+    hubspotPortalId?: string
+    portalName?: string
+    redirectUri: string
+    scopes?: string[]
+    expiresInMinutes?: number
+    oauthFlowType?: 'superschema_first' | 'marketplace_first'
+    serverGeneratedState?: boolean
+  }): Promise<string> {
+    if (!this.isDatabaseAvailable()) {
+      console.log('Mock: createPendingHubSpotConnection', params)
+      return 'mock-pending-id'
+    }
+
+    const expiresAt = new Date()
+    expiresAt.setMinutes(expiresAt.getMinutes() + (params.expiresInMinutes || 30))
+
+    const { data, error } = await this.supabase
+      .from('pending_hubspot_connections')
+      .insert({
+        state_token: params.stateToken,
+        oauth_code: params.oauthCode,
+        hubspot_portal_id: params.hubspotPortalId,
+        portal_name: params.portalName,
+        redirect_uri: params.redirectUri,
+        scopes: params.scopes,
+        expires_at: expiresAt.toISOString(),
+        oauth_flow_type: params.oauthFlowType || 'marketplace_first',
+        server_generated_state: params.serverGeneratedState || false
+      })
+      .select('id')
+      .single()
+
+    if (error) {
+      console.error('[Pending Connection] Error creating:', error)
+      throw error
+    }
+
+    console.log(`[Pending Connection] Created for state ${params.stateToken}, flow: ${params.oauthFlowType}, server-generated: ${params.serverGeneratedState}, expires ${expiresAt.toISOString()}`)
+    return data.id
+  }
+
+  /**
+   * Get a pending HubSpot connection by state token
+   */
+  async getPendingHubSpotConnection(stateToken: string) {
+    if (!this.isDatabaseAvailable()) {
+      console.log('Mock: getPendingHubSpotConnection', { stateToken })
+      return null
+    }
+
+    const { data, error } = await this.supabase
+      .from('pending_hubspot_connections')
+      .select('*')
+      .eq('state_token', stateToken)
+      .is('claimed_at', null)
+      .single()
+
+    if (error) {
+      // Not found is not an error for this use case
+      if (error.code === 'PGRST116') {
+        return null
+      }
+      throw error
+    }
+
+    // Check if expired
+    if (new Date(data.expires_at) < new Date()) {
+      console.warn(`[Pending Connection] State ${stateToken} has expired`)
+      return null
+    }
+
+    return {
+      id: data.id,
+      stateToken: data.state_token,
+      oauthCode: data.oauth_code,
+      hubspotPortalId: data.hubspot_portal_id,
+      portalName: data.portal_name,
+      redirectUri: data.redirect_uri,
+      scopes: data.scopes,
+      expiresAt: data.expires_at,
+      createdAt: data.created_at
+    }
+  }
+
+  /**
+   * Claim a pending HubSpot connection (atomically)
+   * Uses the database function for row-level locking
+   */
+  async claimPendingHubSpotConnection(
+    stateToken: string,
+    userId: string
+  ): Promise<{
+    oauthCode: string
+    redirectUri: string
+    portalId?: string
+    portalName?: string
+  } | null> {
+    if (!this.isDatabaseAvailable()) {
+      console.log('Mock: claimPendingHubSpotConnection', { stateToken, userId })
+      return {
+        oauthCode: 'mock-code',
+        redirectUri: 'http://localhost',
+        portalId: 'mock-portal',
+        portalName: 'Mock Portal'
+      }
+    }
+
+    try {
+      const { data, error } = await this.supabase.rpc('claim_pending_hubspot_connection', {
+        p_state_token: stateToken,
+        p_user_id: userId
+      })
+
+      if (error) {
+        console.error('[Pending Connection] Error claiming:', error)
+        throw error
+      }
+
+      if (!data || data.length === 0) {
+        console.warn(`[Pending Connection] No connection found or already claimed: ${stateToken}`)
+        return null
+      }
+
+      const connection = Array.isArray(data) ? data[0] : data
+
+      console.log(`[Pending Connection] Successfully claimed by user ${userId}`)
+      return {
+        oauthCode: connection.oauth_code,
+        redirectUri: connection.redirect_uri,
+        portalId: connection.portal_id,
+        portalName: connection.portal_name
+      }
+    } catch (error: any) {
+      // Handle specific error cases
+      if (error.message?.includes('expired')) {
+        console.warn(`[Pending Connection] State ${stateToken} has expired`)
+        return null
+      }
+      if (error.message?.includes('already claimed')) {
+        console.warn(`[Pending Connection] State ${stateToken} already claimed`)
+        return null
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Clean up expired pending connections
+   * Should be called periodically (e.g., via cron job)
+   */
+  async cleanupExpiredPendingConnections(): Promise<number> {
+    if (!this.isDatabaseAvailable()) {
+      console.log('Mock: cleanupExpiredPendingConnections')
+      return 0
+    }
+
+    try {
+      const { data, error } = await this.supabase.rpc('cleanup_expired_pending_hubspot_connections')
+
+      if (error) {
+        console.error('[Pending Connection] Cleanup error:', error)
+        throw error
+      }
+
+      const count = data as number
+      if (count > 0) {
+        console.log(`[Pending Connection] Cleaned up ${count} expired connections`)
+      }
+      return count
+    } catch (error) {
+      console.error('[Pending Connection] Cleanup failed:', error)
+      throw error
+    }
+  }
+
+  async createHubSpotSyncJob(params: {
+    userId: string
+    connectionId: string
+    schemaGenerationId?: string
+    hubspotContentId: string
+    hubspotContentType: 'blog_post' | 'page' | 'landing_page'
+    hubspotContentTitle?: string
+    hubspotContentUrl?: string
+    schemaHtml?: string
+    publish?: HubSpotPublishOptions
+  }): Promise<string> {
+    if (!this.isDatabaseAvailable()) {
+      console.log('Mock: createHubSpotSyncJob', params)
+      return 'mock-sync-job-id'
+    }
+
+    const { data, error } = await this.supabase
+      .from('hubspot_sync_jobs')
+      .insert({
+        user_id: params.userId,
+        connection_id: params.connectionId,
+        schema_generation_id: params.schemaGenerationId,
+        hubspot_content_id: params.hubspotContentId,
+        hubspot_content_type: params.hubspotContentType,
+        hubspot_content_title: params.hubspotContentTitle,
+        hubspot_content_url: params.hubspotContentUrl,
+        schema_html: params.schemaHtml,
+        publish_mode: params.publish?.mode,
+        publish_date: params.publish?.publishDate,
+        status: 'pending',
+        retry_count: 0
+      })
+      .select('id')
+      .single()
+
+    if (error) throw error
+    return data.id
+  }
+
+  /**
+   * Record a successful push and cancel older retries of the same content, which would
+   * otherwise push their stale schema over this one
+   */
+  async updateHubSpotSyncJobSuccess(
+    syncJobId: string,
+    snapshot?: { previousHeadHtml: string; newHeadHtml: string; previousLiveHeadHtml?: string }
+  ): Promise<void> {
+    if (!this.isDatabaseAvailable()) {
+      console.log('Mock: updateHubSpotSyncJobSuccess', { syncJobId })
+      return
+    }
+
+    const { data, error } = await this.supabase
+      .from('hubspot_sync_jobs')
+      .update({
+        status: 'success',
+        synced_at: new Date().toISOString(),
+        error_message: null,
+        failure_reason: null,
+        next_attempt_at: null,
+        ...(snapshot && {
+          previous_head_html: snapshot.previousHeadHtml,
+          new_head_html: snapshot.newHeadHtml,
+          previous_live_head_html: snapshot.previousLiveHeadHtml ?? null
+        })
+      })
+      .eq('id', syncJobId)
+      .select('connection_id, hubspot_content_id, created_at')
+      .single()
+
+    if (error) throw error
+    await this.supersedeHubSpotSyncRetries(data.connection_id, data.hubspot_content_id, data.created_at)
+  }
+
+  /**
+   * Whether a newer sync job or a rollback exists for the job's post or page
+   * A retry of such a job would push stale schema over the newer state
+   */
+  async isHubSpotSyncJobSuperseded(job: HubSpotSyncJob): Promise<boolean> {
+    if (!this.isDatabaseAvailable()) {
+      return false
+    }
+
+    const { data, error } = await this.supabase
+      .from('hubspot_sync_jobs')
+      .select('id')
+      .eq('connection_id', job.connectionId)
+      .eq('hubspot_content_id', job.hubspotContentId)
+      .neq('id', job.id)
+      .or(`created_at.gt.${job.createdAt},rolled_back_at.gt.${job.createdAt}`)
+      .limit(1)
+
+    if (error) throw error
+    return (data || []).length > 0
+  }
+
+  /**
+   * End retries of a post or page created before `before` as superseded
+   * Returns the number of jobs cancelled
+   */
+  async supersedeHubSpotSyncRetries(connectionId: string, contentId: string, before: string): Promise<number> {
+    if (!this.isDatabaseAvailable()) {
+      return 0
+    }
+
+    const { data, error } = await this.supabase
+      .from('hubspot_sync_jobs')
+      .update({
+        status: 'failed',
+        error_message: HUBSPOT_SYNC_SUPERSEDED_MESSAGE,
+        failure_reason: 'superseded',
+        is_retryable: false,
+        next_attempt_at: null
+      })
+      .eq('connection_id', connectionId)
+      .eq('hubspot_content_id', contentId)
+      .eq('status', 'retrying')
+      .lt('created_at', before)
+      .select('id')
+
+    if (error) throw error
+    return (data || []).length
+  }
+
+  async getHubSpotSyncJob(syncJobId: string): Promise<HubSpotSyncJob | null> {
+    if (!this.isDatabaseAvailable()) {
+      console.log('Mock: getHubSpotSyncJob', { syncJobId })
+      return null
+    }
+
+    const { data, error } = await this.supabase
+      .from('hubspot_sync_jobs')
+      .select('*')
+      .eq('id', syncJobId)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) return null
+
+    return this.rowToHubSpotSyncJob(data)
+  }
+
+  /**
+   * IDs of sync jobs waiting for a retry whose next attempt is due
+   */
+  async getHubSpotSyncJobsDueForRetry(now: Date, limit: number): Promise<string[]> {
+    if (!this.isDatabaseAvailable()) {
+      return []
+    }
+
+    const { data, error } = await this.supabase
+      .from('hubspot_sync_jobs')
+      .select('id')
+      .eq('status', 'retrying')
+      .lte('next_attempt_at', now.toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(limit)
+
+    if (error) throw error
+    return (data || []).map(row => row.id)
+  }
+
+  /**
+   * Claim a due sync job for a retry attempt and count the attempt
+   * Returns null when the job is no longer waiting (claimed by another server instance)
+   */
+  async claimHubSpotSyncJobForRetry(syncJobId: string): Promise<HubSpotSyncJob | null> {
+    const job = await this.getHubSpotSyncJob(syncJobId)
+    if (!job || job.status !== 'retrying') return null
+
+    // Conditional update - only one instance sees the row still in 'retrying' with this count
+    const { data, error } = await this.supabase
+      .from('hubspot_sync_jobs')
+      .update({
+        status: 'pending',
+        retry_count: job.retryCount + 1,
+        next_attempt_at: null,
+        claimed_at: new Date().toISOString()
+      })
+      .eq('id', syncJobId)
+      .eq('status', 'retrying')
+      .eq('retry_count', job.retryCount)
+      .select('*')
+      .maybeSingle()
+
+    if (error) throw error
+    return data ? this.rowToHubSpotSyncJob(data) : null
+  }
+
+  /**
+   * Requeue retries whose claim is older than `claimedBefore` - the push was interrupted by a
+   * crash or restart. Jobs out of retries are marked failed instead.
+   * Returns the number of jobs requeued
+   */
+  async requeueStaleHubSpotSyncClaims(claimedBefore: Date, maxRetries: number): Promise<number> {
+    if (!this.isDatabaseAvailable()) {
+      return 0
+    }
+
+    const cutoff = claimedBefore.toISOString()
+    const interruptedMessage = 'Retry was interrupted before HubSpot answered'
+
+    const { data: failed, error: failError } = await this.supabase
+      .from('hubspot_sync_jobs')
+      .update({ status: 'failed', error_message: interruptedMessage, next_attempt_at: null })
+      .eq('status', 'pending')
+      .lt('claimed_at', cutoff)
+      .gte('retry_count', maxRetries)
+      .select('id')
+
+    if (failError) throw failError
+
+    // Conditional on the status so a retry that just finished is left alone
+    const { data: requeued, error: requeueError } = await this.supabase
+      .from('hubspot_sync_jobs')
+      .update({ status: 'retrying', error_message: interruptedMessage, next_attempt_at: new Date().toISOString() })
+      .eq('status', 'pending')
+      .lt('claimed_at', cutoff)
+      .select('id')
+
+    if (requeueError) throw requeueError
+
+    const count = (failed?.length || 0) + (requeued?.length || 0)
+    if (count > 0) {
+      console.warn(`⚠️ [HubSpot Sync Retry] Recovered ${count} interrupted retries (${requeued?.length || 0} requeued, ${failed?.length || 0} failed)`)
+    }
+    return requeued?.length || 0
+  }
+
+  private rowToHubSpotSyncJob(row: any): HubSpotSyncJob {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      connectionId: row.connection_id,
+      schemaGenerationId: row.schema_generation_id || undefined,
+      hubspotContentId: row.hubspot_content_id,
+      hubspotContentType: row.hubspot_content_type,
+      hubspotContentTitle: row.hubspot_content_title || undefined,
+      hubspotContentUrl: row.hubspot_content_url || undefined,
+      status: row.status,
+      errorMessage: row.error_message || undefined,
+      failureReason: row.failure_reason || undefined,
+      isRetryable: row.is_retryable ?? undefined,
+      retryCount: row.retry_count || 0,
+      nextAttemptAt: row.next_attempt_at || undefined,
+      schemaHtml: row.schema_html ?? undefined,
+      syncedAt: row.synced_at || undefined,
+      previousHeadHtml: row.previous_head_html ?? undefined,
+      newHeadHtml: row.new_head_html ?? undefined,
+      previousLiveHeadHtml: row.previous_live_head_html ?? undefined,
+      rolledBackAt: row.rolled_back_at || undefined,
+      publishMode: row.publish_mode || undefined,
+      publishDate: row.publish_date || undefined,
+      publishedAt: row.published_at || undefined,
+      createdAt: row.created_at
+    }
+  }
+
+  async markHubSpotSyncJobPublished(syncJobId: string): Promise<void> {
+    if (!this.isDatabaseAvailable()) {
+      console.log('Mock: markHubSpotSyncJobPublished', { syncJobId })
+      return
+    }
+
+    const { error } = await this.supabase
+      .from('hubspot_sync_jobs')
+      .update({ published_at: new Date().toISOString() })
+      .eq('id', syncJobId)
+
+    if (error) throw error
+  }
+
+  /**
+   * Pages and landing pages of a connection that received a successful push, most recent
+   * first and one entry per page
+   */
+  async getHubSpotSyncedPages(connectionId: string, limit: number): Promise<HubSpotSyncJob[]> {
+    if (!this.isDatabaseAvailable()) {
+      console.log('Mock: getHubSpotSyncedPages', { connectionId, limit })
+      return []
+    }
+
+    const { data, error } = await this.supabase
+      .from('hubspot_sync_jobs')
+      .select('*')
+      .eq('connection_id', connectionId)
+      .eq('status', 'success')
+      .in('hubspot_content_type', ['page', 'landing_page'])
+      .order('synced_at', { ascending: false })
+      .limit(limit * 5)
+
+    if (error) throw error
+
+    const latestByContent = new Map<string, HubSpotSyncJob>()
+    for (const row of data || []) {
+      const key = `${row.hubspot_content_type}:${row.hubspot_content_id}`
+      if (!latestByContent.has(key)) {
+        latestByContent.set(key, this.rowToHubSpotSyncJob(row))
+      }
+    }
+    return [...latestByContent.values()].slice(0, limit)
+  }
+
+  /**
+   * Record a rollback and cancel pending retries of the same content - the rollback is the
+   * newest state the user asked for
+   */
+  async markHubSpotSyncJobRolledBack(syncJobId: string): Promise<void> {
+    if (!this.isDatabaseAvailable()) {
+      console.log('Mock: markHubSpotSyncJobRolledBack', { syncJobId })
+      return
+    }
+
+    const rolledBackAt = new Date().toISOString()
+    const { data, error } = await this.supabase
+      .from('hubspot_sync_jobs')
+      .update({ rolled_back_at: rolledBackAt })
+      .eq('id', syncJobId)
+      .select('connection_id, hubspot_content_id')
+      .single()
+
+    if (error) throw error
+    await this.supersedeHubSpotSyncRetries(data.connection_id, data.hubspot_content_id, rolledBackAt)
+  }
+
+  /**
+   * Record a failed push. With a next attempt time the job goes to 'retrying' for the
+   * retry worker, otherwise it is final.
+   */
+  async updateHubSpotSyncJobFailure(
+    syncJobId: string,
+    errorMessage: string,
+    retry?: {
+      failureReason: HubSpotSyncFailureReason
+      isRetryable: boolean
+      nextAttemptAt: Date | null
+    }
+  ): Promise<void> {
+    if (!this.isDatabaseAvailable()) {
+      console.log('Mock: updateHubSpotSyncJobFailure', { syncJobId, errorMessage, retry })
+      return
+    }
+
+    const { error } = await this.supabase
+      .from('hubspot_sync_jobs')
+      .update({
+        status: retry?.nextAttemptAt ? 'retrying' : 'failed',
+        error_message: errorMessage,
+        ...(retry && {
+          failure_reason: retry.failureReason,
+          is_retryable: retry.isRetryable,
+          next_attempt_at: retry.nextAttemptAt ? retry.nextAttemptAt.toISOString() : null
+        })
+      })
+      .eq('id', syncJobId)
+
+    if (error) throw error
   }
 
-  async getLatestSnapshotDate(mappingId: string): Promise<string | null> {
+  async getHubSpotSyncHistory(userId: string, limit: number = 50, offset: number = 0) {
     if (!this.isDatabaseAvailable()) {
-      console.log('Mock: getLatestSnapshotDate', { mappingId })
-      return null
+      console.log('Mock: getHubSpotSyncHistory', { userId, limit, offset })
+      return []
     }
 
     const { data, error } = await this.supabase
-      .from('ga4_daily_activity_snapshots')
-      .select('snapshot_date')
-      .eq('mapping_id', mappingId)
-      .order('snapshot_date', { ascending: false })
-      .limit(1)
-      .maybeSingle()
+      .rpc('get_hubspot_sync_history', {
+        p_user_id: userId,
+        p_limit: limit,
+        p_offset: offset
+      })
 
     if (error) throw error
 
-    return data?.snapshot_date || null
+    return data.map((row: any) => ({
+      id: row.id,
+      hubspotContentId: row.hubspot_content_id,
+      hubspotContentType: row.hubspot_content_type,
+      hubspotContentTitle: row.hubspot_content_title,
+      hubspotContentUrl: row.hubspot_content_url,
+      status: row.status,
+      errorMessage: row.error_message,
+      syncedAt: row.synced_at,
+      createdAt: row.created_at,
+      portalName: row.portal_name,
+      hasSnapshot: row.has_snapshot || false,
+      rolledBackAt: row.rolled_back_at || undefined,
+      failureReason: row.failure_reason || undefined,
+      isRetryable: row.is_retryable ?? undefined,
+      retryCount: row.retry_count || 0,
+      nextAttemptAt: row.next_attempt_at || undefined
+    }))
   }
 
   // ============================================
-  // Pending HubSpot Connections Methods
+  // WordPress Integration Methods
   // ============================================
 
-  /**
-   * Create a pending HubSpot connection for marketplace-first installations
-   * This allows users to install from HubSpot Marketplace before creating a SuperSchema account
-   */
-  async createPendingHubSpotConnection(params: {
-    stateToken: string
-    oauthCode: string
-    hubspotPortalId?: string
-    portalName?: string
-    redirectUri: string
-    scopes?: string[]
-    expiresInMinutes?: number
-    oauthFlowType?: 'superschema_first' | 'marketplace_first'
-    serverGeneratedState?: boolean
+  async createWordPressConnection(params: {
+    userId: string
+    siteUrl: string
+    siteName?: string
+    username: string
+    applicationPassword: string  // Encrypted
+    injectionMethod: WordPressSchemaInjection
+    metaKey: string
   }): Promise<string> {
     if (!this.isDatabaseAvailable()) {
-      console.log('Mock: createPendingHubSpotConnection', params)
-      return 'mock-pending-id'
+      console.log('Mock: createWordPressConnection', { ...params, applicationPassword: '[redacted]' })
+      return 'mock-wordpress-connection-id'
     }
 
-    const expiresAt = new Date()
-    expiresAt.setMinutes(expiresAt.getMinutes() + (params.expiresInMinutes || 30))
-
+    // Upsert so reconnecting a site replaces its credentials
     const { data, error } = await this.supabase
-      .from('pending_hubspot_connections')
-      .insert({
-        state_token: params.stateToken,
-        oauth_code: params.oauthCode,
-        hubspot_portal_id: params.hubspotPortalId,
-        portal_name: params.portalName,
-        redirect_uri: params.redirectUri,
-        scopes: params.scopes,
-        expires_at: expiresAt.toISOString(),
-        oauth_flow_type: params.oauthFlowType || 'marketplace_first',
-        server_generated_state: params.serverGeneratedState || false
+      .from('wordpress_connections')
+      .upsert({
+        user_id: params.userId,
+        site_url: params.siteUrl,
+        site_name: params.siteName,
+        username: params.username,
+        application_password: params.applicationPassword,
+        injection_method: params.injectionMethod,
+        meta_key: params.metaKey,
+        is_active: true,
+        last_validated_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      }, {
+        onConflict: 'user_id,site_url'
       })
       .select('id')
       .single()
 
-    if (error) {
-      console.error('[Pending Connection] Error creating:', error)
-      throw error
-    }
-
-    console.log(`[Pending Connection] Created for state ${params.stateToken}, flow: ${params.oauthFlowType}, server-generated: ${params.serverGeneratedState}, expires ${expiresAt.toISOString()}`)
+    if (error) throw error
     return data.id
   }
 
   /**
-   * Get a pending HubSpot connection by state token
+   * Connection including the encrypted application password (server-side use only)
    */
-  async getPendingHubSpotConnection(stateToken: string) {
+  async getWordPressConnection(connectionId: string): Promise<(WordPressConnection & { applicationPassword: string }) | null> {
     if (!this.isDatabaseAvailable()) {
-      console.log('Mock: getPendingHubSpotConnection', { stateToken })
+      console.log('Mock: getWordPressConnection', { connectionId })
       return null
     }
 
     const { data, error } = await this.supabase
-      .from('pending_hubspot_connections')
+      .from('wordpress_connections')
       .select('*')
-      .eq('state_token', stateToken)
-      .is('claimed_at', null)
-      .single()
+      .eq('id', connectionId)
+      .maybeSingle()
 
-    if (error) {
-      // Not found is not an error for this use case
-      if (error.code === 'PGRST116') {
-        return null
-      }
-      throw error
+    if (error) throw error
+    if (!data) return null
+
+    return {
+      ...this.rowToWordPressConnection(data),
+      applicationPassword: data.application_password
     }
+  }
 
-    // Check if expired
-    if (new Date(data.expires_at) < new Date()) {
-      console.warn(`[Pending Connection] State ${stateToken} has expired`)
-      return null
+  async getUserWordPressConnections(userId: string): Promise<WordPressConnection[]> {
+    if (!this.isDatabaseAvailable()) {
+      console.log('Mock: getUserWordPressConnections', { userId })
+      return []
     }
 
+    const { data, error } = await this.supabase
+      .from('wordpress_connections')
+      .select('id, user_id, site_url, site_name, username, injection_method, meta_key, associated_domains, is_active, last_validated_at, created_at, updated_at')
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+    return (data || []).map(row => this.rowToWordPressConnection(row))
+  }
+
+  private rowToWordPressConnection(row: any): WordPressConnection {
     return {
-      id: data.id,
-      stateToken: data.state_token,
-      oauthCode: data.oauth_code,
-      hubspotPortalId: data.hubspot_portal_id,
-      portalName: data.portal_name,
-      redirectUri: data.redirect_uri,
-      scopes: data.scopes,
-      expiresAt: data.expires_at,
-      createdAt: data.created_at
+      id: row.id,
+      userId: row.user_id,
+      siteUrl: row.site_url,
+      siteName: row.site_name || undefined,
+      username: row.username,
+      injectionMethod: row.injection_method,
+      metaKey: row.meta_key,
+      associatedDomains: row.associated_domains || [],
+      isActive: row.is_active,
+      lastValidatedAt: row.last_validated_at || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
     }
   }
 
-  /**
-   * Claim a pending HubSpot connection (atomically)
-   * Uses the database function for row-level locking
-   */
-  async claimPendingHubSpotConnection(
-    stateToken: string,
-    userId: string
-  ): Promise<{
-    oauthCode: string
-    redirectUri: string
-    portalId?: string
-    portalName?: string
-  } | null> {
+  async updateWordPressConnectionValidation(connectionId: string): Promise<void> {
     if (!this.isDatabaseAvailable()) {
-      console.log('Mock: claimPendingHubSpotConnection', { stateToken, userId })
-      return {
-        oauthCode: 'mock-code',
-        redirectUri: 'http://localhost',
-        portalId: 'mock-portal',
-        portalName: 'Mock Portal'
-      }
+      console.log('Mock: updateWordPressConnectionValidation', { connectionId })
+      return
     }
 
-    try {
-      const { data, error } = await this.supabase.rpc('claim_pending_hubspot_connection', {
-        p_state_token: stateToken,
-        p_user_id: userId
+    const { error } = await this.supabase
+      .from('wordpress_connections')
+      .update({
+        last_validated_at: new Date().toISOString()
       })
+      .eq('id', connectionId)
 
-      if (error) {
-        console.error('[Pending Connection] Error claiming:', error)
-        throw error
-      }
+    if (error) throw error
+  }
 
-      if (!data || data.length === 0) {
-        console.warn(`[Pending Connection] No connection found or already claimed: ${stateToken}`)
-        return null
-      }
+  async deactivateWordPressConnection(connectionId: string): Promise<void> {
+    if (!this.isDatabaseAvailable()) {
+      console.log('Mock: deactivateWordPressConnection', { connectionId })
+      return
+    }
 
-      const connection = Array.isArray(data) ? data[0] : data
+    const { error } = await this.supabase
+      .from('wordpress_connections')
+      .update({
+        is_active: false
+      })
+      .eq('id', connectionId)
 
-      console.log(`[Pending Connection] Successfully claimed by user ${userId}`)
-      return {
-        oauthCode: connection.oauth_code,
-        redirectUri: connection.redirect_uri,
-        portalId: connection.portal_id,
-        portalName: connection.portal_name
-      }
-    } catch (error: any) {
-      // Handle specific error cases
-      if (error.message?.includes('expired')) {
-        console.warn(`[Pending Connection] State ${stateToken} has expired`)
-        return null
-      }
-      if (error.message?.includes('already claimed')) {
-        console.warn(`[Pending Connection] State ${stateToken} already claimed`)
-        return null
-      }
-      throw error
-    }
+    if (error) throw error
   }
 
-  /**
-   * Clean up expired pending connections
-   * Should be called periodically (e.g., via cron job)
-   */
-  async cleanupExpiredPendingConnections(): Promise<number> {
+  async addDomainToWordPressConnection(connectionId: string, domain: string): Promise<boolean> {
     if (!this.isDatabaseAvailable()) {
-      console.log('Mock: cleanupExpiredPendingConnections')
-      return 0
+      console.log('Mock: addDomainToWordPressConnection', { connectionId, domain })
+      return true
     }
 
-    try {
-      const { data, error } = await this.supabase.rpc('cleanup_expired_pending_hubspot_connections')
+    const { data, error } = await this.supabase
+      .rpc('add_domain_to_wordpress_connection', {
+        p_connection_id: connectionId,
+        p_domain: domain
+      })
 
-      if (error) {
-        console.error('[Pending Connection] Cleanup error:', error)
-        throw error
-      }
+    if (error) throw error
+    return data as boolean
+  }
 
-      const count = data as number
-      if (count > 0) {
-        console.log(`[Pending Connection] Cleaned up ${count} expired connections`)
-      }
-      return count
-    } catch (error) {
-      console.error('[Pending Connection] Cleanup failed:', error)
-      throw error
+  async removeDomainFromWordPressConnection(connectionId: string, domain: string): Promise<boolean> {
+    if (!this.isDatabaseAvailable()) {
+      console.log('Mock: removeDomainFromWordPressConnection', { connectionId, domain })
+      return true
     }
+
+    const { data, error } = await this.supabase
+      .rpc('remove_domain_from_wordpress_connection', {
+        p_connection_id: connectionId,
+        p_domain: domain
+      })
+
+    if (error) throw error
+    return data as boolean
   }
 
-  async createHubSpotSyncJob(params: {
+  async createWordPressSyncJob(params: {
     userId: string
     connectionId: string
     schemaGenerationId?: string
-    hubspotContentId: string
-    hubspotContentType: 'blog_post' | 'page' | 'landing_page'
-    hubspotContentTitle?: string
-    hubspotContentUrl?: string
+    wpContentId: string
+    wpContentType: WordPressContentType
+    wpContentTitle?: string
+    wpContentUrl?: string
   }): Promise<string> {
     if (!this.isDatabaseAvailable()) {
-      console.log('Mock: createHubSpotSyncJob', params)
-      return 'mock-sync-job-id'
+      console.log('Mock: createWordPressSyncJob', params)
+      return 'mock-wordpress-sync-job-id'
     }
 
     const { data, error } = await this.supabase
-      .from('hubspot_sync_jobs')
+      .from('wordpress_sync_jobs')
       .insert({
         user_id: params.userId,
         connection_id: params.connectionId,
         schema_generation_id: params.schemaGenerationId,
-        hubspot_content_id: params.hubspotContentId,
-        hubspot_content_type: params.hubspotContentType,
-        hubspot_content_title: params.hubspotContentTitle,
-        hubspot_content_url: params.hubspotContentUrl,
-        status: 'pending',
-        retry_count: 0
+        wp_content_id: params.wpContentId,
+        wp_content_type: params.wpContentType,
+        wp_content_title: params.wpContentTitle,
+        wp_content_url: params.wpContentUrl,
+        status: 'pending'
       })
       .select('id')
       .single()
@@ -3773,31 +5275,36 @@ class DatabaseService {
     return data.id
   }
 
-  async updateHubSpotSyncJobSuccess(syncJobId: string): Promise<void> {
+  async updateWordPressSyncJobSuccess(
+    syncJobId: string,
+    change: { previousValue: string; newValue: string }
+  ): Promise<void> {
     if (!this.isDatabaseAvailable()) {
-      console.log('Mock: updateHubSpotSyncJobSuccess', { syncJobId })
+      console.log('Mock: updateWordPressSyncJobSuccess', { syncJobId })
       return
     }
 
     const { error } = await this.supabase
-      .from('hubspot_sync_jobs')
+      .from('wordpress_sync_jobs')
       .update({
         status: 'success',
-        synced_at: new Date().toISOString()
+        synced_at: new Date().toISOString(),
+        previous_value: change.previousValue,
+        new_value: change.newValue
       })
       .eq('id', syncJobId)
 
     if (error) throw error
   }
 
-  async updateHubSpotSyncJobFailure(syncJobId: string, errorMessage: string): Promise<void> {
+  async updateWordPressSyncJobFailure(syncJobId: string, errorMessage: string): Promise<void> {
     if (!this.isDatabaseAvailable()) {
-      console.log('Mock: updateHubSpotSyncJobFailure', { syncJobId, errorMessage })
+      console.log('Mock: updateWordPressSyncJobFailure', { syncJobId, errorMessage })
       return
     }
 
     const { error } = await this.supabase
-      .from('hubspot_sync_jobs')
+      .from('wordpress_sync_jobs')
       .update({
         status: 'failed',
         error_message: errorMessage
@@ -3807,14 +5314,14 @@ class DatabaseService {
     if (error) throw error
   }
 
-  async getHubSpotSyncHistory(userId: string, limit: number = 50, offset: number = 0) {
+  async getWordPressSyncHistory(userId: string, limit: number = 50, offset: number = 0) {
     if (!this.isDatabaseAvailable()) {
-      console.log('Mock: getHubSpotSyncHistory', { userId, limit, offset })
+      console.log('Mock: getWordPressSyncHistory', { userId, limit, offset })
       return []
     }
 
     const { data, error } = await this.supabase
-      .rpc('get_hubspot_sync_history', {
+      .rpc('get_wordpress_sync_history', {
         p_user_id: userId,
         p_limit: limit,
         p_offset: offset
@@ -3824,14 +5331,15 @@ class DatabaseService {
 
     return data.map((row: any) => ({
       id: row.id,
-      hubspotContentType: row.hubspot_content_type,
-      hubspotContentTitle: row.hubspot_content_title,
-      hubspotContentUrl: row.hubspot_content_url,
+      wpContentId: row.wp_content_id,
+      wpContentType: row.wp_content_type,
+      wpContentTitle: row.wp_content_title,
+      wpContentUrl: row.wp_content_url,
       status: row.status,
       errorMessage: row.error_message,
       syncedAt: row.synced_at,
       createdAt: row.created_at,
-      portalName: row.portal_name
+      siteName: row.site_name || row.site_url
     }))
   }
 
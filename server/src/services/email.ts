@@ -0,0 +1,74 @@
+/**
+ * Email Service
+ *
+ * Sends transactional email (e.g. GA4 alerts) through the Resend HTTP API.
+ * The service is disabled when RESEND_API_KEY or EMAIL_FROM is not configured -
+ * sends are then skipped and reported as not delivered instead of failing the caller.
+ */
+
+import axios from 'axios'
+
+const RESEND_API_URL = 'https://api.resend.com/emails'
+
+/** Timeout for a single send so a slow provider can't stall the nightly refresh */
+const SEND_TIMEOUT_MS = 10000
+
+export interface EmailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+export interface EmailResult {
+  sent: boolean
+  error?: string
+}
+
+class EmailService {
+  private apiKey: string | undefined
+  private from: string | undefined
+
+  constructor() {
+    this.apiKey = process.env.RESEND_API_KEY
+    this.from = process.env.EMAIL_FROM
+
+    if (this.isEnabled()) {
+      console.log('✅ [Email] Service initialized', { from: this.from })
+    } else {
+      console.log('⚠️  [Email] Service disabled - RESEND_API_KEY or EMAIL_FROM not configured')
+    }
+  }
+
+  isEnabled(): boolean {
+    return !!this.apiKey && !!this.from
+  }
+
+  async send(message: EmailMessage): Promise<EmailResult> {
+    if (!this.isEnabled()) {
+      return { sent: false, error: 'Email delivery is not configured' }
+    }
+
+    try {
+      await axios.post(RESEND_API_URL, {
+        from: this.from,
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+        html: message.html
+      }, {
+        headers: { Authorization: `Bearer ${this.apiKey}` },
+        timeout: SEND_TIMEOUT_MS
+      })
+
+      console.log('📧 [Email] Sent', { to: message.to, subject: message.subject })
+      return { sent: true }
+    } catch (error: any) {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Unknown error'
+      console.error('❌ [Email] Send failed:', { to: message.to, error: errorMessage })
+      return { sent: false, error: errorMessage }
+    }
+  }
+}
+
+export const emailService = new EmailService()
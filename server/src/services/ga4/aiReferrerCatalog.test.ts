@@ -0,0 +1,111 @@
+import { describe, it, expect, vi } from 'vitest'
+
+// aiReferrerCatalog imports the database service, which creates a Supabase client at import time
+vi.mock('@supabase/supabase-js', () => ({ createClient: vi.fn(() => ({})) }))
+
+import {
+  createAIReferrerMatcher,
+  normalizeCatalogPlatforms,
+  validateAIReferrerRule,
+  isUnsafeRegex,
+  DEFAULT_AI_PLATFORMS,
+  type AIPlatformDefinition
+} from './aiReferrerCatalog.js'
+
+describe('createAIReferrerMatcher', () => {
+  const match = createAIReferrerMatcher(DEFAULT_AI_PLATFORMS)
+
+  it('matches referrer hosts and subdomains of catalog domains', () => {
+    expect(match('chatgpt.com', '')).toBe('ChatGPT')
+    expect(match('', 'https://chat.openai.com/c/123')).toBe('ChatGPT')
+    expect(match('', 'https://www.perplexity.ai/search?q=schema')).toBe('Perplexity')
+    expect(match('google', 'https://www.google.com/')).toBeNull()
+  })
+
+  it('does not match hosts that only contain a catalog domain', () => {
+    expect(match('bayou.com', 'https://bayou.com/')).toBeNull()
+    expect(match('you.com', '')).toBe('You.com')
+  })
+
+  it('matches utm_source values exactly and keeps path rules', () => {
+    expect(match('perplexity', '')).toBe('Perplexity')
+    expect(match('perplexity-labs', '')).toBeNull()
+    expect(match('bing', 'https://www.bing.com/chat?form=NTPCHB')).toBe('Bing Copilot')
+    expect(match('bing', 'https://www.bing.com/search?q=x')).toBeNull()
+  })
+
+  it('skips inactive platforms and checks private patterns first', () => {
+    const platforms: AIPlatformDefinition[] = [
+      { name: 'ChatGPT', referrerDomains: ['chatgpt.com'], utmSources: [], rules: [], isActive: false },
+      { name: 'Claude', referrerDomains: ['claude.ai'], utmSources: [], rules: [], isActive: true }
+    ]
+    const matcher = createAIReferrerMatcher(platforms, [
+      { platformName: 'Acme RAG', field: 'referrer', patternType: 'regex', pattern: '^https://rag\\.acme\\.internal/', isActive: true },
+      { platformName: 'Claude Projects', field: 'any', patternType: 'contains', pattern: 'claude.ai/project', isActive: true },
+      { platformName: 'Broken', field: 'any', patternType: 'regex', pattern: '([', isActive: true },
+      { platformName: 'Disabled', field: 'any', patternType: 'domain', pattern: 'claude.ai', isActive: false }
+    ])
+
+    expect(matcher('chatgpt.com', '')).toBeNull()
+    expect(matcher('', 'https://RAG.acme.internal/answers/1')).toBe('Acme RAG')
+    expect(matcher('', 'https://claude.ai/project/abc')).toBe('Claude Projects')
+    expect(matcher('claude.ai', '')).toBe('Claude')
+  })
+})
+
+describe('normalizeCatalogPlatforms', () => {
+  it('lowercases and dedupes domains and utm_source values', () => {
+    const [platform] = normalizeCatalogPlatforms([{
+      name: ' Grok ',
+      referrerDomains: ['Grok.com', 'www.grok.com', ' '],
+      utmSources: ['Grok', 'grok'],
+      rules: [],
+      isActive: true
+    }])
+
+    expect(platform).toEqual({
+      name: 'Grok',
+      referrerDomains: ['grok.com'],
+      utmSources: ['grok'],
+      rules: [],
+      isActive: true
+    })
+  })
+
+  it('rejects duplicate names, invalid regexes and platforms without patterns', () => {
+    const grok = { name: 'Grok', referrerDomains: ['grok.com'], utmSources: [], rules: [], isActive: true }
+
+    expect(() => normalizeCatalogPlatforms([])).toThrow('at least one platform')
+    expect(() => normalizeCatalogPlatforms([grok, { ...grok, name: 'grok' }])).toThrow('Duplicate platform name')
+    expect(() => normalizeCatalogPlatforms([{ ...grok, rules: [{ field: 'any', patternType: 'regex', pattern: '([' }] }]))
+      .toThrow('invalid regular expression')
+    expect(() => normalizeCatalogPlatforms([{ ...grok, referrerDomains: [] }])).toThrow('at least one referrer domain')
+  })
+})
+
+describe('regex rules', () => {
+  it('flags nested repetition and backreferences', () => {
+    for (const pattern of ['(a+)+$', '(\\w*x)*', '((ab)*c)+', '(.{1,})*', '(a)\\1']) {
+      expect(isUnsafeRegex(pattern)).toBe(true)
+    }
+    for (const pattern of ['^https?://(www\\.)?perplexity\\.ai/', '(chat|copilot)\\.example\\.com', '[(+]+x', '(ab)?c+']) {
+      expect(isUnsafeRegex(pattern)).toBe(false)
+    }
+  })
+
+  it('rejects unsafe and overlong patterns when validating', () => {
+    const rule = { field: 'referrer' as const, patternType: 'regex' as const }
+
+    expect(() => validateAIReferrerRule({ ...rule, pattern: '(a+)+$' }, 'Internal')).toThrow('nested repetition')
+    expect(() => validateAIReferrerRule({ ...rule, pattern: 'a'.repeat(201) }, 'Internal')).toThrow('longer than 200')
+    expect(validateAIReferrerRule({ ...rule, pattern: ' rag\\.internal ' }, 'Internal').pattern).toBe('rag\\.internal')
+  })
+
+  it('never runs unsafe patterns stored before validation', () => {
+    const matcher = createAIReferrerMatcher([], [
+      { platformName: 'Slow', field: 'referrer', patternType: 'regex', pattern: '(a+)+$', isActive: true }
+    ])
+
+    expect(matcher('', 'a'.repeat(40) + '!')).toBeNull()
+  })
+})
@@ -0,0 +1,441 @@
+/**
+ * AI Referrer Catalog
+ *
+ * Admin-managed list of AI platforms used to classify GA4 traffic as AI referrals:
+ * - Each platform has referrer domains, utm_source values and extra match rules
+ * - The catalog is versioned - every publish creates an immutable version, and cached
+ *   metrics and daily snapshots record the version that produced them
+ * - Teams can add private patterns per domain mapping (e.g. an internal RAG tool);
+ *   these are checked before the catalog
+ */
+
+import { db } from '../database.js'
+
+export type AIReferrerField = 'referrer' | 'source' | 'any'
+export type AIReferrerPatternType = 'domain' | 'exact' | 'contains' | 'regex'
+
+export interface AIReferrerRule {
+  /** referrer = pageReferrer, source = sessionSource (utm_source or referral host) */
+  field: AIReferrerField
+  patternType: AIReferrerPatternType
+  pattern: string
+}
+
+export interface AIPlatformDefinition {
+  name: string
+  /** Matched against the referrer host and session source, including subdomains */
+  referrerDomains: string[]
+  /** Matched exactly against the session source */
+  utmSources: string[]
+  rules: AIReferrerRule[]
+  isActive: boolean
+}
+
+export interface AIReferrerCatalog {
+  version: number
+  platforms: AIPlatformDefinition[]
+  changeNote: string | null
+  createdBy: string | null
+  createdAt: Date
+}
+
+export interface PrivateAIReferrerPattern extends AIReferrerRule {
+  id: string
+  mappingId: string
+  platformName: string
+  description: string | null
+  isActive: boolean
+  createdAt: Date
+  createdBy: string | null
+}
+
+/** Returns the platform name for AI traffic, null otherwise */
+export type AIReferrerMatcher = (source: string, referrer: string) => string | null
+
+export const AI_REFERRER_FIELDS: AIReferrerField[] = ['referrer', 'source', 'any']
+export const AI_REFERRER_PATTERN_TYPES: AIReferrerPatternType[] = ['domain', 'exact', 'contains', 'regex']
+
+/** Regex rules run against every GA4 row, so they are kept short */
+export const MAX_REGEX_PATTERN_LENGTH = 200
+
+/**
+ * Version 1 of the catalog (also seeded by the migration) - used until the first
+ * version is read from the database, or when it can't be
+ */
+export const DEFAULT_AI_REFERRER_CATALOG_VERSION = 1
+
+export const DEFAULT_AI_PLATFORMS: AIPlatformDefinition[] = [
+  {
+    name: 'ChatGPT',
+    referrerDomains: ['chat.openai.com', 'chatgpt.com', 'openai.com'],
+    utmSources: ['chatgpt.com'],
+    rules: [],
+    isActive: true
+  },
+  {
+    name: 'Claude',
+    referrerDomains: ['claude.ai'],
+    utmSources: [],
+    rules: [],
+    isActive: true
+  },
+  {
+    name: 'Gemini',
+    referrerDomains: ['gemini.google.com', 'bard.google.com'],
+    utmSources: [],
+    rules: [],
+    isActive: true
+  },
+  {
+    name: 'Perplexity',
+    referrerDomains: ['perplexity.ai'],
+    utmSources: ['perplexity'],
+    rules: [],
+    isActive: true
+  },
+  {
+    name: 'You.com',
+    referrerDomains: ['you.com'],
+    utmSources: [],
+    rules: [],
+    isActive: true
+  },
+  {
+    name: 'Bing Copilot',
+    referrerDomains: ['copilot.microsoft.com'],
+    utmSources: [],
+    rules: [{ field: 'referrer', patternType: 'contains', pattern: 'bing.com/chat' }],
+    isActive: true
+  },
+  {
+    name: 'Meta AI',
+    referrerDomains: ['meta.ai'],
+    utmSources: [],
+    rules: [],
+    isActive: true
+  },
+  {
+    name: 'DuckDuckGo AI',
+    referrerDomains: ['duck.ai'],
+    utmSources: [],
+    rules: [{ field: 'referrer', patternType: 'contains', pattern: 'duckduckgo.com/?q=' }],
+    isActive: true
+  }
+]
+
+// How long the current catalog is reused before checking for a newer version
+const CATALOG_CACHE_TTL_MS = 5 * 60 * 1000
+
+// =============================================================================
+// MATCHING
+// =============================================================================
+
+type CompiledRule = AIReferrerRule & { regex?: RegExp }
+
+/**
+ * Hostname of a referrer URL or bare host ("chatgpt.com"), without www
+ */
+function getHost(value: string): string | null {
+  try {
+    const url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `https://${value}`)
+    return url.hostname.toLowerCase().replace(/^www\./, '')
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Whether a regex can backtrack catastrophically - a repeated group that itself contains
+ * an unbounded quantifier ("(a+)+", "(\w*x)*") or a backreference
+ */
+export function isUnsafeRegex(pattern: string): boolean {
+  const unboundedQuantifier = /^(?:[*+]|\{\d+,\d*\})/
+  // Per open group: whether it contains an unbounded quantifier
+  const groups: boolean[] = []
+  let inClass = false
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+
+    if (char === '\\') {
+      if (!inClass && /[1-9k]/.test(pattern[i + 1] || '')) return true
+      i++
+    } else if (inClass) {
+      if (char === ']') inClass = false
+    } else if (char === '[') {
+      inClass = true
+    } else if (char === '(') {
+      groups.push(false)
+    } else if (char === ')') {
+      const repeated = unboundedQuantifier.test(pattern.slice(i + 1))
+      const containsQuantifier = groups.pop() ?? false
+      if (repeated && containsQuantifier) return true
+      if (groups.length > 0 && (repeated || containsQuantifier)) groups[groups.length - 1] = true
+    } else if (groups.length > 0 && unboundedQuantifier.test(pattern.slice(i))) {
+      groups[groups.length - 1] = true
+    }
+  }
+
+  return false
+}
+
+function compileRule(rule: AIReferrerRule): CompiledRule | null {
+  const pattern = rule.pattern.trim().toLowerCase()
+  if (!pattern) return null
+
+  if (rule.patternType === 'regex') {
+    // Patterns stored before validation was tightened are skipped rather than run
+    if (pattern.length > MAX_REGEX_PATTERN_LENGTH || isUnsafeRegex(pattern)) return null
+    try {
+      return { ...rule, pattern, regex: new RegExp(rule.pattern.trim(), 'i') }
+    } catch {
+      return null
+    }
+  }
+
+  return {
+    ...rule,
+    pattern: rule.patternType === 'domain' ? pattern.replace(/^www\./, '') : pattern
+  }
+}
+
+function matchesRule(rule: CompiledRule, source: string, referrer: string): boolean {
+  const targets = rule.field === 'source' ? [source] : rule.field === 'referrer' ? [referrer] : [source, referrer]
+
+  for (const target of targets) {
+    if (!target) continue
+
+    switch (rule.patternType) {
+      case 'domain': {
+        const host = getHost(target)
+        if (host && (host === rule.pattern || host.endsWith(`.${rule.pattern}`))) return true
+        break
+      }
+      case 'exact':
+        if (target === rule.pattern) return true
+        break
+      case 'contains':
+        if (target.includes(rule.pattern)) return true
+        break
+      case 'regex':
+        if (rule.regex?.test(target)) return true
+        break
+    }
+  }
+
+  return false
+}
+
+/**
+ * Expand a platform's domains and utm_source values into rules
+ */
+export function getPlatformRules(platform: AIPlatformDefinition): AIReferrerRule[] {
+  return [
+    ...platform.referrerDomains.map(pattern => ({ field: 'any' as const, patternType: 'domain' as const, pattern })),
+    ...platform.utmSources.map(pattern => ({ field: 'source' as const, patternType: 'exact' as const, pattern })),
+    ...platform.rules
+  ]
+}
+
+/**
+ * Build a matcher from catalog platforms and a mapping's private patterns.
+ * Private patterns win, then platforms in catalog order; invalid or unsafe regexes never match.
+ */
+export function createAIReferrerMatcher(
+  platforms: AIPlatformDefinition[],
+  privatePatterns: Array<Pick<PrivateAIReferrerPattern, 'platformName' | 'field' | 'patternType' | 'pattern' | 'isActive'>> = []
+): AIReferrerMatcher {
+  const entries: Array<{ name: string; rules: CompiledRule[] }> = []
+
+  for (const pattern of privatePatterns) {
+    if (!pattern.isActive) continue
+    const rule = compileRule(pattern)
+    if (rule) entries.push({ name: pattern.platformName, rules: [rule] })
+  }
+
+  for (const platform of platforms) {
+    if (!platform.isActive) continue
+    const rules = getPlatformRules(platform)
+      .map(compileRule)
+      .filter((rule): rule is CompiledRule => rule !== null)
+    if (rules.length > 0) entries.push({ name: platform.name, rules })
+  }
+
+  return (source: string, referrer: string) => {
+    if (!source && !referrer) return null
+
+    const lowerSource = source.toLowerCase()
+    const lowerReferrer = referrer.toLowerCase()
+
+    for (const entry of entries) {
+      if (entry.rules.some(rule => matchesRule(rule, lowerSource, lowerReferrer))) {
+        return entry.name
+      }
+    }
+
+    return null
+  }
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+function normalizeList(values: string[]): string[] {
+  return Array.from(new Set(values.map(value => value.trim().toLowerCase()).filter(Boolean)))
+}
+
+/**
+ * Check a single rule - throws with a readable message
+ */
+export function validateAIReferrerRule(rule: AIReferrerRule, label: string): AIReferrerRule {
+  const pattern = rule.pattern.trim()
+  if (!pattern) {
+    throw new Error(`${label}: pattern is required`)
+  }
+  if (rule.patternType === 'regex') {
+    if (pattern.length > MAX_REGEX_PATTERN_LENGTH) {
+      throw new Error(`${label}: regular expression is longer than ${MAX_REGEX_PATTERN_LENGTH} characters`)
+    }
+    try {
+      new RegExp(pattern, 'i')
+    } catch {
+      throw new Error(`${label}: invalid regular expression "${pattern}"`)
+    }
+    if (isUnsafeRegex(pattern)) {
+      throw new Error(`${label}: regular expression "${pattern}" has nested repetition or backreferences, which can be too slow to run - use a simpler pattern`)
+    }
+  }
+  if (rule.patternType === 'domain' && !getHost(pattern)) {
+    throw new Error(`${label}: invalid domain "${pattern}"`)
+  }
+  return { field: rule.field, patternType: rule.patternType, pattern }
+}
+
+/**
+ * Trim, lowercase and dedupe a catalog before publishing - throws on invalid input
+ */
+export function normalizeCatalogPlatforms(platforms: AIPlatformDefinition[]): AIPlatformDefinition[] {
+  if (platforms.length === 0) {
+    throw new Error('Catalog must contain at least one platform')
+  }
+
+  const seen = new Set<string>()
+
+  return platforms.map(platform => {
+    const name = platform.name.trim()
+    if (!name) {
+      throw new Error('Platform name is required')
+    }
+    if (seen.has(name.toLowerCase())) {
+      throw new Error(`Duplicate platform name "${name}"`)
+    }
+    seen.add(name.toLowerCase())
+
+    const normalized: AIPlatformDefinition = {
+      name,
+      referrerDomains: normalizeList(platform.referrerDomains).map(domain => domain.replace(/^www\./, '')),
+      utmSources: normalizeList(platform.utmSources),
+      rules: platform.rules.map((rule, index) => validateAIReferrerRule(rule, `${name} rule ${index + 1}`)),
+      isActive: platform.isActive
+    }
+    normalized.referrerDomains = Array.from(new Set(normalized.referrerDomains))
+
+    for (const domain of normalized.referrerDomains) {
+      validateAIReferrerRule({ field: 'any', patternType: 'domain', pattern: domain }, name)
+    }
+    if (getPlatformRules(normalized).length === 0) {
+      throw new Error(`${name}: add at least one referrer domain, utm_source or rule`)
+    }
+
+    return normalized
+  })
+}
+
+// =============================================================================
+// SERVICE
+// =============================================================================
+
+export class AIReferrerCatalogService {
+  private cached: { catalog: AIReferrerCatalog; fetchedAt: number } | null = null
+
+  /**
+   * Current (latest) catalog version
+   */
+  async getCurrentCatalog(): Promise<AIReferrerCatalog> {
+    if (this.cached && Date.now() - this.cached.fetchedAt < CATALOG_CACHE_TTL_MS) {
+      return this.cached.catalog
+    }
+
+    try {
+      const catalog = await db.getLatestAIReferrerCatalog() || this.getDefaultCatalog()
+      this.cached = { catalog, fetchedAt: Date.now() }
+      return catalog
+    } catch (error) {
+      console.error('❌ [AI Referrer Catalog] Failed to load catalog, using defaults:', error)
+      return this.cached?.catalog || this.getDefaultCatalog()
+    }
+  }
+
+  /**
+   * Version history, newest first
+   */
+  async listVersions(limit: number = 20): Promise<AIReferrerCatalog[]> {
+    return db.getAIReferrerCatalogVersions(limit)
+  }
+
+  /**
+   * Publish a new catalog version
+   */
+  async publishVersion(
+    platforms: AIPlatformDefinition[],
+    userId: string,
+    changeNote?: string
+  ): Promise<AIReferrerCatalog> {
+    const normalized = normalizeCatalogPlatforms(platforms)
+
+    const catalog = await db.createAIReferrerCatalogVersion({
+      platforms: normalized,
+      changeNote: changeNote?.trim() || null,
+      createdBy: userId
+    })
+
+    this.cached = { catalog, fetchedAt: Date.now() }
+
+    console.log('✅ [AI Referrer Catalog] Published catalog version', {
+      version: catalog.version,
+      platforms: normalized.length,
+      userId
+    })
+
+    return catalog
+  }
+
+  /**
+   * Matcher for a domain mapping: its private patterns plus the current catalog
+   */
+  async getMatcherForMapping(mappingId: string): Promise<{ catalogVersion: number; match: AIReferrerMatcher }> {
+    const [catalog, privatePatterns] = await Promise.all([
+      this.getCurrentCatalog(),
+      db.getGA4AIReferrerPatterns(mappingId)
+    ])
+
+    return {
+      catalogVersion: catalog.version,
+      match: createAIReferrerMatcher(catalog.platforms, privatePatterns)
+    }
+  }
+
+  private getDefaultCatalog(): AIReferrerCatalog {
+    return {
+      version: DEFAULT_AI_REFERRER_CATALOG_VERSION,
+      platforms: DEFAULT_AI_PLATFORMS,
+      changeNote: null,
+      createdBy: null,
+      createdAt: new Date(0)
+    }
+  }
+}
+
+// Export singleton instance
+export const aiReferrerCatalog = new AIReferrerCatalogService()
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from 'vitest'
+
+// alerts imports the database service, which creates a Supabase client at import time
+vi.mock('@supabase/supabase-js', () => ({ createClient: vi.fn(() => ({})) }))
+
+import {
+  evaluateScoreDrop,
+  findLostTopPages,
+  findNewPlatforms,
+  isRuleMuted,
+  withDefaultRules,
+  getDefaultAlertRule
+} from './alerts.js'
+
+function snapshot(snapshotDate: string, crawlerList: string[], aiSessions: number = 10) {
+  return {
+    snapshotDate,
+    aiSessions,
+    uniqueCrawlers: crawlerList.length,
+    aiCrawledPages: crawlerList.length > 0 ? 5 : 0,
+    totalActivePages: 10,
+    crawlerList
+  }
+}
+
+function days(start: string, count: number, crawlerList: string[], aiSessions?: number) {
+  return Array.from({ length: count }, (_, i) => {
+    const date = new Date(`${start}T00:00:00Z`)
+    date.setUTCDate(date.getUTCDate() + i)
+    return snapshot(date.toISOString().split('T')[0], crawlerList, aiSessions)
+  })
+}
+
+describe('evaluateScoreDrop', () => {
+  it('alerts when the weekly average falls more than the threshold', () => {
+    const snapshots = [
+      ...days('2026-03-01', 7, ['ChatGPT', 'Claude', 'Perplexity', 'Gemini'], 100),
+      ...days('2026-03-08', 7, ['ChatGPT'], 5)
+    ]
+
+    const alert = evaluateScoreDrop('example.com', snapshots, 10, '2026-03-14')
+
+    expect(alert).toMatchObject({ ruleType: 'score_drop', dedupeKey: 'week:2026-03-09' })
+    expect(alert!.details.drop).toBeGreaterThan(10)
+    expect(evaluateScoreDrop('example.com', snapshots, 100, '2026-03-14')).toBeNull()
+  })
+
+  it('needs both weeks of data', () => {
+    expect(evaluateScoreDrop('example.com', days('2026-03-08', 7, ['ChatGPT']), 10, '2026-03-14')).toBeNull()
+  })
+})
+
+describe('findLostTopPages', () => {
+  it('lists last week top pages without AI referrals this week', () => {
+    const activity = [
+      { date: '2026-03-02', path: '/pricing', sessions: 40, platforms: ['ChatGPT'] },
+      { date: '2026-03-03', path: '/blog', sessions: 30, platforms: ['Claude'] },
+      { date: '2026-03-04', path: '/about', sessions: 1, platforms: ['ChatGPT'] },
+      { date: '2026-03-10', path: '/blog', sessions: 12, platforms: ['Claude'] }
+    ]
+
+    const alerts = findLostTopPages('example.com', activity, 2, '2026-03-14')
+
+    expect(alerts.map(alert => alert.details.path)).toEqual(['/pricing'])
+    expect(alerts[0].dedupeKey).toBe('/pricing:2026-03-09')
+  })
+})
+
+describe('findNewPlatforms', () => {
+  it('alerts once per platform never seen before', () => {
+    const snapshots = [
+      ...days('2026-03-01', 7, ['ChatGPT']),
+      snapshot('2026-03-12', ['ChatGPT', 'Perplexity']),
+      snapshot('2026-03-13', ['Perplexity'])
+    ]
+
+    const alerts = findNewPlatforms('example.com', snapshots, '2026-03-14')
+
+    expect(alerts).toHaveLength(1)
+    expect(alerts[0]).toMatchObject({ dedupeKey: 'platform:Perplexity', details: { platform: 'Perplexity', firstSeen: '2026-03-12' } })
+  })
+
+  it('does not alert without earlier history', () => {
+    expect(findNewPlatforms('example.com', days('2026-03-10', 5, ['ChatGPT']), '2026-03-14')).toEqual([])
+  })
+})
+
+describe('alert rules', () => {
+  it('fills in defaults for rules never saved', () => {
+    const saved = { ...getDefaultAlertRule('map-1', 'score_drop'), id: 'rule-1', threshold: 5 }
+    const rules = withDefaultRules('map-1', [saved])
+
+    expect(rules.map(rule => rule.ruleType)).toEqual(['score_drop', 'page_lost_ai_referrals', 'new_ai_platform', 'token_refresh_failed'])
+    expect(rules[0].threshold).toBe(5)
+    expect(rules[1]).toMatchObject({ id: null, isEnabled: true, notifyInApp: true, notifyEmail: false })
+  })
+
+  it('treats mutes as expired after muted until', () => {
+    const now = new Date('2026-03-14T00:00:00Z')
+    expect(isRuleMuted({ isMuted: true, mutedUntil: null }, now)).toBe(true)
+    expect(isRuleMuted({ isMuted: true, mutedUntil: new Date('2026-03-20T00:00:00Z') }, now)).toBe(true)
+    expect(isRuleMuted({ isMuted: true, mutedUntil: new Date('2026-03-10T00:00:00Z') }, now)).toBe(false)
+    expect(isRuleMuted({ isMuted: false, mutedUntil: null }, now)).toBe(false)
+  })
+})
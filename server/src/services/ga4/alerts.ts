@@ -0,0 +1,418 @@
+/**
+ * GA4 Alerts
+ * Alert rules per domain mapping, evaluated after the nightly metrics refresh
+ *
+ * Rules:
+ * - score_drop: the average daily AI Visibility Score fell more than `threshold` points week over week
+ * - page_lost_ai_referrals: one of last week's top `threshold` AI referral pages got none this week
+ * - new_ai_platform: an AI platform referred traffic for the first time
+ * - token_refresh_failed: the GA4 token could not be refreshed, so data stopped updating
+ *
+ * Every rule exists for every mapping - rules without a stored row use the defaults
+ * (enabled, in-app only). Each alerted condition has a dedupe key (week, page, platform
+ * or day) and is only delivered once. Alerts go out as in-app notifications and email,
+ * and are kept as history. Delivery never fails the refresh.
+ */
+
+import { db } from '../database.js'
+import { emailService } from '../email.js'
+import { calculateDailyVisibilityScore, ga4Data, type PageAIDailyActivity } from './data.js'
+
+export type GA4AlertRuleType = 'score_drop' | 'page_lost_ai_referrals' | 'new_ai_platform' | 'token_refresh_failed'
+
+export const GA4_ALERT_RULE_TYPES: GA4AlertRuleType[] = [
+  'score_drop',
+  'page_lost_ai_referrals',
+  'new_ai_platform',
+  'token_refresh_failed'
+]
+
+/** Threshold of rules that have one: score points for score_drop, top pages watched for page_lost_ai_referrals */
+export const DEFAULT_ALERT_THRESHOLDS: Record<GA4AlertRuleType, number | null> = {
+  score_drop: 10,
+  page_lost_ai_referrals: 5,
+  new_ai_platform: null,
+  token_refresh_failed: null
+}
+
+/** Days of snapshot history searched for platforms seen before */
+const PLATFORM_HISTORY_DAYS = 90
+
+/** Days compared week over week */
+const WEEK_DAYS = 7
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface GA4AlertRule {
+  /** null until the rule is changed from its defaults */
+  id: string | null
+  mappingId: string
+  ruleType: GA4AlertRuleType
+  threshold: number | null
+  isEnabled: boolean
+  notifyInApp: boolean
+  notifyEmail: boolean
+  isMuted: boolean
+  /** End of a temporary mute - null with isMuted means muted until unmuted */
+  mutedUntil: Date | null
+}
+
+export type GA4AlertRuleUpdate = Partial<Pick<
+  GA4AlertRule,
+  'threshold' | 'isEnabled' | 'notifyInApp' | 'notifyEmail' | 'isMuted' | 'mutedUntil'
+>>
+
+export interface GA4AlertEvent {
+  id: string
+  mappingId: string
+  ruleType: GA4AlertRuleType
+  title: string
+  message: string
+  details: Record<string, any>
+  dedupeKey: string
+  notifiedInApp: boolean
+  notifiedEmail: boolean
+  emailError: string | null
+  createdAt: Date
+}
+
+/** A condition that matched a rule, before delivery */
+export interface GA4AlertCandidate {
+  ruleType: GA4AlertRuleType
+  dedupeKey: string
+  title: string
+  message: string
+  details: Record<string, any>
+}
+
+interface AlertMapping {
+  id: string
+  userId: string
+  propertyId: string
+  domain: string
+}
+
+interface AlertSnapshot {
+  snapshotDate: string
+  aiSessions: number
+  uniqueCrawlers: number
+  aiCrawledPages: number
+  totalActivePages: number
+  crawlerList: string[]
+}
+
+// =============================================================================
+// RULES
+// =============================================================================
+
+export function getDefaultAlertRule(mappingId: string, ruleType: GA4AlertRuleType): GA4AlertRule {
+  return {
+    id: null,
+    mappingId,
+    ruleType,
+    threshold: DEFAULT_ALERT_THRESHOLDS[ruleType],
+    isEnabled: true,
+    notifyInApp: true,
+    notifyEmail: false,
+    isMuted: false,
+    mutedUntil: null
+  }
+}
+
+/**
+ * One rule per rule type - stored rules, defaults for the rest
+ */
+export function withDefaultRules(mappingId: string, stored: GA4AlertRule[]): GA4AlertRule[] {
+  return GA4_ALERT_RULE_TYPES.map(ruleType =>
+    stored.find(rule => rule.ruleType === ruleType) || getDefaultAlertRule(mappingId, ruleType)
+  )
+}
+
+export function isRuleMuted(rule: Pick<GA4AlertRule, 'isMuted' | 'mutedUntil'>, now: Date = new Date()): boolean {
+  return rule.isMuted && (rule.mutedUntil === null || rule.mutedUntil > now)
+}
+
+/** Rules that are enabled, not muted and deliver somewhere */
+function isRuleActive(rule: GA4AlertRule, now: Date): boolean {
+  return rule.isEnabled && !isRuleMuted(rule, now) && (rule.notifyInApp || rule.notifyEmail)
+}
+
+// =============================================================================
+// EVALUATION
+// =============================================================================
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`)
+  result.setUTCDate(result.getUTCDate() + days)
+  return toDateString(result)
+}
+
+/** Monday of the week the date falls in - groups alerts of the same condition per week */
+function weekOf(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay()
+  return addDays(date, -((day + 6) % 7))
+}
+
+function averageScore(snapshots: AlertSnapshot[]): number | null {
+  if (snapshots.length === 0) return null
+  const total = snapshots.reduce((sum, snapshot) => sum + calculateDailyVisibilityScore(snapshot), 0)
+  return Math.round((total / snapshots.length) * 10) / 10
+}
+
+/**
+ * Average daily score of the 7 days up to `asOf` against the 7 days before
+ */
+export function evaluateScoreDrop(
+  domain: string,
+  snapshots: AlertSnapshot[],
+  threshold: number,
+  asOf: string
+): GA4AlertCandidate | null {
+  const currentStart = addDays(asOf, -(WEEK_DAYS - 1))
+  const previousStart = addDays(currentStart, -WEEK_DAYS)
+
+  const current = averageScore(snapshots.filter(s => s.snapshotDate >= currentStart && s.snapshotDate <= asOf))
+  const previous = averageScore(snapshots.filter(s => s.snapshotDate >= previousStart && s.snapshotDate < currentStart))
+  if (current === null || previous === null) return null
+
+  const drop = Math.round((previous - current) * 10) / 10
+  if (drop <= threshold) return null
+
+  return {
+    ruleType: 'score_drop',
+    dedupeKey: `week:${weekOf(asOf)}`,
+    title: `AI Visibility Score dropped on ${domain}`,
+    message: `The average AI Visibility Score fell ${drop} points week over week (${previous} → ${current}).`,
+    details: { previousScore: previous, currentScore: current, drop, threshold }
+  }
+}
+
+/**
+ * Last week's top AI referral pages that got no AI referrals in the 7 days up to `asOf`
+ */
+export function findLostTopPages(
+  domain: string,
+  activity: PageAIDailyActivity[],
+  topCount: number,
+  asOf: string
+): GA4AlertCandidate[] {
+  const currentStart = addDays(asOf, -(WEEK_DAYS - 1))
+  const previousStart = addDays(currentStart, -WEEK_DAYS)
+
+  const previousSessions = new Map<string, number>()
+  const currentSessions = new Map<string, number>()
+  for (const row of activity) {
+    if (row.date > asOf || row.date < previousStart) continue
+    const totals = row.date >= currentStart ? currentSessions : previousSessions
+    totals.set(row.path, (totals.get(row.path) || 0) + row.sessions)
+  }
+
+  const topPages = [...previousSessions.entries()]
+    .filter(([, sessions]) => sessions > 0)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, topCount)
+
+  return topPages
+    .filter(([path]) => !currentSessions.get(path))
+    .map(([path, sessions]) => ({
+      ruleType: 'page_lost_ai_referrals' as const,
+      dedupeKey: `${path}:${weekOf(asOf)}`,
+      title: `A top page lost all AI referrals on ${domain}`,
+      message: `${path} had ${sessions} AI referral sessions last week and none in the last ${WEEK_DAYS} days.`,
+      details: { path, previousSessions: sessions }
+    }))
+}
+
+/**
+ * AI platforms seen in the 7 days up to `asOf` and never before
+ * Needs earlier history - on a new mapping every platform would look new
+ */
+export function findNewPlatforms(domain: string, snapshots: AlertSnapshot[], asOf: string): GA4AlertCandidate[] {
+  const currentStart = addDays(asOf, -(WEEK_DAYS - 1))
+  const earlier = snapshots.filter(s => s.snapshotDate < currentStart)
+  if (earlier.length === 0) return []
+
+  const seenBefore = new Set(earlier.flatMap(s => s.crawlerList))
+  const firstSeen = new Map<string, string>()
+  for (const snapshot of snapshots) {
+    if (snapshot.snapshotDate < currentStart || snapshot.snapshotDate > asOf) continue
+    for (const platform of snapshot.crawlerList) {
+      if (!seenBefore.has(platform) && !firstSeen.has(platform)) {
+        firstSeen.set(platform, snapshot.snapshotDate)
+      }
+    }
+  }
+
+  return [...firstSeen.entries()].map(([platform, date]) => ({
+    ruleType: 'new_ai_platform' as const,
+    dedupeKey: `platform:${platform}`,
+    title: `New AI platform referring traffic to ${domain}`,
+    message: `${platform} sent AI referral traffic for the first time on ${date}.`,
+    details: { platform, firstSeen: date }
+  }))
+}
+
+export function buildTokenRefreshAlert(domain: string, error: string, today: string): GA4AlertCandidate {
+  return {
+    ruleType: 'token_refresh_failed',
+    dedupeKey: `day:${today}`,
+    title: `Google Analytics stopped updating for ${domain}`,
+    message: `The GA4 access token could not be refreshed, so AI visibility data is no longer updating. Reconnect Google Analytics to resume. (${error})`,
+    details: { error }
+  }
+}
+
+// =============================================================================
+// SERVICE
+// =============================================================================
+
+export class GA4AlertService {
+  async getRules(mappingId: string): Promise<GA4AlertRule[]> {
+    return withDefaultRules(mappingId, await db.getGA4AlertRules(mappingId))
+  }
+
+  async updateRule(
+    userId: string,
+    mappingId: string,
+    ruleType: GA4AlertRuleType,
+    updates: GA4AlertRuleUpdate
+  ): Promise<GA4AlertRule> {
+    const current = (await this.getRules(mappingId)).find(rule => rule.ruleType === ruleType)!
+    return db.saveGA4AlertRule(userId, { ...current, ...updates })
+  }
+
+  async getHistory(userId: string, options: { mappingId?: string; limit?: number } = {}): Promise<GA4AlertEvent[]> {
+    return db.getGA4AlertEvents(userId, options)
+  }
+
+  /**
+   * Evaluate a mapping's rules against freshly recorded snapshots
+   * Returns the number of alerts delivered
+   */
+  async evaluateMapping(mapping: AlertMapping): Promise<number> {
+    const now = new Date()
+    const rules = (await this.getRules(mapping.id)).filter(rule => isRuleActive(rule, now))
+    const rule = (ruleType: GA4AlertRuleType) => rules.find(r => r.ruleType === ruleType)
+
+    // Today is still being collected - compare complete days only
+    const asOf = addDays(toDateString(now), -1)
+    const candidates: GA4AlertCandidate[] = []
+
+    const scoreRule = rule('score_drop')
+    const platformRule = rule('new_ai_platform')
+    if (scoreRule || platformRule) {
+      const snapshots = (await db.getGA4DailySnapshotsForMappings(
+        [mapping.id],
+        addDays(asOf, -(PLATFORM_HISTORY_DAYS - 1)),
+        asOf
+      )).get(mapping.id) || []
+
+      if (scoreRule) {
+        const scoreDrop = evaluateScoreDrop(mapping.domain, snapshots, scoreRule.threshold ?? DEFAULT_ALERT_THRESHOLDS.score_drop!, asOf)
+        if (scoreDrop) candidates.push(scoreDrop)
+      }
+      if (platformRule) {
+        candidates.push(...findNewPlatforms(mapping.domain, snapshots, asOf))
+      }
+    }
+
+    const pagesRule = rule('page_lost_ai_referrals')
+    if (pagesRule) {
+      const activity = await ga4Data.getPageAIDailyActivity(
+        mapping.userId,
+        mapping.propertyId,
+        new Date(`${addDays(asOf, -(WEEK_DAYS * 2 - 1))}T00:00:00Z`),
+        new Date(`${asOf}T00:00:00Z`),
+        mapping.id
+      )
+      candidates.push(...findLostTopPages(
+        mapping.domain,
+        activity,
+        pagesRule.threshold ?? DEFAULT_ALERT_THRESHOLDS.page_lost_ai_referrals!,
+        asOf
+      ))
+    }
+
+    let delivered = 0
+    for (const candidate of candidates) {
+      if (await this.deliver(mapping, rule(candidate.ruleType)!, candidate)) delivered++
+    }
+    return delivered
+  }
+
+  /**
+   * Alert that the GA4 token refresh failed during the scheduled refresh
+   */
+  async notifyTokenRefreshFailure(mapping: AlertMapping, error: string): Promise<boolean> {
+    const rule = (await this.getRules(mapping.id)).find(r => r.ruleType === 'token_refresh_failed')!
+    if (!isRuleActive(rule, new Date())) return false
+
+    return this.deliver(mapping, rule, buildTokenRefreshAlert(mapping.domain, error, toDateString(new Date())))
+  }
+
+  /**
+   * Record the alert and send it through the rule's channels
+   * Returns false when the condition was already alerted
+   */
+  private async deliver(mapping: AlertMapping, rule: GA4AlertRule, candidate: GA4AlertCandidate): Promise<boolean> {
+    const eventId = await db.createGA4AlertEvent({
+      mappingId: mapping.id,
+      userId: mapping.userId,
+      ...candidate
+    })
+    if (!eventId) return false
+
+    const link = `/ai-visibility?mapping=${mapping.id}`
+    let notifiedInApp = false
+    let notifiedEmail = false
+    let emailError: string | null = null
+
+    if (rule.notifyInApp) {
+      try {
+        await db.createUserNotification({
+          userId: mapping.userId,
+          type: 'ga4_alert',
+          title: candidate.title,
+          message: candidate.message,
+          link
+        })
+        notifiedInApp = true
+      } catch (error: any) {
+        console.error('❌ [GA4 Alerts] In-app notification failed:', error?.message)
+      }
+    }
+
+    if (rule.notifyEmail) {
+      const user = await db.getUser(mapping.userId)
+      if (user?.email) {
+        const url = `${(process.env.CLIENT_URL || 'http://localhost:3000').split(',')[0].trim()}${link}`
+        const result = await emailService.send({
+          to: user.email,
+          subject: candidate.title,
+          text: `${candidate.message}\n\nView AI visibility for ${mapping.domain}: ${url}\n\nYou can mute or change this alert in the alert settings of the domain.`
+        })
+        notifiedEmail = result.sent
+        emailError = result.error || null
+      } else {
+        emailError = 'User has no email address'
+      }
+    }
+
+    await db.updateGA4AlertEventDelivery(eventId, { notifiedInApp, notifiedEmail, emailError })
+
+    console.log(`🔔 [GA4 Alerts] ${candidate.ruleType} alert for ${mapping.domain}`, {
+      userId: mapping.userId,
+      notifiedInApp,
+      notifiedEmail
+    })
+    return true
+  }
+}
+
+export const ga4Alerts = new GA4AlertService()
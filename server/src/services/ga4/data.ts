@@ -15,27 +15,15 @@
  * - Total Score: Diversity + Coverage + Volume (rounded to 0-100)
  *
  * Note: Detects referral traffic from AI chat interfaces (ChatGPT, Claude, Gemini, Perplexity, etc.)
- * NOT bot crawlers (which GA4 filters out by default)
+ * NOT bot crawlers (which GA4 filters out by default). Platforms come from the versioned
+ * AI referrer catalog plus the mapping's private patterns (see aiReferrerCatalog.ts)
  */
 
 import { BetaAnalyticsDataClient } from '@google-analytics/data'
-import { ga4OAuth } from './oauth.js'
+import { ga4OAuth, isTokenRefreshError } from './oauth.js'
 import { db } from '../database.js'
 import { GA4PathFilter, type ExclusionPattern } from './pathFilter.js'
-
-// Known AI referrer domains to detect in GA4 traffic
-// These are human users clicking links FROM AI chat interfaces (not bot crawlers)
-// GA4 filters out bot traffic by default, so we detect referral traffic instead
-const AI_REFERRER_PATTERNS = {
-  'ChatGPT': ['chat.openai.com', 'chatgpt.com', 'openai.com'],
-  'Claude': ['claude.ai'],
-  'Gemini': ['gemini.google.com', 'bard.google.com'],
-  'Perplexity': ['perplexity.ai', 'www.perplexity.ai'],
-  'You.com': ['you.com'],
-  'Bing Copilot': ['copilot.microsoft.com', 'bing.com/chat'],
-  'Meta AI': ['meta.ai'],
-  'DuckDuckGo AI': ['duck.ai', 'duckduckgo.com/?q=']
-} as const
+import { aiReferrerCatalog, type AIReferrerMatcher } from './aiReferrerCatalog.js'
 
 export interface CrawlerStats {
   name: string
@@ -71,9 +59,54 @@ export interface GA4MetricsResult {
     volumePoints: number          // 0-20 points
     totalAiSessions: number       // Raw count for reference
   }
+  catalogVersion?: number         // AI referrer catalog version used to classify traffic
+}
+
+export interface PageAIDailyActivity {
+  date: string // YYYY-MM-DD
+  path: string
+  sessions: number
+  platforms: string[]
+}
+
+/**
+ * AI Visibility Score of a single day, same 3-component formula as the main metrics
+ * Diversity (40) + Coverage (40, AI crawled / pages with traffic that day) + Volume (20, logarithmic)
+ * Used by the on-demand trend and by anything scoring stored daily snapshots
+ */
+export function calculateDailyVisibilityScore(day: {
+  uniqueCrawlers: number
+  aiCrawledPages: number
+  totalActivePages: number
+  aiSessions: number
+}): number {
+  const maxCrawlers = 8
+
+  const diversityScore = Math.min(40, (day.uniqueCrawlers / maxCrawlers) * 40)
+
+  const coveragePercentage = day.totalActivePages > 0
+    ? (day.aiCrawledPages / day.totalActivePages) * 100
+    : 0
+  const coverageScore = Math.min(40, (coveragePercentage / 100) * 40)
+
+  const volumeScore = day.aiSessions > 0
+    ? Math.min(20, (Math.log10(day.aiSessions + 1) / Math.log10(1000)) * 20)
+    : 0
+
+  return Math.round(diversityScore + coverageScore + volumeScore)
 }
 
 export class GA4DataService {
+  /**
+   * Domain mapping a request is for
+   * Two domains can share one GA4 property, so callers that know the mapping pass its ID;
+   * without one the user's mapping for the property is used
+   */
+  private async resolveMapping(userId: string, propertyId: string, mappingId?: string) {
+    const mappings = await db.getGA4DomainMappings(userId)
+    return mappings.find(m => m.propertyId === propertyId && (!mappingId || m.id === mappingId)) || null
+  }
+
   /**
    * Get AI crawler metrics for a GA4 property
    * Uses cached data if available and fresh, otherwise queries GA4 API
@@ -83,7 +116,8 @@ export class GA4DataService {
     propertyId: string,
     dateRangeStart: Date,
     dateRangeEnd: Date,
-    forceRefresh: boolean = false
+    forceRefresh: boolean = false,
+    mappingId?: string
   ): Promise<GA4MetricsResult> {
     try {
       console.log('📊 [GA4 Data] Getting AI crawler metrics', {
@@ -91,12 +125,13 @@ export class GA4DataService {
         propertyId,
         dateRangeStart: dateRangeStart.toISOString().split('T')[0],
         dateRangeEnd: dateRangeEnd.toISOString().split('T')[0],
-        forceRefresh
+        forceRefresh,
+        mappingId
       })
 
       // Check for cached metrics if not forcing refresh
       if (!forceRefresh) {
-        const cached = await this.getCachedMetrics(userId, propertyId, dateRangeStart, dateRangeEnd)
+        const cached = await this.getCachedMetrics(userId, propertyId, dateRangeStart, dateRangeEnd, mappingId)
         if (cached) {
           console.log('✅ [GA4 Data] Using cached metrics')
           return cached
@@ -105,10 +140,10 @@ export class GA4DataService {
 
       // Fetch fresh data from GA4 API
       console.log('🔄 [GA4 Data] Fetching fresh metrics from GA4 API')
-      const metrics = await this.fetchMetricsFromGA4(userId, propertyId, dateRangeStart, dateRangeEnd)
+      const metrics = await this.fetchMetricsFromGA4(userId, propertyId, dateRangeStart, dateRangeEnd, mappingId)
 
       // Cache the results
-      await this.cacheMetrics(userId, propertyId, metrics)
+      await this.cacheMetrics(userId, propertyId, metrics, mappingId)
 
       return metrics
     } catch (error) {
@@ -124,14 +159,15 @@ export class GA4DataService {
     userId: string,
     propertyId: string,
     dateRangeStart: Date,
-    dateRangeEnd: Date
+    dateRangeEnd: Date,
+    mappingId?: string
   ): Promise<GA4MetricsResult> {
     try {
       // Get authenticated client
       const analyticsClient = await this.getAuthenticatedClient(userId)
 
       // Get domain mapping to fetch exclusion patterns and domain
-      const domainMapping = await db.getGA4DomainMappingByProperty(userId, propertyId)
+      const domainMapping = await this.resolveMapping(userId, propertyId, mappingId)
       if (!domainMapping) {
         throw new Error('Domain mapping not found for this property')
       }
@@ -140,6 +176,9 @@ export class GA4DataService {
       const exclusionPatterns = await db.getGA4ExclusionPatterns(domainMapping.id)
       console.log(`🔍 [GA4 Data] Loaded ${exclusionPatterns.length} exclusion patterns for domain ${domainMapping.domain}`)
 
+      // AI platforms to detect: catalog + private patterns for this mapping
+      const { catalogVersion, match } = await aiReferrerCatalog.getMatcherForMapping(domainMapping.id)
+
       // Format dates for GA4 API (YYYY-MM-DD)
       const startDate = dateRangeStart.toISOString().split('T')[0]
       const endDate = dateRangeEnd.toISOString().split('T')[0]
@@ -241,10 +280,11 @@ export class GA4DataService {
       }
 
       // Process response to identify AI crawlers and page-level data
-      const { crawlerStats, pageStats } = this.processGA4Response(response)
+      const { crawlerStats, pageStats } = this.processGA4Response(response, match)
 
       // Calculate metrics with real total page count and all page paths
       const metrics = this.calculateMetrics(crawlerStats, pageStats, totalUniquePages, totalRawUniquePages, ignoredPagesCount, allPagePaths, dateRangeStart, dateRangeEnd)
+      metrics.catalogVersion = catalogVersion
 
       console.log('📈 [GA4 Data] Calculated metrics', {
         aiVisibilityScore: metrics.aiVisibilityScore,
@@ -256,6 +296,8 @@ export class GA4DataService {
       return metrics
     } catch (error) {
       console.error('❌ [GA4 Data] Failed to fetch from GA4 API:', error)
+      // Token refresh failures keep their message and code - the scheduled refresh alerts on them
+      if (isTokenRefreshError(error)) throw error
       throw new Error('Failed to fetch Google Analytics data. Please check your connection and try again.')
     }
   }
@@ -263,7 +305,7 @@ export class GA4DataService {
   /**
    * Process GA4 API response to identify AI crawler traffic
    */
-  private processGA4Response(response: any): {
+  private processGA4Response(response: any, matchAIPlatform: AIReferrerMatcher): {
     crawlerStats: Map<string, CrawlerStats>
     pageStats: Map<string, PageCrawlerInfo>
   } {
@@ -293,7 +335,7 @@ export class GA4DataService {
         : dateStr
 
       // Check if this traffic is from an AI crawler
-      const crawlerName = this.identifyAICrawler(sessionSource, pageReferrer)
+      const crawlerName = matchAIPlatform(sessionSource, pageReferrer)
 
       if (crawlerName) {
         // Initialize crawler stats if not exists
@@ -370,33 +412,6 @@ export class GA4DataService {
     return { crawlerStats: crawlerStatsMap, pageStats: pageStatsMap }
   }
 
-  /**
-   * Identify if traffic is from an AI referrer based on source/referrer
-   * Focuses on detecting referral traffic from AI chat interfaces
-   */
-  private identifyAICrawler(source: string, referrer: string): string | null {
-    if (!source && !referrer) {
-      return null
-    }
-
-    const lowerSource = source.toLowerCase()
-    const lowerReferrer = referrer.toLowerCase()
-
-    // Check against all AI referrer patterns
-    for (const [aiName, patterns] of Object.entries(AI_REFERRER_PATTERNS)) {
-      for (const pattern of patterns) {
-        const lowerPattern = pattern.toLowerCase()
-
-        // Check both source and referrer for domain matches
-        if (lowerSource.includes(lowerPattern) || lowerReferrer.includes(lowerPattern)) {
-          return aiName
-        }
-      }
-    }
-
-    return null
-  }
-
   /**
    * Calculate AI Visibility Score and other metrics
    */
@@ -564,11 +579,12 @@ export class GA4DataService {
     userId: string,
     propertyId: string,
     dateRangeStart: Date,
-    dateRangeEnd: Date
+    dateRangeEnd: Date,
+    mappingId?: string
   ): Promise<GA4MetricsResult | null> {
     try {
       // Get mapping for this property
-      const mapping = await db.getGA4DomainMappingByProperty(userId, propertyId)
+      const mapping = await this.resolveMapping(userId, propertyId, mappingId)
 
       if (!mapping) {
         return null
@@ -596,6 +612,16 @@ export class GA4DataService {
         return null
       }
 
+      // Cached metrics classified with an older AI referrer catalog are stale
+      const catalog = await aiReferrerCatalog.getCurrentCatalog()
+      if (cached.catalogVersion !== catalog.version) {
+        console.log('⏰ [GA4 Data] Cached metrics use an older AI referrer catalog', {
+          cachedVersion: cached.catalogVersion,
+          currentVersion: catalog.version
+        })
+        return null
+      }
+
       // Validate cache has all required fields (invalidate old cache missing nonCrawledPages)
       if (!cached.nonCrawledPages) {
         console.log('⚠️ [GA4 Data] Cache missing nonCrawledPages field, invalidating cache', {
@@ -621,7 +647,8 @@ export class GA4DataService {
         topPages: (cached.topPages as any[]) || [],
         nonCrawledPages: (cached.nonCrawledPages as any[]) || [],
         dateRangeStart,
-        dateRangeEnd
+        dateRangeEnd,
+        catalogVersion: cached.catalogVersion ?? undefined
       }
     } catch (error) {
       console.error('❌ [GA4 Data] Failed to get cached metrics:', error)
@@ -635,11 +662,12 @@ export class GA4DataService {
   private async cacheMetrics(
     userId: string,
     propertyId: string,
-    metrics: GA4MetricsResult
+    metrics: GA4MetricsResult,
+    mappingId?: string
   ): Promise<void> {
     try {
       // Get mapping for this property
-      const mapping = await db.getGA4DomainMappingByProperty(userId, propertyId)
+      const mapping = await this.resolveMapping(userId, propertyId, mappingId)
 
       if (!mapping) {
         console.warn('⚠️ [GA4 Data] No mapping found for property, skipping cache')
@@ -668,7 +696,8 @@ export class GA4DataService {
         ignoredPagesCount: metrics.ignoredPagesCount,
         topCrawlers: metrics.topCrawlers,
         topPages: metrics.topPages,
-        nonCrawledPages: metrics.nonCrawledPages
+        nonCrawledPages: metrics.nonCrawledPages,
+        catalogVersion: metrics.catalogVersion
       })
 
       console.log('✅ [GA4 Data] Metrics cached successfully')
@@ -686,7 +715,8 @@ export class GA4DataService {
     userId: string,
     propertyId: string,
     dateRangeStart: Date,
-    dateRangeEnd: Date
+    dateRangeEnd: Date,
+    mappingId?: string
   ): Promise<Array<{ date: string; score: number; crawlerCount: number }>> {
     try {
       console.log('📈 [GA4 Data] Getting AI Visibility trend', {
@@ -727,8 +757,7 @@ export class GA4DataService {
       console.log('✅ [GA4 Data] Total unique pages for trend:', totalUniquePages)
 
       // Get domain mapping to access exclusion patterns
-      const mappings = await db.getGA4DomainMappings(userId)
-      const mapping = mappings.find(m => m.propertyId === propertyId)
+      const mapping = await this.resolveMapping(userId, propertyId, mappingId)
 
       if (!mapping) {
         throw new Error('Domain mapping not found')
@@ -755,6 +784,9 @@ export class GA4DataService {
       console.log('🔍 [GA4 Data] Safe domain value:', { safeDomain, type: typeof safeDomain })
       const pathFilter = new GA4PathFilter(exclusionPatterns.filter(p => p.isActive), safeDomain)
 
+      // AI platforms to detect: catalog + private patterns for this mapping
+      const { match } = await aiReferrerCatalog.getMatcherForMapping(mapping.id)
+
       // Extract and filter all page paths
       const rawPagePaths = (totalPagesResponse.rows || [])
         .map(row => row.dimensionValues?.[0]?.value)
@@ -791,7 +823,7 @@ export class GA4DataService {
       })
 
       // Group data by date and calculate daily scores
-      const dailyData = this.processDailyTrendData(response, allPagePaths, startDate, endDate)
+      const dailyData = this.processDailyTrendData(response, allPagePaths, startDate, endDate, match)
 
       console.log('📊 [GA4 Data] Processed trend data', {
         days: dailyData.length,
@@ -814,7 +846,8 @@ export class GA4DataService {
     response: any,
     allPagePaths: Set<string>,
     startDate: string,
-    endDate: string
+    endDate: string,
+    matchAIPlatform: AIReferrerMatcher
   ): Array<{ date: string; score: number; crawlerCount: number }> {
 
     // Group AI crawler data by date
@@ -868,7 +901,7 @@ export class GA4DataService {
         : dateStr
 
       // Check if this traffic is from an AI crawler
-      const crawlerName = this.identifyAICrawler(sessionSource, pageReferrer)
+      const crawlerName = matchAIPlatform(sessionSource, pageReferrer)
 
       if (crawlerName) {
         const stats = dailyStats.get(formattedDate)!
@@ -883,7 +916,6 @@ export class GA4DataService {
 
     // Generate data points for ALL days in the date range
     const trendData: Array<{ date: string; score: number; crawlerCount: number }> = []
-    const maxCrawlers = 8
 
     // Parse start and end dates
     const start = new Date(startDate)
@@ -903,30 +935,14 @@ export class GA4DataService {
       }
 
       const crawlerCount = stats.crawlers.size
-      const aiCrawledPages = stats.aiPages.size
-
-      // Diversity Score (40 points max)
-      const diversityScore = Math.min(40, (crawlerCount / maxCrawlers) * 40)
-
-      // Coverage Score (40 points max)
-      // Use pages with traffic ON THIS SPECIFIC DAY (not all pages across entire date range)
-      const pagesWithTrafficToday = stats.allPages.size
-      const nonCrawledPagesToday = pagesWithTrafficToday - aiCrawledPages
-
-      // Use same formula as main metrics: AI Crawled / (AI Crawled + Not Yet Discovered)
-      const totalActivePages = aiCrawledPages + nonCrawledPagesToday
-      const coveragePercentage = totalActivePages > 0
-        ? (aiCrawledPages / totalActivePages) * 100
-        : 0
-      const coverageScore = Math.min(40, (coveragePercentage / 100) * 40)
 
-      // Volume Score (20 points max) - logarithmic scale
-      const volumeScore = stats.sessions > 0
-        ? Math.min(20, (Math.log10(stats.sessions + 1) / Math.log10(1000)) * 20)
-        : 0
-
-      // Total Score (0-100)
-      const score = Math.round(diversityScore + coverageScore + volumeScore)
+      // Coverage uses pages with traffic ON THIS SPECIFIC DAY (not all pages across entire date range)
+      const score = calculateDailyVisibilityScore({
+        uniqueCrawlers: crawlerCount,
+        aiCrawledPages: stats.aiPages.size,
+        totalActivePages: stats.allPages.size,
+        aiSessions: stats.sessions
+      })
 
       trendData.push({
         date: dateStr,
@@ -947,7 +963,8 @@ export class GA4DataService {
     userId: string,
     propertyId: string,
     dateRangeStart: Date,
-    dateRangeEnd: Date
+    dateRangeEnd: Date,
+    mappingId?: string
   ): Promise<void> {
     try {
       console.log('📸 [GA4 Data] Recording daily activity snapshots', {
@@ -965,8 +982,7 @@ export class GA4DataService {
       const endDate = dateRangeEnd.toISOString().split('T')[0]
 
       // Get domain mapping to access exclusion patterns
-      const mappings = await db.getGA4DomainMappings(userId)
-      const mapping = mappings.find(m => m.propertyId === propertyId)
+      const mapping = await this.resolveMapping(userId, propertyId, mappingId)
 
       if (!mapping) {
         throw new Error('Domain mapping not found')
@@ -984,6 +1000,9 @@ export class GA4DataService {
       // Create hash of exclusion patterns for cache invalidation
       const patternsHash = this.hashExclusionPatterns(exclusionPatterns.filter(p => p.isActive))
 
+      // AI platforms to detect - snapshots record the catalog version that classified them
+      const { catalogVersion, match } = await aiReferrerCatalog.getMatcherForMapping(mapping.id)
+
       // Run report with date dimension to get daily data
       const [response] = await analyticsClient.runReport({
         property: `properties/${propertyId}`,
@@ -1058,7 +1077,7 @@ export class GA4DataService {
           : dateStr
 
         // Check if this traffic is from an AI crawler
-        const crawlerName = this.identifyAICrawler(sessionSource, pageReferrer)
+        const crawlerName = match(sessionSource, pageReferrer)
 
         if (crawlerName && pagePath && !pathFilter.shouldExcludePath(pagePath)) {
           const stats = dailyStats.get(formattedDate)!
@@ -1091,7 +1110,8 @@ export class GA4DataService {
           aiCrawledPages: stats.aiPages.size,
           totalActivePages: stats.allPages.size,
           crawlerList: Array.from(stats.crawlers),
-          exclusionPatternsHash: patternsHash
+          exclusionPatternsHash: patternsHash,
+          catalogVersion
         })
       }
 
@@ -1101,6 +1121,7 @@ export class GA4DataService {
       })
     } catch (error) {
       console.error('❌ [GA4 Data] Failed to record daily snapshots:', error)
+      if (isTokenRefreshError(error)) throw error
       throw new Error('Failed to record daily activity snapshots')
     }
   }
@@ -1114,7 +1135,8 @@ export class GA4DataService {
     userId: string,
     propertyId: string,
     dateRangeStart: Date,
-    dateRangeEnd: Date
+    dateRangeEnd: Date,
+    mappingId?: string
   ): Promise<Array<{
     date: string
     aiSessions: number
@@ -1122,6 +1144,7 @@ export class GA4DataService {
     aiCrawledPages: number
     totalActivePages: number
     crawlerList: string[]
+    catalogVersion: number | null
   }>> {
     try {
       const startDate = dateRangeStart.toISOString().split('T')[0]
@@ -1135,12 +1158,11 @@ export class GA4DataService {
       })
 
       // Get domain mapping
-      const mappings = await db.getGA4DomainMappings(userId)
-      const mapping = mappings.find(m => m.propertyId === propertyId)
+      const mapping = await this.resolveMapping(userId, propertyId, mappingId)
 
       console.log('🔍 [GA4 Data] getActivitySnapshots - Mapping lookup', {
-        mappingsCount: mappings.length,
-        mappingPropertyIds: mappings.map(m => m.propertyId),
+        propertyId,
+        mappingId,
         foundMapping: mapping ? { id: mapping.id, domain: mapping.domain } : null
       })
 
@@ -1163,7 +1185,8 @@ export class GA4DataService {
         uniqueCrawlers: s.uniqueCrawlers,
         aiCrawledPages: s.aiCrawledPages,
         totalActivePages: s.totalActivePages,
-        crawlerList: s.crawlerList || []
+        crawlerList: s.crawlerList || [],
+        catalogVersion: s.catalogVersion ?? null
       }))
     } catch (error) {
       console.error('❌ [GA4 Data] Failed to get activity snapshots:', error)
@@ -1171,6 +1194,96 @@ export class GA4DataService {
     }
   }
 
+  /**
+   * Get daily AI referral sessions and platforms per page path
+   * Same GA4 report as the trend, kept per path so schema deployments can be compared
+   * against the AI traffic of the page they went live on. Only days with AI traffic are returned.
+   */
+  async getPageAIDailyActivity(
+    userId: string,
+    propertyId: string,
+    dateRangeStart: Date,
+    dateRangeEnd: Date,
+    mappingId?: string
+  ): Promise<PageAIDailyActivity[]> {
+    try {
+      const startDate = dateRangeStart.toISOString().split('T')[0]
+      const endDate = dateRangeEnd.toISOString().split('T')[0]
+
+      console.log('📄 [GA4 Data] Getting per-page AI activity', { userId, propertyId, startDate, endDate })
+
+      const analyticsClient = await this.getAuthenticatedClient(userId)
+
+      const mapping = await this.resolveMapping(userId, propertyId, mappingId)
+
+      if (!mapping) {
+        throw new Error('Domain mapping not found')
+      }
+
+      const { match } = await aiReferrerCatalog.getMatcherForMapping(mapping.id)
+
+      const [response] = await analyticsClient.runReport({
+        property: `properties/${propertyId}`,
+        dateRanges: [
+          {
+            startDate,
+            endDate
+          }
+        ],
+        dimensions: [
+          { name: 'date' },
+          { name: 'sessionSource' },
+          { name: 'pagePath' },
+          { name: 'pageReferrer' }
+        ],
+        metrics: [
+          { name: 'sessions' }
+        ],
+        limit: 50000
+      })
+
+      // date|path -> sessions and platforms
+      const activity = new Map<string, { date: string; path: string; sessions: number; platforms: Set<string> }>()
+
+      for (const row of response.rows || []) {
+        const dateStr = row.dimensionValues?.[0]?.value || ''
+        const sessionSource = row.dimensionValues?.[1]?.value || ''
+        const pagePath = row.dimensionValues?.[2]?.value || ''
+        const pageReferrer = row.dimensionValues?.[3]?.value || ''
+        const sessions = parseInt(row.metricValues?.[0]?.value || '0', 10)
+
+        const platform = match(sessionSource, pageReferrer)
+        if (!platform || !pagePath) continue
+
+        // Convert GA4 date format (YYYYMMDD) to YYYY-MM-DD
+        const formattedDate = dateStr.length === 8
+          ? `${dateStr.substring(0, 4)}-${dateStr.substring(4, 6)}-${dateStr.substring(6, 8)}`
+          : dateStr
+
+        const key = `${formattedDate}|${pagePath}`
+        const entry = activity.get(key) || { date: formattedDate, path: pagePath, sessions: 0, platforms: new Set<string>() }
+        entry.sessions += sessions
+        entry.platforms.add(platform)
+        activity.set(key, entry)
+      }
+
+      console.log('✅ [GA4 Data] Per-page AI activity retrieved', {
+        rowCount: response.rows?.length || 0,
+        pageDays: activity.size
+      })
+
+      return Array.from(activity.values()).map(entry => ({
+        date: entry.date,
+        path: entry.path,
+        sessions: entry.sessions,
+        platforms: Array.from(entry.platforms)
+      }))
+    } catch (error) {
+      console.error('❌ [GA4 Data] Failed to get per-page AI activity:', error)
+      throw new Error('Failed to fetch page activity from Google Analytics')
+    }
+  }
+
   /**
    * Create a hash of exclusion patterns for cache invalidation
    */
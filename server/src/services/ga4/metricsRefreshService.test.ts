@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+// The refresh imports the database service, which creates a Supabase client at import time
+vi.mock('@supabase/supabase-js', () => ({ createClient: vi.fn(() => ({})) }))
+
+import { ga4MetricsRefreshService } from './metricsRefreshService.js'
+import { ga4Data } from './data.js'
+import { ga4Alerts } from './alerts.js'
+import { ga4OAuth } from './oauth.js'
+import { db } from '../database.js'
+
+/** Two client domains tracked in one GA4 property */
+const SHARED_PROPERTY_MAPPINGS = [
+  { id: 'map-shop', userId: 'user_1', teamId: null, connectionId: 'conn_1', propertyId: '123', propertyName: 'Group', domain: 'shop.example.com', isActive: true, createdAt: new Date(), updatedAt: new Date() },
+  { id: 'map-blog', userId: 'user_1', teamId: null, connectionId: 'conn_1', propertyId: '123', propertyName: 'Group', domain: 'blog.example.com', isActive: true, createdAt: new Date(), updatedAt: new Date() }
+]
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+describe('ga4MetricsRefreshService.refreshAllMetrics', () => {
+  it('refreshes each mapping of a shared property by its own ID', async () => {
+    vi.spyOn(db, 'getAllActiveGA4DomainMappings').mockResolvedValue(SHARED_PROPERTY_MAPPINGS)
+    const getMetrics = vi.spyOn(ga4Data, 'getAICrawlerMetrics').mockResolvedValue({} as any)
+    const recordSnapshots = vi.spyOn(ga4Data, 'recordDailyActivitySnapshots').mockResolvedValue(undefined)
+    const evaluate = vi.spyOn(ga4Alerts, 'evaluateMapping').mockResolvedValue(0)
+
+    const stats = await ga4MetricsRefreshService.refreshAllMetrics()
+
+    expect(stats).toMatchObject({ totalMappings: 2, refreshedCount: 2, snapshotsRecorded: 2, failedCount: 0 })
+    expect(getMetrics.mock.calls.map(call => call[5])).toEqual(['map-shop', 'map-blog'])
+    expect(recordSnapshots.mock.calls.map(call => call[4])).toEqual(['map-shop', 'map-blog'])
+    expect(evaluate.mock.calls.map(([mapping]) => mapping.id)).toEqual(['map-shop', 'map-blog'])
+  })
+})
+
+describe('ga4MetricsRefreshService.refreshAllMetrics token failures', () => {
+  it('sends the token_refresh_failed alert when the refresh token was revoked', async () => {
+    const [mapping] = SHARED_PROPERTY_MAPPINGS
+    vi.spyOn(db, 'getAllActiveGA4DomainMappings').mockResolvedValue([mapping])
+    vi.spyOn(ga4OAuth, 'getStoredTokens').mockResolvedValue({
+      connectionId: 'conn_1',
+      accessToken: 'expired',
+      refreshToken: 'revoked',
+      expiryDate: Date.now() - 60 * 1000
+    })
+    vi.spyOn(ga4OAuth['oauth2Client'], 'refreshAccessToken').mockRejectedValue(new Error('invalid_grant') as never)
+    vi.spyOn(db, 'getGA4AlertRules').mockResolvedValue([])
+    const createEvent = vi.spyOn(db, 'createGA4AlertEvent').mockResolvedValue('event_1')
+    vi.spyOn(db, 'createUserNotification').mockResolvedValue(undefined as any)
+    vi.spyOn(db, 'updateGA4AlertEventDelivery').mockResolvedValue(undefined)
+
+    const stats = await ga4MetricsRefreshService.refreshAllMetrics()
+
+    expect(stats).toMatchObject({ refreshedCount: 0, failedCount: 1, alertsSent: 1 })
+    expect(stats.errors[0].error).toBe('Refresh token expired or revoked. Please reconnect Google Analytics.')
+    expect(createEvent).toHaveBeenCalledWith(expect.objectContaining({
+      mappingId: 'map-shop',
+      ruleType: 'token_refresh_failed'
+    }))
+  })
+
+  it('does not alert on other failures', async () => {
+    vi.spyOn(db, 'getAllActiveGA4DomainMappings').mockResolvedValue([SHARED_PROPERTY_MAPPINGS[0]])
+    vi.spyOn(ga4Data, 'getAICrawlerMetrics').mockRejectedValue(new Error('Failed to fetch Google Analytics data. Please check your connection and try again.'))
+    const notify = vi.spyOn(ga4Alerts, 'notifyTokenRefreshFailure')
+
+    const stats = await ga4MetricsRefreshService.refreshAllMetrics()
+
+    expect(stats).toMatchObject({ failedCount: 1, alertsSent: 0 })
+    expect(notify).not.toHaveBeenCalled()
+  })
+})
+
+describe('ga4Data mapping lookup', () => {
+  it('reads the snapshots of the requested mapping when domains share a property', async () => {
+    vi.spyOn(db, 'getGA4DomainMappings').mockResolvedValue(SHARED_PROPERTY_MAPPINGS)
+    const getSnapshots = vi.spyOn(db, 'getGA4DailySnapshots').mockResolvedValue([])
+
+    await ga4Data.getActivitySnapshots('user_1', '123', new Date('2026-10-01'), new Date('2026-10-18'), 'map-blog')
+    await ga4Data.getActivitySnapshots('user_1', '123', new Date('2026-10-01'), new Date('2026-10-18'))
+
+    expect(getSnapshots.mock.calls.map(call => call[0])).toEqual(['map-blog', 'map-shop'])
+  })
+})
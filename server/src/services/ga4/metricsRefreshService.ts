@@ -1,107 +1,118 @@
 /**
  * GA4 Metrics Refresh Service
- * Automatically refreshes cached metrics and records daily snapshots for all active GA4 connections
+ * Automatically refreshes cached metrics and records daily snapshots for every active domain mapping
+ * of users with an active GA4 connection (agencies map dozens of client properties), then evaluates
+ * each mapping's alert rules
  */
 
 import { db } from '../database.js'
 import { ga4Data } from './data.js'
-import { ga4OAuth } from './oauth.js'
+import { ga4Alerts } from './alerts.js'
+import { isTokenRefreshError } from './oauth.js'
 
 export const ga4MetricsRefreshService = {
   /**
-   * Refresh metrics and record daily snapshots for all active GA4 connections
+   * Refresh metrics and record daily snapshots for all active domain mappings
    * Run this daily via cron job to keep metrics up-to-date
    */
   async refreshAllMetrics(): Promise<{
-    totalConnections: number
+    totalMappings: number
     refreshedCount: number
     snapshotsRecorded: number
+    alertsSent: number
     failedCount: number
-    errors: Array<{ userId: string; error: string }>
+    errors: Array<{ userId: string; mappingId: string; domain: string; error: string }>
   }> {
     console.log('[GA4 Metrics Refresh] Starting automated refresh and snapshot recording...')
 
-    // Get all active GA4 connections
-    const query = `
-      SELECT DISTINCT ON (gdm.user_id)
-        gc.user_id,
-        gdm.property_id,
-        gdm.property_name,
-        gdm.domain
-      FROM ga4_connections gc
-      INNER JOIN ga4_domain_mappings gdm
-        ON gc.user_id = gdm.user_id
-      WHERE gc.is_active = true
-        AND gdm.is_active = true
-    `
-
-    const { rows: connections } = await db.query(query)
+    const mappings = await db.getAllActiveGA4DomainMappings()
 
     const stats = {
-      totalConnections: connections.length,
+      totalMappings: mappings.length,
       refreshedCount: 0,
       snapshotsRecorded: 0,
+      alertsSent: 0,
       failedCount: 0,
-      errors: [] as Array<{ userId: string; error: string }>
+      errors: [] as Array<{ userId: string; mappingId: string; domain: string; error: string }>
     }
 
-    if (connections.length === 0) {
-      console.log('[GA4 Metrics Refresh] No active connections found')
+    if (mappings.length === 0) {
+      console.log('[GA4 Metrics Refresh] No active domain mappings found')
       return stats
     }
 
-    console.log(`[GA4 Metrics Refresh] Found ${connections.length} active connections`)
+    console.log(`[GA4 Metrics Refresh] Found ${mappings.length} active domain mappings`)
 
     // Set date range: last 30 days
     const endDate = new Date()
     const startDate = new Date()
     startDate.setDate(startDate.getDate() - 30)
 
-    // Refresh metrics for each connection
-    for (const connection of connections) {
+    // Refresh metrics for each mapping
+    for (const mapping of mappings) {
       try {
-        console.log(`[GA4 Metrics Refresh] Processing user ${connection.user_id}...`)
+        console.log(`[GA4 Metrics Refresh] Processing ${mapping.domain} (user ${mapping.userId})...`)
 
         // Fetch and cache latest metrics (last 30 days)
         await ga4Data.getAICrawlerMetrics(
-          connection.user_id,
-          connection.property_id,
+          mapping.userId,
+          mapping.propertyId,
           startDate,
           endDate,
-          true // force refresh
+          true, // force refresh
+          mapping.id // several domains can share one GA4 property
         )
 
         stats.refreshedCount++
-        console.log(`[GA4 Metrics Refresh] ✅ Metrics refreshed for user ${connection.user_id}`)
+        console.log(`[GA4 Metrics Refresh] ✅ Metrics refreshed for ${mapping.domain}`)
 
         // Record daily snapshots for the last 30 days
         // This will upsert (update or insert) snapshots for each day
         try {
           await ga4Data.recordDailyActivitySnapshots(
-            connection.user_id,
-            connection.property_id,
+            mapping.userId,
+            mapping.propertyId,
             startDate,
-            endDate
+            endDate,
+            mapping.id
           )
           stats.snapshotsRecorded++
-          console.log(`[GA4 Metrics Refresh] ✅ Snapshots recorded for user ${connection.user_id}`)
+          console.log(`[GA4 Metrics Refresh] ✅ Snapshots recorded for ${mapping.domain}`)
         } catch (snapshotError: any) {
-          console.warn(`[GA4 Metrics Refresh] ⚠️  Snapshot recording failed for user ${connection.user_id}:`, snapshotError?.message)
+          console.warn(`[GA4 Metrics Refresh] ⚠️  Snapshot recording failed for ${mapping.domain}:`, snapshotError?.message)
           // Don't fail the entire refresh if just snapshots fail
+          continue
+        }
+
+        // Alert rules are evaluated against the snapshots just recorded
+        try {
+          stats.alertsSent += await ga4Alerts.evaluateMapping(mapping)
+        } catch (alertError: any) {
+          console.warn(`[GA4 Metrics Refresh] ⚠️  Alert evaluation failed for ${mapping.domain}:`, alertError?.message)
         }
 
       } catch (error: any) {
         stats.failedCount++
         const errorMessage = error?.message || 'Unknown error'
         stats.errors.push({
-          userId: connection.user_id,
+          userId: mapping.userId,
+          mappingId: mapping.id,
+          domain: mapping.domain,
           error: errorMessage
         })
-        console.error(`[GA4 Metrics Refresh] ❌ Failed for user ${connection.user_id}:`, errorMessage)
+        console.error(`[GA4 Metrics Refresh] ❌ Failed for ${mapping.domain} (user ${mapping.userId}):`, errorMessage)
+
+        if (isTokenRefreshError(error)) {
+          try {
+            if (await ga4Alerts.notifyTokenRefreshFailure(mapping, errorMessage)) stats.alertsSent++
+          } catch (alertError: any) {
+            console.warn(`[GA4 Metrics Refresh] ⚠️  Token refresh alert failed for ${mapping.domain}:`, alertError?.message)
+          }
+        }
       }
     }
 
-    console.log(`[GA4 Metrics Refresh] Completed: ${stats.refreshedCount} metrics refreshed, ${stats.snapshotsRecorded} snapshots recorded, ${stats.failedCount} failed`)
+    console.log(`[GA4 Metrics Refresh] Completed: ${stats.refreshedCount} metrics refreshed, ${stats.snapshotsRecorded} snapshots recorded, ${stats.alertsSent} alerts sent, ${stats.failedCount} failed`)
     return stats
   }
 }
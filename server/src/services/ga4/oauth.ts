@@ -13,6 +13,22 @@ import { db } from '../database.js'
 
 const { OAuth2 } = google.auth
 
+/** Code on errors from refreshAccessToken - callers wrapping GA4 errors pass these through */
+export const TOKEN_REFRESH_ERROR_CODE = 'ERR_GA4_TOKEN_REFRESH'
+
+function tokenRefreshError(message: string): NodeJS.ErrnoException {
+  const error: NodeJS.ErrnoException = new Error(message)
+  error.code = TOKEN_REFRESH_ERROR_CODE
+  return error
+}
+
+/**
+ * Whether an error is a failed token refresh (expired or revoked refresh token, OAuth outage)
+ */
+export function isTokenRefreshError(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException | null)?.code === TOKEN_REFRESH_ERROR_CODE
+}
+
 export interface GA4TokenResponse {
   access_token: string
   refresh_token?: string // Only present on first auth or when forced
@@ -224,9 +240,9 @@ export class GA4OAuthService {
 
       if (error instanceof Error) {
         if (error.message.includes('invalid_grant')) {
-          throw new Error('Refresh token expired or revoked. Please reconnect Google Analytics.')
+          throw tokenRefreshError('Refresh token expired or revoked. Please reconnect Google Analytics.')
         } else {
-          throw new Error(`Failed to refresh access token: ${error.message}`)
+          throw tokenRefreshError(`Failed to refresh access token: ${error.message}`)
         }
       }
       throw error
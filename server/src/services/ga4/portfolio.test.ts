@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from 'vitest'
+
+// portfolio imports the database service, which creates a Supabase client at import time
+vi.mock('@supabase/supabase-js', () => ({ createClient: vi.fn(() => ({})) }))
+
+import { buildPortfolioEntry, getBiggestMovers, type PortfolioEntry } from './portfolio.js'
+
+const mapping = { id: 'map-1', domain: 'example.com', propertyId: '123', propertyName: 'Example' }
+
+function snapshot(snapshotDate: string, uniqueCrawlers: number, aiSessions: number) {
+  return {
+    snapshotDate,
+    aiSessions,
+    uniqueCrawlers,
+    aiCrawledPages: uniqueCrawlers > 0 ? 5 : 0,
+    totalActivePages: 10,
+    crawlerList: ['ChatGPT', 'Claude', 'Perplexity', 'Gemini'].slice(0, uniqueCrawlers)
+  }
+}
+
+describe('buildPortfolioEntry', () => {
+  it('compares the period against the period before it', () => {
+    const snapshots = [
+      snapshot('2026-03-01', 4, 100),
+      snapshot('2026-03-02', 4, 100),
+      snapshot('2026-03-03', 1, 10),
+      snapshot('2026-03-04', 1, 10)
+    ]
+
+    const entry = buildPortfolioEntry(mapping, { aiVisibilityScore: 40, refreshedAt: '2026-03-04T02:00:00Z' }, snapshots, 2, '2026-03-04')
+
+    expect(entry.score).toBe(40)
+    expect(entry.aiSessions).toBe(20)
+    expect(entry.previousAiSessions).toBe(200)
+    expect(entry.sessionsChangePercentage).toBe(-90)
+    expect(entry.platforms).toEqual(['ChatGPT'])
+    expect(entry.sparkline.map(point => point.date)).toEqual(['2026-03-03', '2026-03-04'])
+    expect(entry.scoreChange).toBeLessThanOrEqual(-10)
+    expect(entry.alertStatus).toBe('declining')
+  })
+
+  it('flags mappings without recent snapshots', () => {
+    const stale = buildPortfolioEntry(mapping, undefined, [snapshot('2026-02-20', 2, 5)], 30, '2026-03-04')
+    expect(stale.alertStatus).toBe('stale')
+
+    const empty = buildPortfolioEntry(mapping, undefined, [], 30, '2026-03-04')
+    expect(empty).toMatchObject({ score: null, averageScore: null, scoreChange: null, alertStatus: 'no_data' })
+  })
+})
+
+describe('getBiggestMovers', () => {
+  it('lists gainers and decliners by size of the score change', () => {
+    const entries = [
+      { mappingId: 'a', domain: 'a.com', score: 50, scoreChange: 5 },
+      { mappingId: 'b', domain: 'b.com', score: 30, scoreChange: -12 },
+      { mappingId: 'c', domain: 'c.com', score: 70, scoreChange: 15 },
+      { mappingId: 'd', domain: 'd.com', score: 10, scoreChange: null },
+      { mappingId: 'e', domain: 'e.com', score: 20, scoreChange: 0 }
+    ] as PortfolioEntry[]
+
+    const movers = getBiggestMovers(entries)
+
+    expect(movers.gainers.map(mover => mover.mappingId)).toEqual(['c', 'a'])
+    expect(movers.decliners.map(mover => mover.mappingId)).toEqual(['b'])
+  })
+})
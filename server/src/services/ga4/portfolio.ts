@@ -0,0 +1,221 @@
+/**
+ * GA4 Portfolio
+ * One row per mapped domain for teams managing many client properties
+ *
+ * Built from stored data only (cached metrics and daily snapshots written by the scheduled
+ * refresh), so listing dozens of properties never hits the GA4 API. Each row carries the
+ * latest AI Visibility Score, a daily score sparkline, the change against the previous
+ * period of the same length and an alert status.
+ */
+
+import { db } from '../database.js'
+import { calculateDailyVisibilityScore } from './data.js'
+
+export const PORTFOLIO_PERIODS = [7, 30, 90]
+
+/** Without a snapshot for this many days the mapping is no longer refreshing */
+const STALE_AFTER_DAYS = 3
+
+/** Average daily score drop (points) that flags a domain as declining */
+const DECLINE_ALERT_POINTS = 10
+
+/** Gainers and decliners listed as biggest movers */
+const MOVERS_LIMIT = 5
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type PortfolioAlertStatus = 'ok' | 'declining' | 'stale' | 'no_data'
+
+interface PortfolioSnapshot {
+  snapshotDate: string
+  aiSessions: number
+  uniqueCrawlers: number
+  aiCrawledPages: number
+  totalActivePages: number
+  crawlerList: string[]
+}
+
+interface PortfolioCachedMetrics {
+  aiVisibilityScore: number
+  refreshedAt: string
+}
+
+export interface PortfolioEntry {
+  mappingId: string
+  domain: string
+  propertyId: string
+  propertyName: string
+  /** Latest cached AI Visibility Score */
+  score: number | null
+  scoreRefreshedAt: string | null
+  /** Mean daily score over the period and the period before it */
+  averageScore: number | null
+  previousAverageScore: number | null
+  scoreChange: number | null
+  aiSessions: number
+  previousAiSessions: number
+  sessionsChangePercentage: number | null
+  /** Distinct AI platforms over the period */
+  platforms: string[]
+  sparkline: Array<{ date: string; score: number }>
+  lastSnapshotDate: string | null
+  alertStatus: PortfolioAlertStatus
+}
+
+export type PortfolioMover = Pick<PortfolioEntry, 'mappingId' | 'domain' | 'score' | 'scoreChange'>
+
+export interface GA4Portfolio {
+  periodDays: number
+  generatedAt: string
+  entries: PortfolioEntry[]
+  movers: {
+    gainers: PortfolioMover[]
+    decliners: PortfolioMover[]
+  }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`)
+  result.setUTCDate(result.getUTCDate() + days)
+  return toDateString(result)
+}
+
+function averageScore(snapshots: PortfolioSnapshot[]): number | null {
+  if (snapshots.length === 0) return null
+  const total = snapshots.reduce((sum, snapshot) => sum + calculateDailyVisibilityScore(snapshot), 0)
+  return Math.round((total / snapshots.length) * 10) / 10
+}
+
+function sumSessions(snapshots: PortfolioSnapshot[]): number {
+  return snapshots.reduce((sum, snapshot) => sum + snapshot.aiSessions, 0)
+}
+
+export function getAlertStatus(
+  entry: Pick<PortfolioEntry, 'score' | 'scoreChange' | 'lastSnapshotDate'>,
+  today: string
+): PortfolioAlertStatus {
+  if (entry.score === null && entry.lastSnapshotDate === null) return 'no_data'
+  if (entry.lastSnapshotDate === null || entry.lastSnapshotDate < addDays(today, -STALE_AFTER_DAYS)) return 'stale'
+  if (entry.scoreChange !== null && entry.scoreChange <= -DECLINE_ALERT_POINTS) return 'declining'
+  return 'ok'
+}
+
+// =============================================================================
+// PORTFOLIO
+// =============================================================================
+
+/**
+ * Portfolio row of one mapping
+ * Snapshots cover the period and the period before it, oldest first
+ */
+export function buildPortfolioEntry(
+  mapping: { id: string; domain: string; propertyId: string; propertyName: string },
+  cached: PortfolioCachedMetrics | undefined,
+  snapshots: PortfolioSnapshot[],
+  periodDays: number,
+  today: string
+): PortfolioEntry {
+  const periodStart = addDays(today, -(periodDays - 1))
+  const current = snapshots.filter(snapshot => snapshot.snapshotDate >= periodStart)
+  const previous = snapshots.filter(snapshot => snapshot.snapshotDate < periodStart)
+
+  const currentAverage = averageScore(current)
+  const previousAverage = averageScore(previous)
+  const aiSessions = sumSessions(current)
+  const previousAiSessions = sumSessions(previous)
+
+  const entry = {
+    mappingId: mapping.id,
+    domain: mapping.domain,
+    propertyId: mapping.propertyId,
+    propertyName: mapping.propertyName,
+    score: cached ? cached.aiVisibilityScore : null,
+    scoreRefreshedAt: cached ? cached.refreshedAt : null,
+    averageScore: currentAverage,
+    previousAverageScore: previousAverage,
+    scoreChange: currentAverage !== null && previousAverage !== null
+      ? Math.round((currentAverage - previousAverage) * 10) / 10
+      : null,
+    aiSessions,
+    previousAiSessions,
+    sessionsChangePercentage: previousAiSessions > 0
+      ? Math.round(((aiSessions - previousAiSessions) / previousAiSessions) * 1000) / 10
+      : null,
+    platforms: [...new Set(current.flatMap(snapshot => snapshot.crawlerList))].sort(),
+    sparkline: current.map(snapshot => ({ date: snapshot.snapshotDate, score: calculateDailyVisibilityScore(snapshot) })),
+    lastSnapshotDate: snapshots.length > 0 ? snapshots[snapshots.length - 1].snapshotDate : null
+  }
+
+  return { ...entry, alertStatus: getAlertStatus(entry, today) }
+}
+
+/**
+ * Largest score gains and drops across the portfolio
+ */
+export function getBiggestMovers(entries: PortfolioEntry[], limit: number = MOVERS_LIMIT): GA4Portfolio['movers'] {
+  const toMover = (entry: PortfolioEntry): PortfolioMover => ({
+    mappingId: entry.mappingId,
+    domain: entry.domain,
+    score: entry.score,
+    scoreChange: entry.scoreChange
+  })
+  const changed = entries.filter(entry => entry.scoreChange !== null && entry.scoreChange !== 0)
+
+  return {
+    gainers: changed
+      .filter(entry => entry.scoreChange! > 0)
+      .sort((a, b) => b.scoreChange! - a.scoreChange!)
+      .slice(0, limit)
+      .map(toMover),
+    decliners: changed
+      .filter(entry => entry.scoreChange! < 0)
+      .sort((a, b) => a.scoreChange! - b.scoreChange!)
+      .slice(0, limit)
+      .map(toMover)
+  }
+}
+
+export class GA4PortfolioService {
+  /**
+   * Portfolio of all of the user's active domain mappings
+   */
+  async getPortfolio(userId: string, periodDays: number): Promise<GA4Portfolio> {
+    const mappings = await db.getGA4DomainMappings(userId)
+    const mappingIds = mappings.map(mapping => mapping.id)
+
+    const today = toDateString(new Date())
+    const [cachedByMapping, snapshotsByMapping] = await Promise.all([
+      db.getLatestGA4CachedMetricsForMappings(mappingIds),
+      db.getGA4DailySnapshotsForMappings(mappingIds, addDays(today, -(periodDays * 2 - 1)), today)
+    ])
+
+    console.log(`📊 [GA4 Portfolio] Building portfolio of ${mappings.length} domains (${periodDays} days)`, { userId })
+
+    const entries = mappings.map(mapping => buildPortfolioEntry(
+      mapping,
+      cachedByMapping.get(mapping.id),
+      snapshotsByMapping.get(mapping.id) || [],
+      periodDays,
+      today
+    ))
+
+    return {
+      periodDays,
+      generatedAt: new Date().toISOString(),
+      entries,
+      movers: getBiggestMovers(entries)
+    }
+  }
+}
+
+export const ga4Portfolio = new GA4PortfolioService()
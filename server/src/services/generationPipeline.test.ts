@@ -0,0 +1,244 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+
+// schemaGeneratorService imports services that create a Supabase client at import time
+vi.mock('@supabase/supabase-js', () => ({ createClient: vi.fn(() => ({})) }))
+vi.mock('./teamService.js', () => ({ getUserActiveTeam: vi.fn(async () => null) }))
+
+import { readFile } from 'fs/promises'
+import { existsSync } from 'fs'
+import { dirname, join } from 'path'
+import { fileURLToPath } from 'url'
+import type { JsonLdSchema } from 'aeo-schema-generator-shared/types'
+import { htmlCleaningService } from './htmlCleaner.js'
+import { scraperService, toContentAnalysis } from './scraper.js'
+import { anthropicService } from './anthropic.js'
+import { openaiService } from './openai.js'
+import { schemaGeneratorService } from './schemaGenerator.js'
+import { db } from './database.js'
+import { aiProviderRegistry } from './aiProviderRegistry.js'
+import { mockAIProvider } from './mockAIProvider.js'
+import { sanitizeSchemaProperties } from './schemaPropertyWhitelist.js'
+import { validatorService } from './validator.js'
+import type { ContentAnalysis, SchemaGenerationOptions } from './openai.js'
+
+/**
+ * Offline generation pipeline tests
+ *
+ * Each fixture in __fixtures__/generation/<name>/ is a saved page (page.html) and a recorded
+ * AI response (ai-response.json, the raw model output). The page runs through the same stages
+ * as a real generation - HTML cleaner, AI provider post-processing, property sanitization and
+ * the validator - and every stage is compared with golden files next to the fixture:
+ *
+ * - analysis.golden.json: what the cleaner extracted from the page
+ * - prompt.golden.txt: the user prompt the default provider (Anthropic) would send
+ * - prompt.openai.golden.txt: the prompt the OpenAI provider would send
+ * - schemas.golden.json: final JSON-LD and validation results
+ *
+ * A fixture without ai-response.json uses the mock provider's built-in schema builder.
+ * The article fixture also runs through schemaGeneratorService.generateSchemas with the
+ * scraper and database stubbed (generated.golden.json).
+ *
+ * After an intended cleaner, prompt or validation change, regenerate the goldens and review
+ * the diff: npx vitest run src/services/generationPipeline.test.ts -u
+ */
+
+interface GenerationFixture {
+  name: string
+  url: string
+  /** Explicitly requested schema type, omitted for auto-detection */
+  schemaType?: string
+}
+
+const FIXTURES_DIR = join(dirname(fileURLToPath(import.meta.url)), '__fixtures__', 'generation')
+
+const FIXTURES: GenerationFixture[] = [
+  { name: 'article', url: 'https://journal.northwind.example/articles/how-answer-engines-choose-sources' },
+  { name: 'product', url: 'https://shop.summit.example/products/trailhead-40l', schemaType: 'Product' },
+  { name: 'local-business', url: 'https://copperkettle.example/' },
+  { name: 'event', url: 'https://sdsummit.example/2026', schemaType: 'Event' },
+  { name: 'faq', url: 'https://brightline-solar.example/faq', schemaType: 'FAQPage' }
+]
+
+/**
+ * The cleaner output that drives generation - leaves out bulky or derived fields
+ * (full text and hierarchy are covered by the prompt golden)
+ */
+function summarizeAnalysis(analysis: ContentAnalysis) {
+  const metadata = analysis.metadata || {}
+
+  return {
+    title: analysis.title,
+    description: analysis.description,
+    author: metadata.author,
+    publishDate: metadata.publishDate,
+    modifiedDate: metadata.modifiedDate,
+    language: metadata.language,
+    canonicalUrl: metadata.canonicalUrl,
+    keywords: metadata.keywords,
+    images: metadata.images,
+    featuredImage: metadata.imageInfo?.featuredImage,
+    businessInfo: metadata.businessInfo,
+    faqContent: metadata.faqContent,
+    breadcrumbs: metadata.breadcrumbs,
+    wordCount: metadata.wordCount,
+    contentType: metadata.contentType,
+    contentAnalysis: metadata.contentAnalysis,
+    contentQualitySuggestions: (analysis as any).contentQualitySuggestions
+  }
+}
+
+/**
+ * Clean the page exactly like the scraper does after rendering
+ */
+async function analyzeFixturePage(fixture: GenerationFixture): Promise<ContentAnalysis> {
+  const html = await readFile(join(FIXTURES_DIR, fixture.name, 'page.html'), 'utf-8')
+  const structuredContent = await htmlCleaningService.processHtml(html, fixture.url)
+  return toContentAnalysis(fixture.url, structuredContent)
+}
+
+/**
+ * Replay the recorded model output, if the fixture has one
+ */
+async function replayRecordedResponse(fixture: GenerationFixture): Promise<void> {
+  const responsePath = join(FIXTURES_DIR, fixture.name, 'ai-response.json')
+  if (existsSync(responsePath)) {
+    const recorded = JSON.parse(await readFile(responsePath, 'utf-8'))
+    mockAIProvider.respondWith(() => recorded.schemas)
+  }
+}
+
+async function runPipeline(fixture: GenerationFixture) {
+  // 1. Clean the page
+  const analysis = await analyzeFixturePage(fixture)
+
+  const options: SchemaGenerationOptions = {
+    requestedSchemaTypes: fixture.schemaType ? [fixture.schemaType] : undefined
+  }
+
+  // 2. Replay the recorded model output through the provider post-processing
+  await replayRecordedResponse(fixture)
+
+  const { schemas: rawSchemas } = await aiProviderRegistry.generateSchemas(analysis, options, {
+    schemaType: fixture.schemaType
+  })
+
+  // 3. Sanitize and validate as schemaGeneratorService does
+  const schemas: JsonLdSchema[] = rawSchemas.map(schema => sanitizeSchemaProperties(schema).schema)
+  const validation = validatorService.validateMultipleSchemas(schemas).map(result => ({
+    isValid: result.isValid,
+    errors: result.errors.map(error => `${error.path || error.field}: ${error.message}`),
+    warnings: result.warnings.map(warning => `${warning.path || warning.field}: ${warning.message}`)
+  }))
+
+  return {
+    analysis,
+    prompt: anthropicService['buildUserPrompt'](analysis, options),
+    openaiPrompt: openaiService['buildPrompt'](analysis, options),
+    schemas,
+    validation
+  }
+}
+
+function toJson(value: unknown): string {
+  return `${JSON.stringify(value, null, 2)}\n`
+}
+
+describe('Generation pipeline fixtures', () => {
+  const originalEnv = { ...process.env }
+
+  afterAll(() => {
+    process.env = { ...originalEnv }
+  })
+
+  describe.each(FIXTURES)('$name', fixture => {
+    let result: Awaited<ReturnType<typeof runPipeline>>
+
+    beforeAll(async () => {
+      // The cleaner and providers log every step - keep test output readable
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+
+      mockAIProvider.reset()
+      process.env.AI_MODEL_PROVIDER = 'mock'
+      process.env.AI_FALLBACK_PROVIDER = 'none'
+      delete process.env.AI_PROVIDER_ROUTES
+      result = await runPipeline(fixture)
+    })
+
+    it('extracts the expected page analysis', async () => {
+      await expect(toJson(summarizeAnalysis(result.analysis)))
+        .toMatchFileSnapshot(join(FIXTURES_DIR, fixture.name, 'analysis.golden.json'))
+    })
+
+    it('builds the expected prompt', async () => {
+      await expect(result.prompt)
+        .toMatchFileSnapshot(join(FIXTURES_DIR, fixture.name, 'prompt.golden.txt'))
+    })
+
+    it('builds the expected OpenAI prompt', async () => {
+      await expect(result.openaiPrompt)
+        .toMatchFileSnapshot(join(FIXTURES_DIR, fixture.name, 'prompt.openai.golden.txt'))
+    })
+
+    it('produces the expected schemas', async () => {
+      await expect(toJson({ schemas: result.schemas, validation: result.validation }))
+        .toMatchFileSnapshot(join(FIXTURES_DIR, fixture.name, 'schemas.golden.json'))
+    })
+
+    it('produces schemas that pass validation', () => {
+      expect(result.schemas.length).toBeGreaterThan(0)
+      expect(result.validation.every(entry => entry.isValid)).toBe(true)
+    })
+  })
+})
+
+describe('schemaGeneratorService.generateSchemas', () => {
+  const fixture = FIXTURES[0]
+  const originalEnv = { ...process.env }
+  let result: Awaited<ReturnType<typeof schemaGeneratorService.generateSchemas>>
+  let storedUpdate: unknown[] | undefined
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+
+    mockAIProvider.reset()
+    process.env.AI_MODEL_PROVIDER = 'mock'
+    process.env.AI_FALLBACK_PROVIDER = 'none'
+    delete process.env.AI_PROVIDER_ROUTES
+
+    const analysis = await analyzeFixturePage(fixture)
+    await replayRecordedResponse(fixture)
+
+    vi.spyOn(scraperService, 'validateUrl').mockResolvedValue({ isValid: true } as any)
+    vi.spyOn(scraperService, 'scrapeUrl').mockResolvedValue(analysis)
+    vi.spyOn(db, 'createSchemaGeneration').mockResolvedValue('generation_1')
+    vi.spyOn(db, 'trackUsage').mockResolvedValue(undefined as any)
+    const updateGeneration = vi.spyOn(db, 'updateSchemaGeneration').mockResolvedValue(undefined as any)
+
+    result = await schemaGeneratorService.generateSchemas({
+      url: fixture.url,
+      userId: 'user_1',
+      schemaType: fixture.schemaType
+    })
+    // Read before the next test starts: the config clears mock calls before each test
+    storedUpdate = updateGeneration.mock.calls[0]
+  })
+
+  afterAll(() => {
+    vi.restoreAllMocks()
+    process.env = { ...originalEnv }
+  })
+
+  it('stores and returns the expected schemas', async () => {
+    expect(result.success).toBe(true)
+    expect(storedUpdate).toEqual(['generation_1', expect.objectContaining({
+      status: 'success',
+      schemas: result.schemas
+    })])
+
+    await expect(toJson({
+      schemaType: result.metadata.schemaType,
+      schemaScore: result.schemaScore,
+      schemas: result.schemas
+    })).toMatchFileSnapshot(join(FIXTURES_DIR, fixture.name, 'generated.golden.json'))
+  })
+})
@@ -0,0 +1,184 @@
+/**
+ * HubSpot Bulk Push Service
+ * Pushes the schema of many URL library entries to their matching HubSpot content,
+ * with a dry run that previews each page's head HTML before and after
+ */
+
+import { hubspotCMSService, buildSuperSchemaHeadHtml } from './cms.js'
+import { pushSchemaToContent, publishPushedDraft, recordSyncFailure } from './syncRetry.js'
+import { db } from '../database.js'
+import { emitWebhookEvent } from '../webhooks/delivery.js'
+import type {
+  DiscoveredUrl,
+  HubSpotBulkPushItem,
+  HubSpotBulkPushItemStatus,
+  HubSpotBulkPushResult,
+  HubSpotContentMatchResult,
+  HubSpotPublishOptions
+} from 'aeo-schema-generator-shared/types'
+
+/** Maximum library URLs per bulk request */
+export const BULK_PUSH_MAX_URLS = 100
+
+/** Minimum match confidence for pushing without manual review (www vs non-www still passes) */
+export const BULK_PUSH_MIN_CONFIDENCE = 0.9
+
+/**
+ * Script tags for every schema of every schema type generated for a URL
+ * (same output as a single push from the URL library)
+ */
+export function buildSchemaScriptTags(schemaRecords: Array<{ schemas: any }>): string {
+  return schemaRecords
+    .map(record => {
+      const schemas = Array.isArray(record.schemas) ? record.schemas : [record.schemas]
+      return schemas
+        .map((schema: any) => `<script type="application/ld+json">\n${JSON.stringify(schema, null, 2)}\n</script>`)
+        .join('\n')
+    })
+    .join('\n')
+}
+
+export class HubSpotBulkPushService {
+  /**
+   * Compute the head HTML each matched page would get, without writing anything
+   */
+  async preview(userId: string, connectionId: string, urlIds: string[]): Promise<HubSpotBulkPushResult> {
+    return this.run(userId, connectionId, urlIds, true)
+  }
+
+  /**
+   * Push schema to every matched page. Each push gets its own sync job holding the
+   * previous head HTML, so it can be rolled back on its own.
+   * Page drafts are published afterwards when `publish` asks for it.
+   */
+  async push(
+    userId: string,
+    connectionId: string,
+    urlIds: string[],
+    publish?: HubSpotPublishOptions
+  ): Promise<HubSpotBulkPushResult> {
+    return this.run(userId, connectionId, urlIds, false, publish)
+  }
+
+  private async run(
+    userId: string,
+    connectionId: string,
+    urlIds: string[],
+    dryRun: boolean,
+    publish?: HubSpotPublishOptions
+  ): Promise<HubSpotBulkPushResult> {
+    console.log(`📦 [HubSpot Bulk Push] ${dryRun ? 'Previewing' : 'Pushing'} ${urlIds.length} URLs`)
+
+    // Keep the requested order; IDs that are not in the user's library are ignored
+    const libraryUrls = await db.getUserUrlsByIds(userId, urlIds)
+    const urlsById = new Map(libraryUrls.map(url => [url.id, url]))
+    const urls = urlIds
+      .map(id => urlsById.get(id))
+      .filter((url): url is DiscoveredUrl => !!url)
+
+    const matches = await hubspotCMSService.matchUrlsToContent(connectionId, urls.map(url => url.url))
+
+    // Sequential on purpose: HubSpot rate limits are per portal
+    const items: HubSpotBulkPushItem[] = []
+    for (const url of urls) {
+      items.push(await this.processUrl(userId, connectionId, url, matches.get(url.url) || [], dryRun, publish))
+    }
+
+    const summary: Record<HubSpotBulkPushItemStatus, number> = {
+      ready: 0,
+      unchanged: 0,
+      no_match: 0,
+      no_schema: 0,
+      success: 0,
+      failed: 0
+    }
+    for (const item of items) summary[item.status]++
+
+    console.log(`✅ [HubSpot Bulk Push] Done:`, summary)
+    return { dryRun, items, summary }
+  }
+
+  private async processUrl(
+    userId: string,
+    connectionId: string,
+    url: DiscoveredUrl,
+    matches: HubSpotContentMatchResult[],
+    dryRun: boolean,
+    publish?: HubSpotPublishOptions
+  ): Promise<HubSpotBulkPushItem> {
+    const item: HubSpotBulkPushItem = { urlId: url.id, url: url.url, status: 'no_match' }
+
+    const schemaRecords = await db.getSchemasByDiscoveredUrlId(url.id)
+    if (schemaRecords.length === 0) {
+      return { ...item, status: 'no_schema' }
+    }
+
+    const match = matches[0]
+    if (!match) return item
+    item.match = match
+    if (match.confidence < BULK_PUSH_MIN_CONFIDENCE) return item
+
+    const schemaHtml = buildSchemaScriptTags(schemaRecords)
+    let syncJobId: string | undefined
+
+    try {
+      const previousHeadHtml = await hubspotCMSService.getHeadHtml(connectionId, match.contentId, match.contentType)
+      const newHeadHtml = buildSuperSchemaHeadHtml(previousHeadHtml, schemaHtml)
+
+      if (previousHeadHtml === newHeadHtml) {
+        return { ...item, status: 'unchanged' }
+      }
+      if (dryRun) {
+        return { ...item, status: 'ready', previousHeadHtml, newHeadHtml }
+      }
+
+      syncJobId = await db.createHubSpotSyncJob({
+        userId,
+        connectionId,
+        schemaGenerationId: schemaRecords[0].id,
+        hubspotContentId: match.contentId,
+        hubspotContentType: match.contentType,
+        hubspotContentTitle: match.title,
+        hubspotContentUrl: match.url,
+        schemaHtml,
+        publish
+      })
+
+      const change = await pushSchemaToContent(connectionId, match.contentId, match.contentType, schemaHtml)
+      await db.updateHubSpotSyncJobSuccess(syncJobId, change)
+
+      emitWebhookEvent({ userId }, 'schema.pushed', {
+        cms: 'hubspot',
+        connectionId,
+        syncJobId,
+        contentId: match.contentId,
+        contentType: match.contentType,
+        contentTitle: match.title,
+        contentUrl: match.url,
+        schemaGenerationId: schemaRecords[0].id,
+        userId
+      })
+
+      // The push stays successful when publishing fails - the schema waits in the draft
+      try {
+        const published = await publishPushedDraft(syncJobId, connectionId, match.contentId, match.contentType, publish)
+        return { ...item, status: 'success', syncJobId, ...change, published }
+      } catch (error) {
+        const publishError = error instanceof Error ? error.message : 'Unknown error'
+        console.error(`❌ [HubSpot Bulk Push] Publishing failed for ${url.url}:`, publishError)
+        return { ...item, status: 'success', syncJobId, ...change, published: false, publishError }
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      console.error(`❌ [HubSpot Bulk Push] Failed for ${url.url}:`, errorMessage)
+
+      if (syncJobId) {
+        await recordSyncFailure(syncJobId, 0, error)
+      }
+      return { ...item, status: 'failed', syncJobId, error: errorMessage }
+    }
+  }
+}
+
+// Export singleton instance
+export const hubspotBulkPushService = new HubSpotBulkPushService()
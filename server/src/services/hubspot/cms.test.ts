@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  buildSuperSchemaHeadHtml,
+  getSchemaPublishState,
+  hubspotCMSService,
+  isUnpublishedDraftChangesError
+} from './cms.js'
+
+const schemaHtml = '<script type="application/ld+json">\n{"@type":"Product","offers":{"price":"$5"}}\n</script>'
+
+describe('buildSuperSchemaHeadHtml', () => {
+  it('appends the SuperSchema block after existing head HTML', () => {
+    const head = buildSuperSchemaHeadHtml('<meta name="robots" content="index">', schemaHtml)
+
+    expect(head).toBe(`<meta name="robots" content="index">\n\n<!-- SuperSchema -->\n${schemaHtml}\n<!-- /SuperSchema -->`)
+  })
+
+  it('replaces an existing block and keeps the surrounding HTML', () => {
+    const previous = '<link rel="icon" href="/favicon.ico">\n<!-- SuperSchema -->\nold\n<!-- /SuperSchema -->\n<script src="/app.js"></script>'
+    const head = buildSuperSchemaHeadHtml(previous, schemaHtml)
+
+    expect(head).toBe(`<link rel="icon" href="/favicon.ico">\n<!-- SuperSchema -->\n${schemaHtml}\n<!-- /SuperSchema -->\n<script src="/app.js"></script>`)
+    expect(buildSuperSchemaHeadHtml(head, schemaHtml)).toBe(head)
+  })
+
+  it('uses only the block for empty head HTML', () => {
+    expect(buildSuperSchemaHeadHtml('  ', schemaHtml)).toBe(`<!-- SuperSchema -->\n${schemaHtml}\n<!-- /SuperSchema -->`)
+  })
+})
+
+describe('getSchemaPublishState', () => {
+  const draft = buildSuperSchemaHeadHtml('<meta charset="utf-8">', schemaHtml)
+
+  it('compares the SuperSchema block of the draft with the live head HTML', () => {
+    expect(getSchemaPublishState(draft, '<meta charset="utf-8">')).toBe('draft_only')
+    expect(getSchemaPublishState(draft, buildSuperSchemaHeadHtml('', 'old'))).toBe('draft_differs')
+    expect(getSchemaPublishState(draft, buildSuperSchemaHeadHtml('<title>Live</title>', schemaHtml))).toBe('published')
+  })
+
+  it('ignores drafts without SuperSchema markup', () => {
+    expect(getSchemaPublishState('<meta charset="utf-8">', draft)).toBeNull()
+  })
+})
+
+describe('restoreHeadHtml', () => {
+  const change = {
+    previousHeadHtml: '<meta name="draft">',
+    previousLiveHeadHtml: '<meta name="live">',
+    newHeadHtml: `<meta name="draft">\n${schemaHtml}`
+  }
+
+  function stubPage(liveHeadHtml: string, otherDraftChanges = false) {
+    vi.spyOn(hubspotCMSService, 'getPageHeadHtmlVersions').mockResolvedValue({
+      liveHeadHtml,
+      draftHeadHtml: change.newHeadHtml,
+      pageState: 'PUBLISHED'
+    })
+    vi.spyOn(hubspotCMSService, 'hasUnpublishedDraftChanges').mockResolvedValue(otherDraftChanges)
+    return {
+      setHeadHtml: vi.spyOn(hubspotCMSService, 'setHeadHtml').mockResolvedValue(),
+      publishPageDraft: vi.spyOn(hubspotCMSService, 'publishPageDraft').mockResolvedValue()
+    }
+  }
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('only restores the draft while the push is not live', async () => {
+    const { setHeadHtml, publishPageDraft } = stubPage(change.previousLiveHeadHtml)
+
+    expect(await hubspotCMSService.restoreHeadHtml('conn', '42', 'page', change)).toEqual({ republished: false })
+    expect(setHeadHtml.mock.calls).toEqual([['conn', '42', 'page', change.previousHeadHtml]])
+    expect(publishPageDraft).not.toHaveBeenCalled()
+  })
+
+  it('publishes the live snapshot again when the push went live, then restores the draft', async () => {
+    const { setHeadHtml, publishPageDraft } = stubPage(change.newHeadHtml)
+
+    expect(await hubspotCMSService.restoreHeadHtml('conn', '42', 'landing_page', change)).toEqual({ republished: true })
+    expect(setHeadHtml.mock.calls.map(call => call[3])).toEqual([change.previousLiveHeadHtml, change.previousHeadHtml])
+    expect(publishPageDraft).toHaveBeenCalledWith('conn', '42', 'landing_page', { mode: 'live' })
+    expect(setHeadHtml.mock.invocationCallOrder[0]).toBeLessThan(publishPageDraft.mock.invocationCallOrder[0])
+    expect(publishPageDraft.mock.invocationCallOrder[0]).toBeLessThan(setHeadHtml.mock.invocationCallOrder[1])
+  })
+
+  it('refuses to publish a draft with other unpublished edits', async () => {
+    const { setHeadHtml, publishPageDraft } = stubPage(change.newHeadHtml, true)
+
+    const rollback = hubspotCMSService.restoreHeadHtml('conn', '42', 'page', change)
+
+    await expect(rollback).rejects.toSatisfy(isUnpublishedDraftChangesError)
+    expect(setHeadHtml).not.toHaveBeenCalled()
+    expect(publishPageDraft).not.toHaveBeenCalled()
+  })
+
+  it('publishes other draft edits once confirmed', async () => {
+    const { publishPageDraft } = stubPage(change.newHeadHtml, true)
+
+    const result = await hubspotCMSService.restoreHeadHtml('conn', '42', 'page', change, { publishDraftChanges: true })
+
+    expect(result).toEqual({ republished: true })
+    expect(publishPageDraft).toHaveBeenCalledTimes(1)
+  })
+
+  it('does not check the draft while the push is not live', async () => {
+    stubPage(change.previousLiveHeadHtml, true)
+
+    expect(await hubspotCMSService.restoreHeadHtml('conn', '42', 'page', change)).toEqual({ republished: false })
+  })
+
+  it('falls back to the draft snapshot for jobs without a live snapshot', async () => {
+    const { setHeadHtml, publishPageDraft } = stubPage(change.newHeadHtml)
+
+    await hubspotCMSService.restoreHeadHtml('conn', '42', 'page', { ...change, previousLiveHeadHtml: undefined })
+
+    expect(setHeadHtml.mock.calls.map(call => call[3])).toEqual([change.previousHeadHtml])
+    expect(publishPageDraft).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('hasUnpublishedDraftChanges', () => {
+  const livePage = {
+    id: '42',
+    name: 'Pricing',
+    htmlTitle: 'Pricing',
+    headHtml: '<meta name="live">',
+    layoutSections: { main: { rows: [{ text: 'Plans start at $10' }] } },
+    state: 'PUBLISHED',
+    updatedAt: '2026-10-01T00:00:00Z'
+  }
+
+  function stubPages(draftPage: Record<string, unknown>) {
+    vi.spyOn(hubspotCMSService as any, 'getConnectionRegion').mockResolvedValue('na1')
+    vi.spyOn(hubspotCMSService as any, 'createAuthorizedClient').mockResolvedValue({
+      get: async (url: string) => ({ data: url.endsWith('/draft') ? draftPage : livePage })
+    })
+  }
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('ignores head HTML and save bookkeeping', async () => {
+    stubPages({ ...livePage, headHtml: `<meta name="live">\n${schemaHtml}`, state: 'DRAFT', updatedAt: '2026-10-19T00:00:00Z' })
+
+    expect(await hubspotCMSService.hasUnpublishedDraftChanges('conn', '42', 'page')).toBe(false)
+  })
+
+  it('reports edits to the page content or settings', async () => {
+    stubPages({ ...livePage, layoutSections: { main: { rows: [{ text: 'Plans start at $12' }] } } })
+    expect(await hubspotCMSService.hasUnpublishedDraftChanges('conn', '42', 'page')).toBe(true)
+
+    stubPages({ ...livePage, htmlTitle: 'Pricing and plans' })
+    expect(await hubspotCMSService.hasUnpublishedDraftChanges('conn', '42', 'page')).toBe(true)
+  })
+})
@@ -4,14 +4,122 @@
  */
 
 import axios, { AxiosInstance } from 'axios'
+import { isDeepStrictEqual } from 'util'
 import { hubspotOAuthService, getHubSpotApiBaseUrl } from './oauth.js'
 import { db } from '../database.js'
+import { calculateUrlSimilarity } from '../urlMatching.js'
 import type {
   HubSpotBlogPost,
   HubSpotPage,
-  HubSpotContentMatchResult
+  HubSpotContentMatchResult,
+  HubSpotContentType,
+  HubSpotPageContentType,
+  HubSpotPublishOptions,
+  HubSpotSchemaPublishState
 } from 'aeo-schema-generator-shared/types'
 
+const SCHEMA_MARKER = '<!-- SuperSchema -->'
+const SCHEMA_END_MARKER = '<!-- /SuperSchema -->'
+const SCHEMA_BLOCK_REGEX = /<!-- SuperSchema -->[\s\S]*?<!-- \/SuperSchema -->/
+
+/**
+ * Head HTML before and after a push
+ */
+export interface HubSpotHeadHtmlChange {
+  previousHeadHtml: string
+  newHeadHtml: string
+  /** Pages only: the published head HTML, which the push leaves alone until the draft goes live */
+  previousLiveHeadHtml?: string
+}
+
+/** Code on errors from restoreHeadHtml when publishing would also publish other draft edits */
+export const UNPUBLISHED_DRAFT_CHANGES_ERROR_CODE = 'ERR_HUBSPOT_UNPUBLISHED_DRAFT_CHANGES'
+
+/**
+ * Page fields that change on every save or publish, and the head HTML the rollback itself
+ * restores; none of them count as an editor's unpublished change
+ */
+const DRAFT_COMPARISON_IGNORED_FIELDS = [
+  'headHtml',
+  'state',
+  'currentState',
+  'currentlyPublished',
+  'publishDate',
+  'publishImmediately',
+  'createdAt',
+  'createdById',
+  'updatedAt',
+  'updatedById'
+]
+
+function unpublishedDraftChangesError(): NodeJS.ErrnoException {
+  const error: NodeJS.ErrnoException = new Error(
+    'The page draft has unpublished changes besides the schema. Rolling back would publish them too.'
+  )
+  error.code = UNPUBLISHED_DRAFT_CHANGES_ERROR_CODE
+  return error
+}
+
+/**
+ * Whether a rollback was refused because the draft has edits that are not live yet
+ */
+export function isUnpublishedDraftChangesError(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException | null)?.code === UNPUBLISHED_DRAFT_CHANGES_ERROR_CODE
+}
+
+/**
+ * Put schema into head HTML inside the SuperSchema markers.
+ * An existing SuperSchema block is replaced; otherwise the block is appended so the rest of
+ * the head HTML is preserved.
+ */
+export function buildSuperSchemaHeadHtml(existingHeadHtml: string, schemaHtml: string): string {
+  const newSchemaBlock = `${SCHEMA_MARKER}\n${schemaHtml}\n${SCHEMA_END_MARKER}`
+
+  // Check if schema already exists (avoid duplicates)
+  if (SCHEMA_BLOCK_REGEX.test(existingHeadHtml)) {
+    // Function replacement so "$" sequences in the schema are inserted literally
+    return existingHeadHtml.replace(SCHEMA_BLOCK_REGEX, () => newSchemaBlock)
+  }
+
+  return existingHeadHtml.trim()
+    ? `${existingHeadHtml}\n\n${newSchemaBlock}`
+    : newSchemaBlock
+}
+
+/**
+ * The SuperSchema block of some head HTML, or null when it has none
+ */
+export function extractSuperSchemaBlock(headHtml: string): string | null {
+  const match = headHtml.match(SCHEMA_BLOCK_REGEX)
+  return match ? match[0] : null
+}
+
+/**
+ * Compare the SuperSchema block of a page draft with the live version.
+ * Returns null when the draft has no SuperSchema markup.
+ */
+export function getSchemaPublishState(
+  draftHeadHtml: string,
+  liveHeadHtml: string
+): HubSpotSchemaPublishState | null {
+  const draftBlock = extractSuperSchemaBlock(draftHeadHtml)
+  if (!draftBlock) return null
+
+  const liveBlock = extractSuperSchemaBlock(liveHeadHtml)
+  if (!liveBlock) return 'draft_only'
+  return liveBlock === draftBlock ? 'published' : 'draft_differs'
+}
+
+/**
+ * Live and draft head HTML of a page, with its publishing state
+ */
+export interface HubSpotPageHeadHtmlVersions {
+  liveHeadHtml: string
+  draftHeadHtml: string
+  pageState?: string
+  publishDate?: string
+}
+
 interface HubSpotBlogPostV2 {
   id: string
   name: string
@@ -33,6 +141,8 @@ interface HubSpotPageV3 {
   state: string
   archived: boolean
   publicAccessRulesEnabled: boolean
+  currentState?: string
+  headHtml?: string
   publishDate?: string
   createdAt: string
   updatedAt: string
@@ -57,10 +167,18 @@ export class HubSpotCMSService {
     const baseUrl = getHubSpotApiBaseUrl(region)
     return {
       blogPostsV2: `${baseUrl}/content/api/v2/blog-posts`,
-      pagesV3: `${baseUrl}/cms/v3/pages/site-pages`
+      pagesV3: `${baseUrl}/cms/v3/pages/site-pages`,
+      landingPagesV3: `${baseUrl}/cms/v3/pages/landing-pages`
     }
   }
 
+  /**
+   * v3 endpoint for site pages or landing pages (same API shape)
+   */
+  private getPagesEndpoint(urls: ReturnType<HubSpotCMSService['buildApiUrls']>, contentType: HubSpotPageContentType): string {
+    return contentType === 'landing_page' ? urls.landingPagesV3 : urls.pagesV3
+  }
+
   /**
    * Create axios instance with authorization
    */
@@ -76,7 +194,12 @@ export class HubSpotCMSService {
       })
     } catch (error) {
       console.error('❌ [HubSpot CMS] Failed to create authorized client:', error)
-      throw new Error('Failed to authenticate with HubSpot. Please reconnect your account.')
+      const message = error instanceof Error ? error.message : ''
+      const authError = new Error('Failed to authenticate with HubSpot. Please reconnect your account.') as any
+      authError.syncFailureReason = message === 'HubSpot connection not found' || message === 'HubSpot connection is inactive'
+        ? 'connection_inactive'
+        : 'token_refresh_failed'
+      throw authError
     }
   }
 
@@ -221,17 +344,36 @@ export class HubSpotCMSService {
    * Fetches up to 500 pages using pagination (HubSpot limit is 100 per request)
    */
   async listPages(connectionId: string, maxPages: number = 500): Promise<HubSpotPage[]> {
+    return this.listV3Pages(connectionId, 'page', maxPages)
+  }
+
+  /**
+   * List all landing pages for connected portal
+   * Same API as site pages; portals without landing page access get a 403
+   */
+  async listLandingPages(connectionId: string, maxPages: number = 500): Promise<HubSpotPage[]> {
+    return this.listV3Pages(connectionId, 'landing_page', maxPages)
+  }
+
+  private async listV3Pages(
+    connectionId: string,
+    contentType: HubSpotPageContentType,
+    maxPages: number
+  ): Promise<HubSpotPage[]> {
+    const label = contentType === 'landing_page' ? 'landing pages' : 'pages'
+
     try {
-      console.log('📄 [HubSpot CMS] Fetching pages (up to', maxPages, ')')
+      console.log(`📄 [HubSpot CMS] Fetching ${label} (up to`, maxPages, ')')
 
       const client = await this.createAuthorizedClient(connectionId)
       const connection = await db.getHubSpotConnection(connectionId)
       const region = connection?.region || 'na1'
       const urls = this.buildApiUrls(region)
+      const endpoint = this.getPagesEndpoint(urls, contentType)
 
       // Warn if no associated domains (likely cause of 500 errors)
       if (!connection?.associatedDomains || connection.associatedDomains.length === 0) {
-        console.warn('⚠️ [HubSpot CMS] No associated domains configured for this connection. This may cause pages API calls to fail with 500 errors. Please ensure your HubSpot portal has a website domain configured.')
+        console.warn(`⚠️ [HubSpot CMS] No associated domains configured for this connection. This may cause ${label} API calls to fail with 500 errors. Please ensure your HubSpot portal has a website domain configured.`)
       }
 
       const allPages: HubSpotPage[] = []
@@ -239,9 +381,9 @@ export class HubSpotCMSService {
       const limit = 100 // HubSpot's maximum
 
       while (allPages.length < maxPages) {
-        console.log(`🔍 [HubSpot CMS] Fetching pages batch (offset: ${offset}, region: ${region})`)
+        console.log(`🔍 [HubSpot CMS] Fetching ${label} batch (offset: ${offset}, region: ${region})`)
         console.log(`🔍 [HubSpot CMS] Request details:`, {
-          url: urls.pagesV3,
+          url: endpoint,
           region,
           connectionId,
           offset,
@@ -257,7 +399,7 @@ export class HubSpotCMSService {
               results: HubSpotPageV3[]
               total?: number
             }>(
-              urls.pagesV3,
+              endpoint,
               {
                 params: {
                   limit,
@@ -284,8 +426,9 @@ export class HubSpotCMSService {
         const batch = response.data.results || []
         if (batch.length === 0) break // No more results
 
-        const pages: HubSpotPage[] = batch.map(page => ({
+        const pages: HubSpotPage[] = batch.map((page: HubSpotPageV3) => ({
           id: page.id,
+          contentType,
           name: page.name,
           slug: page.slug,
           url: page.url,
@@ -308,10 +451,10 @@ export class HubSpotCMSService {
       // Filter out DRAFT pages (includes archived pages)
       // Pages have state: PUBLISHED_OR_SCHEDULED or DRAFT
       const filteredPages = allPages.filter(page => page.state !== 'DRAFT')
-      console.log(`✅ [HubSpot CMS] Retrieved ${allPages.length} pages total (${filteredPages.length} published/scheduled)`)
+      console.log(`✅ [HubSpot CMS] Retrieved ${allPages.length} ${label} total (${filteredPages.length} published/scheduled)`)
       return filteredPages.slice(0, maxPages) // Trim to max
     } catch (error) {
-      console.error('❌ [HubSpot CMS] Failed to list pages:', error)
+      console.error(`❌ [HubSpot CMS] Failed to list ${label}:`, error)
       if (axios.isAxiosError(error)) {
         const status = error.response?.status
         const errorData = error.response?.data
@@ -323,19 +466,19 @@ export class HubSpotCMSService {
         })
 
         // Provide specific error messages based on status code
-        let errorMessage = 'Failed to retrieve pages'
+        let errorMessage = `Failed to retrieve ${label}`
 
         if (status === 401 || status === 403) {
           errorMessage = 'Authentication failed. Please reconnect your HubSpot account.'
         } else if (status === 404) {
-          errorMessage = 'Pages endpoint not found. This portal may not have pages enabled.'
+          errorMessage = `${contentType === 'landing_page' ? 'Landing pages' : 'Pages'} endpoint not found. This portal may not have ${label} enabled.`
         } else if (status === 429) {
           errorMessage = 'HubSpot API rate limit exceeded. Please try again later.'
         } else if (status === 500) {
           // Server errors often indicate missing configuration
           errorMessage = errorData?.message
-            ? `HubSpot server error: ${errorData.message}. This may indicate your portal doesn't have a website domain configured or pages are not enabled.`
-            : 'HubSpot server error while retrieving pages. Please ensure your HubSpot portal has pages enabled and a website domain configured in Settings > Website > Pages.'
+            ? `HubSpot server error: ${errorData.message}. This may indicate your portal doesn't have a website domain configured or ${label} are not enabled.`
+            : `HubSpot server error while retrieving ${label}. Please ensure your HubSpot portal has ${label} enabled and a website domain configured in Settings > Website > Pages.`
         } else if (errorData?.message) {
           errorMessage = `HubSpot API error: ${errorData.message}`
         }
@@ -352,373 +495,408 @@ export class HubSpotCMSService {
   }
 
   /**
-   * Push schema to blog post (v2 API with head_html)
-   * Preserves existing head HTML and only updates SuperSchema block
+   * Read the current head HTML of a blog post (v2 head_html) or page (v3 draft headHtml)
    */
-  async pushSchemaToPost(
+  async getHeadHtml(
     connectionId: string,
-    postId: string,
-    schemaHtml: string
+    contentId: string,
+    contentType: HubSpotContentType
+  ): Promise<string> {
+    const client = await this.createAuthorizedClient(connectionId)
+    const region = await this.getConnectionRegion(connectionId)
+    const urls = this.buildApiUrls(region)
+
+    console.log(`🔍 [HubSpot CMS] Fetching current ${contentType} ${contentId} head HTML (region: ${region})`)
+
+    if (contentType === 'blog_post') {
+      const response = await client.get<HubSpotBlogPostV2>(`${urls.blogPostsV2}/${contentId}`)
+      return response.data.head_html || ''
+    }
+
+    const endpoint = this.getPagesEndpoint(urls, contentType)
+    const response = await client.get<HubSpotPageV3>(`${endpoint}/${contentId}/draft`)
+    return response.data.headHtml || ''
+  }
+
+  /**
+   * Read both the live and the draft head HTML of a page or landing page
+   */
+  async getPageHeadHtmlVersions(
+    connectionId: string,
+    contentId: string,
+    contentType: HubSpotPageContentType
+  ): Promise<HubSpotPageHeadHtmlVersions> {
+    const client = await this.createAuthorizedClient(connectionId)
+    const region = await this.getConnectionRegion(connectionId)
+    const endpoint = this.getPagesEndpoint(this.buildApiUrls(region), contentType)
+
+    const [live, draft] = await Promise.all([
+      client.get<HubSpotPageV3>(`${endpoint}/${contentId}`),
+      client.get<HubSpotPageV3>(`${endpoint}/${contentId}/draft`)
+    ])
+
+    return {
+      liveHeadHtml: live.data.headHtml || '',
+      draftHeadHtml: draft.data.headHtml || '',
+      pageState: live.data.currentState || live.data.state,
+      publishDate: live.data.publishDate
+    }
+  }
+
+  /**
+   * Whether the draft of a page differs from the live page in anything besides its head HTML.
+   * Pushing the draft live would publish those edits as well.
+   */
+  async hasUnpublishedDraftChanges(
+    connectionId: string,
+    contentId: string,
+    contentType: HubSpotPageContentType
+  ): Promise<boolean> {
+    const client = await this.createAuthorizedClient(connectionId)
+    const region = await this.getConnectionRegion(connectionId)
+    const endpoint = this.getPagesEndpoint(this.buildApiUrls(region), contentType)
+
+    const [live, draft] = await Promise.all([
+      client.get<Record<string, unknown>>(`${endpoint}/${contentId}`),
+      client.get<Record<string, unknown>>(`${endpoint}/${contentId}/draft`)
+    ])
+
+    const comparable = (page: Record<string, unknown>) => Object.fromEntries(
+      Object.entries(page).filter(([field]) => !DRAFT_COMPARISON_IGNORED_FIELDS.includes(field))
+    )
+    return !isDeepStrictEqual(comparable(live.data), comparable(draft.data))
+  }
+
+  /**
+   * Replace the complete head HTML of a blog post or page
+   */
+  async setHeadHtml(
+    connectionId: string,
+    contentId: string,
+    contentType: HubSpotContentType,
+    headHtml: string
   ): Promise<void> {
-    try {
-      console.log(`🚀 [HubSpot CMS] Pushing schema to blog post ${postId}`)
+    const client = await this.createAuthorizedClient(connectionId)
+    const region = await this.getConnectionRegion(connectionId)
+    const urls = this.buildApiUrls(region)
 
+    console.log(`📝 [HubSpot CMS] Writing head HTML to ${contentType} ${contentId} (${headHtml.length} characters)`)
+
+    if (contentType === 'blog_post') {
+      await client.put(`${urls.blogPostsV2}/${contentId}`, { head_html: headHtml })
+    } else {
+      await client.patch(`${this.getPagesEndpoint(urls, contentType)}/${contentId}/draft`, { headHtml })
+    }
+  }
+
+  /**
+   * Publish the draft of a page or landing page, now or at a scheduled date.
+   * Pushes to pages only update the draft, so this is what makes the schema live.
+   * A 'draft' mode leaves the draft as it is.
+   */
+  async publishPageDraft(
+    connectionId: string,
+    contentId: string,
+    contentType: HubSpotPageContentType,
+    options: HubSpotPublishOptions
+  ): Promise<void> {
+    if (options.mode === 'draft') return
+
+    try {
       const client = await this.createAuthorizedClient(connectionId)
       const region = await this.getConnectionRegion(connectionId)
-      const urls = this.buildApiUrls(region)
+      const endpoint = this.getPagesEndpoint(this.buildApiUrls(region), contentType)
 
-      // Get current post to retrieve existing head_html
-      console.log(`🔍 [HubSpot CMS] Fetching current blog post ${postId} to preserve existing head HTML (region: ${region})`)
-      const getResponse = await client.get<HubSpotBlogPostV2>(
-        `${urls.blogPostsV2}/${postId}`
-      )
-
-      const existingHeadHtml = getResponse.data.head_html || ''
-      console.log(`📄 [HubSpot CMS] Existing head HTML length: ${existingHeadHtml.length} characters`)
-
-      // Build new head HTML with SuperSchema marker
-      const schemaMarker = '<!-- SuperSchema -->'
-      const schemaEndMarker = '<!-- /SuperSchema -->'
-      const newSchemaBlock = `${schemaMarker}\n${schemaHtml}\n${schemaEndMarker}`
-
-      let finalHeadHtml: string
-
-      // Check if schema already exists (avoid duplicates)
-      if (existingHeadHtml.includes(schemaMarker)) {
-        // Replace existing SuperSchema block
-        console.log('🔄 [HubSpot CMS] Replacing existing SuperSchema block in blog post')
-        const regex = /<!-- SuperSchema -->[\s\S]*?<!-- \/SuperSchema -->/
-        finalHeadHtml = existingHeadHtml.replace(regex, newSchemaBlock)
-
-        // Verify we didn't accidentally lose content
-        const preservedLength = finalHeadHtml.replace(regex, '').length
-        const originalLength = existingHeadHtml.replace(regex, '').length
-        if (preservedLength < originalLength) {
-          console.warn('⚠️  [HubSpot CMS] Warning: Some non-SuperSchema content may have been affected')
-        }
+      if (options.mode === 'live') {
+        console.log(`📢 [HubSpot CMS] Pushing ${contentType} ${contentId} draft live`)
+        await client.post(`${endpoint}/${contentId}/draft/push-live`)
       } else {
-        // Append new schema to existing content
-        console.log('➕ [HubSpot CMS] Appending SuperSchema to existing head HTML in blog post')
-        finalHeadHtml = existingHeadHtml.trim()
-          ? `${existingHeadHtml}\n\n${newSchemaBlock}`
-          : newSchemaBlock
+        if (!options.publishDate) {
+          throw new Error('A publish date is required to schedule a draft')
+        }
+        console.log(`🗓️ [HubSpot CMS] Scheduling ${contentType} ${contentId} for ${options.publishDate}`)
+        await client.post(`${endpoint}/schedule`, { id: contentId, publishDate: options.publishDate })
       }
 
-      console.log(`📝 [HubSpot CMS] Final head HTML length: ${finalHeadHtml.length} characters`)
+      console.log(`✅ [HubSpot CMS] Published ${contentType} ${contentId} draft (${options.mode})`)
+    } catch (error) {
+      console.error('❌ [HubSpot CMS] Failed to publish draft:', error)
+      if (!axios.isAxiosError(error)) throw error
 
-      // Update post with complete head HTML (preserving existing + new schema)
-      await client.put(`${urls.blogPostsV2}/${postId}`, {
-        head_html: finalHeadHtml
-      })
+      const publishError: any = new Error(error.response?.data?.message || 'Failed to publish draft')
+      publishError.hubspotStatus = error.response?.status
+      publishError.hubspotError = error.response?.data
+      throw publishError
+    }
+  }
+
+  /**
+   * Push schema to blog post (v2 API with head_html)
+   * Preserves existing head HTML and only updates SuperSchema block
+   */
+  async pushSchemaToPost(
+    connectionId: string,
+    postId: string,
+    schemaHtml: string
+  ): Promise<HubSpotHeadHtmlChange> {
+    try {
+      console.log(`🚀 [HubSpot CMS] Pushing schema to blog post ${postId}`)
+
+      const change = await this.pushSchemaToHead(connectionId, postId, 'blog_post', schemaHtml)
 
       console.log(`✅ [HubSpot CMS] Successfully pushed schema to blog post ${postId} (existing content preserved)`)
+      return change
     } catch (error) {
       console.error('❌ [HubSpot CMS] Failed to push schema to blog post:', error)
-      if (axios.isAxiosError(error)) {
-        throw new Error(
-          error.response?.data?.message || 'Failed to update blog post'
-        )
-      }
-      throw error
+      throw this.toPushError(error, 'blog_post')
     }
   }
 
   /**
-   * Push schema to page (v3 API)
-   * Preserves existing head HTML and only updates SuperSchema block
+   * Push schema to page or landing page draft (v3 API)
+   * Preserves existing head HTML and only updates SuperSchema block.
+   * The change stays in the draft until it is published (see publishPageDraft).
    * Note: This may not work on all HubSpot tiers
    */
   async pushSchemaToPage(
     connectionId: string,
     pageId: string,
-    schemaHtml: string
-  ): Promise<void> {
+    schemaHtml: string,
+    contentType: HubSpotPageContentType = 'page'
+  ): Promise<HubSpotHeadHtmlChange> {
     try {
-      console.log(`🚀 [HubSpot CMS] Pushing schema to page ${pageId}`)
-
-      const client = await this.createAuthorizedClient(connectionId)
-      const region = await this.getConnectionRegion(connectionId)
-      const urls = this.buildApiUrls(region)
-
-      // Get current page to retrieve existing head HTML
-      console.log(`🔍 [HubSpot CMS] Fetching current page ${pageId} to preserve existing head HTML (region: ${region})`)
-      const getResponse = await client.get<any>(
-        `${urls.pagesV3}/${pageId}/draft`
-      )
-
-      const existingHeadHtml = getResponse.data.headHtml || ''
-      console.log(`📄 [HubSpot CMS] Existing head HTML length: ${existingHeadHtml.length} characters`)
-
-      // Build new head HTML with SuperSchema marker
-      const schemaMarker = '<!-- SuperSchema -->'
-      const schemaEndMarker = '<!-- /SuperSchema -->'
-      const newSchemaBlock = `${schemaMarker}\n${schemaHtml}\n${schemaEndMarker}`
-
-      let finalHeadHtml: string
-
-      // Check if schema already exists (avoid duplicates)
-      if (existingHeadHtml.includes(schemaMarker)) {
-        // Replace existing SuperSchema block
-        console.log('🔄 [HubSpot CMS] Replacing existing SuperSchema block in page')
-        const regex = /<!-- SuperSchema -->[\s\S]*?<!-- \/SuperSchema -->/
-        finalHeadHtml = existingHeadHtml.replace(regex, newSchemaBlock)
-
-        // Verify we didn't accidentally lose content
-        const preservedLength = finalHeadHtml.replace(regex, '').length
-        const originalLength = existingHeadHtml.replace(regex, '').length
-        if (preservedLength < originalLength) {
-          console.warn('⚠️  [HubSpot CMS] Warning: Some non-SuperSchema content may have been affected')
-        }
-      } else {
-        // Append new schema to existing content
-        console.log('➕ [HubSpot CMS] Appending SuperSchema to existing head HTML in page')
-        finalHeadHtml = existingHeadHtml.trim()
-          ? `${existingHeadHtml}\n\n${newSchemaBlock}`
-          : newSchemaBlock
-      }
+      console.log(`🚀 [HubSpot CMS] Pushing schema to ${contentType} ${pageId}`)
 
-      console.log(`📝 [HubSpot CMS] Final head HTML length: ${finalHeadHtml.length} characters`)
+      const change = await this.pushSchemaToHead(connectionId, pageId, contentType, schemaHtml)
 
-      // Update page with complete head HTML (preserving existing + new schema)
-      await client.patch(`${urls.pagesV3}/${pageId}/draft`, {
-        headHtml: finalHeadHtml
-      })
-
-      console.log(`✅ [HubSpot CMS] Successfully pushed schema to page ${pageId} (existing content preserved)`)
+      console.log(`✅ [HubSpot CMS] Successfully pushed schema to ${contentType} ${pageId} draft (existing content preserved)`)
+      return change
     } catch (error) {
       console.error('❌ [HubSpot CMS] Failed to push schema to page:', error)
-      if (axios.isAxiosError(error)) {
-        const errorMessage =
-          error.response?.data?.message || 'Failed to update page'
-
-        // Provide helpful error if field doesn't exist
-        if (error.response?.status === 400) {
-          throw new Error(
-            `${errorMessage}. Note: Page head HTML updates may require specific HubSpot subscription tiers.`
-          )
-        }
-
-        throw new Error(errorMessage)
-      }
-      throw error
+      throw this.toPushError(error, contentType)
     }
   }
 
   /**
-   * Auto-match URL to HubSpot content
-   * Returns best matches with confidence scores
+   * Restore the head HTML snapshots taken before a push.
+   * Pushes to pages only change the draft, so when the pushed head HTML has gone live since
+   * (published with the push or later), the live snapshot is written to the draft and pushed
+   * live before the draft snapshot is put back.
+   * Pushing live publishes the whole draft, so when the draft has other unpublished edits the
+   * rollback is refused unless publishDraftChanges confirms they may go live too.
+   * @returns whether the page was published again
    */
-  async matchUrlToContent(
+  async restoreHeadHtml(
     connectionId: string,
-    targetUrl: string
-  ): Promise<HubSpotContentMatchResult[]> {
+    contentId: string,
+    contentType: HubSpotContentType,
+    change: HubSpotHeadHtmlChange,
+    options: { publishDraftChanges?: boolean } = {}
+  ): Promise<{ republished: boolean }> {
     try {
-      console.log(`🔍 [HubSpot CMS] Matching URL: ${targetUrl}`)
-
-      // Fetch both blog posts and pages
-      const [posts, pages] = await Promise.all([
-        this.listBlogPosts(connectionId),
-        this.listPages(connectionId)
-      ])
+      console.log(`⏪ [HubSpot CMS] Restoring previous head HTML of ${contentType} ${contentId}`)
 
-      const matches: HubSpotContentMatchResult[] = []
-      let exactMatchFound = false
+      let republished = false
+      if (contentType !== 'blog_post') {
+        const { liveHeadHtml } = await this.getPageHeadHtmlVersions(connectionId, contentId, contentType)
 
-      // Check blog posts
-      // Note: Pass full URLs with protocol to calculateUrlSimilarity
-      // The parseUrl function inside needs the protocol for proper parsing
-      for (const post of posts) {
-        const confidence = this.calculateUrlSimilarity(targetUrl, post.url)
+        if (liveHeadHtml === change.newHeadHtml) {
+          if (!options.publishDraftChanges && await this.hasUnpublishedDraftChanges(connectionId, contentId, contentType)) {
+            throw unpublishedDraftChangesError()
+          }
 
-        // Log high confidence or exact matches for debugging
-        if (confidence >= 0.95) {
-          console.log(`🎯 [HubSpot CMS] High confidence match (${(confidence * 100).toFixed(1)}%): ${post.url}`)
-          exactMatchFound = true
-        }
+          // Jobs from before live snapshots were kept only have the draft snapshot
+          const previousLiveHeadHtml = change.previousLiveHeadHtml ?? change.previousHeadHtml
+          await this.setHeadHtml(connectionId, contentId, contentType, previousLiveHeadHtml)
+          await this.publishPageDraft(connectionId, contentId, contentType, { mode: 'live' })
+          republished = true
 
-        if (confidence > 0.5) {
-          matches.push({
-            contentId: post.id,
-            contentType: 'blog_post',
-            title: post.name,
-            url: post.url,
-            confidence
-          })
+          if (previousLiveHeadHtml === change.previousHeadHtml) {
+            console.log(`✅ [HubSpot CMS] Restored and published head HTML of ${contentType} ${contentId}`)
+            return { republished }
+          }
         }
       }
 
-      // Check pages
-      for (const page of pages) {
-        const confidence = this.calculateUrlSimilarity(targetUrl, page.url)
+      await this.setHeadHtml(connectionId, contentId, contentType, change.previousHeadHtml)
+      console.log(`✅ [HubSpot CMS] Restored head HTML of ${contentType} ${contentId}${republished ? ' (published)' : ''}`)
+      return { republished }
+    } catch (error) {
+      console.error('❌ [HubSpot CMS] Failed to restore head HTML:', error)
+      throw this.toPushError(error, contentType)
+    }
+  }
 
-        // Log high confidence or exact matches for debugging
-        if (confidence >= 0.95) {
-          console.log(`🎯 [HubSpot CMS] High confidence match (${(confidence * 100).toFixed(1)}%): ${page.url}`)
-          exactMatchFound = true
-        }
+  /**
+   * Read the current head HTML, merge the SuperSchema block and write it back
+   */
+  private async pushSchemaToHead(
+    connectionId: string,
+    contentId: string,
+    contentType: HubSpotContentType,
+    schemaHtml: string
+  ): Promise<HubSpotHeadHtmlChange> {
+    let previousHeadHtml: string
+    let previousLiveHeadHtml: string | undefined
 
-        if (confidence > 0.5) {
-          matches.push({
-            contentId: page.id,
-            contentType: 'page',
-            title: page.name,
-            url: page.url,
-            confidence
-          })
-        }
-      }
+    // Pages also snapshot the live head HTML so a published push can be rolled back
+    if (contentType === 'blog_post') {
+      previousHeadHtml = await this.getHeadHtml(connectionId, contentId, contentType)
+    } else {
+      const versions = await this.getPageHeadHtmlVersions(connectionId, contentId, contentType)
+      previousHeadHtml = versions.draftHeadHtml
+      previousLiveHeadHtml = versions.liveHeadHtml
+    }
+    console.log(`📄 [HubSpot CMS] Existing head HTML length: ${previousHeadHtml.length} characters`)
 
-      // Sort by confidence descending
-      matches.sort((a, b) => b.confidence - a.confidence)
+    const newHeadHtml = buildSuperSchemaHeadHtml(previousHeadHtml, schemaHtml)
 
-      if (!exactMatchFound && matches.length > 0) {
-        console.log(`⚠️ [HubSpot CMS] No exact match found. Best match: ${matches[0].url} (${(matches[0].confidence * 100).toFixed(1)}%)`)
-      }
+    // Update with complete head HTML (preserving existing + new schema)
+    await this.setHeadHtml(connectionId, contentId, contentType, newHeadHtml)
 
-      console.log(`✅ [HubSpot CMS] Found ${matches.length} matches`)
-      return matches.slice(0, 5) // Return top 5 matches
-    } catch (error) {
-      console.error('❌ [HubSpot CMS] Failed to match URL:', error)
-      throw error
-    }
+    return { previousHeadHtml, newHeadHtml, previousLiveHeadHtml }
   }
 
   /**
-   * Parse URL into components for intelligent matching
+   * Turn an axios error into a readable error, keeping the status code so the sync retry
+   * worker can tell transient failures from permanent ones
    */
-  private parseUrl(url: string): {
-    protocol: string
-    subdomain: string
-    domain: string
-    path: string
-    fullDomain: string
-  } {
-    try {
-      const urlObj = new URL(url)
-      const hostname = urlObj.hostname.toLowerCase()
-      const path = (urlObj.pathname + urlObj.search).replace(/\/$/, '') || '/'
+  private toPushError(error: unknown, contentType: HubSpotContentType): unknown {
+    if (!axios.isAxiosError(error)) return error
 
-      // Split hostname into parts
-      const parts = hostname.split('.')
+    const status = error.response?.status
+    let pushError: any
 
-      // Handle different domain structures
-      let subdomain = ''
-      let domain = hostname
-
-      if (parts.length >= 2) {
-        // Extract base domain (last 2 parts for .com, .org, etc.)
-        domain = parts.slice(-2).join('.')
-
-        // Extract subdomain if exists
-        if (parts.length > 2) {
-          subdomain = parts.slice(0, -2).join('.')
-        }
-      }
+    if (contentType === 'blog_post') {
+      pushError = new Error(error.response?.data?.message || 'Failed to update blog post')
+    } else {
+      const errorMessage = error.response?.data?.message || 'Failed to update page'
 
-      return {
-        protocol: urlObj.protocol,
-        subdomain,
-        domain,
-        path,
-        fullDomain: hostname
-      }
-    } catch (error) {
-      // Fallback for invalid URLs
-      return {
-        protocol: '',
-        subdomain: '',
-        domain: url.toLowerCase(),
-        path: '/',
-        fullDomain: url.toLowerCase()
+      // Provide helpful error if field doesn't exist
+      if (status === 400) {
+        pushError = new Error(
+          `${errorMessage}. Note: Page head HTML updates may require specific HubSpot subscription tiers.`
+        )
+        pushError.syncFailureReason = 'tier_limited'
+      } else {
+        pushError = new Error(errorMessage)
       }
     }
+
+    // Not statusCode: the error handler would answer our own request with HubSpot's status
+    pushError.hubspotStatus = status
+    if (!error.response) pushError.syncFailureReason = 'network_error'
+    pushError.hubspotError = error.response?.data
+    return pushError
   }
 
   /**
-   * Normalize URL for comparison (remove protocol, trailing slash)
-   * Note: Preserves subdomain for accurate matching
+   * Auto-match URL to HubSpot content
+   * Returns best matches with confidence scores
    */
-  private normalizeUrl(url: string): string {
-    return url
-      .toLowerCase()
-      .replace(/^https?:\/\//, '')
-      .replace(/\/$/, '')
+  async matchUrlToContent(
+    connectionId: string,
+    targetUrl: string
+  ): Promise<HubSpotContentMatchResult[]> {
+    const matches = await this.matchUrlsToContent(connectionId, [targetUrl])
+    return matches.get(targetUrl) || []
   }
 
   /**
-   * Calculate similarity between two URLs with domain-aware scoring (0-1)
+   * Auto-match several URLs, listing the portal's posts and pages only once
+   * Returns the top 5 matches per URL
    */
-  private calculateUrlSimilarity(url1: string, url2: string): number {
-    const parsed1 = this.parseUrl(url1)
-    const parsed2 = this.parseUrl(url2)
+  async matchUrlsToContent(
+    connectionId: string,
+    targetUrls: string[]
+  ): Promise<Map<string, HubSpotContentMatchResult[]>> {
+    try {
+      // Fetch blog posts, pages and landing pages
+      // Landing pages are optional: not every portal has access to them
+      const [posts, sitePages, landingPages] = await Promise.all([
+        this.listBlogPosts(connectionId),
+        this.listPages(connectionId),
+        this.listLandingPages(connectionId).catch(error => {
+          console.warn('⚠️ [HubSpot CMS] Landing pages unavailable, matching posts and site pages only:', error.message)
+          return [] as HubSpotPage[]
+        })
+      ])
+      const pages = [...sitePages, ...landingPages]
 
-    // Different base domains = no match
-    if (parsed1.domain !== parsed2.domain) {
-      return 0.0
+      const results = new Map<string, HubSpotContentMatchResult[]>()
+      for (const targetUrl of targetUrls) {
+        results.set(targetUrl, this.rankContentMatches(targetUrl, posts, pages))
+      }
+      return results
+    } catch (error) {
+      console.error('❌ [HubSpot CMS] Failed to match URL:', error)
+      throw error
     }
+  }
 
-    // Exact full URL match
-    if (parsed1.fullDomain === parsed2.fullDomain && parsed1.path === parsed2.path) {
-      return 1.0
-    }
+  private rankContentMatches(
+    targetUrl: string,
+    posts: HubSpotBlogPost[],
+    pages: HubSpotPage[]
+  ): HubSpotContentMatchResult[] {
+    console.log(`🔍 [HubSpot CMS] Matching URL: ${targetUrl}`)
+
+    const matches: HubSpotContentMatchResult[] = []
+    let exactMatchFound = false
+
+    // Check blog posts
+    // Note: Pass full URLs with protocol to calculateUrlSimilarity
+    // The parseUrl function inside needs the protocol for proper parsing
+    for (const post of posts) {
+      const confidence = calculateUrlSimilarity(targetUrl, post.url)
+
+      // Log high confidence or exact matches for debugging
+      if (confidence >= 0.95) {
+        console.log(`🎯 [HubSpot CMS] High confidence match (${(confidence * 100).toFixed(1)}%): ${post.url}`)
+        exactMatchFound = true
+      }
 
-    // Calculate subdomain similarity
-    let subdomainScore = 0
-
-    if (parsed1.subdomain === parsed2.subdomain) {
-      // Exact subdomain match (including both empty = bare domain)
-      subdomainScore = 1.0
-    } else if (
-      (parsed1.subdomain === 'www' && parsed2.subdomain === '') ||
-      (parsed1.subdomain === '' && parsed2.subdomain === 'www')
-    ) {
-      // www vs non-www are considered close variants
-      subdomainScore = 0.85
-    } else {
-      // Different subdomains (e.g., www vs blog)
-      subdomainScore = 0.3
+      if (confidence > 0.5) {
+        matches.push({
+          contentId: post.id,
+          contentType: 'blog_post',
+          title: post.name,
+          url: post.url,
+          confidence
+        })
+      }
     }
 
-    // Calculate path similarity
-    let pathScore = 0
+    // Check pages and landing pages
+    for (const page of pages) {
+      const confidence = calculateUrlSimilarity(targetUrl, page.url)
 
-    if (parsed1.path === parsed2.path) {
-      // Exact path match - only this gets a high score
-      pathScore = 1.0
-    } else {
-      // For non-exact matches, use strict segment-based comparison
-      // This prevents child paths (e.g., /ditto/page) from matching parent paths (e.g., /ditto)
-      const segments1 = parsed1.path.split('/').filter(s => s)
-      const segments2 = parsed2.path.split('/').filter(s => s)
-
-      // Only award points if there are matching initial segments
-      // AND the paths are not parent/child relationships
-      let matchingSegments = 0
-      const minSegments = Math.min(segments1.length, segments2.length)
-
-      for (let i = 0; i < minSegments; i++) {
-        if (segments1[i] === segments2[i]) {
-          matchingSegments++
-        } else {
-          break // Stop at first non-matching segment
-        }
+      // Log high confidence or exact matches for debugging
+      if (confidence >= 0.95) {
+        console.log(`🎯 [HubSpot CMS] High confidence match (${(confidence * 100).toFixed(1)}%): ${page.url}`)
+        exactMatchFound = true
       }
 
-      // Award minimal score only if some segments match
-      // Reduced from 0.4 base to 0.1 to heavily penalize non-exact matches
-      if (matchingSegments > 0) {
-        const maxSegments = Math.max(segments1.length, segments2.length)
-        pathScore = 0.1 + (0.15 * (matchingSegments / maxSegments))
-      } else {
-        pathScore = 0.0
+      if (confidence > 0.5) {
+        matches.push({
+          contentId: page.id,
+          contentType: page.contentType || 'page',
+          title: page.name,
+          url: page.url,
+          confidence
+        })
       }
     }
 
-    // Combine scores with weighting
-    // Subdomain is very important (60%), path is important (40%)
-    const finalScore = (subdomainScore * 0.6) + (pathScore * 0.4)
+    // Sort by confidence descending
+    matches.sort((a, b) => b.confidence - a.confidence)
+
+    if (!exactMatchFound && matches.length > 0) {
+      console.log(`⚠️ [HubSpot CMS] No exact match found. Best match: ${matches[0].url} (${(matches[0].confidence * 100).toFixed(1)}%)`)
+    }
 
-    return Math.min(finalScore, 1.0)
+    console.log(`✅ [HubSpot CMS] Found ${matches.length} matches`)
+    return matches.slice(0, 5) // Return top 5 matches
   }
 }
 
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+// The database service creates its Supabase client at import time
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: vi.fn(() => ({}))
+}))
+
+// Pushed events are not dispatched
+vi.mock('../webhooks/delivery.js', () => ({ emitWebhookEvent: vi.fn() }))
+
+import { classifySyncError, getNextAttemptAt, hubspotSyncRetryWorker } from './syncRetry.js'
+import { hubspotCMSService } from './cms.js'
+import { db } from '../database.js'
+
+function hubspotError(status: number | undefined, syncFailureReason?: string) {
+  return Object.assign(new Error('HubSpot error'), { hubspotStatus: status, syncFailureReason })
+}
+
+describe('classifySyncError', () => {
+  it('retries rate limits, server errors and token refresh failures', () => {
+    expect(classifySyncError(hubspotError(429))).toEqual({ reason: 'rate_limited', retryable: true })
+    expect(classifySyncError(hubspotError(503))).toEqual({ reason: 'server_error', retryable: true })
+    expect(classifySyncError(hubspotError(undefined, 'network_error'))).toEqual({ reason: 'network_error', retryable: true })
+    expect(classifySyncError(hubspotError(undefined, 'token_refresh_failed')))
+      .toEqual({ reason: 'token_refresh_failed', retryable: true })
+  })
+
+  it('does not retry permanent failures', () => {
+    expect(classifySyncError(hubspotError(400, 'tier_limited'))).toEqual({ reason: 'tier_limited', retryable: false })
+    expect(classifySyncError(hubspotError(404))).toEqual({ reason: 'not_found', retryable: false })
+    expect(classifySyncError(hubspotError(403))).toEqual({ reason: 'unauthorized', retryable: false })
+    expect(classifySyncError(hubspotError(422))).toEqual({ reason: 'invalid_request', retryable: false })
+    expect(classifySyncError(new Error('Something else'))).toEqual({ reason: 'unknown', retryable: false })
+  })
+})
+
+describe('getNextAttemptAt', () => {
+  it('doubles the delay on every retry up to an hour', () => {
+    const now = new Date('2026-10-19T12:00:00Z')
+    const delayMinutes = (retryCount: number) => (getNextAttemptAt(retryCount, now).getTime() - now.getTime()) / 60000
+
+    expect([0, 1, 2, 3, 4].map(delayMinutes)).toEqual([1, 2, 4, 8, 16])
+    expect(delayMinutes(10)).toBe(60)
+  })
+})
+
+describe('hubspotSyncRetryWorker.retryDueJobs', () => {
+  const job = {
+    id: 'job_old',
+    userId: 'user_1',
+    connectionId: 'conn_1',
+    hubspotContentId: 'post_1',
+    hubspotContentType: 'blog_post' as const,
+    status: 'pending' as const,
+    retryCount: 2,
+    schemaHtml: '<script type="application/ld+json">{"@type":"Article"}</script>',
+    createdAt: '2026-10-19T12:00:00.000Z'
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(db, 'requeueStaleHubSpotSyncClaims').mockResolvedValue(0)
+    vi.spyOn(db, 'getHubSpotSyncJobsDueForRetry').mockResolvedValue([job.id])
+    vi.spyOn(db, 'claimHubSpotSyncJobForRetry').mockResolvedValue(job)
+  })
+
+  it('requeues retries claimed more than 15 minutes ago before picking due jobs', async () => {
+    const requeue = vi.spyOn(db, 'requeueStaleHubSpotSyncClaims').mockResolvedValue(2)
+    vi.spyOn(db, 'getHubSpotSyncJobsDueForRetry').mockResolvedValue([])
+    const before = Date.now()
+
+    const stats = await hubspotSyncRetryWorker.retryDueJobs()
+
+    const [claimedBefore, maxRetries] = requeue.mock.calls[0]
+    expect(before - claimedBefore.getTime()).toBeGreaterThanOrEqual(15 * 60 * 1000 - 1000)
+    expect(before - claimedBefore.getTime()).toBeLessThanOrEqual(15 * 60 * 1000 + 1000)
+    expect(maxRetries).toBe(5)
+    expect(stats).toMatchObject({ requeuedCount: 2, retriedCount: 0 })
+  })
+
+  it('drops a retry when a newer push or rollback of the same content exists', async () => {
+    vi.spyOn(db, 'isHubSpotSyncJobSuperseded').mockResolvedValue(true)
+    const recordFailure = vi.spyOn(db, 'updateHubSpotSyncJobFailure').mockResolvedValue(undefined)
+    const push = vi.spyOn(hubspotCMSService, 'pushSchemaToPost')
+
+    const stats = await hubspotSyncRetryWorker.retryDueJobs()
+
+    expect(push).not.toHaveBeenCalled()
+    expect(stats).toMatchObject({ retriedCount: 0, supersededCount: 1 })
+    expect(recordFailure).toHaveBeenCalledWith('job_old', expect.any(String), {
+      failureReason: 'superseded',
+      isRetryable: false,
+      nextAttemptAt: null
+    })
+  })
+
+  it('pushes the stored schema when nothing newer exists', async () => {
+    vi.spyOn(db, 'isHubSpotSyncJobSuperseded').mockResolvedValue(false)
+    const change = { previousHeadHtml: '', newHeadHtml: job.schemaHtml }
+    const push = vi.spyOn(hubspotCMSService, 'pushSchemaToPost').mockResolvedValue(change)
+    const recordSuccess = vi.spyOn(db, 'updateHubSpotSyncJobSuccess').mockResolvedValue(undefined)
+
+    const stats = await hubspotSyncRetryWorker.retryDueJobs()
+
+    expect(push).toHaveBeenCalledWith('conn_1', 'post_1', job.schemaHtml)
+    expect(recordSuccess).toHaveBeenCalledWith('job_old', change)
+    expect(stats).toMatchObject({ retriedCount: 1, succeededCount: 1, supersededCount: 0 })
+  })
+})
@@ -0,0 +1,235 @@
+/**
+ * HubSpot Sync Retry Worker
+ * Retries failed schema pushes with exponential backoff
+ *
+ * Transient failures (rate limits, HubSpot 5xx, timeouts, token refresh failures) put the
+ * sync job in 'retrying' with a next attempt time. Permanent failures (tier-limited page
+ * head HTML, deleted content, revoked access) are marked non-retryable and stay 'failed'.
+ * The scheduled run picks up due jobs; each job is claimed with a conditional update so
+ * several server instances can share the queue; a claim left unfinished by a crash or restart
+ * is requeued after STALE_CLAIM_MS. A retry re-sends the schema captured when the
+ * job first failed, so it is dropped as 'superseded' once a newer push or rollback of the same
+ * content exists.
+ */
+
+import type {
+  HubSpotContentType,
+  HubSpotPublishOptions,
+  HubSpotSyncFailureReason
+} from 'aeo-schema-generator-shared/types'
+import { hubspotCMSService, type HubSpotHeadHtmlChange } from './cms.js'
+import { db, HUBSPOT_SYNC_SUPERSEDED_MESSAGE } from '../database.js'
+import { emitWebhookEvent } from '../webhooks/delivery.js'
+
+/** Attempts after the first push before a job is given up on */
+export const MAX_SYNC_RETRIES = 5
+
+/** Delay before the first retry - doubles on every attempt (1, 2, 4, 8, 16 minutes) */
+const RETRY_BASE_DELAY_MS = 60 * 1000
+
+/** Upper bound for a single backoff delay */
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000
+
+/** Max jobs retried per scheduled run (pushes are sequential to respect portal rate limits) */
+const JOBS_PER_RUN = 20
+
+/** A claimed job still 'pending' after this long was interrupted (crash or restart mid-push) */
+const STALE_CLAIM_MS = 15 * 60 * 1000
+
+const RETRYABLE_REASONS: HubSpotSyncFailureReason[] = [
+  'rate_limited',
+  'server_error',
+  'network_error',
+  'token_refresh_failed'
+]
+
+export interface SyncFailureClassification {
+  reason: HubSpotSyncFailureReason
+  retryable: boolean
+}
+
+/**
+ * Decide why a push failed and whether trying again can help
+ */
+export function classifySyncError(error: unknown): SyncFailureClassification {
+  const err = (error || {}) as { syncFailureReason?: HubSpotSyncFailureReason; hubspotStatus?: number }
+
+  let reason: HubSpotSyncFailureReason = 'unknown'
+  if (err.syncFailureReason) {
+    reason = err.syncFailureReason
+  } else if (typeof err.hubspotStatus === 'number') {
+    const status = err.hubspotStatus
+    if (status === 429) reason = 'rate_limited'
+    else if (status >= 500) reason = 'server_error'
+    else if (status === 401 || status === 403) reason = 'unauthorized'
+    else if (status === 404) reason = 'not_found'
+    else if (status >= 400) reason = 'invalid_request'
+  }
+
+  return { reason, retryable: RETRYABLE_REASONS.includes(reason) }
+}
+
+/**
+ * When the next attempt should run after `retryCount` retries have already been made
+ */
+export function getNextAttemptAt(retryCount: number, now: Date = new Date()): Date {
+  const delay = Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, retryCount), RETRY_MAX_DELAY_MS)
+  return new Date(now.getTime() + delay)
+}
+
+/**
+ * Record a failed push attempt, scheduling a retry when the error is transient
+ * @param retryCount - retries made so far (0 when the first push failed)
+ */
+export async function recordSyncFailure(syncJobId: string, retryCount: number, error: unknown): Promise<void> {
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+  const { reason, retryable } = classifySyncError(error)
+  const canRetry = retryable && retryCount < MAX_SYNC_RETRIES
+
+  await db.updateHubSpotSyncJobFailure(syncJobId, errorMessage, {
+    failureReason: reason,
+    isRetryable: retryable,
+    nextAttemptAt: canRetry ? getNextAttemptAt(retryCount) : null
+  })
+
+  if (canRetry) {
+    console.log(`🔁 [HubSpot Sync Retry] Job ${syncJobId} failed (${reason}), retry ${retryCount + 1}/${MAX_SYNC_RETRIES} scheduled`)
+  }
+}
+
+/**
+ * Push schema HTML to a post or page
+ */
+export function pushSchemaToContent(
+  connectionId: string,
+  contentId: string,
+  contentType: HubSpotContentType,
+  schemaHtml: string
+): Promise<HubSpotHeadHtmlChange> {
+  return contentType === 'blog_post'
+    ? hubspotCMSService.pushSchemaToPost(connectionId, contentId, schemaHtml)
+    : hubspotCMSService.pushSchemaToPage(connectionId, contentId, schemaHtml, contentType)
+}
+
+/**
+ * Publish a page draft after a successful push when the push asked for it
+ * Blog posts are updated live already, so there is nothing to publish.
+ * @returns true when the draft was pushed live or scheduled
+ */
+export async function publishPushedDraft(
+  syncJobId: string,
+  connectionId: string,
+  contentId: string,
+  contentType: HubSpotContentType,
+  publish?: HubSpotPublishOptions
+): Promise<boolean> {
+  if (contentType === 'blog_post' || !publish || publish.mode === 'draft') {
+    return false
+  }
+
+  await hubspotCMSService.publishPageDraft(connectionId, contentId, contentType, publish)
+  await db.markHubSpotSyncJobPublished(syncJobId)
+  return true
+}
+
+export class HubSpotSyncRetryWorker {
+  private isRunning = false
+
+  /**
+   * Requeue interrupted retries, then retry every sync job whose next attempt is due
+   */
+  async retryDueJobs(): Promise<{
+    requeuedCount: number
+    retriedCount: number
+    succeededCount: number
+    failedCount: number
+    supersededCount: number
+  }> {
+    const stats = { requeuedCount: 0, retriedCount: 0, succeededCount: 0, failedCount: 0, supersededCount: 0 }
+
+    // A slow run must not overlap with the next scheduled one
+    if (this.isRunning) {
+      return stats
+    }
+
+    this.isRunning = true
+    try {
+      stats.requeuedCount = await db.requeueStaleHubSpotSyncClaims(new Date(Date.now() - STALE_CLAIM_MS), MAX_SYNC_RETRIES)
+
+      const dueJobIds = await db.getHubSpotSyncJobsDueForRetry(new Date(), JOBS_PER_RUN)
+
+      for (const syncJobId of dueJobIds) {
+        const job = await db.claimHubSpotSyncJobForRetry(syncJobId)
+        if (!job) {
+          continue // Claimed by another instance
+        }
+
+        // Pushing now would overwrite a newer push or a rollback with stale schema
+        if (await db.isHubSpotSyncJobSuperseded(job)) {
+          await db.updateHubSpotSyncJobFailure(job.id, HUBSPOT_SYNC_SUPERSEDED_MESSAGE, {
+            failureReason: 'superseded',
+            isRetryable: false,
+            nextAttemptAt: null
+          })
+          stats.supersededCount++
+          console.log(`⏭️ [HubSpot Sync Retry] Job ${job.id} superseded by a newer push or rollback, not retried`)
+          continue
+        }
+
+        stats.retriedCount++
+        console.log(`🔁 [HubSpot Sync Retry] Retrying job ${job.id} (attempt ${job.retryCount}/${MAX_SYNC_RETRIES})`)
+
+        try {
+          if (!job.schemaHtml) {
+            throw new Error('Sync job has no schema to push')
+          }
+
+          const change = await pushSchemaToContent(
+            job.connectionId,
+            job.hubspotContentId,
+            job.hubspotContentType,
+            job.schemaHtml
+          )
+          await db.updateHubSpotSyncJobSuccess(job.id, change)
+          stats.succeededCount++
+
+          emitWebhookEvent({ userId: job.userId }, 'schema.pushed', {
+            cms: 'hubspot',
+            connectionId: job.connectionId,
+            syncJobId: job.id,
+            contentId: job.hubspotContentId,
+            contentType: job.hubspotContentType,
+            contentTitle: job.hubspotContentTitle,
+            contentUrl: job.hubspotContentUrl,
+            schemaGenerationId: job.schemaGenerationId,
+            userId: job.userId
+          })
+        } catch (error) {
+          console.error(`❌ [HubSpot Sync Retry] Job ${job.id} failed again:`, error)
+          await recordSyncFailure(job.id, job.retryCount, error)
+          stats.failedCount++
+          continue
+        }
+
+        // The push itself succeeded - a publish failure leaves the schema in the draft
+        if (job.publishMode) {
+          try {
+            await publishPushedDraft(job.id, job.connectionId, job.hubspotContentId, job.hubspotContentType, {
+              mode: job.publishMode,
+              publishDate: job.publishDate
+            })
+          } catch (error) {
+            console.error(`❌ [HubSpot Sync Retry] Job ${job.id} pushed but publishing the draft failed:`, error)
+          }
+        }
+      }
+    } finally {
+      this.isRunning = false
+    }
+
+    return stats
+  }
+}
+
+// Export singleton instance
+export const hubspotSyncRetryWorker = new HubSpotSyncRetryWorker()
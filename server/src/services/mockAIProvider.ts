@@ -0,0 +1,146 @@
+import type { JsonLdSchema } from 'aeo-schema-generator-shared/types'
+import { openaiService, type ContentAnalysis, type SchemaGenerationOptions } from './openai.js'
+import type { SchemaAIProvider } from './aiProviderRegistry.js'
+
+/**
+ * Mock AI Provider
+ *
+ * Deterministic, network-free schema generation. Select it with AI_MODEL_PROVIDER=mock to run
+ * the full generation pipeline offline (tests, local development without API keys).
+ *
+ * Schemas are built only from the scraped content analysis, then cleaned and enhanced
+ * exactly like real provider output, so everything downstream behaves the same.
+ */
+
+type MockResponder = (
+  analysis: ContentAnalysis,
+  options: SchemaGenerationOptions
+) => JsonLdSchema[] | Promise<JsonLdSchema[]>
+
+const ARTICLE_TYPES = ['Article', 'BlogPosting', 'NewsArticle']
+
+class MockAIProvider implements SchemaAIProvider {
+  readonly name = 'mock'
+  readonly modelId = 'mock'
+
+  /** Every request received, in order - lets tests assert on what the pipeline sent */
+  readonly calls: Array<{ analysis: ContentAnalysis; options: SchemaGenerationOptions }> = []
+
+  private responder: MockResponder | null = null
+  private failure: Error | null = null
+
+  isAvailable(): boolean {
+    return true
+  }
+
+  isCircuitOpen(): boolean {
+    return false
+  }
+
+  /**
+   * Replace the built-in schema builder with canned output
+   */
+  respondWith(responder: MockResponder): void {
+    this.responder = responder
+  }
+
+  /**
+   * Make every request fail with this error (e.g. `Object.assign(new Error('Overloaded'), { status: 529 })`)
+   */
+  failWith(error: Error): void {
+    this.failure = error
+  }
+
+  /**
+   * Back to default behavior with an empty call log
+   */
+  reset(): void {
+    this.responder = null
+    this.failure = null
+    this.calls.length = 0
+  }
+
+  async generateSchemas(
+    analysis: ContentAnalysis,
+    options: SchemaGenerationOptions = {}
+  ): Promise<JsonLdSchema[]> {
+    this.calls.push({ analysis, options })
+
+    if (this.failure) {
+      throw this.failure
+    }
+
+    const schemas = this.responder
+      ? await this.responder(analysis, options)
+      : this.buildSchemas(analysis, options)
+
+    console.log(`🧪 [Mock AI] Generated ${schemas.length} schemas: ${schemas.map(schema => schema['@type']).join(', ')}`)
+
+    // Same post-processing as the real providers
+    const cleanedSchemas = schemas.map(schema => openaiService.cleanSchemaProperties(schema))
+    return openaiService.validateAndEnhanceSchemas(cleanedSchemas, analysis)
+  }
+
+  /**
+   * Requested types, or Article for dated pages and WebPage otherwise
+   */
+  private buildSchemas(analysis: ContentAnalysis, options: SchemaGenerationOptions): JsonLdSchema[] {
+    const types = options.requestedSchemaTypes && options.requestedSchemaTypes.length > 0
+      ? options.requestedSchemaTypes
+      : [analysis.metadata?.publishDate ? 'Article' : 'WebPage']
+
+    return types.map(type => this.buildSchema(type, analysis, options))
+  }
+
+  private buildSchema(type: string, analysis: ContentAnalysis, options: SchemaGenerationOptions): JsonLdSchema {
+    const metadata = analysis.metadata
+    const schema: JsonLdSchema = {
+      '@context': 'https://schema.org',
+      '@type': type
+    }
+
+    if (analysis.description) {
+      schema.description = analysis.description
+    }
+
+    if (ARTICLE_TYPES.includes(type)) {
+      schema.headline = analysis.title || analysis.url
+      schema.mainEntityOfPage = metadata?.canonicalUrl || analysis.url
+
+      if (metadata?.publishDate) schema.datePublished = metadata.publishDate
+      if (metadata?.modifiedDate) schema.dateModified = metadata.modifiedDate
+      if (metadata?.imageInfo?.featuredImage) schema.image = metadata.imageInfo.featuredImage
+
+      if (metadata?.author) {
+        schema.author = typeof metadata.author === 'string'
+          ? { '@type': 'Person', name: metadata.author }
+          : { '@type': 'Person', name: metadata.author.name, url: metadata.author.url }
+      }
+
+      if (options.publisherData) {
+        schema.publisher = options.publisherData
+      }
+
+      return schema
+    }
+
+    if (type === 'FAQPage') {
+      schema.mainEntity = (metadata?.faqContent || []).map(faq => ({
+        '@type': 'Question',
+        name: faq.question,
+        acceptedAnswer: {
+          '@type': 'Answer',
+          text: faq.answer
+        }
+      }))
+      return schema
+    }
+
+    schema.name = analysis.title || analysis.url
+    schema.url = metadata?.canonicalUrl || analysis.url
+    return schema
+  }
+}
+
+export const mockAIProvider = new MockAIProvider()
+export default mockAIProvider
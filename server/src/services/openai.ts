@@ -1,7 +1,8 @@
 import OpenAI from 'openai'
-import type { JsonLdSchema } from 'aeo-schema-generator-shared/types'
+import type { JsonLdSchema, SchemaOutputMode } from 'aeo-schema-generator-shared/types'
 import { validateRefinedSchema } from './schemaValidator.js'
 import { sanitizeSchemaProperties } from './schemaPropertyWhitelist.js'
+import type { SchemaAIProvider } from './aiProviderRegistry.js'
 
 // Enhanced interfaces for comprehensive AEO metadata
 export interface AuthorInfo {
@@ -162,6 +163,9 @@ export interface SchemaGenerationOptions {
   requestedSchemaTypes?: string[]
   // Publisher data from user's organization (auto-injected from organization management)
   publisherData?: Record<string, any>
+  // 'graph' renders the script tags as one @graph with stable @ids (see utils/schemaGraph.ts);
+  // the stored schemas stay flat
+  outputMode?: SchemaOutputMode
 }
 
 // Schema property requirements for AEO optimization
@@ -235,10 +239,24 @@ export const SCHEMA_PROPERTY_TEMPLATES: Record<string, SchemaPropertyRequirement
   }
 }
 
-class OpenAIService {
+class OpenAIService implements SchemaAIProvider {
+  readonly name = 'openai'
+
   private client: OpenAI | null = null
   private clientInitialized = false
 
+  get modelId(): string {
+    return process.env.OPENAI_MODEL || 'gpt-4o'
+  }
+
+  isAvailable(): boolean {
+    return !!process.env.OPENAI_API_KEY
+  }
+
+  isCircuitOpen(): boolean {
+    return false
+  }
+
   private initializeClient(): OpenAI | null {
     if (this.clientInitialized) {
       return this.client
@@ -290,7 +308,7 @@ class OpenAIService {
       : this.getExpertSystemPrompt()
 
     try {
-      const model = process.env.OPENAI_MODEL || 'gpt-4o'
+      const model = this.modelId
 
       const response = await client.chat.completions.create({
         model,
@@ -358,7 +376,10 @@ class OpenAIService {
 
     } catch (error) {
       console.error('OpenAI schema generation error:', error)
-      throw new Error(`Failed to generate schemas: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      const wrappedError = new Error(`Failed to generate schemas: ${error instanceof Error ? error.message : 'Unknown error'}`) as any
+      // Keep the HTTP status so the provider registry can tell overloads from bad input
+      wrappedError.status = (error as any)?.status
+      throw wrappedError
     }
   }
 
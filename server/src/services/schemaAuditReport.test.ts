@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest'
+import type { SchemaAuditPage } from 'aeo-schema-generator-shared/types'
+import { auditPage, buildAuditReport, classifyPageType, findOrganizationIssues, renderAuditCsv } from './schemaAuditReport.js'
+
+function page(url: string, overrides: Partial<SchemaAuditPage> = {}): SchemaAuditPage {
+  return {
+    url,
+    path: new URL(url).pathname,
+    pageType: classifyPageType(url),
+    schemaTypes: [],
+    errors: [],
+    warningCount: 0,
+    richResults: [],
+    organizations: [],
+    ...overrides
+  }
+}
+
+describe('classifyPageType', () => {
+  it('infers page types from the URL path', () => {
+    expect(classifyPageType('https://example.com/')).toBe('home')
+    expect(classifyPageType('https://example.com/blog/hello-world')).toBe('article')
+    expect(classifyPageType('https://example.com/2024/05/launch')).toBe('article')
+    expect(classifyPageType('https://example.com/products/widget')).toBe('product')
+    expect(classifyPageType('https://example.com/about-us')).toBe('about')
+    expect(classifyPageType('https://example.com/privacy-policy')).toBe('legal')
+    expect(classifyPageType('https://example.com/pricing')).toBe('other')
+  })
+})
+
+describe('auditPage', () => {
+  it('reports pages without markup', () => {
+    const result = auditPage('https://example.com/pricing', [])
+    expect(result.schemaTypes).toEqual([])
+    expect(result.score).toBeUndefined()
+  })
+
+  it('scores the page and collects Organization entities from @graph', () => {
+    const result = auditPage('https://example.com/', [{
+      '@context': 'https://schema.org',
+      '@graph': [
+        { '@type': 'Organization', '@id': 'https://example.com/#org', name: 'Acme', url: 'https://example.com' },
+        { '@type': 'WebSite', name: 'Acme', url: 'https://example.com' }
+      ]
+    }])
+
+    expect(result.schemaTypes).toEqual(['Organization', 'WebSite'])
+    expect(typeof result.score).toBe('number')
+    expect(result.organizations).toEqual([{ name: 'Acme', url: 'https://example.com', id: 'https://example.com/#org' }])
+  })
+})
+
+describe('findOrganizationIssues', () => {
+  it('is quiet when every page declares the same Organization', () => {
+    const org = { name: 'Acme', url: 'https://example.com', id: 'https://example.com/#org' }
+    const result = findOrganizationIssues([
+      page('https://example.com/', { organizations: [org] }),
+      page('https://example.com/about', { organizations: [{ ...org, url: 'https://www.example.com/' }] })
+    ])
+
+    expect(result.entities).toHaveLength(1)
+    expect(result.entities[0].pageCount).toBe(2)
+    expect(result.issues).toEqual([])
+  })
+
+  it('flags conflicting names, shared @ids and pages with several Organizations', () => {
+    const result = findOrganizationIssues([
+      page('https://example.com/', { organizations: [{ name: 'Acme', id: '#org' }] }),
+      page('https://example.com/blog/post', { organizations: [{ name: 'Acme Inc', id: '#org' }, { name: 'Acme', id: '#org' }] })
+    ])
+
+    expect(result.issues).toEqual([
+      'Organization is declared under 2 different names: "Acme", "Acme Inc"',
+      '@id #org is used for 2 differently named Organizations',
+      '1 page declares more than one Organization'
+    ])
+  })
+})
+
+describe('buildAuditReport', () => {
+  const pages = [
+    page('https://example.com/', {
+      schemaTypes: ['Organization'],
+      score: 80,
+      isCompliant: true,
+      richResults: [{ feature: 'organization-logo', name: 'Organization logo', status: 'eligible' }]
+    }),
+    page('https://example.com/blog/a', {
+      schemaTypes: ['Article'],
+      score: 60,
+      isCompliant: false,
+      errors: [{ code: 'INVALID_TYPE', property: 'author', message: 'author must be a Person or Organization' }]
+    }),
+    page('https://example.com/blog/b', {
+      schemaTypes: ['Article'],
+      score: 70,
+      isCompliant: false,
+      errors: [{ code: 'INVALID_TYPE', property: 'author', message: 'author must be a Person or Organization' }]
+    }),
+    page('https://example.com/pricing'),
+    page('https://example.com/broken', { scanError: 'Timeout' })
+  ]
+
+  const report = buildAuditReport('example.com', pages, new Date('2026-01-01T00:00:00Z'))
+
+  it('summarizes coverage, scores and failures', () => {
+    expect(report.summary).toEqual({
+      pagesScanned: 4,
+      pagesWithMarkup: 3,
+      pagesWithoutMarkup: 1,
+      pagesFailed: 1,
+      averageScore: 70,
+      compliantPages: 1,
+      richResultEligiblePages: 1
+    })
+    expect(report.pagesWithoutMarkup).toEqual(['https://example.com/pricing'])
+    expect(report.coverageByPageType.find(c => c.pageType === 'article')).toEqual({
+      pageType: 'article',
+      pages: 2,
+      pagesWithMarkup: 2,
+      averageScore: 65,
+      schemaTypes: { Article: 2 }
+    })
+  })
+
+  it('ranks common errors by the number of pages they appear on', () => {
+    expect(report.commonErrors).toEqual([{
+      code: 'INVALID_TYPE',
+      property: 'author',
+      message: 'author must be a Person or Organization',
+      pageCount: 2,
+      exampleUrls: ['https://example.com/blog/a', 'https://example.com/blog/b']
+    }])
+  })
+
+  it('exports one CSV row per page', () => {
+    const lines = renderAuditCsv(report).trim().split('\r\n')
+    expect(lines).toHaveLength(6)
+    expect(lines[1]).toBe('https://example.com/,home,Organization,80,yes,0,0,Organization logo,')
+    expect(lines[5]).toBe('https://example.com/broken,other,,,,0,0,,Timeout')
+  })
+})
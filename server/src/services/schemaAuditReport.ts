@@ -0,0 +1,354 @@
+/**
+ * Schema Audit Report
+ * Grades the JSON-LD a page already publishes and aggregates page results into a
+ * site-wide audit report
+ *
+ * Pure functions - scanning pages and persisting audits lives in schemaAuditService.ts.
+ */
+
+import type {
+  SchemaAuditIssue,
+  SchemaAuditOrganization,
+  SchemaAuditPage,
+  SchemaAuditPageType,
+  SchemaAuditPageTypeCoverage,
+  SchemaAuditReport,
+  SchemaAuditRichResult
+} from 'aeo-schema-generator-shared/types'
+import { calculateSchemaScore } from 'aeo-schema-generator-shared/utils'
+import { validatorService } from './validator.js'
+import { flattenJsonLd } from './schemaDriftMonitor.js'
+import { extractPath } from '../utils/urlHelpers.js'
+import { escapeCsvValue } from './schemaExport.js'
+
+/** Compliance errors kept per page (the report aggregates all of them) */
+const MAX_ERRORS_PER_PAGE = 20
+
+/** Example URLs kept per aggregated finding */
+const MAX_EXAMPLE_URLS = 5
+
+/** Most common errors listed in the report */
+const MAX_COMMON_ERRORS = 20
+
+/**
+ * Path patterns per page type, checked in order - the first match wins
+ */
+const PAGE_TYPE_PATTERNS: Array<[SchemaAuditPageType, RegExp]> = [
+  ['article', /\/(blog|news|articles?|posts?|insights|stories|press)(\/|$)|\/\d{4}\/\d{2}\//],
+  ['product', /\/(products?|shop|store|items?|p)\/[^/]+/],
+  ['category', /\/(categor(y|ies)|collections?|tags?|topics?)(\/|$)/],
+  ['about', /\/(about(-us)?|team|company|our-story|careers)(\/|$)/],
+  ['contact', /\/(contact(-us)?|support|locations?)(\/|$)/],
+  ['docs', /\/(docs|documentation|help|faqs?|guides?|kb|knowledge-base)(\/|$)/],
+  ['legal', /\/(privacy(-policy)?|terms(-of-service|-and-conditions)?|legal|cookies?(-policy)?|gdpr)(\/|$)/]
+]
+
+/** Types treated as the site's Organization entity */
+const ORGANIZATION_TYPES = new Set([
+  'Organization',
+  'Corporation',
+  'LocalBusiness',
+  'OnlineBusiness',
+  'OnlineStore',
+  'NGO',
+  'EducationalOrganization',
+  'NewsMediaOrganization'
+])
+
+// =============================================================================
+// PAGE GRADING
+// =============================================================================
+
+export function classifyPageType(url: string): SchemaAuditPageType {
+  const path = extractPath(url).toLowerCase()
+  if (path === '/' || path === '') {
+    return 'home'
+  }
+
+  const match = PAGE_TYPE_PATTERNS.find(([, pattern]) => pattern.test(path))
+  return match ? match[0] : 'other'
+}
+
+function normalizeEntityValue(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined
+}
+
+function normalizeEntityUrl(value: unknown): string | undefined {
+  const url = normalizeEntityValue(value)
+  return url?.toLowerCase().replace(/^https?:\/\/(www\.)?/, '').replace(/\/+$/, '')
+}
+
+function getTypes(schema: any): string[] {
+  const type = schema['@type']
+  return (Array.isArray(type) ? type : [type]).filter((value): value is string => typeof value === 'string')
+}
+
+/**
+ * Grade the JSON-LD found on one page: compliance per schema, the quality score and
+ * rich-result eligibility
+ */
+export function auditPage(url: string, existingJsonLd: any[]): SchemaAuditPage {
+  const schemas = flattenJsonLd(existingJsonLd).filter(schema => getTypes(schema).length > 0)
+
+  const page: SchemaAuditPage = {
+    url,
+    path: extractPath(url),
+    pageType: classifyPageType(url),
+    schemaTypes: Array.from(new Set(schemas.flatMap(getTypes))),
+    errors: [],
+    warningCount: 0,
+    richResults: [],
+    organizations: []
+  }
+
+  if (schemas.length === 0) {
+    return page
+  }
+
+  const complianceResults = validatorService.checkMultipleSchemasCompliance(schemas)
+  const score = calculateSchemaScore(schemas, {
+    isCompliant: complianceResults.every(r => r.isCompliant),
+    errors: complianceResults.flatMap(r => r.errors),
+    warnings: complianceResults.flatMap(r => r.warnings)
+  })
+
+  page.score = score.overallScore
+  page.isCompliant = complianceResults.every(r => r.isCompliant)
+  page.errors = complianceResults
+    .flatMap(r => r.errors)
+    .slice(0, MAX_ERRORS_PER_PAGE)
+    .map(({ code, property, message }) => ({ code, property, message }))
+  page.warningCount = complianceResults.reduce((sum, r) => sum + r.warnings.length, 0)
+  page.richResults = (score.richResults || []).map(({ feature, name, status }) => ({ feature, name, status }))
+  page.organizations = schemas
+    .filter(schema => getTypes(schema).some(type => ORGANIZATION_TYPES.has(type)))
+    .map(schema => ({
+      name: normalizeEntityValue(schema.name),
+      url: normalizeEntityValue(schema.url),
+      id: normalizeEntityValue(schema['@id'])
+    }))
+
+  return page
+}
+
+// =============================================================================
+// AGGREGATION
+// =============================================================================
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : null
+}
+
+function pushExample(urls: string[], url: string): void {
+  if (urls.length < MAX_EXAMPLE_URLS && !urls.includes(url)) {
+    urls.push(url)
+  }
+}
+
+function buildCoverage(pages: SchemaAuditPage[]): SchemaAuditPageTypeCoverage[] {
+  const byType = new Map<SchemaAuditPageType, SchemaAuditPage[]>()
+  for (const page of pages) {
+    byType.set(page.pageType, [...(byType.get(page.pageType) || []), page])
+  }
+
+  return Array.from(byType.entries())
+    .map(([pageType, typePages]) => {
+      const schemaTypes: Record<string, number> = {}
+      for (const page of typePages) {
+        for (const type of page.schemaTypes) {
+          schemaTypes[type] = (schemaTypes[type] || 0) + 1
+        }
+      }
+
+      return {
+        pageType,
+        pages: typePages.length,
+        pagesWithMarkup: typePages.filter(page => page.schemaTypes.length > 0).length,
+        averageScore: average(typePages.flatMap(page => page.score !== undefined ? [page.score] : [])),
+        schemaTypes
+      }
+    })
+    .sort((a, b) => b.pages - a.pages)
+}
+
+function buildCommonErrors(pages: SchemaAuditPage[]): SchemaAuditIssue[] {
+  const issues = new Map<string, SchemaAuditIssue>()
+
+  for (const page of pages) {
+    const seenOnPage = new Set<string>()
+    for (const error of page.errors) {
+      const key = `${error.code}|${error.property}`
+      if (seenOnPage.has(key)) continue
+      seenOnPage.add(key)
+
+      const issue = issues.get(key) || { ...error, pageCount: 0, exampleUrls: [] }
+      issue.pageCount++
+      pushExample(issue.exampleUrls, page.url)
+      issues.set(key, issue)
+    }
+  }
+
+  return Array.from(issues.values())
+    .sort((a, b) => b.pageCount - a.pageCount)
+    .slice(0, MAX_COMMON_ERRORS)
+}
+
+/**
+ * Group every Organization declared on the site and describe duplicates and conflicts:
+ * different names or URLs for what should be one entity, one @id with different names,
+ * and pages declaring several Organizations
+ */
+export function findOrganizationIssues(pages: SchemaAuditPage[]): SchemaAuditReport['organizations'] {
+  const entities = new Map<string, SchemaAuditOrganization>()
+  let pagesWithSeveral = 0
+
+  for (const page of pages) {
+    const keysOnPage = new Set<string>()
+
+    for (const { name, url, id } of page.organizations) {
+      const key = `${name?.toLowerCase() || ''}|${normalizeEntityUrl(url) || ''}|${id || ''}`
+
+      const entity = entities.get(key) || { name, url, id, pageCount: 0, exampleUrls: [] }
+      if (!keysOnPage.has(key)) {
+        entity.pageCount++
+        pushExample(entity.exampleUrls, page.url)
+      }
+      keysOnPage.add(key)
+      entities.set(key, entity)
+    }
+
+    if (keysOnPage.size > 1) {
+      pagesWithSeveral++
+    }
+  }
+
+  const list = Array.from(entities.values()).sort((a, b) => b.pageCount - a.pageCount)
+  const issues: string[] = []
+
+  const names = new Set(list.flatMap(entity => entity.name ? [entity.name.toLowerCase()] : []))
+  if (names.size > 1) {
+    const shown = Array.from(new Set(list.flatMap(entity => entity.name ? [entity.name] : [])))
+    issues.push(`Organization is declared under ${names.size} different names: ${shown.map(name => `"${name}"`).join(', ')}`)
+  }
+
+  const urls = new Set(list.flatMap(entity => {
+    const url = normalizeEntityUrl(entity.url)
+    return url ? [url] : []
+  }))
+  if (urls.size > 1) {
+    issues.push(`Organization points to ${urls.size} different URLs`)
+  }
+
+  const namesById = new Map<string, Set<string>>()
+  for (const entity of list) {
+    if (entity.id && entity.name) {
+      namesById.set(entity.id, (namesById.get(entity.id) || new Set()).add(entity.name.toLowerCase()))
+    }
+  }
+  for (const [id, idNames] of namesById) {
+    if (idNames.size > 1) {
+      issues.push(`@id ${id} is used for ${idNames.size} differently named Organizations`)
+    }
+  }
+
+  if (list.length > 1 && list.some(entity => !entity.id)) {
+    issues.push('Some Organization entities have no @id, so search engines can\'t tell they are the same entity')
+  }
+
+  if (pagesWithSeveral > 0) {
+    issues.push(`${pagesWithSeveral} ${pagesWithSeveral === 1 ? 'page declares' : 'pages declare'} more than one Organization`)
+  }
+
+  return { entities: list, issues }
+}
+
+function buildRichResults(pages: SchemaAuditPage[]): SchemaAuditRichResult[] {
+  const byFeature = new Map<string, SchemaAuditRichResult>()
+
+  for (const page of pages) {
+    // A page counts once per feature, at its best status
+    const bestByFeature = new Map<string, { name: string; status: string }>()
+    for (const result of page.richResults) {
+      const current = bestByFeature.get(result.feature)
+      if (!current || result.status === 'eligible' || (result.status === 'partial' && current.status === 'ineligible')) {
+        bestByFeature.set(result.feature, result)
+      }
+    }
+
+    for (const [feature, result] of bestByFeature) {
+      if (result.status === 'ineligible') continue
+
+      const entry = byFeature.get(feature) || {
+        feature: feature as SchemaAuditRichResult['feature'],
+        name: result.name,
+        eligiblePages: 0,
+        partialPages: 0,
+        exampleUrls: []
+      }
+      if (result.status === 'eligible') {
+        entry.eligiblePages++
+        pushExample(entry.exampleUrls, page.url)
+      } else {
+        entry.partialPages++
+      }
+      byFeature.set(feature, entry)
+    }
+  }
+
+  return Array.from(byFeature.values()).sort((a, b) => b.eligiblePages - a.eligiblePages)
+}
+
+/**
+ * Aggregate page results into the site-wide report
+ */
+export function buildAuditReport(domain: string, pages: SchemaAuditPage[], generatedAt = new Date()): SchemaAuditReport {
+  const scannedPages = pages.filter(page => !page.scanError)
+  const pagesWithMarkup = scannedPages.filter(page => page.schemaTypes.length > 0)
+
+  return {
+    domain,
+    generatedAt: generatedAt.toISOString(),
+    summary: {
+      pagesScanned: scannedPages.length,
+      pagesWithMarkup: pagesWithMarkup.length,
+      pagesWithoutMarkup: scannedPages.length - pagesWithMarkup.length,
+      pagesFailed: pages.length - scannedPages.length,
+      averageScore: average(pagesWithMarkup.flatMap(page => page.score !== undefined ? [page.score] : [])),
+      compliantPages: pagesWithMarkup.filter(page => page.isCompliant).length,
+      richResultEligiblePages: pagesWithMarkup.filter(page => page.richResults.some(r => r.status === 'eligible')).length
+    },
+    coverageByPageType: buildCoverage(scannedPages),
+    commonErrors: buildCommonErrors(pagesWithMarkup),
+    pagesWithoutMarkup: scannedPages.filter(page => page.schemaTypes.length === 0).map(page => page.url),
+    organizations: findOrganizationIssues(pagesWithMarkup),
+    richResults: buildRichResults(pagesWithMarkup),
+    pages
+  }
+}
+
+// =============================================================================
+// EXPORT
+// =============================================================================
+
+/**
+ * One row per page, for spreadsheets
+ */
+export function renderAuditCsv(report: SchemaAuditReport): string {
+  const rows = [['url', 'page_type', 'schema_types', 'score', 'compliant', 'errors', 'warnings', 'eligible_rich_results', 'scan_error']]
+
+  for (const page of report.pages) {
+    rows.push([
+      page.url,
+      page.pageType,
+      page.schemaTypes.join('|'),
+      page.score !== undefined ? String(page.score) : '',
+      page.isCompliant === undefined ? '' : page.isCompliant ? 'yes' : 'no',
+      String(page.errors.length),
+      String(page.warningCount),
+      page.richResults.filter(r => r.status === 'eligible').map(r => r.name).join('|'),
+      page.scanError || ''
+    ])
+  }
+
+  return rows.map(row => row.map(escapeCsvValue).join(',')).join('\r\n') + '\r\n'
+}
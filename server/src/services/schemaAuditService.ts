@@ -0,0 +1,321 @@
+// IMPORTANT: Load environment variables FIRST
+import '../config/env.js'
+
+import { createClient } from '@supabase/supabase-js'
+import type {
+  SchemaAudit,
+  SchemaAuditPage,
+  SchemaAuditReport,
+  SchemaAuditStatus
+} from 'aeo-schema-generator-shared/types'
+import { siteCrawlerService } from './siteCrawler.js'
+import { scraperService } from './scraper.js'
+import { normalizeCrawlDomain } from './crawlHistoryService.js'
+import { auditPage, buildAuditReport, classifyPageType } from './schemaAuditReport.js'
+import { extractPath } from '../utils/urlHelpers.js'
+import { isOnDomain } from './schemaEmbed.js'
+
+// Initialize Supabase client
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+)
+
+// =============================================================================
+// INTERNAL TYPES (Database row format)
+// =============================================================================
+
+interface SchemaAuditRow {
+  id: string
+  user_id: string
+  domain: string
+  status: SchemaAuditStatus
+  error: string | null
+  max_pages: number
+  pages_total: number
+  pages_scanned: number
+  report: SchemaAuditReport | null
+  started_at: string
+  completed_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const DEFAULT_AUDIT_PAGES = 50
+
+/** Every page is a full headless browser scrape, so audits stay small */
+export const MAX_AUDIT_PAGES = 200
+
+/** Concurrent audits per user */
+const MAX_RUNNING_AUDITS_PER_USER = 1
+
+/** Columns for audit listings - reports can be large */
+const SUMMARY_COLUMNS = 'id, user_id, domain, status, error, max_pages, pages_total, pages_scanned, started_at, completed_at, created_at, updated_at'
+
+const POSTGRES_ERROR_CODES = {
+  /** No rows returned from single-row query */
+  NOT_FOUND: 'PGRST116',
+  /** Value is not a valid UUID */
+  INVALID_TEXT_REPRESENTATION: '22P02'
+} as const
+
+const ERROR_MESSAGES = {
+  NOT_FOUND: 'Audit not found or access denied',
+  CREATE_FAILED: 'Failed to start audit',
+  LIST_FAILED: 'Failed to list audits',
+  UPDATE_FAILED: 'Failed to update audit',
+  TOO_MANY_RUNNING: `You can run at most ${MAX_RUNNING_AUDITS_PER_USER} audit at a time - wait for the current one to finish`,
+  NO_PAGES: 'No pages found for this domain'
+} as const
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function rowToAudit(row: SchemaAuditRow): SchemaAudit {
+  return {
+    id: row.id,
+    domain: row.domain,
+    status: row.status,
+    error: row.error || undefined,
+    maxPages: row.max_pages,
+    pagesTotal: row.pages_total,
+    pagesScanned: row.pages_scanned,
+    report: row.report || undefined,
+    startedAt: row.started_at,
+    completedAt: row.completed_at || undefined,
+    createdAt: row.created_at
+  }
+}
+
+async function updateAudit(auditId: string, update: Partial<SchemaAuditRow>): Promise<void> {
+  const { error } = await supabase
+    .from('schema_audits')
+    .update(update)
+    .eq('id', auditId)
+
+  if (error) {
+    throw new Error(`${ERROR_MESSAGES.UPDATE_FAILED}: ${error.message}`)
+  }
+}
+
+/**
+ * Scan one page - load failures are recorded on the page instead of failing the audit
+ */
+async function scanPage(url: string): Promise<SchemaAuditPage> {
+  try {
+    const analysis = await scraperService.scrapeUrl(url)
+    return auditPage(url, analysis.metadata?.existingJsonLd || [])
+  } catch (error) {
+    return {
+      url,
+      path: extractPath(url),
+      pageType: classifyPageType(url),
+      schemaTypes: [],
+      errors: [],
+      warningCount: 0,
+      richResults: [],
+      organizations: [],
+      scanError: error instanceof Error ? error.message : 'Failed to load page'
+    }
+  }
+}
+
+/**
+ * Discover up to maxPages URLs, scan them one at a time and store the report
+ */
+async function runAudit(auditId: string, domain: string, maxPages: number): Promise<void> {
+  const urls: string[] = []
+  for await (const discovered of siteCrawlerService.discoverUrls(domain, { maxUrls: maxPages })) {
+    urls.push(discovered.url)
+    if (urls.length >= maxPages) break
+  }
+
+  if (urls.length === 0) {
+    throw new Error(ERROR_MESSAGES.NO_PAGES)
+  }
+
+  await updateAudit(auditId, { pages_total: urls.length })
+
+  const pages: SchemaAuditPage[] = []
+  for (const url of urls) {
+    pages.push(await scanPage(url))
+    await updateAudit(auditId, { pages_scanned: pages.length })
+  }
+
+  await updateAudit(auditId, {
+    status: 'completed',
+    report: buildAuditReport(domain, pages),
+    completed_at: new Date().toISOString()
+  })
+
+  console.log(`✅ [SchemaAudit] Audit ${auditId} of ${domain} completed (${pages.length} pages)`)
+}
+
+// =============================================================================
+// AUDIT LIFECYCLE
+// =============================================================================
+
+/**
+ * Start an audit - it keeps running in the background, poll getAudit for progress
+ */
+export async function startAudit(userId: string, domain: string, maxPages: number = DEFAULT_AUDIT_PAGES): Promise<SchemaAudit> {
+  const { count, error: countError } = await supabase
+    .from('schema_audits')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('status', 'running')
+
+  if (countError) {
+    throw new Error(`${ERROR_MESSAGES.CREATE_FAILED}: ${countError.message}`)
+  }
+
+  if ((count || 0) >= MAX_RUNNING_AUDITS_PER_USER) {
+    throw new Error(ERROR_MESSAGES.TOO_MANY_RUNNING)
+  }
+
+  const normalizedDomain = normalizeCrawlDomain(domain)
+
+  const { data, error } = await supabase
+    .from('schema_audits')
+    .insert({
+      user_id: userId,
+      domain: normalizedDomain,
+      max_pages: maxPages
+    })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`${ERROR_MESSAGES.CREATE_FAILED}: ${error.message}`)
+  }
+
+  console.log(`🔎 [SchemaAudit] Started audit ${data.id} of ${normalizedDomain} (up to ${maxPages} pages)`)
+
+  runAudit(data.id, normalizedDomain, maxPages).catch(async (runError) => {
+    console.error(`❌ [SchemaAudit] Audit ${data.id} failed:`, runError)
+    await updateAudit(data.id, {
+      status: 'failed',
+      error: runError instanceof Error ? runError.message : 'Audit failed',
+      completed_at: new Date().toISOString()
+    }).catch(updateError => console.error(`❌ Failed to record audit failure for ${data.id}:`, updateError))
+  })
+
+  return rowToAudit(data)
+}
+
+/**
+ * Mark audits whose server restarted mid-run as failed
+ * Progress is written after every page, so a running audit that hasn't been updated for
+ * staleAfterMs is no longer running anywhere
+ */
+export async function failInterruptedAudits(staleAfterMs: number): Promise<number> {
+  const cutoff = new Date(Date.now() - staleAfterMs).toISOString()
+
+  const { data, error } = await supabase
+    .from('schema_audits')
+    .update({
+      status: 'failed',
+      error: 'Audit was interrupted',
+      completed_at: new Date().toISOString()
+    })
+    .eq('status', 'running')
+    .lt('updated_at', cutoff)
+    .select('id')
+
+  if (error) {
+    throw new Error(`Failed to recover interrupted audits: ${error.message}`)
+  }
+
+  return data?.length || 0
+}
+
+// =============================================================================
+// AUDIT HISTORY
+// =============================================================================
+
+/**
+ * Get an audit with its report
+ * SECURITY: Always requires userId to prevent cross-user access
+ */
+export async function getAudit(auditId: string, userId: string): Promise<SchemaAudit | null> {
+  const { data, error } = await supabase
+    .from('schema_audits')
+    .select('*')
+    .eq('id', auditId)
+    .eq('user_id', userId)
+    .single()
+
+  if (error) {
+    if (error.code === POSTGRES_ERROR_CODES.NOT_FOUND || error.code === POSTGRES_ERROR_CODES.INVALID_TEXT_REPRESENTATION) {
+      return null
+    }
+    throw new Error(`${ERROR_MESSAGES.NOT_FOUND}: ${error.message}`)
+  }
+
+  return rowToAudit(data)
+}
+
+/**
+ * A user's audits, newest first (without reports)
+ */
+export async function listAudits(userId: string, limit: number = 20): Promise<SchemaAudit[]> {
+  const { data, error } = await supabase
+    .from('schema_audits')
+    .select(SUMMARY_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`${ERROR_MESSAGES.LIST_FAILED}: ${error.message}`)
+  }
+
+  return ((data || []) as unknown as SchemaAuditRow[]).map(row => rowToAudit({ ...row, report: null }))
+}
+
+/**
+ * The most recent completed audit of a domain, with its report
+ * Audits store the domain as typed, so match on hostname rather than the exact string
+ */
+export async function getLatestCompletedAudit(userId: string, domain: string): Promise<SchemaAudit | null> {
+  const { data, error } = await supabase
+    .from('schema_audits')
+    .select('id, domain')
+    .eq('user_id', userId)
+    .eq('status', 'completed')
+    .order('completed_at', { ascending: false })
+    .limit(50)
+
+  if (error) {
+    throw new Error(`${ERROR_MESSAGES.LIST_FAILED}: ${error.message}`)
+  }
+
+  const match = (data || []).find(row => isOnDomain(domain, row.domain))
+  return match ? getAudit(match.id, userId) : null
+}
+
+// =============================================================================
+// EXPORTS
+// =============================================================================
+
+export default {
+  // Audit lifecycle
+  startAudit,
+  failInterruptedAudits,
+
+  // Audit history
+  getAudit,
+  listAudits,
+  getLatestCompletedAudit
+}
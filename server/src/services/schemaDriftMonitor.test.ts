@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('@supabase/supabase-js', () => ({ createClient: vi.fn(() => ({})) }))
+
+import { schemaDriftMonitor } from './schemaDriftMonitor.js'
+import { db } from './database.js'
+import { scraperService, toContentAnalysis } from './scraper.js'
+import { htmlCleaningService } from './htmlCleaner.js'
+import { computePageFingerprint } from '../utils/contentFingerprint.js'
+
+const PAGE_URL = 'https://example.com/blog/structured-data'
+
+const ARTICLE_TEXT = [
+  'Structured data tells search engines and AI assistants what a page is about.',
+  'This guide walks through adding Article markup, testing it and keeping it current',
+  'as the page changes over time, with examples for common content management systems.'
+].join(' ')
+
+const storedArticle = {
+  '@context': 'https://schema.org',
+  '@type': 'Article',
+  headline: 'Adding structured data to your blog',
+  author: { '@type': 'Person', name: 'Sam Lee' },
+  datePublished: '2026-09-01'
+}
+
+function pageHtml(jsonLd: unknown[], text = ARTICLE_TEXT): string {
+  const scripts = jsonLd
+    .map(block => `<script type="application/ld+json">${JSON.stringify(block)}</script>`)
+    .join('\n')
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <title>Adding structured data to your blog</title>
+  <meta name="description" content="How to add and maintain Article markup">
+  ${scripts}
+</head>
+<body><main><article><h1>Adding structured data to your blog</h1><p>${text}</p></article></main></body>
+</html>`
+}
+
+async function analyze(html: string) {
+  return toContentAnalysis(PAGE_URL, await htmlCleaningService.processHtml(html, PAGE_URL))
+}
+
+/**
+ * Serve the live page from HTML instead of a headless browser, and store the Article
+ * with the fingerprint of the page it was generated from
+ */
+async function setUp(liveHtml: string, generatedFromHtml = pageHtml([storedArticle])) {
+  const contentFingerprint = computePageFingerprint(await analyze(generatedFromHtml))
+
+  vi.spyOn(db, 'getDiscoveredUrlForDriftCheck').mockResolvedValue({ id: 'url_1', userId: 'user_1', url: PAGE_URL })
+  vi.spyOn(db, 'getSchemasByDiscoveredUrlId').mockResolvedValue([
+    { status: 'success', schemas: [storedArticle], contentFingerprint }
+  ])
+  const scrape = vi.spyOn(scraperService, 'scrapeUrl').mockImplementation(async () => analyze(liveHtml))
+  const update = vi.spyOn(db, 'updateUrlDriftStatus').mockResolvedValue(undefined)
+
+  return { scrape, update }
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+describe('schemaDriftMonitor.checkUrl', () => {
+  it('reports in_sync when the page publishes the stored schema', async () => {
+    // Same schema inside a @graph, keys reordered and an http @context
+    const { scrape, update } = await setUp(pageHtml([{
+      '@context': 'http://schema.org',
+      '@graph': [
+        { datePublished: '2026-09-01', author: { name: 'Sam Lee', '@type': 'Person' }, headline: storedArticle.headline, '@type': 'Article' },
+        { '@type': 'BreadcrumbList', itemListElement: [] }
+      ]
+    }]))
+
+    const result = await schemaDriftMonitor.checkUrl('url_1', 'user_1')
+
+    expect(scrape).toHaveBeenCalledWith(PAGE_URL, expect.anything())
+    expect(result).toEqual({
+      urlId: 'url_1',
+      status: 'in_sync',
+      details: { missingTypes: [], modifiedTypes: [], contentSimilarity: 1 }
+    })
+    expect(update).toHaveBeenCalledWith('url_1', 'in_sync', result!.details, undefined)
+  })
+
+  it('reports modified when the schema on the page was edited', async () => {
+    const { update } = await setUp(pageHtml([{ ...storedArticle, headline: 'Structured data, edited by hand' }]))
+
+    const result = await schemaDriftMonitor.checkUrl('url_1')
+
+    expect(result?.status).toBe('modified')
+    expect(result?.details).toMatchObject({ missingTypes: [], modifiedTypes: ['Article'] })
+    expect(update).toHaveBeenCalledWith('url_1', 'modified', result!.details, undefined)
+  })
+
+  it('reports missing_on_page when the schema was removed', async () => {
+    const { update } = await setUp(pageHtml([{ '@context': 'https://schema.org', '@type': 'BreadcrumbList', itemListElement: [] }]))
+
+    const result = await schemaDriftMonitor.checkUrl('url_1')
+
+    expect(result?.status).toBe('missing_on_page')
+    expect(result?.details).toMatchObject({ missingTypes: ['Article'], modifiedTypes: [] })
+    expect(update).toHaveBeenCalledWith('url_1', 'missing_on_page', result!.details, undefined)
+  })
+
+  it('compares only the newest generation of a regenerated schema type', async () => {
+    const regenerated = { ...storedArticle, headline: 'Adding structured data to your blog in 2026' }
+    const { update } = await setUp(pageHtml([regenerated]))
+    const contentFingerprint = computePageFingerprint(await analyze(pageHtml([storedArticle])))
+    // Newest first, like getSchemasByDiscoveredUrlId
+    vi.spyOn(db, 'getSchemasByDiscoveredUrlId').mockResolvedValue([
+      { id: 'gen_new', status: 'success', schemaType: 'Article', schemas: [regenerated], contentFingerprint },
+      { id: 'gen_old', status: 'success', schemaType: 'Article', schemas: [storedArticle], contentFingerprint }
+    ])
+
+    const result = await schemaDriftMonitor.checkUrl('url_1')
+
+    expect(result?.status).toBe('in_sync')
+    expect(result?.details).toMatchObject({ missingTypes: [], modifiedTypes: [] })
+    expect(update).toHaveBeenCalledWith('url_1', 'in_sync', result!.details, undefined)
+  })
+
+  it('reports content_changed when the schema is intact but the page was rewritten', async () => {
+    const rewritten = 'Our pricing now includes three plans with monthly and yearly billing, a free trial and discounts for nonprofits and schools.'
+    await setUp(pageHtml([storedArticle], rewritten))
+
+    const result = await schemaDriftMonitor.checkUrl('url_1')
+
+    expect(result?.status).toBe('content_changed')
+    expect(result?.details.contentSimilarity).toBeLessThan(0.85)
+  })
+
+  it('reports unreachable when the page cannot be loaded', async () => {
+    const { scrape, update } = await setUp(pageHtml([storedArticle]))
+    scrape.mockRejectedValue(new Error('net::ERR_NAME_NOT_RESOLVED'))
+
+    const result = await schemaDriftMonitor.checkUrl('url_1')
+
+    expect(result).toEqual({
+      urlId: 'url_1',
+      status: 'unreachable',
+      details: { missingTypes: [], modifiedTypes: [], error: 'net::ERR_NAME_NOT_RESOLVED' }
+    })
+    expect(update).toHaveBeenCalledWith('url_1', 'unreachable', result!.details)
+  })
+})
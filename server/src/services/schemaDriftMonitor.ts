@@ -0,0 +1,239 @@
+/**
+ * Schema Drift Monitor
+ * Re-checks live pages for library URLs that have generated schema
+ *
+ * For each URL the monitor scrapes the live page and compares:
+ * - the JSON-LD on the page against the schema stored in the library
+ *   (missing on page / modified by someone else)
+ * - the page content against the content the schema was generated from
+ *   (content changed since generation, via SimHash fingerprints)
+ */
+
+import type { SchemaDriftStatus, SchemaDriftDetails } from 'aeo-schema-generator-shared/types'
+import { db } from './database.js'
+import { scraperService } from './scraper.js'
+import { computePageFingerprint, fingerprintSimilarity } from '../utils/contentFingerprint.js'
+
+/** URLs are re-checked once this much time has passed since their last check */
+const RECHECK_INTERVAL_MS = 24 * 60 * 60 * 1000
+
+/** Max URLs checked per scheduled run (each check is a full headless browser scrape) */
+const URLS_PER_RUN = 25
+
+/** Below this similarity the page is considered to have changed enough to make the schema stale */
+const CONTENT_SIMILARITY_THRESHOLD = 0.85
+
+export interface DriftCheckResult {
+  urlId: string
+  status: SchemaDriftStatus
+  details: SchemaDriftDetails
+}
+
+/**
+ * Flatten JSON-LD blocks into individual schema objects
+ * Handles arrays and @graph containers the way pages commonly publish them
+ */
+export function flattenJsonLd(blocks: any[]): any[] {
+  const result: any[] = []
+
+  for (const block of blocks) {
+    if (Array.isArray(block)) {
+      result.push(...flattenJsonLd(block))
+    } else if (block && typeof block === 'object') {
+      if (Array.isArray(block['@graph'])) {
+        result.push(...flattenJsonLd(block['@graph']))
+      } else {
+        result.push(block)
+      }
+    }
+  }
+
+  return result
+}
+
+/**
+ * Stable string form of a schema for equality checks
+ * Ignores key order and @context (http vs https schema.org is not a real change)
+ */
+function canonicalize(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`
+  }
+
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value).filter(key => key !== '@context').sort()
+    return `{${keys.map(key => `${JSON.stringify(key)}:${canonicalize(value[key])}`).join(',')}}`
+  }
+
+  return JSON.stringify(value)
+}
+
+function typeKey(schema: any): string {
+  const type = schema?.['@type']
+  return Array.isArray(type) ? [...type].sort().join(',') : String(type ?? 'Unknown')
+}
+
+/**
+ * Compare stored schemas against the JSON-LD found on the live page
+ */
+export function compareSchemas(stored: any[], live: any[]): { missingTypes: string[]; modifiedTypes: string[] } {
+  const liveByType = new Map<string, Set<string>>()
+  for (const schema of flattenJsonLd(live)) {
+    const key = typeKey(schema)
+    if (!liveByType.has(key)) {
+      liveByType.set(key, new Set())
+    }
+    liveByType.get(key)!.add(canonicalize(schema))
+  }
+
+  const missingTypes = new Set<string>()
+  const modifiedTypes = new Set<string>()
+
+  for (const schema of flattenJsonLd(stored)) {
+    const key = typeKey(schema)
+    const candidates = liveByType.get(key)
+
+    if (!candidates) {
+      missingTypes.add(key)
+    } else if (!candidates.has(canonicalize(schema))) {
+      modifiedTypes.add(key)
+    }
+  }
+
+  return {
+    missingTypes: Array.from(missingTypes),
+    modifiedTypes: Array.from(modifiedTypes)
+  }
+}
+
+export class SchemaDriftMonitor {
+  private isRunning = false
+
+  /**
+   * Check a single library URL and persist the result
+   * @param userId - When provided, the URL must belong to this user
+   */
+  async checkUrl(urlId: string, userId?: string): Promise<DriftCheckResult | null> {
+    const discoveredUrl = await db.getDiscoveredUrlForDriftCheck(urlId, userId)
+    if (!discoveredUrl) {
+      return null
+    }
+
+    // Newest first - only the latest generation of each schema type is what should be live,
+    // older versions of a regenerated type would never match the page
+    const seenTypes = new Set<string>()
+    const generations = (await db.getSchemasByDiscoveredUrlId(urlId))
+      .filter(generation => generation.status === 'success' && Array.isArray(generation.schemas))
+      .filter(generation => {
+        const typeKey = generation.schemaType || generation.id
+        if (seenTypes.has(typeKey)) return false
+        seenTypes.add(typeKey)
+        return true
+      })
+
+    if (generations.length === 0) {
+      // Nothing to compare - stamp the check so the scheduler moves on to other URLs
+      await db.updateUrlDriftStatus(urlId, null, null)
+      return null
+    }
+
+    let analysis
+    try {
+      analysis = await scraperService.scrapeUrl(discoveredUrl.url, { timeout: 30000 })
+    } catch (error) {
+      const details: SchemaDriftDetails = {
+        missingTypes: [],
+        modifiedTypes: [],
+        error: error instanceof Error ? error.message : 'Failed to load page'
+      }
+      await db.updateUrlDriftStatus(urlId, 'unreachable', details)
+      return { urlId, status: 'unreachable', details }
+    }
+
+    // 1. Schema on the page vs. schema in the library
+    const storedSchemas = generations.flatMap(generation => generation.schemas)
+    const liveSchemas = analysis.metadata?.existingJsonLd || []
+    const { missingTypes, modifiedTypes } = compareSchemas(storedSchemas, liveSchemas)
+
+    // 2. Page content vs. content at generation time
+    // getSchemasByDiscoveredUrlId is newest first, so the first fingerprint is the latest baseline
+    const currentFingerprint = computePageFingerprint(analysis)
+    const generationFingerprint = generations.find(generation => generation.contentFingerprint)?.contentFingerprint
+    const baseline = generationFingerprint || discoveredUrl.contentFingerprint
+    const contentSimilarity = baseline ? fingerprintSimilarity(baseline, currentFingerprint) : undefined
+
+    const details: SchemaDriftDetails = {
+      missingTypes,
+      modifiedTypes,
+      contentSimilarity
+    }
+
+    let status: SchemaDriftStatus = 'in_sync'
+    if (missingTypes.length > 0) {
+      status = 'missing_on_page'
+    } else if (modifiedTypes.length > 0) {
+      status = 'modified'
+    } else if (contentSimilarity !== undefined && contentSimilarity < CONTENT_SIMILARITY_THRESHOLD) {
+      status = 'content_changed'
+    }
+
+    // Schemas generated before fingerprints existed: capture today's content as the baseline
+    await db.updateUrlDriftStatus(urlId, status, details, baseline ? undefined : currentFingerprint)
+
+    console.log(`🔎 [Drift Monitor] ${discoveredUrl.url}: ${status}`, details)
+
+    return { urlId, status, details }
+  }
+
+  /**
+   * Check every library URL whose last check is older than the recheck interval
+   * Run this via cron job - each run handles a bounded slice of URLs
+   */
+  async checkDueUrls(): Promise<{
+    checkedCount: number
+    driftCount: number
+    failedCount: number
+  }> {
+    const stats = { checkedCount: 0, driftCount: 0, failedCount: 0 }
+
+    if (this.isRunning) {
+      console.log('⏭️ [Drift Monitor] Check already in progress, skipping...')
+      return stats
+    }
+
+    this.isRunning = true
+
+    try {
+      const urlIds = await db.getUrlsDueForDriftCheck(new Date(Date.now() - RECHECK_INTERVAL_MS), URLS_PER_RUN)
+
+      if (urlIds.length === 0) {
+        return stats
+      }
+
+      console.log(`🔎 [Drift Monitor] Checking ${urlIds.length} URLs...`)
+
+      // Sequential on purpose - every check launches a headless browser page
+      for (const urlId of urlIds) {
+        try {
+          const result = await this.checkUrl(urlId)
+          if (!result) continue
+
+          stats.checkedCount++
+          if (result.status !== 'in_sync') {
+            stats.driftCount++
+          }
+        } catch (error) {
+          stats.failedCount++
+          console.error(`❌ [Drift Monitor] Failed to check URL ${urlId}:`, error)
+        }
+      }
+
+      return stats
+    } finally {
+      this.isRunning = false
+    }
+  }
+}
+
+// Export singleton instance
+export const schemaDriftMonitor = new SchemaDriftMonitor()
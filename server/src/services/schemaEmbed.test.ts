@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import { generateSiteKey, getCandidateUrls, isOnDomain } from './schemaEmbed.js'
+
+describe('isOnDomain', () => {
+  it('matches page URLs and origins on the library domain, with or without www', () => {
+    expect(isOnDomain('https://example.com', 'https://www.example.com/pricing')).toBe(true)
+    expect(isOnDomain('https://www.example.com', 'https://example.com')).toBe(true)
+    expect(isOnDomain('example.com', 'https://EXAMPLE.com/about')).toBe(true)
+  })
+
+  it('rejects other hosts, including subdomains and look-alikes', () => {
+    expect(isOnDomain('https://example.com', 'https://blog.example.com/post')).toBe(false)
+    expect(isOnDomain('https://example.com', 'https://example.com.evil.io/')).toBe(false)
+    expect(isOnDomain('https://example.com', 'not a url')).toBe(false)
+  })
+})
+
+describe('getCandidateUrls', () => {
+  it('tries the normalized URL with and without a trailing slash', () => {
+    expect(getCandidateUrls('https://Example.com/blog/post/#comments')).toEqual([
+      'https://example.com/blog/post',
+      'https://example.com/blog/post/'
+    ])
+  })
+
+  it('keeps the home page as a single candidate', () => {
+    expect(getCandidateUrls('https://example.com')).toEqual(['https://example.com/'])
+  })
+})
+
+describe('generateSiteKey', () => {
+  it('creates unique prefixed keys', () => {
+    const key = generateSiteKey()
+    expect(key).toMatch(/^site_[0-9a-f]{24}$/)
+    expect(generateSiteKey()).not.toBe(key)
+  })
+})
@@ -0,0 +1,194 @@
+/**
+ * Schema Embed
+ * Serves library schema to the embeddable loader script, an alternative to CMS pushes
+ *
+ * A site adds one script tag carrying its domain's site key. The loader asks the public
+ * endpoint for the JSON-LD of `location.href` and injects it into the head. Site keys are
+ * public, so a key only ever serves URLs on its own domain (www and non-www both count).
+ * Responses are cached in memory here and by browsers/CDNs via Cache-Control and ETag.
+ */
+
+import crypto from 'crypto'
+import { normalizeUrl } from 'aeo-schema-generator-shared/utils'
+import { db } from './database.js'
+import { buildExportPages } from './schemaExport.js'
+
+export const EMBED_SITE_KEY_PREFIX = 'site_'
+
+/** Browser/CDN cache lifetime for schema responses */
+export const EMBED_SCHEMA_MAX_AGE_SECONDS = 300
+
+/** Browser/CDN cache lifetime for the loader script */
+export const EMBED_LOADER_MAX_AGE_SECONDS = 86400
+
+/** In-memory cache lifetime, kept short so library edits show up quickly */
+const CACHE_TTL_MS = 60 * 1000
+
+/** Cap on cached lookups so a crawler hitting many URLs can't grow memory unbounded */
+const CACHE_MAX_ENTRIES = 5000
+
+export type EmbedLookupResult =
+  | { status: 'ok'; body: string; etag: string; allowedOrigin: string }
+  | { status: 'not_found' | 'forbidden'; message: string }
+
+interface CachedLookup {
+  result: EmbedLookupResult
+  expiresAt: number
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+export function generateSiteKey(): string {
+  return `${EMBED_SITE_KEY_PREFIX}${crypto.randomBytes(12).toString('hex')}`
+}
+
+function getHostname(value: string): string | null {
+  try {
+    return new URL(value.includes('://') ? value : `https://${value}`).hostname.toLowerCase().replace(/^www\./, '')
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Whether a page URL or Origin header belongs to the library domain (ignoring www.)
+ */
+export function isOnDomain(domain: string, urlOrOrigin: string): boolean {
+  const domainHost = getHostname(domain)
+  return domainHost !== null && getHostname(urlOrOrigin) === domainHost
+}
+
+/**
+ * URLs a page may be stored under in the library: crawls store URLs as discovered,
+ * so try the normalized URL with and without a trailing slash
+ */
+export function getCandidateUrls(pageUrl: string): string[] {
+  const parsed = new URL(pageUrl)
+  parsed.hash = ''
+  const normalized = normalizeUrl(parsed.toString())
+  const candidates = new Set([normalized])
+
+  const withSlash = new URL(normalized)
+  if (withSlash.pathname !== '/' && !withSlash.pathname.endsWith('/')) {
+    withSlash.pathname += '/'
+    candidates.add(withSlash.toString())
+  }
+
+  return Array.from(candidates)
+}
+
+// =============================================================================
+// SERVICE
+// =============================================================================
+
+export class SchemaEmbedService {
+  private cache = new Map<string, CachedLookup>()
+
+  /**
+   * Schema for a page of the site key's domain, as the JSON body the loader expects
+   */
+  async getSchemaForUrl(siteKey: string, pageUrl: string): Promise<EmbedLookupResult> {
+    let candidates: string[]
+    try {
+      candidates = getCandidateUrls(pageUrl)
+    } catch {
+      return { status: 'not_found', message: 'Invalid page URL' }
+    }
+
+    const cacheKey = `${siteKey} ${candidates[0]}`
+    const cached = this.cache.get(cacheKey)
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.result
+    }
+
+    const result = await this.lookup(siteKey, candidates)
+    this.remember(cacheKey, result)
+    return result
+  }
+
+  /**
+   * Drop cached lookups for a site key (after the key is rotated or embedding is disabled)
+   */
+  invalidateSiteKey(siteKey: string): void {
+    for (const key of this.cache.keys()) {
+      if (key.startsWith(`${siteKey} `)) {
+        this.cache.delete(key)
+      }
+    }
+  }
+
+  private async lookup(siteKey: string, candidates: string[]): Promise<EmbedLookupResult> {
+    const domain = await db.getDomainByEmbedSiteKey(siteKey)
+    if (!domain || !domain.embedEnabled) {
+      return { status: 'not_found', message: 'Unknown or disabled site key' }
+    }
+
+    if (!isOnDomain(domain.domain, candidates[0])) {
+      return { status: 'forbidden', message: 'URL is not on the domain for this site key' }
+    }
+
+    const libraryUrl = await db.findDomainUrl(domain.id, candidates)
+    const records = libraryUrl ? await db.getSchemasForDiscoveredUrls([libraryUrl.id]) : new Map()
+    const page = libraryUrl ? Object.values(buildExportPages([libraryUrl], records))[0] : undefined
+
+    const body = JSON.stringify({
+      url: candidates[0],
+      schemas: page?.schemas || []
+    })
+
+    return {
+      status: 'ok',
+      body,
+      etag: `"${crypto.createHash('sha1').update(body).digest('base64url')}"`,
+      allowedOrigin: new URL(candidates[0]).origin
+    }
+  }
+
+  private remember(cacheKey: string, result: EmbedLookupResult): void {
+    if (this.cache.size >= CACHE_MAX_ENTRIES) {
+      // Maps iterate in insertion order, so this evicts the oldest entry
+      const oldestKey = this.cache.keys().next().value
+      if (oldestKey !== undefined) {
+        this.cache.delete(oldestKey)
+      }
+    }
+    this.cache.set(cacheKey, { result, expiresAt: Date.now() + CACHE_TTL_MS })
+  }
+}
+
+export const schemaEmbedService = new SchemaEmbedService()
+
+// =============================================================================
+// LOADER SCRIPT
+// =============================================================================
+
+/**
+ * The script sites embed. It reads its site key from data-site-key and calls back to the
+ * origin it was loaded from, so the same file works on every environment.
+ */
+export const EMBED_LOADER_SCRIPT = `(function () {
+  var script = document.currentScript;
+  var siteKey = script && script.getAttribute('data-site-key');
+  if (!siteKey || !window.fetch) return;
+
+  var pageUrl = location.href.split('#')[0];
+  var endpoint = new URL(script.src).origin + '/embed/' + encodeURIComponent(siteKey) +
+    '/schema?url=' + encodeURIComponent(pageUrl);
+
+  fetch(endpoint, { credentials: 'omit' })
+    .then(function (response) { return response.ok ? response.json() : null; })
+    .then(function (data) {
+      if (!data || !data.schemas) return;
+      data.schemas.forEach(function (schema) {
+        var tag = document.createElement('script');
+        tag.type = 'application/ld+json';
+        tag.setAttribute('data-superschema', '');
+        tag.textContent = JSON.stringify(schema);
+        document.head.appendChild(tag);
+      });
+    })
+    .catch(function () {});
+})();
+`
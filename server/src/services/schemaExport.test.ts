@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+import type { DiscoveredUrl } from 'aeo-schema-generator-shared/types'
+import { buildExportPages, buildFrameworkBundle, getExportPath, renderCsv } from './schemaExport.js'
+import { createZipArchive, crc32 } from '../utils/zipArchive.js'
+
+function libraryUrl(id: string, url: string): DiscoveredUrl {
+  return {
+    id,
+    userId: 'user_1',
+    domainId: 'domain_1',
+    url,
+    path: new URL(url).pathname,
+    depth: 1,
+    isHidden: false,
+    hasSchema: true,
+    createdAt: '2026-10-01T00:00:00Z',
+    updatedAt: '2026-10-01T00:00:00Z'
+  } as DiscoveredUrl
+}
+
+const article = { '@context': 'https://schema.org', '@type': 'Article', headline: 'Hello, "world"' }
+const faq = { '@context': 'https://schema.org', '@type': 'FAQPage', mainEntity: [] }
+
+describe('getExportPath', () => {
+  it('drops the query string and trailing slash', () => {
+    expect(getExportPath('https://example.com/blog/post/?utm=1')).toBe('/blog/post')
+    expect(getExportPath('https://example.com/')).toBe('/')
+  })
+})
+
+describe('buildExportPages', () => {
+  it('keys pages by normalized URL and keeps the newest generation of each type', () => {
+    const urls = [libraryUrl('u1', 'https://Example.com/blog/post/'), libraryUrl('u2', 'https://example.com/empty')]
+    const records = new Map([
+      ['u1', [
+        { schemaType: 'Article', schemas: [article] },
+        { schemaType: 'FAQPage', schemas: faq },
+        { schemaType: 'Article', schemas: [{ ...article, headline: 'Old' }] }
+      ]]
+    ])
+
+    const pages = buildExportPages(urls, records)
+
+    expect(Object.keys(pages)).toEqual(['https://example.com/blog/post'])
+    expect(pages['https://example.com/blog/post']).toMatchObject({
+      path: '/blog/post',
+      schemaTypes: ['Article', 'FAQPage'],
+      schemas: [article, faq]
+    })
+    expect(pages['https://example.com/blog/post'].html.match(/<script type="application\/ld\+json">/g)).toHaveLength(2)
+  })
+
+  it('combines the stored flat schemas into one @graph per page in graph mode', () => {
+    const records = new Map([['u1', [{ schemaType: 'Article', schemas: [article, faq] }]]])
+
+    const page = buildExportPages([libraryUrl('u1', 'https://example.com/blog/post')], records, 'graph')['https://example.com/blog/post']
+
+    expect(page.schemas).toHaveLength(1)
+    expect(page.schemas[0]['@graph'].map((node: any) => node['@id'])).toEqual(
+      expect.arrayContaining(['https://example.com/blog/post#article'])
+    )
+    expect(page.html.match(/<script type="application\/ld\+json">/g)).toHaveLength(1)
+  })
+})
+
+describe('renderCsv', () => {
+  it('quotes values containing commas, quotes and newlines', () => {
+    const pages = buildExportPages(
+      [libraryUrl('u1', 'https://example.com/a')],
+      new Map([['u1', [{ schemaType: 'Article', schemas: [article] }]]])
+    )
+
+    const [header, row] = renderCsv(pages).split('\r\n')
+    expect(header).toBe('url,path,schema_types,json_ld')
+    expect(row.startsWith('https://example.com/a,/a,Article,"<script')).toBe(true)
+    expect(row).toContain('""@type"": ""Article""')
+  })
+})
+
+describe('buildFrameworkBundle', () => {
+  const pages = buildExportPages(
+    [libraryUrl('u1', 'https://example.com/pricing')],
+    new Map([['u1', [{ schemaType: 'FAQPage', schemas: [faq] }]]])
+  )
+
+  it.each([
+    ['nextjs', 'superschema/schema-manifest.json', 'superschema/SchemaJsonLd.tsx'],
+    ['astro', 'src/data/schema-manifest.json', 'src/components/SchemaJsonLd.astro'],
+    ['hugo', 'data/superschema.json', 'layouts/partials/superschema.html'],
+    ['jekyll', '_data/superschema.json', '_includes/superschema.html']
+  ] as const)('%s bundle has a path-keyed data file and a renderer', (format, dataPath, rendererPath) => {
+    const files = buildFrameworkBundle(format, 'https://example.com', pages)
+    const dataFile = files.find(file => file.path === dataPath)
+
+    expect(files.map(file => file.path)).toContain(rendererPath)
+    expect(JSON.parse(dataFile!.content as string)).toEqual({ '/pricing': [faq] })
+  })
+})
+
+describe('createZipArchive', () => {
+  it('writes one local header per file and an end of central directory record', () => {
+    const zip = createZipArchive([
+      { path: 'a.txt', content: 'hello' },
+      { path: 'dir/b.json', content: '{}' }
+    ])
+
+    expect(zip.readUInt32LE(0)).toBe(0x04034b50)
+    expect(zip.readUInt32LE(zip.length - 22)).toBe(0x06054b50)
+    expect(zip.readUInt16LE(zip.length - 12)).toBe(2)
+    expect(zip.readUInt32LE(14)).toBe(crc32(Buffer.from('hello')))
+  })
+
+  it('computes standard CRC-32 checksums', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926)
+  })
+})
@@ -0,0 +1,350 @@
+/**
+ * Schema Export
+ * Downloads a domain's library schema for sites without a supported CMS
+ *
+ * Formats:
+ * - json: manifest keyed by normalized URL with schemas and ready-to-paste script tags
+ * - csv: one row per URL with its script tags
+ * - nextjs / astro / hugo / jekyll: zip bundle with a data file keyed by page path and the
+ *   component, partial or include that renders the matching JSON-LD in the page head
+ */
+
+import type {
+  DiscoveredUrl,
+  SchemaExportFormat,
+  SchemaExportManifest,
+  SchemaExportPage,
+  SchemaOutputMode
+} from 'aeo-schema-generator-shared/types'
+import { normalizeUrl } from 'aeo-schema-generator-shared/utils'
+import { db } from './database.js'
+import { createZipArchive, type ZipEntry } from '../utils/zipArchive.js'
+import { buildSchemaGraph } from '../utils/schemaGraph.js'
+
+export const SCHEMA_EXPORT_FORMATS: SchemaExportFormat[] = ['json', 'csv', 'nextjs', 'astro', 'hugo', 'jekyll']
+export const SCHEMA_OUTPUT_MODES: SchemaOutputMode[] = ['flat', 'graph']
+
+export interface SchemaExportFile {
+  filename: string
+  contentType: string
+  body: string | Buffer
+  pageCount: number
+}
+
+interface SchemaRecord {
+  schemas: any
+  schemaType: string
+}
+
+// =============================================================================
+// PAGES
+// =============================================================================
+
+/**
+ * Page path used as the framework lookup key: no query string, no trailing slash except "/"
+ */
+export function getExportPath(url: string): string {
+  try {
+    return new URL(url).pathname.replace(/\/+$/, '') || '/'
+  } catch {
+    return '/'
+  }
+}
+
+/**
+ * Build export pages keyed by normalized URL
+ * @param recordsByUrlId - successful generations per URL, newest first; only the newest
+ *   generation of each schema type is exported
+ * @param outputMode - 'graph' combines each page's schemas into one @graph document
+ */
+export function buildExportPages(
+  urls: DiscoveredUrl[],
+  recordsByUrlId: Map<string, SchemaRecord[]>,
+  outputMode: SchemaOutputMode = 'flat'
+): Record<string, SchemaExportPage> {
+  const pages: Record<string, SchemaExportPage> = {}
+
+  for (const url of urls) {
+    const seenTypes = new Set<string>()
+    const records = (recordsByUrlId.get(url.id) || []).filter(record => {
+      if (seenTypes.has(record.schemaType)) return false
+      seenTypes.add(record.schemaType)
+      return true
+    })
+
+    if (records.length === 0) continue
+
+    const flatSchemas = records.flatMap(record => (Array.isArray(record.schemas) ? record.schemas : [record.schemas]))
+    const normalizedUrl = normalizeUrl(url.url)
+    const schemas = outputMode === 'graph'
+      ? [buildSchemaGraph(flatSchemas, { url: normalizedUrl })]
+      : flatSchemas
+
+    pages[normalizedUrl] = {
+      path: getExportPath(normalizedUrl),
+      schemaTypes: records.map(record => record.schemaType),
+      schemas,
+      html: schemas
+        .map(schema => `<script type="application/ld+json">\n${JSON.stringify(schema, null, 2)}\n</script>`)
+        .join('\n')
+    }
+  }
+
+  return pages
+}
+
+/**
+ * Framework data file contents: schemas keyed by page path
+ * When several URLs share a path (query string variants), the first one wins
+ */
+function buildPathManifest(pages: Record<string, SchemaExportPage>): string {
+  const byPath: Record<string, any[]> = {}
+  for (const page of Object.values(pages)) {
+    if (!byPath[page.path]) {
+      byPath[page.path] = page.schemas
+    }
+  }
+  return JSON.stringify(byPath, null, 2)
+}
+
+// =============================================================================
+// RENDERERS
+// =============================================================================
+
+export function escapeCsvValue(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+export function renderCsv(pages: Record<string, SchemaExportPage>): string {
+  const rows = [['url', 'path', 'schema_types', 'json_ld']]
+  for (const [url, page] of Object.entries(pages)) {
+    rows.push([url, page.path, page.schemaTypes.join('|'), page.html])
+  }
+  return rows.map(row => row.map(escapeCsvValue).join(',')).join('\r\n') + '\r\n'
+}
+
+function readme(domain: string, format: string, lines: string[]): string {
+  return [
+    `# ${domain} schema (${format})`,
+    '',
+    'Exported from SuperSchema. Each page path maps to the JSON-LD generated for it;',
+    'pages without an entry render nothing. Re-export after editing schema in the URL library.',
+    '',
+    ...lines,
+    ''
+  ].join('\n')
+}
+
+export function buildFrameworkBundle(
+  format: Exclude<SchemaExportFormat, 'json' | 'csv'>,
+  domain: string,
+  pages: Record<string, SchemaExportPage>
+): ZipEntry[] {
+  const manifest = buildPathManifest(pages)
+
+  switch (format) {
+    case 'nextjs':
+      return [
+        { path: 'superschema/schema-manifest.json', content: manifest },
+        {
+          path: 'superschema/SchemaJsonLd.tsx',
+          content: [
+            "import manifest from './schema-manifest.json'",
+            '',
+            'const pages = manifest as Record<string, object[]>',
+            '',
+            '/** Renders the JSON-LD exported for a page path, e.g. <SchemaJsonLd path="/pricing" /> */',
+            'export function SchemaJsonLd({ path }: { path: string }) {',
+            "  const schemas = pages[path.replace(/\\/+$/, '') || '/']",
+            '  if (!schemas) return null',
+            '',
+            '  return (',
+            '    <>',
+            '      {schemas.map((schema, index) => (',
+            '        <script',
+            '          key={index}',
+            '          type="application/ld+json"',
+            "          dangerouslySetInnerHTML={{ __html: JSON.stringify(schema).replace(/</g, '\\\\u003c') }}",
+            '        />',
+            '      ))}',
+            '    </>',
+            '  )',
+            '}',
+            ''
+          ].join('\n')
+        },
+        {
+          path: 'superschema/README.md',
+          content: readme(domain, 'Next.js', [
+            'Copy the `superschema` folder into your project (requires `resolveJsonModule`), then render',
+            'the component in a page or layout:',
+            '',
+            '```tsx',
+            "import { SchemaJsonLd } from '@/superschema/SchemaJsonLd'",
+            '',
+            '<SchemaJsonLd path="/pricing" />',
+            '```'
+          ])
+        }
+      ]
+
+    case 'astro':
+      return [
+        { path: 'src/data/schema-manifest.json', content: manifest },
+        {
+          path: 'src/components/SchemaJsonLd.astro',
+          content: [
+            '---',
+            "import manifest from '../data/schema-manifest.json'",
+            '',
+            'const pages = manifest as Record<string, object[]>',
+            "const path = (Astro.props.path ?? Astro.url.pathname).replace(/\\/+$/, '') || '/'",
+            'const schemas = pages[path] ?? []',
+            '---',
+            '{schemas.map((schema) => <script type="application/ld+json" set:html={JSON.stringify(schema)} />)}',
+            ''
+          ].join('\n')
+        },
+        {
+          path: 'README.md',
+          content: readme(domain, 'Astro', [
+            'Merge `src/` into your project and add the component to the `<head>` of your layout:',
+            '',
+            '```astro',
+            "import SchemaJsonLd from '../components/SchemaJsonLd.astro'",
+            '',
+            '<SchemaJsonLd />',
+            '```',
+            '',
+            'The current page path is used unless a `path` prop is passed.'
+          ])
+        }
+      ]
+
+    case 'hugo':
+      return [
+        { path: 'data/superschema.json', content: manifest },
+        {
+          path: 'layouts/partials/superschema.html',
+          content: [
+            '{{- $path := strings.TrimSuffix "/" .RelPermalink | default "/" -}}',
+            '{{- with index site.Data.superschema $path -}}',
+            '{{- range . }}',
+            '<script type="application/ld+json">{{ jsonify . | safeJS }}</script>',
+            '{{- end }}',
+            '{{- end -}}',
+            ''
+          ].join('\n')
+        },
+        {
+          path: 'README.md',
+          content: readme(domain, 'Hugo', [
+            'Merge `data/` and `layouts/` into your site and call the partial in the `<head>` of your base template:',
+            '',
+            '```',
+            '{{ partial "superschema.html" . }}',
+            '```'
+          ])
+        }
+      ]
+
+    case 'jekyll':
+      return [
+        { path: '_data/superschema.json', content: manifest },
+        {
+          path: '_includes/superschema.html',
+          content: [
+            '{%- assign schema_path = page.url | split: "/" | join: "/" -%}',
+            '{%- if schema_path == "" -%}{%- assign schema_path = "/" -%}{%- endif -%}',
+            '{%- for schema in site.data.superschema[schema_path] %}',
+            '<script type="application/ld+json">{{ schema | jsonify }}</script>',
+            '{%- endfor %}',
+            ''
+          ].join('\n')
+        },
+        {
+          path: 'README.md',
+          content: readme(domain, 'Jekyll', [
+            'Merge `_data/` and `_includes/` into your site and include the snippet in the `<head>` of your layout:',
+            '',
+            '```liquid',
+            '{% include superschema.html %}',
+            '```',
+            '',
+            'Lookups use `page.url`, so pages need pretty permalinks (`/about/` rather than `/about.html`).'
+          ])
+        }
+      ]
+  }
+}
+
+// =============================================================================
+// SERVICE
+// =============================================================================
+
+export function getDomainSlug(domain: string): string {
+  try {
+    return new URL(domain).hostname
+  } catch {
+    return domain.replace(/[^a-z0-9.-]+/gi, '-')
+  }
+}
+
+export class SchemaExportService {
+  /**
+   * Export the schema of every visible library URL of a domain
+   * Returns null when the domain doesn't belong to the user
+   */
+  async exportDomain(
+    userId: string,
+    domainId: string,
+    format: SchemaExportFormat,
+    outputMode: SchemaOutputMode = 'flat'
+  ): Promise<SchemaExportFile | null> {
+    const domain = (await db.getUserDomains(userId)).find(d => d.id === domainId)
+    if (!domain) {
+      return null
+    }
+
+    const urls = await db.getUserUrls(userId, { domainId, hasSchema: true })
+    const recordsByUrlId = await db.getSchemasForDiscoveredUrls(urls.map(url => url.id))
+    const pages = buildExportPages(urls, recordsByUrlId, outputMode)
+    const pageCount = Object.keys(pages).length
+    const slug = getDomainSlug(domain.domain)
+
+    console.log(`📦 [SchemaExport] Exporting ${pageCount} pages of ${domain.domain} as ${format} (${outputMode})`)
+
+    if (format === 'json') {
+      const manifest: SchemaExportManifest = {
+        domain: domain.domain,
+        exportedAt: new Date().toISOString(),
+        pageCount,
+        pages
+      }
+      return {
+        filename: `${slug}-schema.json`,
+        contentType: 'application/json',
+        body: JSON.stringify(manifest, null, 2),
+        pageCount
+      }
+    }
+
+    if (format === 'csv') {
+      return {
+        filename: `${slug}-schema.csv`,
+        contentType: 'text/csv; charset=utf-8',
+        body: renderCsv(pages),
+        pageCount
+      }
+    }
+
+    return {
+      filename: `${slug}-schema-${format}.zip`,
+      contentType: 'application/zip',
+      body: createZipArchive(buildFrameworkBundle(format, domain.domain, pages)),
+      pageCount
+    }
+  }
+}
+
+export const schemaExportService = new SchemaExportService()
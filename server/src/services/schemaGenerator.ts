@@ -1,11 +1,14 @@
 import { scraperService } from './scraper.js'
 import { openaiService, type SchemaGenerationOptions, type ContentAnalysis } from './openai.js'
-import { anthropicService } from './anthropic.js'
+import { aiProviderRegistry } from './aiProviderRegistry.js'
 import { validatorService, type ComplianceResult } from './validator.js'
 import { db } from './database.js'
 import { extractSchemaType } from '../utils/schemaTypeDetector.js'
+import { computePageFingerprint } from '../utils/contentFingerprint.js'
+import { buildSchemaGraph } from '../utils/schemaGraph.js'
 import { sanitizeSchemaProperties, type SanitizationResult } from './schemaPropertyWhitelist.js'
-import type { JsonLdSchema } from 'aeo-schema-generator-shared/types'
+import type { JsonLdSchema, SchemaOrgCompliance, SchemaScore } from 'aeo-schema-generator-shared/types'
+import { calculateSchemaScore } from 'aeo-schema-generator-shared/utils'
 import { getUserActiveTeam } from './teamService.js'
 import {
   findOrganizationForDomain,
@@ -22,11 +25,8 @@ interface CompatibilityResult {
 }
 
 // AI Model Provider Selection
-// Set AI_MODEL_PROVIDER=anthropic (recommended) or AI_MODEL_PROVIDER=openai
-const AI_PROVIDER = (process.env.AI_MODEL_PROVIDER || 'anthropic').toLowerCase()
-console.log(`🤖 AI Model Provider: ${AI_PROVIDER.toUpperCase()}`)
-
-const aiService = AI_PROVIDER === 'anthropic' ? anthropicService : openaiService
+// Set AI_MODEL_PROVIDER=anthropic (recommended), openai or mock - see aiProviderRegistry for routing and failover
+console.log(`🤖 AI Model Provider: ${aiProviderRegistry.getPrimaryName().toUpperCase()}`)
 
 export interface SchemaGenerationResult {
   success: boolean
@@ -68,12 +68,14 @@ export interface GenerationRequest {
   userAgent?: string
   schemaType?: string
   shouldChargeCredits?: boolean
+  apiKeyId?: string // Team API key that made the request (headless/CI callers)
 }
 
 class SchemaGeneratorService {
   async generateSchemas(request: GenerationRequest): Promise<SchemaGenerationResult> {
     const startTime = Date.now()
     let generationId: string | null = null
+    let teamId: string | null = null
 
     // Move these outside try block so they're accessible in catch block
     const isLocalhost = process.env.NODE_ENV === 'development' || !process.env.SUPABASE_URL
@@ -97,7 +99,9 @@ class SchemaGeneratorService {
           creditsConsumed = await db.consumeCreditsAtomic(
             request.userId,
             1,
-            `Schema generation (pre-paid) for ${request.url}`
+            request.apiKeyId
+              ? `Schema generation (pre-paid, API key ${request.apiKeyId}) for ${request.url}`
+              : `Schema generation (pre-paid) for ${request.url}`
           )
 
           if (!creditsConsumed) {
@@ -130,7 +134,8 @@ class SchemaGeneratorService {
         {
           url: request.url,
           options: request.options,
-          generationId
+          generationId,
+          ...(request.apiKeyId && { apiKeyId: request.apiKeyId, source: 'api_key' })
         },
         request.ipAddress,
         request.userAgent
@@ -203,7 +208,7 @@ class SchemaGeneratorService {
 
       try {
         // Get user's active team
-        const teamId = await getUserActiveTeam(request.userId)
+        teamId = await getUserActiveTeam(request.userId)
         if (teamId) {
           // Extract domain from URL
           const urlDomain = new URL(request.url).hostname.replace(/^www\./, '')
@@ -244,7 +249,11 @@ class SchemaGeneratorService {
         publisherName: publisherData?.name || 'from scraped data'
       })
 
-      const rawSchemas = await aiService.generateSchemas(contentAnalysis, optionsToPass)
+      const { schemas: rawSchemas, provider } = await aiProviderRegistry.generateSchemas(
+        contentAnalysis,
+        optionsToPass,
+        { schemaType, teamId }
+      )
 
       if (!rawSchemas || rawSchemas.length === 0) {
         throw new Error('No schemas could be generated from the provided content')
@@ -344,13 +353,21 @@ class SchemaGeneratorService {
         status: 'success',
         processingTimeMs: processingTime,
         schemaScore: schemaScore,
-        schema_type: finalSchemaType  // Store the explicitly requested type or auto-detected type
+        schema_type: finalSchemaType,  // Store the explicitly requested type or auto-detected type
+        aiModelProvider: provider.modelId,  // May differ from the primary after a failover
+        contentFingerprint: computePageFingerprint(contentAnalysis)  // Baseline for drift monitoring
       })
 
       console.log(`💾 Database update: Saving ${schemasToUse.length} schemas with quality score and type "${finalSchemaType}"`)
 
       // Generate HTML-ready script tags for easy copy-pasting
-      const htmlScriptTags = this.generateHtmlScriptTags(schemasToUse)
+      // GRAPH OUTPUT: the flat schemas are stored (drift, webhooks and refinement read each
+      // schema's @type); only the script tags combine them into one @graph with stable @ids
+      const htmlScriptTags = this.generateHtmlScriptTags(
+        request.options?.outputMode === 'graph'
+          ? [buildSchemaGraph(schemasToUse, { url: request.url, organization: publisherData }) as unknown as JsonLdSchema]
+          : schemasToUse
+      )
 
       return {
         success: true,
@@ -386,10 +403,8 @@ class SchemaGeneratorService {
       // Determine which stage of the pipeline failed
       const failureStage = this.determineFailureStage(errorMessage, stackTrace)
 
-      // Get AI model provider being used
-      const aiModelProvider = AI_PROVIDER === 'anthropic'
-        ? 'claude-sonnet-4-20250514'
-        : 'openai-gpt-4o'
+      // Get AI model provider being used (set by the registry on AI errors)
+      const aiModelProvider = (error as any)?.aiModelProvider || aiProviderRegistry.getPrimary().modelId
 
       // Build request context for debugging
       const requestContext: any = {
@@ -761,189 +776,36 @@ class SchemaGeneratorService {
   }
 
   // Public method to calculate schema score
-  calculateSchemaScore(schemas: JsonLdSchema[], complianceResults?: ComplianceResult[]): any {
+  calculateSchemaScore(schemas: JsonLdSchema[], complianceResults?: ComplianceResult[]): SchemaScore {
     return this.calculateBasicScore(schemas, complianceResults)
   }
 
-  /**
-   * Get AEO properties valid for a specific schema type
-   * This prevents penalizing users for properties that were rightfully removed for compliance
-   */
-  private getAEOPropertiesForType(schemaType: string): string[] {
-    // Base properties valid for all types
-    const baseAEO = [
-      'keywords', 'about', 'mentions', 'sameAs',
-      'inLanguage', 'isPartOf', 'mainEntityOfPage',
-      'aggregateRating', 'review'
-    ]
-
-    // Article types can have articleSection and wordCount
-    const articleTypes = [
-      'Article', 'BlogPosting', 'NewsArticle',
-      'ScholarlyArticle', 'TechArticle', 'SocialMediaPosting', 'Report'
-    ]
-    if (articleTypes.includes(schemaType)) {
-      return [...baseAEO, 'articleSection', 'wordCount']
-    }
-
-    // CreativeWork types can have wordCount (but not articleSection)
-    const creativeWorkTypes = ['CreativeWork', 'Book', 'Review']
-    if (creativeWorkTypes.includes(schemaType)) {
-      return [...baseAEO, 'wordCount']
-    }
-
-    // All other types use base properties only
-    return baseAEO
-  }
-
-  /**
-   * Calculate compliance bonus/penalty based on validation results
-   * Graduated tiers: Perfect (+10), Good (+7), Acceptable (+5), Minor (0), Non-Compliant (-5), Severe (-10)
-   */
-  private calculateComplianceBonus(complianceResults?: ComplianceResult[]): { tier: string; bonusPoints: number; explanation: string } {
-    // Default to perfect compliance if no data (sanitization ensures compliance)
-    if (!complianceResults || complianceResults.length === 0) {
-      return { tier: 'perfect', bonusPoints: 10, explanation: 'Schema.org compliant' }
-    }
-
-    // Aggregate errors and warnings across all schemas
-    const totalErrors = complianceResults.reduce((sum, r) => sum + r.errors.length, 0)
-    const totalWarnings = complianceResults.reduce((sum, r) => sum + r.warnings.length, 0)
-
-    if (totalErrors === 0 && totalWarnings === 0) {
-      return { tier: 'perfect', bonusPoints: 10, explanation: 'Fully Schema.org compliant' }
-    }
-    if (totalErrors === 0 && totalWarnings <= 2) {
-      return { tier: 'good', bonusPoints: 7, explanation: `Compliant with ${totalWarnings} minor note${totalWarnings > 1 ? 's' : ''}` }
-    }
-    if (totalErrors === 0) {
-      return { tier: 'acceptable', bonusPoints: 5, explanation: `Compliant with ${totalWarnings} notes` }
-    }
-    if (totalErrors === 1) {
-      return { tier: 'minor_issues', bonusPoints: 0, explanation: '1 compliance issue to address' }
-    }
-    if (totalErrors <= 3) {
-      return { tier: 'non_compliant', bonusPoints: -5, explanation: `${totalErrors} compliance issues` }
-    }
-    return { tier: 'severely_non_compliant', bonusPoints: -10, explanation: `${totalErrors} compliance issues - will fail validation` }
-  }
-
-  // Calculate a comprehensive score for schemas
-  private calculateBasicScore(schemas: JsonLdSchema[], complianceResults?: ComplianceResult[]): any {
-    const schema = schemas[0] // For now, score the first schema
-    const schemaType = schema['@type'] || 'Unknown'
-
-    let requiredProps = 0
-    let recommendedProps = 0
-    let advancedAEOFeatures = 0
-    let contentQuality = 0
-
-    // REQUIRED PROPERTIES (Max 100 points)
-    if (schema['@context']) requiredProps += 33
-    if (schema['@type']) requiredProps += 33
-    if (schema['name'] || schema['headline']) requiredProps += 34
-
-    // RECOMMENDED PROPERTIES (Max 100 points)
-    let recommendedCount = 0
-    const recommendedProperties = [
-      'description', 'url', 'image', 'author', 'publisher',
-      'datePublished', 'dateModified'
-    ]
-
-    recommendedProperties.forEach(prop => {
-      if (schema[prop]) recommendedCount++
-    })
-    recommendedProps = Math.round((recommendedCount / recommendedProperties.length) * 100)
-
-    // ADVANCED AEO FEATURES (Max 100 points) - Type-aware
-    // NOTE: speakable removed - causes validator.schema.org CSS selector errors
-    const aeoProperties = this.getAEOPropertiesForType(schemaType)
-    let aeoCount = 0
-
-    aeoProperties.forEach(prop => {
-      if (schema[prop]) aeoCount++
-    })
-    advancedAEOFeatures = Math.round((aeoCount / aeoProperties.length) * 100)
-
-    // CONTENT QUALITY (Max 100 points)
-    let qualityScore = 0
-
-    // Check description quality
-    if (schema['description']) {
-      const descLength = schema['description'].length
-      if (descLength >= 50 && descLength <= 160) qualityScore += 20
-      else if (descLength > 0) qualityScore += 10
-    }
-
-    // Check for structured author
-    if (schema['author'] && typeof schema['author'] === 'object') {
-      qualityScore += 15
-      if (schema['author'].sameAs) qualityScore += 10
-    } else if (schema['author']) {
-      qualityScore += 10
-    }
-
-    // Check for structured publisher
-    if (schema['publisher'] && typeof schema['publisher'] === 'object') {
-      qualityScore += 15
-      if (schema['publisher'].logo) qualityScore += 10
-    }
-
-    // Check for image with details
-    if (schema['image']) {
-      qualityScore += 10
-      if (typeof schema['image'] === 'object' || Array.isArray(schema['image'])) {
-        qualityScore += 10
-      }
-    }
-
-    // Check for keywords
-    if (schema['keywords']) {
-      if (Array.isArray(schema['keywords']) && schema['keywords'].length > 0) {
-        qualityScore += 10
-      } else if (typeof schema['keywords'] === 'string' && schema['keywords'].length > 0) {
-        qualityScore += 5
-      }
-    }
-
-    contentQuality = Math.min(qualityScore, 100)
-
-    // Calculate compliance bonus/penalty
-    const complianceImpact = this.calculateComplianceBonus(complianceResults)
-
-    // Calculate base score (weighted average)
-    const baseScore = Math.round(
-      (requiredProps * 0.35) +        // 35% weight on required properties
-      (recommendedProps * 0.25) +     // 25% weight on recommended properties
-      (advancedAEOFeatures * 0.25) +  // 25% weight on AEO features
-      (contentQuality * 0.15)         // 15% weight on content quality
-    )
+  // Calculate a comprehensive score for schemas (same scoring the client uses)
+  private calculateBasicScore(schemas: JsonLdSchema[], complianceResults?: ComplianceResult[]): SchemaScore {
+    // Aggregate compliance across all schemas
+    const compliance: SchemaOrgCompliance | undefined = complianceResults && complianceResults.length > 0
+      ? {
+          isCompliant: complianceResults.every(r => r.isCompliant),
+          errors: complianceResults.flatMap(r => r.errors),
+          warnings: complianceResults.flatMap(r => r.warnings)
+        }
+      : undefined
 
-    // Apply compliance bonus/penalty (capped at 0-100)
-    const overallScore = Math.max(0, Math.min(100, baseScore + complianceImpact.bonusPoints))
+    const score = calculateSchemaScore(schemas, compliance)
+    const { breakdown, complianceImpact } = score
 
     console.log(`📊 Schema Score Breakdown:`)
-    console.log(`   Required: ${requiredProps}/100`)
-    console.log(`   Recommended: ${recommendedProps}/100`)
-    console.log(`   Advanced AEO: ${advancedAEOFeatures}/100 (type-aware for ${schemaType})`)
-    console.log(`   Content Quality: ${contentQuality}/100`)
-    console.log(`   Compliance: ${complianceImpact.bonusPoints > 0 ? '+' : ''}${complianceImpact.bonusPoints} (${complianceImpact.tier})`)
-    console.log(`   Base: ${baseScore}/100, Final: ${overallScore}/100`)
-
-    return {
-      overallScore,
-      breakdown: {
-        requiredProperties: requiredProps,
-        recommendedProperties: recommendedProps,
-        advancedAEOFeatures: advancedAEOFeatures,
-        contentQuality: contentQuality,
-        complianceBonus: complianceImpact.bonusPoints
-      },
-      suggestions: [],
-      strengths: [],
-      actionItems: [],
-      complianceImpact
+    console.log(`   Required: ${breakdown.requiredProperties}/100`)
+    console.log(`   Recommended: ${breakdown.recommendedProperties}/100`)
+    console.log(`   Advanced AEO: ${breakdown.advancedAEOFeatures}/100 (type-aware for ${schemas[0]?.['@type'] || 'Unknown'})`)
+    console.log(`   Content Quality: ${breakdown.contentQuality}/100`)
+    if (complianceImpact) {
+      console.log(`   Compliance: ${complianceImpact.bonusPoints > 0 ? '+' : ''}${complianceImpact.bonusPoints} (${complianceImpact.tier})`)
     }
+    console.log(`   Rich results: ${(score.richResults || []).map(r => `${r.name} (${r.status})`).join(', ') || 'none'}`)
+    console.log(`   Final: ${score.overallScore}/100`)
+
+    return score
   }
 
   // Check if requested schema type is compatible with page content
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from 'vitest'
+
+// schemaImpact pulls in services that create a Supabase client at import time
+vi.mock('@supabase/supabase-js', () => ({ createClient: vi.fn(() => ({})) }))
+
+import type { DiscoveredUrl } from 'aeo-schema-generator-shared/types'
+import type { PageAIDailyActivity } from './ga4/data.js'
+import {
+  analyzePageImpact,
+  getSchemaDeployments,
+  indexActivityByPath,
+  normalizePagePath,
+  summarizeImpact,
+  type SchemaDeployment
+} from './schemaImpact.js'
+
+function url(id: string, path: string, hasSchema: boolean = true): DiscoveredUrl {
+  return {
+    id,
+    userId: 'user-1',
+    url: `https://example.com${path}`,
+    path,
+    depth: 1,
+    isHidden: false,
+    hasSchema,
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z'
+  }
+}
+
+/** One activity row per day in [startDate, startDate + days) */
+function daily(path: string, startDate: string, days: number, sessions: number, platforms: string[]): PageAIDailyActivity[] {
+  return Array.from({ length: days }, (_, i) => {
+    const date = new Date(`${startDate}T00:00:00Z`)
+    date.setUTCDate(date.getUTCDate() + i)
+    return { date: date.toISOString().split('T')[0], path, sessions, platforms }
+  })
+}
+
+describe('normalizePagePath', () => {
+  it('drops query strings, fragments and trailing slashes', () => {
+    expect(normalizePagePath('/blog/post/?utm_source=chatgpt.com')).toBe('/blog/post')
+    expect(normalizePagePath('/pricing#plans')).toBe('/pricing')
+    expect(normalizePagePath('/')).toBe('/')
+    expect(normalizePagePath('')).toBe('/')
+  })
+})
+
+describe('getSchemaDeployments', () => {
+  it('dates deployments by the first CMS push, falling back to the first generation', () => {
+    const urls = [url('a', '/pushed/'), url('b', '/generated'), url('c', '/none', false)]
+    const records = new Map([
+      ['a', [{ id: 'gen-a2', createdAt: '2026-03-01T10:00:00Z' }, { id: 'gen-a1', createdAt: '2026-02-01T10:00:00Z' }]],
+      ['b', [{ id: 'gen-b1', createdAt: '2026-02-10T23:30:00Z' }]]
+    ])
+    const pushes = [
+      { schemaGenerationId: 'gen-a2', syncedAt: '2026-03-05T09:00:00Z' },
+      { schemaGenerationId: 'gen-a1', syncedAt: '2026-02-20T09:00:00Z' }
+    ]
+
+    expect(getSchemaDeployments(urls, records, pushes)).toEqual([
+      { urlId: 'a', url: 'https://example.com/pushed/', path: '/pushed', deployedAt: '2026-02-20', source: 'cms_push' },
+      { urlId: 'b', url: 'https://example.com/generated', path: '/generated', deployedAt: '2026-02-10', source: 'generation' }
+    ])
+  })
+})
+
+describe('analyzePageImpact', () => {
+  const deployment: SchemaDeployment = {
+    urlId: 'a',
+    url: 'https://example.com/guide',
+    path: '/guide',
+    deployedAt: '2026-03-15',
+    source: 'cms_push'
+  }
+
+  const activity = indexActivityByPath([
+    // 7 days before: 1 session/day from ChatGPT; deployment day is ignored; 7 days after: 3/day from two platforms
+    ...daily('/guide/', '2026-03-08', 7, 1, ['ChatGPT']),
+    ...daily('/guide', '2026-03-15', 1, 50, ['Claude']),
+    ...daily('/guide', '2026-03-16', 7, 3, ['ChatGPT', 'Perplexity']),
+    // Control page: 2/day throughout
+    ...daily('/about', '2026-03-08', 15, 2, ['ChatGPT'])
+  ])
+
+  it('compares equal windows around the deployment against the control group', () => {
+    const impact = analyzePageImpact(deployment, activity, ['/about', '/contact'], 7, '2026-01-01', '2026-04-01')
+
+    expect(impact.status).toBe('complete')
+    expect(impact.before).toMatchObject({ startDate: '2026-03-08', endDate: '2026-03-14', days: 7, aiSessions: 7, aiPlatforms: ['ChatGPT'] })
+    expect(impact.after).toMatchObject({ startDate: '2026-03-16', endDate: '2026-03-22', days: 7, aiSessions: 21, aiPlatforms: ['ChatGPT', 'Perplexity'] })
+    expect(impact.sessionsChangePercentage).toBe(200)
+    expect(impact.platformsChange).toBe(1)
+    expect(impact.control).toEqual({
+      pages: 2,
+      beforeSessionsPerPageDay: 1,
+      afterSessionsPerPageDay: 1,
+      sessionsChangePercentage: 0,
+      averagePlatformsChange: 0
+    })
+    expect(impact.liftPercentage).toBe(200)
+  })
+
+  it('marks running and out-of-range windows', () => {
+    const running = analyzePageImpact(deployment, activity, [], 7, '2026-01-01', '2026-03-18')
+    expect(running.status).toBe('in_progress')
+    expect(running.after?.days).toBe(3)
+    expect(running.control).toBeNull()
+
+    const tooOld = analyzePageImpact(deployment, activity, [], 7, '2026-03-10', '2026-04-01')
+    expect(tooOld.status).toBe('too_old')
+    expect(tooOld.before).toBeNull()
+  })
+})
+
+describe('summarizeImpact', () => {
+  it('rolls up completed pages only', () => {
+    const base: SchemaDeployment = { urlId: 'a', url: 'https://example.com/a', path: '/a', deployedAt: '2026-03-15', source: 'generation' }
+    const activity = indexActivityByPath([
+      ...daily('/a', '2026-03-08', 7, 2, ['ChatGPT']),
+      ...daily('/a', '2026-03-16', 7, 4, ['ChatGPT', 'Claude']),
+      ...daily('/c', '2026-03-08', 7, 1, ['ChatGPT']),
+      ...daily('/c', '2026-03-16', 7, 1, ['ChatGPT'])
+    ])
+
+    const pages = [
+      analyzePageImpact(base, activity, ['/c'], 7, '2026-01-01', '2026-04-01'),
+      analyzePageImpact({ ...base, urlId: 'b', path: '/b', deployedAt: '2026-03-30' }, activity, ['/c'], 7, '2026-01-01', '2026-04-01')
+    ]
+    const rollup = summarizeImpact(pages, 7)
+
+    expect(rollup).toMatchObject({
+      pagesWithSchema: 2,
+      pagesComplete: 1,
+      pagesInProgress: 1,
+      pagesTooOld: 0,
+      schemaPages: { pages: 1, beforeSessionsPerPageDay: 2, afterSessionsPerPageDay: 4, sessionsChangePercentage: 100, averagePlatformsChange: 1 },
+      control: { pages: 1, sessionsChangePercentage: 0 },
+      liftPercentage: 100
+    })
+    expect(rollup.pages.map(page => page.deployment.urlId)).toEqual(['b', 'a'])
+  })
+})
@@ -0,0 +1,497 @@
+/**
+ * Schema Impact
+ * Correlates schema deployments with GA4 AI referral traffic per page
+ *
+ * A page's deployment date is its first successful HubSpot/WordPress push, falling back to
+ * its first schema generation (embed loader and manual installs leave no push record).
+ * AI sessions and distinct AI platforms in equal windows before and after that date are
+ * compared against library pages without schema over the same windows (the control group).
+ * The deployment day itself belongs to neither window, and today is left out as incomplete.
+ */
+
+import type { DiscoveredUrl } from 'aeo-schema-generator-shared/types'
+import { db } from './database.js'
+import { ga4Data, type PageAIDailyActivity } from './ga4/data.js'
+import { isOnDomain } from './schemaEmbed.js'
+
+export const SCHEMA_IMPACT_WINDOWS = [7, 14, 28]
+
+/** GA4 is never queried further back than this - older deployments are reported as too old */
+const MAX_LOOKBACK_DAYS = 180
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type SchemaDeploymentSource = 'cms_push' | 'generation'
+
+/** complete: both windows are fully covered; in_progress: the after window is still running */
+export type SchemaImpactStatus = 'complete' | 'in_progress' | 'too_old'
+
+interface SchemaRecord {
+  id: string
+  createdAt: string
+}
+
+export interface SchemaDeployment {
+  urlId: string
+  url: string
+  path: string
+  /** YYYY-MM-DD */
+  deployedAt: string
+  source: SchemaDeploymentSource
+}
+
+export interface SchemaImpactWindow {
+  startDate: string
+  endDate: string
+  days: number
+  aiSessions: number
+  sessionsPerDay: number
+  aiPlatforms: string[]
+}
+
+/** Per-page averages, so groups of different sizes compare */
+export interface SchemaImpactGroup {
+  pages: number
+  beforeSessionsPerPageDay: number
+  afterSessionsPerPageDay: number
+  sessionsChangePercentage: number | null
+  averagePlatformsChange: number
+}
+
+export interface PageSchemaImpact {
+  deployment: SchemaDeployment
+  windowDays: number
+  status: SchemaImpactStatus
+  before: SchemaImpactWindow | null
+  after: SchemaImpactWindow | null
+  /** Change in AI sessions per day, null without AI sessions before */
+  sessionsChangePercentage: number | null
+  platformsChange: number
+  /** Pages without schema over the same windows */
+  control: SchemaImpactGroup | null
+  /** Page change minus control change, in percentage points */
+  liftPercentage: number | null
+}
+
+export interface SchemaImpactRollup {
+  windowDays: number
+  pagesWithSchema: number
+  pagesComplete: number
+  pagesInProgress: number
+  pagesTooOld: number
+  /** Completed pages only */
+  schemaPages: SchemaImpactGroup
+  control: SchemaImpactGroup | null
+  liftPercentage: number | null
+  pages: PageSchemaImpact[]
+}
+
+export interface SchemaImpactResult<T> {
+  impact: T | null
+  /** Why the impact is missing */
+  note?: string
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`)
+  result.setUTCDate(result.getUTCDate() + days)
+  return toDateString(result)
+}
+
+function daysBetween(startDate: string, endDate: string): number {
+  return Math.round((Date.parse(`${endDate}T00:00:00Z`) - Date.parse(`${startDate}T00:00:00Z`)) / (24 * 60 * 60 * 1000)) + 1
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0
+}
+
+export function percentageChange(before: number, after: number): number | null {
+  if (before <= 0) return null
+  return round(((after - before) / before) * 100, 1)
+}
+
+/**
+ * GA4 page paths and library paths without query string, fragment or trailing slash
+ */
+export function normalizePagePath(path: string): string {
+  const pathname = path.split(/[?#]/)[0] || '/'
+  const trimmed = pathname.replace(/\/+$/, '')
+  return trimmed === '' ? '/' : trimmed.startsWith('/') ? trimmed : `/${trimmed}`
+}
+
+function getUrlPath(url: DiscoveredUrl): string {
+  if (url.path) return normalizePagePath(url.path)
+  try {
+    return normalizePagePath(new URL(url.url).pathname)
+  } catch {
+    return '/'
+  }
+}
+
+export function indexActivityByPath(activity: PageAIDailyActivity[]): Map<string, PageAIDailyActivity[]> {
+  const byPath = new Map<string, PageAIDailyActivity[]>()
+  for (const day of activity) {
+    const path = normalizePagePath(day.path)
+    const days = byPath.get(path) || []
+    days.push(day)
+    byPath.set(path, days)
+  }
+  return byPath
+}
+
+// =============================================================================
+// ANALYSIS
+// =============================================================================
+
+/**
+ * When schema went live on each library URL
+ * First successful CMS push of any of the URL's generations, otherwise its first generation
+ */
+export function getSchemaDeployments(
+  urls: DiscoveredUrl[],
+  recordsByUrlId: Map<string, SchemaRecord[]>,
+  pushes: Array<{ schemaGenerationId: string; syncedAt: string }>
+): SchemaDeployment[] {
+  const firstPushByGeneration = new Map<string, string>()
+  for (const push of pushes) {
+    const current = firstPushByGeneration.get(push.schemaGenerationId)
+    if (!current || push.syncedAt < current) {
+      firstPushByGeneration.set(push.schemaGenerationId, push.syncedAt)
+    }
+  }
+
+  const deployments: SchemaDeployment[] = []
+  for (const url of urls) {
+    const records = recordsByUrlId.get(url.id) || []
+    if (records.length === 0) continue
+
+    const pushedAt = records
+      .map(record => firstPushByGeneration.get(record.id))
+      .filter((date): date is string => !!date)
+      .sort()[0]
+    const generatedAt = records.map(record => record.createdAt).sort()[0]
+
+    deployments.push({
+      urlId: url.id,
+      url: url.url,
+      path: getUrlPath(url),
+      deployedAt: toDateString(new Date(pushedAt || generatedAt)),
+      source: pushedAt ? 'cms_push' : 'generation'
+    })
+  }
+
+  return deployments
+}
+
+/**
+ * Before window ends the day before deployment; the after window starts the day after
+ * and stops at the last complete day
+ */
+export function getImpactWindowRanges(deployedAt: string, windowDays: number, lastCompleteDate: string) {
+  const afterEnd = addDays(deployedAt, windowDays)
+  return {
+    before: { startDate: addDays(deployedAt, -windowDays), endDate: addDays(deployedAt, -1) },
+    after: { startDate: addDays(deployedAt, 1), endDate: afterEnd < lastCompleteDate ? afterEnd : lastCompleteDate }
+  }
+}
+
+export function summarizeWindow(
+  days: PageAIDailyActivity[] | undefined,
+  startDate: string,
+  endDate: string
+): SchemaImpactWindow {
+  const length = Math.max(0, daysBetween(startDate, endDate))
+  const platforms = new Set<string>()
+  let aiSessions = 0
+
+  for (const day of days || []) {
+    if (day.date < startDate || day.date > endDate) continue
+    aiSessions += day.sessions
+    day.platforms.forEach(platform => platforms.add(platform))
+  }
+
+  return {
+    startDate,
+    endDate,
+    days: length,
+    aiSessions,
+    sessionsPerDay: length > 0 ? round(aiSessions / length, 2) : 0,
+    aiPlatforms: [...platforms].sort()
+  }
+}
+
+/**
+ * Per-page averages of a group of pages over a pair of windows
+ */
+export function summarizeGroup(
+  activityByPath: Map<string, PageAIDailyActivity[]>,
+  paths: string[],
+  before: { startDate: string; endDate: string },
+  after: { startDate: string; endDate: string }
+): SchemaImpactGroup {
+  const windows = paths.map(path => ({
+    before: summarizeWindow(activityByPath.get(path), before.startDate, before.endDate),
+    after: summarizeWindow(activityByPath.get(path), after.startDate, after.endDate)
+  }))
+
+  const beforeRate = average(windows.map(w => w.before.sessionsPerDay))
+  const afterRate = average(windows.map(w => w.after.sessionsPerDay))
+
+  return {
+    pages: paths.length,
+    beforeSessionsPerPageDay: round(beforeRate, 2),
+    afterSessionsPerPageDay: round(afterRate, 2),
+    sessionsChangePercentage: percentageChange(beforeRate, afterRate),
+    averagePlatformsChange: round(average(windows.map(w => w.after.aiPlatforms.length - w.before.aiPlatforms.length)), 2)
+  }
+}
+
+export function analyzePageImpact(
+  deployment: SchemaDeployment,
+  activityByPath: Map<string, PageAIDailyActivity[]>,
+  controlPaths: string[],
+  windowDays: number,
+  earliestDate: string,
+  lastCompleteDate: string
+): PageSchemaImpact {
+  const ranges = getImpactWindowRanges(deployment.deployedAt, windowDays, lastCompleteDate)
+
+  if (ranges.before.startDate < earliestDate) {
+    return {
+      deployment,
+      windowDays,
+      status: 'too_old',
+      before: null,
+      after: null,
+      sessionsChangePercentage: null,
+      platformsChange: 0,
+      control: null,
+      liftPercentage: null
+    }
+  }
+
+  const before = summarizeWindow(activityByPath.get(deployment.path), ranges.before.startDate, ranges.before.endDate)
+  const after = summarizeWindow(activityByPath.get(deployment.path), ranges.after.startDate, ranges.after.endDate)
+  const control = controlPaths.length > 0 && after.days > 0
+    ? summarizeGroup(activityByPath, controlPaths, ranges.before, ranges.after)
+    : null
+
+  const sessionsChangePercentage = after.days > 0 ? percentageChange(before.sessionsPerDay, after.sessionsPerDay) : null
+
+  return {
+    deployment,
+    windowDays,
+    status: after.days >= windowDays ? 'complete' : 'in_progress',
+    before,
+    after,
+    sessionsChangePercentage,
+    platformsChange: after.aiPlatforms.length - before.aiPlatforms.length,
+    control,
+    liftPercentage: sessionsChangePercentage !== null && control?.sessionsChangePercentage != null
+      ? round(sessionsChangePercentage - control.sessionsChangePercentage, 1)
+      : null
+  }
+}
+
+/**
+ * Domain rollup - completed pages against the control group over each page's own windows
+ */
+export function summarizeImpact(pages: PageSchemaImpact[], windowDays: number): SchemaImpactRollup {
+  const complete = pages.filter(page => page.status === 'complete')
+
+  const beforeRate = average(complete.map(page => page.before!.sessionsPerDay))
+  const afterRate = average(complete.map(page => page.after!.sessionsPerDay))
+  const schemaPages: SchemaImpactGroup = {
+    pages: complete.length,
+    beforeSessionsPerPageDay: round(beforeRate, 2),
+    afterSessionsPerPageDay: round(afterRate, 2),
+    sessionsChangePercentage: percentageChange(beforeRate, afterRate),
+    averagePlatformsChange: round(average(complete.map(page => page.platformsChange)), 2)
+  }
+
+  const controls = complete.map(page => page.control).filter((group): group is SchemaImpactGroup => !!group)
+  let control: SchemaImpactGroup | null = null
+  if (controls.length > 0) {
+    const controlBefore = average(controls.map(group => group.beforeSessionsPerPageDay))
+    const controlAfter = average(controls.map(group => group.afterSessionsPerPageDay))
+    control = {
+      pages: controls[0].pages,
+      beforeSessionsPerPageDay: round(controlBefore, 2),
+      afterSessionsPerPageDay: round(controlAfter, 2),
+      sessionsChangePercentage: percentageChange(controlBefore, controlAfter),
+      averagePlatformsChange: round(average(controls.map(group => group.averagePlatformsChange)), 2)
+    }
+  }
+
+  return {
+    windowDays,
+    pagesWithSchema: pages.length,
+    pagesComplete: complete.length,
+    pagesInProgress: pages.filter(page => page.status === 'in_progress').length,
+    pagesTooOld: pages.filter(page => page.status === 'too_old').length,
+    schemaPages,
+    control,
+    liftPercentage: schemaPages.sessionsChangePercentage !== null && control?.sessionsChangePercentage != null
+      ? round(schemaPages.sessionsChangePercentage - control.sessionsChangePercentage, 1)
+      : null,
+    pages: [...pages].sort((a, b) => b.deployment.deployedAt.localeCompare(a.deployment.deployedAt))
+  }
+}
+
+// =============================================================================
+// SERVICE
+// =============================================================================
+
+export class SchemaImpactService {
+  /**
+   * Deployments of the given URLs plus the control paths of their domain
+   */
+  private async getDeployments(libraryUrls: DiscoveredUrl[]): Promise<{
+    deployments: SchemaDeployment[]
+    controlPaths: string[]
+  }> {
+    const schemaUrls = libraryUrls.filter(url => url.hasSchema)
+    const recordsByUrlId = await db.getSchemasForDiscoveredUrls(schemaUrls.map(url => url.id))
+    const generationIds = [...recordsByUrlId.values()].flatMap(records => records.map(record => record.id))
+    const pushes = await db.getSuccessfulCMSPushes(generationIds)
+
+    const deployments = getSchemaDeployments(schemaUrls, recordsByUrlId, pushes)
+    const schemaPaths = new Set(deployments.map(deployment => deployment.path))
+    const controlPaths = [...new Set(
+      libraryUrls.filter(url => !url.hasSchema).map(getUrlPath)
+    )].filter(path => !schemaPaths.has(path))
+
+    return { deployments, controlPaths }
+  }
+
+  /**
+   * Per-page impact of the deployments, querying GA4 only for the days the windows need
+   */
+  private async analyze(
+    userId: string,
+    mapping: { id: string; propertyId: string },
+    deployments: SchemaDeployment[],
+    controlPaths: string[],
+    windowDays: number
+  ): Promise<PageSchemaImpact[]> {
+    const today = toDateString(new Date())
+    const lastCompleteDate = addDays(today, -1)
+    const earliestDate = addDays(today, -MAX_LOOKBACK_DAYS)
+
+    const neededStart = deployments
+      .map(deployment => addDays(deployment.deployedAt, -windowDays))
+      .filter(date => date >= earliestDate)
+      .sort()[0]
+
+    const activity = neededStart && neededStart <= lastCompleteDate
+      ? await ga4Data.getPageAIDailyActivity(
+        userId,
+        mapping.propertyId,
+        new Date(`${neededStart}T00:00:00Z`),
+        new Date(`${lastCompleteDate}T00:00:00Z`),
+        mapping.id
+      )
+      : []
+    const activityByPath = indexActivityByPath(activity)
+
+    return deployments.map(deployment =>
+      analyzePageImpact(deployment, activityByPath, controlPaths, windowDays, earliestDate, lastCompleteDate)
+    )
+  }
+
+  private async getLibraryUrls(userId: string, domain: string): Promise<DiscoveredUrl[]> {
+    return (await db.getUserUrls(userId)).filter(url => isOnDomain(domain, url.url))
+  }
+
+  /**
+   * Impact rollup for the library pages on a GA4 mapping's domain
+   * Returns null when the mapping doesn't belong to the user
+   */
+  async getDomainImpact(
+    userId: string,
+    mappingId: string,
+    windowDays: number
+  ): Promise<SchemaImpactResult<SchemaImpactRollup> | null> {
+    const mapping = (await db.getGA4DomainMappings(userId)).find(m => m.id === mappingId)
+    if (!mapping) {
+      return null
+    }
+
+    const { deployments, controlPaths } = await this.getDeployments(await this.getLibraryUrls(userId, mapping.domain))
+    if (deployments.length === 0) {
+      return { impact: null, note: 'No library pages on this domain have schema yet.' }
+    }
+
+    console.log(`📊 [SchemaImpact] Analyzing ${deployments.length} deployments on ${mapping.domain} (${windowDays}-day windows)`)
+
+    try {
+      const pages = await this.analyze(userId, mapping, deployments, controlPaths, windowDays)
+      return { impact: summarizeImpact(pages, windowDays) }
+    } catch (error) {
+      console.error(`❌ [SchemaImpact] GA4 data unavailable for ${mapping.domain}:`, error)
+      return { impact: null, note: 'AI referral traffic could not be loaded from Google Analytics.' }
+    }
+  }
+
+  /**
+   * Impact of the schema on a single library URL
+   * Returns null when the URL doesn't belong to the user
+   */
+  async getUrlImpact(
+    userId: string,
+    urlId: string,
+    windowDays: number
+  ): Promise<SchemaImpactResult<PageSchemaImpact> | null> {
+    const [url] = await db.getUserUrlsByIds(userId, [urlId])
+    if (!url) {
+      return null
+    }
+
+    const mapping = (await db.getGA4DomainMappings(userId)).find(m => isOnDomain(m.domain, url.url))
+    if (!mapping) {
+      return { impact: null, note: 'Connect Google Analytics and map a GA4 property to this domain to see AI traffic impact.' }
+    }
+
+    if (!url.hasSchema) {
+      return { impact: null, note: 'This URL has no schema yet.' }
+    }
+
+    // Hidden URLs are left out of the library listing but can still be opened
+    const libraryUrls = await this.getLibraryUrls(userId, mapping.domain)
+    if (!libraryUrls.some(u => u.id === url.id)) {
+      libraryUrls.push(url)
+    }
+
+    const { deployments, controlPaths } = await this.getDeployments(libraryUrls)
+    const deployment = deployments.find(d => d.urlId === url.id)
+    if (!deployment) {
+      return { impact: null, note: 'This URL has no schema yet.' }
+    }
+
+    try {
+      const [impact] = await this.analyze(userId, mapping, [deployment], controlPaths, windowDays)
+      return { impact }
+    } catch (error) {
+      console.error(`❌ [SchemaImpact] GA4 data unavailable for ${url.url}:`, error)
+      return { impact: null, note: 'AI referral traffic could not be loaded from Google Analytics.' }
+    }
+  }
+}
+
+export const schemaImpactService = new SchemaImpactService()
@@ -0,0 +1,38 @@
+import { describe, it, expect, vi } from 'vitest'
+
+// schemaImport pulls in services that create a Supabase client at import time
+vi.mock('@supabase/supabase-js', () => ({ createClient: vi.fn(() => ({})) }))
+
+import { prepareImportedSchemas } from './schemaImport.js'
+
+describe('prepareImportedSchemas', () => {
+  it('unwraps arrays and @graph containers into individual schemas', () => {
+    const schemas = prepareImportedSchemas([
+      { '@context': 'https://schema.org', '@type': 'Organization', name: 'Acme' },
+      [{ '@type': 'WebSite', name: 'Acme' }],
+      {
+        '@context': 'https://schema.org',
+        '@graph': [
+          { '@type': 'Article', headline: 'Hello' },
+          { '@type': 'BreadcrumbList', itemListElement: [] }
+        ]
+      }
+    ])
+
+    expect(schemas.map(schema => schema['@type'])).toEqual(['Organization', 'WebSite', 'Article', 'BreadcrumbList'])
+  })
+
+  it('adds a missing @context and keeps an existing one', () => {
+    const [withoutContext, withContext] = prepareImportedSchemas([
+      { '@type': 'Article', headline: 'Hello' },
+      { '@context': 'http://schema.org', '@type': 'FAQPage' }
+    ])
+
+    expect(withoutContext['@context']).toBe('https://schema.org')
+    expect(withContext['@context']).toBe('http://schema.org')
+  })
+
+  it('drops nodes without an @type', () => {
+    expect(prepareImportedSchemas([{ name: 'untyped' }, null, 'text'])).toEqual([])
+  })
+})
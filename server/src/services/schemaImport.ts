@@ -0,0 +1,74 @@
+/**
+ * Schema Import
+ * Takes over the JSON-LD a site already publishes instead of generating from scratch
+ *
+ * Used by batch jobs queued with `options.mode = 'import'`: each crawled URL is scraped,
+ * its existing JSON-LD is validated and scored like generated schema, and the result is
+ * stored as an imported generation (no credits) that the library can refine later.
+ */
+
+import type { JsonLdSchema, SchemaScore } from 'aeo-schema-generator-shared/types'
+import { db } from './database.js'
+import { scraperService } from './scraper.js'
+import { validatorService, type ValidationResult } from './validator.js'
+import { schemaGeneratorService } from './schemaGenerator.js'
+import { flattenJsonLd } from './schemaDriftMonitor.js'
+import { extractSchemaType } from '../utils/schemaTypeDetector.js'
+import { computePageFingerprint } from '../utils/contentFingerprint.js'
+
+export const NO_EXISTING_SCHEMA_ERROR = 'No existing JSON-LD found on page'
+
+export interface SchemaImportResult {
+  schemaId: string
+  schemas: JsonLdSchema[]
+  schemaScore: SchemaScore
+  validationResults: ValidationResult[]
+}
+
+/**
+ * Turn the JSON-LD blocks found on a page into individual library schemas
+ * Unwraps arrays and @graph containers, drops nodes without an @type and fills in a
+ * missing @context so each schema stands on its own
+ */
+export function prepareImportedSchemas(blocks: any[]): JsonLdSchema[] {
+  return flattenJsonLd(blocks)
+    .filter(schema => schema['@type'])
+    .map(schema => ({
+      '@context': 'https://schema.org',
+      ...schema
+    }))
+}
+
+export class SchemaImportService {
+  /**
+   * Import the JSON-LD a live page already publishes
+   * Invalid schema is kept on purpose - it is the starting point for refinement
+   */
+  async importUrl(userId: string, url: string): Promise<SchemaImportResult> {
+    const startTime = Date.now()
+    const analysis = await scraperService.scrapeUrl(url)
+    const schemas = prepareImportedSchemas(analysis.metadata?.existingJsonLd || [])
+
+    if (schemas.length === 0) {
+      throw new Error(NO_EXISTING_SCHEMA_ERROR)
+    }
+
+    const validationResults = validatorService.validateMultipleSchemas(schemas)
+    const complianceResults = validatorService.checkMultipleSchemasCompliance(schemas)
+    const schemaScore = schemaGeneratorService.calculateSchemaScore(schemas, complianceResults)
+
+    const schemaId = await db.createImportedSchemaGeneration(userId, url, {
+      schemas,
+      schemaType: extractSchemaType(schemas),
+      schemaScore,
+      contentFingerprint: computePageFingerprint(analysis),
+      processingTimeMs: Date.now() - startTime
+    })
+
+    console.log(`📥 [SchemaImport] Imported ${schemas.length} schema(s) from ${url} (score ${schemaScore.overallScore})`)
+
+    return { schemaId, schemas, schemaScore, validationResults }
+  }
+}
+
+export const schemaImportService = new SchemaImportService()
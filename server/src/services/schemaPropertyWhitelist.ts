@@ -1,49 +1,24 @@
 /**
  * Schema Property Whitelist Service
  *
- * Defines valid properties for each schema type and provides sanitization functions
- * to ensure generated schemas pass validator.schema.org validation.
+ * Decides which properties a schema type may carry, using the bundled schema.org vocabulary,
+ * and provides sanitization functions to ensure generated schemas pass validator.schema.org
+ * validation.
  *
  * Key decisions:
  * - Remove speakable entirely (too error-prone with CSS selectors)
- * - articleSection, articleBody, wordCount only valid for Article types
+ * - Remove properties schema.org does not define for the type (e.g. articleBody on WebPage)
+ * - Leave types missing from the vocabulary untouched
  * - Auto-remove invalid properties without user intervention
  */
 
 import type { JsonLdSchema } from 'aeo-schema-generator-shared/types'
+import { schemaVocabulary } from './schemaVocabulary.js'
 
 /**
- * Property-type restrictions based on Schema.org specification
+ * Property restrictions applied on top of the schema.org vocabulary
  */
 export const PROPERTY_TYPE_RESTRICTIONS = {
-  // Properties only valid on Article types (not WebPage, Organization, etc.)
-  articleOnly: ['articleSection', 'articleBody', 'wordCount'],
-
-  // Valid Article types that CAN have articleSection, articleBody, wordCount
-  articleTypes: [
-    'Article',
-    'BlogPosting',
-    'NewsArticle',
-    'ScholarlyArticle',
-    'TechArticle',
-    'SocialMediaPosting',
-    'Report'
-  ],
-
-  // CreativeWork types that can have wordCount (broader than Article)
-  creativeWorkTypes: [
-    'Article',
-    'BlogPosting',
-    'NewsArticle',
-    'ScholarlyArticle',
-    'TechArticle',
-    'SocialMediaPosting',
-    'Report',
-    'CreativeWork',
-    'Book',
-    'Review'
-  ],
-
   // Properties to remove entirely from ALL schema types
   // speakable is removed because cssSelector validation is error-prone
   removeAlways: ['speakable'],
@@ -66,19 +41,17 @@ export const PROPERTY_TYPE_RESTRICTIONS = {
 // ============================================================================
 
 /**
- * Check if a schema type is an Article type (supports articleSection, articleBody)
+ * Check if a schema type is an Article type (supports articleSection, articleBody, wordCount)
  */
 export function isArticleType(schemaType: string | undefined): boolean {
-  if (!schemaType) return false
-  return (PROPERTY_TYPE_RESTRICTIONS.articleTypes as readonly string[]).includes(schemaType)
+  return schemaVocabulary.isSubtypeOf(schemaType, 'Article')
 }
 
 /**
- * Check if a schema type is a CreativeWork type (supports wordCount)
+ * Check if a schema type is a CreativeWork type
  */
 export function isCreativeWorkType(schemaType: string | undefined): boolean {
-  if (!schemaType) return false
-  return (PROPERTY_TYPE_RESTRICTIONS.creativeWorkTypes as readonly string[]).includes(schemaType)
+  return schemaVocabulary.isSubtypeOf(schemaType, 'CreativeWork')
 }
 
 /**
@@ -97,10 +70,12 @@ export function shouldAlwaysRemove(propertyName: string): boolean {
 }
 
 /**
- * Check if a property is article-only
+ * The @type of a schema as a list (JSON-LD allows several types per node)
  */
-export function isArticleOnlyProperty(propertyName: string): boolean {
-  return (PROPERTY_TYPE_RESTRICTIONS.articleOnly as readonly string[]).includes(propertyName)
+export function getSchemaTypes(schema: JsonLdSchema): string[] {
+  const type = schema['@type']
+  if (Array.isArray(type)) return type.filter((t): t is string => typeof t === 'string')
+  return typeof type === 'string' ? [type] : []
 }
 
 // ============================================================================
@@ -163,47 +138,32 @@ export function sanitizeSchemaProperties(schema: JsonLdSchema): SanitizationResu
     delete cleaned.speakable
   }
 
-  // 2. Remove article-specific properties from non-article types
-  if (!isArticleType(schemaType)) {
-    // Remove articleSection from non-article types
-    if ('articleSection' in cleaned) {
-      removedProperties.push({
-        code: 'INVALID_PROPERTY_FOR_TYPE',
-        property: 'articleSection',
-        message: `articleSection is not valid for ${schemaType} - only valid for Article types`,
-        removedValue: cleaned.articleSection
-      })
-      delete cleaned.articleSection
-    }
+  // 2. Remove properties schema.org does not define for the type
+  // Only possible when every listed type is in the vocabulary
+  const schemaTypes = getSchemaTypes(cleaned as JsonLdSchema)
+  if (schemaTypes.length > 0 && schemaTypes.every(type => schemaVocabulary.isKnownType(type))) {
+    for (const propertyName of Object.keys(cleaned)) {
+      if (propertyName.startsWith('@')) continue
+      if (schemaTypes.some(type => schemaVocabulary.isPropertyValidForType(propertyName, type))) continue
 
-    // Remove articleBody from non-article types
-    if ('articleBody' in cleaned) {
+      const isKnown = schemaVocabulary.isKnownProperty(propertyName)
       removedProperties.push({
-        code: 'INVALID_PROPERTY_FOR_TYPE',
-        property: 'articleBody',
-        message: `articleBody is not valid for ${schemaType} - only valid for Article types`,
-        removedValue: cleaned.articleBody
+        code: isKnown ? 'INVALID_PROPERTY_FOR_TYPE' : 'UNKNOWN_PROPERTY',
+        property: propertyName,
+        message: isKnown
+          ? `${propertyName} is not valid for ${schemaTypes.join(', ')} - ${describeDomains(propertyName)}`
+          : `${propertyName} is not a schema.org property`,
+        removedValue: cleaned[propertyName]
       })
-      delete cleaned.articleBody
+      delete cleaned[propertyName]
     }
   }
 
-  // 3. Remove wordCount from types that don't support it
-  if (!isCreativeWorkType(schemaType) && 'wordCount' in cleaned) {
-    removedProperties.push({
-      code: 'INVALID_PROPERTY_FOR_TYPE',
-      property: 'wordCount',
-      message: `wordCount is not valid for ${schemaType} - only valid for CreativeWork types`,
-      removedValue: cleaned.wordCount
-    })
-    delete cleaned.wordCount
-  }
-
-  // 4. Handle headline on types that should use 'name' instead
-  // Note: We don't auto-remove headline, but log a warning since some validators accept it
-  // The AI prompts will be updated to prevent this at generation time
+  // 3. Handle headline on types that should use 'name' instead
+  // Note: headline stays on CreativeWork types like WebPage (schema.org allows it there) and
+  // is only reported by the validator. On other types step 2 has already removed it.
 
-  // 5. Recursively sanitize nested objects with @type
+  // 4. Recursively sanitize nested objects with @type
   for (const [key, value] of Object.entries(cleaned)) {
     if (value && typeof value === 'object' && !Array.isArray(value) && '@type' in value) {
       const nestedResult = sanitizeSchemaProperties(value as JsonLdSchema)
@@ -263,19 +223,24 @@ export function isPropertyValidForType(propertyName: string, schemaType: string
   // Guard: If no schema type, can't determine validity - assume valid
   if (!schemaType) return true
 
-  // Check article-only properties
-  if (isArticleOnlyProperty(propertyName)) {
-    if (propertyName === 'wordCount') {
-      return isCreativeWorkType(schemaType)
-    }
-    return isArticleType(schemaType)
-  }
-
   // speakable is never valid (we remove it entirely)
   if (shouldAlwaysRemove(propertyName)) {
     return false
   }
 
-  // All other properties are assumed valid (Schema.org is permissive)
-  return true
+  // Types missing from the vocabulary accept any property
+  return schemaVocabulary.isPropertyValidForType(propertyName, schemaType)
+}
+
+/**
+ * Describe where schema.org defines a property, for removal and compliance messages
+ */
+export function describeDomains(propertyName: string): string {
+  const domains = schemaVocabulary.getPropertyDomains(propertyName)
+  if (domains.length === 0) return 'not defined on any schema.org type'
+
+  const listed = domains.slice(0, 3).join(', ')
+  return domains.length > 3
+    ? `schema.org defines it on ${listed} and ${domains.length - 3} more`
+    : `schema.org defines it on ${listed}`
 }
@@ -0,0 +1,186 @@
+/**
+ * Schema.org Vocabulary Service
+ *
+ * Answers questions about the bundled schema.org vocabulary (src/data/schemaorgVocabulary.ts):
+ * type inheritance, which properties a type accepts, property value types, enumeration
+ * members and superseded terms. Used by the validator and the property sanitizer.
+ */
+
+import { SCHEMAORG_VOCABULARY, type SchemaVocabularyData } from '../data/schemaorgVocabulary.js'
+
+const SCHEMA_ORG_TERM_PATTERN = /^(?:https?:\/\/schema\.org\/|schema:)([A-Za-z0-9]+)$/
+
+/**
+ * Action annotations such as "query-input" on SearchAction (schema.org/docs/actions.html)
+ */
+const ACTION_ANNOTATION_PATTERN = /^[a-zA-Z]+-(input|output)$/
+
+class SchemaVocabularyService {
+  private readonly ancestorCache = new Map<string, string[]>()
+  private readonly propertyCache = new Map<string, Set<string>>()
+  private propertyDomains: Map<string, string[]> | null = null
+
+  constructor(private readonly vocabulary: SchemaVocabularyData = SCHEMAORG_VOCABULARY) {}
+
+  /**
+   * schema.org release the bundled vocabulary was built from
+   */
+  getRelease(): string {
+    return this.vocabulary.release
+  }
+
+  /**
+   * Check if a name is a schema.org class (not a data type)
+   */
+  isKnownType(typeName: string | undefined): boolean {
+    return !!typeName && Object.prototype.hasOwnProperty.call(this.vocabulary.types, typeName)
+  }
+
+  /**
+   * Check if a name is a schema.org data type (Text, URL, Number, Date, ...)
+   */
+  isDataType(typeName: string): boolean {
+    return Object.prototype.hasOwnProperty.call(this.vocabulary.dataTypes, typeName)
+  }
+
+  /**
+   * Check if a property is defined anywhere in the vocabulary
+   */
+  isKnownProperty(propertyName: string): boolean {
+    return Object.prototype.hasOwnProperty.call(this.vocabulary.properties, propertyName)
+  }
+
+  /**
+   * Check if a property is an action annotation ("query-input", "target-output")
+   */
+  isActionAnnotation(propertyName: string): boolean {
+    return ACTION_ANNOTATION_PATTERN.test(propertyName)
+  }
+
+  /**
+   * The type itself followed by all of its ancestors (classes and data types).
+   * Types with several parents (e.g. LocalBusiness) include every branch.
+   */
+  getAncestors(typeName: string): string[] {
+    const cached = this.ancestorCache.get(typeName)
+    if (cached) return cached
+
+    const ancestors: string[] = []
+    const queue = [typeName]
+
+    while (queue.length > 0) {
+      const current = queue.shift() as string
+      if (ancestors.includes(current)) continue
+      ancestors.push(current)
+
+      const parents = this.vocabulary.types[current]?.parents || this.vocabulary.dataTypes[current] || []
+      queue.push(...parents)
+    }
+
+    this.ancestorCache.set(typeName, ancestors)
+    return ancestors
+  }
+
+  /**
+   * Check if a type is the given type or inherits from it
+   */
+  isSubtypeOf(typeName: string | undefined, ancestor: string): boolean {
+    if (!typeName) return false
+    return this.getAncestors(typeName).includes(ancestor)
+  }
+
+  /**
+   * All properties a type accepts, including inherited ones
+   */
+  getPropertiesForType(typeName: string): Set<string> {
+    const cached = this.propertyCache.get(typeName)
+    if (cached) return cached
+
+    const properties = new Set<string>()
+    for (const ancestor of this.getAncestors(typeName)) {
+      for (const property of this.vocabulary.types[ancestor]?.properties || []) {
+        properties.add(property)
+      }
+    }
+
+    this.propertyCache.set(typeName, properties)
+    return properties
+  }
+
+  /**
+   * Check if a property can be used on a type.
+   * Types missing from the vocabulary are assumed to accept any property.
+   */
+  isPropertyValidForType(propertyName: string, typeName: string): boolean {
+    if (!this.isKnownType(typeName)) return true
+    if (this.isActionAnnotation(propertyName)) return this.isSubtypeOf(typeName, 'Action')
+    return this.getPropertiesForType(typeName).has(propertyName)
+  }
+
+  /**
+   * Types that declare a property directly (schema:domainIncludes)
+   */
+  getPropertyDomains(propertyName: string): string[] {
+    if (!this.propertyDomains) {
+      this.propertyDomains = new Map()
+      for (const [typeName, definition] of Object.entries(this.vocabulary.types)) {
+        for (const property of definition.properties) {
+          const domains = this.propertyDomains.get(property) || []
+          domains.push(typeName)
+          this.propertyDomains.set(property, domains)
+        }
+      }
+    }
+
+    return this.propertyDomains.get(propertyName) || []
+  }
+
+  /**
+   * Value types a property accepts (schema:rangeIncludes)
+   */
+  getPropertyRanges(propertyName: string): string[] {
+    return this.vocabulary.properties[propertyName] || []
+  }
+
+  /**
+   * Check if a type is an enumeration whose members are bundled
+   */
+  isEnumeration(typeName: string): boolean {
+    return this.isSubtypeOf(typeName, 'Enumeration') &&
+      Object.prototype.hasOwnProperty.call(this.vocabulary.enumerationMembers, typeName)
+  }
+
+  /**
+   * Members of an enumeration, including members of sub-enumerations
+   */
+  getEnumerationMembers(enumerationName: string): string[] {
+    const members: string[] = []
+    for (const [name, names] of Object.entries(this.vocabulary.enumerationMembers)) {
+      if (this.isSubtypeOf(name, enumerationName)) {
+        members.push(...names)
+      }
+    }
+    return members
+  }
+
+  /**
+   * Replacement for a superseded type, property or enumeration member
+   */
+  getSupersededBy(term: string): string | undefined {
+    return Object.prototype.hasOwnProperty.call(this.vocabulary.superseded, term)
+      ? this.vocabulary.superseded[term]
+      : undefined
+  }
+
+  /**
+   * Extract the term name from a schema.org reference
+   * ("https://schema.org/InStock", "http://schema.org/InStock", "schema:InStock").
+   * Returns undefined for anything that is not a schema.org reference.
+   */
+  toSchemaOrgTerm(value: string): string | undefined {
+    const match = value.trim().match(SCHEMA_ORG_TERM_PATTERN)
+    return match ? match[1] : undefined
+  }
+}
+
+export const schemaVocabulary = new SchemaVocabularyService()
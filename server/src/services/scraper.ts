@@ -22,6 +22,67 @@ export interface ScrapingOptions {
   }
 }
 
+/**
+ * Convert cleaned page content into the analysis handed to the AI providers
+ */
+export function toContentAnalysis(url: string, structuredContent: StructuredContent): ContentAnalysis {
+  return {
+    url,
+    title: structuredContent.metadata.title,
+    description: structuredContent.metadata.description,
+    content: structuredContent.cleanText,
+    metadata: {
+      // Enhanced metadata from HTML cleaning service
+      ...structuredContent.metadata,
+
+      // Convert to legacy format for compatibility
+      author: structuredContent.metadata.author,  // Keep as object for proper extraction
+      publishDate: structuredContent.metadata.publishDate,
+      modifiedDate: structuredContent.metadata.modifiedDate,
+      images: structuredContent.metadata.images.all.map(img => img.url),
+      keywords: structuredContent.metadata.keywords,
+
+      // Extract wordCount and contentType from contentAnalysis
+      wordCount: structuredContent.metadata.contentAnalysis.wordCount,
+      contentType: structuredContent.metadata.contentAnalysis.type as any,
+
+      // Pass through full videos array for VideoObject schema generation (includes provider, title, thumbnail, etc.)
+      videos: structuredContent.metadata.videos || [],
+
+      // Pass through full contentAnalysis for pre-validation (hasVideoContent, hasFaqContent, etc.)
+      contentAnalysis: structuredContent.metadata.contentAnalysis,
+
+      // Image info for schema generation
+      imageInfo: {
+        featuredImage: structuredContent.metadata.images.featured?.url
+      },
+
+      // Business info for publisher
+      businessInfo: structuredContent.metadata.business ? {
+        name: structuredContent.metadata.business.name,
+        logo: structuredContent.metadata.business.logo,
+        url: structuredContent.metadata.business.website
+      } : undefined,
+
+      // Article sections for schema
+      articleSections: structuredContent.metadata.articleSections,
+
+      // Ensure existingJsonLd is explicitly mapped for schema extraction
+      // (htmlCleaner uses existingJsonLd, but we want to ensure it's accessible)
+      existingJsonLd: structuredContent.metadata.existingJsonLd,
+      jsonLdData: structuredContent.metadata.existingJsonLd, // Also map to jsonLdData for compatibility
+
+      // Add processing metrics
+      originalLength: structuredContent.originalLength,
+      processedLength: structuredContent.processedLength,
+      tokenEstimate: structuredContent.tokenEstimate,
+      contentHierarchy: structuredContent.hierarchy
+    },
+    // Pass through content quality suggestions from htmlCleaner
+    contentQualitySuggestions: structuredContent.contentQualitySuggestions
+  }
+}
+
 class ScraperService {
   private browser: Browser | null = null
 
@@ -367,61 +428,7 @@ class ScraperService {
         const structuredContent = await htmlCleaningService.processHtml(html, url)
 
         // Convert structured content to ContentAnalysis format
-        const analysis: ContentAnalysis = {
-          url,
-          title: structuredContent.metadata.title,
-          description: structuredContent.metadata.description,
-          content: structuredContent.cleanText,
-          metadata: {
-            // Enhanced metadata from HTML cleaning service
-            ...structuredContent.metadata,
-
-            // Convert to legacy format for compatibility
-            author: structuredContent.metadata.author,  // Keep as object for proper extraction
-            publishDate: structuredContent.metadata.publishDate,
-            modifiedDate: structuredContent.metadata.modifiedDate,
-            images: structuredContent.metadata.images.all.map(img => img.url),
-            keywords: structuredContent.metadata.keywords,
-
-            // Extract wordCount and contentType from contentAnalysis
-            wordCount: structuredContent.metadata.contentAnalysis.wordCount,
-            contentType: structuredContent.metadata.contentAnalysis.type as any,
-
-            // Pass through full videos array for VideoObject schema generation (includes provider, title, thumbnail, etc.)
-            videos: structuredContent.metadata.videos || [],
-
-            // Pass through full contentAnalysis for pre-validation (hasVideoContent, hasFaqContent, etc.)
-            contentAnalysis: structuredContent.metadata.contentAnalysis,
-
-            // Image info for schema generation
-            imageInfo: {
-              featuredImage: structuredContent.metadata.images.featured?.url
-            },
-
-            // Business info for publisher
-            businessInfo: structuredContent.metadata.business ? {
-              name: structuredContent.metadata.business.name,
-              logo: structuredContent.metadata.business.logo,
-              url: structuredContent.metadata.business.website
-            } : undefined,
-
-            // Article sections for schema
-            articleSections: structuredContent.metadata.articleSections,
-
-            // Ensure existingJsonLd is explicitly mapped for schema extraction
-            // (htmlCleaner uses existingJsonLd, but we want to ensure it's accessible)
-            existingJsonLd: structuredContent.metadata.existingJsonLd,
-            jsonLdData: structuredContent.metadata.existingJsonLd, // Also map to jsonLdData for compatibility
-
-            // Add processing metrics
-            originalLength: structuredContent.originalLength,
-            processedLength: structuredContent.processedLength,
-            tokenEstimate: structuredContent.tokenEstimate,
-            contentHierarchy: structuredContent.hierarchy
-          },
-          // Pass through content quality suggestions from htmlCleaner
-          contentQualitySuggestions: structuredContent.contentQualitySuggestions
-        }
+        const analysis = toContentAnalysis(url, structuredContent)
 
         console.log(`✅ Enhanced scraping completed for ${url} (attempt ${attempt}/${MAX_RETRIES})`)
         console.log(`📊 Processing metrics: ${structuredContent.originalLength} → ${structuredContent.processedLength} chars (${Math.round((1 - structuredContent.processedLength/structuredContent.originalLength) * 100)}% reduction)`)
@@ -1324,6 +1331,44 @@ class ScraperService {
     }
   }
 
+  /**
+   * Print generated HTML to an A4 PDF
+   * Scripts are disabled and only https images may load, so report content can't reach the network
+   */
+  async renderPdf(html: string): Promise<Buffer> {
+    await this.initialize()
+
+    if (!this.browser) {
+      throw new Error('Browser not initialized')
+    }
+
+    const page = await this.browser.newPage()
+
+    try {
+      await page.setJavaScriptEnabled(false)
+      await page.setRequestInterception(true)
+      page.on('request', request => {
+        if (request.resourceType() === 'image' && request.url().startsWith('https://')) {
+          request.continue()
+        } else {
+          request.abort()
+        }
+      })
+
+      await page.setContent(html, { waitUntil: 'networkidle0', timeout: 30000 })
+
+      const pdf = await page.pdf({
+        format: 'A4',
+        printBackground: true,
+        margin: { top: '16mm', bottom: '16mm', left: '14mm', right: '14mm' }
+      })
+
+      return Buffer.from(pdf)
+    } finally {
+      await page.close()
+    }
+  }
+
   async close(): Promise<void> {
     if (this.browser) {
       await this.browser.close()
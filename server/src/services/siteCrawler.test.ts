@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import axios from 'axios'
+import zlib from 'zlib'
+import { readFileSync } from 'fs'
+import { join, dirname } from 'path'
+import { fileURLToPath } from 'url'
+import { siteCrawlerService, type DiscoveredUrl } from './siteCrawler.js'
+import { scraperService } from './scraper.js'
+import type { CrawlOptions } from 'aeo-schema-generator-shared/types'
+
+/**
+ * URL discovery against a fake site served from __fixtures__/crawl
+ *
+ * axios.get is routed to the fixture files; any other URL answers 404. The link-crawl
+ * phase needs a browser, so it is skipped by leaving the scraper's browser unset.
+ */
+
+const FIXTURES_DIR = join(dirname(fileURLToPath(import.meta.url)), '__fixtures__', 'crawl')
+const ORIGIN = 'https://www.example.com'
+
+const fixture = (name: string) => readFileSync(join(FIXTURES_DIR, name))
+
+const SITE: Record<string, Buffer> = {
+  [`${ORIGIN}/robots.txt`]: fixture('robots.txt'),
+  [`${ORIGIN}/sitemap-index.xml`]: fixture('sitemap-index.xml'),
+  [`${ORIGIN}/sitemap-pages.xml`]: fixture('sitemap-pages.xml'),
+  [`${ORIGIN}/blog/sitemap-index.xml`]: fixture('blog-sitemap-index.xml'),
+  // Served as raw gzip without Content-Encoding, like most .xml.gz sitemaps
+  [`${ORIGIN}/blog/sitemap-posts.xml.gz`]: zlib.gzipSync(fixture('sitemap-posts.xml')),
+  [ORIGIN]: fixture('home.html'),
+  [`${ORIGIN}/blog/feed.rss`]: fixture('feed.rss'),
+  [`${ORIGIN}/news/atom.xml`]: fixture('atom.xml')
+}
+
+function serve(routes: Record<string, Buffer>) {
+  return vi.spyOn(axios, 'get').mockImplementation(async (url: string, config: any = {}) => {
+    const body = routes[url]
+    if (!body) {
+      throw Object.assign(new Error('Request failed with status code 404'), { response: { status: 404 } })
+    }
+    return { status: 200, data: config.responseType === 'arraybuffer' ? body : body.toString('utf8') }
+  })
+}
+
+async function discover(options: CrawlOptions = {}): Promise<DiscoveredUrl[]> {
+  const urls: DiscoveredUrl[] = []
+  for await (const url of siteCrawlerService.discoverUrls(ORIGIN, options)) {
+    urls.push(url)
+  }
+  return urls
+}
+
+const summarize = (urls: DiscoveredUrl[]) =>
+  urls.map(({ url, source, foundOn, lastModified }) => ({ url, source, foundOn, lastModified }))
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(scraperService, 'initialize').mockResolvedValue(undefined)
+})
+
+describe('siteCrawlerService.discoverUrls', () => {
+  it('follows nested sitemap indexes and gzipped sitemaps, fetching each file once', async () => {
+    const get = serve(SITE)
+
+    const urls = await discover({ followFeeds: false, followHreflang: false })
+
+    expect(urls.map(url => url.url)).toEqual([
+      `${ORIGIN}/about`,
+      `${ORIGIN}/pricing`,
+      `${ORIGIN}/blog/first-post`,
+      `${ORIGIN}/blog/second-post`
+    ])
+    expect(urls[2]).toMatchObject({
+      source: 'sitemap',
+      foundOn: `${ORIGIN}/blog/sitemap-posts.xml.gz`,
+      lastModified: '2025-03-04T09:00:00.000Z',
+      depth: 2
+    })
+
+    const rootIndexFetches = get.mock.calls.filter(([url]) => url === `${ORIGIN}/sitemap-index.xml`)
+    expect(rootIndexFetches).toHaveLength(1)
+  })
+
+  it('adds same-site hreflang alternates of sitemap entries', async () => {
+    serve(SITE)
+
+    const urls = await discover({ followFeeds: false })
+
+    expect(summarize(urls.filter(url => url.source === 'hreflang'))).toEqual([
+      { url: `${ORIGIN}/de/about`, source: 'hreflang', foundOn: `${ORIGIN}/about`, lastModified: undefined },
+      { url: `${ORIGIN}/fr/about`, source: 'hreflang', foundOn: `${ORIGIN}/about`, lastModified: undefined }
+    ])
+    expect(urls.some(url => url.url.includes('example.es') || url.url.includes('partner.example.org'))).toBe(false)
+  })
+
+  it('reads RSS and Atom feeds advertised on the homepage', async () => {
+    serve(SITE)
+
+    const urls = await discover({ followSitemaps: false })
+
+    expect(summarize(urls)).toEqual([
+      { url: `${ORIGIN}/blog/first-post`, source: 'feed', foundOn: `${ORIGIN}/blog/feed.rss`, lastModified: '2025-03-04T09:00:00.000Z' },
+      { url: `${ORIGIN}/blog/feed-only`, source: 'feed', foundOn: `${ORIGIN}/blog/feed.rss`, lastModified: '2025-03-12T08:30:00.000Z' },
+      { url: `${ORIGIN}/news/launch`, source: 'feed', foundOn: `${ORIGIN}/news/atom.xml`, lastModified: '2025-04-01T10:00:00.000Z' },
+      { url: `${ORIGIN}/news/hiring`, source: 'feed', foundOn: `${ORIGIN}/news/atom.xml`, lastModified: '2025-04-02T10:00:00.000Z' }
+    ])
+  })
+
+  it('stops at maxUrls', async () => {
+    serve(SITE)
+
+    const urls = await discover({ maxUrls: 3 })
+
+    expect(urls.map(url => url.url)).toEqual([`${ORIGIN}/about`, `${ORIGIN}/de/about`, `${ORIGIN}/fr/about`])
+  })
+
+  it('keeps the complete entries of a truncated sitemap', async () => {
+    serve({ [`${ORIGIN}/sitemap.xml`]: fixture('truncated-sitemap.xml') })
+
+    const urls = await discover({ followFeeds: false })
+
+    expect(urls.map(url => url.url)).toEqual([`${ORIGIN}/complete`])
+  })
+
+  it('skips sitemaps that are not XML or not valid gzip and carries on', async () => {
+    serve({
+      [`${ORIGIN}/robots.txt`]: Buffer.from(`Sitemap: ${ORIGIN}/broken.xml.gz\nSitemap: ${ORIGIN}/sitemap-pages.xml\n`),
+      [`${ORIGIN}/broken.xml.gz`]: zlib.gzipSync(fixture('sitemap-posts.xml')).subarray(0, 40),
+      [`${ORIGIN}/sitemap.xml`]: Buffer.from('<<< not a sitemap'),
+      [`${ORIGIN}/sitemap-pages.xml`]: fixture('sitemap-pages.xml')
+    })
+
+    const urls = await discover({ followFeeds: false, followHreflang: false })
+
+    expect(urls.map(url => url.url)).toEqual([`${ORIGIN}/about`, `${ORIGIN}/pricing`])
+  })
+
+  it('refuses a gzipped sitemap that inflates past 50MB', async () => {
+    const inflated = Buffer.alloc(50 * 1024 * 1024 + 1, ' ')
+    serve({
+      [`${ORIGIN}/sitemap.xml`]: zlib.gzipSync(Buffer.concat([
+        Buffer.from(`<urlset><url><loc>${ORIGIN}/bomb</loc></url>`),
+        inflated,
+        Buffer.from('</urlset>')
+      ]))
+    })
+
+    const urls = await discover({ followFeeds: false })
+
+    expect(urls).toEqual([])
+  })
+
+  it('caps the size of every sitemap and feed response', async () => {
+    const get = serve(SITE)
+
+    await discover()
+
+    const xmlRequests = get.mock.calls.filter(([, config]) => (config as any)?.responseType === 'arraybuffer')
+    expect(xmlRequests.length).toBeGreaterThan(0)
+    for (const [, config] of xmlRequests) {
+      expect(config).toMatchObject({ maxContentLength: 50 * 1024 * 1024 })
+    }
+  })
+})
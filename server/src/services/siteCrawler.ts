@@ -1,5 +1,7 @@
 import axios from 'axios'
+import zlib from 'zlib'
 import { XMLParser } from 'fast-xml-parser'
+import type { CrawlOptions, CrawlSource } from 'aeo-schema-generator-shared/types'
 import { scraperService } from './scraper.js'
 import robotsParser from 'robots-parser'
 
@@ -9,87 +11,137 @@ export interface DiscoveredUrl {
   path: string
   depth: number
   discoveredAt: Date
+  source: CrawlSource
+  /** Sitemap, feed or page the URL was found on */
+  foundOn?: string
+  /** Last modified date (ISO) reported by the sitemap or feed */
+  lastModified?: string
 }
 
-export interface CrawlResult {
-  domain: string
-  urls: DiscoveredUrl[]
-  totalFound: number
-  status: 'in_progress' | 'completed' | 'failed'
-  error?: string
+export const DEFAULT_CRAWL_OPTIONS: Required<CrawlOptions> = {
+  maxUrls: 500,
+  maxDepth: 4,
+  timeoutMs: 60000, // 60 seconds
+  followSitemaps: true,
+  followFeeds: true,
+  followHreflang: true
 }
 
-class SiteCrawlerService {
-  private visited = new Set<string>()
-  private queue: string[] = []
-  private maxUrls = 500
-  private maxDepth = 4
-  private timeout = 60000 // 60 seconds
+/** Upper bounds for per-request crawl options */
+export const MAX_CRAWL_LIMITS = {
+  maxUrls: 10000,
+  maxDepth: 10,
+  timeoutMs: 10 * 60 * 1000 // 10 minutes
+}
+
+/** Guards against sitemap indexes that fan out (or loop) without end */
+const MAX_SITEMAP_FILES = 200
+
+/** Sitemaps are capped at 50MB uncompressed by the protocol */
+const MAX_XML_BYTES = 50 * 1024 * 1024
+
+const COMMON_FEED_PATHS = ['/feed', '/rss.xml', '/feed.xml', '/atom.xml', '/index.xml']
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; AEO-Schema-Generator/1.0)'
+
+// Namespace prefixes are dropped so <xhtml:link> in sitemaps reads as `link`
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false
+})
+
+/**
+ * State for a single crawl - each call to discoverUrls gets its own,
+ * so concurrent crawls never share visited sets or queues
+ */
+interface CrawlContext {
+  origin: string
+  limits: Required<CrawlOptions>
+  startTime: number
+  /** Canonical keys of URLs already yielded */
+  seen: Set<string>
+  /** Sitemaps and feeds already fetched */
+  fetchedSources: Set<string>
+  count: number
+}
+
+function asArray<T = any>(value: T | T[] | undefined | null): T[] {
+  if (value === undefined || value === null) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+function stripWww(hostname: string): string {
+  return hostname.replace(/^www\./, '')
+}
+
+/**
+ * Normalize sitemap/feed dates (W3C datetime, RFC 822) to ISO strings
+ */
+function toIsoDate(value: string | undefined): string | undefined {
+  if (!value) return undefined
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date.toISOString()
+}
 
+function textOf(node: any): string | undefined {
+  if (typeof node === 'string') return node.trim() || undefined
+  if (node && typeof node === 'object' && node['#text'] !== undefined) {
+    return String(node['#text']).trim() || undefined
+  }
+  return undefined
+}
+
+class SiteCrawlerService {
   /**
    * Main entry point: Discover URLs from a domain
-   * Returns first 20 URLs immediately, then continues in background
+   * Sources are tried cheapest first: sitemaps, then RSS/Atom feeds, then a link crawl.
+   * URLs are yielded as they are found so callers can show the first ones immediately.
    */
-  async *discoverUrls(domain: string): AsyncGenerator<DiscoveredUrl> {
+  async *discoverUrls(domain: string, options: CrawlOptions = {}): AsyncGenerator<DiscoveredUrl> {
     console.log(`🔍 Starting URL discovery for domain: ${domain}`)
 
-    this.visited.clear()
-    this.queue = []
-
-    const normalizedDomain = await this.normalizeDomain(domain)
-    const startTime = Date.now()
+    const ctx: CrawlContext = {
+      origin: await this.normalizeDomain(domain),
+      limits: { ...DEFAULT_CRAWL_OPTIONS, ...options },
+      startTime: Date.now(),
+      seen: new Set(),
+      fetchedSources: new Set(),
+      count: 0
+    }
 
     try {
       // Check robots.txt first
-      const canCrawl = await this.respectsRobotsTxt(normalizedDomain)
-      if (!canCrawl) {
+      const robotsTxt = await this.fetchRobotsTxt(ctx.origin)
+      if (!this.respectsRobotsTxt(ctx.origin, robotsTxt)) {
         throw new Error('Domain blocks automated crawling via robots.txt')
       }
 
-      // Phase 1: Try sitemap first (fast)
-      console.log('📄 Phase 1: Parsing sitemap...')
-      const sitemapUrls = await this.parseSitemap(normalizedDomain)
-
-      let count = 0
-      for (const sitemapUrl of sitemapUrls) {
-        if (count >= this.maxUrls) break
-
-        const discovered: DiscoveredUrl = {
-          url: sitemapUrl,
-          path: new URL(sitemapUrl).pathname,
-          depth: 0,
-          discoveredAt: new Date()
-        }
-
-        this.visited.add(sitemapUrl)
-        count++
-
-        yield discovered
-
-        // Stop after 20 for immediate display
-        if (count === 20 && sitemapUrls.length > 20) {
-          console.log('✅ Yielded first 20 URLs from sitemap')
-        }
+      // Phase 1: Sitemaps, including nested indexes and gzipped files (fast)
+      if (ctx.limits.followSitemaps) {
+        console.log('📄 Phase 1: Parsing sitemaps...')
+        yield* this.discoverFromSitemaps(ctx, robotsTxt)
+        console.log(`📊 Sitemaps yielded ${ctx.count} URLs`)
       }
 
-      console.log(`📊 Sitemap yielded ${count} URLs`)
-
-      // Phase 2: Supplement with recursive crawling if needed
-      if (count < this.maxUrls && Date.now() - startTime < this.timeout) {
-        console.log('🕷️ Phase 2: Recursive crawling to find more URLs...')
+      // Phase 2: RSS/Atom feeds
+      if (ctx.limits.followFeeds && !this.isDone(ctx)) {
+        console.log('📰 Phase 2: Reading RSS/Atom feeds...')
+        yield* this.discoverFromFeeds(ctx)
+      }
 
-        for await (const url of this.crawlRecursively(normalizedDomain, this.maxUrls - count)) {
-          if (Date.now() - startTime >= this.timeout) {
-            console.log('⏱️ Crawl timeout reached')
-            break
-          }
+      // Phase 3: Supplement with recursive crawling if needed
+      if (!this.isDone(ctx)) {
+        console.log('🕷️ Phase 3: Recursive crawling to find more URLs...')
+        yield* this.crawlRecursively(ctx)
+      }
 
-          yield url
-          count++
-        }
+      if (Date.now() - ctx.startTime >= ctx.limits.timeoutMs) {
+        console.log('⏱️ Crawl timeout reached')
       }
 
-      console.log(`✅ URL discovery completed: ${count} total URLs found`)
+      console.log(`✅ URL discovery completed: ${ctx.count} total URLs found`)
 
     } catch (error) {
       console.error('❌ URL discovery failed:', error)
@@ -98,137 +150,131 @@ class SiteCrawlerService {
   }
 
   /**
-   * Parse sitemap.xml and extract all URLs
+   * Walk sitemaps listed in robots.txt plus the conventional locations
+   * Sitemap indexes are followed to any depth; each file is fetched at most once
    */
-  private async parseSitemap(domain: string): Promise<string[]> {
-    const urls: string[] = []
-    const sitemapUrls = [
-      `${domain}/sitemap.xml`,
-      `${domain}/sitemap_index.xml`,
-      `${domain}/sitemap-index.xml`,
+  private async *discoverFromSitemaps(ctx: CrawlContext, robotsTxt: string | null): AsyncGenerator<DiscoveredUrl> {
+    const queue = [
+      ...this.sitemapsFromRobotsTxt(robotsTxt),
+      `${ctx.origin}/sitemap.xml`,
+      `${ctx.origin}/sitemap_index.xml`,
+      `${ctx.origin}/sitemap-index.xml`
     ]
-
-    // Try to find sitemap from robots.txt
-    try {
-      const robotsTxtUrl = `${domain}/robots.txt`
-      const robotsResponse = await axios.get(robotsTxtUrl, { timeout: 5000 })
-      const robotsText = robotsResponse.data
-
-      // Extract sitemap URLs from robots.txt
-      const sitemapMatches = robotsText.match(/Sitemap:\s*(.+)/gi)
-      if (sitemapMatches) {
-        sitemapMatches.forEach((match: string) => {
-          const url = match.replace(/Sitemap:\s*/i, '').trim()
-          if (url) sitemapUrls.unshift(url) // Add to front of array
-        })
+    let filesParsed = 0
+
+    while (queue.length > 0 && filesParsed < MAX_SITEMAP_FILES && !this.isDone(ctx)) {
+      const sitemapUrl = queue.shift()!
+      if (ctx.fetchedSources.has(sitemapUrl)) continue
+      ctx.fetchedSources.add(sitemapUrl)
+
+      console.log(`Trying sitemap: ${sitemapUrl}`)
+      const parsed = await this.fetchXml(sitemapUrl)
+      if (!parsed) continue
+      filesParsed++
+
+      // Sitemap index (contains links to other sitemaps, which may be indexes themselves)
+      for (const sitemap of asArray(parsed.sitemapindex?.sitemap)) {
+        const loc = textOf(sitemap.loc)
+        if (loc) queue.push(loc)
       }
-    } catch (error) {
-      console.log('No robots.txt or unable to parse')
-    }
 
-    // Try each sitemap URL
-    for (const sitemapUrl of sitemapUrls) {
-      try {
-        console.log(`Trying sitemap: ${sitemapUrl}`)
-        const response = await axios.get(sitemapUrl, {
-          timeout: 10000,
-          headers: {
-            'User-Agent': 'Mozilla/5.0 (compatible; AEO-Schema-Generator/1.0)'
-          }
-        })
-
-        const xmlData = response.data
-        const parser = new XMLParser()
-        const parsed = parser.parse(xmlData)
-
-        // Handle sitemap index (contains links to other sitemaps)
-        if (parsed.sitemapindex && parsed.sitemapindex.sitemap) {
-          const sitemaps = Array.isArray(parsed.sitemapindex.sitemap)
-            ? parsed.sitemapindex.sitemap
-            : [parsed.sitemapindex.sitemap]
-
-          for (const sitemap of sitemaps) {
-            if (sitemap.loc) {
-              try {
-                const subUrls = await this.parseSitemap(sitemap.loc)
-                urls.push(...subUrls)
-              } catch (error) {
-                console.log(`Failed to parse sub-sitemap: ${sitemap.loc}`)
-              }
-            }
+      // Regular sitemap (contains URLs, optionally with hreflang alternates)
+      for (const entry of asArray(parsed.urlset?.url)) {
+        const loc = textOf(entry.loc)
+        if (!loc) continue
+
+        const discovered = this.accept(ctx, loc, 'sitemap', sitemapUrl, toIsoDate(textOf(entry.lastmod)))
+        if (discovered) yield discovered
+
+        if (ctx.limits.followHreflang) {
+          for (const alternate of asArray(entry.link)) {
+            if (alternate?.['@_rel'] !== 'alternate' || !alternate['@_hreflang'] || !alternate['@_href']) continue
+            const discoveredAlternate = this.accept(ctx, alternate['@_href'], 'hreflang', loc)
+            if (discoveredAlternate) yield discoveredAlternate
           }
         }
 
-        // Handle regular sitemap (contains URLs)
-        if (parsed.urlset && parsed.urlset.url) {
-          const urlEntries = Array.isArray(parsed.urlset.url)
-            ? parsed.urlset.url
-            : [parsed.urlset.url]
+        if (this.isDone(ctx)) break
+      }
 
-          urlEntries.forEach((entry: any) => {
-            if (entry.loc) {
-              urls.push(entry.loc)
-            }
-          })
+      // Some sites submit their RSS/Atom feed as a sitemap
+      if (ctx.limits.followFeeds) {
+        for (const entry of this.extractFeedEntries(parsed)) {
+          const discovered = this.accept(ctx, entry.url, 'feed', sitemapUrl, entry.lastModified)
+          if (discovered) yield discovered
         }
+      }
+    }
+  }
 
-        // If we found URLs, break out
-        if (urls.length > 0) {
-          console.log(`✅ Found ${urls.length} URLs in sitemap`)
-          break
-        }
+  /**
+   * Read RSS/Atom feeds advertised on the homepage or served from common paths
+   */
+  private async *discoverFromFeeds(ctx: CrawlContext): AsyncGenerator<DiscoveredUrl> {
+    const feedUrls = [
+      ...await this.findAdvertisedFeeds(ctx.origin),
+      ...COMMON_FEED_PATHS.map(path => `${ctx.origin}${path}`)
+    ]
 
-      } catch (error) {
-        console.log(`Sitemap not found or invalid: ${sitemapUrl}`)
-        continue
+    for (const feedUrl of feedUrls) {
+      if (this.isDone(ctx)) break
+      if (ctx.fetchedSources.has(feedUrl)) continue
+      ctx.fetchedSources.add(feedUrl)
+
+      const parsed = await this.fetchXml(feedUrl)
+      if (!parsed) continue
+
+      const entries = this.extractFeedEntries(parsed)
+      if (entries.length > 0) {
+        console.log(`✅ Found ${entries.length} entries in feed ${feedUrl}`)
       }
-    }
 
-    return urls.slice(0, this.maxUrls)
+      for (const entry of entries) {
+        const discovered = this.accept(ctx, entry.url, 'feed', feedUrl, entry.lastModified)
+        if (discovered) yield discovered
+      }
+    }
   }
 
   /**
-   * Recursively crawl website by following links
+   * Recursively crawl website by following links and hreflang alternates
    */
-  private async *crawlRecursively(startUrl: string, maxUrls: number): AsyncGenerator<DiscoveredUrl> {
-    this.queue = [startUrl]
-    let count = 0
-    const domain = new URL(startUrl).origin
+  private async *crawlRecursively(ctx: CrawlContext): AsyncGenerator<DiscoveredUrl> {
+    const queue: Array<{ url: string; foundOn?: string }> = [{ url: ctx.origin }]
+    const queued = new Set<string>([this.canonicalKey(new URL(ctx.origin))])
+
+    await scraperService.initialize()
+    const browser = scraperService['browser']
+    if (!browser) return
 
-    while (this.queue.length > 0 && count < maxUrls) {
-      const currentUrl = this.queue.shift()!
+    while (queue.length > 0 && !this.isDone(ctx)) {
+      const { url: currentUrl, foundOn } = queue.shift()!
 
-      // Skip if already visited
-      if (this.visited.has(currentUrl)) {
+      if (this.getUrlDepth(currentUrl) > ctx.limits.maxDepth) {
         continue
       }
 
-      try {
-        // Mark as visited
-        this.visited.add(currentUrl)
+      // Yield this URL (no-op if a sitemap or feed already produced it)
+      const discovered = this.accept(ctx, currentUrl, 'crawl', foundOn)
+      if (discovered) yield discovered
 
-        // Get depth from URL
-        const depth = this.getUrlDepth(currentUrl, domain)
-        if (depth > this.maxDepth) {
-          continue
-        }
+      const enqueue = (link: string) => {
+        try {
+          const linkUrl = new URL(link)
+          const key = this.canonicalKey(linkUrl)
 
-        // Yield this URL
-        const discovered: DiscoveredUrl = {
-          url: currentUrl,
-          path: new URL(currentUrl).pathname,
-          depth,
-          discoveredAt: new Date()
+          // Only same-site content links that aren't already queued
+          if (this.isSameSite(linkUrl, ctx.origin) && !queued.has(key) && this.isContentUrl(linkUrl.href)) {
+            queued.add(key)
+            queue.push({ url: linkUrl.origin + linkUrl.pathname, foundOn: currentUrl })
+          }
+        } catch {
+          // Invalid URL, skip
         }
+      }
 
-        yield discovered
-        count++
-
-        // Extract links from this page
-        await scraperService.initialize()
-        if (!scraperService['browser']) continue
-
-        const page = await scraperService['browser'].newPage()
+      try {
+        const page = await browser.newPage()
 
         try {
           await page.goto(currentUrl, {
@@ -236,33 +282,25 @@ class SiteCrawlerService {
             timeout: 10000
           })
 
+          // Language/region alternates are discovered directly - they are often not linked in navigation
+          if (ctx.limits.followHreflang) {
+            const alternates = await page.$$eval('link[rel="alternate"][hreflang]', (links: any[]) =>
+              links.map(link => link.href).filter(Boolean)
+            )
+
+            for (const alternate of alternates) {
+              const discoveredAlternate = this.accept(ctx, alternate, 'hreflang', currentUrl)
+              if (discoveredAlternate) yield discoveredAlternate
+              enqueue(alternate)
+            }
+          }
+
           // Extract all links
           const links = await page.$$eval('a[href]', (anchors: any[]) =>
             anchors.map(a => a.href).filter(Boolean)
           )
 
-          // Filter and add to queue
-          for (const link of links) {
-            try {
-              const linkUrl = new URL(link)
-              const linkOrigin = linkUrl.origin
-
-              // Only same-domain links
-              if (linkOrigin === domain) {
-                const cleanUrl = linkUrl.origin + linkUrl.pathname
-
-                // Skip if already visited or queued
-                if (!this.visited.has(cleanUrl) && !this.queue.includes(cleanUrl)) {
-                  // Skip common non-content URLs
-                  if (this.isContentUrl(cleanUrl)) {
-                    this.queue.push(cleanUrl)
-                  }
-                }
-              }
-            } catch (error) {
-              // Invalid URL, skip
-            }
-          }
+          links.forEach(enqueue)
 
         } finally {
           await page.close()
@@ -276,32 +314,193 @@ class SiteCrawlerService {
   }
 
   /**
-   * Check if domain allows automated crawling via robots.txt
+   * Record a URL for this crawl
+   * @returns The discovered URL, or null if it is off-site, a duplicate, or over the crawl limits
    */
-  private async respectsRobotsTxt(domain: string): Promise<boolean> {
+  private accept(
+    ctx: CrawlContext,
+    rawUrl: string,
+    source: CrawlSource,
+    foundOn?: string,
+    lastModified?: string
+  ): DiscoveredUrl | null {
+    if (this.isDone(ctx)) return null
+
+    let url: URL
     try {
-      const robotsTxtUrl = `${domain}/robots.txt`
-      const response = await axios.get(robotsTxtUrl, { timeout: 5000 })
-      const robotsTxt = response.data
+      url = new URL(rawUrl.trim(), foundOn || ctx.origin)
+    } catch {
+      return null
+    }
 
-      const robots = robotsParser(robotsTxtUrl, robotsTxt)
-      const userAgent = 'AEO-Schema-Generator'
+    if (!this.isSameSite(url, ctx.origin)) return null
 
-      // Check if we're allowed to crawl
-      const isAllowed = robots.isAllowed(domain, userAgent)
+    // Sitemaps are curated by the site owner; everything else gets the non-content filter
+    if (source !== 'sitemap') {
+      if (!this.isContentUrl(url.href)) return null
+      url.search = ''
+    }
+    url.hash = ''
+
+    const key = this.canonicalKey(url)
+    if (ctx.seen.has(key)) return null
+
+    ctx.seen.add(key)
+    ctx.count++
+
+    return {
+      url: url.href,
+      path: url.pathname,
+      depth: this.getUrlDepth(url.href),
+      discoveredAt: new Date(),
+      source,
+      foundOn,
+      lastModified
+    }
+  }
+
+  /**
+   * Crawl has hit its URL limit or time budget
+   */
+  private isDone(ctx: CrawlContext): boolean {
+    return ctx.count >= ctx.limits.maxUrls || Date.now() - ctx.startTime >= ctx.limits.timeoutMs
+  }
+
+  /**
+   * Fetch and parse an XML document (sitemap or feed), transparently un-gzipping it
+   * @returns Parsed document, or null if missing or not XML
+   */
+  private async fetchXml(url: string): Promise<any | null> {
+    try {
+      const response = await axios.get<ArrayBuffer>(url, {
+        timeout: 10000,
+        responseType: 'arraybuffer',
+        maxContentLength: MAX_XML_BYTES,
+        headers: {
+          'User-Agent': USER_AGENT
+        }
+      })
 
-      if (!isAllowed) {
-        console.log('❌ Crawling disallowed by robots.txt')
-        return false
+      let body: Buffer = Buffer.from(response.data)
+
+      // .xml.gz files are served as raw gzip without Content-Encoding, so axios leaves them compressed
+      if (body[0] === 0x1f && body[1] === 0x8b) {
+        body = zlib.gunzipSync(body, { maxOutputLength: MAX_XML_BYTES })
       }
 
-      return true
+      return xmlParser.parse(body.toString('utf8'))
+    } catch {
+      console.log(`Not found or invalid XML: ${url}`)
+      return null
+    }
+  }
 
-    } catch (error) {
-      // If robots.txt doesn't exist or can't be fetched, assume allowed
+  /**
+   * Entry links (and dates) from an RSS 2.0 or Atom document
+   */
+  private extractFeedEntries(parsed: any): Array<{ url: string; lastModified?: string }> {
+    const entries: Array<{ url: string; lastModified?: string }> = []
+
+    // RSS 2.0: <item><link>url</link><pubDate>...</pubDate></item>
+    for (const item of asArray(parsed?.rss?.channel?.item)) {
+      const link = asArray(item.link).map(textOf).find(Boolean)
+      if (link) entries.push({ url: link, lastModified: toIsoDate(textOf(item.pubDate)) })
+    }
+
+    // Atom: <entry><link rel="alternate" href="url"/><updated>...</updated></entry>
+    for (const entry of asArray(parsed?.feed?.entry)) {
+      const link = asArray(entry.link).find((candidate: any) =>
+        candidate?.['@_href'] && (!candidate['@_rel'] || candidate['@_rel'] === 'alternate')
+      )
+      if (link) {
+        entries.push({ url: link['@_href'], lastModified: toIsoDate(textOf(entry.updated) || textOf(entry.published)) })
+      }
+    }
+
+    return entries
+  }
+
+  /**
+   * Feeds advertised on the homepage via <link rel="alternate" type="application/rss+xml">
+   */
+  private async findAdvertisedFeeds(origin: string): Promise<string[]> {
+    try {
+      const response = await axios.get<string>(origin, {
+        timeout: 10000,
+        responseType: 'text',
+        headers: {
+          'User-Agent': USER_AGENT
+        }
+      })
+
+      const feeds: string[] = []
+      for (const tag of String(response.data).match(/<link\b[^>]*>/gi) || []) {
+        const attributes: Record<string, string> = {}
+        for (const [, name, doubleQuoted, singleQuoted, bare] of tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/g)) {
+          attributes[name.toLowerCase()] = doubleQuoted ?? singleQuoted ?? bare
+        }
+
+        const isFeed = /^application\/(rss|atom)\+xml$/i.test(attributes.type || '')
+        if (isFeed && attributes.rel?.toLowerCase() === 'alternate' && attributes.href) {
+          try {
+            feeds.push(new URL(attributes.href, origin).href)
+          } catch {
+            // Invalid URL, skip
+          }
+        }
+      }
+
+      return feeds
+    } catch {
+      return []
+    }
+  }
+
+  /**
+   * Fetch robots.txt once per crawl
+   */
+  private async fetchRobotsTxt(domain: string): Promise<string | null> {
+    try {
+      const response = await axios.get(`${domain}/robots.txt`, { timeout: 5000, responseType: 'text' })
+      return typeof response.data === 'string' ? response.data : null
+    } catch {
+      console.log('No robots.txt or unable to fetch')
+      return null
+    }
+  }
+
+  /**
+   * Sitemap URLs declared in robots.txt
+   */
+  private sitemapsFromRobotsTxt(robotsTxt: string | null): string[] {
+    const sitemapMatches = robotsTxt?.match(/Sitemap:\s*(.+)/gi) || []
+    return sitemapMatches
+      .map(match => match.replace(/Sitemap:\s*/i, '').trim())
+      .filter(Boolean)
+  }
+
+  /**
+   * Check if domain allows automated crawling via robots.txt
+   */
+  private respectsRobotsTxt(domain: string, robotsTxt: string | null): boolean {
+    // If robots.txt doesn't exist or can't be fetched, assume allowed
+    if (!robotsTxt) {
       console.log('No robots.txt found, assuming crawling is allowed')
       return true
     }
+
+    const robots = robotsParser(`${domain}/robots.txt`, robotsTxt)
+    const userAgent = 'AEO-Schema-Generator'
+
+    // Check if we're allowed to crawl
+    const isAllowed = robots.isAllowed(domain, userAgent)
+
+    if (!isAllowed) {
+      console.log('❌ Crawling disallowed by robots.txt')
+      return false
+    }
+
+    return true
   }
 
   /**
@@ -362,7 +561,7 @@ class SiteCrawlerService {
   /**
    * Calculate URL depth from domain root
    */
-  private getUrlDepth(url: string, domain: string): number {
+  private getUrlDepth(url: string): number {
     try {
       const urlObj = new URL(url)
       const path = urlObj.pathname
@@ -377,6 +576,21 @@ class SiteCrawlerService {
     }
   }
 
+  /**
+   * Same host as the crawl origin, treating www and non-www as one site
+   */
+  private isSameSite(url: URL, origin: string): boolean {
+    return stripWww(url.hostname) === stripWww(new URL(origin).hostname)
+  }
+
+  /**
+   * Dedup key for a URL - ignores protocol, www, fragment and trailing slash
+   */
+  private canonicalKey(url: URL): string {
+    const path = url.pathname.length > 1 ? url.pathname.replace(/\/+$/, '') : url.pathname
+    return `${stripWww(url.hostname)}${path}${url.search}`
+  }
+
   /**
    * Check if URL is likely content (not admin, login, etc.)
    */
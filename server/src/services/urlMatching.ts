@@ -0,0 +1,135 @@
+/**
+ * URL Matching
+ * Domain-aware similarity scoring used to match library URLs to CMS content
+ * (HubSpot posts and pages, WordPress posts and pages)
+ */
+
+interface ParsedUrl {
+  protocol: string
+  subdomain: string
+  domain: string
+  path: string
+  fullDomain: string
+}
+
+/**
+ * Parse URL into components for intelligent matching
+ */
+function parseUrl(url: string): ParsedUrl {
+  try {
+    const urlObj = new URL(url)
+    const hostname = urlObj.hostname.toLowerCase()
+    const path = (urlObj.pathname + urlObj.search).replace(/\/$/, '') || '/'
+
+    // Split hostname into parts
+    const parts = hostname.split('.')
+
+    // Handle different domain structures
+    let subdomain = ''
+    let domain = hostname
+
+    if (parts.length >= 2) {
+      // Extract base domain (last 2 parts for .com, .org, etc.)
+      domain = parts.slice(-2).join('.')
+
+      // Extract subdomain if exists
+      if (parts.length > 2) {
+        subdomain = parts.slice(0, -2).join('.')
+      }
+    }
+
+    return {
+      protocol: urlObj.protocol,
+      subdomain,
+      domain,
+      path,
+      fullDomain: hostname
+    }
+  } catch (error) {
+    // Fallback for invalid URLs
+    return {
+      protocol: '',
+      subdomain: '',
+      domain: url.toLowerCase(),
+      path: '/',
+      fullDomain: url.toLowerCase()
+    }
+  }
+}
+
+/**
+ * Calculate similarity between two URLs with domain-aware scoring (0-1)
+ * Note: Pass full URLs with protocol - parsing needs it
+ */
+export function calculateUrlSimilarity(url1: string, url2: string): number {
+  const parsed1 = parseUrl(url1)
+  const parsed2 = parseUrl(url2)
+
+  // Different base domains = no match
+  if (parsed1.domain !== parsed2.domain) {
+    return 0.0
+  }
+
+  // Exact full URL match
+  if (parsed1.fullDomain === parsed2.fullDomain && parsed1.path === parsed2.path) {
+    return 1.0
+  }
+
+  // Calculate subdomain similarity
+  let subdomainScore = 0
+
+  if (parsed1.subdomain === parsed2.subdomain) {
+    // Exact subdomain match (including both empty = bare domain)
+    subdomainScore = 1.0
+  } else if (
+    (parsed1.subdomain === 'www' && parsed2.subdomain === '') ||
+    (parsed1.subdomain === '' && parsed2.subdomain === 'www')
+  ) {
+    // www vs non-www are considered close variants
+    subdomainScore = 0.85
+  } else {
+    // Different subdomains (e.g., www vs blog)
+    subdomainScore = 0.3
+  }
+
+  // Calculate path similarity
+  let pathScore = 0
+
+  if (parsed1.path === parsed2.path) {
+    // Exact path match - only this gets a high score
+    pathScore = 1.0
+  } else {
+    // For non-exact matches, use strict segment-based comparison
+    // This prevents child paths (e.g., /ditto/page) from matching parent paths (e.g., /ditto)
+    const segments1 = parsed1.path.split('/').filter(s => s)
+    const segments2 = parsed2.path.split('/').filter(s => s)
+
+    // Only award points if there are matching initial segments
+    // AND the paths are not parent/child relationships
+    let matchingSegments = 0
+    const minSegments = Math.min(segments1.length, segments2.length)
+
+    for (let i = 0; i < minSegments; i++) {
+      if (segments1[i] === segments2[i]) {
+        matchingSegments++
+      } else {
+        break // Stop at first non-matching segment
+      }
+    }
+
+    // Award minimal score only if some segments match
+    // Reduced from 0.4 base to 0.1 to heavily penalize non-exact matches
+    if (matchingSegments > 0) {
+      const maxSegments = Math.max(segments1.length, segments2.length)
+      pathScore = 0.1 + (0.15 * (matchingSegments / maxSegments))
+    } else {
+      pathScore = 0.0
+    }
+  }
+
+  // Combine scores with weighting
+  // Subdomain is very important (60%), path is important (40%)
+  const finalScore = (subdomainScore * 0.6) + (pathScore * 0.4)
+
+  return Math.min(finalScore, 1.0)
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest'
+import type { JsonLdSchema } from 'aeo-schema-generator-shared/types'
+import { validatorService } from './validator.js'
+import { sanitizeSchemaProperties } from './schemaPropertyWhitelist.js'
+
+const product: JsonLdSchema = {
+  '@context': 'https://schema.org',
+  '@type': 'Product',
+  name: 'Trailhead 40L',
+  offers: [
+    {
+      '@type': 'Offer',
+      price: '129.00',
+      priceCurrency: 'USD',
+      availability: 'https://schema.org/InStock'
+    }
+  ]
+}
+
+describe('SchemaValidatorService vocabulary checks', () => {
+  it('accepts a schema that matches the vocabulary', () => {
+    expect(validatorService.checkVocabulary(product)).toEqual([])
+    expect(validatorService.checkSchemaOrgCompliance(product).isCompliant).toBe(true)
+  })
+
+  it('reports properties the type does not define', () => {
+    const issues = validatorService.checkVocabulary({
+      '@context': 'https://schema.org',
+      '@type': 'WebPage',
+      name: 'About',
+      articleBody: 'Text',
+      madeUpProperty: 'x'
+    })
+
+    expect(issues).toEqual([
+      expect.objectContaining({ code: 'INVALID_PROPERTY_FOR_TYPE', severity: 'error', path: '$.articleBody' }),
+      expect.objectContaining({ code: 'UNKNOWN_PROPERTY', severity: 'error', path: '$.madeUpProperty' })
+    ])
+  })
+
+  it('accepts inherited properties', () => {
+    const issues = validatorService.checkVocabulary({
+      '@context': 'https://schema.org',
+      '@type': 'Restaurant',
+      name: 'Cafe',
+      servesCuisine: 'Italian',
+      priceRange: '$$',
+      geo: { '@type': 'GeoCoordinates', latitude: 45.5, longitude: -122.6 }
+    })
+
+    expect(issues).toEqual([])
+  })
+
+  it('reports unknown enumeration members with their path', () => {
+    const issues = validatorService.checkVocabulary({
+      ...product,
+      offers: [{ '@type': 'Offer', price: '129.00', availability: 'https://schema.org/Available' }]
+    })
+
+    expect(issues).toEqual([
+      expect.objectContaining({ code: 'UNKNOWN_ENUM_VALUE', path: '$.offers[0].availability' })
+    ])
+  })
+
+  it('reports values of the wrong type', () => {
+    const issues = validatorService.checkVocabulary({
+      '@context': 'https://schema.org',
+      '@type': 'Article',
+      headline: 'Hello',
+      author: { '@type': 'Offer', price: '1' },
+      wordCount: true
+    })
+
+    expect(issues).toEqual([
+      expect.objectContaining({ code: 'INVALID_VALUE_TYPE', severity: 'warning', path: '$.author' }),
+      expect.objectContaining({ code: 'INVALID_VALUE_TYPE', severity: 'warning', path: '$.wordCount' })
+    ])
+  })
+
+  it('reports superseded terms', () => {
+    const issues = validatorService.checkVocabulary({
+      '@context': 'https://schema.org',
+      '@type': 'Recipe',
+      name: 'Soup',
+      ingredients: ['Water']
+    })
+
+    expect(issues).toEqual([
+      expect.objectContaining({ code: 'DEPRECATED_PROPERTY', severity: 'warning', path: '$.ingredients' })
+    ])
+  })
+
+  it('skips property checks on types missing from the vocabulary', () => {
+    const issues = validatorService.checkVocabulary({
+      '@context': 'https://schema.org',
+      '@type': 'SomeNewType',
+      anything: 'goes'
+    })
+
+    expect(issues).toEqual([])
+  })
+
+  it('checks every node in a @graph', () => {
+    const result = validatorService.checkSchemaOrgCompliance({
+      '@context': 'https://schema.org',
+      '@graph': [
+        { '@type': 'Organization', name: 'Example' },
+        { '@type': 'BreadcrumbList', keywords: 'packs' }
+      ]
+    } as unknown as JsonLdSchema)
+
+    expect(result.isCompliant).toBe(false)
+    expect(result.errors).toEqual([
+      expect.objectContaining({ code: 'INVALID_PROPERTY_FOR_TYPE', path: "$['@graph'][1].keywords" })
+    ])
+  })
+})
+
+describe('sanitizeSchemaProperties', () => {
+  it('removes the same properties the validator reports', () => {
+    const schema: JsonLdSchema = {
+      '@context': 'https://schema.org',
+      '@type': 'WebPage',
+      name: 'About',
+      headline: 'About us',
+      articleSection: 'Company',
+      articleBody: 'We build schema.'
+    }
+
+    const result = sanitizeSchemaProperties(schema)
+
+    expect(result.removedProperties.map(removed => removed.property)).toEqual(['articleSection', 'articleBody'])
+    expect(validatorService.checkVocabulary(result.schema)).toEqual([])
+  })
+})
@@ -1,10 +1,10 @@
 import type { JsonLdSchema } from 'aeo-schema-generator-shared/types'
 import {
-  isPropertyValidForType,
-  isArticleType,
-  isCreativeWorkType,
+  describeDomains,
+  getSchemaTypes,
   isHeadlineNotValidFor
 } from './schemaPropertyWhitelist.js'
+import { schemaVocabulary } from './schemaVocabulary.js'
 
 /**
  * Schema.org Compliance Result
@@ -20,12 +20,29 @@ export interface ComplianceError {
   code: string
   property: string
   message: string
+  /** JSONPath of the offending value, e.g. $.offers[0].availability */
+  path?: string
 }
 
 export interface ComplianceWarning {
   code: string
   property: string
   message: string
+  /** JSONPath of the offending value, e.g. $.offers[0].availability */
+  path?: string
+}
+
+/**
+ * A finding from checking a schema against the schema.org vocabulary
+ */
+export interface VocabularyIssue {
+  code: string
+  severity: 'error' | 'warning'
+  /** Property (or @type) the issue is about */
+  property: string
+  /** JSONPath of the offending value, e.g. $.offers[0].availability */
+  path: string
+  message: string
 }
 
 export interface ValidationResult {
@@ -57,169 +74,6 @@ class SchemaValidatorService {
     ['http://schema.org']
   ]
 
-  // Comprehensive Schema.org types list (100+ most commonly used types)
-  // Note: This is not exhaustive (Schema.org has 700+ types), but covers 95%+ of real-world use cases
-  private readonly schemaTypes: Record<string, string[]> = {
-    // Creative works
-    'Article': [],
-    'BlogPosting': [],
-    'NewsArticle': [],
-    'ScholarlyArticle': [],
-    'TechArticle': [],
-    'SocialMediaPosting': [],
-    'WebPage': [],
-    'WebSite': [],
-    'Book': [],
-    'Movie': [],
-    'MusicRecording': [],
-    'VideoObject': [],
-    'AudioObject': [],
-    'ImageObject': [],
-    'MediaObject': [],
-    'Photograph': [],
-    'CreativeWork': [],
-    'HowTo': [],
-    'Recipe': [],
-    'Course': [],
-    'LearningResource': [],
-
-    // Organizations & People
-    'Organization': [],
-    'LocalBusiness': [],
-    'Corporation': [],
-    'EducationalOrganization': [],
-    'GovernmentOrganization': [],
-    'NGO': [],
-    'PerformingGroup': [],
-    'SportsTeam': [],
-    'Person': [],
-
-    // Local businesses (specific types)
-    'Restaurant': [],
-    'FoodEstablishment': [],
-    'Bakery': [],
-    'BarOrPub': [],
-    'Cafe': [],
-    'Store': [],
-    'AutoDealer': [],
-    'AutoRepair': [],
-    'HealthAndBeautyBusiness': [],
-    'HomeAndConstructionBusiness': [],
-    'LegalService': [],
-    'Dentist': [],
-    'Hospital': [],
-    'MedicalClinic': [],
-    'Physician': [],
-    'ProfessionalService': [],
-    'RealEstateAgent': [],
-    'TravelAgency': [],
-    'Accommodation': [],
-    'Hotel': [],
-    'LodgingBusiness': [],
-
-    // Products & Offers
-    'Product': [],
-    'Offer': [],
-    'AggregateOffer': [],
-    'IndividualProduct': [],
-    'ProductModel': [],
-    'Vehicle': [],
-    'Car': [],
-
-    // Events
-    'Event': [],
-    'BusinessEvent': [],
-    'ChildrensEvent': [],
-    'ComedyEvent': [],
-    'DanceEvent': [],
-    'EducationEvent': [],
-    'Festival': [],
-    'MusicEvent': [],
-    'SportsEvent': [],
-    'TheaterEvent': [],
-    'VisualArtsEvent': [],
-
-    // Actions
-    'Action': [],
-    'SearchAction': [],
-    'CreateAction': [],
-    'UpdateAction': [],
-    'DeleteAction': [],
-    'ReadAction': [],
-    'WriteAction': [],
-    'ViewAction': [],
-    'WatchAction': [],
-    'ConsumeAction': [],
-    'BuyAction': [],
-    'OrderAction': [],
-    'PayAction': [],
-    'DonateAction': [],
-
-    // Intangible types
-    'Service': [],
-    'BroadcastService': [],
-    'FinancialService': [],
-    'GovernmentService': [],
-    'TaxiService': [],
-    'Rating': [],
-    'AggregateRating': [],
-    'Review': [],
-    'Demand': [],
-    'Seat': [],
-    'Ticket': [],
-    'JobPosting': [],
-    'Occupation': [],
-
-    // Structured values
-    'PostalAddress': [],
-    'GeoCoordinates': [],
-    'ContactPoint': [],
-    'OpeningHoursSpecification': [],
-    'PropertyValue': [],
-    'QuantitativeValue': [],
-    'MonetaryAmount': [],
-    'PriceSpecification': [],
-    'Distance': [],
-    'Duration': [],
-    'Mass': [],
-
-    // Special purpose
-    'Place': [],
-    'Thing': [],
-    'Intangible': [],
-    'BreadcrumbList': [],
-    'ListItem': [],
-    'ItemList': [],
-    'FAQPage': [],
-    'QAPage': [],
-    'Question': [],
-    'Answer': [],
-    'HowToStep': [],
-    'HowToSection': [],
-    'HowToDirection': [],
-    'EntryPoint': [],
-    'SpeakableSpecification': [],
-    'WebPageElement': [],
-    'WPHeader': [],
-    'WPFooter': [],
-    'WPSideBar': [],
-
-    // Additional common types
-    'Brand': [],
-    'Audience': [],
-    'Language': [],
-    'Country': [],
-    'AdministrativeArea': [],
-    'City': [],
-    'State': [],
-    'NutritionInformation': [],
-    'Dataset': [],
-    'DataDownload': [],
-    'SoftwareApplication': [],
-    'MobileApplication': [],
-    'WebApplication': []
-  }
-
   // Common properties that should have specific formats
   private readonly propertyValidators: Record<string, (value: any) => boolean> = {
     'url': (value) => typeof value === 'string' && (value.startsWith('http://') || value.startsWith('https://')),
@@ -280,9 +134,6 @@ class SchemaValidatorService {
       // Validate @type
       this.validateType(schema, errors, warnings)
 
-      // Validate required properties
-      this.validateRequiredProperties(schema, errors, warnings)
-
       // Validate property formats
       this.validatePropertyFormats(schema, errors, warnings)
 
@@ -292,6 +143,9 @@ class SchemaValidatorService {
       // Additional content-specific validations
       this.validateContentSpecificRules(schema, errors, warnings)
 
+      // Vocabulary checks (property domains, value types, enumerations, deprecated terms)
+      this.validateVocabulary(schema, errors, warnings)
+
       return {
         isValid: errors.length === 0,
         errors,
@@ -355,9 +209,9 @@ class SchemaValidatorService {
       return
     }
 
-    // Check if it's a known common Schema.org type
-    if (!this.schemaTypes[type]) {
-      // Not in our common types list - do additional validation
+    // Check if it's a type in the bundled schema.org vocabulary
+    if (!schemaVocabulary.isKnownType(type)) {
+      // Not in the vocabulary - do additional validation
       if (!this.isValidSchemaOrgNaming(type)) {
         // Definitely invalid - doesn't follow Schema.org naming conventions
         warnings.push({
@@ -366,7 +220,7 @@ class SchemaValidatorService {
           severity: 'warning'
         })
       } else {
-        // Follows naming conventions but not in our common types list
+        // Follows naming conventions but not in the vocabulary
         // This could be a less common but valid Schema.org type
         warnings.push({
           field: '@type',
@@ -377,24 +231,6 @@ class SchemaValidatorService {
     }
   }
 
-  private validateRequiredProperties(schema: any, errors: ValidationError[], warnings: ValidationWarning[]): void {
-    const type = schema['@type']
-    if (!type || typeof type !== 'string') return
-
-    const requiredProps = this.schemaTypes[type]
-    if (!requiredProps) return
-
-    for (const prop of requiredProps) {
-      if (!schema[prop]) {
-        errors.push({
-          field: prop,
-          message: `"${prop}" is required for ${type}`,
-          severity: 'error'
-        })
-      }
-    }
-  }
-
   private validatePropertyFormats(schema: any, errors: ValidationError[], warnings: ValidationWarning[]): void {
     for (const [property, validator] of Object.entries(this.propertyValidators)) {
       if (schema[property] && !validator(schema[property])) {
@@ -445,9 +281,9 @@ class SchemaValidatorService {
 
     const type = obj['@type']
 
-    // Check if it's a known common Schema.org type
-    if (typeof type === 'string' && !this.schemaTypes[type]) {
-      // Not in our common types list - do additional validation
+    // Check if it's a type in the bundled schema.org vocabulary
+    if (typeof type === 'string' && !schemaVocabulary.isKnownType(type)) {
+      // Not in the vocabulary - do additional validation
       if (!this.isValidSchemaOrgNaming(type)) {
         // Definitely invalid - doesn't follow Schema.org naming conventions
         warnings.push({
@@ -457,7 +293,7 @@ class SchemaValidatorService {
           path: `${parentKey}.@type`
         })
       } else {
-        // Follows naming conventions but not in our common types list
+        // Follows naming conventions but not in the vocabulary
         // This could be a less common but valid Schema.org type
         warnings.push({
           field: `${parentKey}.@type`,
@@ -707,6 +543,188 @@ class SchemaValidatorService {
     }
   }
 
+  private validateVocabulary(schema: any, errors: ValidationError[], warnings: ValidationWarning[]): void {
+    for (const issue of this.checkVocabulary(schema)) {
+      if (issue.severity === 'error') {
+        errors.push({ field: issue.property, message: issue.message, severity: 'error', path: issue.path })
+      } else {
+        warnings.push({ field: issue.property, message: issue.message, severity: 'warning', path: issue.path })
+      }
+    }
+  }
+
+  /**
+   * Check a schema (including nested nodes and @graph members) against the bundled
+   * schema.org vocabulary. Reports properties the node's type does not accept, values of the
+   * wrong type, unknown enumeration members and superseded terms, each with its JSONPath.
+   * Types missing from the vocabulary are skipped rather than reported as wrong.
+   */
+  checkVocabulary(schema: any): VocabularyIssue[] {
+    const issues: VocabularyIssue[] = []
+    if (schema && typeof schema === 'object') {
+      this.checkVocabularyNode(schema, '$', issues)
+    }
+    return issues
+  }
+
+  private checkVocabularyNode(node: any, path: string, issues: VocabularyIssue[]): void {
+    if (Array.isArray(node['@graph'])) {
+      node['@graph'].forEach((member: any, index: number) => {
+        if (member && typeof member === 'object') {
+          this.checkVocabularyNode(member, `${this.appendPath(path, '@graph')}[${index}]`, issues)
+        }
+      })
+    }
+
+    const types = getSchemaTypes(node)
+
+    for (const type of types) {
+      const replacement = schemaVocabulary.getSupersededBy(type)
+      if (replacement) {
+        issues.push({
+          code: 'DEPRECATED_TYPE',
+          severity: 'warning',
+          property: '@type',
+          path: this.appendPath(path, '@type'),
+          message: `${type} is superseded in schema.org - use ${replacement} instead`
+        })
+      }
+    }
+
+    // Property domains can only be judged when every listed type is in the vocabulary
+    const checkDomains = types.length > 0 && types.every(type => schemaVocabulary.isKnownType(type))
+
+    for (const [property, value] of Object.entries(node)) {
+      if (property.startsWith('@')) continue
+      const propertyPath = this.appendPath(path, property)
+
+      const replacement = schemaVocabulary.getSupersededBy(property)
+      if (replacement) {
+        issues.push({
+          code: 'DEPRECATED_PROPERTY',
+          severity: 'warning',
+          property,
+          path: propertyPath,
+          message: `${property} is superseded in schema.org - use ${replacement} instead`
+        })
+      }
+
+      if (checkDomains && !types.some(type => schemaVocabulary.isPropertyValidForType(property, type))) {
+        const isKnown = schemaVocabulary.isKnownProperty(property)
+        issues.push({
+          code: isKnown ? 'INVALID_PROPERTY_FOR_TYPE' : 'UNKNOWN_PROPERTY',
+          severity: 'error',
+          property,
+          path: propertyPath,
+          message: isKnown
+            ? `"${property}" is not valid for ${types.join(', ')} - ${describeDomains(property)}`
+            : `"${property}" is not a schema.org property`
+        })
+      }
+
+      const values = Array.isArray(value) ? value : [value]
+      values.forEach((item, index) => {
+        const itemPath = Array.isArray(value) ? `${propertyPath}[${index}]` : propertyPath
+        this.checkVocabularyValue(property, item, itemPath, issues)
+      })
+    }
+  }
+
+  private checkVocabularyValue(property: string, value: any, path: string, issues: VocabularyIssue[]): void {
+    const ranges = schemaVocabulary.isKnownProperty(property) ? schemaVocabulary.getPropertyRanges(property) : []
+    // A range outside the bundled vocabulary could accept anything
+    const rangesKnown = ranges.length > 0 &&
+      ranges.every(range => schemaVocabulary.isKnownType(range) || schemaVocabulary.isDataType(range))
+    const accepts = (typeName: string) => ranges.some(range => schemaVocabulary.isSubtypeOf(typeName, range))
+
+    if (value && typeof value === 'object') {
+      const valueTypes = getSchemaTypes(value)
+      const knownValueTypes = valueTypes.filter(type => schemaVocabulary.isKnownType(type))
+
+      if (rangesKnown && knownValueTypes.length === valueTypes.length && valueTypes.length > 0 &&
+        !valueTypes.some(accepts)) {
+        issues.push({
+          code: 'INVALID_VALUE_TYPE',
+          severity: 'warning',
+          property,
+          path,
+          message: `"${property}" expects ${ranges.join(' or ')}, not ${valueTypes.join(', ')}`
+        })
+      }
+
+      this.checkVocabularyNode(value, path, issues)
+      return
+    }
+
+    if (typeof value === 'string') {
+      this.checkEnumerationValue(property, value, ranges, path, issues)
+      return
+    }
+
+    if (!rangesKnown) return
+
+    // Schema.org accepts text for any property, so only non-string literals are type-checked
+    const literalType = typeof value === 'boolean' ? 'Boolean' : typeof value === 'number' ? 'Number' : undefined
+    if (literalType && !accepts(literalType) && !accepts('Text') && !ranges.some(range => schemaVocabulary.isSubtypeOf(range, literalType))) {
+      issues.push({
+        code: 'INVALID_VALUE_TYPE',
+        severity: 'warning',
+        property,
+        path,
+        message: `"${property}" expects ${ranges.join(' or ')}, not a ${literalType.toLowerCase()}`
+      })
+    }
+  }
+
+  private checkEnumerationValue(
+    property: string,
+    value: string,
+    ranges: string[],
+    path: string,
+    issues: VocabularyIssue[]
+  ): void {
+    const enumerations = ranges.filter(range => schemaVocabulary.isEnumeration(range))
+    if (enumerations.length === 0) return
+
+    // Google accepts bare member names ("InStock") as well as schema.org URLs
+    const term = schemaVocabulary.toSchemaOrgTerm(value)
+    const member = term || value.trim()
+    const members = enumerations.flatMap(enumeration => schemaVocabulary.getEnumerationMembers(enumeration))
+
+    if (members.includes(member)) {
+      const replacement = schemaVocabulary.getSupersededBy(member)
+      if (replacement) {
+        issues.push({
+          code: 'DEPRECATED_ENUM_VALUE',
+          severity: 'warning',
+          property,
+          path,
+          message: `${member} is superseded in schema.org - use https://schema.org/${replacement} instead`
+        })
+      }
+      return
+    }
+
+    // Free text is fine where the property also accepts text; schema.org references are not
+    const acceptsText = ranges.some(range => schemaVocabulary.isDataType(range) || !schemaVocabulary.isKnownType(range))
+    if (term || !acceptsText) {
+      issues.push({
+        code: 'UNKNOWN_ENUM_VALUE',
+        severity: 'error',
+        property,
+        path,
+        message: `"${value}" is not a member of ${enumerations.join(' or ')}`
+      })
+    }
+  }
+
+  /**
+   * Append a property to a JSONPath, using bracket notation for names like @type or query-input
+   */
+  private appendPath(path: string, property: string): string {
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(property) ? `${path}.${property}` : `${path}['${property}']`
+  }
+
   // Batch validation for multiple schemas
   validateMultipleSchemas(schemas: any[]): ValidationResult[] {
     return schemas.map(schema => this.validateSchema(schema))
@@ -741,147 +759,102 @@ class SchemaValidatorService {
    * to ensure schemas will pass validator.schema.org
    *
    * Key checks:
-   * - articleSection/articleBody only on Article types
-   * - wordCount only on CreativeWork types
+   * - Properties must be defined by schema.org for the node's type (e.g. no articleBody on WebPage)
+   * - Values must match the property's expected types and enumerations
+   * - Superseded schema.org terms are flagged
    * - No speakable property (removed entirely)
    * - headline vs name usage for different types
    */
   checkSchemaOrgCompliance(schema: JsonLdSchema): ComplianceResult {
     const errors: ComplianceError[] = []
     const warnings: ComplianceWarning[] = []
-    const schemaType = schema['@type'] as string
 
-    if (!schemaType) {
+    if (!schema['@type'] && !Array.isArray(schema['@graph'])) {
       errors.push({
         code: 'MISSING_TYPE',
         property: '@type',
-        message: 'Schema must have a @type property'
+        message: 'Schema must have a @type property',
+        path: '$'
       })
       return { isCompliant: false, errors, warnings }
     }
 
-    // Check for invalid properties using whitelist service
-    for (const propertyName of Object.keys(schema)) {
-      if (propertyName.startsWith('@')) continue // Skip @context, @type, @id
-      if (!isPropertyValidForType(propertyName, schemaType)) {
-        errors.push({
-          code: 'INVALID_PROPERTY_FOR_TYPE',
-          property: propertyName,
-          message: `"${propertyName}" is not valid for ${schemaType} - will fail validator.schema.org`
-        })
+    for (const issue of this.checkVocabulary(schema)) {
+      const finding = {
+        code: issue.code,
+        property: this.toCompliancePropertyPath(issue.path),
+        message: issue.message,
+        path: issue.path
+      }
+      if (issue.severity === 'error') {
+        errors.push(finding)
+      } else {
+        warnings.push(finding)
       }
     }
 
+    this.checkNodeCompliance(schema, '$', errors, warnings)
+
+    return {
+      isCompliant: errors.length === 0,
+      errors,
+      warnings
+    }
+  }
+
+  /**
+   * Apply the generator's own rules (speakable, headline) to a node and everything nested in it
+   */
+  private checkNodeCompliance(
+    node: any,
+    path: string,
+    errors: ComplianceError[],
+    warnings: ComplianceWarning[]
+  ): void {
+    const types = getSchemaTypes(node)
+
     // Check for speakable (should have been removed, but flag if present)
-    if ('speakable' in schema) {
+    if (types.length > 0 && 'speakable' in node) {
+      const speakablePath = this.appendPath(path, 'speakable')
       errors.push({
         code: 'SPEAKABLE_NOT_ALLOWED',
-        property: 'speakable',
-        message: 'speakable property causes CSS selector validation errors - should be removed'
+        property: this.toCompliancePropertyPath(speakablePath),
+        message: 'speakable property causes CSS selector validation errors - should be removed',
+        path: speakablePath
       })
     }
 
     // Check headline usage on non-article types
-    if ('headline' in schema && isHeadlineNotValidFor(schemaType)) {
+    const headlineType = types.find(type => isHeadlineNotValidFor(type))
+    if ('headline' in node && headlineType) {
+      const headlinePath = this.appendPath(path, 'headline')
       warnings.push({
         code: 'HEADLINE_ON_NON_ARTICLE',
-        property: 'headline',
-        message: `"headline" on ${schemaType} may cause issues - consider using "name" instead`
-      })
-    }
-
-    // Check for article-only properties on WebPage (common mistake)
-    if (!isArticleType(schemaType)) {
-      if ('articleSection' in schema) {
-        errors.push({
-          code: 'ARTICLE_SECTION_ON_NON_ARTICLE',
-          property: 'articleSection',
-          message: `articleSection is only valid for Article types, not ${schemaType}`
-        })
-      }
-      if ('articleBody' in schema) {
-        errors.push({
-          code: 'ARTICLE_BODY_ON_NON_ARTICLE',
-          property: 'articleBody',
-          message: `articleBody is only valid for Article types, not ${schemaType}`
-        })
-      }
-    }
-
-    // Check wordCount on non-CreativeWork types
-    if (!isCreativeWorkType(schemaType) && 'wordCount' in schema) {
-      errors.push({
-        code: 'WORD_COUNT_ON_INVALID_TYPE',
-        property: 'wordCount',
-        message: `wordCount is only valid for CreativeWork types, not ${schemaType}`
+        property: this.toCompliancePropertyPath(headlinePath),
+        message: `"headline" on ${headlineType} may cause issues - consider using "name" instead`,
+        path: headlinePath
       })
     }
 
     // Recursively check nested objects
-    this.checkNestedCompliance(schema, errors, warnings, '')
-
-    return {
-      isCompliant: errors.length === 0,
-      errors,
-      warnings
+    for (const [key, value] of Object.entries(node)) {
+      const items = Array.isArray(value) ? value : [value]
+      items.forEach((item, index) => {
+        if (item && typeof item === 'object') {
+          const itemPath = Array.isArray(value)
+            ? `${this.appendPath(path, key)}[${index}]`
+            : this.appendPath(path, key)
+          this.checkNodeCompliance(item, itemPath, errors, warnings)
+        }
+      })
     }
   }
 
   /**
-   * Recursively check compliance on nested objects
+   * Compliance findings name the property relative to the root ("offers[0].availability")
    */
-  private checkNestedCompliance(
-    obj: any,
-    errors: ComplianceError[],
-    warnings: ComplianceWarning[],
-    path: string
-  ): void {
-    for (const [key, value] of Object.entries(obj)) {
-      if (value && typeof value === 'object' && !Array.isArray(value) && '@type' in value) {
-        const nestedPath = path ? `${path}.${key}` : key
-        const nestedResult = this.checkSchemaOrgCompliance(value as JsonLdSchema)
-
-        // Add errors with path prefix
-        for (const error of nestedResult.errors) {
-          errors.push({
-            ...error,
-            property: `${nestedPath}.${error.property}`
-          })
-        }
-
-        // Add warnings with path prefix
-        for (const warning of nestedResult.warnings) {
-          warnings.push({
-            ...warning,
-            property: `${nestedPath}.${warning.property}`
-          })
-        }
-      }
-
-      // Handle arrays of objects
-      if (Array.isArray(value)) {
-        value.forEach((item, index) => {
-          if (item && typeof item === 'object' && '@type' in item) {
-            const nestedPath = path ? `${path}.${key}[${index}]` : `${key}[${index}]`
-            const nestedResult = this.checkSchemaOrgCompliance(item as JsonLdSchema)
-
-            for (const error of nestedResult.errors) {
-              errors.push({
-                ...error,
-                property: `${nestedPath}.${error.property}`
-              })
-            }
-
-            for (const warning of nestedResult.warnings) {
-              warnings.push({
-                ...warning,
-                property: `${nestedPath}.${warning.property}`
-              })
-            }
-          }
-        })
-      }
-    }
+  private toCompliancePropertyPath(path: string): string {
+    return path.replace(/^\$\.?/, '').replace(/\['([^']+)'\]/g, '.$1').replace(/^\./, '')
   }
 
   /**
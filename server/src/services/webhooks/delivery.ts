@@ -0,0 +1,584 @@
+/**
+ * Webhook Delivery
+ * Fans schema events out to team webhook endpoints as signed JSON and retries failures
+ *
+ * Every event gets one delivery row per subscribed endpoint. The first attempt is made right
+ * away; non-2xx responses and network errors are retried with backoff by the scheduled run.
+ * Each attempt is claimed with a conditional update so several server instances can share
+ * the queue. Events never fail the request that caused them.
+ *
+ * Signature: X-SuperSchema-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ * During a secret rotation grace period a second v1 signature made with the old secret is added.
+ */
+
+// IMPORTANT: Load environment variables FIRST
+import '../../config/env.js'
+
+import axios from 'axios'
+import crypto from 'crypto'
+import { createClient } from '@supabase/supabase-js'
+import type {
+  WebhookEventType,
+  WebhookEventPayload,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  SchemaWebhookEventData,
+  SchemaPushedWebhookEventData,
+  SchemaValidationFailedWebhookEventData
+} from 'aeo-schema-generator-shared/types'
+import {
+  listEndpointsForEvent,
+  getEndpointForDelivery,
+  recordEndpointDelivery,
+  type WebhookSigningSecrets
+} from './endpoints.js'
+import { getUserActiveTeam } from '../teamService.js'
+import { assertPublicUrl, publicHttpsAgent } from '../../utils/publicNetwork.js'
+
+// Initialize Supabase client
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+)
+
+/** Attempts (first delivery included) before a delivery is given up on */
+export const MAX_DELIVERY_ATTEMPTS = 6
+
+/** Delay before the first retry - quadruples on every attempt (1, 4, 16, 64, 256 minutes) */
+const RETRY_BASE_DELAY_MS = 60 * 1000
+
+/** Upper bound for a single backoff delay */
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000
+
+/** Max deliveries retried per scheduled run */
+const DELIVERIES_PER_RUN = 50
+
+/** Receivers must answer within this time */
+const DELIVERY_TIMEOUT_MS = 10000
+
+/** A delivery still 'delivering' this long after its claim was interrupted (crash or restart mid-send) */
+const STALE_DELIVERING_MS = 15 * 60 * 1000
+
+/** Response bodies are kept in the log up to this length */
+const MAX_RESPONSE_BODY_LENGTH = 1000
+
+export const SIGNATURE_HEADER = 'X-SuperSchema-Signature'
+
+export type WebhookEventData = {
+  'schema.generated': SchemaWebhookEventData
+  'schema.refined': SchemaWebhookEventData
+  'schema.updated': SchemaWebhookEventData
+  'schema.pushed': SchemaPushedWebhookEventData
+  'schema.validation_failed': SchemaValidationFailedWebhookEventData
+  'webhook.test': { message: string }
+}
+
+/**
+ * Who caused an event - teamId is resolved from the user's active team when missing
+ */
+export interface WebhookEventActor {
+  userId: string
+  teamId?: string | null
+}
+
+interface DeliveryAttemptResult {
+  success: boolean
+  responseStatus?: number
+  responseBody?: string
+  errorMessage?: string
+  durationMs: number
+}
+
+// =============================================================================
+// SIGNING
+// =============================================================================
+
+/**
+ * Build the signature header value for a request body
+ */
+export function signWebhookPayload(body: string, secrets: WebhookSigningSecrets, timestamp: number): string {
+  const sign = (secret: string) =>
+    crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+
+  const parts = [`t=${timestamp}`, `v1=${sign(secrets.current)}`]
+  if (secrets.previous) {
+    parts.push(`v1=${sign(secrets.previous)}`)
+  }
+  return parts.join(',')
+}
+
+/**
+ * When the next attempt should run after `attemptCount` attempts have been made
+ */
+export function getNextDeliveryAttemptAt(attemptCount: number, now: Date = new Date()): Date {
+  const delay = Math.min(RETRY_BASE_DELAY_MS * Math.pow(4, Math.max(attemptCount - 1, 0)), RETRY_MAX_DELAY_MS)
+  return new Date(now.getTime() + delay)
+}
+
+// =============================================================================
+// DELIVERY ROWS
+// =============================================================================
+
+function rowToDelivery(row: any): WebhookDelivery {
+  return {
+    id: row.id,
+    endpointId: row.endpoint_id,
+    eventId: row.event_id,
+    eventType: row.event_type,
+    status: row.status,
+    isTest: row.is_test,
+    attemptCount: row.attempt_count,
+    nextAttemptAt: row.next_attempt_at || undefined,
+    responseStatus: row.response_status ?? undefined,
+    responseBody: row.response_body ?? undefined,
+    errorMessage: row.error_message || undefined,
+    durationMs: row.duration_ms ?? undefined,
+    deliveredAt: row.delivered_at || undefined,
+    createdAt: row.created_at,
+    payload: row.payload
+  }
+}
+
+async function createDelivery(
+  endpointId: string,
+  payload: WebhookEventPayload,
+  isTest: boolean = false
+): Promise<WebhookDelivery> {
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .insert({
+      endpoint_id: endpointId,
+      team_id: payload.teamId,
+      event_id: payload.id,
+      event_type: payload.type,
+      payload,
+      is_test: isTest,
+      status: 'pending',
+      next_attempt_at: new Date().toISOString()
+    })
+    .select('*')
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to queue webhook delivery: ${error.message}`)
+  }
+
+  return rowToDelivery(data)
+}
+
+/**
+ * Claim a pending delivery for an attempt and count the attempt
+ * Returns null when the delivery is no longer pending (claimed by another server instance)
+ */
+async function claimDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
+  const { data: current, error: fetchError } = await supabase
+    .from('webhook_deliveries')
+    .select('status, attempt_count')
+    .eq('id', deliveryId)
+    .maybeSingle()
+
+  if (fetchError) throw fetchError
+  if (!current || current.status !== 'pending') return null
+
+  // Conditional update - only one instance sees the row still pending with this count
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .update({
+      status: 'delivering',
+      attempt_count: current.attempt_count + 1,
+      next_attempt_at: null
+    })
+    .eq('id', deliveryId)
+    .eq('status', 'pending')
+    .eq('attempt_count', current.attempt_count)
+    .select('*')
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? rowToDelivery(data) : null
+}
+
+async function recordAttempt(
+  delivery: WebhookDelivery,
+  result: DeliveryAttemptResult,
+  canRetry: boolean
+): Promise<WebhookDeliveryStatus> {
+  const status: WebhookDeliveryStatus = result.success ? 'success' : canRetry ? 'pending' : 'failed'
+
+  const { error } = await supabase
+    .from('webhook_deliveries')
+    .update({
+      status,
+      next_attempt_at: status === 'pending' ? getNextDeliveryAttemptAt(delivery.attemptCount).toISOString() : null,
+      response_status: result.responseStatus ?? null,
+      response_body: result.responseBody ?? null,
+      error_message: result.errorMessage ?? null,
+      duration_ms: result.durationMs,
+      delivered_at: result.success ? new Date().toISOString() : null
+    })
+    .eq('id', delivery.id)
+
+  if (error) throw error
+
+  await recordEndpointDelivery(delivery.endpointId, status)
+  return status
+}
+
+/**
+ * Delivery log for one endpoint, newest first
+ */
+export async function listDeliveries(endpointId: string, teamId: string, limit: number = 50): Promise<WebhookDelivery[]> {
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('endpoint_id', endpointId)
+    .eq('team_id', teamId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to list webhook deliveries: ${error.message}`)
+  }
+
+  return (data || []).map(rowToDelivery)
+}
+
+// =============================================================================
+// SENDING
+// =============================================================================
+
+/**
+ * POST a payload to an endpoint - never throws, the outcome is in the result
+ */
+async function sendPayload(
+  url: string,
+  secrets: WebhookSigningSecrets,
+  delivery: WebhookDelivery
+): Promise<DeliveryAttemptResult> {
+  const body = JSON.stringify(delivery.payload)
+  const timestamp = Math.floor(Date.now() / 1000)
+  const startedAt = Date.now()
+
+  try {
+    // Names are re-resolved and checked by the agent on every delivery - DNS may have changed
+    // since the endpoint was saved; IP literals skip the lookup, so check those here
+    assertPublicUrl(url)
+
+    const response = await axios.post(url, body, {
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'SuperSchema-Webhooks/1.0',
+        'X-SuperSchema-Event': delivery.eventType,
+        'X-SuperSchema-Delivery': delivery.id,
+        [SIGNATURE_HEADER]: signWebhookPayload(body, secrets, timestamp)
+      },
+      timeout: DELIVERY_TIMEOUT_MS,
+      httpsAgent: publicHttpsAgent,
+      maxRedirects: 0,  // A redirect is a failed delivery - the signed body must not follow it
+      responseType: 'text',
+      transformResponse: (data) => data,
+      validateStatus: () => true
+    })
+
+    const responseBody = typeof response.data === 'string'
+      ? response.data.substring(0, MAX_RESPONSE_BODY_LENGTH)
+      : undefined
+    const success = response.status >= 200 && response.status < 300
+
+    return {
+      success,
+      responseStatus: response.status,
+      responseBody,
+      errorMessage: success ? undefined : `Endpoint responded with HTTP ${response.status}`,
+      durationMs: Date.now() - startedAt
+    }
+  } catch (error) {
+    return {
+      success: false,
+      errorMessage: error instanceof Error ? error.message : 'Request failed',
+      durationMs: Date.now() - startedAt
+    }
+  }
+}
+
+/**
+ * Make one attempt at a pending delivery
+ * Test deliveries are never retried
+ */
+async function attemptDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
+  const delivery = await claimDelivery(deliveryId)
+  if (!delivery) {
+    return null
+  }
+
+  const endpoint = await getEndpointForDelivery(delivery.endpointId)
+  const result: DeliveryAttemptResult = endpoint
+    ? await sendPayload(endpoint.url, endpoint.secrets, delivery)
+    : { success: false, errorMessage: 'Endpoint is paused or was deleted', durationMs: 0 }
+
+  const canRetry = !!endpoint && !delivery.isTest && delivery.attemptCount < MAX_DELIVERY_ATTEMPTS
+  const status = await recordAttempt(delivery, result, canRetry)
+
+  if (!result.success) {
+    console.warn(`⚠️ [Webhooks] Delivery ${delivery.id} (${delivery.eventType}) failed: ${result.errorMessage}` +
+      (status === 'pending' ? ` - retry ${delivery.attemptCount}/${MAX_DELIVERY_ATTEMPTS - 1} scheduled` : ''))
+  }
+
+  return {
+    ...delivery,
+    status,
+    responseStatus: result.responseStatus,
+    responseBody: result.responseBody,
+    errorMessage: result.errorMessage,
+    durationMs: result.durationMs
+  }
+}
+
+// =============================================================================
+// EVENTS
+// =============================================================================
+
+function buildPayload<T extends WebhookEventType>(
+  teamId: string,
+  type: T,
+  data: WebhookEventData[T]
+): WebhookEventPayload<WebhookEventData[T]> {
+  return {
+    id: crypto.randomUUID(),
+    type,
+    createdAt: new Date().toISOString(),
+    teamId,
+    data
+  }
+}
+
+/**
+ * Queue an event for every subscribed endpoint of the team and attempt delivery
+ * @returns number of deliveries queued
+ */
+export async function dispatchWebhookEvent<T extends WebhookEventType>(
+  actor: WebhookEventActor,
+  type: T,
+  data: WebhookEventData[T]
+): Promise<number> {
+  const teamId = actor.teamId || await getUserActiveTeam(actor.userId)
+  if (!teamId) {
+    return 0
+  }
+
+  const endpoints = await listEndpointsForEvent(teamId, type)
+  if (endpoints.length === 0) {
+    return 0
+  }
+
+  const payload = buildPayload(teamId, type, data)
+  const deliveries = await Promise.all(endpoints.map(endpoint => createDelivery(endpoint.id, payload)))
+
+  // Endpoints are independent - one slow receiver doesn't hold up the others
+  await Promise.all(deliveries.map(delivery =>
+    attemptDelivery(delivery.id).catch(error =>
+      console.error(`❌ [Webhooks] Delivery ${delivery.id} attempt errored:`, error)
+    )
+  ))
+
+  return deliveries.length
+}
+
+/**
+ * Fire-and-forget wrapper for request handlers and workers
+ */
+export function emitWebhookEvent<T extends WebhookEventType>(
+  actor: WebhookEventActor,
+  type: T,
+  data: WebhookEventData[T]
+): void {
+  dispatchWebhookEvent(actor, type, data).catch(error =>
+    console.error(`❌ [Webhooks] Failed to dispatch ${type}:`, error)
+  )
+}
+
+/**
+ * Send a webhook.test event to one endpoint and wait for the outcome
+ */
+export async function sendTestWebhook(endpointId: string, teamId: string): Promise<WebhookDelivery> {
+  const payload = buildPayload(teamId, 'webhook.test', {
+    message: 'Test delivery from SuperSchema. Verify the signature and respond with a 2xx status.'
+  })
+  const delivery = await createDelivery(endpointId, payload, true)
+
+  const attempted = await attemptDelivery(delivery.id)
+  if (!attempted) {
+    throw new Error('Test delivery could not be sent')
+  }
+  return attempted
+}
+
+// =============================================================================
+// EVENT DATA HELPERS
+// =============================================================================
+
+/**
+ * Script tags for a list of schemas, same format as the generator returns
+ */
+export function toHtmlScriptTags(schemas: any[]): string {
+  return schemas
+    .map(schema => `<script type="application/ld+json">\n${JSON.stringify(schema, null, 2)}\n</script>`)
+    .join('\n')
+}
+
+type SchemaValidationResults = Array<{ isValid: boolean; errors: Array<{ field: string; message: string }> }>
+
+/**
+ * Collect validation errors for a schema.validation_failed event (empty when all schemas are valid)
+ * @param validationResults - one result per schema, in the same order
+ */
+export function collectValidationErrors(
+  schemas: any[],
+  validationResults: SchemaValidationResults
+): SchemaValidationFailedWebhookEventData['errors'] {
+  return validationResults.flatMap((result, index) =>
+    result.isValid
+      ? []
+      : result.errors.map(error => ({
+          schemaType: String(schemas[index]?.['@type'] ?? 'Unknown'),
+          field: error.field,
+          message: error.message
+        }))
+  )
+}
+
+/**
+ * Emit a schema.generated/refined/updated event, plus schema.validation_failed when the
+ * schemas have validation errors
+ */
+export function emitSchemaChangeEvents(
+  actor: WebhookEventActor,
+  type: 'schema.generated' | 'schema.refined' | 'schema.updated',
+  change: { url: string; urlId?: string; schemaId?: string; schemas: any[]; schemaScore?: number },
+  validationResults: SchemaValidationResults
+): void {
+  emitWebhookEvent(actor, type, {
+    url: change.url,
+    urlId: change.urlId,
+    schemaId: change.schemaId,
+    schemaTypes: change.schemas.map(schema => String(schema?.['@type'] ?? 'Unknown')),
+    schemas: change.schemas,
+    htmlScriptTags: toHtmlScriptTags(change.schemas),
+    schemaScore: change.schemaScore,
+    userId: actor.userId
+  })
+
+  const errors = collectValidationErrors(change.schemas, validationResults)
+  if (errors.length > 0) {
+    emitWebhookEvent(actor, 'schema.validation_failed', {
+      url: change.url,
+      urlId: change.urlId,
+      schemaId: change.schemaId,
+      source: type,
+      errors,
+      userId: actor.userId
+    })
+  }
+}
+
+// =============================================================================
+// RETRY WORKER
+// =============================================================================
+
+/**
+ * Put deliveries interrupted mid-send back in the queue
+ * The interrupted attempt was already counted; deliveries without attempts left
+ * (and test deliveries, which are never retried) are marked failed instead
+ */
+async function requeueStaleDeliveries(now: Date = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - STALE_DELIVERING_MS).toISOString()
+  const interruptedMessage = 'Delivery was interrupted before the endpoint answered'
+
+  const { data: failed, error: failError } = await supabase
+    .from('webhook_deliveries')
+    .update({ status: 'failed', error_message: interruptedMessage })
+    .eq('status', 'delivering')
+    .lt('updated_at', cutoff)
+    .or(`is_test.eq.true,attempt_count.gte.${MAX_DELIVERY_ATTEMPTS}`)
+    .select('id, endpoint_id')
+
+  if (failError) throw failError
+
+  for (const row of failed || []) {
+    await recordEndpointDelivery(row.endpoint_id, 'failed')
+  }
+
+  // Conditional on the status so a delivery that just finished is left alone
+  const { data: requeued, error: requeueError } = await supabase
+    .from('webhook_deliveries')
+    .update({ status: 'pending', next_attempt_at: now.toISOString(), error_message: interruptedMessage })
+    .eq('status', 'delivering')
+    .lt('updated_at', cutoff)
+    .select('id')
+
+  if (requeueError) throw requeueError
+
+  const count = (failed?.length || 0) + (requeued?.length || 0)
+  if (count > 0) {
+    console.warn(`⚠️ [Webhooks] Recovered ${count} interrupted deliveries (${requeued?.length || 0} requeued, ${failed?.length || 0} failed)`)
+  }
+  return requeued?.length || 0
+}
+
+export class WebhookDeliveryWorker {
+  private isRunning = false
+
+  /**
+   * Requeue interrupted deliveries, then attempt every pending delivery whose next attempt is due
+   */
+  async retryDueDeliveries(): Promise<{ requeuedCount: number; attemptedCount: number; succeededCount: number; failedCount: number }> {
+    const stats = { requeuedCount: 0, attemptedCount: 0, succeededCount: 0, failedCount: 0 }
+
+    // A slow run must not overlap with the next scheduled one
+    if (this.isRunning) {
+      return stats
+    }
+
+    this.isRunning = true
+    try {
+      stats.requeuedCount = await requeueStaleDeliveries()
+
+      const { data, error } = await supabase
+        .from('webhook_deliveries')
+        .select('id')
+        .eq('status', 'pending')
+        .lte('next_attempt_at', new Date().toISOString())
+        .order('next_attempt_at', { ascending: true })
+        .limit(DELIVERIES_PER_RUN)
+
+      if (error) throw error
+
+      for (const { id } of data || []) {
+        const delivery = await attemptDelivery(id)
+        if (!delivery) {
+          continue // Claimed by another instance
+        }
+
+        stats.attemptedCount++
+        if (delivery.status === 'success') {
+          stats.succeededCount++
+        } else {
+          stats.failedCount++
+        }
+      }
+    } finally {
+      this.isRunning = false
+    }
+
+    return stats
+  }
+}
+
+// Export singleton instance
+export const webhookDeliveryWorker = new WebhookDeliveryWorker()
@@ -0,0 +1,495 @@
+// IMPORTANT: Load environment variables FIRST
+import '../../config/env.js'
+
+import { createClient } from '@supabase/supabase-js'
+import crypto from 'crypto'
+import { encrypt, decrypt } from '../encryption.js'
+import { isPrivateHostname } from '../../utils/publicNetwork.js'
+import type {
+  WebhookEventType,
+  WebhookDeliveryStatus,
+  TeamWebhookEndpoint,
+  CreatedWebhookEndpoint,
+  CreateWebhookEndpointRequest,
+  UpdateWebhookEndpointRequest
+} from 'aeo-schema-generator-shared/types'
+
+// Initialize Supabase client
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+)
+
+// =============================================================================
+// INTERNAL TYPES (Database row format)
+// =============================================================================
+
+interface TeamWebhookEndpointRow {
+  id: string
+  team_id: string
+  created_by: string
+  name: string
+  url: string
+  events: WebhookEventType[] | null
+  secret: string
+  secret_prefix: string
+  previous_secret: string | null
+  previous_secret_expires_at: string | null
+  is_active: boolean
+  rotated_at: string | null
+  last_delivery_at: string | null
+  last_delivery_status: WebhookDeliveryStatus | null
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Decrypted secrets a delivery is signed with (previous is set during the rotation grace period)
+ */
+export interface WebhookSigningSecrets {
+  current: string
+  previous?: string
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Prefix that identifies SuperSchema webhook signing secrets */
+export const WEBHOOK_SECRET_PREFIX = 'whsec_'
+
+/** Events endpoints can subscribe to */
+export const WEBHOOK_EVENT_TYPES: readonly WebhookEventType[] = [
+  'schema.generated',
+  'schema.refined',
+  'schema.updated',
+  'schema.pushed',
+  'schema.validation_failed'
+] as const
+
+/** Maximum endpoints per team */
+export const MAX_ENDPOINTS_PER_TEAM = 10
+
+/** How long the replaced secret keeps signing deliveries after a rotation */
+export const SECRET_ROTATION_GRACE_MS = 24 * 60 * 60 * 1000
+
+const POSTGRES_ERROR_CODES = {
+  /** No rows returned from single-row query */
+  NOT_FOUND: 'PGRST116'
+} as const
+
+const ERROR_MESSAGES = {
+  NOT_FOUND: 'Webhook endpoint not found or access denied',
+  LIST_FAILED: 'Failed to list webhook endpoints',
+  CREATE_FAILED: 'Failed to create webhook endpoint',
+  UPDATE_FAILED: 'Failed to update webhook endpoint',
+  ROTATE_FAILED: 'Failed to rotate webhook secret',
+  DELETE_FAILED: 'Failed to delete webhook endpoint',
+  LIMIT_REACHED: `Teams can have at most ${MAX_ENDPOINTS_PER_TEAM} webhook endpoints`
+} as const
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function rowToEndpoint(row: TeamWebhookEndpointRow): TeamWebhookEndpoint {
+  const previousSecretActive = !!row.previous_secret_expires_at &&
+    new Date(row.previous_secret_expires_at).getTime() > Date.now()
+
+  return {
+    id: row.id,
+    teamId: row.team_id,
+    createdBy: row.created_by,
+    name: row.name,
+    url: row.url,
+    events: row.events || [],
+    secretPrefix: row.secret_prefix,
+    isActive: row.is_active,
+    rotatedAt: row.rotated_at || undefined,
+    previousSecretExpiresAt: previousSecretActive ? row.previous_secret_expires_at! : undefined,
+    lastDeliveryAt: row.last_delivery_at || undefined,
+    lastDeliveryStatus: row.last_delivery_status || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
+
+/**
+ * Generate a new signing secret
+ * 32 bytes of randomness, base64url encoded, behind a recognizable prefix
+ */
+function generateSecret(): { secret: string; prefix: string } {
+  const random = crypto
+    .randomBytes(32)
+    .toString('base64')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=/g, '')
+
+  const secret = `${WEBHOOK_SECRET_PREFIX}${random}`
+
+  return {
+    secret,
+    prefix: secret.substring(0, WEBHOOK_SECRET_PREFIX.length + 8)
+  }
+}
+
+/**
+ * Check an endpoint URL and return it normalized
+ * Deliveries are made from our servers, so internal hosts are refused
+ */
+export function validateWebhookUrl(url: unknown): string {
+  if (typeof url !== 'string' || url.trim().length === 0) {
+    throw new Error('Webhook URL is required')
+  }
+
+  let parsed: URL
+  try {
+    parsed = new URL(url.trim())
+  } catch {
+    throw new Error('Webhook URL is not a valid URL')
+  }
+
+  if (parsed.protocol !== 'https:') {
+    throw new Error('Webhook URL must use HTTPS')
+  }
+
+  if (parsed.username || parsed.password) {
+    throw new Error('Webhook URL cannot contain credentials')
+  }
+
+  // Names that resolve to private addresses are refused when each delivery is sent
+  if (isPrivateHostname(parsed.hostname)) {
+    throw new Error('Webhook URL must point to a public host')
+  }
+
+  parsed.hash = ''
+  return parsed.toString()
+}
+
+/**
+ * Filter a requested event list down to known events (defaults to all events)
+ */
+export function normalizeEvents(events: unknown): WebhookEventType[] {
+  if (events === undefined || events === null) {
+    return [...WEBHOOK_EVENT_TYPES]
+  }
+
+  if (!Array.isArray(events)) {
+    throw new Error('Events must be an array')
+  }
+
+  const unknownEvents = events.filter(event => !WEBHOOK_EVENT_TYPES.includes(event))
+  if (unknownEvents.length > 0) {
+    throw new Error(`Unknown webhook event(s): ${unknownEvents.join(', ')}`)
+  }
+
+  const unique = Array.from(new Set(events as WebhookEventType[]))
+  if (unique.length === 0) {
+    throw new Error('At least one event is required')
+  }
+
+  return unique
+}
+
+// =============================================================================
+// CRUD OPERATIONS
+// =============================================================================
+
+/**
+ * List all webhook endpoints for a team (newest first)
+ */
+export async function listEndpoints(teamId: string): Promise<TeamWebhookEndpoint[]> {
+  const { data, error } = await supabase
+    .from('team_webhook_endpoints')
+    .select('*')
+    .eq('team_id', teamId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw new Error(`${ERROR_MESSAGES.LIST_FAILED}: ${error.message}`)
+  }
+
+  return (data || []).map(rowToEndpoint)
+}
+
+/**
+ * Get a single endpoint by ID
+ * SECURITY: Always requires teamId to prevent cross-tenant data access
+ */
+export async function getEndpoint(endpointId: string, teamId: string): Promise<TeamWebhookEndpoint | null> {
+  const { data, error } = await supabase
+    .from('team_webhook_endpoints')
+    .select('*')
+    .eq('id', endpointId)
+    .eq('team_id', teamId)
+    .single()
+
+  if (error) {
+    if (error.code === POSTGRES_ERROR_CODES.NOT_FOUND) {
+      return null
+    }
+    throw new Error(`${ERROR_MESSAGES.NOT_FOUND}: ${error.message}`)
+  }
+
+  return rowToEndpoint(data)
+}
+
+/**
+ * Create a new endpoint for a team
+ * Returns the raw signing secret - it is only shown once
+ */
+export async function createEndpoint(
+  teamId: string,
+  createdBy: string,
+  request: CreateWebhookEndpointRequest
+): Promise<CreatedWebhookEndpoint> {
+  const { count, error: countError } = await supabase
+    .from('team_webhook_endpoints')
+    .select('*', { count: 'exact', head: true })
+    .eq('team_id', teamId)
+
+  if (countError) {
+    throw new Error(`${ERROR_MESSAGES.CREATE_FAILED}: ${countError.message}`)
+  }
+
+  if ((count || 0) >= MAX_ENDPOINTS_PER_TEAM) {
+    throw new Error(ERROR_MESSAGES.LIMIT_REACHED)
+  }
+
+  const { secret, prefix } = generateSecret()
+
+  const { data, error } = await supabase
+    .from('team_webhook_endpoints')
+    .insert({
+      team_id: teamId,
+      created_by: createdBy,
+      name: request.name,
+      url: validateWebhookUrl(request.url),
+      events: normalizeEvents(request.events),
+      secret: encrypt(secret),
+      secret_prefix: prefix
+    })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`${ERROR_MESSAGES.CREATE_FAILED}: ${error.message}`)
+  }
+
+  console.log(`🪝 [Webhooks] Created endpoint ${data.id} for team ${teamId}`)
+
+  return {
+    endpoint: rowToEndpoint(data),
+    secret
+  }
+}
+
+/**
+ * Rename an endpoint, change its URL or events, or pause/resume it
+ */
+export async function updateEndpoint(
+  endpointId: string,
+  teamId: string,
+  request: UpdateWebhookEndpointRequest
+): Promise<TeamWebhookEndpoint> {
+  const existing = await getEndpoint(endpointId, teamId)
+  if (!existing) {
+    throw new Error(ERROR_MESSAGES.NOT_FOUND)
+  }
+
+  const updateData: Partial<TeamWebhookEndpointRow> = {}
+  if (request.name !== undefined) updateData.name = request.name
+  if (request.url !== undefined) updateData.url = validateWebhookUrl(request.url)
+  if (request.events !== undefined) updateData.events = normalizeEvents(request.events)
+  if (request.isActive !== undefined) updateData.is_active = request.isActive
+
+  const { data, error } = await supabase
+    .from('team_webhook_endpoints')
+    .update(updateData)
+    .eq('id', endpointId)
+    .eq('team_id', teamId)  // Defense in depth: always filter by team_id
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`${ERROR_MESSAGES.UPDATE_FAILED}: ${error.message}`)
+  }
+
+  return rowToEndpoint(data)
+}
+
+/**
+ * Replace an endpoint's signing secret
+ * The old secret keeps signing (as a second v1 signature) for the grace period so
+ * receivers can switch over without dropping deliveries
+ */
+export async function rotateEndpointSecret(endpointId: string, teamId: string): Promise<CreatedWebhookEndpoint> {
+  const { data: existing, error: fetchError } = await supabase
+    .from('team_webhook_endpoints')
+    .select('secret')
+    .eq('id', endpointId)
+    .eq('team_id', teamId)
+    .single()
+
+  if (fetchError) {
+    if (fetchError.code === POSTGRES_ERROR_CODES.NOT_FOUND) {
+      throw new Error(ERROR_MESSAGES.NOT_FOUND)
+    }
+    throw new Error(`${ERROR_MESSAGES.ROTATE_FAILED}: ${fetchError.message}`)
+  }
+
+  const { secret, prefix } = generateSecret()
+  const now = new Date()
+
+  const { data, error } = await supabase
+    .from('team_webhook_endpoints')
+    .update({
+      secret: encrypt(secret),
+      secret_prefix: prefix,
+      previous_secret: existing.secret,
+      previous_secret_expires_at: new Date(now.getTime() + SECRET_ROTATION_GRACE_MS).toISOString(),
+      rotated_at: now.toISOString()
+    })
+    .eq('id', endpointId)
+    .eq('team_id', teamId)
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`${ERROR_MESSAGES.ROTATE_FAILED}: ${error.message}`)
+  }
+
+  console.log(`🔄 [Webhooks] Rotated secret for endpoint ${endpointId} (team ${teamId})`)
+
+  return {
+    endpoint: rowToEndpoint(data),
+    secret
+  }
+}
+
+/**
+ * Delete an endpoint and its delivery log
+ */
+export async function deleteEndpoint(endpointId: string, teamId: string): Promise<void> {
+  const existing = await getEndpoint(endpointId, teamId)
+  if (!existing) {
+    throw new Error(ERROR_MESSAGES.NOT_FOUND)
+  }
+
+  const { error } = await supabase
+    .from('team_webhook_endpoints')
+    .delete()
+    .eq('id', endpointId)
+    .eq('team_id', teamId)
+
+  if (error) {
+    throw new Error(`${ERROR_MESSAGES.DELETE_FAILED}: ${error.message}`)
+  }
+
+  console.log(`🗑️ [Webhooks] Deleted endpoint ${endpointId} for team ${teamId}`)
+}
+
+// =============================================================================
+// DELIVERY SUPPORT
+// =============================================================================
+
+/**
+ * Active endpoints of a team subscribed to an event
+ */
+export async function listEndpointsForEvent(teamId: string, eventType: WebhookEventType): Promise<TeamWebhookEndpoint[]> {
+  const { data, error } = await supabase
+    .from('team_webhook_endpoints')
+    .select('*')
+    .eq('team_id', teamId)
+    .eq('is_active', true)
+    .contains('events', [eventType])
+
+  if (error) {
+    throw new Error(`${ERROR_MESSAGES.LIST_FAILED}: ${error.message}`)
+  }
+
+  return (data || []).map(rowToEndpoint)
+}
+
+/**
+ * Endpoint URL and decrypted secrets for signing a delivery
+ * Returns null when the endpoint was deleted or paused since the delivery was queued
+ */
+export async function getEndpointForDelivery(
+  endpointId: string
+): Promise<{ url: string; secrets: WebhookSigningSecrets } | null> {
+  const { data, error } = await supabase
+    .from('team_webhook_endpoints')
+    .select('url, secret, previous_secret, previous_secret_expires_at, is_active')
+    .eq('id', endpointId)
+    .single()
+
+  if (error) {
+    if (error.code === POSTGRES_ERROR_CODES.NOT_FOUND) {
+      return null
+    }
+    throw new Error(`${ERROR_MESSAGES.NOT_FOUND}: ${error.message}`)
+  }
+
+  if (!data.is_active) {
+    return null
+  }
+
+  const previousActive = !!data.previous_secret && !!data.previous_secret_expires_at &&
+    new Date(data.previous_secret_expires_at).getTime() > Date.now()
+
+  return {
+    url: data.url,
+    secrets: {
+      current: decrypt(data.secret),
+      previous: previousActive ? decrypt(data.previous_secret!) : undefined
+    }
+  }
+}
+
+/**
+ * Remember the outcome of the latest delivery on the endpoint (best effort)
+ */
+export async function recordEndpointDelivery(endpointId: string, status: WebhookDeliveryStatus): Promise<void> {
+  const { error } = await supabase
+    .from('team_webhook_endpoints')
+    .update({
+      last_delivery_at: new Date().toISOString(),
+      last_delivery_status: status
+    })
+    .eq('id', endpointId)
+
+  if (error) {
+    console.warn(`⚠️ [Webhooks] Failed to record delivery on endpoint ${endpointId}:`, error.message)
+  }
+}
+
+// =============================================================================
+// EXPORTS
+// =============================================================================
+
+export default {
+  // CRUD operations
+  listEndpoints,
+  getEndpoint,
+  createEndpoint,
+  updateEndpoint,
+  rotateEndpointSecret,
+  deleteEndpoint,
+
+  // Delivery support
+  listEndpointsForEvent,
+  getEndpointForDelivery,
+  recordEndpointDelivery,
+
+  // Validation
+  validateWebhookUrl,
+  normalizeEvents
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { buildWordPressMetaValue, normalizeWordPressSiteUrl, wordpressCMSService } from './cms.js'
+
+const schemaHtml = [
+  '<script type="application/ld+json">\n{"@type":"Article","headline":"Hello"}\n</script>',
+  '<script type="application/ld+json">\n{"@type":"BreadcrumbList"}\n</script>'
+].join('\n')
+
+describe('normalizeWordPressSiteUrl', () => {
+  it('reduces the entered address to the site root', () => {
+    expect(normalizeWordPressSiteUrl('example.com/')).toBe('https://example.com')
+    expect(normalizeWordPressSiteUrl('https://example.com/blog/wp-admin/index.php')).toBe('https://example.com/blog')
+    expect(normalizeWordPressSiteUrl(' https://example.com/wp-json/ ')).toBe('https://example.com')
+  })
+
+  it('rejects sites without HTTPS', () => {
+    expect(() => normalizeWordPressSiteUrl('http://example.com')).toThrow('HTTPS')
+  })
+
+  it('rejects internal hosts and private addresses', () => {
+    expect(() => normalizeWordPressSiteUrl('https://localhost/wp-admin')).toThrow('public host')
+    expect(() => normalizeWordPressSiteUrl('169.254.169.254')).toThrow('public host')
+    expect(() => normalizeWordPressSiteUrl('https://[::1]')).toThrow('public host')
+  })
+})
+
+describe('validateCredentials', () => {
+  it('sends nothing to a private address', async () => {
+    await expect(wordpressCMSService.validateCredentials('https://10.0.0.8', 'admin', 'abcd efgh'))
+      .rejects.toThrow('The WordPress site must be on a public host.')
+  })
+})
+
+describe('buildWordPressMetaValue', () => {
+  it('stores plain JSON-LD for post_meta', () => {
+    const value = buildWordPressMetaValue('post_meta', 'ignored', schemaHtml)
+
+    expect(JSON.parse(value)).toEqual([{ '@type': 'Article', headline: 'Hello' }, { '@type': 'BreadcrumbList' }])
+    expect(JSON.parse(buildWordPressMetaValue('post_meta', '', schemaHtml.split('\n<script')[0])))
+      .toEqual({ '@type': 'Article', headline: 'Hello' })
+  })
+
+  it('merges a SuperSchema block into existing head HTML for head_block', () => {
+    const value = buildWordPressMetaValue('head_block', '<meta name="x" content="y">', schemaHtml)
+
+    expect(value).toBe(`<meta name="x" content="y">\n\n<!-- SuperSchema -->\n${schemaHtml}\n<!-- /SuperSchema -->`)
+  })
+})
@@ -0,0 +1,410 @@
+/**
+ * WordPress CMS Service
+ * Lists posts and pages over the WP REST API and pushes schema into a post meta field,
+ * authenticated with an application password (WordPress 5.6+)
+ *
+ * WordPress has no REST field for head HTML, so schema goes into a meta field that the
+ * site prints in <head> (theme snippet or header plugin). The meta key must be registered
+ * with `show_in_rest` - unregistered keys are silently ignored by the REST API.
+ */
+
+import axios, { AxiosInstance } from 'axios'
+import { db } from '../database.js'
+import { decrypt } from '../encryption.js'
+import { buildSuperSchemaHeadHtml } from '../hubspot/cms.js'
+import { calculateUrlSimilarity } from '../urlMatching.js'
+import {
+  assertPublicUrl,
+  isPrivateHostname,
+  publicHttpAgent,
+  publicHttpsAgent,
+  PRIVATE_HOST_ERROR_CODE
+} from '../../utils/publicNetwork.js'
+import type {
+  WordPressConnection,
+  WordPressContent,
+  WordPressContentMatchResult,
+  WordPressContentType,
+  WordPressSchemaInjection
+} from 'aeo-schema-generator-shared/types'
+
+/** Meta key used when the user doesn't pick one */
+export const DEFAULT_META_KEYS: Record<WordPressSchemaInjection, string> = {
+  post_meta: 'superschema_json_ld',
+  head_block: 'superschema_head_html'
+}
+
+const REST_PREFIX = '/wp-json'
+const REQUEST_TIMEOUT_MS = 30000
+
+/**
+ * Meta field value before and after a push
+ */
+export interface WordPressMetaChange {
+  previousValue: string
+  newValue: string
+}
+
+interface WordPressPostV2 {
+  id: number
+  link: string
+  slug: string
+  status: string
+  modified_gmt: string
+  title: { rendered: string }
+  meta?: Record<string, unknown>
+}
+
+/**
+ * Normalize a user-entered site address to the site root (https, no trailing slash).
+ * Keeps a subdirectory install path and strips wp-admin / wp-json suffixes.
+ */
+export function normalizeWordPressSiteUrl(input: string): string {
+  const trimmed = input.trim()
+
+  let url: URL
+  try {
+    url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`)
+  } catch {
+    throw new Error('Invalid site URL')
+  }
+
+  // Application passwords are only accepted over HTTPS
+  if (url.protocol !== 'https:') {
+    throw new Error('The WordPress site must use HTTPS')
+  }
+
+  // Names that resolve to private addresses are refused when the request is sent
+  if (isPrivateHostname(url.hostname)) {
+    throw new Error('The WordPress site must be on a public host')
+  }
+
+  const path = url.pathname
+    .replace(/\/(wp-admin|wp-json|wp-login\.php)(\/.*)?$/, '')
+    .replace(/\/+$/, '')
+
+  return `${url.origin}${path}`
+}
+
+/**
+ * JSON-LD objects inside the script tags of a push
+ */
+export function extractJsonLd(schemaHtml: string): unknown[] {
+  const scriptRegex = /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi
+  const schemas: unknown[] = []
+
+  for (const match of schemaHtml.matchAll(scriptRegex)) {
+    schemas.push(JSON.parse(match[1]))
+  }
+  return schemas
+}
+
+/**
+ * Meta field value after pushing schema
+ * - post_meta: the JSON-LD itself (a single object, or an array for several schemas)
+ * - head_block: the existing head HTML with the SuperSchema block replaced or appended
+ */
+export function buildWordPressMetaValue(
+  injectionMethod: WordPressSchemaInjection,
+  existingValue: string,
+  schemaHtml: string
+): string {
+  if (injectionMethod === 'head_block') {
+    return buildSuperSchemaHeadHtml(existingValue, schemaHtml)
+  }
+
+  const schemas = extractJsonLd(schemaHtml)
+  if (schemas.length === 0) {
+    throw new Error('No JSON-LD found in the schema to push')
+  }
+  return JSON.stringify(schemas.length === 1 ? schemas[0] : schemas, null, 2)
+}
+
+/**
+ * Decode the few HTML entities WordPress puts in rendered titles
+ */
+function decodeTitle(rendered: string): string {
+  return rendered
+    .replace(/&#8217;/g, '’')
+    .replace(/&#8211;/g, '–')
+    .replace(/&#038;|&amp;/g, '&')
+    .replace(/&quot;/g, '"')
+    .replace(/&#039;/g, "'")
+}
+
+export class WordPressCMSService {
+  /**
+   * Check an application password before storing it
+   * @returns the site name from the REST API index
+   */
+  async validateCredentials(
+    siteUrl: string,
+    username: string,
+    applicationPassword: string
+  ): Promise<{ siteName?: string }> {
+    try {
+      console.log(`🔐 [WordPress CMS] Validating application password for ${siteUrl}`)
+      const client = this.buildClient(siteUrl, username, applicationPassword)
+
+      const [index, me] = await Promise.all([
+        client.get<{ name?: string }>('/'),
+        client.get<{ capabilities?: Record<string, boolean> }>('/wp/v2/users/me', { params: { context: 'edit' } })
+      ])
+
+      if (me.data.capabilities && !me.data.capabilities.edit_posts) {
+        throw new Error('This WordPress user cannot edit posts. Use an Editor or Administrator account.')
+      }
+
+      console.log(`✅ [WordPress CMS] Credentials valid for ${siteUrl}`)
+      return { siteName: index.data.name || undefined }
+    } catch (error) {
+      console.error('❌ [WordPress CMS] Credential validation failed:', error)
+      throw this.toWordPressError(error)
+    }
+  }
+
+  /**
+   * Check that a stored connection still authenticates
+   */
+  async validateConnection(connectionId: string): Promise<boolean> {
+    try {
+      const { client } = await this.createAuthorizedClient(connectionId)
+      await client.get('/wp/v2/users/me')
+      await db.updateWordPressConnectionValidation(connectionId)
+      return true
+    } catch (error) {
+      console.error('❌ [WordPress CMS] Connection validation failed:', error)
+      return false
+    }
+  }
+
+  /**
+   * List published posts (up to 500, 100 per request)
+   */
+  async listPosts(connectionId: string, maxItems: number = 500): Promise<WordPressContent[]> {
+    return this.listContent(connectionId, 'post', maxItems)
+  }
+
+  /**
+   * List published pages (up to 500, 100 per request)
+   */
+  async listPages(connectionId: string, maxItems: number = 500): Promise<WordPressContent[]> {
+    return this.listContent(connectionId, 'page', maxItems)
+  }
+
+  /**
+   * Auto-match URL to WordPress content
+   * Returns best matches with confidence scores
+   */
+  async matchUrlToContent(connectionId: string, targetUrl: string): Promise<WordPressContentMatchResult[]> {
+    const matches = await this.matchUrlsToContent(connectionId, [targetUrl])
+    return matches.get(targetUrl) || []
+  }
+
+  /**
+   * Auto-match several URLs, listing the site's posts and pages only once
+   * Returns the top 5 matches per URL
+   */
+  async matchUrlsToContent(
+    connectionId: string,
+    targetUrls: string[]
+  ): Promise<Map<string, WordPressContentMatchResult[]>> {
+    const [posts, pages] = await Promise.all([
+      this.listPosts(connectionId),
+      this.listPages(connectionId)
+    ])
+    const content = [...posts, ...pages]
+
+    const results = new Map<string, WordPressContentMatchResult[]>()
+    for (const targetUrl of targetUrls) {
+      const matches = content
+        .map(item => ({
+          contentId: item.id,
+          contentType: item.contentType,
+          title: item.title,
+          url: item.url,
+          confidence: calculateUrlSimilarity(targetUrl, item.url)
+        }))
+        .filter(match => match.confidence > 0.5)
+        .sort((a, b) => b.confidence - a.confidence)
+
+      console.log(`✅ [WordPress CMS] Found ${matches.length} matches for ${targetUrl}`)
+      results.set(targetUrl, matches.slice(0, 5))
+    }
+    return results
+  }
+
+  /**
+   * Push schema into the connection's meta field of a post or page
+   * Reads the current value first so the sync job keeps what was replaced
+   */
+  async pushSchema(
+    connectionId: string,
+    contentId: string,
+    contentType: WordPressContentType,
+    schemaHtml: string
+  ): Promise<WordPressMetaChange> {
+    try {
+      const { client, connection } = await this.createAuthorizedClient(connectionId)
+      const endpoint = `/wp/v2/${contentType === 'post' ? 'posts' : 'pages'}/${contentId}`
+
+      console.log(`🚀 [WordPress CMS] Pushing schema to ${contentType} ${contentId} (${connection.injectionMethod} → ${connection.metaKey})`)
+
+      const current = await client.get<WordPressPostV2>(endpoint, {
+        params: { context: 'edit', _fields: 'id,meta' }
+      })
+      const previousValue = this.readMetaValue(current.data, connection.metaKey)
+      const newValue = buildWordPressMetaValue(connection.injectionMethod, previousValue, schemaHtml)
+
+      const updated = await client.post<WordPressPostV2>(
+        endpoint,
+        { meta: { [connection.metaKey]: newValue } },
+        { params: { context: 'edit', _fields: 'id,meta' } }
+      )
+
+      // WordPress ignores meta it doesn't know instead of rejecting the request
+      if (this.readMetaValue(updated.data, connection.metaKey) !== newValue) {
+        throw new Error(`WordPress did not save the "${connection.metaKey}" meta field. Check that it is registered as a single string field with show_in_rest.`)
+      }
+
+      console.log(`✅ [WordPress CMS] Successfully pushed schema to ${contentType} ${contentId}`)
+      return { previousValue, newValue }
+    } catch (error) {
+      console.error('❌ [WordPress CMS] Failed to push schema:', error)
+      throw this.toWordPressError(error)
+    }
+  }
+
+  private async listContent(
+    connectionId: string,
+    contentType: WordPressContentType,
+    maxItems: number
+  ): Promise<WordPressContent[]> {
+    const label = contentType === 'post' ? 'posts' : 'pages'
+
+    try {
+      console.log(`📚 [WordPress CMS] Fetching ${label} (up to`, maxItems, ')')
+
+      const { client } = await this.createAuthorizedClient(connectionId)
+      const items: WordPressContent[] = []
+      const perPage = 100 // WordPress maximum
+
+      for (let page = 1; items.length < maxItems; page++) {
+        const response = await client.get<WordPressPostV2[]>(`/wp/v2/${label}`, {
+          params: {
+            per_page: perPage,
+            page,
+            status: 'publish',
+            _fields: 'id,link,slug,status,modified_gmt,title'
+          }
+        })
+
+        for (const item of response.data) {
+          items.push({
+            id: String(item.id),
+            contentType,
+            title: decodeTitle(item.title?.rendered || '') || item.slug,
+            slug: item.slug,
+            url: item.link,
+            status: item.status,
+            modifiedAt: item.modified_gmt
+          })
+        }
+
+        const totalPages = parseInt(response.headers['x-wp-totalpages'] || '1', 10)
+        if (page >= totalPages || response.data.length === 0) break
+      }
+
+      console.log(`✅ [WordPress CMS] Retrieved ${items.length} ${label}`)
+      return items.slice(0, maxItems)
+    } catch (error) {
+      console.error(`❌ [WordPress CMS] Failed to list ${label}:`, error)
+      throw this.toWordPressError(error)
+    }
+  }
+
+  /**
+   * Value of the schema meta field; fails when the field isn't exposed over REST
+   */
+  private readMetaValue(post: WordPressPostV2, metaKey: string): string {
+    if (!post.meta || !(metaKey in post.meta)) {
+      throw new Error(`The "${metaKey}" meta field is not available over the WordPress REST API. Register it with register_post_meta() and show_in_rest enabled.`)
+    }
+
+    const value = post.meta[metaKey]
+    return typeof value === 'string' ? value : ''
+  }
+
+  private async createAuthorizedClient(
+    connectionId: string
+  ): Promise<{ client: AxiosInstance; connection: WordPressConnection }> {
+    const connection = await db.getWordPressConnection(connectionId)
+    if (!connection || !connection.isActive) {
+      throw new Error('WordPress connection not found')
+    }
+
+    const applicationPassword = decrypt(connection.applicationPassword)
+    return {
+      client: this.buildClient(connection.siteUrl, connection.username, applicationPassword),
+      connection
+    }
+  }
+
+  private buildClient(siteUrl: string, username: string, applicationPassword: string): AxiosInstance {
+    // Application passwords are shown with spaces; WordPress accepts them either way
+    const credentials = Buffer.from(`${username}:${applicationPassword.replace(/\s+/g, '')}`).toString('base64')
+
+    // The site address is user-supplied: the agents refuse hosts that resolve to private
+    // addresses, IP literals and redirect targets are checked here
+    assertPublicUrl(siteUrl)
+
+    return axios.create({
+      baseURL: `${siteUrl}${REST_PREFIX}`,
+      timeout: REQUEST_TIMEOUT_MS,
+      httpAgent: publicHttpAgent,
+      httpsAgent: publicHttpsAgent,
+      beforeRedirect: (options) => assertPublicUrl(options.href),
+      headers: {
+        Authorization: `Basic ${credentials}`,
+        'Content-Type': 'application/json'
+      }
+    })
+  }
+
+  /**
+   * Turn an axios error into a readable error
+   * Not statusCode: the error handler would answer our own request with the site's status
+   */
+  private toWordPressError(error: unknown): unknown {
+    if ((error as NodeJS.ErrnoException)?.code === PRIVATE_HOST_ERROR_CODE) {
+      return new Error('The WordPress site must be on a public host.')
+    }
+    if (!axios.isAxiosError(error)) return error
+
+    const status = error.response?.status
+    const data = error.response?.data as { code?: string; message?: string } | undefined
+    let message: string
+
+    if (!error.response) {
+      message = 'The WordPress site did not respond. Check the site address.'
+    } else if (status === 401) {
+      message = 'WordPress rejected the username or application password.'
+    } else if (status === 403) {
+      message = data?.message || 'This WordPress user is not allowed to do that.'
+    } else if (status === 404 && data?.code === 'rest_no_route') {
+      message = 'The WordPress REST API is not available on this site.'
+    } else if (status === 404) {
+      message = data?.message || 'The WordPress site or content was not found.'
+    } else {
+      message = data?.message || `WordPress request failed (${status})`
+    }
+
+    const wordpressError: any = new Error(message)
+    wordpressError.wordpressStatus = status
+    wordpressError.wordpressError = data
+    return wordpressError
+  }
+}
+
+// Export singleton instance
+export const wordpressCMSService = new WordPressCMSService()
@@ -0,0 +1,81 @@
+/**
+ * Content fingerprinting for change detection
+ *
+ * Uses a 64-bit SimHash over word shingles: small edits (a date, a typo fix) flip only a
+ * few bits, while rewrites flip many. Comparing two fingerprints therefore gives a rough
+ * similarity score without storing the page content itself.
+ */
+
+import crypto from 'crypto'
+
+const FINGERPRINT_BITS = 64
+
+/** Number of consecutive words hashed together */
+const SHINGLE_SIZE = 3
+
+/**
+ * Compute a SimHash fingerprint (16 hex characters) for a block of text
+ * @param text - Page text (title, description and body content)
+ */
+export function computeContentFingerprint(text: string): string {
+  const words = text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+
+  const weights = new Array<number>(FINGERPRINT_BITS).fill(0)
+  const shingleCount = Math.max(1, words.length - SHINGLE_SIZE + 1)
+
+  for (let i = 0; i < shingleCount && words.length > 0; i++) {
+    const shingle = words.slice(i, i + SHINGLE_SIZE).join(' ')
+    const digest = crypto.createHash('md5').update(shingle).digest()
+
+    for (let bit = 0; bit < FINGERPRINT_BITS; bit++) {
+      const isSet = (digest[bit >> 3] >> (bit & 7)) & 1
+      weights[bit] += isSet ? 1 : -1
+    }
+  }
+
+  let fingerprint = ''
+  for (let nibble = 0; nibble < FINGERPRINT_BITS / 4; nibble++) {
+    let value = 0
+    for (let j = 0; j < 4; j++) {
+      if (weights[nibble * 4 + j] > 0) {
+        value |= 1 << j
+      }
+    }
+    fingerprint += value.toString(16)
+  }
+
+  return fingerprint
+}
+
+/**
+ * Similarity between two fingerprints
+ * @returns 1 for identical content, ~0.5 for unrelated content
+ */
+export function fingerprintSimilarity(a: string, b: string): number {
+  if (a.length !== b.length) {
+    return 0
+  }
+
+  let differingBits = 0
+  for (let i = 0; i < a.length; i++) {
+    let xor = parseInt(a[i], 16) ^ parseInt(b[i], 16)
+    while (xor) {
+      differingBits += xor & 1
+      xor >>= 1
+    }
+  }
+
+  return 1 - differingBits / (a.length * 4)
+}
+
+/**
+ * Fingerprint a scraped page - shared by generation and drift monitoring so both
+ * sides hash exactly the same text
+ */
+export function computePageFingerprint(page: { title?: string; description?: string; content: string }): string {
+  return computeContentFingerprint([page.title, page.description, page.content].filter(Boolean).join(' '))
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import dns from 'dns'
+import { isPrivateAddress, isPrivateHostname, publicOnlyLookup, assertPublicUrl } from './publicNetwork.js'
+
+function lookup(hostname: string, options: dns.LookupOptions = {}): Promise<{ error: any; address: any; family?: number }> {
+  return new Promise(resolve => {
+    publicOnlyLookup(hostname, options, (error, address, family) => resolve({ error, address, family }))
+  })
+}
+
+function resolvesTo(addresses: string[]) {
+  vi.spyOn(dns, 'lookup').mockImplementation(((_hostname: string, _options: any, callback: any) => {
+    callback(null, addresses.map(address => ({ address, family: address.includes(':') ? 6 : 4 })))
+  }) as any)
+}
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('isPrivateAddress', () => {
+  it('flags loopback, link-local and private ranges', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '169.254.169.254', '172.20.0.1', '192.168.1.1', '100.64.0.1', '::1', 'fd00::1', 'fe80::1', '::ffff:10.0.0.1']) {
+      expect(isPrivateAddress(address)).toBe(true)
+    }
+  })
+
+  it('allows public addresses', () => {
+    expect(isPrivateAddress('93.184.216.34')).toBe(false)
+    expect(isPrivateAddress('172.32.0.1')).toBe(false)
+    expect(isPrivateAddress('2606:4700::1111')).toBe(false)
+  })
+})
+
+describe('isPrivateHostname', () => {
+  it('flags internal names and private IP literals', () => {
+    expect(isPrivateHostname('localhost')).toBe(true)
+    expect(isPrivateHostname('printer.local')).toBe(true)
+    expect(isPrivateHostname('metadata.google.internal')).toBe(true)
+    expect(isPrivateHostname('[::1]')).toBe(true)
+    expect(isPrivateHostname('hooks.example.com')).toBe(false)
+  })
+})
+
+describe('publicOnlyLookup', () => {
+  it('refuses names that resolve to a private address', async () => {
+    resolvesTo(['93.184.216.34', '10.0.0.5'])
+
+    const { error } = await lookup('rebind.example.com')
+
+    expect(error.code).toBe('ERR_PRIVATE_HOST')
+  })
+
+  it('refuses the cloud metadata address', async () => {
+    resolvesTo(['169.254.169.254'])
+
+    expect((await lookup('metadata.example.com')).error.code).toBe('ERR_PRIVATE_HOST')
+  })
+
+  it('returns the first public address, or all of them when asked', async () => {
+    resolvesTo(['93.184.216.34', '2606:4700::1111'])
+
+    expect(await lookup('example.com')).toEqual({ error: null, address: '93.184.216.34', family: 4 })
+    expect((await lookup('example.com', { all: true })).address).toHaveLength(2)
+  })
+})
+
+describe('assertPublicUrl', () => {
+  it('rejects private IP literals, which never go through the lookup', () => {
+    expect(() => assertPublicUrl('https://169.254.169.254/latest/meta-data')).toThrow('private network')
+    expect(() => assertPublicUrl('https://hooks.example.com/schema')).not.toThrow()
+  })
+})
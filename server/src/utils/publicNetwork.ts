@@ -0,0 +1,97 @@
+/**
+ * Public network guard for requests to user-supplied URLs (webhook endpoints, WordPress sites)
+ *
+ * Checking the hostname when a URL is saved is not enough: a public name can resolve to a
+ * private address, and DNS can change afterwards. The agents below check every address a
+ * hostname resolves to at connection time and refuse loopback, link-local (cloud metadata)
+ * and private networks.
+ */
+
+import dns from 'dns'
+import http from 'http'
+import https from 'https'
+import net from 'net'
+
+export const PRIVATE_HOST_ERROR_CODE = 'ERR_PRIVATE_HOST'
+
+/**
+ * Whether an IP address points at loopback, link-local or a private network
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (net.isIPv4(address)) {
+    const [a, b] = address.split('.').map(Number)
+    return a === 0 || a === 10 || a === 127 ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 100 && b >= 64 && b <= 127)
+  }
+
+  const normalized = address.toLowerCase()
+  return normalized === '::' || normalized === '::1' ||
+    normalized.startsWith('fc') || normalized.startsWith('fd') || normalized.startsWith('fe80') ||
+    normalized.startsWith('::ffff:')
+}
+
+/**
+ * Whether a hostname is an internal name or a private IP literal (no DNS lookup)
+ */
+export function isPrivateHostname(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase()
+  return host === 'localhost' ||
+    host.endsWith('.localhost') ||
+    host.endsWith('.local') ||
+    host.endsWith('.internal') ||
+    (net.isIP(host) !== 0 && isPrivateAddress(host))
+}
+
+function privateHostError(hostname: string): NodeJS.ErrnoException {
+  const error: NodeJS.ErrnoException = new Error(`${hostname} resolves to a private network address`)
+  error.code = PRIVATE_HOST_ERROR_CODE
+  return error
+}
+
+/**
+ * dns.lookup replacement for http(s) agents - fails when any resolved address is private
+ */
+export function publicOnlyLookup(
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void
+): void {
+  if (isPrivateHostname(hostname)) {
+    callback(privateHostError(hostname), '')
+    return
+  }
+
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '')
+      return
+    }
+    if (addresses.length === 0 || addresses.some(entry => isPrivateAddress(entry.address))) {
+      callback(privateHostError(hostname), '')
+      return
+    }
+
+    if (options.all) {
+      callback(null, addresses)
+    } else {
+      callback(null, addresses[0].address, addresses[0].family)
+    }
+  })
+}
+
+/**
+ * Throws when the URL's host is an internal name or private IP literal
+ * IP literals never go through the agents' lookup, so they are checked here before sending
+ */
+export function assertPublicUrl(url: string): void {
+  const { hostname } = new URL(url)
+  if (isPrivateHostname(hostname)) {
+    throw privateHostError(hostname)
+  }
+}
+
+export const publicHttpAgent = new http.Agent({ lookup: publicOnlyLookup as any })
+export const publicHttpsAgent = new https.Agent({ lookup: publicOnlyLookup as any })
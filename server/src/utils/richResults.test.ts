@@ -0,0 +1,252 @@
+import { describe, it, expect } from 'vitest'
+import { evaluateRichResults } from 'aeo-schema-generator-shared/utils'
+import type { JsonLdSchema, RichResultFeature } from 'aeo-schema-generator-shared/types'
+
+/**
+ * Rule tables of the shared rich-result engine (shared/src/utils/richResults.ts), which
+ * scores schemas on both the client and the server
+ */
+
+const product: JsonLdSchema = {
+  '@context': 'https://schema.org',
+  '@type': 'Product',
+  name: 'Trailhead 40L Pack',
+  image: 'https://shop.summit.example/trailhead.jpg',
+  description: 'A 40 liter hiking pack',
+  brand: { '@type': 'Brand', name: 'Summit' },
+  sku: 'TH-40',
+  gtin13: '0123456789012',
+  aggregateRating: { '@type': 'AggregateRating', ratingValue: 4.6, reviewCount: 87 },
+  review: [{ '@type': 'Review', author: { '@type': 'Person', name: 'Ana' }, reviewRating: { ratingValue: 5 } }],
+  offers: {
+    '@type': 'Offer',
+    price: '149.00',
+    priceCurrency: 'USD',
+    availability: 'https://schema.org/InStock',
+    itemCondition: 'https://schema.org/NewCondition',
+    shippingDetails: { '@type': 'OfferShippingDetails' },
+    hasMerchantReturnPolicy: { '@type': 'MerchantReturnPolicy' }
+  }
+}
+
+const event: JsonLdSchema = {
+  '@context': 'https://schema.org',
+  '@type': 'MusicEvent',
+  name: 'Harbor Lights Live',
+  startDate: '2026-11-14T19:30:00-08:00',
+  endDate: '2026-11-14T23:00:00-08:00',
+  location: { '@type': 'Place', name: 'Pier 9 Hall' },
+  description: 'An evening of folk music',
+  eventStatus: 'https://schema.org/EventScheduled',
+  eventAttendanceMode: 'https://schema.org/OfflineEventAttendanceMode',
+  image: 'https://pier9.example/harbor-lights.jpg',
+  offers: { '@type': 'Offer', price: '35', priceCurrency: 'USD' },
+  organizer: { '@type': 'Organization', name: 'Pier 9' },
+  performer: { '@type': 'MusicGroup', name: 'The Tidewater Band' }
+}
+
+const recipe: JsonLdSchema = {
+  '@context': 'https://schema.org',
+  '@type': 'Recipe',
+  name: 'Skillet Cornbread',
+  image: ['https://kitchen.example/cornbread.jpg'],
+  author: { '@type': 'Person', name: 'June Park' },
+  datePublished: '2026-02-01',
+  description: 'Crisp-edged cornbread baked in cast iron',
+  recipeIngredient: ['1 cup cornmeal', '1 cup buttermilk'],
+  recipeInstructions: [{ '@type': 'HowToStep', text: 'Heat the skillet.' }],
+  prepTime: 'PT10M',
+  cookTime: 'PT25M',
+  totalTime: 'PT35M',
+  recipeYield: '8 servings',
+  recipeCategory: 'Side dish',
+  recipeCuisine: 'American',
+  nutrition: { '@type': 'NutritionInformation', calories: '210 calories' },
+  aggregateRating: { '@type': 'AggregateRating', ratingValue: 4.8, ratingCount: 120 },
+  keywords: 'cornbread, cast iron'
+}
+
+const faq: JsonLdSchema = {
+  '@context': 'https://schema.org',
+  '@type': 'FAQPage',
+  mainEntity: [
+    { '@type': 'Question', name: 'Do you ship abroad?', acceptedAnswer: { '@type': 'Answer', text: 'Yes, to 30 countries.' } },
+    { '@type': 'Question', name: 'Can I return an item?', acceptedAnswer: { '@type': 'Answer', text: 'Within 60 days.' } }
+  ]
+}
+
+const howTo: JsonLdSchema = {
+  '@context': 'https://schema.org',
+  '@type': 'HowTo',
+  name: 'Wax a snowboard',
+  description: 'Hot wax a board at home',
+  image: 'https://shop.summit.example/wax.jpg',
+  totalTime: 'PT45M',
+  estimatedCost: { '@type': 'MonetaryAmount', currency: 'USD', value: '15' },
+  supply: [{ '@type': 'HowToSupply', name: 'Wax' }],
+  tool: [{ '@type': 'HowToTool', name: 'Iron' }],
+  step: [
+    { '@type': 'HowToStep', text: 'Clean the base.' },
+    { '@type': 'HowToStep', text: 'Drip the wax.' }
+  ]
+}
+
+const video: JsonLdSchema = {
+  '@context': 'https://schema.org',
+  '@type': 'VideoObject',
+  name: 'Pack fitting in two minutes',
+  thumbnailUrl: 'https://shop.summit.example/fit-thumb.jpg',
+  uploadDate: '2026-03-10',
+  description: 'How to adjust a hiking pack',
+  contentUrl: 'https://shop.summit.example/fit.mp4',
+  duration: 'PT2M'
+}
+
+const breadcrumb: JsonLdSchema = {
+  '@context': 'https://schema.org',
+  '@type': 'BreadcrumbList',
+  itemListElement: [
+    { '@type': 'ListItem', position: 1, name: 'Packs', item: 'https://shop.summit.example/packs' },
+    { '@type': 'ListItem', position: 2, name: 'Trailhead 40L', item: 'https://shop.summit.example/packs/th-40' }
+  ]
+}
+
+const review: JsonLdSchema = {
+  '@context': 'https://schema.org',
+  '@type': 'Review',
+  author: { '@type': 'Person', name: 'Ana' },
+  itemReviewed: { '@type': 'Product', name: 'Trailhead 40L Pack' },
+  reviewRating: { '@type': 'Rating', ratingValue: 5, bestRating: 5 },
+  datePublished: '2026-04-02',
+  reviewBody: 'Carries well on long days.'
+}
+
+const organization: JsonLdSchema = {
+  '@context': 'https://schema.org',
+  '@type': 'LocalBusiness',
+  name: 'Copper Kettle',
+  url: 'https://copperkettle.example',
+  logo: 'https://copperkettle.example/logo.png',
+  sameAs: ['https://instagram.com/copperkettle'],
+  description: 'Neighborhood cafe',
+  contactPoint: { '@type': 'ContactPoint', telephone: '+1-555-0100' },
+  address: { '@type': 'PostalAddress', streetAddress: '12 Main St' }
+}
+
+function evaluate(schema: JsonLdSchema, feature: RichResultFeature) {
+  return evaluateRichResults([schema]).find(result => result.feature === feature)
+}
+
+describe('evaluateRichResults', () => {
+  it.each<[RichResultFeature, JsonLdSchema]>([
+    ['product-snippet', product],
+    ['merchant-listing', product],
+    ['event', event],
+    ['recipe', recipe],
+    ['faq', faq],
+    ['how-to', howTo],
+    ['video', video],
+    ['breadcrumb', breadcrumb],
+    ['review-snippet', review],
+    ['organization-logo', organization]
+  ])('rates a complete %s eligible', (feature, schema) => {
+    expect(evaluate(schema, feature)).toMatchObject({ status: 'eligible', missingRequired: [], missingRecommended: [] })
+  })
+
+  it.each<[string, RichResultFeature, JsonLdSchema, string[]]>([
+    ['a product without review, rating or offer', 'product-snippet',
+      { '@context': 'https://schema.org', '@type': 'Product', name: 'Trailhead 40L Pack' }, ['review or aggregateRating or offers']],
+    ['an offer without a currency', 'merchant-listing',
+      { ...product, offers: { '@type': 'Offer', price: '149.00' } }, ['offers.priceCurrency']],
+    ['an event without a location', 'event', { ...event, location: undefined }, ['location']],
+    ['a recipe with a blank image', 'recipe', { ...recipe, image: '  ' }, ['image']],
+    ['a question without answer text', 'faq', {
+      ...faq,
+      mainEntity: [...faq.mainEntity, { '@type': 'Question', name: 'Gift cards?', acceptedAnswer: { '@type': 'Answer' } }]
+    }, ['mainEntity.acceptedAnswer.text']],
+    ['an empty FAQ', 'faq', { '@context': 'https://schema.org', '@type': 'FAQPage', mainEntity: [] },
+      ['mainEntity', 'mainEntity.name', 'mainEntity.acceptedAnswer', 'mainEntity.acceptedAnswer.text']],
+    ['steps without text or substeps', 'how-to',
+      { ...howTo, step: [{ '@type': 'HowToStep', name: 'Clean the base' }] }, ['step.text or step.itemListElement']],
+    ['a video without an upload date', 'video', { ...video, uploadDate: '' }, ['uploadDate']],
+    ['breadcrumb items without a position', 'breadcrumb',
+      { ...breadcrumb, itemListElement: [{ '@type': 'ListItem', name: 'Packs' }] }, ['itemListElement.position']],
+    ['a review without a rating value', 'review-snippet',
+      { ...review, reviewRating: { '@type': 'Rating', bestRating: 5 } }, ['reviewRating.ratingValue']],
+    ['an organization without a logo or URL', 'organization-logo',
+      { ...organization, logo: undefined, url: undefined }, ['logo', 'url']]
+  ])('rates %s ineligible', (_case, feature, schema, missingRequired) => {
+    expect(evaluate(schema, feature)).toMatchObject({ status: 'ineligible', missingRequired })
+  })
+
+  it.each<[string, RichResultFeature, JsonLdSchema, string[]]>([
+    ['a product without brand or identifiers', 'merchant-listing',
+      { ...product, brand: undefined, sku: undefined, gtin13: undefined }, ['brand', 'sku', 'gtin or gtin8 or gtin12 or gtin13 or gtin14 or mpn']],
+    ['an event without performer', 'event', { ...event, performer: [] }, ['performer']],
+    ['a recipe without calories', 'recipe', { ...recipe, nutrition: { '@type': 'NutritionInformation' } }, ['nutrition.calories']],
+    ['a video without content or embed URL', 'video', { ...video, contentUrl: undefined }, ['contentUrl or embedUrl']],
+    ['a review without a body', 'review-snippet', { ...review, reviewBody: undefined }, ['reviewBody']]
+  ])('rates %s partial', (_case, feature, schema, missingRecommended) => {
+    expect(evaluate(schema, feature)).toMatchObject({ status: 'partial', missingRequired: [], missingRecommended })
+  })
+
+  it('accepts any one of a list of alternatives', () => {
+    expect(evaluate({ ...product, gtin13: undefined, mpn: 'TH40-BLK' }, 'merchant-listing')?.status).toBe('eligible')
+    expect(evaluate({ ...video, contentUrl: undefined, embedUrl: 'https://video.example/embed/fit' }, 'video')?.status).toBe('eligible')
+    expect(evaluate({
+      ...howTo,
+      step: [{ '@type': 'HowToSection', itemListElement: [{ '@type': 'HowToStep', text: 'Drip the wax.' }] }]
+    }, 'how-to')?.status).toBe('eligible')
+    expect(evaluate({
+      ...breadcrumb,
+      itemListElement: [{ '@type': 'ListItem', position: 1, item: { '@id': 'https://shop.summit.example/packs', name: 'Packs' } }]
+    }, 'breadcrumb')?.status).toBe('eligible')
+  })
+
+  it('needs the same alternative on every item of a list', () => {
+    const mixedSteps = evaluate({
+      ...howTo,
+      step: [
+        { '@type': 'HowToStep', text: 'Clean the base.' },
+        { '@type': 'HowToSection', itemListElement: [{ '@type': 'HowToStep', text: 'Drip the wax.' }] }
+      ]
+    }, 'how-to')
+
+    expect(mixedSteps).toMatchObject({ status: 'ineligible', missingRequired: ['step.text or step.itemListElement'] })
+  })
+
+  it.each<[string, unknown]>([
+    ['an Article', { '@type': 'Article', headline: 'Packing for the Cascades', image: 'https://example.com/a.jpg' }],
+    ['a WebPage', { '@type': 'WebPage', name: 'About us' }],
+    ['a Person with a logo-like image', { '@type': 'Person', name: 'June Park', url: 'https://june.example', logo: 'x.png' }],
+    ['a node without @type', { name: 'Trailhead 40L Pack', offers: { price: '149.00' } }],
+    ['a non-string @type', { '@type': ['Thing', 42], name: 'Unknown' }],
+    ['null', null]
+  ])('targets no feature for %s', (_case, schema) => {
+    expect(evaluateRichResults([schema as JsonLdSchema])).toEqual([])
+  })
+
+  it('matches any type of a multi-typed node', () => {
+    const results = evaluateRichResults([{ ...organization, '@type': ['Thing', 'Restaurant'] } as unknown as JsonLdSchema])
+
+    expect(results.map(result => [result.feature, result.status])).toEqual([['organization-logo', 'eligible']])
+    expect(results[0].schemaType).toBe('Thing, Restaurant')
+  })
+
+  it('checks @graph members and keeps the best result per feature', () => {
+    const results = evaluateRichResults([
+      { '@context': 'https://schema.org', '@type': 'VideoObject', name: 'Teaser' },
+      { '@context': 'https://schema.org', '@graph': [{ ...video, duration: undefined }, video] } as unknown as JsonLdSchema
+    ])
+
+    expect(results).toEqual([
+      { feature: 'video', name: 'Video', schemaType: 'VideoObject', status: 'eligible', missingRequired: [], missingRecommended: [] }
+    ])
+  })
+
+  it('lists features in rule order', () => {
+    const results = evaluateRichResults([organization, faq, product])
+
+    expect(results.map(result => result.feature)).toEqual(['product-snippet', 'merchant-listing', 'faq', 'organization-logo'])
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import type { JsonLdSchema } from 'aeo-schema-generator-shared/types'
+import { buildSchemaGraph, getSchemaGraphIds } from './schemaGraph.js'
+
+const publisher = {
+  '@type': 'Organization',
+  name: 'Summit Outfitters',
+  url: 'https://shop.summit.example',
+  logo: { '@type': 'ImageObject', url: 'https://shop.summit.example/logo.png' }
+}
+
+const article: JsonLdSchema = {
+  '@context': 'https://schema.org',
+  '@type': 'BlogPosting',
+  headline: 'Packing for the Cascades',
+  publisher,
+  mainEntityOfPage: { '@type': 'WebPage', '@id': 'https://shop.summit.example/blog/cascades/' }
+}
+
+const breadcrumb: JsonLdSchema = {
+  '@context': 'https://schema.org',
+  '@type': 'BreadcrumbList',
+  itemListElement: [{ '@type': 'ListItem', position: 1, name: 'Blog', item: 'https://shop.summit.example/blog' }]
+}
+
+describe('getSchemaGraphIds', () => {
+  it('uses the same site-level ids for every URL of a domain', () => {
+    const post = getSchemaGraphIds('https://shop.summit.example/blog/cascades/?utm_source=x#top')
+    const home = getSchemaGraphIds('https://shop.summit.example/')
+
+    expect(post).toEqual({
+      organization: 'https://shop.summit.example/#organization',
+      website: 'https://shop.summit.example/#website',
+      webpage: 'https://shop.summit.example/blog/cascades#webpage',
+      breadcrumb: 'https://shop.summit.example/blog/cascades#breadcrumb'
+    })
+    expect(home.organization).toBe(post.organization)
+    expect(home.website).toBe(post.website)
+    expect(home.webpage).toBe('https://shop.summit.example/#webpage')
+  })
+})
+
+describe('buildSchemaGraph', () => {
+  it('links the page schemas through @id references', () => {
+    const graph = buildSchemaGraph([article, breadcrumb], {
+      url: 'https://shop.summit.example/blog/cascades/',
+      organization: publisher
+    })
+
+    expect(graph['@context']).toBe('https://schema.org')
+    expect(graph['@graph'].map(node => node['@id'])).toEqual([
+      'https://shop.summit.example/#organization',
+      'https://shop.summit.example/#website',
+      'https://shop.summit.example/blog/cascades#webpage',
+      'https://shop.summit.example/blog/cascades#breadcrumb',
+      'https://shop.summit.example/blog/cascades#blogposting'
+    ])
+
+    const post = graph['@graph'][4]
+    expect(post['@context']).toBeUndefined()
+    expect(post.publisher).toEqual({ '@id': 'https://shop.summit.example/#organization' })
+    expect(post.mainEntityOfPage).toEqual({ '@id': 'https://shop.summit.example/blog/cascades#webpage' })
+
+    const webpage = graph['@graph'][2]
+    expect(webpage.isPartOf).toEqual({ '@id': 'https://shop.summit.example/#website' })
+    expect(webpage.breadcrumb).toEqual({ '@id': 'https://shop.summit.example/blog/cascades#breadcrumb' })
+    expect(webpage.name).toBe('Packing for the Cascades')
+  })
+
+  it('hoists an inline publisher when the team has no organization', () => {
+    const graph = buildSchemaGraph([article], { url: 'https://shop.summit.example/blog/cascades' })
+
+    expect(graph['@graph'][0]).toEqual({ ...publisher, '@id': 'https://shop.summit.example/#organization' })
+    expect(graph['@graph'][3].publisher).toEqual({ '@id': 'https://shop.summit.example/#organization' })
+  })
+
+  it('gives repeated types distinct ids', () => {
+    const faq = { '@context': 'https://schema.org', '@type': 'Question', name: 'Q' }
+    const graph = buildSchemaGraph([faq, faq] as JsonLdSchema[], { url: 'https://example.com/faq' })
+
+    expect(graph['@graph'].slice(2).map(node => node['@id'])).toEqual([
+      'https://example.com/faq#question',
+      'https://example.com/faq#question-2'
+    ])
+  })
+})
@@ -0,0 +1,192 @@
+/**
+ * @graph output mode
+ *
+ * Combines the schemas generated for a page into a single JSON-LD @graph with stable @ids.
+ * Site-level nodes are keyed on the page's origin (the same origin the URL library groups a
+ * domain by), so every page of a domain points at the same Organization and WebSite:
+ *
+ *   https://example.com/#organization
+ *   https://example.com/#website
+ *   https://example.com/blog/post#webpage
+ *   https://example.com/blog/post#breadcrumb
+ *
+ * Other nodes get a page-level id from their type (https://example.com/blog/post#article).
+ * Inline publishers are replaced with a reference to the Organization node.
+ */
+
+import type { JsonLdGraph, JsonLdSchema } from 'aeo-schema-generator-shared/types'
+import { schemaVocabulary } from '../services/schemaVocabulary.js'
+import { extractBaseDomain } from './urlHelpers.js'
+
+export interface SchemaGraphIds {
+  organization: string
+  website: string
+  webpage: string
+  breadcrumb: string
+}
+
+export interface BuildSchemaGraphOptions {
+  /** Page the schemas were generated for */
+  url: string
+  /** Team organization for the domain (buildPublisherSchema output), if any */
+  organization?: Record<string, any> | null
+}
+
+/**
+ * Page URL without query string, fragment or trailing slash (except for the home page),
+ * used as the base of page-level ids
+ */
+export function getCanonicalPageUrl(url: string): string {
+  const parsed = new URL(url)
+  const pathname = parsed.pathname.replace(/\/+$/, '') || '/'
+  return `${parsed.origin}${pathname}`
+}
+
+/**
+ * The @ids for a page. Site-level ids depend only on the origin, so they are identical for
+ * every URL of a domain.
+ */
+export function getSchemaGraphIds(url: string): SchemaGraphIds {
+  const origin = extractBaseDomain(url)
+  const pageUrl = getCanonicalPageUrl(url)
+
+  return {
+    organization: `${origin}/#organization`,
+    website: `${origin}/#website`,
+    webpage: `${pageUrl}#webpage`,
+    breadcrumb: `${pageUrl}#breadcrumb`
+  }
+}
+
+function getTypes(node: Record<string, any>): string[] {
+  const type = node['@type']
+  if (Array.isArray(type)) return type.filter((t): t is string => typeof t === 'string')
+  return typeof type === 'string' ? [type] : []
+}
+
+function isType(node: Record<string, any>, ancestor: string): boolean {
+  return getTypes(node).some(type => schemaVocabulary.isSubtypeOf(type, ancestor))
+}
+
+function isSiteOrganization(node: Record<string, any>, origin: string): boolean {
+  const types = getTypes(node)
+  if (!types.includes('Organization') && !types.includes('Corporation')) return false
+  if (typeof node.url !== 'string') return true
+
+  try {
+    return extractBaseDomain(node.url) === origin
+  } catch {
+    return false
+  }
+}
+
+/**
+ * A schema as a graph node; only the graph document itself carries the @context
+ */
+function toGraphNode(schema: JsonLdSchema): Record<string, any> {
+  const node: Record<string, any> = { ...schema }
+  delete node['@context']
+  return node
+}
+
+/**
+ * Build a single @graph document from a page's flat list of schemas
+ * Only script tags and exports use it; HubSpot and WordPress pushes and the embed serve the flat schemas
+ */
+export function buildSchemaGraph(schemas: JsonLdSchema[], options: BuildSchemaGraphOptions): JsonLdGraph {
+  const ids = getSchemaGraphIds(options.url)
+  const origin = extractBaseDomain(options.url)
+  const pageUrl = getCanonicalPageUrl(options.url)
+
+  const usedIds = new Set<string>()
+  const nodes: Record<string, any>[] = []
+  let organization: Record<string, any> | null = options.organization
+    ? { ...options.organization, '@id': ids.organization }
+    : null
+  let website: Record<string, any> | null = null
+  let webpage: Record<string, any> | null = null
+  let breadcrumb: Record<string, any> | null = null
+
+  for (const schema of schemas) {
+    const node = toGraphNode(schema)
+
+    if (isSiteOrganization(node, origin)) {
+      // Team organization data wins over what the AI extracted from the page
+      organization = { ...node, ...(organization || {}), '@id': ids.organization }
+    } else if (isType(node, 'WebSite')) {
+      website = { ...node, '@id': ids.website }
+    } else if (isType(node, 'WebPage') && !webpage) {
+      webpage = { ...node, '@id': ids.webpage }
+    } else if (isType(node, 'BreadcrumbList') && !breadcrumb) {
+      breadcrumb = { ...node, '@id': ids.breadcrumb }
+    } else {
+      nodes.push(node)
+    }
+  }
+
+  // Hoist an inline publisher into the shared Organization node when there is none yet
+  if (!organization) {
+    const publisher = nodes.map(node => node.publisher).find(value =>
+      value && typeof value === 'object' && !Array.isArray(value) && isSiteOrganization(value, origin))
+    if (publisher) {
+      organization = { ...publisher, '@id': ids.organization }
+    }
+  }
+
+  const organizationRef = organization ? { '@id': ids.organization } : undefined
+
+  for (const node of nodes) {
+    if (!node['@id']) {
+      node['@id'] = uniqueId(`${pageUrl}#${(getTypes(node)[0] || 'thing').toLowerCase()}`, usedIds)
+    }
+    usedIds.add(node['@id'])
+
+    if (isType(node, 'CreativeWork')) {
+      if (organizationRef && (!node.publisher || isSiteOrganization(node.publisher, origin))) {
+        node.publisher = organizationRef
+      }
+      if (!node.mainEntityOfPage || typeof node.mainEntityOfPage === 'string' ||
+        isType(node.mainEntityOfPage, 'WebPage')) {
+        node.mainEntityOfPage = { '@id': ids.webpage }
+      }
+    }
+  }
+
+  website = {
+    '@type': 'WebSite',
+    url: `${origin}/`,
+    ...(organization?.name && { name: organization.name }),
+    ...(website || {}),
+    '@id': ids.website,
+    ...(organizationRef && { publisher: organizationRef })
+  }
+
+  webpage = {
+    '@type': 'WebPage',
+    url: options.url,
+    ...(nodes[0] && (nodes[0].headline || nodes[0].name) && { name: nodes[0].headline || nodes[0].name }),
+    ...(webpage || {}),
+    '@id': ids.webpage,
+    isPartOf: { '@id': ids.website },
+    ...(breadcrumb && { breadcrumb: { '@id': ids.breadcrumb } })
+  }
+
+  return {
+    '@context': 'https://schema.org',
+    '@graph': [
+      ...(organization ? [organization] : []),
+      website,
+      webpage,
+      ...(breadcrumb ? [breadcrumb] : []),
+      ...nodes
+    ]
+  }
+}
+
+function uniqueId(id: string, usedIds: Set<string>): string {
+  if (!usedIds.has(id)) return id
+
+  let suffix = 2
+  while (usedIds.has(`${id}-${suffix}`)) suffix++
+  return `${id}-${suffix}`
+}
@@ -0,0 +1,105 @@
+/**
+ * Minimal zip writer for export bundles
+ *
+ * Export bundles are a handful of small text files, so the archive is built in memory with
+ * deflate from zlib instead of pulling in an archiving dependency. No zip64, encryption or
+ * streaming - entries and the archive must stay under 4 GB.
+ */
+
+import zlib from 'zlib'
+
+export interface ZipEntry {
+  /** Path inside the archive, forward slashes (e.g. "src/data/schema.json") */
+  path: string
+  content: string | Buffer
+}
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+export function crc32(data: Buffer): number {
+  let crc = 0xffffffff
+  for (const byte of data) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * MS-DOS date and time fields used by zip headers (local time, 2-second resolution)
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  }
+}
+
+/**
+ * Build a zip archive from in-memory files
+ */
+export function createZipArchive(entries: ZipEntry[], modifiedAt: Date = new Date()): Buffer {
+  const { time, date } = toDosDateTime(modifiedAt)
+  const localParts: Buffer[] = []
+  const centralParts: Buffer[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.path.replace(/^\/+/, ''), 'utf8')
+    const data = Buffer.isBuffer(entry.content) ? entry.content : Buffer.from(entry.content, 'utf8')
+    const compressed = zlib.deflateRawSync(data)
+    const checksum = crc32(data)
+
+    const localHeader = Buffer.alloc(30)
+    localHeader.writeUInt32LE(0x04034b50, 0) // Local file header signature
+    localHeader.writeUInt16LE(20, 4) // Version needed to extract
+    localHeader.writeUInt16LE(0x0800, 6) // Flags: UTF-8 file names
+    localHeader.writeUInt16LE(8, 8) // Compression: deflate
+    localHeader.writeUInt16LE(time, 10)
+    localHeader.writeUInt16LE(date, 12)
+    localHeader.writeUInt32LE(checksum, 14)
+    localHeader.writeUInt32LE(compressed.length, 18)
+    localHeader.writeUInt32LE(data.length, 22)
+    localHeader.writeUInt16LE(name.length, 26)
+    localHeader.writeUInt16LE(0, 28) // Extra field length
+
+    const centralHeader = Buffer.alloc(46)
+    centralHeader.writeUInt32LE(0x02014b50, 0) // Central directory header signature
+    centralHeader.writeUInt16LE(20, 4) // Version made by
+    centralHeader.writeUInt16LE(20, 6) // Version needed to extract
+    centralHeader.writeUInt16LE(0x0800, 8)
+    centralHeader.writeUInt16LE(8, 10)
+    centralHeader.writeUInt16LE(time, 12)
+    centralHeader.writeUInt16LE(date, 14)
+    centralHeader.writeUInt32LE(checksum, 16)
+    centralHeader.writeUInt32LE(compressed.length, 20)
+    centralHeader.writeUInt32LE(data.length, 24)
+    centralHeader.writeUInt16LE(name.length, 28)
+    // Extra field, comment, disk number, internal/external attributes stay zero
+    centralHeader.writeUInt32LE(offset, 42) // Offset of the local header
+
+    localParts.push(localHeader, name, compressed)
+    centralParts.push(centralHeader, name)
+    offset += localHeader.length + name.length + compressed.length
+  }
+
+  const centralDirectory = Buffer.concat(centralParts)
+
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0) // End of central directory signature
+  end.writeUInt16LE(entries.length, 8) // Entries on this disk
+  end.writeUInt16LE(entries.length, 10) // Total entries
+  end.writeUInt32LE(centralDirectory.length, 12)
+  end.writeUInt32LE(offset, 16) // Offset of the central directory
+
+  return Buffer.concat([...localParts, centralDirectory, end])
+}
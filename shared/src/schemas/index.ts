@@ -22,6 +22,7 @@ export const schemaGenerationRequestSchema = z.object({
     includeOrganization: z.boolean().default(true),
     includeLocalBusiness: z.boolean().default(true),
     requestedSchemaTypes: z.array(z.string()).optional(),
+    outputMode: z.enum(['flat', 'graph']).default('flat'),
   }).optional()
 })
 
@@ -31,6 +31,9 @@ export interface UserDomain {
   domain: string
   lastCrawledAt?: string
   totalUrlsDiscovered: number
+  /** Public key for the embeddable schema loader (set once embedding is first enabled) */
+  embedSiteKey?: string
+  embedEnabled?: boolean
   createdAt: string
   updatedAt: string
 }
@@ -45,10 +48,36 @@ export interface DiscoveredUrl {
   isHidden: boolean
   hasSchema: boolean
   lastSchemaGeneratedAt?: string
+  driftStatus?: SchemaDriftStatus
+  driftDetails?: SchemaDriftDetails
+  driftCheckedAt?: string
   createdAt: string
   updatedAt: string
 }
 
+// Schema drift monitoring - live page vs. stored schema
+export type SchemaDriftStatus = 'in_sync' | 'missing_on_page' | 'modified' | 'content_changed' | 'unreachable'
+
+export interface SchemaDriftDetails {
+  missingTypes: string[]
+  modifiedTypes: string[]
+  contentSimilarity?: number  // 0-1, compared to the content the schema was generated from
+  error?: string
+}
+
+export interface DomainDriftSummary {
+  domainId: string
+  domain: string
+  monitoredUrls: number
+  inSync: number
+  missingOnPage: number
+  modified: number
+  contentChanged: number
+  unreachable: number
+  unchecked: number
+  lastCheckedAt?: string
+}
+
 export interface SaveDiscoveredUrlsRequest {
   domain: string
   urls: Array<{
@@ -58,6 +87,79 @@ export interface SaveDiscoveredUrlsRequest {
   }>
 }
 
+/**
+ * Where the site crawler found a URL
+ */
+export type CrawlSource = 'sitemap' | 'feed' | 'hreflang' | 'crawl'
+
+/**
+ * Per-request crawl limits and discovery sources
+ * Omitted fields use the server defaults; values above the server maximums are rejected
+ */
+export interface CrawlOptions {
+  maxUrls?: number
+  /** Deepest URL path (number of path segments) the link crawler follows */
+  maxDepth?: number
+  timeoutMs?: number
+  followSitemaps?: boolean
+  followFeeds?: boolean
+  followHreflang?: boolean
+}
+
+export type CrawlStatus = 'in_progress' | 'completed' | 'failed'
+
+/**
+ * A persisted URL discovery run for a domain
+ */
+export interface SiteCrawl {
+  id: string
+  userId: string
+  domain: string
+  status: CrawlStatus
+  error?: string
+  options: CrawlOptions
+  totalFound: number
+  startedAt: string
+  completedAt?: string
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * A URL found by a crawl
+ */
+export interface CrawledUrl {
+  url: string
+  path: string
+  depth: number
+  source: CrawlSource
+  foundOn?: string
+  lastModified?: string
+  discoveredAt: string
+}
+
+/**
+ * A URL present in both crawls whose metadata differs
+ */
+export interface CrawlUrlChange {
+  url: string
+  changes: Array<'source' | 'lastModified'>
+  before: CrawledUrl
+  after: CrawledUrl
+}
+
+/**
+ * Comparison of two crawls of the same domain
+ */
+export interface CrawlDiff {
+  fromCrawl: SiteCrawl
+  toCrawl: SiteCrawl
+  added: CrawledUrl[]
+  removed: CrawledUrl[]
+  changed: CrawlUrlChange[]
+  unchangedCount: number
+}
+
 export interface UrlLibraryFilters {
   domainId?: string
   hasSchema?: boolean
@@ -124,6 +226,41 @@ export interface ComplianceImpact {
   explanation: string
 }
 
+/**
+ * Google rich-result features the eligibility rules cover
+ */
+export type RichResultFeature =
+  | 'product-snippet'
+  | 'merchant-listing'
+  | 'event'
+  | 'recipe'
+  | 'faq'
+  | 'how-to'
+  | 'video'
+  | 'breadcrumb'
+  | 'review-snippet'
+  | 'organization-logo'
+
+/**
+ * eligible: every required and recommended field present
+ * partial: required fields present, some recommended fields missing
+ * ineligible: at least one required field missing
+ */
+export type RichResultStatus = 'eligible' | 'partial' | 'ineligible'
+
+/**
+ * Rich-result eligibility of a schema for one feature
+ */
+export interface RichResultEvaluation {
+  feature: RichResultFeature
+  name: string
+  schemaType: string
+  status: RichResultStatus
+  /** Field paths such as "offers.price"; alternatives are joined with " or " */
+  missingRequired: string[]
+  missingRecommended: string[]
+}
+
 export interface SchemaScore {
   overallScore: number
   breakdown: {
@@ -153,6 +290,10 @@ export interface SchemaScore {
    * Contains tier, bonus points, and user-facing explanation
    */
   complianceImpact?: ComplianceImpact
+  /**
+   * Rich-result eligibility for every feature the schemas target
+   */
+  richResults?: RichResultEvaluation[]
 }
 
 export interface SchemaGenerationResult {
@@ -174,6 +315,20 @@ export interface JsonLdSchema {
   [key: string]: any
 }
 
+/**
+ * How generated schemas are returned: one script per schema (flat) or a single
+ * @graph per page with stable @ids linking the nodes (graph)
+ */
+export type SchemaOutputMode = 'flat' | 'graph'
+
+/**
+ * A page's schemas as one JSON-LD document (graph output mode)
+ */
+export interface JsonLdGraph {
+  '@context': string | string[]
+  '@graph': Record<string, any>[]
+}
+
 // Usage Analytics Types
 export interface UsageAnalytics {
   id: string
@@ -267,6 +422,20 @@ export interface HubSpotConnection {
   updatedAt: string
 }
 
+// Why a HubSpot push failed - decides whether the retry worker tries again
+export type HubSpotSyncFailureReason =
+  | 'rate_limited'          // 429
+  | 'server_error'          // 5xx
+  | 'network_error'         // No response (timeout, connection reset)
+  | 'token_refresh_failed'  // Access token could not be refreshed
+  | 'tier_limited'          // Page head HTML not available on the portal's subscription
+  | 'not_found'             // Post or page no longer exists
+  | 'unauthorized'          // 401/403 - the portal has to be reconnected
+  | 'connection_inactive'   // Connection was disconnected or removed
+  | 'invalid_request'       // Other 4xx
+  | 'superseded'            // A newer push or rollback of the same content replaced it
+  | 'unknown'
+
 export interface HubSpotSyncJob {
   id: string
   userId: string
@@ -278,8 +447,21 @@ export interface HubSpotSyncJob {
   hubspotContentUrl?: string
   status: 'pending' | 'success' | 'failed' | 'retrying'
   errorMessage?: string
+  failureReason?: HubSpotSyncFailureReason
+  isRetryable?: boolean
   retryCount: number
+  nextAttemptAt?: string  // When the retry worker tries again (status 'retrying')
+  schemaHtml?: string     // Script tags pushed - kept so the retry worker can push again
   syncedAt?: string
+  // head HTML snapshots taken when the push was applied (used for rollback)
+  previousHeadHtml?: string
+  newHeadHtml?: string
+  previousLiveHeadHtml?: string  // Pages only: the published head HTML before the push
+  rolledBackAt?: string
+  // Page drafts only: what to do with the draft once the push succeeds
+  publishMode?: HubSpotPublishMode
+  publishDate?: string
+  publishedAt?: string    // When the draft was pushed live or scheduled
   createdAt: string
 }
 
@@ -297,6 +479,7 @@ export interface HubSpotBlogPost {
 
 export interface HubSpotPage {
   id: string
+  contentType?: HubSpotPageContentType  // Site page or landing page (same v3 API)
   name: string
   slug: string
   url: string
@@ -321,6 +504,76 @@ export interface PushSchemaToHubSpotRequest {
   contentType: 'blog_post' | 'page' | 'landing_page'
   schemaHtml: string
   schemaGenerationId?: string
+  publish?: HubSpotPublishOptions  // Pages and landing pages only - blog posts update live
+}
+
+export type HubSpotContentType = 'blog_post' | 'page' | 'landing_page'
+
+export type HubSpotPageContentType = Exclude<HubSpotContentType, 'blog_post'>
+
+// What happens to a page draft after schema is pushed to it
+export type HubSpotPublishMode = 'draft' | 'live' | 'schedule'
+
+export interface HubSpotPublishOptions {
+  mode: HubSpotPublishMode
+  publishDate?: string  // ISO date, required for 'schedule'
+}
+
+export interface PublishHubSpotDraftRequest {
+  connectionId: string
+  contentId: string
+  contentType: HubSpotPageContentType
+  publish: HubSpotPublishOptions
+}
+
+// Whether the SuperSchema block in a page draft has been published
+export type HubSpotSchemaPublishState =
+  | 'published'      // Live head HTML has the same SuperSchema block as the draft
+  | 'draft_only'     // Draft has SuperSchema markup, live version has none
+  | 'draft_differs'  // Live version has older SuperSchema markup than the draft
+
+export interface HubSpotDraftStatus {
+  contentId: string
+  contentType: HubSpotPageContentType
+  title?: string
+  url?: string
+  state: HubSpotSchemaPublishState
+  pageState?: string       // HubSpot page state (PUBLISHED, DRAFT, SCHEDULED...)
+  scheduledFor?: string    // Publish date when the page is scheduled
+  lastSyncedAt?: string
+}
+
+export interface HubSpotBulkPushRequest {
+  connectionId: string
+  urlIds: string[] // URL library IDs
+  publish?: HubSpotPublishOptions
+}
+
+export type HubSpotBulkPushItemStatus =
+  | 'ready'        // Dry run: would change the page head HTML
+  | 'unchanged'    // Page already has this schema
+  | 'no_match'     // No HubSpot content matched the URL with enough confidence
+  | 'no_schema'    // URL has no generated schema yet
+  | 'success'
+  | 'failed'
+
+export interface HubSpotBulkPushItem {
+  urlId: string
+  url: string
+  status: HubSpotBulkPushItemStatus
+  match?: HubSpotContentMatchResult
+  previousHeadHtml?: string
+  newHeadHtml?: string
+  syncJobId?: string
+  error?: string
+  published?: boolean     // Draft pushed live or scheduled after the push
+  publishError?: string   // Push succeeded but publishing the draft failed
+}
+
+export interface HubSpotBulkPushResult {
+  dryRun: boolean
+  items: HubSpotBulkPushItem[]
+  summary: Record<HubSpotBulkPushItemStatus, number>
 }
 
 export interface HubSpotOAuthCallbackData {
@@ -340,6 +593,85 @@ export interface FindConnectionByDomainRequest {
   domain: string
 }
 
+// WordPress Integration Types
+// Connected through an application password (WordPress 5.6+) over the REST API
+
+// Where pushed schema is stored on a post or page
+export type WordPressSchemaInjection =
+  | 'post_meta'   // JSON-LD in a dedicated meta field, printed by the theme or plugin
+  | 'head_block'  // SuperSchema-marked script block merged into a head HTML meta field
+
+export type WordPressContentType = 'post' | 'page'
+
+export interface WordPressConnection {
+  id: string
+  userId: string
+  siteUrl: string
+  siteName?: string
+  username: string
+  injectionMethod: WordPressSchemaInjection
+  metaKey: string  // Must be registered with show_in_rest on the site
+  associatedDomains?: string[]
+  isActive: boolean
+  lastValidatedAt?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CreateWordPressConnectionRequest {
+  siteUrl: string
+  username: string
+  applicationPassword: string
+  injectionMethod?: WordPressSchemaInjection
+  metaKey?: string
+}
+
+export interface WordPressContent {
+  id: string
+  contentType: WordPressContentType
+  title: string
+  slug: string
+  url: string
+  status: string  // publish, future, draft, private...
+  modifiedAt: string
+}
+
+export interface WordPressContentMatchResult {
+  contentId: string
+  contentType: WordPressContentType
+  title: string
+  url: string
+  confidence: number  // 0-1 score
+}
+
+export interface PushSchemaToWordPressRequest {
+  connectionId: string
+  contentId: string
+  contentType: WordPressContentType
+  schemaHtml: string  // Script tags, same as a HubSpot push
+  schemaGenerationId?: string
+  contentTitle?: string
+  contentUrl?: string
+}
+
+export interface WordPressSyncJob {
+  id: string
+  userId: string
+  connectionId: string
+  schemaGenerationId?: string
+  wpContentId: string
+  wpContentType: WordPressContentType
+  wpContentTitle?: string
+  wpContentUrl?: string
+  status: 'pending' | 'success' | 'failed'
+  errorMessage?: string
+  // Meta field value before and after the push
+  previousValue?: string
+  newValue?: string
+  syncedAt?: string
+  createdAt: string
+}
+
 // Release Notes Types
 export interface ReleaseNote {
   id: string
@@ -573,4 +905,460 @@ export interface PublisherSchema {
   telephone?: string
   email?: string
   sameAs?: string[]
-}
\ No newline at end of file
+}
+// =============================================================================
+// TEAM API KEY TYPES
+// =============================================================================
+
+/**
+ * Scopes that can be granted to a team API key
+ */
+export type ApiKeyScope = 'schema:generate' | 'schema:validate'
+
+/**
+ * Team-owned API key (the secret itself is only returned once, see CreatedApiKey)
+ */
+export interface TeamApiKey {
+  id: string
+  teamId: string
+  createdBy: string
+  name: string
+  keyPrefix: string
+  scopes: ApiKeyScope[]
+  lastUsedAt?: string
+  usageCount: number
+  rotatedAt?: string
+  revokedAt?: string
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * Response when a key is created or rotated - includes the raw secret exactly once
+ */
+export interface CreatedApiKey {
+  apiKey: TeamApiKey
+  secret: string
+}
+
+/**
+ * Request to create a new team API key
+ */
+export interface CreateApiKeyRequest {
+  name: string
+  scopes?: ApiKeyScope[]
+}
+
+/**
+ * Request to update an existing team API key
+ */
+export interface UpdateApiKeyRequest {
+  name?: string
+  scopes?: ApiKeyScope[]
+}
+
+// =============================================================================
+// TEAM WEBHOOK TYPES
+// =============================================================================
+
+/**
+ * Events a webhook endpoint can subscribe to
+ * webhook.test is only sent by test sends and can't be subscribed to
+ */
+export type WebhookEventType =
+  | 'schema.generated'
+  | 'schema.refined'
+  | 'schema.updated'            // Edited in the library (PUT /api/library/urls/:urlId/schema)
+  | 'schema.pushed'             // Pushed to a connected CMS
+  | 'schema.validation_failed'  // Generated, refined or edited schema has validation errors
+  | 'webhook.test'
+
+export type WebhookDeliveryStatus = 'pending' | 'delivering' | 'success' | 'failed'
+
+/**
+ * Team-owned outbound webhook endpoint (the signing secret is only returned once, see CreatedWebhookEndpoint)
+ */
+export interface TeamWebhookEndpoint {
+  id: string
+  teamId: string
+  createdBy: string
+  name: string
+  url: string
+  events: WebhookEventType[]
+  secretPrefix: string
+  isActive: boolean
+  rotatedAt?: string
+  previousSecretExpiresAt?: string  // Old secret still signs deliveries until then
+  lastDeliveryAt?: string
+  lastDeliveryStatus?: WebhookDeliveryStatus
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * Response when an endpoint is created or its secret rotated - includes the raw secret exactly once
+ */
+export interface CreatedWebhookEndpoint {
+  endpoint: TeamWebhookEndpoint
+  secret: string
+}
+
+export interface CreateWebhookEndpointRequest {
+  name: string
+  url: string
+  events?: WebhookEventType[]
+}
+
+export interface UpdateWebhookEndpointRequest {
+  name?: string
+  url?: string
+  events?: WebhookEventType[]
+  isActive?: boolean
+}
+
+/**
+ * Body POSTed to webhook endpoints
+ * id is stable across retries of the same event - use it to deduplicate
+ */
+export interface WebhookEventPayload<T = Record<string, any>> {
+  id: string
+  type: WebhookEventType
+  createdAt: string
+  teamId: string
+  data: T
+}
+
+/**
+ * data for schema.generated, schema.refined and schema.updated
+ */
+export interface SchemaWebhookEventData {
+  url: string
+  urlId?: string
+  schemaId?: string
+  schemaTypes: string[]
+  schemas: JsonLdSchema[]
+  htmlScriptTags: string
+  schemaScore?: number
+  userId: string
+}
+
+/**
+ * data for schema.pushed
+ */
+export interface SchemaPushedWebhookEventData {
+  cms: 'hubspot' | 'wordpress'
+  connectionId: string
+  syncJobId: string
+  contentId: string
+  contentType: string
+  contentTitle?: string
+  contentUrl?: string
+  schemaGenerationId?: string
+  userId: string
+}
+
+/**
+ * data for schema.validation_failed
+ */
+export interface SchemaValidationFailedWebhookEventData {
+  url: string
+  urlId?: string
+  schemaId?: string
+  source: 'schema.generated' | 'schema.refined' | 'schema.updated'
+  errors: Array<{ schemaType: string; field: string; message: string }>
+  userId: string
+}
+
+/**
+ * One attempt log entry for an endpoint (payload included so a delivery can be inspected)
+ */
+export interface WebhookDelivery {
+  id: string
+  endpointId: string
+  eventId: string
+  eventType: WebhookEventType
+  status: WebhookDeliveryStatus
+  isTest: boolean
+  attemptCount: number
+  nextAttemptAt?: string
+  responseStatus?: number
+  responseBody?: string
+  errorMessage?: string
+  durationMs?: number
+  deliveredAt?: string
+  createdAt: string
+  payload: WebhookEventPayload
+}
+
+// =============================================================================
+// BATCH GENERATION JOB TYPES
+// =============================================================================
+
+export type BatchJobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'cancelled'
+
+export type BatchJobItemStatus = 'queued' | 'processing' | 'success' | 'failed' | 'cancelled'
+
+/**
+ * What a batch job does with each URL (options.mode): generate new schema (default, costs
+ * credits) or import the JSON-LD the page already publishes (free)
+ */
+export type BatchJobMode = 'generate' | 'import'
+
+/**
+ * Persisted batch generation job (progress counters are denormalized on the job)
+ */
+export interface BatchJob {
+  id: string
+  userId: string
+  teamId?: string
+  status: BatchJobStatus
+  pauseReason?: string
+  options: Record<string, any>
+  totalUrls: number
+  successCount: number
+  failedCount: number
+  creditsUsed: number
+  startedAt?: string
+  completedAt?: string
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * A single URL within a batch job
+ */
+export interface BatchJobItem {
+  id: string
+  jobId: string
+  position: number
+  url: string
+  status: BatchJobItemStatus
+  attempts: number
+  error?: string
+  schemaId?: string
+  discoveredUrlId?: string
+  startedAt?: string
+  completedAt?: string
+}
+
+/**
+ * Job with all of its items - returned when polling a job
+ */
+export interface BatchJobDetails {
+  job: BatchJob
+  items: BatchJobItem[]
+}
+
+/**
+ * Request to queue a new batch generation job
+ */
+export interface CreateBatchJobRequest {
+  urls: string[]
+  options?: Record<string, any>
+}
+
+// =============================================================================
+// SCHEMA EXPORT TYPES
+// =============================================================================
+
+/**
+ * Download formats for a domain's schema: a JSON manifest, a CSV, or a zip bundle
+ * ready to drop into a static-site framework
+ */
+export type SchemaExportFormat = 'json' | 'csv' | 'nextjs' | 'astro' | 'hugo' | 'jekyll'
+
+/**
+ * Schema for one page of an exported domain
+ */
+export interface SchemaExportPage {
+  path: string
+  schemaTypes: string[]
+  /** A single @graph document when exported in graph output mode */
+  schemas: Array<JsonLdSchema | JsonLdGraph>
+  /** Ready-to-paste <script type="application/ld+json"> tags */
+  html: string
+}
+
+/**
+ * JSON manifest export - pages are keyed by normalized URL
+ */
+export interface SchemaExportManifest {
+  domain: string
+  exportedAt: string
+  pageCount: number
+  pages: Record<string, SchemaExportPage>
+}
+
+// =============================================================================
+// SCHEMA AUDIT TYPES
+// =============================================================================
+
+export type SchemaAuditStatus = 'running' | 'completed' | 'failed'
+
+/**
+ * Page type inferred from the URL path, used to group coverage in the report
+ */
+export type SchemaAuditPageType =
+  | 'home'
+  | 'article'
+  | 'product'
+  | 'category'
+  | 'about'
+  | 'contact'
+  | 'docs'
+  | 'legal'
+  | 'other'
+
+/**
+ * Audit result for one page
+ */
+export interface SchemaAuditPage {
+  url: string
+  path: string
+  pageType: SchemaAuditPageType
+  schemaTypes: string[]
+  /** Quality score (0-100), absent when the page has no markup or couldn't be scanned */
+  score?: number
+  isCompliant?: boolean
+  errors: Array<{ code: string; property: string; message: string }>
+  warningCount: number
+  richResults: Array<{ feature: RichResultFeature; name: string; status: RichResultStatus }>
+  /** Organization entities declared on the page */
+  organizations: Array<{ name?: string; url?: string; id?: string }>
+  /** Set when the page couldn't be loaded */
+  scanError?: string
+}
+
+export interface SchemaAuditPageTypeCoverage {
+  pageType: SchemaAuditPageType
+  pages: number
+  pagesWithMarkup: number
+  averageScore: number | null
+  /** Schema type -> number of pages of this type publishing it */
+  schemaTypes: Record<string, number>
+}
+
+/**
+ * A compliance error seen on one or more pages
+ */
+export interface SchemaAuditIssue {
+  code: string
+  property: string
+  message: string
+  pageCount: number
+  exampleUrls: string[]
+}
+
+/**
+ * A distinct Organization entity declared somewhere on the site
+ */
+export interface SchemaAuditOrganization {
+  name?: string
+  url?: string
+  id?: string
+  pageCount: number
+  exampleUrls: string[]
+}
+
+export interface SchemaAuditRichResult {
+  feature: RichResultFeature
+  name: string
+  eligiblePages: number
+  partialPages: number
+  exampleUrls: string[]
+}
+
+export interface SchemaAuditReport {
+  domain: string
+  generatedAt: string
+  summary: {
+    pagesScanned: number
+    pagesWithMarkup: number
+    pagesWithoutMarkup: number
+    pagesFailed: number
+    averageScore: number | null
+    compliantPages: number
+    richResultEligiblePages: number
+  }
+  coverageByPageType: SchemaAuditPageTypeCoverage[]
+  /** Most common compliance errors, most widespread first */
+  commonErrors: SchemaAuditIssue[]
+  pagesWithoutMarkup: string[]
+  organizations: {
+    entities: SchemaAuditOrganization[]
+    /** Human-readable duplicate/conflict findings (empty when the site is consistent) */
+    issues: string[]
+  }
+  richResults: SchemaAuditRichResult[]
+  pages: SchemaAuditPage[]
+}
+
+/**
+ * A site-wide audit of a domain's existing markup (report is set once completed)
+ */
+export interface SchemaAudit {
+  id: string
+  domain: string
+  status: SchemaAuditStatus
+  error?: string
+  maxPages: number
+  pagesTotal: number
+  pagesScanned: number
+  report?: SchemaAuditReport
+  startedAt: string
+  completedAt?: string
+  createdAt: string
+}
+
+export type SchemaAuditExportFormat = 'json' | 'csv'
+
+// =============================================================================
+// CLIENT REPORT TYPES
+// =============================================================================
+
+/**
+ * Download formats for a domain's branded client report
+ */
+export type ClientReportFormat = 'html' | 'pdf'
+
+/** Reporting periods (days) for the GA4 section of a client report */
+export type ClientReportPeriod = 7 | 30 | 90
+
+// =============================================================================
+// CRAWLER LOG TYPES
+// =============================================================================
+
+/**
+ * Access log formats accepted for AI crawler ingestion
+ * - combined: nginx/Apache combined log format
+ * - cloudflare: Logpush HTTP requests dataset (NDJSON)
+ * - cloudfront: CloudFront standard logs (W3C, tab-separated)
+ * - vercel: Vercel log drain JSON
+ */
+export type CrawlerLogFormat = 'combined' | 'cloudflare' | 'cloudfront' | 'vercel'
+
+/**
+ * Whether a hit's IP is in the crawler operator's published ranges
+ * unverified means the operator publishes no ranges or the log has no client IP
+ */
+export type CrawlerVerification = 'verified' | 'unverified' | 'spoofed'
+
+export interface CrawlerLogSource {
+  id: string
+  domain: string
+  /** Key in the public ingest URL (/ingest/crawler-logs/:ingestKey) log drains POST to */
+  ingestKey: string
+  hitsTotal: number
+  lastReceivedAt?: string
+  createdAt: string
+}
+
+export interface CrawlerLogIngestResult {
+  format: CrawlerLogFormat
+  linesTotal: number
+  /** Lines that couldn't be parsed */
+  linesSkipped: number
+  crawlerHits: number
+  verifiedHits: number
+  spoofedHits: number
+}
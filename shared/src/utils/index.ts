@@ -25,4 +25,11 @@ export const sleep = (ms: number): Promise<void> => {
 }
 
 // Export URL utilities
-export * from './urlNormalization.js'
\ No newline at end of file
+export * from './urlNormalization.js'
+
+// Export rich-result eligibility rules and schema scoring
+export * from './richResults.js'
+export * from './schemaScore.js'
+
+// Export line diff (HubSpot head HTML previews)
+export * from './textDiff.js'
@@ -0,0 +1,217 @@
+import type {
+  JsonLdSchema,
+  RichResultEvaluation,
+  RichResultFeature,
+  RichResultStatus
+} from '../types/index.js'
+
+/**
+ * A field path ("offers.price"), or a list of alternatives where any one is enough
+ */
+type FieldRule = string | string[]
+
+interface RichResultRule {
+  feature: RichResultFeature
+  name: string
+  /** Schema types the feature applies to */
+  types: string[]
+  required: FieldRule[]
+  recommended: FieldRule[]
+}
+
+const PRODUCT_TYPES = ['Product', 'ProductGroup', 'ProductModel', 'IndividualProduct', 'SomeProducts', 'Vehicle', 'Car']
+
+const EVENT_TYPES = [
+  'Event', 'BusinessEvent', 'ChildrensEvent', 'ComedyEvent', 'CourseInstance', 'DanceEvent', 'DeliveryEvent',
+  'EducationEvent', 'ExhibitionEvent', 'Festival', 'FoodEvent', 'Hackathon', 'LiteraryEvent', 'MusicEvent',
+  'PublicationEvent', 'SaleEvent', 'ScreeningEvent', 'SocialEvent', 'SportsEvent', 'TheaterEvent', 'VisualArtsEvent'
+]
+
+const ORGANIZATION_TYPES = [
+  'Organization', 'Corporation', 'EducationalOrganization', 'GovernmentOrganization', 'LocalBusiness', 'MedicalOrganization',
+  'NGO', 'NewsMediaOrganization', 'OnlineBusiness', 'OnlineStore', 'PerformingGroup', 'SportsOrganization',
+  'SportsTeam', 'Airline', 'Consortium', 'FundingScheme', 'LibrarySystem', 'ResearchOrganization', 'WorkersUnion',
+  'Restaurant', 'FoodEstablishment', 'Store', 'ProfessionalService', 'LegalService', 'FinancialService',
+  'HealthAndBeautyBusiness', 'HomeAndConstructionBusiness', 'AutomotiveBusiness', 'LodgingBusiness', 'Hotel',
+  'MedicalBusiness', 'Dentist', 'RealEstateAgent', 'TravelAgency'
+]
+
+/**
+ * Required and recommended properties per feature, following Google Search Central's
+ * structured data documentation
+ */
+export const RICH_RESULT_RULES: RichResultRule[] = [
+  {
+    feature: 'product-snippet',
+    name: 'Product snippet',
+    types: PRODUCT_TYPES,
+    required: ['name', ['review', 'aggregateRating', 'offers']],
+    recommended: ['image', 'description', 'aggregateRating', 'review', 'offers']
+  },
+  {
+    feature: 'merchant-listing',
+    name: 'Merchant listing',
+    types: PRODUCT_TYPES,
+    required: ['name', 'image', 'offers', 'offers.price', 'offers.priceCurrency'],
+    recommended: [
+      'description', 'brand', 'sku', ['gtin', 'gtin8', 'gtin12', 'gtin13', 'gtin14', 'mpn'], 'offers.availability',
+      'offers.itemCondition', 'offers.shippingDetails', 'offers.hasMerchantReturnPolicy'
+    ]
+  },
+  {
+    feature: 'event',
+    name: 'Event',
+    types: EVENT_TYPES,
+    required: ['name', 'startDate', 'location'],
+    recommended: [
+      'description', 'endDate', 'eventStatus', 'eventAttendanceMode', 'image', 'offers', 'organizer', 'performer'
+    ]
+  },
+  {
+    feature: 'recipe',
+    name: 'Recipe',
+    types: ['Recipe'],
+    required: ['name', 'image'],
+    recommended: [
+      'author', 'datePublished', 'description', 'recipeIngredient', 'recipeInstructions', 'prepTime', 'cookTime',
+      'totalTime', 'recipeYield', 'recipeCategory', 'recipeCuisine', 'nutrition.calories', 'aggregateRating', 'keywords'
+    ]
+  },
+  {
+    feature: 'faq',
+    name: 'FAQ',
+    types: ['FAQPage'],
+    required: ['mainEntity', 'mainEntity.name', 'mainEntity.acceptedAnswer', 'mainEntity.acceptedAnswer.text'],
+    recommended: []
+  },
+  {
+    feature: 'how-to',
+    name: 'How-to',
+    types: ['HowTo'],
+    required: ['name', 'step', ['step.text', 'step.itemListElement']],
+    recommended: ['description', 'image', 'totalTime', 'estimatedCost', 'supply', 'tool']
+  },
+  {
+    feature: 'video',
+    name: 'Video',
+    types: ['VideoObject'],
+    required: ['name', 'thumbnailUrl', 'uploadDate'],
+    recommended: ['description', ['contentUrl', 'embedUrl'], 'duration']
+  },
+  {
+    feature: 'breadcrumb',
+    name: 'Breadcrumb',
+    types: ['BreadcrumbList'],
+    required: ['itemListElement', 'itemListElement.position', ['itemListElement.name', 'itemListElement.item.name']],
+    recommended: []
+  },
+  {
+    feature: 'review-snippet',
+    name: 'Review snippet',
+    types: ['Review', 'CriticReview', 'EmployerReview', 'UserReview'],
+    required: ['author', 'itemReviewed', 'reviewRating', 'reviewRating.ratingValue'],
+    recommended: ['datePublished', 'reviewRating.bestRating', 'reviewBody']
+  },
+  {
+    feature: 'organization-logo',
+    name: 'Organization logo',
+    types: ORGANIZATION_TYPES,
+    required: ['logo', 'url'],
+    recommended: ['name', 'sameAs', 'description', 'contactPoint', 'address']
+  }
+]
+
+const STATUS_RANK: Record<RichResultStatus, number> = { ineligible: 0, partial: 1, eligible: 2 }
+
+function getTypes(schema: any): string[] {
+  const type = schema?.['@type']
+  if (Array.isArray(type)) return type.filter((t): t is string => typeof t === 'string')
+  return typeof type === 'string' ? [type] : []
+}
+
+function isFilled(value: any): boolean {
+  if (value === undefined || value === null) return false
+  if (typeof value === 'string') return value.trim().length > 0
+  if (Array.isArray(value)) return value.length > 0
+  return true
+}
+
+/**
+ * Check a dotted path. Arrays along the way must have the rest of the path on every item,
+ * so "mainEntity.acceptedAnswer.text" requires an answer on every FAQ question.
+ */
+function hasPath(value: any, segments: string[]): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0 && value.every(item => hasPath(item, segments))
+  }
+  if (segments.length === 0) return isFilled(value)
+  if (!value || typeof value !== 'object') return false
+
+  const [head, ...rest] = segments
+  return isFilled(value[head]) && hasPath(value[head], rest)
+}
+
+function isSatisfied(schema: any, rule: FieldRule): boolean {
+  const alternatives = Array.isArray(rule) ? rule : [rule]
+  return alternatives.some(path => hasPath(schema, path.split('.')))
+}
+
+function describeRule(rule: FieldRule): string {
+  return Array.isArray(rule) ? rule.join(' or ') : rule
+}
+
+/**
+ * Evaluate one schema node against one feature's rules
+ */
+export function evaluateRichResult(schema: JsonLdSchema, rule: RichResultRule): RichResultEvaluation {
+  const missingRequired = rule.required.filter(field => !isSatisfied(schema, field)).map(describeRule)
+  const missingRecommended = rule.recommended.filter(field => !isSatisfied(schema, field)).map(describeRule)
+
+  let status: RichResultStatus = 'eligible'
+  if (missingRequired.length > 0) status = 'ineligible'
+  else if (missingRecommended.length > 0) status = 'partial'
+
+  return {
+    feature: rule.feature,
+    name: rule.name,
+    schemaType: getTypes(schema).join(', '),
+    status,
+    missingRequired,
+    missingRecommended
+  }
+}
+
+/**
+ * Evaluate rich-result eligibility for every feature the schemas target.
+ * Top-level schemas and @graph members are checked; when several nodes target the same
+ * feature, the best result is kept.
+ */
+export function evaluateRichResults(schemas: JsonLdSchema[] | JsonLdSchema): RichResultEvaluation[] {
+  const nodes: JsonLdSchema[] = []
+  for (const schema of Array.isArray(schemas) ? schemas : [schemas]) {
+    if (!schema || typeof schema !== 'object') continue
+    nodes.push(schema)
+    if (Array.isArray(schema['@graph'])) nodes.push(...schema['@graph'])
+  }
+
+  const best = new Map<RichResultFeature, RichResultEvaluation>()
+  for (const node of nodes) {
+    const types = getTypes(node)
+    for (const rule of RICH_RESULT_RULES) {
+      if (!types.some(type => rule.types.includes(type))) continue
+
+      const evaluation = evaluateRichResult(node, rule)
+      const current = best.get(rule.feature)
+      if (!current || STATUS_RANK[evaluation.status] > STATUS_RANK[current.status] ||
+        (evaluation.status === current.status &&
+          evaluation.missingRequired.length + evaluation.missingRecommended.length <
+          current.missingRequired.length + current.missingRecommended.length)) {
+        best.set(rule.feature, evaluation)
+      }
+    }
+  }
+
+  return RICH_RESULT_RULES
+    .filter(rule => best.has(rule.feature))
+    .map(rule => best.get(rule.feature) as RichResultEvaluation)
+}
@@ -1,13 +1,5 @@
-import type { SchemaScore, ActionItem, SchemaOrgCompliance } from '@shared/types'
-
-// Define compliance types locally to avoid import issues
-type ComplianceTier = 'perfect' | 'good' | 'acceptable' | 'minor_issues' | 'non_compliant' | 'severely_non_compliant'
-
-interface ComplianceImpact {
-  tier: ComplianceTier
-  bonusPoints: number
-  explanation: string
-}
+import type { SchemaScore, ActionItem, SchemaOrgCompliance, ComplianceImpact } from '../types/index.js'
+import { evaluateRichResults } from './richResults.js'
 
 /**
  * Calculate compliance bonus/penalty based on validation results
@@ -71,6 +63,9 @@ function getAEOPropertiesForType(schemaType: string): string[] {
   return baseAEO
 }
 
+/**
+ * Score schema quality (shared by the client and the server)
+ */
 export function calculateSchemaScore(schemas: any[], compliance?: SchemaOrgCompliance): SchemaScore {
   const schema = schemas[0] // For now, score the first schema
 
@@ -346,6 +341,28 @@ export function calculateSchemaScore(schemas: any[], compliance?: SchemaOrgCompl
 
   contentQuality = Math.min(qualityScore, 100)
 
+  // RICH RESULTS (reported separately, not weighted into the score)
+  const richResults = evaluateRichResults(schemas)
+
+  richResults.forEach(result => {
+    if (result.status === 'eligible') {
+      strengths.push(`Eligible for ${result.name} rich results`)
+    } else if (result.status === 'ineligible') {
+      suggestions.push(`Add ${result.missingRequired.join(', ')} to qualify for ${result.name} rich results`)
+      actionItems.push({
+        id: `rich-result-${result.feature}`,
+        description: `Add ${result.missingRequired.join(', ')} to qualify for ${result.name} rich results`,
+        priority: 'important',
+        estimatedImpact: 10,
+        effort: 'medium',
+        category: 'recommended'
+      })
+    } else {
+      strengths.push(`Qualifies for ${result.name} rich results`)
+      suggestions.push(`Add ${result.missingRecommended.join(', ')} to enhance ${result.name} rich results`)
+    }
+  })
+
   // Calculate compliance bonus/penalty
   const complianceImpact = calculateComplianceBonus(compliance)
 
@@ -399,6 +416,7 @@ export function calculateSchemaScore(schemas: any[], compliance?: SchemaOrgCompl
     actionItems,
     contentIssues: Object.keys(contentIssues).length > 0 ? contentIssues : undefined,
     schemaOrgCompliance: compliance,
-    complianceImpact
+    complianceImpact,
+    richResults
   }
 }
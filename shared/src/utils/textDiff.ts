@@ -0,0 +1,40 @@
+export interface LineDiffEntry {
+  type: 'unchanged' | 'added' | 'removed'
+  line: string
+}
+
+/**
+ * Line diff of two texts using a longest common subsequence table.
+ * Meant for short documents such as a page's head HTML; the table is O(n * m).
+ */
+export function diffLines(before: string, after: string): LineDiffEntry[] {
+  const a = before ? before.split('\n') : []
+  const b = after ? after.split('\n') : []
+
+  // lcs[i][j] = length of the common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const diff: LineDiffEntry[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      diff.push({ type: 'unchanged', line: a[i] })
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      diff.push({ type: 'removed', line: a[i++] })
+    } else {
+      diff.push({ type: 'added', line: b[j++] })
+    }
+  }
+  while (i < a.length) diff.push({ type: 'removed', line: a[i++] })
+  while (j < b.length) diff.push({ type: 'added', line: b[j++] })
+
+  return diff
+}